@@ -0,0 +1,325 @@
+/*
+ * Local PayPal stub for developing and testing payments without a sandbox account.
+ *
+ *   npm run paypal:stub
+ *   PAYPAL_API_BASE=http://localhost:8089 PAYPAL_CLIENT_ID=stub PAYPAL_CLIENT_SECRET=stub \
+ *     PAYPAL_WEBHOOK_VERIFY=false npm run start:dev
+ *
+ * Stub webhooks are unsigned, hence PAYPAL_WEBHOOK_VERIFY=false (ignored when NODE_ENV=production).
+ *
+ * Implements the REST calls the backend makes (OAuth token, Orders v2, catalog products, billing
+ * plans, subscriptions, capture / sale refunds) in memory, and posts PayPal-shaped webhook events to the backend.
+ * The approve link of a subscription (GET /__stub/approve/:id) activates it, "charges" the first
+ * cycle and redirects to the return_url, like PayPal does after the buyer approves.
+ *
+ * Test hooks:
+ *   POST /__stub/subscriptions/:id/renew    successful renewal (PAYMENT.SALE.COMPLETED)
+ *   POST /__stub/subscriptions/:id/fail     failed renewal; suspends after payment_failure_threshold
+ *   POST /__stub/subscriptions/:id/expire   BILLING.SUBSCRIPTION.EXPIRED
+ *   POST /__stub/webhooks/:id/resend        redeliver a sent event (same event id)
+ *   GET  /__stub/state                      everything the stub holds
+ *
+ * Env: PAYPAL_STUB_PORT (8089), PAYPAL_STUB_WEBHOOK_URL (http://localhost:4000/api/payments/webhook).
+ */
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = Number(process.env.PAYPAL_STUB_PORT || 8089);
+const SELF = `http://localhost:${PORT}`;
+const WEBHOOK_URL = process.env.PAYPAL_STUB_WEBHOOK_URL || 'http://localhost:4000/api/payments/webhook';
+
+const state = { products: {}, plans: {}, subscriptions: {}, orders: {}, sales: {}, requestIds: {}, webhooks: {}, refunds: {} };
+
+function id(prefix) {
+  return `${prefix}-${crypto.randomBytes(8).toString('hex').toUpperCase()}`;
+}
+
+function now() {
+  return new Date().toISOString();
+}
+
+function addCycle(fromIso, plan) {
+  const d = new Date(fromIso);
+  const unit = plan?.billing_cycles?.[0]?.frequency?.interval_unit || 'MONTH';
+  const count = Number(plan?.billing_cycles?.[0]?.frequency?.interval_count || 1);
+  if (unit === 'YEAR') d.setFullYear(d.getFullYear() + count);
+  else if (unit === 'DAY') d.setDate(d.getDate() + count);
+  else d.setMonth(d.getMonth() + count);
+  return d.toISOString();
+}
+
+function planPrice(plan) {
+  return plan?.billing_cycles?.[0]?.pricing_scheme?.fixed_price || { value: '0.00', currency_code: 'USD' };
+}
+
+async function sendWebhook(eventType, resource) {
+  const event = {
+    id: id('WH'),
+    event_version: '1.0',
+    create_time: now(),
+    resource_type: eventType.startsWith('PAYMENT.SALE') ? 'sale' : 'subscription',
+    event_type: eventType,
+    summary: `stub ${eventType}`,
+    resource,
+  };
+  state.webhooks[event.id] = event;
+  return deliverWebhook(event);
+}
+
+async function deliverWebhook(event) {
+  const eventType = event.event_type;
+  try {
+    const res = await fetch(WEBHOOK_URL, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(event) });
+    console.log(`[paypal-stub] webhook ${eventType} -> ${res.status}`);
+  } catch (err) {
+    console.warn(`[paypal-stub] webhook ${eventType} failed: ${err.message}`);
+  }
+  return event;
+}
+
+// Charge one cycle: records a sale, moves next_billing_time and sends PAYMENT.SALE.COMPLETED
+async function chargeCycle(sub) {
+  const plan = state.plans[sub.plan_id];
+  const price = planPrice(plan);
+  const sale = {
+    id: id('SALE'),
+    state: 'completed',
+    amount: { total: price.value, currency: price.currency_code },
+    billing_agreement_id: sub.id,
+    create_time: now(),
+  };
+  state.sales[sale.id] = sale;
+  const from = sub.billing_info.next_billing_time && sub.billing_info.next_billing_time > now() ? sub.billing_info.next_billing_time : now();
+  sub.billing_info.next_billing_time = addCycle(from, plan);
+  sub.billing_info.last_payment = { amount: { value: price.value, currency_code: price.currency_code }, time: sale.create_time };
+  sub.billing_info.failed_payments_count = 0;
+  sub.update_time = now();
+  await sendWebhook('PAYMENT.SALE.COMPLETED', sale);
+  return sale;
+}
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let data = '';
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => {
+      if (!data) return resolve({});
+      try {
+        resolve(JSON.parse(data));
+      } catch {
+        resolve(Object.fromEntries(new URLSearchParams(data)));
+      }
+    });
+  });
+}
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function notFound(res, what) {
+  send(res, 404, { name: 'RESOURCE_NOT_FOUND', message: `${what} not found` });
+}
+
+// PayPal-Request-Id: a repeated create returns the resource from the first call
+function idempotent(req, create) {
+  const key = req.headers['paypal-request-id'];
+  if (key && state.requestIds[key]) return state.requestIds[key];
+  const created = create();
+  if (key) state.requestIds[key] = created;
+  return created;
+}
+
+const routes = [
+  ['POST', /^\/v1\/oauth2\/token$/, (req, res) => send(res, 200, { access_token: 'stub-access-token', token_type: 'Bearer', expires_in: 32400 })],
+
+  /* ---------- Orders v2 ---------- */
+  ['POST', /^\/v2\/checkout\/orders$/, async (req, res) => {
+    const body = await readBody(req);
+    const order = { id: id('ORDER'), intent: body.intent || 'CAPTURE', status: 'CREATED', purchase_units: body.purchase_units || [], create_time: now() };
+    order.links = [{ rel: 'approve', href: `${SELF}/__stub/orders/${order.id}/approve`, method: 'GET' }];
+    state.orders[order.id] = order;
+    send(res, 201, order);
+  }],
+  ['POST', /^\/v2\/checkout\/orders\/([^/]+)\/capture$/, (req, res, [orderId]) => {
+    const order = state.orders[orderId];
+    if (!order) return notFound(res, 'Order');
+    order.status = 'COMPLETED';
+    order.payer = { email_address: 'buyer@example.com', name: { given_name: 'Stub', surname: 'Buyer' } };
+    const unit = order.purchase_units[0] || {};
+    unit.payments = { captures: [{ id: id('CAPTURE'), status: 'COMPLETED', amount: unit.amount, create_time: now() }] };
+    send(res, 201, order);
+  }],
+  ['GET', /^\/v2\/checkout\/orders\/([^/]+)$/, (req, res, [orderId]) => (state.orders[orderId] ? send(res, 200, state.orders[orderId]) : notFound(res, 'Order'))],
+
+  /* ---------- Refunds (webhook follows shortly after, like PayPal) ---------- */
+  ['POST', /^\/v2\/payments\/captures\/([^/]+)\/refund$/, async (req, res, [captureId]) => {
+    const body = await readBody(req);
+    const capture = Object.values(state.orders)
+      .flatMap((o) => (o.purchase_units || []).flatMap((u) => u.payments?.captures || []))
+      .find((c) => c.id === captureId);
+    if (!capture) return notFound(res, 'Capture');
+    const refund = idempotent(req, () => ({
+      id: id('REFUND'),
+      status: 'COMPLETED',
+      amount: body.amount || capture.amount,
+      note_to_payer: body.note_to_payer,
+      create_time: now(),
+      links: [{ rel: 'up', href: `${SELF}/v2/payments/captures/${captureId}`, method: 'GET' }],
+    }));
+    if (!state.refunds[refund.id]) {
+      state.refunds[refund.id] = refund;
+      setTimeout(() => sendWebhook('PAYMENT.CAPTURE.REFUNDED', refund), 200);
+    }
+    send(res, 201, refund);
+  }],
+  ['POST', /^\/v1\/payments\/sale\/([^/]+)\/refund$/, async (req, res, [saleId]) => {
+    const body = await readBody(req);
+    const sale = state.sales[saleId];
+    if (!sale) return notFound(res, 'Sale');
+    const refund = idempotent(req, () => ({ id: id('REFUND'), state: 'completed', amount: body.amount || sale.amount, sale_id: saleId, create_time: now() }));
+    if (!state.refunds[refund.id]) {
+      state.refunds[refund.id] = refund;
+      setTimeout(() => sendWebhook('PAYMENT.SALE.REFUNDED', refund), 200);
+    }
+    send(res, 201, refund);
+  }],
+
+  /* ---------- Catalog products / plans ---------- */
+  ['POST', /^\/v1\/catalogs\/products$/, async (req, res) => {
+    const body = await readBody(req);
+    const product = idempotent(req, () => ({ id: id('PROD'), ...body, create_time: now() }));
+    state.products[product.id] = product;
+    send(res, 201, product);
+  }],
+  ['POST', /^\/v1\/billing\/plans$/, async (req, res) => {
+    const body = await readBody(req);
+    const plan = idempotent(req, () => ({ id: id('P'), status: 'ACTIVE', ...body, create_time: now() }));
+    state.plans[plan.id] = plan;
+    send(res, 201, plan);
+  }],
+  ['GET', /^\/v1\/billing\/plans\/([^/]+)$/, (req, res, [planId]) => (state.plans[planId] ? send(res, 200, state.plans[planId]) : notFound(res, 'Plan'))],
+
+  /* ---------- Subscriptions ---------- */
+  ['POST', /^\/v1\/billing\/subscriptions$/, async (req, res) => {
+    const body = await readBody(req);
+    if (!state.plans[body.plan_id]) {
+      // plans configured through env (PAYPAL_PLAN_ID_*) are accepted as monthly USD 0.00 plans
+      state.plans[body.plan_id] = { id: body.plan_id, status: 'ACTIVE', billing_cycles: [{ frequency: { interval_unit: 'MONTH', interval_count: 1 } }] };
+    }
+    const sub = {
+      id: id('I'),
+      plan_id: body.plan_id,
+      custom_id: body.custom_id,
+      status: 'APPROVAL_PENDING',
+      start_time: body.start_time || now(),
+      subscriber: body.subscriber || { email_address: 'buyer@example.com' },
+      billing_info: { failed_payments_count: 0, next_billing_time: null, last_payment: null },
+      application_context: body.application_context || {},
+      create_time: now(),
+    };
+    sub.links = [{ rel: 'approve', href: `${SELF}/__stub/approve/${sub.id}`, method: 'GET' }, { rel: 'self', href: `${SELF}/v1/billing/subscriptions/${sub.id}`, method: 'GET' }];
+    state.subscriptions[sub.id] = sub;
+    send(res, 201, sub);
+  }],
+  ['GET', /^\/v1\/billing\/subscriptions\/([^/]+)$/, (req, res, [subId]) => {
+    const sub = state.subscriptions[subId];
+    if (!sub) return notFound(res, 'Subscription');
+    const { application_context, ...visible } = sub;
+    send(res, 200, visible);
+  }],
+  ['POST', /^\/v1\/billing\/subscriptions\/([^/]+)\/(cancel|suspend|activate)$/, async (req, res, [subId, action]) => {
+    const sub = state.subscriptions[subId];
+    if (!sub) return notFound(res, 'Subscription');
+    if (sub.status === 'CANCELLED') return send(res, 422, { name: 'UNPROCESSABLE_ENTITY', details: [{ issue: 'SUBSCRIPTION_STATUS_INVALID' }] });
+    const next = { cancel: 'CANCELLED', suspend: 'SUSPENDED', activate: 'ACTIVE' }[action];
+    sub.status = next;
+    sub.status_update_time = now();
+    if (next !== 'ACTIVE') sub.billing_info.next_billing_time = null;
+    else if (!sub.billing_info.next_billing_time) sub.billing_info.next_billing_time = addCycle(now(), state.plans[sub.plan_id]);
+    send(res, 204);
+    sendWebhook(`BILLING.SUBSCRIPTION.${next === 'ACTIVE' ? 'ACTIVATED' : next}`, sub);
+  }],
+
+  /* ---------- Buyer approval + test hooks ---------- */
+  ['GET', /^\/__stub\/approve\/([^/]+)$/, async (req, res, [subId]) => {
+    const sub = state.subscriptions[subId];
+    if (!sub) return notFound(res, 'Subscription');
+    if (sub.status === 'APPROVAL_PENDING') {
+      sub.status = 'ACTIVE';
+      sub.status_update_time = now();
+      if (sub.start_time > now()) {
+        // delayed start: first charge happens at start_time
+        sub.billing_info.next_billing_time = sub.start_time;
+        await sendWebhook('BILLING.SUBSCRIPTION.ACTIVATED', sub);
+      } else {
+        await chargeCycle(sub);
+        await sendWebhook('BILLING.SUBSCRIPTION.ACTIVATED', sub);
+      }
+    }
+    const returnUrl = sub.application_context.return_url;
+    if (!returnUrl) return send(res, 200, sub);
+    const sep = returnUrl.includes('?') ? '&' : '?';
+    res.writeHead(302, { Location: `${returnUrl}${sep}subscription_id=${encodeURIComponent(sub.id)}&ba_token=${id('BA')}&token=${id('EC')}` });
+    res.end();
+  }],
+  ['POST', /^\/__stub\/subscriptions\/([^/]+)\/renew$/, async (req, res, [subId]) => {
+    const sub = state.subscriptions[subId];
+    if (!sub) return notFound(res, 'Subscription');
+    if (sub.status !== 'ACTIVE') return send(res, 422, { message: `subscription is ${sub.status}` });
+    const sale = await chargeCycle(sub);
+    send(res, 200, { subscription: sub, sale });
+  }],
+  ['POST', /^\/__stub\/subscriptions\/([^/]+)\/fail$/, async (req, res, [subId]) => {
+    const sub = state.subscriptions[subId];
+    if (!sub) return notFound(res, 'Subscription');
+    sub.billing_info.failed_payments_count = Number(sub.billing_info.failed_payments_count || 0) + 1;
+    sub.update_time = now();
+    await sendWebhook('BILLING.SUBSCRIPTION.PAYMENT.FAILED', sub);
+    const threshold = Number(state.plans[sub.plan_id]?.payment_preferences?.payment_failure_threshold || 3);
+    if (sub.billing_info.failed_payments_count >= threshold) {
+      sub.status = 'SUSPENDED';
+      sub.status_update_time = now();
+      sub.billing_info.next_billing_time = null;
+      await sendWebhook('BILLING.SUBSCRIPTION.SUSPENDED', sub);
+    }
+    send(res, 200, sub);
+  }],
+  ['POST', /^\/__stub\/subscriptions\/([^/]+)\/expire$/, async (req, res, [subId]) => {
+    const sub = state.subscriptions[subId];
+    if (!sub) return notFound(res, 'Subscription');
+    sub.status = 'EXPIRED';
+    sub.status_update_time = now();
+    sub.billing_info.next_billing_time = null;
+    await sendWebhook('BILLING.SUBSCRIPTION.EXPIRED', sub);
+    send(res, 200, sub);
+  }],
+  ['POST', /^\/__stub\/webhooks\/([^/]+)\/resend$/, async (req, res, [eventId]) => {
+    const event = state.webhooks[eventId];
+    if (!event) return notFound(res, `webhook ${eventId}`);
+    send(res, 200, await deliverWebhook(event));
+  }],
+  ['GET', /^\/__stub\/state$/, (req, res) => send(res, 200, state)],
+];
+
+const server = http.createServer(async (req, res) => {
+  const path = (req.url || '/').split('?')[0];
+  for (const [method, pattern, handler] of routes) {
+    const match = req.method === method && path.match(pattern);
+    if (match) {
+      try {
+        await handler(req, res, match.slice(1));
+      } catch (err) {
+        console.error('[paypal-stub] handler error', err);
+        if (!res.headersSent) send(res, 500, { name: 'INTERNAL_SERVER_ERROR', message: err.message });
+      }
+      return;
+    }
+  }
+  notFound(res, `${req.method} ${path}`);
+});
+
+server.listen(PORT, () => {
+  console.log(`[paypal-stub] listening on ${SELF}; webhooks -> ${WEBHOOK_URL}`);
+});
@@ -0,0 +1,139 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { AdaptiveEngineService, nextDifficulty } from './adaptive-engine.service';
+import { AdaptiveSession } from './entities/adaptive-session.entity';
+import { GeneratedQuestion } from './entities/generated-question.entity';
+import { SessionPerformance } from './entities/session-performance.entity';
+import { GenerateV2Service } from './generate-v2.service';
+import { QuestionBankService } from './question-bank.service';
+
+declare const describe: any;
+declare const beforeEach: any;
+declare const it: any;
+declare const expect: any;
+declare const jest: any;
+
+describe('nextDifficulty', () => {
+  it('steps up after consistent, timely correct answers', () => {
+    expect(nextDifficulty('beginner', [{ correct: true, timeSeconds: 30 }, { correct: true, timeSeconds: 40 }])).toBe('intermediate');
+    expect(nextDifficulty('advanced', [{ correct: true, timeSeconds: 30 }])).toBe('advanced');
+  });
+
+  it('stays put when a correct answer was slow', () => {
+    expect(nextDifficulty('intermediate', [{ correct: true, timeSeconds: 200 }], 60)).toBe('intermediate');
+  });
+
+  it('steps down after misses', () => {
+    expect(nextDifficulty('advanced', [{ correct: false, timeSeconds: 20 }, { correct: false, timeSeconds: 20 }])).toBe('intermediate');
+    expect(nextDifficulty('beginner', [{ correct: false }])).toBe('beginner');
+    // one slip after a strong run is not enough on its own
+    expect(nextDifficulty('intermediate', [{ correct: false, timeSeconds: 30 }, { correct: true }, { correct: true }])).toBe('intermediate');
+  });
+});
+
+describe('AdaptiveEngineService', () => {
+  let service: AdaptiveEngineService;
+  let sessionRepo: Record<string, any>;
+  let questionRepo: Record<string, any>;
+  let perfRepo: Record<string, any>;
+  let generator: { generateSingle: any };
+  let questionBank: { drawUnseen: any };
+
+  const bankQuestion = {
+    question_id: 'bank-1',
+    question_text: 'What is 2 + 3?',
+    choices: ['4', '5', '6', '7'],
+    correct_answer: '5',
+    explanation: '2 + 3 = 5',
+    difficulty: 'intermediate',
+    topic: 'Algebra',
+    estimated_time_seconds: 60,
+  };
+
+  beforeEach(async () => {
+    sessionRepo = {
+      create: jest.fn((s: any) => ({ id: 9, ...s })),
+      save: jest.fn(async (s: any) => s),
+      findOne: jest.fn(),
+    };
+    questionRepo = { createQueryBuilder: jest.fn(), findOne: jest.fn() };
+    perfRepo = { create: jest.fn((r: any) => r), save: jest.fn(async (r: any) => r), find: jest.fn() };
+    // the transaction runs on the same mocked repos
+    sessionRepo.manager = {
+      transaction: jest.fn(async (work: any) =>
+        work({ getRepository: (entity: any) => (entity === AdaptiveSession ? sessionRepo : perfRepo) }),
+      ),
+    };
+    generator = { generateSingle: jest.fn() };
+    questionBank = { drawUnseen: jest.fn().mockResolvedValue([]) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdaptiveEngineService,
+        { provide: getRepositoryToken(AdaptiveSession), useValue: sessionRepo },
+        { provide: getRepositoryToken(GeneratedQuestion), useValue: questionRepo },
+        { provide: getRepositoryToken(SessionPerformance), useValue: perfRepo },
+        { provide: GenerateV2Service, useValue: generator },
+        { provide: QuestionBankService, useValue: questionBank },
+      ],
+    }).compile();
+
+    service = module.get<AdaptiveEngineService>(AdaptiveEngineService);
+  });
+
+  it('start serves an unseen bank question without calling the LLM and hides the answer key', async () => {
+    questionBank.drawUnseen.mockResolvedValue([bankQuestion]);
+
+    const res: any = await service.start(1, 'Algebra');
+
+    expect(generator.generateSingle).not.toHaveBeenCalled();
+    expect(res.difficulty).toBe('intermediate');
+    expect(res.question.question_id).toBe('bank-1');
+    expect(res.question.correct_answer).toBeUndefined();
+  });
+
+  it('start falls back to generation when the bank has nothing unseen', async () => {
+    generator.generateSingle.mockResolvedValue({ ...bankQuestion, question_id: 'gen-1', difficulty: 'beginner' });
+
+    const res: any = await service.start(1, 'Algebra', 'beginner');
+
+    expect(generator.generateSingle).toHaveBeenCalledWith('Algebra', 'beginner', 1);
+    expect(res.question.question_id).toBe('gen-1');
+    // a generated question is an unreviewed draft
+    expect(res.question.reviewed).toBe(false);
+  });
+
+  it('answer grades on the server, records performance and raises difficulty after a correct answer', async () => {
+    sessionRepo.findOne.mockImplementation(async () => ({
+      id: 9, user_id: 1, topic: 'Algebra', difficulty: 'intermediate', current_question_id: 'bank-1', answered: 0, correct: 0, status: 'active',
+    }));
+    questionRepo.findOne.mockResolvedValue(bankQuestion);
+    perfRepo.find.mockResolvedValue([{ correct: true, time_seconds: 40 }]);
+    questionBank.drawUnseen.mockResolvedValue([{ ...bankQuestion, question_id: 'bank-2', difficulty: 'advanced', status: 'approved' }]);
+
+    const res: any = await service.answer(1, 9, 'bank-1', '5', 25);
+
+    expect(perfRepo.save).toHaveBeenCalledWith(expect.objectContaining({ session_id: 'adaptive-9', question_id: 'bank-1', correct: true, time_seconds: 25 }));
+    expect(sessionRepo.findOne).toHaveBeenLastCalledWith(expect.objectContaining({ lock: { mode: 'pessimistic_write' } }));
+    expect(res.correct).toBe(true);
+    expect(res.difficulty).toBe('advanced');
+    expect(questionBank.drawUnseen).toHaveBeenCalledWith(1, 'Algebra', 'advanced', 1, ['bank-1']);
+    expect(res.question).toEqual(expect.objectContaining({ question_id: 'bank-2', reviewed: true }));
+    expect(res.stats).toEqual({ answered: 1, correct: 1, accuracy: 1 });
+    expect(sessionRepo.save).toHaveBeenCalledWith(expect.objectContaining({ difficulty: 'advanced', current_question_id: 'bank-2', answered: 1 }));
+  });
+
+  it('answer records nothing when a retried request finds the session already moved on', async () => {
+    const served = { id: 9, user_id: 1, topic: 'Algebra', difficulty: 'intermediate', current_question_id: 'bank-1', answered: 0, correct: 0, status: 'active' };
+    // the first read still sees bank-1; the locked read inside the transaction sees the other request's update
+    sessionRepo.findOne.mockResolvedValueOnce({ ...served }).mockResolvedValueOnce({ ...served, current_question_id: 'bank-2', answered: 1 });
+    questionRepo.findOne.mockResolvedValue(bankQuestion);
+    perfRepo.find.mockResolvedValue([]);
+    questionBank.drawUnseen.mockResolvedValue([{ ...bankQuestion, question_id: 'bank-3', status: 'approved' }]);
+
+    await expect(service.answer(1, 9, 'bank-1', '5', 25)).rejects.toThrow(BadRequestException);
+    expect(perfRepo.save).not.toHaveBeenCalled();
+    expect(sessionRepo.save).not.toHaveBeenCalled();
+  });
+});
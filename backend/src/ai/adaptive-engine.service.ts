@@ -0,0 +1,247 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AdaptiveSession } from './entities/adaptive-session.entity';
+import { GeneratedQuestion } from './entities/generated-question.entity';
+import { SessionPerformance } from './entities/session-performance.entity';
+import { GenerateV2Service } from './generate-v2.service';
+import { QuestionBankService } from './question-bank.service';
+import { gradeAnswer } from './question-types';
+
+export const DIFFICULTY_LEVELS = ['beginner', 'intermediate', 'advanced'] as const;
+export type DifficultyLevel = (typeof DIFFICULTY_LEVELS)[number];
+
+// How many of the latest answers drive the next difficulty
+const RECENT_WINDOW = 3;
+const DEFAULT_EXPECTED_SECONDS = 60;
+
+export interface AdaptiveSignal {
+  correct: boolean;
+  timeSeconds?: number | null;
+}
+
+export function normalizeDifficulty(value?: string | null): DifficultyLevel {
+  const v = String(value ?? '').toLowerCase();
+  if (/adv|hard/.test(v)) return 'advanced';
+  if (/beg|easy/.test(v)) return 'beginner';
+  return 'intermediate';
+}
+
+/**
+ * Difficulty for the next question given the latest answers (newest first).
+ * - step up: last answer correct, window accuracy >= 2/3 and not slow
+ * - step down: last answer wrong and either window accuracy <= 1/3 or the answer was slow
+ * - otherwise stay
+ * "Slow" means more than 1.5x the question's expected time.
+ */
+export function nextDifficulty(current: string, recent: AdaptiveSignal[], expectedSeconds = DEFAULT_EXPECTED_SECONDS): DifficultyLevel {
+  const idx = DIFFICULTY_LEVELS.indexOf(normalizeDifficulty(current));
+  if (!recent.length) return DIFFICULTY_LEVELS[idx];
+
+  const window = recent.slice(0, RECENT_WINDOW);
+  const accuracy = window.filter((r) => r.correct).length / window.length;
+  const last = window[0];
+  const slow = last.timeSeconds != null && last.timeSeconds > expectedSeconds * 1.5;
+
+  if (last.correct && accuracy >= 2 / 3 && !slow) {
+    return DIFFICULTY_LEVELS[Math.min(idx + 1, DIFFICULTY_LEVELS.length - 1)];
+  }
+  if (!last.correct && (accuracy <= 1 / 3 || slow)) {
+    return DIFFICULTY_LEVELS[Math.max(idx - 1, 0)];
+  }
+  return DIFFICULTY_LEVELS[idx];
+}
+
+// Bank row or freshly generated question (same snake_case shape); status 'approved' = reviewed
+interface ServedQuestion {
+  question_id: string;
+  question_text: string;
+  choices: string[];
+  correct_answer: string;
+  question_type?: string | null;
+  accepted_answers?: string[] | null;
+  tolerance?: number | null;
+  explanation?: string | null;
+  difficulty: string;
+  topic: string;
+  estimated_time_seconds?: number;
+  status?: string | null;
+}
+
+@Injectable()
+export class AdaptiveEngineService {
+  private readonly logger = new Logger(AdaptiveEngineService.name);
+
+  constructor(
+    @InjectRepository(AdaptiveSession)
+    private readonly sessionRepo: Repository<AdaptiveSession>,
+    @InjectRepository(GeneratedQuestion)
+    private readonly questionRepo: Repository<GeneratedQuestion>,
+    @InjectRepository(SessionPerformance)
+    private readonly perfRepo: Repository<SessionPerformance>,
+    private readonly generator: GenerateV2Service,
+    private readonly questionBank: QuestionBankService,
+  ) {}
+
+  async start(userId: number, topic: string, difficulty?: string) {
+    const cleanTopic = String(topic || '').trim();
+    if (!cleanTopic) throw new BadRequestException('topic is required');
+
+    // CAT convention: start in the middle unless the student picks a level
+    const level = normalizeDifficulty(difficulty);
+    const session = this.sessionRepo.create({ user_id: userId, topic: cleanTopic, difficulty: level, answered: 0, correct: 0, status: 'active' });
+    await this.sessionRepo.save(session);
+
+    const question = await this.pickQuestion(session, level);
+    session.current_question_id = question.question_id;
+    await this.sessionRepo.save(session);
+
+    return { sessionId: session.id, difficulty: level, question: this.toClient(question), stats: this.stats(session) };
+  }
+
+  /**
+   * Grade the served question, record it in session_performance and serve the next one.
+   * The next question is picked first; recording the answer and moving the session on to it then
+   * happen in one transaction on the locked session row, so a retried request that lost the race
+   * is refused instead of recording the answer twice.
+   */
+  async answer(userId: number, sessionId: number, questionId: string, answer: string | string[], timeSeconds?: number | null) {
+    const session = await this.getOwnedSession(userId, sessionId);
+    if (session.status !== 'active') throw new BadRequestException('This adaptive session has finished.');
+    if (!questionId || String(questionId) !== String(session.current_question_id)) {
+      throw new BadRequestException('Answer does not match the question being served.');
+    }
+
+    const question = await this.questionRepo.findOne({ where: { question_id: String(questionId) } });
+    if (!question) throw new NotFoundException('Question not found');
+
+    const correct = gradeAnswer(
+      { type: question.question_type, correctAnswer: question.correct_answer, acceptedAnswers: question.accepted_answers, tolerance: question.tolerance },
+      answer,
+    );
+    const seconds = Number(timeSeconds);
+    const timeSpent = Number.isFinite(seconds) && seconds >= 0 ? Math.round(seconds) : null;
+
+    // this answer plus the latest recorded ones (newest first)
+    const previous = await this.perfRepo.find({
+      where: { session_id: AdaptiveEngineService.perfSessionId(session.id) },
+      order: { id: 'DESC' },
+      take: RECENT_WINDOW - 1,
+    });
+    const level = nextDifficulty(
+      session.difficulty,
+      [{ correct, timeSeconds: timeSpent }, ...previous.map((r) => ({ correct: r.correct, timeSeconds: r.time_seconds }))],
+      question.estimated_time_seconds || DEFAULT_EXPECTED_SECONDS,
+    );
+
+    const next = await this.pickQuestion(session, level, [question.question_id]);
+
+    const saved = await this.sessionRepo.manager.transaction(async (trx) => {
+      const sessions = trx.getRepository(AdaptiveSession);
+      const locked = await sessions.findOne({ where: { id: session.id, user_id: userId }, lock: { mode: 'pessimistic_write' } });
+      if (!locked || locked.status !== 'active' || String(locked.current_question_id) !== String(question.question_id)) {
+        throw new BadRequestException('This question has already been answered.');
+      }
+      const perf = trx.getRepository(SessionPerformance);
+      await perf.save(
+        perf.create({
+          session_id: AdaptiveEngineService.perfSessionId(locked.id),
+          user_id: userId,
+          question_id: question.question_id,
+          difficulty: locked.difficulty,
+          topic: locked.topic,
+          correct,
+          time_seconds: timeSpent,
+          answer_changes: 0,
+        }),
+      );
+      locked.answered += 1;
+      if (correct) locked.correct += 1;
+      locked.difficulty = level;
+      locked.current_question_id = next.question_id;
+      return sessions.save(locked);
+    });
+
+    return {
+      correct,
+      correctAnswer: question.correct_answer,
+      explanation: question.explanation ?? null,
+      difficulty: level,
+      question: this.toClient(next),
+      stats: this.stats(saved),
+    };
+  }
+
+  async finish(userId: number, sessionId: number) {
+    const session = await this.getOwnedSession(userId, sessionId);
+    session.status = 'finished';
+    session.current_question_id = null;
+    await this.sessionRepo.save(session);
+    return { sessionId: session.id, status: session.status, stats: this.stats(session) };
+  }
+
+  /**
+   * Bank first: an unseen question (never answered by this user) at the target level,
+   * then the LLM (which also grows the bank), then any approved bank question not used in this session.
+   * A generated question is still a draft nobody reviewed; it is served marked as such.
+   * `exclude`: questions not recorded yet (the one just answered).
+   */
+  private async pickQuestion(session: AdaptiveSession, level: DifficultyLevel, exclude: string[] = []): Promise<ServedQuestion> {
+    const [unseen] = await this.questionBank.drawUnseen(session.user_id, session.topic, level, 1, exclude);
+    if (unseen) return unseen;
+
+    try {
+      return { ...(await this.generator.generateSingle(session.topic, level, session.user_id)), status: 'draft' };
+    } catch (err) {
+      this.logger.warn(`Generation failed for adaptive session ${session.id} (${session.topic}/${level}): ${String(err?.message ?? err)}`);
+    }
+
+    const reusable = this.questionRepo
+      .createQueryBuilder('q')
+      .where('q.status = :status', { status: 'approved' })
+      .andWhere('LOWER(q.topic) = LOWER(:topic)', { topic: session.topic })
+      .andWhere('q.difficulty = :level', { level })
+      .andWhere('q.question_id NOT IN (SELECT sp.question_id FROM session_performance sp WHERE sp.session_id = :sid)', {
+        sid: AdaptiveEngineService.perfSessionId(session.id),
+      });
+    if (exclude.length) reusable.andWhere('q.question_id NOT IN (:...exclude)', { exclude });
+    const reused = await reusable.orderBy('RANDOM()').getOne();
+    if (reused) return reused;
+
+    throw new NotFoundException(`No ${level} questions available for ${session.topic} right now.`);
+  }
+
+  private async getOwnedSession(userId: number, sessionId: number) {
+    const session = await this.sessionRepo.findOne({ where: { id: sessionId, user_id: userId } });
+    if (!session) throw new NotFoundException('Adaptive session not found');
+    return session;
+  }
+
+  // answer key and explanation stay on the server until the question is answered
+  private toClient(q: ServedQuestion) {
+    return {
+      question_id: q.question_id,
+      // false for a freshly generated question that no admin has reviewed yet
+      reviewed: q.status === 'approved',
+      question_text: q.question_text,
+      choices: q.choices,
+      question_type: q.question_type ?? 'multiple_choice',
+      difficulty: q.difficulty,
+      topic: q.topic,
+      estimated_time_seconds: q.estimated_time_seconds,
+    };
+  }
+
+  private stats(session: AdaptiveSession) {
+    return {
+      answered: session.answered,
+      correct: session.correct,
+      accuracy: session.answered ? Math.round((session.correct / session.answered) * 100) / 100 : null,
+    };
+  }
+
+  // session_performance.session_id namespace for adaptive sessions (test attempts use the bare attempt id)
+  static perfSessionId(id: number) {
+    return `adaptive-${id}`;
+  }
+}
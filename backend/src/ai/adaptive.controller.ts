@@ -0,0 +1,48 @@
+import { Controller, Post, Body, UseGuards, Req, Param, BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { AdaptiveEngineService } from './adaptive-engine.service';
+
+/**
+ * Adaptive (CAT-style) practice: the server picks each next question's difficulty
+ * from the student's running accuracy and timing.
+ */
+@Controller('ai/adaptive')
+@UseGuards(JwtAuthGuard)
+export class AdaptiveController {
+  constructor(private readonly engine: AdaptiveEngineService) {}
+
+  /**
+   * POST /ai/adaptive/start
+   * Body: { topic, difficulty? } -> { sessionId, difficulty, question, stats }
+   */
+  @Post('start')
+  async start(@Req() req, @Body() body: any) {
+    return this.engine.start(this.userId(req), String(body?.topic ?? ''), body?.difficulty);
+  }
+
+  /**
+   * POST /ai/adaptive/:id/answer
+   * Body: { questionId, answer, timeSeconds? } -> { correct, correctAnswer, explanation, difficulty, question, stats }
+   */
+  @Post(':id/answer')
+  async answer(@Req() req, @Param('id') id: string, @Body() body: any) {
+    return this.engine.answer(this.userId(req), this.sessionId(id), String(body?.questionId ?? ''), body?.answer, body?.timeSeconds);
+  }
+
+  @Post(':id/finish')
+  async finish(@Req() req, @Param('id') id: string) {
+    return this.engine.finish(this.userId(req), this.sessionId(id));
+  }
+
+  private userId(req: any): number {
+    const userId = req.user?.sub ? Number(req.user.sub) : NaN;
+    if (!userId || Number.isNaN(userId)) throw new UnauthorizedException('Invalid user');
+    return userId;
+  }
+
+  private sessionId(id: string): number {
+    const n = Number(id);
+    if (!n || Number.isNaN(n)) throw new BadRequestException('Invalid session id');
+    return n;
+  }
+}
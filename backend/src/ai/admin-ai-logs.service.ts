@@ -112,7 +112,7 @@ export class AiLogsAdminService {
    */
   async streamExport(filters: { userId?: number; model?: string; success?: boolean }, res: Response) {
     // Write header
-    const headers = ['id', 'userId', 'model', 'success', 'error', 'prompt', 'params', 'response', 'createdAt'];
+    const headers = ['id', 'userId', 'feature', 'model', 'success', 'error', 'totalTokens', 'costUsd', 'prompt', 'params', 'response', 'createdAt'];
     res.write(headers.join(',') + '\n');
 
     // Page through results
@@ -138,9 +138,12 @@ export class AiLogsAdminService {
         const row = [
           l.id,
           l.userId ?? '',
+          l.feature ?? '',
           l.model ?? '',
           String(l.success),
           l.error ?? '',
+          l.totalTokens ?? '',
+          l.costUsd ?? '',
           safe(l.prompt),
           safe(l.params),
           safe(l.response),
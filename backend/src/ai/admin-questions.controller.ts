@@ -0,0 +1,145 @@
+import { Controller, Get, Put, Post, Body, Param, Query, Req, Res, UseGuards } from '@nestjs/common';
+import { Response } from 'express';
+import { AdminAuthGuard } from '../admin/admin-auth.guard';
+import { AdminQuestionsService } from './admin-questions.service';
+import { QuestionImportExportService } from './question-import-export.service';
+import { QuestionStatus } from './entities/generated-question.entity';
+import { InterchangeFormat } from './question-interchange';
+import { AnswerCheckStatus } from './answer-verifier';
+
+/**
+ * Admin console for the generated_questions bank (review / approve workflow).
+ * All routes protected by AdminAuthGuard.
+ */
+@Controller('admin/questions')
+@UseGuards(AdminAuthGuard)
+export class AdminQuestionsController {
+  constructor(
+    private readonly service: AdminQuestionsService,
+    private readonly interchange: QuestionImportExportService,
+  ) {}
+
+  // GET /admin/questions?search=&topic=&difficulty=&status=&answer_check=&page=&limit=
+  @Get()
+  async list(
+    @Query('search') search?: string,
+    @Query('topic') topic?: string,
+    @Query('difficulty') difficulty?: string,
+    @Query('status') status?: string,
+    @Query('answer_check') answerCheck?: string,
+    @Query('page') page = '1',
+    @Query('limit') limit = '25',
+  ) {
+    const result = await this.service.list({
+      search: search || undefined,
+      topic: topic || undefined,
+      difficulty: difficulty || undefined,
+      status: (status || undefined) as QuestionStatus | undefined,
+      answerCheck: (answerCheck || undefined) as AnswerCheckStatus | undefined,
+      page: Number(page) || 1,
+      limit: Number(limit) || 25,
+    });
+    return { ...result, counts: await this.service.counts() };
+  }
+
+  /**
+   * Download the bank as CSV, JSON or a QTI 2.1 content package (zip).
+   * Placed before ':id' to avoid route collision.
+   * Example: GET /admin/questions/export?format=qti&status=approved&topic=Algebra
+   */
+  @Get('export')
+  async export(
+    @Res() res: Response,
+    @Query('format') format = 'csv',
+    @Query('status') status?: string,
+    @Query('topic') topic?: string,
+    @Query('difficulty') difficulty?: string,
+  ) {
+    const file = await this.interchange.export(format as InterchangeFormat, {
+      status: (status || undefined) as QuestionStatus | undefined,
+      topic: topic || undefined,
+      difficulty: difficulty || undefined,
+    });
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.setHeader('X-Question-Count', String(file.count));
+    res.send(file.body);
+  }
+
+  /**
+   * Bulk import. Body: { format: 'csv'|'json'|'qti', content, encoding?: 'utf8'|'base64',
+   * defaultTopic?, defaultDifficulty?, status?, dryRun? }. QTI zip packages are sent base64-encoded.
+   * Returns per-row validation errors and duplicates alongside the imported count.
+   */
+  @Post('import')
+  async import(@Body() body: any) {
+    return this.interchange.import(body?.format, body?.content, {
+      encoding: body?.encoding === 'base64' ? 'base64' : 'utf8',
+      defaultTopic: body?.defaultTopic || undefined,
+      defaultDifficulty: body?.defaultDifficulty || undefined,
+      status: body?.status || undefined,
+      dryRun: body?.dryRun === true || body?.dryRun === 'true',
+    });
+  }
+
+  /**
+   * Answer-key check over unchecked draft/approved questions ({ recheck: true } for all of them).
+   * Contradicted drafts are quarantined, contradicted approved ones flagged for review.
+   * Returns { checked, verified, contradicted, unverifiable, quarantined, flagged }.
+   */
+  @Post('verify')
+  async verify(@Body() body: any) {
+    return this.service.verifyBank({ recheck: body?.recheck === true || body?.recheck === 'true' });
+  }
+
+  @Get(':id')
+  async detail(@Param('id') id: string) {
+    return { item: await this.service.detail(id) };
+  }
+
+  /**
+   * Edit content. Body: { question_text?, choices?, correct_answer?, question_type?, accepted_answers?, tolerance?, explanation?, topic?,
+   *   difficulty?, estimated_time_seconds? }
+   */
+  @Put(':id')
+  async update(@Param('id') id: string, @Body() body: any, @Req() req: any) {
+    const item = await this.service.update(
+      id,
+      {
+        question_text: body?.question_text,
+        choices: Array.isArray(body?.choices) ? body.choices.map((c: any) => String(c)) : undefined,
+        correct_answer: body?.correct_answer,
+        question_type: body?.question_type,
+        accepted_answers: Array.isArray(body?.accepted_answers) ? body.accepted_answers.map((a: any) => String(a)) : body?.accepted_answers === null ? null : undefined,
+        tolerance: body?.tolerance === null || body?.tolerance === '' ? null : body?.tolerance != null ? Number(body.tolerance) : undefined,
+        explanation: body?.explanation,
+        topic: body?.topic,
+        difficulty: body?.difficulty,
+        estimated_time_seconds: body?.estimated_time_seconds != null ? Number(body.estimated_time_seconds) : undefined,
+      },
+      adminId(req),
+    );
+    return { item };
+  }
+
+  @Post(':id/approve')
+  async approve(@Param('id') id: string, @Req() req: any) {
+    return { item: await this.service.setStatus(id, 'approved', adminId(req)) };
+  }
+
+  @Post(':id/retire')
+  async retire(@Param('id') id: string, @Req() req: any) {
+    return { item: await this.service.setStatus(id, 'retired', adminId(req)) };
+  }
+
+  // Move back to draft (e.g. an approved question that needs another look)
+  @Post(':id/draft')
+  async draft(@Param('id') id: string, @Req() req: any) {
+    return { item: await this.service.setStatus(id, 'draft', adminId(req)) };
+  }
+}
+
+function adminId(req: any): number | null {
+  const n = Number(req?.user?.sub);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
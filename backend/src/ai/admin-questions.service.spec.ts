@@ -0,0 +1,87 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { AdminQuestionsService } from './admin-questions.service';
+import { GeneratedQuestion } from './entities/generated-question.entity';
+
+declare const describe: any;
+declare const beforeEach: any;
+declare const it: any;
+declare const expect: any;
+declare const jest: any;
+
+describe('AdminQuestionsService', () => {
+  let service: AdminQuestionsService;
+  let qRepo: Record<string, any>;
+  let stored: any;
+
+  beforeEach(async () => {
+    stored = {
+      question_id: 'q-1',
+      question_text: 'What is 2 + 2?',
+      choices: ['3', '4', '5'],
+      correct_answer: '5',
+      explanation: null,
+      difficulty: 'beginner',
+      topic: 'Algebra',
+      estimated_time_seconds: 60,
+      status: 'draft',
+    };
+    qRepo = {
+      findOne: jest.fn(async (opts: any) => (opts?.where?.question_id === 'q-1' ? stored : null)),
+      save: jest.fn(async (q: any) => q),
+      // verifyBank: every stored row is unchecked
+      createQueryBuilder: jest.fn(() => {
+        const qb: any = {
+          where: jest.fn(() => qb),
+          andWhere: jest.fn(() => qb),
+          orderBy: jest.fn(() => qb),
+          take: jest.fn(() => qb),
+          getMany: jest.fn(async () => [stored, { ...stored, question_id: 'q-2', question_text: 'Name a prime number.', correct_answer: '3' }]),
+        };
+        return qb;
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [AdminQuestionsService, { provide: getRepositoryToken(GeneratedQuestion), useValue: qRepo }],
+    }).compile();
+
+    service = module.get<AdminQuestionsService>(AdminQuestionsService);
+  });
+
+  it('update fixes a wrong correct_answer and records the reviewer', async () => {
+    const item: any = await service.update('q-1', { correct_answer: '4' }, 3);
+    expect(item.correct_answer).toBe('4');
+    expect(item.answer_check).toBe('verified');
+    expect(item.reviewed_by).toBe(3);
+    expect(item.reviewed_at).toBeInstanceOf(Date);
+  });
+
+  it('update rejects a correct_answer that is not one of the choices', async () => {
+    await expect(service.update('q-1', { correct_answer: '7' })).rejects.toBeInstanceOf(BadRequestException);
+    expect(qRepo.save).not.toHaveBeenCalled();
+  });
+
+  it('setStatus approves known questions and validates the status value', async () => {
+    const item: any = await service.setStatus('q-1', 'approved', 3);
+    expect(item.status).toBe('approved');
+    await expect(service.setStatus('q-1', 'published' as any)).rejects.toBeInstanceOf(BadRequestException);
+    await expect(service.setStatus('missing', 'retired')).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('verifyBank quarantines questions with a contradicted answer key', async () => {
+    const summary = await service.verifyBank();
+    expect(summary).toEqual({ checked: 2, verified: 0, contradicted: 1, unverifiable: 1, quarantined: 1, flagged: 0 });
+    expect(stored.status).toBe('quarantined');
+    expect(stored.metadata.answerCheck).toEqual(expect.objectContaining({ expected: '4', matchedOption: '4' }));
+  });
+
+  it('verifyBank only flags approved questions with a contradicted answer key', async () => {
+    stored.status = 'approved';
+    const summary = await service.verifyBank();
+    expect(summary).toEqual(expect.objectContaining({ contradicted: 1, quarantined: 0, flagged: 1 }));
+    expect(stored.status).toBe('approved');
+    expect(stored.metadata.reviewFlag).toEqual(expect.objectContaining({ reason: 'answer_check_contradicted' }));
+  });
+});
@@ -0,0 +1,179 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { GeneratedQuestion, QuestionStatus, QUESTION_STATUSES } from './entities/generated-question.entity';
+import { QuestionSchema } from './question.schema';
+import { AnswerCheckStatus, verifyAnswer } from './answer-verifier';
+import { DEFAULT_QUESTION_TYPE, QuestionType } from './question-types';
+
+// Rows re-checked per POST /admin/questions/verify call
+const VERIFY_BATCH = 500;
+
+export interface QuestionListFilters {
+  search?: string;
+  topic?: string;
+  difficulty?: string;
+  status?: QuestionStatus;
+  answerCheck?: AnswerCheckStatus;
+  page?: number;
+  limit?: number;
+}
+
+// Fields an admin may edit on a bank question
+export interface QuestionPatch {
+  question_text?: string;
+  choices?: string[];
+  correct_answer?: string;
+  question_type?: QuestionType;
+  accepted_answers?: string[] | null;
+  tolerance?: number | null;
+  explanation?: string | null;
+  topic?: string;
+  difficulty?: string;
+  estimated_time_seconds?: number;
+}
+
+/**
+ * Admin review of the generated_questions bank: search, edit, approve and retire.
+ */
+@Injectable()
+export class AdminQuestionsService {
+  constructor(
+    @InjectRepository(GeneratedQuestion)
+    private readonly qRepo: Repository<GeneratedQuestion>,
+  ) {}
+
+  async list(filters: QuestionListFilters) {
+    const page = Math.max(1, filters.page ?? 1);
+    const limit = Math.min(200, filters.limit ?? 25);
+
+    const qb = this.qRepo.createQueryBuilder('q');
+    if (filters.search) qb.andWhere('q.question_text ILIKE :search', { search: `%${filters.search}%` });
+    if (filters.topic) qb.andWhere('LOWER(q.topic) = LOWER(:topic)', { topic: filters.topic });
+    if (filters.difficulty) qb.andWhere('LOWER(q.difficulty) = LOWER(:difficulty)', { difficulty: filters.difficulty });
+    if (filters.status) qb.andWhere('q.status = :status', { status: filters.status });
+    if (filters.answerCheck) qb.andWhere('q.answer_check = :answerCheck', { answerCheck: filters.answerCheck });
+
+    const [items, total] = await qb
+      .orderBy('q.created_at', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return { items, total, page, totalPages: Math.ceil(total / limit) || 1 };
+  }
+
+  // Status counts for the console header
+  async counts() {
+    const rows = await this.qRepo
+      .createQueryBuilder('q')
+      .select('q.status', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('q.status')
+      .getRawMany();
+    const out: Record<QuestionStatus, number> = { draft: 0, approved: 0, retired: 0, quarantined: 0 };
+    for (const r of rows) {
+      if (QUESTION_STATUSES.includes(r.status)) out[r.status as QuestionStatus] = Number(r.count) || 0;
+    }
+    return out;
+  }
+
+  async detail(id: string) {
+    const item = await this.qRepo.findOne({ where: { question_id: id } });
+    if (!item) throw new NotFoundException('Question not found');
+    return item;
+  }
+
+  /**
+   * Edit question content. The result is re-validated against QuestionSchema (which checks
+   * the answer key of non-multiple-choice types) and a multiple-choice key must be one of the
+   * choices. The answer check is re-run; the status is left to the admin. Cached hints are
+   * dropped when the question, choices or key change.
+   */
+  async update(id: string, patch: QuestionPatch, adminId?: number | null) {
+    const item = await this.detail(id);
+
+    const next = {
+      question_id: item.question_id,
+      question_text: patch.question_text ?? item.question_text,
+      choices: patch.choices ?? item.choices,
+      correct_answer: patch.correct_answer ?? item.correct_answer,
+      question_type: patch.question_type ?? item.question_type ?? DEFAULT_QUESTION_TYPE,
+      accepted_answers: patch.accepted_answers !== undefined ? patch.accepted_answers : item.accepted_answers ?? null,
+      tolerance: patch.tolerance !== undefined ? patch.tolerance : item.tolerance ?? null,
+      explanation: patch.explanation !== undefined ? patch.explanation : item.explanation ?? null,
+      difficulty: patch.difficulty ?? item.difficulty,
+      topic: patch.topic ?? item.topic,
+      estimated_time_seconds: patch.estimated_time_seconds ?? item.estimated_time_seconds,
+    };
+
+    const parsed = QuestionSchema.safeParse(next);
+    if (!parsed.success) {
+      throw new BadRequestException({ error: 'invalid_question', issues: parsed.error.issues });
+    }
+    if (!next.question_text.trim()) throw new BadRequestException('question_text must not be empty');
+    if (next.question_type === 'multiple_choice' && next.choices.length >= 2 && !next.choices.includes(next.correct_answer)) {
+      throw new BadRequestException('correct_answer must match one of the choices');
+    }
+
+    const contentChanged =
+      next.question_text !== item.question_text ||
+      JSON.stringify(next.choices) !== JSON.stringify(item.choices) ||
+      next.correct_answer !== item.correct_answer ||
+      JSON.stringify(next.accepted_answers ?? null) !== JSON.stringify(item.accepted_answers ?? null);
+    Object.assign(item, next);
+    if (contentChanged) item.hints = null;
+    this.applyAnswerCheck(item);
+    item.reviewed_by = adminId ?? item.reviewed_by ?? null;
+    item.reviewed_at = new Date();
+    return this.qRepo.save(item);
+  }
+
+  async setStatus(id: string, status: QuestionStatus, adminId?: number | null) {
+    if (!QUESTION_STATUSES.includes(status)) {
+      throw new BadRequestException(`status must be one of ${QUESTION_STATUSES.join(', ')}`);
+    }
+    const item = await this.detail(id);
+    item.status = status;
+    item.reviewed_by = adminId ?? null;
+    item.reviewed_at = new Date();
+    return this.qRepo.save(item);
+  }
+
+  /**
+   * Run the answer-key check over draft and approved questions that were never checked
+   * (all of them with recheck). Contradicted drafts are quarantined so they never get served.
+   * An approved question stays approved: an admin already reviewed it, so it is only flagged
+   * (metadata.reviewFlag) and can be found with answer_check=contradicted.
+   */
+  async verifyBank(opts: { recheck?: boolean } = {}) {
+    const qb = this.qRepo.createQueryBuilder('q').where('q.status IN (:...statuses)', { statuses: ['draft', 'approved'] });
+    if (!opts.recheck) qb.andWhere('q.answer_check IS NULL');
+    const rows = await qb.orderBy('q.created_at', 'DESC').take(VERIFY_BATCH).getMany();
+
+    const summary = { checked: rows.length, verified: 0, contradicted: 0, unverifiable: 0, quarantined: 0, flagged: 0 };
+    for (const row of rows) {
+      const check = this.applyAnswerCheck(row);
+      summary[check.status]++;
+      if (check.status === 'contradicted' && row.status === 'approved') {
+        row.metadata = { ...row.metadata, reviewFlag: { reason: 'answer_check_contradicted', flaggedAt: new Date().toISOString() } };
+        summary.flagged++;
+      } else if (check.status === 'contradicted') {
+        row.status = 'quarantined';
+        summary.quarantined++;
+      } else if (row.metadata?.reviewFlag) {
+        const { reviewFlag, ...rest } = row.metadata;
+        row.metadata = rest;
+      }
+      await this.qRepo.save(row);
+    }
+    return summary;
+  }
+
+  private applyAnswerCheck(item: GeneratedQuestion) {
+    const check = verifyAnswer(item.question_text, item.choices ?? [], item.correct_answer);
+    item.answer_check = check.status;
+    item.metadata = { ...(item.metadata ?? {}), answerCheck: check };
+    return check;
+  }
+}
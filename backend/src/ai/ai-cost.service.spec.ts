@@ -0,0 +1,104 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { AiCostService } from './ai-cost.service';
+import { AiCostDaily } from './entities/ai-cost-daily.entity';
+import { AiBudgetCap } from './entities/ai-budget-cap.entity';
+import { estimateCostUsd } from './ai-pricing';
+
+declare const describe: any;
+declare const beforeEach: any;
+declare const it: any;
+declare const expect: any;
+declare const jest: any;
+
+describe('estimateCostUsd', () => {
+  it('prices dated snapshots by the longest model prefix', () => {
+    const usage = { prompt_tokens: 1_000_000, completion_tokens: 1_000_000, total_tokens: 2_000_000 };
+    expect(estimateCostUsd('gpt-4o-2024-08-06', usage)).toBe(12.5);
+    expect(estimateCostUsd('gpt-4o-mini-2024-07-18', usage)).toBe(0.75);
+    expect(estimateCostUsd('local-stub', usage)).toBe(0);
+    expect(estimateCostUsd('gpt-4o', null)).toBe(0);
+  });
+});
+
+describe('AiCostService', () => {
+  let service: AiCostService;
+  let dailyRepo: Record<string, any>;
+  let capRepo: Record<string, any>;
+  let caps: any[];
+  let plan: string;
+  let spent: number;
+
+  beforeEach(async () => {
+    caps = [];
+    plan = 'Pro';
+    spent = 0;
+    dailyRepo = {
+      query: jest.fn(async (sql: string) => {
+        if (sql.includes('FROM "user"')) return [{ plan }];
+        if (sql.includes('SUM(cost_usd)')) return [{ spent: String(spent) }];
+        return [];
+      }),
+    };
+    capRepo = {
+      find: jest.fn(async () => caps),
+      findOne: jest.fn(async () => null),
+      create: jest.fn((x: any) => ({ ...x })),
+      save: jest.fn(async (x: any) => x),
+      delete: jest.fn(async () => ({ affected: 1 })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AiCostService,
+        { provide: getRepositoryToken(AiCostDaily), useValue: dailyRepo },
+        { provide: getRepositoryToken(AiBudgetCap), useValue: capRepo },
+      ],
+    }).compile();
+
+    service = module.get<AiCostService>(AiCostService);
+  });
+
+  it('upserts the daily rollup under the user plan and feature', async () => {
+    const res = await service.record({
+      userId: 5,
+      feature: 'explanation',
+      model: 'gpt-4o',
+      usage: { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 },
+    });
+
+    expect(res).toEqual({ promptTokens: 1000, completionTokens: 500, totalTokens: 1500, costUsd: 0.0075 });
+    const [sql, params] = dailyRepo.query.mock.calls[1];
+    expect(sql).toContain('ON CONFLICT (day, user_id, plan, feature)');
+    expect(params.slice(1)).toEqual([5, 'pro', 'explanation', 1000, 500, 1500, 0.0075]);
+  });
+
+  it('skips the rollup when the provider reported no usage', async () => {
+    await service.record({ userId: 5, feature: 'tutor', model: 'gpt-4o', usage: null });
+    expect(dailyRepo.query).not.toHaveBeenCalled();
+  });
+
+  it('uses the plan default cap, and a user cap overrides the plan cap', async () => {
+    spent = 4;
+    expect(await service.getBudgetStatus(5)).toEqual(
+      expect.objectContaining({ plan: 'pro', capUsd: 10, capSource: 'default', spentUsd: 4, remainingUsd: 6, paused: false }),
+    );
+
+    caps = [
+      { scope: 'plan', scopeKey: 'pro', monthlyUsd: '20.00' },
+      { scope: 'user', scopeKey: '5', monthlyUsd: '3.50' },
+    ];
+    expect(await service.getBudgetStatus(5)).toEqual(expect.objectContaining({ capUsd: 3.5, capSource: 'user', remainingUsd: 0, paused: true }));
+  });
+
+  it('pauses AI for users over their cap but never for ownerless calls', async () => {
+    caps = [{ scope: 'user', scopeKey: '5', monthlyUsd: null }];
+    spent = 500;
+    await expect(service.assertWithinBudget(5)).resolves.toBeUndefined();
+
+    caps = [{ scope: 'plan', scopeKey: 'pro', monthlyUsd: '2.00' }];
+    await expect(service.assertWithinBudget(5)).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(service.assertWithinBudget(null)).resolves.toBeUndefined();
+  });
+});
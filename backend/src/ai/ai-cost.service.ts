@@ -0,0 +1,268 @@
+import { ForbiddenException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AiCostDaily } from './entities/ai-cost-daily.entity';
+import { AiBudgetCap, AiBudgetScope } from './entities/ai-budget-cap.entity';
+import { LlmUsage } from './providers/llm-provider';
+import { estimateCostUsd } from './ai-pricing';
+
+// What an AI call was made for; stored on ai_logs.feature and ai_cost_daily.feature
+export type AiFeature =
+  | 'test_generation'
+  | 'exam_generation'
+  | 'question_generation'
+  | 'explanation'
+  | 'hint'
+  | 'tutor'
+  | 'other';
+
+// Who an AI call is billed to and why. userId null = not on behalf of a user.
+export type AiCallContext = { userId?: number | null; feature?: AiFeature };
+
+// Monthly caps used when no ai_budget_caps row exists for the plan (null = unlimited)
+export const DEFAULT_MONTHLY_BUDGET_USD: Record<string, number | null> = {
+  free: 1,
+  pro: 10,
+  tutor: 25,
+};
+
+export type AiBudgetStatus = {
+  userId: number;
+  plan: string;
+  month: string;
+  capUsd: number | null;
+  capSource: 'user' | 'plan' | 'default';
+  spentUsd: number;
+  remainingUsd: number | null;
+  paused: boolean;
+};
+
+const PLANS = Object.keys(DEFAULT_MONTHLY_BUDGET_USD);
+
+function normalizePlan(plan: any): string {
+  const p = String(plan ?? '').trim().toLowerCase();
+  return PLANS.includes(p) ? p : 'free';
+}
+
+function toNumber(v: any): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function round(n: number, digits = 6): number {
+  const f = Math.pow(10, digits);
+  return Math.round(n * f) / f;
+}
+
+/**
+ * Token/cost accounting for AI calls: per-user daily rollups (ai_cost_daily), monthly budget
+ * caps (ai_budget_caps, falling back to DEFAULT_MONTHLY_BUDGET_USD) and the admin cost summary.
+ * AiLoggerService records every call that reports usage; AiService / AiTutorService call
+ * assertWithinBudget before spending tokens on a user's behalf.
+ */
+@Injectable()
+export class AiCostService {
+  private readonly logger = new Logger(AiCostService.name);
+
+  constructor(
+    @InjectRepository(AiCostDaily)
+    private readonly dailyRepo: Repository<AiCostDaily>,
+    @InjectRepository(AiBudgetCap)
+    private readonly capRepo: Repository<AiBudgetCap>,
+  ) {}
+
+  static currentMonth(now = new Date()): string {
+    return now.toISOString().slice(0, 7);
+  }
+
+  static measure(model: string | null | undefined, usage: LlmUsage | null | undefined) {
+    const promptTokens = toNumber(usage?.prompt_tokens);
+    const completionTokens = toNumber(usage?.completion_tokens);
+    const totalTokens = toNumber(usage?.total_tokens) || promptTokens + completionTokens;
+    return { promptTokens, completionTokens, totalTokens, costUsd: estimateCostUsd(model, usage) };
+  }
+
+  /**
+   * Add one call to today's rollup row for (user, plan, feature) and return the measured tokens
+   * and cost. Never throws: accounting failures must not fail the AI call itself.
+   */
+  async record(entry: { userId?: number | null; feature?: string | null; model?: string | null; usage?: LlmUsage | null }) {
+    const measured = AiCostService.measure(entry.model, entry.usage);
+    if (!entry.usage || measured.totalTokens <= 0) return measured;
+
+    try {
+      const userId = entry.userId ?? 0;
+      const plan = userId ? await this.resolvePlan(userId) : 'system';
+      await this.dailyRepo.query(
+        `INSERT INTO ai_cost_daily (day, user_id, plan, feature, calls, prompt_tokens, completion_tokens, total_tokens, cost_usd, updated_at)
+         VALUES ($1, $2, $3, $4, 1, $5, $6, $7, $8, now())
+         ON CONFLICT (day, user_id, plan, feature) DO UPDATE SET
+           calls = ai_cost_daily.calls + 1,
+           prompt_tokens = ai_cost_daily.prompt_tokens + EXCLUDED.prompt_tokens,
+           completion_tokens = ai_cost_daily.completion_tokens + EXCLUDED.completion_tokens,
+           total_tokens = ai_cost_daily.total_tokens + EXCLUDED.total_tokens,
+           cost_usd = ai_cost_daily.cost_usd + EXCLUDED.cost_usd,
+           updated_at = now()`,
+        [
+          new Date().toISOString().slice(0, 10),
+          userId,
+          plan,
+          entry.feature || 'other',
+          measured.promptTokens,
+          measured.completionTokens,
+          measured.totalTokens,
+          measured.costUsd,
+        ],
+      );
+    } catch (err) {
+      this.logger.warn(`Failed to record AI cost rollup: ${(err as any)?.message ?? err}`);
+    }
+    return measured;
+  }
+
+  async getBudgetStatus(userId: number): Promise<AiBudgetStatus> {
+    const month = AiCostService.currentMonth();
+    const plan = await this.resolvePlan(userId);
+    const caps = await this.capRepo.find({
+      where: [
+        { scope: 'user', scopeKey: String(userId) },
+        { scope: 'plan', scopeKey: plan },
+      ],
+    });
+    const { capUsd, capSource } = this.capFor(userId, plan, caps);
+
+    const rows = await this.dailyRepo.query(
+      `SELECT COALESCE(SUM(cost_usd), 0) AS spent FROM ai_cost_daily WHERE user_id = $1 AND day >= $2::date`,
+      [userId, `${month}-01`],
+    );
+    const spentUsd = round(toNumber(rows?.[0]?.spent));
+
+    return {
+      userId,
+      plan,
+      month,
+      capUsd,
+      capSource,
+      spentUsd,
+      remainingUsd: capUsd == null ? null : round(Math.max(0, capUsd - spentUsd)),
+      paused: capUsd != null && spentUsd >= capUsd,
+    };
+  }
+
+  /**
+   * Throws ForbiddenException once the user has spent their monthly cap. Calls without a user
+   * (admin tools, ownerless jobs) are never capped.
+   */
+  async assertWithinBudget(userId?: number | null) {
+    if (!userId) return;
+    const status = await this.getBudgetStatus(userId);
+    if (status.paused) {
+      throw new ForbiddenException('Monthly AI budget reached. AI features are paused until next month.');
+    }
+  }
+
+  // Plan caps (stored or default) plus every per-user override
+  async listBudgets() {
+    const rows = await this.capRepo.find({ order: { scope: 'ASC', scopeKey: 'ASC' } });
+    const plans = PLANS.map((plan) => {
+      const row = rows.find((r) => r.scope === 'plan' && r.scopeKey === plan);
+      return {
+        plan,
+        monthlyUsd: row ? (row.monthlyUsd == null ? null : toNumber(row.monthlyUsd)) : DEFAULT_MONTHLY_BUDGET_USD[plan],
+        isDefault: !row,
+        defaultUsd: DEFAULT_MONTHLY_BUDGET_USD[plan],
+        updatedAt: row?.updatedAt ?? null,
+      };
+    });
+    const users = rows
+      .filter((r) => r.scope === 'user')
+      .map((r) => ({
+        userId: Number(r.scopeKey),
+        monthlyUsd: r.monthlyUsd == null ? null : toNumber(r.monthlyUsd),
+        updatedBy: r.updatedBy,
+        updatedAt: r.updatedAt,
+      }));
+    return { plans, users };
+  }
+
+  // monthlyUsd null = unlimited
+  async setBudget(scope: AiBudgetScope, key: string, monthlyUsd: number | null, updatedBy?: string | null) {
+    const scopeKey = scope === 'plan' ? normalizePlan(key) : String(Number(key));
+    let row = await this.capRepo.findOne({ where: { scope, scopeKey } });
+    if (!row) row = this.capRepo.create({ scope, scopeKey });
+    row.monthlyUsd = monthlyUsd == null ? null : monthlyUsd.toFixed(2);
+    row.updatedBy = updatedBy ?? null;
+    row.updatedAt = new Date();
+    return this.capRepo.save(row);
+  }
+
+  // Drop a stored cap: plans fall back to the code default, users to their plan
+  async clearBudget(scope: AiBudgetScope, key: string) {
+    const scopeKey = scope === 'plan' ? normalizePlan(key) : String(Number(key));
+    await this.capRepo.delete({ scope, scopeKey });
+    return { ok: true };
+  }
+
+  /**
+   * Admin cost dashboard over [from, to] (inclusive dates, default: the current month):
+   * totals, per-day, per-plan and per-feature breakdowns and the top spenders with their
+   * cap for this month.
+   */
+  async summary(range: { from?: string; to?: string } = {}) {
+    const month = AiCostService.currentMonth();
+    const from = range.from || `${month}-01`;
+    const to = range.to || new Date().toISOString().slice(0, 10);
+    const params = [from, to];
+    const where = `WHERE day BETWEEN $1::date AND $2::date`;
+    const sums = `SUM(calls)::int AS calls, SUM(total_tokens)::bigint AS "totalTokens", SUM(cost_usd) AS "costUsd"`;
+
+    const [totals, byDay, byPlan, byFeature, topUsers] = await Promise.all([
+      this.dailyRepo.query(`SELECT ${sums}, COUNT(DISTINCT NULLIF(user_id, 0))::int AS users FROM ai_cost_daily ${where}`, params),
+      this.dailyRepo.query(`SELECT to_char(day, 'YYYY-MM-DD') AS day, ${sums} FROM ai_cost_daily ${where} GROUP BY day ORDER BY day`, params),
+      this.dailyRepo.query(`SELECT plan, ${sums} FROM ai_cost_daily ${where} GROUP BY plan ORDER BY "costUsd" DESC`, params),
+      this.dailyRepo.query(`SELECT feature, ${sums} FROM ai_cost_daily ${where} GROUP BY feature ORDER BY "costUsd" DESC`, params),
+      this.dailyRepo.query(
+        `SELECT c.user_id AS "userId", u.email, u.plan, ${sums}
+         FROM ai_cost_daily c LEFT JOIN "user" u ON u.id = c.user_id
+         WHERE c.day BETWEEN $1::date AND $2::date AND c.user_id <> 0
+         GROUP BY c.user_id, u.email, u.plan
+         ORDER BY "costUsd" DESC
+         LIMIT 20`,
+        params,
+      ),
+    ]);
+
+    const caps = await this.capRepo.find();
+    const num = (r: any) => ({ ...r, calls: toNumber(r.calls), totalTokens: toNumber(r.totalTokens), costUsd: round(toNumber(r.costUsd)) });
+
+    return {
+      from,
+      to,
+      totals: { ...num(totals?.[0] ?? {}), users: toNumber(totals?.[0]?.users) },
+      byDay: (byDay ?? []).map(num),
+      byPlan: (byPlan ?? []).map(num),
+      byFeature: (byFeature ?? []).map(num),
+      topUsers: (topUsers ?? []).map((r: any) => {
+        const plan = normalizePlan(r.plan);
+        return { ...num(r), userId: Number(r.userId), plan, capUsd: this.capFor(Number(r.userId), plan, caps).capUsd };
+      }),
+    };
+  }
+
+  private capFor(userId: number, plan: string, caps: AiBudgetCap[]): { capUsd: number | null; capSource: AiBudgetStatus['capSource'] } {
+    const userCap = caps.find((c) => c.scope === 'user' && c.scopeKey === String(userId));
+    if (userCap) return { capUsd: userCap.monthlyUsd == null ? null : toNumber(userCap.monthlyUsd), capSource: 'user' };
+    const planCap = caps.find((c) => c.scope === 'plan' && c.scopeKey === plan);
+    if (planCap) return { capUsd: planCap.monthlyUsd == null ? null : toNumber(planCap.monthlyUsd), capSource: 'plan' };
+    return { capUsd: DEFAULT_MONTHLY_BUDGET_USD[plan] ?? null, capSource: 'default' };
+  }
+
+  private async resolvePlan(userId: number): Promise<string> {
+    try {
+      const rows = await this.dailyRepo.query(`SELECT plan FROM "user" WHERE id = $1 LIMIT 1`, [userId]);
+      return normalizePlan(rows?.[0]?.plan);
+    } catch {
+      return 'free';
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { Controller, Get, Put, Delete, Param, Query, Body, Req, UseGuards, BadRequestException } from '@nestjs/common';
+import { AdminAuthGuard } from '../admin/admin-auth.guard';
+import { AiCostService } from './ai-cost.service';
+import { AiBudgetScope } from './entities/ai-budget-cap.entity';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseScope(scope: string): AiBudgetScope {
+  if (scope !== 'plan' && scope !== 'user') throw new BadRequestException('scope must be "plan" or "user"');
+  return scope;
+}
+
+function parseKey(scope: AiBudgetScope, key: string) {
+  if (scope === 'user' && !(Number(key) > 0)) throw new BadRequestException('Invalid user id');
+  return key;
+}
+
+/**
+ * Admin cost dashboard and monthly AI budget caps.
+ * GET    /admin/ai-costs/summary?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * GET    /admin/ai-costs/budgets
+ * PUT    /admin/ai-costs/budgets/:scope/:key   { monthlyUsd: number | null }  (null = unlimited)
+ * DELETE /admin/ai-costs/budgets/:scope/:key   (back to the plan / code default)
+ * GET    /admin/ai-costs/users/:id/budget
+ */
+@Controller('admin/ai-costs')
+@UseGuards(AdminAuthGuard)
+export class AdminAiCostsController {
+  constructor(private readonly costs: AiCostService) {}
+
+  @Get('summary')
+  async summary(@Query('from') from?: string, @Query('to') to?: string) {
+    if ((from && !DATE_RE.test(from)) || (to && !DATE_RE.test(to))) {
+      throw new BadRequestException('from/to must be YYYY-MM-DD');
+    }
+    return this.costs.summary({ from, to });
+  }
+
+  @Get('budgets')
+  async budgets() {
+    return this.costs.listBudgets();
+  }
+
+  @Put('budgets/:scope/:key')
+  async setBudget(@Req() req: any, @Param('scope') scope: string, @Param('key') key: string, @Body() body: { monthlyUsd?: number | null }) {
+    const s = parseScope(scope);
+    const raw = body?.monthlyUsd;
+    const monthlyUsd = raw === null || raw === undefined ? null : Number(raw);
+    if (monthlyUsd !== null && (!Number.isFinite(monthlyUsd) || monthlyUsd < 0)) {
+      throw new BadRequestException('monthlyUsd must be a non-negative number or null');
+    }
+    await this.costs.setBudget(s, parseKey(s, key), monthlyUsd, req.user?.email ?? null);
+    return this.costs.listBudgets();
+  }
+
+  @Delete('budgets/:scope/:key')
+  async clearBudget(@Param('scope') scope: string, @Param('key') key: string) {
+    const s = parseScope(scope);
+    await this.costs.clearBudget(s, parseKey(s, key));
+    return this.costs.listBudgets();
+  }
+
+  @Get('users/:id/budget')
+  async userBudget(@Param('id') id: string) {
+    const userId = Number(id);
+    if (!(userId > 0)) throw new BadRequestException('Invalid user id');
+    return this.costs.getBudgetStatus(userId);
+  }
+}
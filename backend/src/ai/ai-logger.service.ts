@@ -3,6 +3,8 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { AiLog } from './entities/ai-log.entity';
 import { SettingsService } from '../modules/settings/settings.service';
+import { AiCostService } from './ai-cost.service';
+import { LlmUsage } from './providers/llm-provider';
 
 @Injectable()
 export class AiLoggerService {
@@ -12,6 +14,7 @@ export class AiLoggerService {
     @InjectRepository(AiLog)
     private readonly logRepo: Repository<AiLog>,
     private readonly settingsService: SettingsService,
+    private readonly costService: AiCostService,
   ) {}
 
   // Try to coerce many SDK response shapes into a plain JSON object that
@@ -73,6 +76,8 @@ export class AiLoggerService {
   /**
    * Log an AI interaction.
    * - Normalizes common SDK response shapes so admin stats can find usage.total_tokens.
+   * - Adds provider usage (usage / usageModel) to the per-user cost rollup even when
+   *   logging is disabled, so budgets keep working.
    * - Preserves existing behavior: never throws; logs failures.
    */
   async log(entry: {
@@ -83,8 +88,21 @@ export class AiLoggerService {
     response?: any;
     success?: boolean;
     error?: string | null;
+    feature?: string | null;
+    usage?: LlmUsage | null;
+    // model that produced the usage (e.g. gpt-4o), used for pricing; defaults to model
+    usageModel?: string | null;
+    // ai_prompt_versions row the prompt was rendered from, when DB-managed
+    promptVersionId?: number | null;
   }) {
     try {
+      const cost = await this.costService.record({
+        userId: entry.userId,
+        feature: entry.feature,
+        model: entry.usageModel ?? entry.model,
+        usage: entry.usage,
+      });
+
       let settingsRaw: any = null;
       try {
         settingsRaw = await this.settingsService.getSettings();
@@ -141,6 +159,12 @@ export class AiLoggerService {
         response: normalizedResponse ?? null,
         success: entry.success ?? true,
         error: entry.error ?? null,
+        feature: entry.feature ?? null,
+        promptVersionId: entry.promptVersionId ?? null,
+        promptTokens: entry.usage ? cost.promptTokens : null,
+        completionTokens: entry.usage ? cost.completionTokens : null,
+        totalTokens: entry.usage ? cost.totalTokens : null,
+        costUsd: entry.usage ? cost.costUsd.toFixed(6) : null,
       });
 
       const saved = await this.logRepo.save(rec);
@@ -0,0 +1,41 @@
+import { LlmUsage } from './providers/llm-provider';
+
+/**
+ * USD per 1M tokens for the models we call. Dated snapshots ("gpt-4o-2024-08-06") resolve to
+ * the longest matching prefix; unknown OpenAI models are billed at the default (gpt-4o) rate so
+ * budgets err on the side of pausing early. The local stub is free.
+ */
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'local-stub': { input: 0, output: 0 },
+};
+
+const DEFAULT_PRICING = MODEL_PRICING['gpt-4o'];
+
+export function pricingFor(model?: string | null) {
+  const name = String(model ?? '').toLowerCase();
+  if (name === 'local' || name.startsWith('local-')) return MODEL_PRICING['local-stub'];
+  const match = Object.keys(MODEL_PRICING)
+    .filter((key) => name.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICING[match] : DEFAULT_PRICING;
+}
+
+// Cost of one call in USD (6 decimal places, matching ai_logs."costUsd")
+export function estimateCostUsd(model: string | null | undefined, usage: LlmUsage | null | undefined): number {
+  if (!usage) return 0;
+  const price = pricingFor(model);
+  const total = Number(usage.total_tokens ?? 0) || 0;
+  // providers that only report a total are priced as all-input
+  const promptTokens = usage.prompt_tokens == null ? total : Number(usage.prompt_tokens) || 0;
+  const completionTokens =
+    usage.completion_tokens == null ? (usage.prompt_tokens == null ? 0 : Math.max(0, total - promptTokens)) : Number(usage.completion_tokens) || 0;
+  const cost = (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+  return Math.round(cost * 1e6) / 1e6;
+}
@@ -23,6 +23,13 @@ export class AiUsage {
   @Column({ type: 'int', default: 0 })
   explanationsCount: number;
 
+  // Month string for hints usage (YYYY-MM)
+  @Column({ nullable: true })
+  hintsMonth: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  hintsCount: number;
+
   @CreateDateColumn()
   createdAt: Date;
 
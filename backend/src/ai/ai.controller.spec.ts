@@ -38,28 +38,28 @@ describe('AiController', () => {
     const body = { topic: 'Algebra', difficulty: 'easy', questionCount: 8 };
     await controller.generate({ user: { sub: 1 } }, body);
     expect(aiService.generateTest).toHaveBeenCalledTimes(1);
-    expect(aiService.generateTest).toHaveBeenCalledWith('Algebra', 'easy', 8);
+    expect(aiService.generateTest).toHaveBeenCalledWith('Algebra', 'easy', 8, { userId: 1, feature: 'test_generation' });
   });
 
   it('parses and forwards question_count (string) to AiService.generateTest', async () => {
     const body = { topic: 'Geometry', difficulty: 'intermediate', question_count: '6' };
     await controller.generate({ user: { sub: 1 } }, body);
     expect(aiService.generateTest).toHaveBeenCalledTimes(1);
-    expect(aiService.generateTest).toHaveBeenCalledWith('Geometry', 'intermediate', 6);
+    expect(aiService.generateTest).toHaveBeenCalledWith('Geometry', 'intermediate', 6, { userId: 1, feature: 'test_generation' });
   });
 
   it('parses and forwards count (string) to AiService.generateTest', async () => {
     const body = { topic: 'Calculus', difficulty: 'advanced', count: '7' };
     await controller.generate({ user: { sub: 1 } }, body);
     expect(aiService.generateTest).toHaveBeenCalledTimes(1);
-    expect(aiService.generateTest).toHaveBeenCalledWith('Calculus', 'advanced', 7);
+    expect(aiService.generateTest).toHaveBeenCalledWith('Calculus', 'advanced', 7, { userId: 1, feature: 'test_generation' });
   });
 
   it('calls AiService.generateTest without a count when none is provided', async () => {
     const body = { topic: 'Statistics', difficulty: 'beginner' };
     await controller.generate({ user: { sub: 1 } }, body);
     expect(aiService.generateTest).toHaveBeenCalledTimes(1);
-    // Ensure it's called with only topic and difficulty (no numeric third arg)
-    expect(aiService.generateTest).toHaveBeenCalledWith('Statistics', 'beginner');
+    // No numeric third arg: AiService falls back to its default count
+    expect(aiService.generateTest).toHaveBeenCalledWith('Statistics', 'beginner', undefined, { userId: 1, feature: 'test_generation' });
   });
 });
\ No newline at end of file
@@ -27,9 +27,10 @@ export class AiController {
     }
 
     // Call the AiService with the (optional) questionCount. AiService defaults to 5 if undefined.
+    const ctx = { userId: req.user?.sub ?? null, feature: 'test_generation' as const };
     const questions = typeof questionCount === 'number'
-      ? await this.aiService.generateTest(topic, difficulty, questionCount)
-      : await this.aiService.generateTest(topic, difficulty);
+      ? await this.aiService.generateTest(topic, difficulty, questionCount, ctx)
+      : await this.aiService.generateTest(topic, difficulty, undefined, ctx);
 
     return { questions };
   }
@@ -14,6 +14,10 @@ import { AiLog } from './entities/ai-log.entity';
 import { GeneratedQuestion } from './entities/generated-question.entity';
 import { SessionPerformance } from './entities/session-performance.entity';
 import { AiPrompt } from './entities/prompt.entity';
+import { AiPromptVersion } from './entities/prompt-version.entity';
+import { AdaptiveSession } from './entities/adaptive-session.entity';
+import { AiCostDaily } from './entities/ai-cost-daily.entity';
+import { AiBudgetCap } from './entities/ai-budget-cap.entity';
 
 import { GenerateV2Service } from './generate-v2.service';
 import { GenerateV2Controller } from './generate-v2.controller';
@@ -21,15 +25,27 @@ import { AiLoggerService } from './ai-logger.service';
 import { AiLogsAdminService } from './admin-ai-logs.service';
 // Import the merged controller (ai-logs.controller) which exports AdminAiLogsController
 import { AdminAiLogsController } from './ai-logs.controller';
+import { AiCostService } from './ai-cost.service';
+import { AdminAiCostsController } from './ai-costs.controller';
 import { DuplicateCheckerService } from './duplicate-checker.service';
 import { EmbeddingsService } from './embeddings.service';
 import { PromptsService } from './prompts.service';
 import { PromptsController } from './prompts.controller';
 import { PromptsPreviewController } from './prompts-preview.controller';
+import { OpenAiProvider } from './providers/openai.provider';
+import { LocalStubProvider } from './providers/local-stub.provider';
+import { llmProviderFactory } from './providers/llm-provider.factory';
+import { LLM_PROVIDER } from './providers/llm-provider';
+import { AdaptiveEngineService } from './adaptive-engine.service';
+import { QuestionBankService } from './question-bank.service';
+import { AdminQuestionsService } from './admin-questions.service';
+import { AdminQuestionsController } from './admin-questions.controller';
+import { QuestionImportExportService } from './question-import-export.service';
+import { AdaptiveController } from './adaptive.controller';
+import { JobsModule } from '../jobs/jobs.module';
 
-// New imports for settings/enforcement wiring (additive & opt-in)
 import { SettingsModule } from '../modules/settings/settings.module';
-import { PlanEnforcementService } from './plan-enforcement.service';
+import { PlanModule } from '../plan/plan.module';
 
 @Module({
   imports: [
@@ -42,31 +58,49 @@ import { PlanEnforcementService } from './plan-enforcement.service';
       GeneratedQuestion,
       SessionPerformance,
       AiPrompt,
+      AiPromptVersion,
+      AdaptiveSession,
+      AiCostDaily,
+      AiBudgetCap,
     ]),
     forwardRef(() => UserModule),
-    // SettingsModule imported so SettingsService is available to AiModule and PlanEnforcementService
+    // SettingsModule imported so SettingsService is available to AiLoggerService
     SettingsModule,
+    // plan limits / tutor access (PlanPolicyService)
+    PlanModule,
+    // background queue for generation / embedding jobs
+    JobsModule,
   ],
   providers: [
+    // LLM provider layer: LLM_PROVIDER resolves to OpenAI or the local stub (LLM_PROVIDER env)
+    OpenAiProvider,
+    LocalStubProvider,
+    llmProviderFactory,
     AiService,
     AiTutorService,
     GenerateV2Service,
     AiLoggerService,
+    AiCostService,
     AiLogsAdminService,
     DuplicateCheckerService,
     EmbeddingsService,
     PromptsService,
-    // Register PlanEnforcementService so it is available for opt-in enforcement.
-    PlanEnforcementService,
+    QuestionBankService,
+    AdminQuestionsService,
+    QuestionImportExportService,
+    AdaptiveEngineService,
   ],
   controllers: [
     AiController,
     AiTutorController,
     GenerateV2Controller,
     AdminAiLogsController, // merged controller
+    AdminAiCostsController,
     PromptsController,
     PromptsPreviewController, // preview controller
+    AdaptiveController,
+    AdminQuestionsController,
   ],
-  exports: [AiService, AiTutorService, GenerateV2Service, PlanEnforcementService],
+  exports: [AiService, AiTutorService, GenerateV2Service, QuestionBankService, AiCostService, LLM_PROVIDER],
 })
 export class AiModule {}
\ No newline at end of file
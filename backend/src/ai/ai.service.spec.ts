@@ -0,0 +1,171 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { AiService } from './ai.service';
+import { AiLoggerService } from './ai-logger.service';
+import { AiCostService } from './ai-cost.service';
+import { LLM_PROVIDER } from './providers/llm-provider';
+import { LocalStubProvider } from './providers/local-stub.provider';
+import { PromptsService } from './prompts.service';
+import { DEFAULT_PROMPTS, renderPrompt } from './default-prompts';
+
+/**
+ * Runs AiService against the offline LocalStubProvider so generation and
+ * explanations are exercised without a network or API key.
+ */
+declare const describe: any;
+declare const beforeEach: any;
+declare const it: any;
+declare const expect: any;
+declare const jest: any;
+
+describe('AiService (local stub provider)', () => {
+  let service: AiService;
+  let aiLogger: { log: any };
+  let costService: { assertWithinBudget: any };
+  let prompts: { resolve: any; recordOutcome: any };
+
+  beforeEach(async () => {
+    aiLogger = { log: jest.fn().mockResolvedValue(null) };
+    costService = { assertWithinBudget: jest.fn().mockResolvedValue(undefined) };
+    // built-in templates as version 1 of each prompt
+    prompts = {
+      resolve: jest.fn(async (key: string, vars: any) => ({
+        key,
+        text: renderPrompt(DEFAULT_PROMPTS[key].template, vars),
+        versionId: 1,
+        version: 1,
+        variant: false,
+        model: null,
+        temperature: DEFAULT_PROMPTS[key].temperature,
+        maxTokens: DEFAULT_PROMPTS[key].maxTokens,
+      })),
+      recordOutcome: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AiService,
+        LocalStubProvider,
+        { provide: LLM_PROVIDER, useExisting: LocalStubProvider },
+        { provide: ConfigService, useValue: { get: jest.fn().mockReturnValue(undefined) } },
+        { provide: AiLoggerService, useValue: aiLogger },
+        { provide: AiCostService, useValue: costService },
+        { provide: PromptsService, useValue: prompts },
+      ],
+    }).compile();
+
+    service = module.get<AiService>(AiService);
+  });
+
+  it('generateTest returns the requested number of valid questions and logs with the provider name', async () => {
+    const questions = await service.generateTest('Algebra', 'beginner', 4);
+
+    expect(questions).toHaveLength(4);
+    for (const q of questions) {
+      expect(typeof q.question).toBe('string');
+      expect(q.options.length).toBeGreaterThanOrEqual(2);
+      expect(q.options).toContain(q.correctAnswer);
+    }
+    expect(aiLogger.log).toHaveBeenCalledWith(expect.objectContaining({ model: 'local', success: true }));
+  });
+
+  it('renders the DB-managed prompt and tags the log with its version', async () => {
+    await service.generateTest('Algebra', 'beginner', 2, { userId: 7 });
+
+    expect(prompts.resolve).toHaveBeenCalledWith('generate_test', { topic: 'Algebra', difficulty: 'beginner', questionCount: 2 }, { userId: 7 });
+    const entry = aiLogger.log.mock.calls[0][0];
+    expect(entry.prompt).toContain('Generate a beginner-level test on "Algebra" with 2 multiple-choice questions');
+    expect(entry.promptVersionId).toBe(1);
+  });
+
+  it('replaces questions whose answer key the math engine contradicts', async () => {
+    const llm = (service as any).llm;
+    const real = llm.chat.bind(llm);
+    const wrong = JSON.stringify([
+      { id: 1, question: 'What is 6 × 7?', options: ['42', '48'], correctAnswer: '48' },
+      { id: 2, question: 'What is 9 + 1?', options: ['10', '11'], correctAnswer: '10' },
+    ]);
+    jest.spyOn(llm, 'chat').mockImplementationOnce(async (req: any) => ({ ...(await real(req)), content: wrong }));
+
+    const questions = await service.generateTest('Arithmetic', 'beginner', 2);
+    expect(questions).toHaveLength(2);
+    expect(questions[0]).toEqual(expect.objectContaining({ question: 'What is 9 + 1?', answerCheck: expect.objectContaining({ status: 'verified' }) }));
+    expect(questions.every((q: any) => q.answerCheck.status !== 'contradicted')).toBe(true);
+    expect(prompts.resolve).toHaveBeenLastCalledWith('generate_test', expect.objectContaining({ questionCount: 1 }), { userId: null });
+  });
+
+  it('keeps single-backslash LaTeX from the model and replaces malformed LaTeX', async () => {
+    const llm = (service as any).llm;
+    const real = llm.chat.bind(llm);
+    // raw model output: "\frac" is not escaped for JSON, the second question never closes its brace
+    const raw =
+      '[{"id": 1, "question": "What is $\\frac{1}{2} + 1$?", "options": ["$1.5$", "$2$"], "correctAnswer": "$1.5$"},' +
+      ' {"id": 2, "question": "What is $\\sqrt{9$?", "options": ["3", "9"], "correctAnswer": "3"}]';
+    jest.spyOn(llm, 'chat').mockImplementationOnce(async (req: any) => ({ ...(await real(req)), content: raw }));
+
+    const questions = await service.generateTest('Arithmetic', 'beginner', 2);
+    expect(questions).toHaveLength(2);
+    expect(questions[0]).toEqual(expect.objectContaining({ question: 'What is $\\frac{1}{2} + 1$?', answerCheck: expect.objectContaining({ status: 'verified' }) }));
+    expect(questions.some((q: any) => q.question.includes('sqrt{9$'))).toBe(false);
+  });
+
+  it('generateHint asks again when a hint gives the answer away, and returns null if it keeps doing so', async () => {
+    const q = { question: 'What is 6 × 7?', options: ['42', '48'], correctAnswer: '42' };
+    const llm = (service as any).llm;
+    const real = llm.chat.bind(llm);
+    const leak = async (req: any) => ({ ...(await real(req)), content: '6 × 7 = 42.' });
+
+    jest.spyOn(llm, 'chat').mockImplementationOnce(leak);
+    const hint = await service.generateHint(q, 2, ['Think of 6 groups of 7.'], { userId: 3, feature: 'hint' });
+    expect(hint).toBeTruthy();
+    expect(hint).not.toContain('42');
+    expect(prompts.resolve).toHaveBeenCalledWith('question_hint', expect.objectContaining({ level: 2, previousHints: '1. Think of 6 groups of 7.' }), { userId: 3 });
+    expect(aiLogger.log).toHaveBeenCalledWith(expect.objectContaining({ feature: 'hint', success: false, error: 'Hint revealed the answer' }));
+
+    jest.spyOn(llm, 'chat').mockImplementation(leak);
+    expect(await service.generateHint(q, 3)).toBeNull();
+  });
+
+  it('generateTest is deterministic for the same inputs', async () => {
+    const first = await service.generateTest('Geometry', 'advanced', 3);
+    const second = await service.generateTest('Geometry', 'advanced', 3);
+    expect(second).toEqual(first);
+  });
+
+  it('explainAnswer returns plain text mentioning the correct answer', async () => {
+    const text = await service.explainAnswer('What is 2 + 2?', '5', '4');
+    expect(typeof text).toBe('string');
+    expect(text).toContain('4');
+  });
+
+  it('explainAnswer with onToken streams deltas that add up to the returned text', async () => {
+    const deltas: string[] = [];
+    const text = await service.explainAnswer('What is 2 + 2?', '5', '4', (d: string) => deltas.push(d));
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join('')).toBe(text);
+    expect(aiLogger.log).toHaveBeenCalledWith(expect.objectContaining({ success: true, response: text }));
+  });
+
+  it('bills calls to the requesting user and feature, with provider usage', async () => {
+    await service.generateTest('Algebra', 'beginner', 2, { userId: 7, feature: 'exam_generation' });
+
+    expect(costService.assertWithinBudget).toHaveBeenCalledWith(7);
+    expect(aiLogger.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 7,
+        feature: 'exam_generation',
+        usageModel: 'local-stub',
+        usage: expect.objectContaining({ total_tokens: expect.any(Number) }),
+      }),
+    );
+  });
+
+  it('does not call the model when the user is over budget', async () => {
+    costService.assertWithinBudget.mockRejectedValue(new ForbiddenException('Monthly AI budget reached'));
+
+    await expect(service.explainAnswer('What is 2 + 2?', '5', '4', undefined, { userId: 7 })).rejects.toBeInstanceOf(ForbiddenException);
+    expect(aiLogger.log).not.toHaveBeenCalled();
+  });
+});
@@ -1,32 +1,93 @@
-import { Injectable, InternalServerErrorException } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import axios from 'axios';
-import * as https from 'https';
+import { Inject, Injectable, InternalServerErrorException, Logger } from '@nestjs/common';
 import { AiLoggerService } from './ai-logger.service';
+import { AiCallContext, AiCostService } from './ai-cost.service';
+import { LLM_PROVIDER, LlmProvider, LlmTokenHandler, stripCodeFences } from './providers/llm-provider';
+import { PromptsService, ResolvedPrompt } from './prompts.service';
+import { PROMPT_KEYS } from './default-prompts';
+import { verifyAnswer } from './answer-verifier';
+import { latexIssues, repairLatexEscapes } from './latex';
+import { HINT_LEVEL_GUIDES, HintableQuestion, MAX_HINT_LEVEL, hintRevealsAnswer } from './question-hints';
+import { ANSWER_LIST_SEPARATOR, answerText } from './question-types';
+
+// Extra generation rounds to replace questions whose answer key the math engine contradicted
+const ANSWER_CHECK_RETRIES = 2;
+
+// Completions asked for per hint before giving up on one that does not reveal the answer
+const HINT_ATTEMPTS = 2;
 
 @Injectable()
 export class AiService {
+  private readonly logger = new Logger(AiService.name);
+
   constructor(
-    private readonly configService: ConfigService,
+    @Inject(LLM_PROVIDER)
+    private readonly llm: LlmProvider,
     private readonly aiLogger: AiLoggerService, // <-- injected logger
+    private readonly costService: AiCostService,
+    private readonly prompts: PromptsService,
   ) {}
 
+  // Name of the active LLM provider ('openai' | 'local'), recorded as the ai_logs model
+  get providerName(): string {
+    return this.llm.name;
+  }
+
   /**
-   * Generate a test using OpenAI.
+   * Generate a test using the configured LLM provider.
    * - topic: subject/topic string
    * - difficulty: 'easy' | 'medium' | 'hard' (string)
    * - questionCount: optional number of questions to request (default: 5)
+   * - ctx: user and feature the call is billed to; throws ForbiddenException when the user is over budget
    *
-   * Returns parsed array of questions.
+   * Returns parsed array of questions, each with its `answerCheck`. Questions whose answer key
+   * the math engine contradicted, or whose LaTeX is malformed, never reach the caller: they are
+   * dropped and regenerated (up to ANSWER_CHECK_RETRIES extra rounds), so fewer questions come
+   * back only if that keeps failing.
+   */
+  async generateTest(topic: string, difficulty: string, questionCount = 5, ctx: AiCallContext = {}) {
+    const accepted: any[] = [];
+    let dropped = 0;
+    let malformed = 0;
+    for (let round = 0; round <= ANSWER_CHECK_RETRIES && accepted.length < questionCount; round++) {
+      let questions: any[];
+      try {
+        ({ questions } = await this.generateTestWithPrompt(topic, difficulty, questionCount - accepted.length, ctx));
+      } catch (err) {
+        // a failed replacement round keeps what the earlier rounds produced
+        if (round === 0) throw err;
+        break;
+      }
+      for (const q of questions) {
+        if (q.answerCheck?.status === 'contradicted') dropped++;
+        else if (this._latexIssues(q).length > 0) malformed++;
+        else if (accepted.length < questionCount) accepted.push(q);
+      }
+    }
+    if (dropped > 0) {
+      this.logger.warn(`generateTest(${topic}, ${difficulty}): dropped ${dropped} question(s) with a contradicted answer key`);
+    }
+    if (malformed > 0) {
+      this.logger.warn(`generateTest(${topic}, ${difficulty}): dropped ${malformed} question(s) with malformed LaTeX`);
+    }
+    if (accepted.length === 0) {
+      throw new InternalServerErrorException('AI answers failed verification. Please try again.');
+    }
+    return accepted;
+  }
+
+  /**
+   * generateTest plus the prompt version that produced the questions, so callers can attribute
+   * later outcomes (duplicates, reports) to it. The prompt is the DB-managed 'generate_test'.
+   * Questions are returned with their `answerCheck` but not filtered on it.
    */
-  async generateTest(topic: string, difficulty: string, questionCount = 5) {
-    const OPENAI_API_KEY = this.configService.get<string>('OPENAI_API_KEY');
-    if (!OPENAI_API_KEY) {
-      console.error('OPENAI_API_KEY is not set!');
+  async generateTestWithPrompt(topic: string, difficulty: string, questionCount = 5, ctx: AiCallContext = {}): Promise<{ questions: any[]; prompt: ResolvedPrompt }> {
+    if (!this.llm.isConfigured()) {
+      console.error(`LLM provider "${this.llm.name}" is not configured (OPENAI_API_KEY is not set?)`);
       // Log the failed attempt as an ai log (non-sensitive)
       try {
         await this.aiLogger.log({
-          userId: null,
+          userId: ctx.userId ?? null,
+          feature: ctx.feature ?? 'test_generation',
           prompt: `Generate ${questionCount} ${difficulty} questions for "${topic}"`,
           params: { topic, difficulty, questionCount },
           model: null,
@@ -38,67 +99,42 @@ export class AiService {
       throw new InternalServerErrorException('OpenAI API Key missing');
     }
 
-    const prompt = `
-Generate a ${difficulty}-level test on "${topic}" with ${questionCount} multiple-choice questions.
-For each question, provide the following fields in a JSON array (no markdown, no code fences):
-- id (number or string)
-- question (string)
-- options (array of strings, at least 2)
-- correctAnswer (either the correct option string OR the index of the correct option (0-based))
-
-Return ONLY valid JSON: an array of question objects, e.g.
-[
-  {
-    "id": 1,
-    "question": "What is 2+2?",
-    "options": ["1", "2", "4", "5"],
-    "correctAnswer": "4"
-  }
-]
-Make the questions clear and self-contained.
-    `;
+    const resolved = await this.prompts.resolve(PROMPT_KEYS.generateTest, { topic, difficulty, questionCount }, { userId: ctx.userId ?? null });
+    const prompt = resolved.text;
+
+    await this.costService.assertWithinBudget(ctx.userId);
 
     try {
-      const response = await axios.post(
-        'https://api.openai.com/v1/chat/completions',
-        {
-          model: 'gpt-4o',
-          messages: [{ role: 'user', content: prompt }],
-          temperature: 0.2,
-          max_tokens: 3000,
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${OPENAI_API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          // Remove rejectUnauthorized:false in production if possible
-          httpsAgent: new https.Agent({ rejectUnauthorized: false }),
-        },
-      );
-
-      // Support different response shapes (choices[].message.content vs choices[].text)
-      let content =
-        response?.data?.choices?.[0]?.message?.content ??
-        response?.data?.choices?.[0]?.text ??
-        '';
-
-      // Strip code fences if present
-      content = content.replace(/^\s*```(?:json)?/i, '').replace(/```$/, '').trim();
+      const completion = await this.llm.chat({
+        messages: [{ role: 'user', content: prompt }],
+        model: resolved.model ?? undefined,
+        temperature: resolved.temperature ?? 0.2,
+        maxTokens: resolved.maxTokens ?? 3000,
+        purpose: 'generate_test',
+        context: { topic, difficulty, questionCount },
+      });
+
+      // Strip code fences if present; single-backslash LaTeX commands would not survive JSON.parse
+      const content = repairLatexEscapes(stripCodeFences(completion.content));
 
       // Try strict JSON parse first, then fallback to substring extraction
       try {
         const parsed = JSON.parse(content);
         this._validateQuestions(parsed);
+        this._checkAnswers(parsed);
 
         // Persist a success ai log
         try {
           await this.aiLogger.log({
-            userId: null,
+            userId: ctx.userId ?? null,
+            feature: ctx.feature ?? 'test_generation',
             prompt,
             params: { topic, difficulty, questionCount },
-            model: process.env.OPENAI_API_KEY ? 'openai' : null,
+            promptVersionId: resolved.versionId,
+            model: this.llm.name,
             response: parsed,
+            usage: completion.usage,
+            usageModel: completion.model,
             success: true,
             error: null,
           });
@@ -108,7 +144,7 @@ Make the questions clear and self-contained.
           console.warn('[AiService.generateTest] failed to persist ai log', logErr);
         }
 
-        return parsed;
+        return { questions: parsed, prompt: resolved };
       } catch (parseErr) {
         const start = content.indexOf('[');
         const end = content.lastIndexOf(']');
@@ -117,14 +153,19 @@ Make the questions clear and self-contained.
             const substring = content.substring(start, end + 1);
             const parsed = JSON.parse(substring);
             this._validateQuestions(parsed);
+            this._checkAnswers(parsed);
 
             try {
               await this.aiLogger.log({
-                userId: null,
+                userId: ctx.userId ?? null,
+                feature: ctx.feature ?? 'test_generation',
                 prompt,
                 params: { topic, difficulty, questionCount },
-                model: process.env.OPENAI_API_KEY ? 'openai' : null,
+                promptVersionId: resolved.versionId,
+                model: this.llm.name,
                 response: parsed,
+                usage: completion.usage,
+                usageModel: completion.model,
                 success: true,
                 error: null,
               });
@@ -132,20 +173,26 @@ Make the questions clear and self-contained.
               console.warn('[AiService.generateTest] failed to persist ai log', logErr);
             }
 
-            return parsed;
+            return { questions: parsed, prompt: resolved };
           } catch {
             // Fall through to error
           }
         }
 
+        await this.prompts.recordOutcome(resolved.versionId, 'validation_failure');
+
         // Persist parse failure to ai_logs for debugging
         try {
           await this.aiLogger.log({
-            userId: null,
+            userId: ctx.userId ?? null,
+            feature: ctx.feature ?? 'test_generation',
             prompt,
             params: { topic, difficulty, questionCount },
-            model: process.env.OPENAI_API_KEY ? 'openai' : null,
+            promptVersionId: resolved.versionId,
+            model: this.llm.name,
             response: content,
+            usage: completion.usage,
+            usageModel: completion.model,
             success: false,
             error: 'AI returned non-JSON response',
           });
@@ -158,10 +205,12 @@ Make the questions clear and self-contained.
       // Persist the OpenAI request failure so admins can inspect it
       try {
         await this.aiLogger.log({
-          userId: null,
+          userId: ctx.userId ?? null,
+          feature: ctx.feature ?? 'test_generation',
           prompt,
           params: { topic, difficulty, questionCount },
-          model: process.env.OPENAI_API_KEY ? 'openai' : null,
+          promptVersionId: resolved.versionId,
+          model: this.llm.name,
           response: err?.response?.data ?? err?.message ?? String(err),
           success: false,
           error: 'OpenAI request failed',
@@ -173,6 +222,19 @@ Make the questions clear and self-contained.
     }
   }
 
+  // Independent answer-key check (answer-verifier.ts); the result rides along as q.answerCheck
+  private _checkAnswers(questions: any[]) {
+    for (const q of questions) {
+      q.answerCheck = verifyAnswer(q.question, q.options, q.correctAnswer);
+    }
+  }
+
+  // LaTeX problems anywhere in a generated question (latex.ts)
+  private _latexIssues(q: any): string[] {
+    const fields = [q.question, ...(q.options ?? []), q.explanation].filter((f) => typeof f === 'string');
+    return fields.flatMap((f: string) => latexIssues(f));
+  }
+
   /**
    * Validate minimal structure of questions array returned by AI.
    * Throws InternalServerErrorException if invalid.
@@ -209,13 +271,18 @@ Make the questions clear and self-contained.
     }
   }
 
-  async explainAnswer(question: string, userAnswer: string, correctAnswer: string) {
-    const OPENAI_API_KEY = this.configService.get<string>('OPENAI_API_KEY');
-    if (!OPENAI_API_KEY) {
-      console.error('OPENAI_API_KEY is not set!');
+  /**
+   * Student-facing explanation for one answered question. With onToken the completion is
+   * streamed and each delta is forwarded as it arrives; the full text is still returned.
+   * ctx bills the call to a user (ForbiddenException when they are over budget).
+   */
+  async explainAnswer(question: string, userAnswer: string, correctAnswer: string, onToken?: LlmTokenHandler, ctx: AiCallContext = {}) {
+    if (!this.llm.isConfigured()) {
+      console.error(`LLM provider "${this.llm.name}" is not configured (OPENAI_API_KEY is not set?)`);
       try {
         await this.aiLogger.log({
-          userId: null,
+          userId: ctx.userId ?? null,
+          feature: ctx.feature ?? 'explanation',
           prompt: `Explain answer for question: ${String(question).slice(0, 200)}`,
           params: { userAnswer, correctAnswer },
           model: null,
@@ -227,49 +294,40 @@ Make the questions clear and self-contained.
       throw new InternalServerErrorException('OpenAI API Key missing');
     }
 
-    const prompt = `
-Question: ${question}
-User's Answer: ${userAnswer}
-Correct Answer: ${correctAnswer}
+    const resolved = await this.prompts.resolve(
+      PROMPT_KEYS.explainAnswer,
+      { question, userAnswer, correctAnswer, incorrectNote: userAnswer !== correctAnswer ? " and why the user's answer is incorrect" : '' },
+      { userId: ctx.userId ?? null },
+    );
+    const prompt = resolved.text;
 
-Give a step-by-step, student-friendly explanation for why the correct answer is right${
-      userAnswer !== correctAnswer ? " and why the user's answer is incorrect" : ''
-    }.
-Respond in plain text, do NOT wrap in markdown or code fences.
-    `;
+    await this.costService.assertWithinBudget(ctx.userId);
 
     try {
-      const response = await axios.post(
-        'https://api.openai.com/v1/chat/completions',
-        {
-          model: 'gpt-4o',
-          messages: [{ role: 'user', content: prompt }],
-          temperature: 0.7,
-          max_tokens: 512,
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${OPENAI_API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          httpsAgent: new https.Agent({ rejectUnauthorized: false }),
-        },
-      );
-
-      let content =
-        response?.data?.choices?.[0]?.message?.content ??
-        response?.data?.choices?.[0]?.text ??
-        '';
-      content = content.replace(/^\s*```(?:json)?/i, '').replace(/```$/, '').trim();
+      const request = {
+        messages: [{ role: 'user', content: prompt }],
+        model: resolved.model ?? undefined,
+        temperature: resolved.temperature ?? 0.7,
+        maxTokens: resolved.maxTokens ?? 512,
+        purpose: 'explain_answer' as const,
+        context: { question, userAnswer, correctAnswer },
+      };
+      const completion = onToken ? await this.llm.chatStream(request, onToken) : await this.llm.chat(request);
+
+      const content = stripCodeFences(completion.content);
 
       // Persist explain logs (non-blocking on failures)
       try {
         await this.aiLogger.log({
-          userId: null,
+          userId: ctx.userId ?? null,
+          feature: ctx.feature ?? 'explanation',
           prompt,
           params: { userAnswer, correctAnswer },
-          model: process.env.OPENAI_API_KEY ? 'openai' : null,
+          promptVersionId: resolved.versionId,
+          model: this.llm.name,
           response: content,
+          usage: completion.usage,
+          usageModel: completion.model,
           success: true,
           error: null,
         });
@@ -284,10 +342,12 @@ Respond in plain text, do NOT wrap in markdown or code fences.
       console.error('OpenAI explainAnswer failed', err?.response?.data ?? err?.message ?? err);
       try {
         await this.aiLogger.log({
-          userId: null,
+          userId: ctx.userId ?? null,
+          feature: ctx.feature ?? 'explanation',
           prompt,
           params: { userAnswer, correctAnswer },
-          model: process.env.OPENAI_API_KEY ? 'openai' : null,
+          promptVersionId: resolved.versionId,
+          model: this.llm.name,
           response: err?.response?.data ?? err?.message ?? String(err),
           success: false,
           error: 'OpenAI explainError',
@@ -296,4 +356,72 @@ Respond in plain text, do NOT wrap in markdown or code fences.
       throw new InternalServerErrorException('Failed to call OpenAI for explanation');
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Hint `level` (1..MAX_HINT_LEVEL) for a question of an attempt in progress, written after the
+   * hints already shown. A hint that gives the answer away is asked for once more; null when the
+   * model keeps revealing it (the caller falls back to a generic hint).
+   */
+  async generateHint(q: HintableQuestion & { options?: string[] | null }, level: number, previousHints: string[] = [], ctx: AiCallContext = {}): Promise<string | null> {
+    if (!this.llm.isConfigured()) {
+      console.error(`LLM provider "${this.llm.name}" is not configured (OPENAI_API_KEY is not set?)`);
+      throw new InternalServerErrorException('OpenAI API Key missing');
+    }
+
+    const question = String(q.question ?? '');
+    const choices = Array.isArray(q.options) && q.options.length ? `Choices: ${q.options.join(ANSWER_LIST_SEPARATOR)}` : '';
+    const resolved = await this.prompts.resolve(
+      PROMPT_KEYS.questionHint,
+      {
+        question,
+        choices,
+        correctAnswer: answerText(q.correctAnswer),
+        level,
+        maxLevel: MAX_HINT_LEVEL,
+        levelGuide: HINT_LEVEL_GUIDES[level - 1] ?? HINT_LEVEL_GUIDES[HINT_LEVEL_GUIDES.length - 1],
+        previousHints: previousHints.length ? previousHints.map((h, i) => `${i + 1}. ${h}`).join('\n') : '(none)',
+      },
+      { userId: ctx.userId ?? null },
+    );
+
+    for (let round = 0; round < HINT_ATTEMPTS; round++) {
+      await this.costService.assertWithinBudget(ctx.userId);
+      try {
+        const completion = await this.llm.chat({
+          messages: [{ role: 'user', content: resolved.text }],
+          model: resolved.model ?? undefined,
+          temperature: resolved.temperature ?? 0.4,
+          maxTokens: resolved.maxTokens ?? 200,
+          purpose: 'question_hint',
+          context: { question, level },
+        });
+        const content = stripCodeFences(completion.content).trim();
+        const revealed = hintRevealsAnswer(content, q);
+        try {
+          await this.aiLogger.log({
+            userId: ctx.userId ?? null,
+            feature: ctx.feature ?? 'hint',
+            prompt: resolved.text,
+            params: { level },
+            promptVersionId: resolved.versionId,
+            model: this.llm.name,
+            response: content,
+            usage: completion.usage,
+            usageModel: completion.model,
+            success: !revealed,
+            error: revealed ? 'Hint revealed the answer' : null,
+          });
+        } catch (logErr) {
+          // eslint-disable-next-line no-console
+          console.warn('[AiService.generateHint] failed to persist ai log', logErr);
+        }
+        if (content && !revealed) return content;
+      } catch (err) {
+        console.error('OpenAI generateHint failed', err?.response?.data ?? err?.message ?? err);
+        throw new InternalServerErrorException('Failed to call OpenAI for a hint');
+      }
+    }
+    this.logger.warn(`generateHint: level ${level} hint kept revealing the answer; using the generic hint`);
+    return null;
+  }
+}
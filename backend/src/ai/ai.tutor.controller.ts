@@ -1,18 +1,23 @@
-import { Controller, Post, Body, UseGuards, Req, Get, Query, ForbiddenException } from '@nestjs/common';
+import { Controller, Post, Body, UseGuards, Req, Res, Get, Query, BadRequestException } from '@nestjs/common';
+import { Request, Response } from 'express';
 import { AiTutorService } from './ai.tutor.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { UserService } from '../user/user.service';
+import { openSseStream } from '../common/sse';
+import { PlanPolicyService } from '../plan/plan-policy.service';
 
 @Controller('ai')
 export class AiTutorController {
-  constructor(private readonly tutor: AiTutorService, private readonly userService: UserService) {}
+  constructor(
+    private readonly tutor: AiTutorService,
+    private readonly userService: UserService,
+    private readonly planPolicy: PlanPolicyService,
+  ) {}
 
+  // the personal tutor is a plan feature ('personal_ai_tutor')
   private async ensureTutorPlan(userId: number) {
     const user = await this.userService.findById(userId);
-    const plan = user?.plan ?? 'Free';
-    if (!plan || String(plan).toLowerCase() !== 'tutor') {
-      throw new ForbiddenException('Personal AI Tutor is available only for Tutor plan users — please upgrade to access this feature.');
-    }
+    await this.planPolicy.assertAllowed(userId, 'tutor', { plan: user?.plan ?? 'Free' });
   }
 
   @Post('tutor-chat')
@@ -23,6 +28,29 @@ export class AiTutorController {
     return this.tutor.sendTutorMessage(userId, body.message, body.conversationId);
   }
 
+  /**
+   * POST /ai/tutor-chat/stream
+   * Same as tutor-chat, answered as Server-Sent Events: `token` { delta } while the reply is
+   * generated, then `done` { conversationId, reply } (or `error` { message }).
+   */
+  @Post('tutor-chat/stream')
+  @UseGuards(JwtAuthGuard)
+  async chatStream(@Req() req: any, @Res() res: Response, @Body() body: { message: string; conversationId?: number }) {
+    const userId = req.user.sub;
+    await this.ensureTutorPlan(userId);
+    if (!body?.message || !String(body.message).trim()) throw new BadRequestException('message is required');
+
+    const sse = openSseStream(req as Request, res);
+    try {
+      const result = await this.tutor.sendTutorMessage(userId, body.message, body.conversationId, (delta) => sse.send('token', { delta }));
+      sse.send('done', result);
+    } catch (err: any) {
+      sse.send('error', { message: err?.message ?? 'Failed to generate tutor reply' });
+    } finally {
+      sse.close();
+    }
+  }
+
   @Get('tutor-history')
   @UseGuards(JwtAuthGuard)
   async history(@Req() req, @Query('conversationId') conversationId?: number) {
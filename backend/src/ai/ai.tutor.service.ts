@@ -1,36 +1,38 @@
-import { Injectable, InternalServerErrorException } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import axios from 'axios';
-import * as https from 'https';
+import { Inject, Injectable, InternalServerErrorException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { AiTutorConversation } from './ai-tutor.entity';
 import { TestAttempt } from '../test/test.entity';
-import { AiUsage } from './ai-usage.entity';
-import { planLimits } from '../plan/plan.constants';
+import { PlanPolicyService } from '../plan/plan-policy.service';
+import { LLM_PROVIDER, LlmProvider, LlmTokenHandler } from './providers/llm-provider';
+import { AiLoggerService } from './ai-logger.service';
+import { AiCostService } from './ai-cost.service';
+import { PromptsService } from './prompts.service';
+import { PROMPT_KEYS } from './default-prompts';
 
 type TutorMessage = { role: 'user' | 'assistant' | string; text?: string; content?: string; createdAt: string };
 
 @Injectable()
 export class AiTutorService {
   constructor(
-    private readonly configService: ConfigService,
+    @Inject(LLM_PROVIDER)
+    private readonly llm: LlmProvider,
     @InjectRepository(AiTutorConversation)
     private readonly convoRepo: Repository<AiTutorConversation>,
     @InjectRepository(TestAttempt)
     private readonly testRepo: Repository<TestAttempt>,
-    @InjectRepository(AiUsage)
-    private readonly usageRepo: Repository<AiUsage>,
+    private readonly aiLogger: AiLoggerService,
+    private readonly costService: AiCostService,
+    private readonly planPolicy: PlanPolicyService,
+    private readonly prompts: PromptsService,
   ) {}
 
-  private getOpenAiKey() {
-    const key = this.configService.get<string>('OPENAI_API_KEY');
-    if (!key) throw new InternalServerErrorException('OpenAI API key not configured');
-    return key;
-  }
+  // Create/append message and ask the LLM provider for a reply. Stores both user message and assistant reply.
+  // With onToken the reply is streamed: each delta is forwarded as it arrives and the full reply is saved at the end.
+  // Replies are billed to the user's AI budget; over budget -> ForbiddenException before anything is stored.
+  async sendTutorMessage(userId: number, messageText: string, conversationId?: number, onToken?: LlmTokenHandler) {
+    await this.costService.assertWithinBudget(userId);
 
-  // Create/append message and ask OpenAI for a reply. Stores both user message and assistant reply.
-  async sendTutorMessage(userId: number, messageText: string, conversationId?: number) {
     let convo = conversationId
       ? await this.convoRepo.findOne({ where: { id: conversationId, userId } }) as AiTutorConversation
       : undefined as any;
@@ -44,14 +46,12 @@ export class AiTutorService {
     convo.messages = convo.messages || [];
     convo.messages.push(userMsg as any);
 
-    // Save before calling OpenAI (so we have conversation persisted)
+    // Save before calling the model (so we have conversation persisted)
     convo = await this.convoRepo.save(convo);
 
-    // Build system instruction
-    const system = {
-      role: 'system',
-      content: `You are a helpful personal tutor. Provide step-by-step explanations, suggest focused exercises, and track the learner's weak areas. Keep replies concise and actionable.`,
-    };
+    // Build system instruction from the DB-managed 'tutor_system' prompt
+    const resolved = await this.prompts.resolve(PROMPT_KEYS.tutorSystem, {}, { userId });
+    const system = { role: 'system', content: resolved.text };
 
     // include recent messages; conversation messages may use "text" or "content"
     const recent: Array<{ role: string; content: string }> = (convo.messages || [])
@@ -61,32 +61,39 @@ export class AiTutorService {
         return { role: msg.role, content: (msg.text ?? msg.content ?? '').toString() };
       });
 
-    // Build the payload for OpenAI (use recent content for context)
-    const payload = {
-      model: 'gpt-4o',
-      messages: [
-        system,
-        // convert recent to the chat API shape
-        ...recent.map((m) => ({ role: m.role, content: m.content })),
-      ],
-      temperature: 0.3,
-      max_tokens: 800,
-    };
+    if (!this.llm.isConfigured()) {
+      throw new InternalServerErrorException('OpenAI API key not configured');
+    }
 
     try {
-      const response = await axios.post(
-        'https://api.openai.com/v1/chat/completions',
-        payload,
-        {
-          headers: { Authorization: `Bearer ${this.getOpenAiKey()}`, 'Content-Type': 'application/json' },
-          httpsAgent: new https.Agent({ rejectUnauthorized: false }),
-        },
-      );
-
-      const reply =
-        response?.data?.choices?.[0]?.message?.content ??
-        response?.data?.choices?.[0]?.text ??
-        'Sorry, I could not generate a reply.';
+      const request = {
+        messages: [
+          system,
+          // convert recent to the chat API shape
+          ...recent.map((m) => ({ role: m.role, content: m.content })),
+        ],
+        model: resolved.model ?? undefined,
+        temperature: resolved.temperature ?? 0.3,
+        maxTokens: resolved.maxTokens ?? 800,
+        purpose: 'tutor_reply' as const,
+      };
+      const completion = onToken ? await this.llm.chatStream(request, onToken) : await this.llm.chat(request);
+
+      const reply = completion.content || 'Sorry, I could not generate a reply.';
+
+      await this.aiLogger.log({
+        userId,
+        feature: 'tutor',
+        prompt: messageText,
+        params: { conversationId: convo.id, streamed: !!onToken },
+        promptVersionId: resolved.versionId,
+        model: this.llm.name,
+        response: reply,
+        usage: completion.usage,
+        usageModel: completion.model,
+        success: true,
+        error: null,
+      });
 
       const assistantMsg: TutorMessage = { role: 'assistant', text: String(reply).trim(), createdAt: new Date().toISOString() };
       convo.messages.push(assistantMsg as any);
@@ -95,7 +102,18 @@ export class AiTutorService {
       return { conversationId: convo.id, reply: assistantMsg.text };
     } catch (err) {
       // eslint-disable-next-line no-console
-      console.error('Tutor chat OpenAI error', err?.response?.data ?? err?.message ?? err);
+      console.error('Tutor chat LLM error', err?.response?.data ?? err?.message ?? err);
+      await this.aiLogger.log({
+        userId,
+        feature: 'tutor',
+        prompt: messageText,
+        params: { conversationId: convo.id, streamed: !!onToken },
+        promptVersionId: resolved.versionId,
+        model: this.llm.name,
+        response: err?.response?.data ?? err?.message ?? String(err),
+        success: false,
+        error: 'Tutor reply failed',
+      });
       throw new InternalServerErrorException('Failed to generate tutor reply');
     }
   }
@@ -154,43 +172,30 @@ export class AiTutorService {
     // eslint-disable-next-line no-console
     console.debug(`[AiTutorService] getUsageForDisplay userId=${userId} planRaw="${rawPlan}" normalized="${normalizedPlan}"`);
 
-    const limits = planLimits(normalizedPlan);
-
-    let usage = await this.usageRepo.findOne({ where: { userId } });
-    if (!usage) {
-      usage = this.usageRepo.create({ userId, testsTodayDate: null, testsTodayCount: 0, explanationsMonth: null, explanationsCount: 0 });
-    }
-
-    const today = new Date().toISOString().slice(0, 10);
-    const month = new Date().toISOString().slice(0, 7);
-
-    let testsTodayCount = usage.testsTodayCount || 0;
-    if (usage.testsTodayDate !== today) testsTodayCount = 0;
-
-    let explanationsCount = usage.explanationsCount || 0;
-    if (usage.explanationsMonth !== month) explanationsCount = 0;
+    // limits, counters and remaining quotas come from the plan policy (settings overrides + defaults)
+    const quotas = await this.planPolicy.getQuotas(userId, normalizedPlan);
 
-    const explanationsRemaining = limits.explanationsPerMonth === Infinity ? Infinity : Math.max(0, (limits.explanationsPerMonth as number) - explanationsCount);
-    const testsRemaining = limits.testsPerDay === Infinity ? Infinity : Math.max(0, (limits.testsPerDay as number) - testsTodayCount);
+    const aiBudget = await this.costService.getBudgetStatus(userId).catch(() => null);
 
     return {
       plan: normalizedPlan,
-      limits: {
-        testsPerDay: limits.testsPerDay,
-        questionCount: limits.questionCount,
-        attemptsPerTest: limits.attemptsPerTest,
-        explanationsPerMonth: limits.explanationsPerMonth,
-      },
-      usage: {
-        testsTodayDate: usage.testsTodayDate,
-        testsTodayCount,
-        explanationsMonth: usage.explanationsMonth || month,
-        explanationsCount,
+      // monthly AI spend vs. cap; paused = AI features are off until next month
+      aiBudget: aiBudget && {
+        month: aiBudget.month,
+        capUsd: aiBudget.capUsd,
+        spentUsd: aiBudget.spentUsd,
+        remainingUsd: aiBudget.remainingUsd,
+        paused: aiBudget.paused,
       },
-      remaining: {
-        testsRemaining,
-        explanationsRemaining,
+      limits: {
+        testsPerDay: quotas.limits.testsPerDay,
+        questionCount: quotas.limits.questionCount,
+        attemptsPerTest: quotas.limits.attemptsPerTest,
+        explanationsPerMonth: quotas.limits.explanationsPerMonth,
       },
+      usage: quotas.usage,
+      remaining: quotas.remaining,
+      decisions: quotas.decisions,
     };
   }
 }
\ No newline at end of file
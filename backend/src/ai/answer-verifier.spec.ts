@@ -0,0 +1,93 @@
+import { verifyAnswer } from './answer-verifier';
+
+declare const describe: any;
+declare const it: any;
+declare const expect: any;
+
+describe('verifyAnswer', () => {
+  it('verifies arithmetic keys, including the local stub question shape', () => {
+    expect(verifyAnswer('[Algebra] What is 7 × 8?', ['54', '56', '57', '64'], '56')).toEqual(
+      expect.objectContaining({ status: 'verified', method: 'expression', expected: '56', matchedOption: '56' }),
+    );
+    expect(verifyAnswer('Calculate 3/4 + 2(5 − 1)', ['8.75', '9'], '8.75').status).toBe('verified');
+    expect(verifyAnswer('Evaluate √16 + 2^3', ['12', '14'], '12').status).toBe('verified');
+    expect(verifyAnswer('What is 1 ÷ 3, to two decimal places?', ['0.33', '0.3'], '0.33').status).toBe('verified');
+  });
+
+  it('reads LaTeX math', () => {
+    expect(verifyAnswer('What is $\\frac{3}{4} + 2^{3}$?', ['$8.75$', '$11$'], '$8.75$')).toEqual(
+      expect.objectContaining({ status: 'verified', matchedOption: '$8.75$' }),
+    );
+    expect(verifyAnswer('Solve $2x + 3 = 11$', ['$x = 4$', '$x = 7$'], '$x = 7$').status).toBe('contradicted');
+    expect(verifyAnswer('Evaluate $\\sqrt{16} \\times 3$', ['12', '48'], '12').status).toBe('verified');
+  });
+
+  it('reads mixed numbers in keys and stems as whole plus fraction', () => {
+    expect(verifyAnswer('What is 3/4 + 3/4?', ['1 1/2', '1', '2'], '1 1/2')).toEqual(
+      expect.objectContaining({ status: 'verified', matchedOption: '1 1/2' }),
+    );
+    expect(verifyAnswer('What is 2 1/2 + 1?', ['3 1/2', '2', '3'], '3 1/2').status).toBe('verified');
+    expect(verifyAnswer('What is 2 1/2 + 1?', ['3 1/2', '2', '3'], '2')).toEqual(expect.objectContaining({ status: 'contradicted', expected: '3.5' }));
+    expect(verifyAnswer('What is $2\\frac{1}{2} \\times 2$?', ['$5$', '$2$'], '$5$').status).toBe('verified');
+    expect(verifyAnswer('Solve x - 1 1/4 = 2', ['x = 3 1/4', 'x = 3'], 'x = 3 1/4').status).toBe('verified');
+    // no telling whether this is 8 / 2.5 or 8 / 2 * 1/2
+    expect(verifyAnswer('What is 8 / 2 1/2?', ['3.2', '2'], '3.2').status).toBe('unverifiable');
+  });
+
+  it('flags a wrong key and points at the right option', () => {
+    const check = verifyAnswer('What is 12 - 5 * 2?', ['14', '2', '7'], '14');
+    expect(check).toEqual(expect.objectContaining({ status: 'contradicted', expected: '2', matchedOption: '2' }));
+  });
+
+  it('solves linear and quadratic equations', () => {
+    expect(verifyAnswer('Solve for x: 2x + 3 = 11', ['x = 4', 'x = 7'], 'x = 4')).toEqual(
+      expect.objectContaining({ status: 'verified', method: 'equation', expected: '4' }),
+    );
+    expect(verifyAnswer('If 3(x - 2) = x + 4, what is x?', ['5', '3'], '3')).toEqual(
+      expect.objectContaining({ status: 'contradicted', expected: '5', matchedOption: '5' }),
+    );
+    expect(verifyAnswer('Solve x² - 5x + 6 = 0', ['2 and 3', '-2 and -3'], '2 and 3').status).toBe('verified');
+    expect(verifyAnswer('Find the positive solution of x^2 = 9', ['3', '-3'], '3').status).toBe('verified');
+    expect(verifyAnswer('Solve x^2 = 9', ['±3', '9'], 'x = ±3').status).toBe('verified');
+    expect(verifyAnswer('Solve x^2 + 1 = 0', ['1', '-1'], '1')).toEqual(expect.objectContaining({ status: 'contradicted', expected: 'no real solution' }));
+  });
+
+  it('compares simplified algebraic expressions', () => {
+    expect(verifyAnswer('Simplify 2x + 3x - 4', ['5x - 4', '6x'], '5x - 4').status).toBe('verified');
+    expect(verifyAnswer('Expand (x + 1)^2', ['x^2 + 2x + 1', 'x^2 + 1'], 'x^2 + 1')).toEqual(
+      expect.objectContaining({ status: 'contradicted', expected: 'x^2 + 2x + 1' }),
+    );
+  });
+
+  it('stays unverifiable when the question asks for something derived from the math', () => {
+    const cases: Array<[string, string[], string]> = [
+      ['What is the sum of the solutions of x^2 - 5x + 6 = 0?', ['5', '6'], '5'],
+      ['What is the product of the roots of x^2 - 5x + 6 = 0?', ['5', '6'], '6'],
+      ['What is 10/4 rounded to the nearest whole number?', ['2', '3'], '3'],
+      ['Which value of x does NOT satisfy x^2 - 4 = 0?', ['2', '-2', '3'], '3'],
+      ['How many solutions does x^2 - 4 = 0 have?', ['1', '2'], '2'],
+      ['If 2x + 3 = 11, what is the value of y?', ['4', '7'], '7'],
+      ['What is the value of the discriminant of x^2 + 2x + 1 = 0?', ['0', '1'], '0'],
+    ];
+    for (const [question, options, key] of cases) {
+      expect(verifyAnswer(question, options, key).status).toBe('unverifiable');
+    }
+    expect(verifyAnswer('If 2x + 3 = 11, what is the value of x?', ['4', '7'], '4').status).toBe('verified');
+    expect(verifyAnswer('What is the value of the expression 3(4 + 1)?', ['15', '12'], '15').status).toBe('verified');
+  });
+
+  it('stays unverifiable when it cannot read the question with certainty', () => {
+    const cases: Array<[string, string]> = [
+      ['Which planet is closest to the sun?', 'Mercury'],
+      ['What is 15% of 80?', '12'],
+      ['What is 3/4 of 20?', '15'],
+      ['A train travels 120 km in 2 hours. What is its speed?', '60 km/h'],
+      ['What is a + b when a = 2 and b = 3?', '5'],
+      ['Pages 10-20 of the textbook cover fractions.', '10'],
+      ['What is 2 + 2?', 'four'],
+    ];
+    for (const [question, key] of cases) {
+      expect(verifyAnswer(question, [key, 'other'], key).status).toBe('unverifiable');
+    }
+  });
+});
@@ -0,0 +1,456 @@
+/**
+ * Answer-key verification for arithmetic / algebra questions.
+ *
+ * A small local math engine: the question text is scanned for the one piece of math it asks
+ * about (an expression such as "3/4 + 2(5 - 1)" or a one-variable equation such as
+ * "2x + 3 = 11"), the engine computes the answer itself and compares it with the key.
+ * Expressions are evaluated as polynomials in at most one variable, so "simplify 2x + 3x"
+ * is checked against "5x" too; equations are solved up to degree 2 and checked by
+ * substitution above that.
+ *
+ * The engine is deliberately conservative: anything it cannot read with certainty (word
+ * problems, percentages, several formulas, extra numbers in the text) is 'unverifiable',
+ * never 'contradicted'. So is a question that asks for something derived from the math rather
+ * than the value of the unknown or of the expression (the sum of the roots, a rounded value,
+ * the option that does NOT satisfy the equation, "how many" ...).
+ */
+
+import { latexToPlain } from './latex';
+
+export type AnswerCheckStatus = 'verified' | 'contradicted' | 'unverifiable';
+export const ANSWER_CHECK_STATUSES: AnswerCheckStatus[] = ['verified', 'contradicted', 'unverifiable'];
+
+export interface AnswerCheck {
+  status: AnswerCheckStatus;
+  method: 'expression' | 'equation' | null;
+  // the math the engine worked on, normalized
+  expression: string | null;
+  // the engine's own answer (roots joined with ", " for equations)
+  expected: string | null;
+  // the option equal to the engine's answer, when there is one
+  matchedOption: string | null;
+  reason: string;
+}
+
+// Coefficients by power: [c0, c1, c2, ...]
+type Poly = number[];
+
+const MAX_DEGREE = 6;
+
+// Words that mark the question as asking for the value of the math it contains
+const CUE = /\b(what|calculate|compute|evaluate|simplify|expand|solve|find|value|equals?|result)\b|=\s*\?/i;
+
+// Words that mean the question asks for something other than the value the engine computes
+const QUALIFIER =
+  /\b(sum|total|product|difference|quotient|roots|solutions|zeros|round(?:ed|ing)?|nearest|approximate(?:ly)?|estimate|not|except|how\s+many|how\s+much|average|mean|remainder|digits?|factors?|multiples?|greatest|least|largest|smallest|maximum|minimum|discriminant|slope|vertex)\b/i;
+
+// "the value of <what>": must name the unknown, the expression, or the math itself
+const VALUE_OF = /\bvalue\s+of\s+(?:the\s+)?([a-z]+|\d)/i;
+
+class Unsupported extends Error {}
+
+/* ---------- Normalization and scanning ---------- */
+
+function normalize(text: string): string {
+  return latexToPlain(String(text ?? ''))
+    .replace(/^\s*\[[^\]]*\]\s*/, '') // "[Topic] ..." prefixes
+    .replace(/[×·∙]/g, '*')
+    .replace(/÷/g, '/')
+    .replace(/[−–—]/g, '-')
+    .replace(/²/g, '^2')
+    .replace(/³/g, '^3')
+    .replace(/\bsquare root of\s*/gi, '√')
+    .replace(/\bsqrt\s*(?=\()/gi, '√')
+    // 2\frac{1}{2} (a mixed number in LaTeX) -> "2 1/2"
+    .replace(/(\d)\s*\(\((\d+)\)\/\((\d+)\)\)/g, '$1 $2/$3')
+    .replace(/(\d),(?=\d{3}\b)/g, '$1');
+}
+
+const isLetter = (c: string | undefined) => !!c && /[a-z]/i.test(c);
+
+// Maximal runs of math characters; a letter only counts as a variable when it stands alone
+function mathSegments(text: string): string[] {
+  const out: string[] = [];
+  let cur = '';
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    const single = isLetter(c) && !isLetter(text[i - 1]) && !isLetter(text[i + 1]);
+    if (/[0-9.+\-*/^()=√±\s]/.test(c) || single) {
+      cur += c;
+    } else {
+      out.push(cur);
+      cur = '';
+    }
+  }
+  out.push(cur);
+  return out.map((s) => s.trim().replace(/[.\s]+$/, '')).filter((s) => /\d/.test(s));
+}
+
+// More than a bare number: at least one operation between operands
+const hasOperation = (s: string) => /[\d)a-z]\s*[-+*/^=]|√|\d\s*[a-z(]|[a-z)]\s*\(/i.test(s);
+
+/* ---------- Polynomial arithmetic ---------- */
+
+const trim = (p: Poly) => {
+  const out = p.slice();
+  while (out.length > 1 && Math.abs(out[out.length - 1]) < 1e-12) out.pop();
+  return out;
+};
+const degree = (p: Poly) => trim(p).length - 1;
+const add = (a: Poly, b: Poly, sign = 1) =>
+  trim(Array.from({ length: Math.max(a.length, b.length) }, (_, i) => (a[i] ?? 0) + sign * (b[i] ?? 0)));
+const mul = (a: Poly, b: Poly) => {
+  const out: Poly = new Array(a.length + b.length - 1).fill(0);
+  a.forEach((x, i) => b.forEach((y, j) => (out[i + j] += x * y)));
+  const res = trim(out);
+  if (res.length - 1 > MAX_DEGREE) throw new Unsupported('degree too high');
+  return res;
+};
+const constant = (p: Poly) => {
+  if (degree(p) > 0) throw new Unsupported('non-constant operand');
+  return p[0] ?? 0;
+};
+const evalAt = (p: Poly, x: number) => p.reduceRight((acc, c) => acc * x + c, 0);
+
+/* ---------- Parser ---------- */
+
+type Token = { t: 'num'; v: number } | { t: 'var'; v: string } | { t: 'op'; v: string };
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const c = src[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (/[\d.]/.test(c)) {
+      // "2 1/2" is the mixed number 2.5, as parseNumeric reads it; not 2 * 1/2
+      const mixed = /^(\d+)\s+(\d+)\s*\/\s*(\d+)(?![\d.])/.exec(src.slice(i));
+      if (mixed) {
+        const prev = tokens[tokens.length - 1];
+        // "8 / 2 1/2", "x^2 1/2": no telling what was meant
+        if (prev?.t === 'op' && (prev.v === '/' || prev.v === '^')) throw new Unsupported('ambiguous mixed number');
+        if (Number(mixed[3]) === 0) throw new Unsupported('division by zero');
+        tokens.push({ t: 'op', v: '(' }, { t: 'num', v: Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]) }, { t: 'op', v: ')' });
+        i += mixed[0].length;
+        continue;
+      }
+      const m = /^\d*\.?\d+|^\d+\.?/.exec(src.slice(i));
+      if (!m) throw new Unsupported(`bad number at ${i}`);
+      tokens.push({ t: 'num', v: Number(m[0]) });
+      i += m[0].length;
+    } else if (isLetter(c)) {
+      tokens.push({ t: 'var', v: c.toLowerCase() });
+      i++;
+    } else if ('+-*/^()=√±'.includes(c)) {
+      tokens.push({ t: 'op', v: c });
+      i++;
+    } else {
+      throw new Unsupported(`unexpected "${c}"`);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser over one side of an equation:
+ *   expr := term (('+' | '-') term)*
+ *   term := unary (('*' | '/') unary | implicit-multiplication unary)*
+ *   unary := ('-' | '+') unary | power
+ *   power := primary ('^' unary)?
+ *   primary := number | variable | '(' expr ')' | '√' primary
+ */
+class Parser {
+  private pos = 0;
+  variable: string | null = null;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Poly {
+    const p = this.expr();
+    if (this.pos < this.tokens.length) throw new Unsupported('trailing input');
+    return p;
+  }
+
+  private peek() {
+    return this.tokens[this.pos];
+  }
+
+  private isOp(v: string) {
+    const tok = this.peek();
+    return !!tok && tok.t === 'op' && tok.v === v;
+  }
+
+  private expr(): Poly {
+    let left = this.term();
+    while (this.isOp('+') || this.isOp('-')) {
+      const sign = (this.tokens[this.pos++] as any).v === '+' ? 1 : -1;
+      left = add(left, this.term(), sign);
+    }
+    return left;
+  }
+
+  private term(): Poly {
+    let left = this.unary();
+    for (;;) {
+      if (this.isOp('*')) {
+        this.pos++;
+        left = mul(left, this.unary());
+      } else if (this.isOp('/')) {
+        this.pos++;
+        const d = constant(this.unary());
+        if (Math.abs(d) < 1e-15) throw new Unsupported('division by zero');
+        left = left.map((c) => c / d);
+      } else if (this.startsPrimary()) {
+        left = mul(left, this.power());
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private startsPrimary() {
+    const tok = this.peek();
+    return !!tok && (tok.t === 'num' || tok.t === 'var' || (tok.t === 'op' && (tok.v === '(' || tok.v === '√')));
+  }
+
+  private unary(): Poly {
+    if (this.isOp('-')) {
+      this.pos++;
+      return this.unary().map((c) => -c);
+    }
+    if (this.isOp('+')) {
+      this.pos++;
+      return this.unary();
+    }
+    return this.power();
+  }
+
+  private power(): Poly {
+    const base = this.primary();
+    if (!this.isOp('^')) return base;
+    this.pos++;
+    const exp = constant(this.unary());
+    if (degree(base) === 0) return [Math.pow(base[0] ?? 0, exp)];
+    if (!Number.isInteger(exp) || exp < 0 || exp * degree(base) > MAX_DEGREE) throw new Unsupported('unsupported exponent');
+    let out: Poly = [1];
+    for (let i = 0; i < exp; i++) out = mul(out, base);
+    return out;
+  }
+
+  private primary(): Poly {
+    const tok = this.tokens[this.pos++];
+    if (!tok) throw new Unsupported('unexpected end');
+    if (tok.t === 'num') return [tok.v];
+    if (tok.t === 'var') {
+      if (this.variable && this.variable !== tok.v) throw new Unsupported('more than one variable');
+      this.variable = tok.v;
+      return [0, 1];
+    }
+    if (tok.v === '(') {
+      const inner = this.expr();
+      if (!this.isOp(')')) throw new Unsupported('unbalanced parentheses');
+      this.pos++;
+      return inner;
+    }
+    if (tok.v === '√') {
+      const radicand = constant(this.primary());
+      if (radicand < 0) throw new Unsupported('negative radicand');
+      return [Math.sqrt(radicand)];
+    }
+    throw new Unsupported(`unexpected "${tok.v}"`);
+  }
+}
+
+function parsePoly(src: string): { poly: Poly; variable: string | null } {
+  const parser = new Parser(tokenize(src));
+  const poly = parser.parse();
+  return { poly, variable: degree(poly) > 0 ? parser.variable : null };
+}
+
+/* ---------- Answers ---------- */
+
+// "x = 4", "2 or -2", "x = ±3", "$12", "12 cm" -> the polynomial value(s) an answer states
+function parseAnswer(raw: string, variable: string | null): Poly[] | null {
+  let text = normalize(raw).trim().replace(/^\$/, '');
+  if (variable) text = text.replace(new RegExp(`\\b${variable}\\s*=\\s*`, 'gi'), '');
+  const parts = text.split(/\s*(?:,|;|\bor\b|\band\b)\s*/i).filter(Boolean);
+  if (!parts.length) return null;
+
+  const out: Poly[] = [];
+  for (let part of parts) {
+    part = part.trim();
+    const pm = part.startsWith('±');
+    if (pm) part = part.slice(1);
+    let value: Poly | null = null;
+    for (const candidate of [part, part.replace(/\s+[a-z]{2,}(\^\d)?\.?$/i, '')]) {
+      try {
+        const parsed = parsePoly(candidate);
+        if (parsed.variable && variable && parsed.variable !== variable) continue;
+        value = parsed.poly;
+        break;
+      } catch {
+        // try the next reading
+      }
+    }
+    if (!value) return null;
+    out.push(value);
+    if (pm) out.push(value.map((c) => -c));
+  }
+  return out;
+}
+
+// Equal within float noise, or within the rounding the key itself shows ("0.33" for 1/3)
+function sameNumber(a: number, b: number, shown?: string) {
+  if (Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b))) return true;
+  const decimals = shown ? /\.(\d+)/.exec(shown)?.[1].length ?? 0 : 0;
+  return decimals > 0 && Math.abs(a - b) <= 0.5 * Math.pow(10, -decimals) + 1e-12;
+}
+
+function samePoly(a: Poly, b: Poly, shown?: string) {
+  const len = Math.max(a.length, b.length);
+  for (let i = 0; i < len; i++) if (!sameNumber(a[i] ?? 0, b[i] ?? 0, shown)) return false;
+  return true;
+}
+
+function solve(p: Poly): number[] | null {
+  const q = trim(p);
+  if (q.length === 2) return [-q[0] / q[1]];
+  if (q.length === 3) {
+    const [c, b, a] = q;
+    const disc = b * b - 4 * a * c;
+    if (disc < -1e-12) return [];
+    if (Math.abs(disc) <= 1e-12) return [-b / (2 * a)];
+    const r = Math.sqrt(disc);
+    return [(-b - r) / (2 * a), (-b + r) / (2 * a)].sort((x, y) => x - y);
+  }
+  return null;
+}
+
+function formatNumber(n: number): string {
+  if (Number.isInteger(n) || /^-?\d+\.\d{1,4}$/.test(String(n))) return String(n);
+  for (let d = 2; d <= 100; d++) {
+    const num = Math.round(n * d);
+    if (Math.abs(num / d - n) < 1e-9) return `${num}/${d}`;
+  }
+  return String(Number(n.toFixed(6)));
+}
+
+function formatPoly(p: Poly, variable: string | null): string {
+  const terms: string[] = [];
+  for (let i = p.length - 1; i >= 0; i--) {
+    const c = p[i];
+    if (Math.abs(c) < 1e-12) continue;
+    const mag = Math.abs(c);
+    const coef = i > 0 && mag === 1 ? '' : formatNumber(mag);
+    const term = i === 0 ? coef : `${coef}${variable}${i > 1 ? `^${i}` : ''}`;
+    terms.push(terms.length ? `${c < 0 ? '- ' : '+ '}${term}` : `${c < 0 ? '-' : ''}${term}`);
+  }
+  return terms.join(' ') || '0';
+}
+
+const unverifiable = (reason: string, expression: string | null = null, method: AnswerCheck['method'] = null): AnswerCheck => ({
+  status: 'unverifiable',
+  method,
+  expression,
+  expected: null,
+  matchedOption: null,
+  reason,
+});
+
+// False when "the value of ..." names something else than `allowed` (or the math itself)
+function asksFor(text: string, allowed: string[]): boolean {
+  const m = VALUE_OF.exec(text);
+  if (!m) return true;
+  const what = m[1].toLowerCase();
+  return /^\d/.test(what) || allowed.includes(what);
+}
+
+/* ---------- Entry point ---------- */
+
+/**
+ * Independently compute the answer to a question and compare it with its key.
+ * Never throws: anything the engine cannot read comes back 'unverifiable'.
+ */
+export function verifyAnswer(question: string, options: string[], correctAnswer: unknown): AnswerCheck {
+  const text = normalize(question);
+  if (!CUE.test(text)) return unverifiable('question does not ask for a computed value');
+  const qualifier = QUALIFIER.exec(text);
+  if (qualifier) return unverifiable(`question asks for something other than the value ("${qualifier[1]}")`);
+
+  // "7 x 8" without an equation means times
+  const asked = /=/.test(text) ? text : text.replace(/(\d)\s+x\s+(?=\d)/gi, '$1 * ');
+  const segments = mathSegments(asked);
+  const candidates = segments.filter(hasOperation).map((s) => s.replace(/=\s*$/, '').trim());
+  if (candidates.length === 0) return unverifiable('no arithmetic or equation found');
+  if (segments.length > 1) return unverifiable('question contains more than one number or formula');
+  const expression = candidates[0];
+
+  try {
+    const sides = expression.split('=');
+    if (sides.length > 2) return unverifiable('more than one "=" sign', expression);
+
+    if (sides.length === 2) {
+      const left = parsePoly(sides[0]);
+      const right = parsePoly(sides[1]);
+      if (left.variable && right.variable && left.variable !== right.variable) return unverifiable('more than one variable', expression, 'equation');
+      const variable = left.variable ?? right.variable;
+      if (!variable) return unverifiable('equation has no unknown', expression, 'equation');
+      if (!asksFor(text, [variable])) return unverifiable(`question does not ask for the value of ${variable}`, expression, 'equation');
+      const p = add(left.poly, right.poly, -1);
+      if (degree(p) < 1) return unverifiable('equation does not depend on the unknown', expression, 'equation');
+
+      const roots = solve(p);
+      const stated = parseAnswer(String(correctAnswer ?? ''), variable);
+      if (!stated || stated.some((v) => degree(v) > 0)) return unverifiable('answer key is not a number', expression, 'equation');
+      const values = stated.map((v) => v[0] ?? 0);
+      const shown = String(correctAnswer ?? '');
+      const isRoot = (v: number) =>
+        roots ? roots.some((r) => sameNumber(r, v, shown)) : sameNumber(evalAt(p, v), 0);
+      const expected = roots ? (roots.length ? roots.map(formatNumber).join(', ') : 'no real solution') : null;
+      const matchedOption = roots && roots.length
+        ? (options || []).find((o) => {
+            const vals = parseAnswer(String(o), variable);
+            return !!vals && vals.length > 0 && vals.every((v) => degree(v) === 0 && roots.some((r) => sameNumber(r, v[0] ?? 0, String(o))));
+          }) ?? null
+        : null;
+
+      const ok = values.every(isRoot);
+      return {
+        status: ok ? 'verified' : 'contradicted',
+        method: 'equation',
+        expression,
+        expected,
+        matchedOption: matchedOption != null ? String(matchedOption) : null,
+        reason: ok ? 'answer solves the equation' : `answer does not solve the equation (expected ${expected ?? 'another value'})`,
+      };
+    }
+
+    const { poly, variable } = parsePoly(expression);
+    if (!asksFor(text, ['expression', ...(variable ? [variable] : [])])) {
+      return unverifiable('question does not ask for the value of the expression', expression, 'expression');
+    }
+    if (!poly.every(Number.isFinite)) return unverifiable('expression is not finite', expression, 'expression');
+    const expected = formatPoly(poly, variable);
+    const stated = parseAnswer(String(correctAnswer ?? ''), null);
+    if (!stated || stated.length !== 1) return unverifiable('answer key is not a single value', expression, 'expression');
+    const matches = (v: Poly, shown: string) => samePoly(v, poly, shown);
+    const matchedOption = (options || []).find((o) => {
+      const vals = parseAnswer(String(o), null);
+      return !!vals && vals.length === 1 && matches(vals[0], String(o));
+    });
+
+    const ok = matches(stated[0], String(correctAnswer ?? ''));
+    return {
+      status: ok ? 'verified' : 'contradicted',
+      method: 'expression',
+      expression,
+      expected,
+      matchedOption: matchedOption != null ? String(matchedOption) : null,
+      reason: ok ? 'answer matches the computed value' : `computed value is ${expected}`,
+    };
+  } catch (err) {
+    if (err instanceof Unsupported) return unverifiable(err.message, expression);
+    return unverifiable(String((err as any)?.message ?? err), expression);
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Built-in prompts. Each key is seeded into ai_prompts / ai_prompt_versions as version 1 the first
+ * time it is resolved; after that admins edit it in the DB. Also the fallback when the DB is
+ * unreachable, so AI features keep working.
+ */
+export type PromptDefaults = {
+  template: string;
+  description: string;
+  temperature: number;
+  maxTokens: number;
+  model?: string | null;
+};
+
+export const PROMPT_KEYS = {
+  generateTest: 'generate_test',
+  explainAnswer: 'explain_answer',
+  tutorSystem: 'tutor_system',
+  questionHint: 'question_hint',
+} as const;
+
+export const DEFAULT_PROMPTS: Record<string, PromptDefaults> = {
+  [PROMPT_KEYS.generateTest]: {
+    description: 'Test and question generation. Placeholders: {{difficulty}}, {{topic}}, {{questionCount}}.',
+    temperature: 0.2,
+    maxTokens: 3000,
+    template: `
+Generate a {{difficulty}}-level test on "{{topic}}" with {{questionCount}} multiple-choice questions.
+For each question, provide the following fields in a JSON array (no markdown, no code fences):
+- id (number or string)
+- question (string)
+- options (array of strings, at least 2)
+- correctAnswer (either the correct option string OR the index of the correct option (0-based))
+- explanation (string, optional: one or two sentences on why the answer is correct)
+
+Write all math in LaTeX: inline as $...$ (e.g. $\\frac{3}{4}$, $x^{2}$), display as $$...$$.
+Keep braces balanced and close every delimiter. Inside JSON strings every backslash must be doubled
+("$\\\\sqrt{16}$"). Write a literal dollar sign (currency) as \\\\$.
+
+Return ONLY valid JSON: an array of question objects, e.g.
+[
+  {
+    "id": 1,
+    "question": "What is 2+2?",
+    "options": ["1", "2", "4", "5"],
+    "correctAnswer": "4"
+  }
+]
+Make the questions clear and self-contained.
+`,
+  },
+  [PROMPT_KEYS.explainAnswer]: {
+    description:
+      "Answer explanations. Placeholders: {{question}}, {{userAnswer}}, {{correctAnswer}}, {{incorrectNote}} (\" and why the user's answer is incorrect\" when it is wrong).",
+    temperature: 0.7,
+    maxTokens: 512,
+    template: `
+Question: {{question}}
+User's Answer: {{userAnswer}}
+Correct Answer: {{correctAnswer}}
+
+Give a step-by-step, student-friendly explanation for why the correct answer is right{{incorrectNote}}.
+Respond in plain text, do NOT wrap in markdown or code fences. Write any math in LaTeX between $...$.
+`,
+  },
+  [PROMPT_KEYS.questionHint]: {
+    description:
+      'Hints during a test. Placeholders: {{question}}, {{choices}}, {{correctAnswer}}, {{level}}, {{maxLevel}}, {{levelGuide}}, {{previousHints}}.',
+    temperature: 0.4,
+    maxTokens: 200,
+    template: `
+A student is taking a test and asked for hint {{level}} of {{maxLevel}} on this question.
+
+Question: {{question}}
+{{choices}}
+Correct answer (for your reference only, never state it): {{correctAnswer}}
+
+Hints already shown:
+{{previousHints}}
+
+{{levelGuide}}
+Never give the final answer, never say which choice is correct or incorrect, and do not repeat an earlier hint.
+Reply with the hint only: one to three sentences of plain text, no markdown. Write any math in LaTeX between $...$.
+`,
+  },
+  [PROMPT_KEYS.tutorSystem]: {
+    description: 'System instruction for the personal AI tutor chat.',
+    temperature: 0.3,
+    maxTokens: 800,
+    template:
+      "You are a helpful personal tutor. Provide step-by-step explanations, suggest focused exercises, and track the learner's weak areas. Keep replies concise and actionable.",
+  },
+};
+
+// {{name}} placeholders are replaced from vars; unknown ones are left in place so typos show up
+export function renderPrompt(template: string, vars: Record<string, any> = {}): string {
+  return String(template ?? '').replace(/{{\s*([\w.]+)\s*}}/g, (match, name) =>
+    Object.prototype.hasOwnProperty.call(vars, name) ? String(vars[name] ?? '') : match,
+  );
+}
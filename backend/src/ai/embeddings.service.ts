@@ -1,33 +1,25 @@
-import { Injectable, InternalServerErrorException, Logger } from '@nestjs/common';
+import { Inject, Injectable, InternalServerErrorException, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import axios from 'axios';
+import { LLM_PROVIDER, LlmProvider } from './providers/llm-provider';
 
 @Injectable()
 export class EmbeddingsService {
   private readonly logger = new Logger(EmbeddingsService.name);
-  constructor(private readonly config: ConfigService) {}
-
-  private getKey(): string {
-    const k = this.config.get<string>('OPENAI_API_KEY');
-    if (!k) throw new InternalServerErrorException('OPENAI_API_KEY not configured');
-    return k;
-  }
+  constructor(
+    private readonly config: ConfigService,
+    @Inject(LLM_PROVIDER)
+    private readonly llm: LlmProvider,
+  ) {}
 
   /**
-   * Request embeddings from OpenAI.
-   * Uses `text-embedding-3-small` by default; change with OPENAI_EMBEDDING_MODEL.
+   * Request embeddings from the configured LLM provider.
+   * OpenAI uses `text-embedding-3-small` by default; change with OPENAI_EMBEDDING_MODEL.
    */
   async createEmbedding(text: string): Promise<number[]> {
+    if (!this.llm.isConfigured()) throw new InternalServerErrorException('OPENAI_API_KEY not configured');
     try {
-      const model = this.config.get<string>('OPENAI_EMBEDDING_MODEL') || 'text-embedding-3-small';
-      const res = await axios.post(
-        'https://api.openai.com/v1/embeddings',
-        { model, input: text },
-        { headers: { Authorization: `Bearer ${this.getKey()}`, 'Content-Type': 'application/json' } },
-      );
-      const emb = res?.data?.data?.[0]?.embedding;
-      if (!emb || !Array.isArray(emb)) throw new Error('No embedding in response');
-      return emb;
+      const model = this.config.get<string>('OPENAI_EMBEDDING_MODEL') || undefined;
+      return await this.llm.embed(text, model);
     } catch (err) {
       this.logger.warn('Embedding creation failed: ' + String(err?.message ?? err));
       throw new InternalServerErrorException('Failed to create embedding');
@@ -46,4 +38,4 @@ export class EmbeddingsService {
     }
     return dot / (Math.sqrt(na) * Math.sqrt(nb) || 1e-12);
   }
-}
\ No newline at end of file
+}
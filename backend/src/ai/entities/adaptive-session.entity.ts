@@ -0,0 +1,42 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+
+export type AdaptiveSessionStatus = 'active' | 'finished';
+
+/**
+ * Adaptive (CAT-style) practice session. Answers are recorded in session_performance
+ * under session_id "adaptive-<id>"; this row tracks the question currently being served.
+ */
+@Entity({ name: 'adaptive_sessions' })
+export class AdaptiveSession {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Index()
+  @Column({ type: 'int' })
+  user_id: number;
+
+  @Column({ type: 'varchar', length: 128 })
+  topic: string;
+
+  // difficulty of the question currently served
+  @Column({ type: 'varchar', length: 32 })
+  difficulty: string;
+
+  @Column({ type: 'varchar', length: 128, nullable: true })
+  current_question_id?: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  answered: number;
+
+  @Column({ type: 'int', default: 0 })
+  correct: number;
+
+  @Column({ type: 'varchar', length: 20, default: 'active' })
+  status: AdaptiveSessionStatus;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  created_at: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updated_at: Date;
+}
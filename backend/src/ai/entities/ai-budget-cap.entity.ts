@@ -0,0 +1,29 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+
+export type AiBudgetScope = 'plan' | 'user';
+
+/**
+ * Admin-set monthly AI spend cap. scope 'plan' keys on the lowercase plan name, scope 'user' on
+ * the user id; a user cap overrides their plan's cap. monthly_usd NULL means unlimited.
+ */
+@Entity({ name: 'ai_budget_caps' })
+@Index('uq_ai_budget_caps_scope_key', ['scope', 'scopeKey'], { unique: true })
+export class AiBudgetCap {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar', length: 16 })
+  scope: AiBudgetScope;
+
+  @Column({ name: 'scope_key', type: 'varchar', length: 64 })
+  scopeKey: string;
+
+  @Column({ name: 'monthly_usd', type: 'numeric', precision: 10, scale: 2, nullable: true })
+  monthlyUsd: string | null;
+
+  @Column({ name: 'updated_by', type: 'varchar', length: 255, nullable: true })
+  updatedBy: string | null;
+
+  @Column({ name: 'updated_at', type: 'timestamptz', default: () => 'now()' })
+  updatedAt: Date;
+}
@@ -0,0 +1,44 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+
+/**
+ * Daily token/cost rollup per user, plan and feature, upserted by AiCostService.record for every
+ * AI call that reports usage. user_id 0 collects calls not made on behalf of a user (admin tools,
+ * background jobs without an owner). plan is the user's plan at the time of the call.
+ */
+@Entity({ name: 'ai_cost_daily' })
+@Index('uq_ai_cost_daily_key', ['day', 'userId', 'plan', 'feature'], { unique: true })
+export class AiCostDaily {
+  @PrimaryGeneratedColumn({ type: 'bigint' })
+  id: number;
+
+  @Column({ type: 'date' })
+  day: string;
+
+  @Index()
+  @Column({ name: 'user_id', type: 'integer', default: 0 })
+  userId: number;
+
+  @Column({ type: 'varchar', length: 32, default: 'free' })
+  plan: string;
+
+  @Column({ type: 'varchar', length: 64, default: 'other' })
+  feature: string;
+
+  @Column({ type: 'integer', default: 0 })
+  calls: number;
+
+  @Column({ name: 'prompt_tokens', type: 'bigint', default: 0 })
+  promptTokens: number;
+
+  @Column({ name: 'completion_tokens', type: 'bigint', default: 0 })
+  completionTokens: number;
+
+  @Column({ name: 'total_tokens', type: 'bigint', default: 0 })
+  totalTokens: number;
+
+  @Column({ name: 'cost_usd', type: 'numeric', precision: 12, scale: 6, default: 0 })
+  costUsd: string;
+
+  @Column({ name: 'updated_at', type: 'timestamptz', default: () => 'now()' })
+  updatedAt: Date;
+}
@@ -28,6 +28,27 @@ export class AiLog {
   @Column({ type: 'text', name: 'error', nullable: true })
   error?: string | null;
 
+  // What the call was for (test_generation, explanation, tutor, ...); see AiFeature
+  @Column({ type: 'character varying', length: 64, name: 'feature', nullable: true })
+  feature?: string | null;
+
+  // ai_prompt_versions.id the prompt was rendered from
+  @Column({ type: 'integer', name: 'promptVersionId', nullable: true })
+  promptVersionId?: number | null;
+
+  @Column({ type: 'integer', name: 'promptTokens', nullable: true })
+  promptTokens?: number | null;
+
+  @Column({ type: 'integer', name: 'completionTokens', nullable: true })
+  completionTokens?: number | null;
+
+  @Column({ type: 'integer', name: 'totalTokens', nullable: true })
+  totalTokens?: number | null;
+
+  // numeric comes back from pg as a string
+  @Column({ type: 'numeric', precision: 12, scale: 6, name: 'costUsd', nullable: true })
+  costUsd?: string | null;
+
   // Map createdAt explicitly to DB column (timestamptz)
   @Column({ type: 'timestamptz', name: 'createdAt', nullable: true })
   createdAt?: Date | null;
@@ -1,4 +1,11 @@
-import { Entity, PrimaryColumn, Column, CreateDateColumn, Index } from 'typeorm';
+import { Entity, PrimaryColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+import { AnswerCheckStatus } from '../answer-verifier';
+import { QuestionType } from '../question-types';
+
+// Review workflow: generated questions start as 'draft'; only 'approved' ones are served from the bank.
+// 'quarantined' holds questions whose answer key the math engine contradicted until an admin looks at them.
+export type QuestionStatus = 'draft' | 'approved' | 'retired' | 'quarantined';
+export const QUESTION_STATUSES: QuestionStatus[] = ['draft', 'approved', 'retired', 'quarantined'];
 
 @Entity({ name: 'generated_questions' })
 export class GeneratedQuestion {
@@ -12,9 +19,22 @@ export class GeneratedQuestion {
   @Column({ type: 'json' })
   choices: string[];
 
+  // multi_select keys list the correct choices separated by " | " (see question-types.ts)
   @Column({ type: 'text' })
   correct_answer: string;
 
+  @Index()
+  @Column({ type: 'varchar', length: 24, default: 'multiple_choice' })
+  question_type: QuestionType;
+
+  // alternative keys for numeric / short_text questions
+  @Column({ type: 'json', nullable: true })
+  accepted_answers?: string[] | null;
+
+  // numeric only: absolute tolerance; NULL = exact value (rounded decimals of 3+ places accepted)
+  @Column({ type: 'double precision', nullable: true })
+  tolerance?: number | null;
+
   @Column({ type: 'text', nullable: true })
   explanation?: string;
 
@@ -32,6 +52,34 @@ export class GeneratedQuestion {
   @Column({ type: 'json', nullable: true })
   metadata?: any | null;
 
+  // Hints cached for test takers, index 0 = level 1 (see question-hints.ts)
+  @Column({ type: 'json', nullable: true })
+  hints?: string[] | null;
+
+  @Index()
+  @Column({ type: 'varchar', length: 16, default: 'draft' })
+  status: QuestionStatus;
+
+  // result of the answer-key check (see answer-verifier.ts); details in metadata.answerCheck
+  @Index()
+  @Column({ type: 'varchar', length: 16, nullable: true })
+  answer_check?: AnswerCheckStatus | null;
+
+  // ai_prompt_versions.id of the prompt that generated it
+  @Index()
+  @Column({ type: 'int', nullable: true })
+  prompt_version_id?: number | null;
+
+  // admin who last approved/retired/edited the question
+  @Column({ type: 'int', nullable: true })
+  reviewed_by?: number | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  reviewed_at?: Date | null;
+
   @CreateDateColumn({ type: 'timestamptz' })
   created_at: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz', nullable: true })
+  updated_at?: Date | null;
 }
\ No newline at end of file
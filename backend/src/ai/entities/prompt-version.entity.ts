@@ -0,0 +1,52 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+/**
+ * One immutable revision of an AiPrompt: template and model settings never change after insert;
+ * editing a prompt adds a new version. The counters are outcome stats for A/B comparison.
+ */
+@Index('uq_ai_prompt_versions_key_version', ['promptKey', 'version'], { unique: true })
+@Entity({ name: 'ai_prompt_versions' })
+export class AiPromptVersion {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'prompt_key', type: 'varchar', length: 128 })
+  promptKey: string;
+
+  @Column({ type: 'int' })
+  version: number;
+
+  @Column({ type: 'text' })
+  template: string;
+
+  // null = the caller's default
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  model: string | null;
+
+  @Column({ type: 'real', nullable: true })
+  temperature: number | null;
+
+  @Column({ name: 'max_tokens', type: 'int', nullable: true })
+  maxTokens: number | null;
+
+  @Column({ type: 'text', nullable: true })
+  note: string | null;
+
+  @Column({ name: 'created_by', type: 'varchar', length: 255, nullable: true })
+  createdBy: string | null;
+
+  // times the version was resolved for a model call
+  @Column({ type: 'int', default: 0 })
+  uses: number;
+
+  // model output that failed JSON / schema validation
+  @Column({ name: 'validation_failures', type: 'int', default: 0 })
+  validationFailures: number;
+
+  // generated questions rejected as duplicates
+  @Column({ type: 'int', default: 0 })
+  duplicates: number;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+}
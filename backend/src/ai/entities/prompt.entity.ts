@@ -1,5 +1,7 @@
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
 
+export type PromptExperiment = { variants: Array<{ versionId: number; weight: number }>; startedAt: string };
+
 @Entity({ name: 'ai_prompts' })
 export class AiPrompt {
   @PrimaryGeneratedColumn('increment')
@@ -15,13 +17,21 @@ export class AiPrompt {
   @Column({ type: 'text', nullable: true })
   description?: string | null;
 
-  // optional metadata (json) e.g. default params, temperature, model
+  // optional metadata (json), e.g. a friendly name or example output
   @Column({ type: 'json', nullable: true })
   metadata?: any | null;
 
+  // AiPromptVersion served when no experiment is running; template mirrors it
+  @Column({ name: 'active_version_id', type: 'int', nullable: true })
+  activeVersionId?: number | null;
+
+  // A/B experiment: versions served by weight instead of the active one
+  @Column({ type: 'jsonb', nullable: true })
+  experiment?: PromptExperiment | null;
+
   @CreateDateColumn({ type: 'timestamptz' })
   created_at: Date;
 
   @UpdateDateColumn({ type: 'timestamptz' })
   updated_at: Date;
-}
\ No newline at end of file
+}
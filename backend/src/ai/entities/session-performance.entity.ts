@@ -25,6 +25,15 @@ export class SessionPerformance {
   @Column({ type: 'int', nullable: true })
   time_seconds?: number | null;
 
+  // topic the question was asked under (pacing analytics group by this)
+  @Index()
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  topic?: string | null;
+
+  // how many times the student switched their answer before submitting
+  @Column({ type: 'int', default: 0 })
+  answer_changes: number;
+
   @CreateDateColumn({ type: 'timestamptz' })
   created_at: Date;
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
-import { Controller, Post, Body, UseGuards, Req } from '@nestjs/common';
+import { Controller, Post, Body, UseGuards, Req, Headers, HttpCode } from '@nestjs/common';
 import { GenerateV2Service } from './generate-v2.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { JobQueueService } from '../jobs/job-queue.service';
 
 @Controller('ai')
 export class GenerateV2Controller {
@@ -20,4 +21,22 @@ export class GenerateV2Controller {
     const q = await this.gen.generateSingle(topic, difficulty, userId);
     return { question: q };
   }
-}
\ No newline at end of file
+
+  /**
+   * POST /ai/generate-v2/jobs
+   * Same body as generate-v2, run as a background job. Returns 202 with the job; poll
+   * GET /jobs/:id until status is 'succeeded' (result.question), 'rejected' (e.g. over budget; error says why) or 'dead'.
+   * An Idempotency-Key header makes retried requests return the same job.
+   */
+  @Post('generate-v2/jobs')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(202)
+  async enqueue(@Req() req, @Body() body: any, @Headers('idempotency-key') idempotencyKey?: string) {
+    const userId = req.user?.sub ? Number(req.user.sub) : null;
+    const topic = (body?.topic || 'General').toString();
+    const difficulty = (body?.difficulty || 'beginner').toString();
+    const key = idempotencyKey ? `user:${userId}:${idempotencyKey}` : null;
+    const job = await this.gen.enqueueGeneration(topic, difficulty, userId, key);
+    return { ...JobQueueService.toView(job), statusUrl: `/jobs/${job.id}` };
+  }
+}
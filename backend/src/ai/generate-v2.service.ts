@@ -1,7 +1,5 @@
-import { Injectable, InternalServerErrorException, Logger } from '@nestjs/common';
+import { HttpException, Injectable, InternalServerErrorException, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import * as fs from 'fs';
-import * as path from 'path';
 import * as crypto from 'crypto';
 import { AiService } from './ai.service';
 import { AiLoggerService } from './ai-logger.service';
@@ -11,11 +9,18 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { DuplicateCheckerService } from './duplicate-checker.service';
 import { EmbeddingsService } from './embeddings.service';
+import { JobQueueService } from '../jobs/job-queue.service';
+import { PromptsService, ResolvedPrompt } from './prompts.service';
+import { PROMPT_KEYS } from './default-prompts';
+import { verifyAnswer } from './answer-verifier';
+
+// Job types handled here (see JobQueueService)
+export const GENERATE_QUESTION_JOB = 'ai.generate_question';
+export const EMBED_QUESTION_JOB = 'ai.embed_question';
 
 @Injectable()
-export class GenerateV2Service {
+export class GenerateV2Service implements OnModuleInit {
   private readonly logger = new Logger(GenerateV2Service.name);
-  private prompts: Record<string, string> = {};
   private readonly MAX_RETRIES = 3;
 
   constructor(
@@ -26,111 +31,155 @@ export class GenerateV2Service {
     private readonly generatedRepo: Repository<GeneratedQuestion>,
     private readonly duplicateChecker: DuplicateCheckerService,
     private readonly embeddings: EmbeddingsService,
-  ) {
-    this.loadPrompts();
+    private readonly jobs: JobQueueService,
+    private readonly prompts: PromptsService,
+  ) {}
+
+  onModuleInit() {
+    // queue retries (with backoff) replace the in-process loop for background generation
+    this.jobs.register(
+      GENERATE_QUESTION_JOB,
+      async (payload, ctx) => ({ question: await this.generateOnce(payload.topic, payload.difficulty, payload.userId ?? null, ctx.attempt) }),
+      { maxAttempts: this.MAX_RETRIES, retryable: (err) => !(err instanceof HttpException) },
+    );
+    this.jobs.register(EMBED_QUESTION_JOB, (payload) => this.storeEmbedding(payload.questionId, payload.text));
   }
 
-  private loadPrompts() {
-    const fallback = path.resolve(process.cwd(), 'frontend', 'src', 'config', 'ai-prompts.json');
-    const p = this.configService.get<string>('PROMPTS_PATH') || fallback;
-    try {
-      if (fs.existsSync(p)) {
-        const raw = fs.readFileSync(p, 'utf8');
-        this.prompts = JSON.parse(raw);
-      } else {
-        this.prompts = {};
-      }
-    } catch (err) {
-      this.logger.warn('Failed to load prompts from path: ' + p + ' error: ' + String(err));
-      this.prompts = {};
-    }
+  /**
+   * Queue a single-question generation; poll GET /jobs/:id for { question }.
+   */
+  async enqueueGeneration(topic: string, difficulty: string, userId?: number | null, idempotencyKey?: string | null) {
+    return this.jobs.enqueue(GENERATE_QUESTION_JOB, { topic, difficulty, userId: userId ?? null }, { userId: userId ?? null, idempotencyKey });
   }
 
+  /**
+   * Synchronous generation for request handlers that need the question now (adaptive engine,
+   * POST /ai/generate-v2). Background callers should use enqueueGeneration instead.
+   */
   async generateSingle(topic: string, difficulty: string, userId?: number | null): Promise<Question> {
-    const promptTemplate = this.prompts['default_question_prompt'] || this.prompts['default_prompt'] || '';
-    if (!promptTemplate) {
-      throw new InternalServerErrorException('No prompt template configured for generation');
+    let lastError: any = null;
+    for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
+      try {
+        return await this.generateOnce(topic, difficulty, userId, attempt);
+      } catch (err) {
+        // budget denials and other HTTP errors won't change on retry; surface them as-is
+        if (err instanceof HttpException) throw err;
+        lastError = err;
+        if (attempt < this.MAX_RETRIES) await new Promise((res) => setTimeout(res, 300 * attempt));
+      }
     }
+    throw new InternalServerErrorException({ error: 'generation_failed', detail: lastError?.message ?? String(lastError) });
+  }
 
-    let attempt = 0;
-    let lastError: any = null;
+  /**
+   * One generation attempt: call the model, validate, reject duplicates, persist as a draft.
+   * Throws on any failure (duplicates included) so the caller decides whether to retry.
+   * Validation failures and duplicates are counted against the prompt version that produced them.
+   * A question whose answer key the math engine contradicts is stored as 'quarantined' for admin
+   * review and the attempt fails, so the caller's retry generates a replacement.
+   */
+  async generateOnce(topic: string, difficulty: string, userId?: number | null, attempt = 1): Promise<Question> {
+    let resolved: ResolvedPrompt | null = null;
+    const promptText = () => resolved?.text ?? PROMPT_KEYS.generateTest;
+
+    try {
+      const generated = await this.aiService.generateTestWithPrompt(topic, difficulty, 1, { userId: userId ?? null, feature: 'question_generation' });
+      resolved = generated.prompt;
+      const arr = generated.questions;
+      const first = Array.isArray(arr) && arr.length ? arr[0] : null;
+      if (!first) throw new Error('Model returned empty result');
+      // the check below runs on the normalized question; keep the raw candidate as the model sent it
+      const candidate = { ...first };
+      delete candidate.answerCheck;
 
-    while (attempt < this.MAX_RETRIES) {
-      attempt++;
+      const normalized: any = {
+        // always mint a fresh id: model-supplied ids ("1", "2", ...) collide across generations and
+        // would overwrite earlier rows in generated_questions (the original stays in metadata.rawCandidate)
+        question_id: crypto.randomUUID ? crypto.randomUUID() : crypto.createHash('sha1').update(String(Date.now()) + Math.random()).digest('hex'),
+        question_text: candidate.question || candidate.question_text || candidate.prompt || '',
+        choices: candidate.options || candidate.choices || [],
+        correct_answer: (typeof candidate.correctAnswer !== 'undefined' ? candidate.correctAnswer : candidate.correct_answer) ?? '',
+        explanation: candidate.explanation ?? '',
+        difficulty: difficulty,
+        topic: topic,
+        estimated_time_seconds: candidate.estimated_time_seconds ? Number(candidate.estimated_time_seconds) : candidate.time ? Number(candidate.time) : 60,
+        metadata: { rawCandidate: candidate },
+      };
+
+      if (typeof normalized.correct_answer === 'number') {
+        normalized.correct_answer = normalized.choices[normalized.correct_answer] ?? normalized.correct_answer;
+      }
+
+      let parsed: Question;
       try {
-        const arr = await this.aiService.generateTest(topic, difficulty, 1);
-        const candidate = Array.isArray(arr) && arr.length ? arr[0] : null;
-        if (!candidate) throw new Error('Model returned empty result');
-
-        const normalized: any = {
-          question_id: candidate.id ? String(candidate.id) : (crypto.randomUUID ? crypto.randomUUID() : crypto.createHash('sha1').update(String(Date.now())).digest('hex')),
-          question_text: candidate.question || candidate.question_text || candidate.prompt || '',
-          choices: candidate.options || candidate.choices || [],
-          correct_answer: (typeof candidate.correctAnswer !== 'undefined' ? candidate.correctAnswer : candidate.correct_answer) ?? '',
-          explanation: candidate.explanation ?? '',
-          difficulty: difficulty,
-          topic: topic,
-          estimated_time_seconds: candidate.estimated_time_seconds ? Number(candidate.estimated_time_seconds) : candidate.time ? Number(candidate.time) : 60,
-          metadata: { rawCandidate: candidate },
-        };
-
-        if (typeof normalized.correct_answer === 'number') {
-          normalized.correct_answer = normalized.choices[normalized.correct_answer] ?? normalized.correct_answer;
-        }
+        parsed = QuestionSchema.parse(normalized) as Question;
+      } catch (validationErr) {
+        await this.prompts.recordOutcome(resolved.versionId, 'validation_failure');
+        throw validationErr;
+      }
+
+      // Duplicate check via injected service
+      const dup = await this.duplicateChecker.isDuplicateByContent(parsed.question_text, parsed.choices, parsed.topic);
+      if (dup.isDuplicate) {
+        await this.prompts.recordOutcome(resolved.versionId, 'duplicate');
+        await this.aiLogger.log({ userId: userId ?? null, prompt: promptText(), params: { topic, difficulty, attempt }, promptVersionId: resolved.versionId, model: this.aiService.providerName, response: candidate, success: false, error: `duplicate:${dup.reason}` });
+        throw new Error(`duplicate:${dup.reason}`);
+      }
 
-        const parsed = QuestionSchema.parse(normalized) as Question;
+      // Independent answer-key check on the normalized question
+      const answerCheck = verifyAnswer(parsed.question_text, parsed.choices, parsed.correct_answer);
+      const contradicted = answerCheck.status === 'contradicted';
 
-        // Duplicate check via injected service
-        const dup = await this.duplicateChecker.isDuplicateByContent(parsed.question_text, parsed.choices, parsed.topic);
-        if (dup.isDuplicate) {
-          await this.aiLogger.log({ userId: userId ?? null, prompt: promptTemplate, params: { topic, difficulty, attempt }, model: process.env.OPENAI_API_KEY ? 'openai' : null, response: candidate, success: false, error: `duplicate:${dup.reason}` });
-          lastError = new Error(`duplicate:${dup.reason}`);
-          // try again
-          continue;
-        }
+      // Persist
+      const entity = this.generatedRepo.create({
+        question_id: parsed.question_id,
+        question_text: parsed.question_text,
+        choices: parsed.choices,
+        correct_answer: parsed.correct_answer,
+        explanation: parsed.explanation,
+        difficulty: String(parsed.difficulty),
+        topic: parsed.topic,
+        estimated_time_seconds: parsed.estimated_time_seconds,
+        metadata: { ...(parsed.metadata ?? {}), answerCheck },
+        // served from the bank only after an admin approves it
+        status: contradicted ? 'quarantined' : 'draft',
+        answer_check: answerCheck.status,
+        prompt_version_id: resolved.versionId,
+      });
+      await this.generatedRepo.save(entity);
 
-        // Persist
-        const entity = this.generatedRepo.create({
-          question_id: parsed.question_id,
-          question_text: parsed.question_text,
-          choices: parsed.choices,
-          correct_answer: parsed.correct_answer,
-          explanation: parsed.explanation,
-          difficulty: String(parsed.difficulty),
-          topic: parsed.topic,
-          estimated_time_seconds: parsed.estimated_time_seconds,
-          metadata: parsed.metadata ?? null,
-        });
-        await this.generatedRepo.save(entity);
-
-        // Optionally create and store embedding if pgvector enabled (duplicate checker may have done it)
+      if (contradicted) {
+        await this.aiLogger.log({ userId: userId ?? null, prompt: promptText(), params: { topic, difficulty, attempt }, promptVersionId: resolved.versionId, model: this.aiService.providerName, response: candidate, success: false, error: `contradicted:${answerCheck.expected ?? ''}` });
+        throw new Error(`contradicted:${answerCheck.reason}`);
+      }
+
+      // Embedding (pgvector) is computed in the background; the question is usable without it
+      if (String(this.configService.get('ENABLE_PGVECTOR') || '').toLowerCase() === 'true') {
         try {
-          if (String(this.configService.get('ENABLE_PGVECTOR') || '').toLowerCase() === 'true') {
-            const embText = parsed.question_text + ' ' + (parsed.choices || []).join(' ');
-            const emb = await this.embeddings.createEmbedding(embText);
-            // store embedding via raw SQL (so migration must include embedding column)
-            await this.generatedRepo.manager.query(
-              `UPDATE generated_questions SET embedding = $1 WHERE question_id = $2`,
-              [emb, parsed.question_id],
-            );
-          }
+          const embText = parsed.question_text + ' ' + (parsed.choices || []).join(' ');
+          await this.jobs.enqueue(EMBED_QUESTION_JOB, { questionId: parsed.question_id, text: embText }, { idempotencyKey: `embed:${parsed.question_id}` });
         } catch (err) {
           // non-fatal
-          this.logger.warn('Failed to persist embedding: ' + String(err?.message ?? err));
+          this.logger.warn('Failed to enqueue embedding: ' + String(err?.message ?? err));
         }
+      }
 
-        await this.aiLogger.log({ userId: userId ?? null, prompt: promptTemplate, params: { topic, difficulty }, model: process.env.OPENAI_API_KEY ? 'openai' : null, response: candidate, success: true, error: null });
-        return parsed;
-      } catch (err) {
-        lastError = err;
+      await this.aiLogger.log({ userId: userId ?? null, prompt: promptText(), params: { topic, difficulty }, promptVersionId: resolved.versionId, model: this.aiService.providerName, response: candidate, success: true, error: null });
+      return parsed;
+    } catch (err) {
+      if (!/^(duplicate|contradicted):/.test(String(err?.message ?? ''))) {
         try {
-          await this.aiLogger.log({ userId: userId ?? null, prompt: promptTemplate, params: { topic, difficulty, attempt }, model: process.env.OPENAI_API_KEY ? 'openai' : null, response: null, success: false, error: String(err) });
+          await this.aiLogger.log({ userId: userId ?? null, prompt: promptText(), params: { topic, difficulty, attempt }, promptVersionId: resolved?.versionId ?? null, model: this.aiService.providerName, response: null, success: false, error: String(err) });
         } catch {}
-        await new Promise((res) => setTimeout(res, 300 * attempt));
-        continue;
       }
+      throw err;
     }
+  }
 
-    throw new InternalServerErrorException({ error: 'generation_failed', detail: lastError?.message ?? String(lastError) });
+  // store embedding via raw SQL (so migration must include embedding column)
+  private async storeEmbedding(questionId: string, text: string) {
+    const emb = await this.embeddings.createEmbedding(text);
+    await this.generatedRepo.manager.query(`UPDATE generated_questions SET embedding = $1 WHERE question_id = $2`, [emb, questionId]);
+    return { questionId, dimensions: Array.isArray(emb) ? emb.length : null };
   }
 }
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { latexIssues, latexToPlain, repairLatexEscapes, splitMath } from './latex';
+import { QuestionSchema } from './question.schema';
+
+declare const describe: any;
+declare const it: any;
+declare const expect: any;
+
+describe('latex', () => {
+  it('splits inline and display math and leaves currency as text', () => {
+    expect(splitMath('Solve $x^2 = 9$ then $$\\frac{a}{b}$$').segments).toEqual([
+      { type: 'text', value: 'Solve ', display: false },
+      { type: 'math', value: 'x^2 = 9', display: false },
+      { type: 'text', value: ' then ', display: false },
+      { type: 'math', value: '\\frac{a}{b}', display: true },
+    ]);
+    expect(splitMath('\\(a+b\\) and \\[c\\]').segments.filter((s) => s.type === 'math').map((s) => [s.value, s.display])).toEqual([
+      ['a+b', false],
+      ['c', true],
+    ]);
+    for (const text of ['A pen costs $12 and a book $15.', 'Save $ 5 today', 'It costs \\$3 or \\$4']) {
+      expect(splitMath(text).segments.every((s) => s.type === 'text')).toBe(true);
+    }
+    expect(splitMath('It costs \\$3').segments[0].value).toBe('It costs $3');
+  });
+
+  it('reports malformed math', () => {
+    expect(latexIssues('What is $\\frac{1}{2}$ of $\\sqrt{16}$?')).toEqual([]);
+    expect(latexIssues('Plain text, no math')).toEqual([]);
+    expect(latexIssues('$$x + 1')).toEqual(['unclosed $$']);
+    expect(latexIssues('$\\frac{1}{2$')[0]).toContain('unbalanced braces');
+    expect(latexIssues('$\\left( x$')[0]).toContain('\\left without matching \\right');
+    expect(latexIssues('$$\\begin{matrix} 1 \\end{pmatrix}$$')[0]).toContain('does not match');
+    expect(latexIssues('x \\) y')).toEqual(['\\) without an opening delimiter']);
+  });
+
+  it('turns math into plain notation', () => {
+    expect(latexToPlain('What is $\\frac{3}{4} \\times 2^{3}$?')).toBe('What is ((3)/(4)) * 2^(3)?');
+    expect(latexToPlain('$\\dfrac{\\frac{1}{2}}{3}$')).toBe('((((1)/(2)))/(3))');
+    expect(latexToPlain('$\\left(6 \\div 2\\right)$ costs \\$5')).toBe('(6 / 2) costs $5');
+  });
+
+  it('doubles single backslashes of LaTeX commands in model JSON', () => {
+    const raw = '[{"question": "What is $\\frac{1}{2} \\times \\left(4\\right)$?\\nPick one", "options": ["$\\\\sqrt{4}$"]}]';
+    const parsed = JSON.parse(repairLatexEscapes(raw));
+    expect(parsed[0].question).toBe('What is $\\frac{1}{2} \\times \\left(4\\right)$?\nPick one');
+    expect(parsed[0].options).toEqual(['$\\sqrt{4}$']);
+  });
+
+  it('is enforced by QuestionSchema', () => {
+    const base = { question_id: 'q1', question_text: 'What is $\\frac{1}{2}$?', choices: ['$0.5$', '$2$'], correct_answer: '$0.5$', difficulty: 'easy', topic: 'Math' };
+    expect(QuestionSchema.safeParse(base).success).toBe(true);
+    const bad = QuestionSchema.safeParse({ ...base, choices: ['$0.5$', '$\\frac{2$'], explanation: '$$1' });
+    expect(bad.success).toBe(false);
+    expect(bad.error.issues.map((i: any) => i.path.join('.'))).toEqual(['choices.1', 'explanation']);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * LaTeX in question text, choices and explanations.
+ *
+ * Math is written between `$...$` / `\(...\)` (inline) or `$$...$$` / `\[...\]` (display); the
+ * frontend renders it with KaTeX (frontend/src/utils/latex.ts mirrors splitMath). A single `$`
+ * follows the Pandoc rule so currency stays text: it opens math only when followed by a
+ * non-space, and closes only when preceded by a non-space and not followed by a digit
+ * ("$12 and $15" is plain text). `\$` is always a literal dollar sign.
+ */
+
+export type MathSegment = { type: 'text' | 'math'; value: string; display: boolean };
+
+const PAIRED: Array<{ open: string; close: string; display: boolean }> = [
+  { open: '$$', close: '$$', display: true },
+  { open: '\\[', close: '\\]', display: true },
+  { open: '\\(', close: '\\)', display: false },
+];
+
+const isSpace = (c: string | undefined) => c === undefined || /\s/.test(c);
+
+// Closing `$` for an inline `$` opener at `start`, or -1 when the `$` is just text
+function inlineClose(text: string, start: number): number {
+  if (isSpace(text[start + 1]) || text[start + 1] === '$') return -1;
+  for (let j = start + 1; j < text.length; j++) {
+    if (text[j] === '\\') {
+      j++;
+      continue;
+    }
+    if (text[j] !== '$') continue;
+    if (!isSpace(text[j - 1]) && !/\d/.test(text[j + 1] ?? '')) return j;
+    // a `$` that cannot close means the opener was a currency sign
+    return -1;
+  }
+  return -1;
+}
+
+/**
+ * Split text into plain and math segments. Unclosed `$$`, `\(` and `\[` are reported in issues
+ * and kept as text.
+ */
+export function splitMath(input: string): { segments: MathSegment[]; issues: string[] } {
+  const text = String(input ?? '');
+  const segments: MathSegment[] = [];
+  const issues: string[] = [];
+  let buf = '';
+  const flush = () => {
+    if (buf) segments.push({ type: 'text', value: buf, display: false });
+    buf = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    if (text.startsWith('\\$', i)) {
+      buf += '$';
+      i += 2;
+      continue;
+    }
+    const pair = PAIRED.find((p) => text.startsWith(p.open, i));
+    if (pair) {
+      const end = text.indexOf(pair.close, i + pair.open.length);
+      if (end < 0) {
+        issues.push(`unclosed ${pair.open}`);
+        buf += text.slice(i);
+        break;
+      }
+      flush();
+      segments.push({ type: 'math', value: text.slice(i + pair.open.length, end), display: pair.display });
+      i = end + pair.close.length;
+      continue;
+    }
+    if (text.startsWith('\\)', i) || text.startsWith('\\]', i)) {
+      issues.push(`${text.slice(i, i + 2)} without an opening delimiter`);
+      buf += text.slice(i, i + 2);
+      i += 2;
+      continue;
+    }
+    if (text[i] === '$') {
+      const end = inlineClose(text, i);
+      if (end > 0) {
+        flush();
+        segments.push({ type: 'math', value: text.slice(i + 1, end), display: false });
+        i = end + 1;
+        continue;
+      }
+    }
+    buf += text[i];
+    i++;
+  }
+  flush();
+  return { segments, issues };
+}
+
+// Structural problems inside one math segment: braces, \left/\right, \begin/\end
+function mathIssues(tex: string): string[] {
+  const issues: string[] = [];
+  if (!tex.trim()) issues.push('empty math');
+
+  let depth = 0;
+  for (let i = 0; i < tex.length; i++) {
+    if (tex[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (tex[i] === '{') depth++;
+    if (tex[i] === '}' && --depth < 0) break;
+  }
+  if (depth !== 0) issues.push('unbalanced braces');
+
+  const lefts = (tex.match(/\\left(?![a-zA-Z])/g) ?? []).length;
+  const rights = (tex.match(/\\right(?![a-zA-Z])/g) ?? []).length;
+  if (lefts !== rights) issues.push('\\left without matching \\right');
+
+  const envs: string[] = [];
+  for (const m of tex.matchAll(/\\(begin|end)\{([^}]*)\}/g)) {
+    if (m[1] === 'begin') envs.push(m[2]);
+    else if (envs.pop() !== m[2]) {
+      issues.push(`\\end{${m[2]}} does not match`);
+      return issues;
+    }
+  }
+  if (envs.length) issues.push(`\\begin{${envs[envs.length - 1]}} is never closed`);
+  return issues;
+}
+
+// All LaTeX problems in a text field; [] when it is well formed (or has no math)
+export function latexIssues(text: string | null | undefined): string[] {
+  if (!text) return [];
+  const { segments, issues } = splitMath(text);
+  for (const s of segments) {
+    if (s.type === 'math') for (const issue of mathIssues(s.value)) issues.push(`${issue} in "${s.value.slice(0, 40)}"`);
+  }
+  return issues;
+}
+
+// Index just past the `{...}` group starting at `start` (which must be '{'), or -1
+function groupEnd(tex: string, start: number): number {
+  if (tex[start] !== '{') return -1;
+  let depth = 0;
+  for (let i = start; i < tex.length; i++) {
+    if (tex[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (tex[i] === '{') depth++;
+    if (tex[i] === '}' && --depth === 0) return i + 1;
+  }
+  return -1;
+}
+
+function texToPlain(tex: string): string {
+  let s = tex;
+  // \frac{a}{b} -> ((a)/(b)), innermost first
+  for (let guard = 0; guard < 50; guard++) {
+    const m = /\\[dt]?frac\s*(?=\{)/.exec(s);
+    if (!m) break;
+    const aStart = m.index + m[0].length;
+    const aEnd = groupEnd(s, aStart);
+    const bEnd = aEnd > 0 ? groupEnd(s, aEnd) : -1;
+    if (bEnd < 0) break;
+    s = `${s.slice(0, m.index)}((${s.slice(aStart + 1, aEnd - 1)})/(${s.slice(aEnd + 1, bEnd - 1)}))${s.slice(bEnd)}`;
+  }
+  return s
+    .replace(/\\text\{([^}]*)\}/g, '$1')
+    .replace(/\\(left|right)(?![a-zA-Z])/g, '')
+    .replace(/\\(cdot|times)(?![a-zA-Z])/g, '*')
+    .replace(/\\div(?![a-zA-Z])/g, '/')
+    .replace(/\\sqrt(?![a-zA-Z])/g, '√')
+    .replace(/\\[,;:! ]/g, ' ')
+    .replace(/\\([%$])/g, '$1')
+    .replace(/[{]/g, '(')
+    .replace(/[}]/g, ')');
+}
+
+/**
+ * Text with its math turned into plain notation ("$\frac{3}{4} \times 2^{3}$" -> "((3)/(4)) * 2^(3)")
+ * for the answer-key check. Commands it does not know are left as they are.
+ */
+export function latexToPlain(text: string): string {
+  return splitMath(text)
+    .segments.map((s) => (s.type === 'math' ? texToPlain(s.value) : s.value))
+    .join('');
+}
+
+// LaTeX commands whose backslash models often leave single inside JSON strings ("\frac" parses as a form feed)
+const LATEX_COMMANDS =
+  'frac|dfrac|tfrac|times|div|cdot|cdots|ldots|dots|sqrt|left|right|pi|theta|alpha|beta|gamma|delta|lambda|mu|sigma|omega|' +
+  'int|sum|prod|lim|infty|le|leq|ge|geq|neq|approx|pm|mp|text|mathrm|mathbf|begin|end|log|ln|sin|cos|tan|circ|angle|' +
+  'triangle|overline|vec|hat|bar|quad|qquad|binom|degree|perp|parallel|in|notin|cup|cap|subset|subseteq|emptyset|rightarrow';
+const SINGLE_BACKSLASH_COMMAND = new RegExp(`(^|[^\\\\])\\\\(${LATEX_COMMANDS})(?![a-zA-Z])`, 'g');
+
+/**
+ * Double the backslash of LaTeX commands in raw model JSON so JSON.parse keeps them
+ * ("\frac" -> "\\frac"). Already-escaped commands are left alone.
+ */
+export function repairLatexEscapes(json: string): string {
+  // run twice so adjacent commands ("\left\frac") are both caught
+  return String(json ?? '').replace(SINGLE_BACKSLASH_COMMAND, '$1\\\\$2').replace(SINGLE_BACKSLASH_COMMAND, '$1\\\\$2');
+}
@@ -1,8 +1,8 @@
-import { Controller, Post, Body, UseGuards, BadRequestException } from '@nestjs/common';
+import { Controller, Post, Body, UseGuards, BadRequestException, Inject } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import axios from 'axios';
-import * as https from 'https';
 import { AdminAuthGuard } from '../admin/admin-auth.guard';
+import { LLM_PROVIDER, LlmProvider } from './providers/llm-provider';
+import { renderPrompt } from './default-prompts';
 
 /**
  * Admin-only preview endpoint for testing prompt templates.
@@ -11,7 +11,11 @@ import { AdminAuthGuard } from '../admin/admin-auth.guard';
 @Controller('admin/prompts')
 @UseGuards(AdminAuthGuard)
 export class PromptsPreviewController {
-  constructor(private readonly config: ConfigService) {}
+  constructor(
+    private readonly config: ConfigService,
+    @Inject(LLM_PROVIDER)
+    private readonly llm: LlmProvider,
+  ) {}
 
   /**
    * POST /admin/prompts/preview
@@ -25,45 +29,32 @@ export class PromptsPreviewController {
       throw new BadRequestException('Missing prompt body');
     }
 
-    // Simple placeholder substitution ({{key}}).
+    // Same {{key}} rendering as the runtime prompts
     const placeholders = body?.placeholders || {};
-    let finalPrompt = promptTemplate;
-    for (const [k, v] of Object.entries(placeholders)) {
-      const re = new RegExp(`{{\\s*${k}\\s*}}`, 'g');
-      finalPrompt = finalPrompt.replace(re, String(v));
-    }
+    const finalPrompt = renderPrompt(promptTemplate, placeholders);
 
     // Model options (safe defaults)
     const model = body?.model || this.config.get<string>('OPENAI_MODEL') || this.config.get<string>('OPENAI_EMBEDDING_MODEL') || 'gpt-4o';
     const temperature = typeof body?.temperature === 'number' ? body.temperature : 0.2;
     const max_tokens = typeof body?.max_tokens === 'number' ? body.max_tokens : 800;
 
-    const OPENAI_API_KEY = this.config.get<string>('OPENAI_API_KEY');
-    if (!OPENAI_API_KEY) {
+    if (!this.llm.isConfigured()) {
       return { error: 'OpenAI API Key not configured on server' };
     }
 
     try {
-      const response = await axios.post(
-        'https://api.openai.com/v1/chat/completions',
-        {
-          model,
-          messages: [{ role: 'user', content: finalPrompt }],
-          temperature,
-          max_tokens,
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${OPENAI_API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          httpsAgent: new https.Agent({ rejectUnauthorized: false }),
-        },
-      );
+      const completion = await this.llm.chat({
+        messages: [{ role: 'user', content: finalPrompt }],
+        model,
+        temperature,
+        maxTokens: max_tokens,
+        purpose: 'prompt_preview',
+        context: placeholders,
+      });
 
       // Return the raw text / object so UI can display it
-      const content = response?.data?.choices?.[0]?.message?.content ?? response?.data;
-      return { prompt: finalPrompt, model, content };
+      const content = completion.content || completion.raw;
+      return { prompt: finalPrompt, model: completion.model, provider: completion.provider, content };
     } catch (err: any) {
       // Return non-sensitive error details for admin debugging
       const data = err?.response?.data ?? err?.message ?? String(err);
@@ -1,6 +1,25 @@
-import { Controller, Get, UseGuards, Post, Body, Put, Param, Delete } from '@nestjs/common';
+import { Controller, Get, UseGuards, Post, Body, Put, Param, Delete, Req, BadRequestException } from '@nestjs/common';
 import { AdminAuthGuard } from '../admin/admin-auth.guard';
-import { PromptsService } from './prompts.service';
+import { PromptsService, PromptVersionInput } from './prompts.service';
+
+// model / temperature / max_tokens / note from an admin request body
+function versionInput(body: any, req: any): PromptVersionInput {
+  const num = (v: any) => (v === undefined ? undefined : v === null || v === '' ? null : Number(v));
+  return {
+    model: body?.model === undefined ? undefined : body.model || null,
+    temperature: num(body?.temperature),
+    maxTokens: num(body?.max_tokens),
+    note: body?.note ?? null,
+    createdBy: req?.user?.email ?? null,
+    activate: body?.activate !== false,
+  };
+}
+
+function parseId(id: string) {
+  const n = Number(id);
+  if (!n || Number.isNaN(n)) throw new BadRequestException('Invalid version id');
+  return n;
+}
 
 /**
  * Admin controller to manage AI prompt templates stored in the DB.
@@ -22,23 +41,24 @@ export class PromptsController {
   }
 
   /**
-   * Upsert full set or a single key.
+   * Upsert full set or a single key. A changed template or model setting adds a new version.
    * Body for single upsert:
-   * { key: string, template: string, description?: string, metadata?: any }
+   * { key: string, template: string, description?: string, metadata?: any,
+   *   model?: string, temperature?: number, max_tokens?: number, note?: string, activate?: boolean }
    */
   @Post()
-  async createOrUpdate(@Body() body: any) {
+  async createOrUpdate(@Body() body: any, @Req() req: any) {
     const { key, template, description, metadata } = body;
     if (!key || !template) throw new Error('key and template are required');
-    const item = await this.prompts.upsert(key, template, description, metadata);
+    const item = await this.prompts.upsert(key, template, description, metadata, versionInput(body, req));
     return { item };
   }
 
   @Put(':key')
-  async update(@Param('key') key: string, @Body() body: any) {
+  async update(@Param('key') key: string, @Body() body: any, @Req() req: any) {
     const { template, description, metadata } = body;
     if (!template) throw new Error('template required');
-    const item = await this.prompts.upsert(key, template, description, metadata);
+    const item = await this.prompts.upsert(key, template, description, metadata, versionInput(body, req));
     return { item };
   }
 
@@ -47,4 +67,34 @@ export class PromptsController {
     await this.prompts.delete(key);
     return { message: 'deleted' };
   }
-}
\ No newline at end of file
+
+  /* ---------- Versions and A/B experiments ---------- */
+
+  @Get(':key/versions')
+  async versions(@Param('key') key: string) {
+    return this.prompts.listVersions(key);
+  }
+
+  @Post(':key/versions/:id/activate')
+  async activate(@Param('key') key: string, @Param('id') id: string) {
+    return { item: await this.prompts.activate(key, parseId(id)) };
+  }
+
+  // Body: { variants: [{ versionId, weight }] }
+  @Put(':key/experiment')
+  async startExperiment(@Param('key') key: string, @Body() body: any) {
+    if (!Array.isArray(body?.variants)) throw new BadRequestException('variants array required');
+    return { item: await this.prompts.setExperiment(key, body.variants) };
+  }
+
+  @Delete(':key/experiment')
+  async stopExperiment(@Param('key') key: string) {
+    return { item: await this.prompts.setExperiment(key, null) };
+  }
+
+  // Per-version outcomes: validation failure, duplicate and student report rates
+  @Get(':key/stats')
+  async stats(@Param('key') key: string) {
+    return this.prompts.compare(key);
+  }
+}
@@ -0,0 +1,138 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { PromptsService } from './prompts.service';
+import { AiPrompt } from './entities/prompt.entity';
+import { AiPromptVersion } from './entities/prompt-version.entity';
+import { renderPrompt } from './default-prompts';
+
+declare const describe: any;
+declare const beforeEach: any;
+declare const it: any;
+declare const expect: any;
+declare const jest: any;
+
+// Minimal in-memory repository: equality matching on where, latest row first for findOne
+function memoryRepo(rows: any[]) {
+  let nextId = rows.length + 1;
+  const matches = (row: any, where: any = {}) => Object.entries(where).every(([k, v]) => row[k] === v);
+  return {
+    rows,
+    create: jest.fn((x: any) => ({ ...x })),
+    save: jest.fn(async (x: any) => {
+      if (!x.id) {
+        x.id = nextId++;
+        x.uses = x.uses ?? 0;
+        x.validationFailures = x.validationFailures ?? 0;
+        x.duplicates = x.duplicates ?? 0;
+        rows.push(x);
+      }
+      return x;
+    }),
+    findOne: jest.fn(async (opts: any) => rows.filter((r) => matches(r, opts?.where)).reverse()[0] ?? null),
+    find: jest.fn(async (opts: any) => rows.filter((r) => matches(r, opts?.where))),
+    delete: jest.fn(async (where: any) => {
+      for (const r of rows.filter((x) => matches(x, where))) rows.splice(rows.indexOf(r), 1);
+    }),
+    remove: jest.fn(async (x: any) => x),
+    query: jest.fn(async () => []),
+  };
+}
+
+describe('renderPrompt', () => {
+  it('fills known placeholders and leaves unknown ones', () => {
+    expect(renderPrompt('{{a}} + {{ b }} = {{c}}', { a: 1, b: 'two' })).toBe('1 + two = {{c}}');
+  });
+});
+
+describe('PromptsService', () => {
+  let service: PromptsService;
+  let prompts: ReturnType<typeof memoryRepo>;
+  let versions: ReturnType<typeof memoryRepo>;
+
+  beforeEach(async () => {
+    prompts = memoryRepo([]);
+    versions = memoryRepo([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PromptsService,
+        { provide: getRepositoryToken(AiPrompt), useValue: prompts },
+        { provide: getRepositoryToken(AiPromptVersion), useValue: versions },
+      ],
+    }).compile();
+
+    service = module.get<PromptsService>(PromptsService);
+  });
+
+  it('adds a version only when the template or settings change', async () => {
+    await service.upsert('greet', 'Hello {{name}}', undefined, undefined, { temperature: 0.5 });
+    await service.upsert('greet', 'Hello {{name}}', 'same template');
+    expect(versions.rows).toHaveLength(1);
+
+    const item = await service.upsert('greet', 'Hello {{name}}', undefined, undefined, { temperature: 0.9 });
+    expect(versions.rows.map((v: any) => [v.version, v.temperature])).toEqual([[1, 0.5], [2, 0.9]]);
+    expect(versions.rows[0].template).toBe('Hello {{name}}');
+    expect(item.activeVersionId).toBe(versions.rows[1].id);
+
+    await service.upsert('greet', 'Hi {{name}}', undefined, undefined, { activate: false });
+    expect(item.activeVersionId).toBe(versions.rows[1].id);
+    await expect(service.upsert('greet', 'x', undefined, undefined, { temperature: 3 })).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('seeds built-in prompts on first use and renders them with the stored settings', async () => {
+    const resolved = await service.resolve('generate_test', { topic: 'Algebra', difficulty: 'beginner', questionCount: 3 });
+
+    expect(resolved.versionId).toBe(versions.rows[0].id);
+    expect(resolved.text).toContain('Generate a beginner-level test on "Algebra" with 3 multiple-choice questions');
+    expect(resolved).toEqual(expect.objectContaining({ version: 1, variant: false, temperature: 0.2, maxTokens: 3000 }));
+    expect(versions.query).toHaveBeenCalledWith(expect.stringContaining('uses = uses + 1'), [resolved.versionId]);
+  });
+
+  it('falls back to the built-in template when the DB is unavailable', async () => {
+    prompts.findOne.mockRejectedValue(new Error('connection refused'));
+    const resolved = await service.resolve('explain_answer', { question: 'Q', userAnswer: 'a', correctAnswer: 'b', incorrectNote: '' });
+    expect(resolved.versionId).toBeNull();
+    expect(resolved.text).toContain('Question: Q');
+  });
+
+  it('serves weighted variants sticky per user', async () => {
+    await service.upsert('greet', 'A {{name}}');
+    await service.upsert('greet', 'B {{name}}', undefined, undefined, { activate: false });
+    const [a, b] = versions.rows;
+
+    await expect(service.setExperiment('greet', [{ versionId: a.id, weight: 1 }])).rejects.toBeInstanceOf(BadRequestException);
+    await expect(service.setExperiment('greet', [{ versionId: a.id, weight: 1 }, { versionId: 99, weight: 1 }])).rejects.toBeInstanceOf(BadRequestException);
+    await expect(service.setExperiment('greet', [{ versionId: a.id, weight: 0 }, { versionId: b.id, weight: 1 }])).rejects.toBeInstanceOf(BadRequestException);
+
+    await service.setExperiment('greet', [{ versionId: a.id, weight: 1 }, { versionId: b.id, weight: 1 }]);
+    const served = new Map<number, number>();
+    for (let userId = 1; userId <= 40; userId++) {
+      const first = await service.resolve('greet', { name: 'Sam' }, { userId });
+      const again = await service.resolve('greet', { name: 'Sam' }, { userId });
+      expect(again.versionId).toBe(first.versionId);
+      expect(first.variant).toBe(true);
+      served.set(first.versionId!, (served.get(first.versionId!) ?? 0) + 1);
+    }
+    expect(served.size).toBe(2);
+
+    await service.setExperiment('greet', null);
+    expect((await service.resolve('greet', { name: 'Sam' }, { userId: 1 })).text).toBe('A Sam');
+  });
+
+  it('compares outcome rates per version', async () => {
+    await service.upsert('greet', 'A');
+    await service.upsert('greet', 'B');
+    const [a, b] = versions.rows;
+    Object.assign(a, { uses: 10, validationFailures: 2, duplicates: 1 });
+    Object.assign(b, { uses: 0 });
+    versions.query.mockResolvedValueOnce([{ id: a.id, generated: 4, reported: 1 }]);
+
+    const stats = await service.compare('greet');
+    const byId = new Map(stats.versions.map((v: any) => [v.id, v]));
+    expect(byId.get(a.id)).toEqual(
+      expect.objectContaining({ validation_failure_rate: 0.2, duplicate_rate: 0.1, generated: 4, report_rate: 0.25, active: false }),
+    );
+    expect(byId.get(b.id)).toEqual(expect.objectContaining({ validation_failure_rate: null, report_rate: null, active: true }));
+  });
+});
@@ -1,15 +1,65 @@
-import { Injectable, NotFoundException, Logger } from '@nestjs/common';
+import { Injectable, NotFoundException, Logger, BadRequestException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { AiPrompt } from './entities/prompt.entity';
+import * as crypto from 'crypto';
+import { AiPrompt, PromptExperiment } from './entities/prompt.entity';
+import { AiPromptVersion } from './entities/prompt-version.entity';
+import { DEFAULT_PROMPTS, renderPrompt } from './default-prompts';
 
+// Resolved prompts are cached this long; admin writes clear the cache at once
+const CACHE_TTL_MS = 30 * 1000;
+
+export type PromptOutcome = 'validation_failure' | 'duplicate';
+
+const OUTCOME_COLUMNS: Record<PromptOutcome, string> = {
+  validation_failure: 'validation_failures',
+  duplicate: 'duplicates',
+};
+
+/**
+ * A prompt rendered for one model call. versionId is null when the built-in default was used
+ * because the DB could not be read; model / temperature / maxTokens are null when unset.
+ */
+export type ResolvedPrompt = {
+  key: string;
+  text: string;
+  versionId: number | null;
+  version: number;
+  variant: boolean;
+  model: string | null;
+  temperature: number | null;
+  maxTokens: number | null;
+};
+
+export type PromptVersionInput = {
+  model?: string | null;
+  temperature?: number | null;
+  maxTokens?: number | null;
+  note?: string | null;
+  createdBy?: string | null;
+  // false keeps the current active version (e.g. a candidate for an experiment)
+  activate?: boolean;
+};
+
+type CachedPrompt = { prompt: AiPrompt; versions: Map<number, AiPromptVersion>; at: number };
+
+/**
+ * DB-backed prompt templates with immutable versions and weighted A/B experiments.
+ *
+ * resolve() is what the AI services call: it picks the version to serve (an experiment variant,
+ * sticky per user, or the active version), renders {{placeholders}} and counts the use. Built-in
+ * keys (DEFAULT_PROMPTS) are seeded on first use.
+ */
 @Injectable()
 export class PromptsService {
   private readonly logger = new Logger(PromptsService.name);
+  private readonly cache = new Map<string, CachedPrompt>();
 
   constructor(
     @InjectRepository(AiPrompt)
     private readonly promptsRepo: Repository<AiPrompt>,
+    @InjectRepository(AiPromptVersion)
+    private readonly versionsRepo: Repository<AiPromptVersion>,
   ) {}
 
   async listAll() {
@@ -22,21 +72,280 @@ export class PromptsService {
     return item;
   }
 
-  async upsert(key: string, template: string, description?: string, metadata?: any) {
+  /**
+   * Save a prompt. A changed template or model setting is stored as a new version (versions are
+   * never edited); an unchanged one only updates description / metadata.
+   */
+  async upsert(key: string, template: string, description?: string, metadata?: any, opts: PromptVersionInput = {}) {
     let item = await this.promptsRepo.findOne({ where: { key } });
     if (!item) {
       item = this.promptsRepo.create({ key, template, description: description ?? null, metadata: metadata ?? null });
     } else {
-      item.template = template;
       item.description = description ?? item.description;
       item.metadata = metadata ?? item.metadata;
     }
+
+    const latest = await this.versionsRepo.findOne({ where: { promptKey: key }, order: { version: 'DESC' } });
+    const settings = {
+      model: opts.model === undefined ? latest?.model ?? null : opts.model || null,
+      temperature: opts.temperature === undefined ? latest?.temperature ?? null : opts.temperature,
+      maxTokens: opts.maxTokens === undefined ? latest?.maxTokens ?? null : opts.maxTokens,
+    };
+    this.assertSettings(settings);
+
+    const unchanged =
+      latest &&
+      latest.template === template &&
+      latest.model === settings.model &&
+      latest.temperature === settings.temperature &&
+      latest.maxTokens === settings.maxTokens;
+    if (!unchanged) {
+      const version = await this.versionsRepo.save(
+        this.versionsRepo.create({
+          promptKey: key,
+          version: (latest?.version ?? 0) + 1,
+          template,
+          ...settings,
+          note: opts.note ?? null,
+          createdBy: opts.createdBy ?? null,
+        }),
+      );
+      if (opts.activate !== false || !item.activeVersionId) {
+        item.activeVersionId = version.id;
+        item.template = template;
+      }
+    }
+
+    this.cache.delete(key);
     return this.promptsRepo.save(item);
   }
 
   async delete(key: string) {
     const item = await this.promptsRepo.findOne({ where: { key } });
     if (!item) throw new NotFoundException('Prompt not found');
+    this.cache.delete(key);
+    await this.versionsRepo.delete({ promptKey: key });
     return this.promptsRepo.remove(item);
   }
-}
\ No newline at end of file
+
+  /* ---------- Versions and experiments ---------- */
+
+  async listVersions(key: string) {
+    const item = await this.getByKey(key);
+    const versions = await this.versionsRepo.find({ where: { promptKey: key }, order: { version: 'DESC' } });
+    return { item, versions };
+  }
+
+  // Serve an existing version (rollback / promote an experiment winner)
+  async activate(key: string, versionId: number) {
+    const item = await this.getByKey(key);
+    const version = await this.versionsRepo.findOne({ where: { id: versionId, promptKey: key } });
+    if (!version) throw new NotFoundException('Version not found');
+    item.activeVersionId = version.id;
+    item.template = version.template;
+    this.cache.delete(key);
+    return this.promptsRepo.save(item);
+  }
+
+  /**
+   * Start (or replace) an experiment: each variant is a version of this prompt with a positive
+   * integer weight. null stops the experiment and the active version is served again.
+   */
+  async setExperiment(key: string, variants: Array<{ versionId: number; weight: number }> | null) {
+    const item = await this.getByKey(key);
+    if (!variants || variants.length === 0) {
+      item.experiment = null;
+    } else {
+      const ids = new Set<number>();
+      for (const v of variants) {
+        if (!Number.isInteger(Number(v?.weight)) || Number(v.weight) < 1) throw new BadRequestException('Variant weights must be positive integers');
+        if (ids.has(Number(v.versionId))) throw new BadRequestException('Each version can appear only once');
+        ids.add(Number(v.versionId));
+      }
+      if (ids.size < 2) throw new BadRequestException('An experiment needs at least two versions');
+      const found = await this.versionsRepo.find({ where: { promptKey: key } });
+      const known = new Set(found.map((v) => v.id));
+      if ([...ids].some((id) => !known.has(id))) throw new BadRequestException('Unknown version for this prompt');
+      const experiment: PromptExperiment = {
+        variants: variants.map((v) => ({ versionId: Number(v.versionId), weight: Number(v.weight) })),
+        startedAt: new Date().toISOString(),
+      };
+      item.experiment = experiment;
+    }
+    this.cache.delete(key);
+    return this.promptsRepo.save(item);
+  }
+
+  /**
+   * Outcome stats per version for the admin comparison: use counts, validation failure and
+   * duplicate rates, and the share of its generated questions that students reported.
+   */
+  async compare(key: string) {
+    const { item, versions } = await this.listVersions(key);
+    const ids = versions.map((v) => v.id);
+    const rows: Array<{ id: number; generated: number; reported: number }> = ids.length
+      ? await this.versionsRepo.query(
+          `SELECT g.prompt_version_id AS id,
+                  COUNT(DISTINCT g.question_id)::int AS generated,
+                  COUNT(DISTINCT r.bank_question_id)::int AS reported
+           FROM generated_questions g
+           LEFT JOIN question_reports r ON r.bank_question_id = g.question_id
+           WHERE g.prompt_version_id = ANY($1)
+           GROUP BY g.prompt_version_id`,
+          [ids],
+        )
+      : [];
+    const byId = new Map(rows.map((r) => [Number(r.id), r]));
+    const weights = new Map((item.experiment?.variants ?? []).map((v) => [v.versionId, v.weight]));
+    const rate = (n: number, d: number) => (d > 0 ? Math.round((n / d) * 10000) / 10000 : null);
+
+    return {
+      key,
+      active_version_id: item.activeVersionId ?? null,
+      experiment: item.experiment ?? null,
+      versions: versions.map((v) => {
+        const g = byId.get(v.id);
+        const generated = Number(g?.generated ?? 0);
+        const reported = Number(g?.reported ?? 0);
+        return {
+          id: v.id,
+          version: v.version,
+          model: v.model,
+          temperature: v.temperature,
+          max_tokens: v.maxTokens,
+          note: v.note,
+          created_by: v.createdBy,
+          created_at: v.createdAt,
+          active: v.id === item.activeVersionId,
+          weight: weights.get(v.id) ?? null,
+          uses: v.uses,
+          validation_failures: v.validationFailures,
+          duplicates: v.duplicates,
+          generated,
+          reported,
+          validation_failure_rate: rate(v.validationFailures, v.uses),
+          duplicate_rate: rate(v.duplicates, v.uses),
+          report_rate: rate(reported, generated),
+        };
+      }),
+    };
+  }
+
+  /* ---------- Runtime ---------- */
+
+  /**
+   * The prompt to send for `key`, rendered with vars. During an experiment a user always gets the
+   * same variant (anonymous calls are random). Falls back to the built-in default if the DB fails.
+   */
+  async resolve(key: string, vars: Record<string, any> = {}, opts: { userId?: number | null } = {}): Promise<ResolvedPrompt> {
+    const defaults = DEFAULT_PROMPTS[key];
+    try {
+      const cached = await this.load(key);
+      if (cached) {
+        const { version, variant } = this.pick(cached, key, opts.userId ?? null);
+        if (version) {
+          this.countUse(version.id);
+          return {
+            key,
+            text: renderPrompt(version.template, vars),
+            versionId: version.id,
+            version: version.version,
+            variant,
+            model: version.model ?? defaults?.model ?? null,
+            temperature: version.temperature ?? defaults?.temperature ?? null,
+            maxTokens: version.maxTokens ?? defaults?.maxTokens ?? null,
+          };
+        }
+      }
+    } catch (err: any) {
+      this.logger.warn(`resolve(${key}) failed; using the built-in prompt: ${err?.message ?? err}`);
+    }
+    if (!defaults) throw new NotFoundException(`Prompt ${key} not found`);
+    return {
+      key,
+      text: renderPrompt(defaults.template, vars),
+      versionId: null,
+      version: 0,
+      variant: false,
+      model: defaults.model ?? null,
+      temperature: defaults.temperature,
+      maxTokens: defaults.maxTokens,
+    };
+  }
+
+  // Count a bad outcome against the version that produced it (never throws)
+  async recordOutcome(versionId: number | null | undefined, outcome: PromptOutcome) {
+    if (!versionId) return;
+    try {
+      await this.versionsRepo.query(`UPDATE ai_prompt_versions SET ${OUTCOME_COLUMNS[outcome]} = ${OUTCOME_COLUMNS[outcome]} + 1 WHERE id = $1`, [versionId]);
+    } catch (err: any) {
+      this.logger.warn(`recordOutcome(${versionId}, ${outcome}) failed: ${err?.message ?? err}`);
+    }
+  }
+
+  private countUse(versionId: number) {
+    this.versionsRepo
+      .query(`UPDATE ai_prompt_versions SET uses = uses + 1 WHERE id = $1`, [versionId])
+      .catch((err: any) => this.logger.warn(`countUse(${versionId}) failed: ${err?.message ?? err}`));
+  }
+
+  private pick(cached: CachedPrompt, key: string, userId: number | null): { version: AiPromptVersion | null; variant: boolean } {
+    const variants = (cached.prompt.experiment?.variants ?? []).filter((v) => cached.versions.has(v.versionId) && v.weight > 0);
+    if (variants.length > 1) {
+      const total = variants.reduce((sum, v) => sum + v.weight, 0);
+      const bucket =
+        userId != null
+          ? parseInt(crypto.createHash('sha1').update(`${key}:${userId}`).digest('hex').slice(0, 8), 16) % total
+          : Math.floor(Math.random() * total);
+      let acc = 0;
+      for (const v of variants) {
+        acc += v.weight;
+        if (bucket < acc) return { version: cached.versions.get(v.versionId) ?? null, variant: true };
+      }
+    }
+    const active = cached.prompt.activeVersionId ? cached.versions.get(cached.prompt.activeVersionId) : null;
+    const latest = [...cached.versions.values()].sort((a, b) => b.version - a.version)[0] ?? null;
+    return { version: active ?? latest, variant: false };
+  }
+
+  private async load(key: string): Promise<CachedPrompt | null> {
+    const hit = this.cache.get(key);
+    if (hit && Date.now() - hit.at < CACHE_TTL_MS) return hit;
+
+    let prompt = await this.promptsRepo.findOne({ where: { key } });
+    if (!prompt) prompt = await this.seed(key);
+    if (!prompt) return null;
+    const versions = await this.versionsRepo.find({ where: { promptKey: key } });
+    const entry: CachedPrompt = { prompt, versions: new Map(versions.map((v) => [v.id, v])), at: Date.now() };
+    this.cache.set(key, entry);
+    return entry;
+  }
+
+  // First use of a built-in key: store the default as version 1
+  private async seed(key: string): Promise<AiPrompt | null> {
+    const defaults = DEFAULT_PROMPTS[key];
+    if (!defaults) return null;
+    try {
+      return await this.upsert(key, defaults.template, defaults.description, null, {
+        model: defaults.model ?? null,
+        temperature: defaults.temperature,
+        maxTokens: defaults.maxTokens,
+        note: 'Built-in default',
+        createdBy: 'system',
+      });
+    } catch (err) {
+      // another instance seeded it first
+      return this.promptsRepo.findOne({ where: { key } });
+    }
+  }
+
+  private assertSettings(s: { model: string | null; temperature: number | null; maxTokens: number | null }) {
+    if (s.temperature != null && !(Number.isFinite(s.temperature) && s.temperature >= 0 && s.temperature <= 2)) {
+      throw new BadRequestException('temperature must be between 0 and 2');
+    }
+    if (s.maxTokens != null && !(Number.isInteger(s.maxTokens) && s.maxTokens > 0)) {
+      throw new BadRequestException('max_tokens must be a positive integer');
+    }
+    if (s.model != null && s.model.length > 64) throw new BadRequestException('model name is too long');
+  }
+}
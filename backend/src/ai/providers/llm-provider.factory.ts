@@ -0,0 +1,23 @@
+import { FactoryProvider, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LLM_PROVIDER, LlmProvider } from './llm-provider';
+import { OpenAiProvider } from './openai.provider';
+import { LocalStubProvider } from './local-stub.provider';
+
+/**
+ * Binds LLM_PROVIDER to the implementation named by the LLM_PROVIDER env var.
+ * - 'openai' (default): OpenAI chat completions + embeddings
+ * - 'local' / 'stub' / 'fixture': deterministic offline stub (no network, no key)
+ */
+export const llmProviderFactory: FactoryProvider<LlmProvider> = {
+  provide: LLM_PROVIDER,
+  inject: [ConfigService, OpenAiProvider, LocalStubProvider],
+  useFactory: (config: ConfigService, openai: OpenAiProvider, local: LocalStubProvider): LlmProvider => {
+    const selected = String(config.get<string>('LLM_PROVIDER') || 'openai').trim().toLowerCase();
+    if (['local', 'stub', 'fixture'].includes(selected)) {
+      new Logger('LlmProvider').log('Using local stub LLM provider (LLM_PROVIDER=' + selected + ')');
+      return local;
+    }
+    return openai;
+  },
+};
@@ -0,0 +1,69 @@
+/**
+ * Provider-agnostic contract for the LLM calls made by the AI module.
+ *
+ * AiService, AiTutorService, EmbeddingsService and the prompt preview endpoint
+ * talk to whichever implementation is bound to LLM_PROVIDER instead of posting
+ * to api.openai.com directly. Select the implementation with the LLM_PROVIDER
+ * env var ('openai' by default, 'local' for the offline stub).
+ */
+
+// Injection token for the active provider
+export const LLM_PROVIDER = 'LLM_PROVIDER';
+
+export type LlmProviderName = 'openai' | 'local';
+
+// What the caller is asking for. Real models ignore it; the local stub uses it
+// to decide which deterministic payload to return.
+export type LlmPurpose = 'generate_test' | 'explain_answer' | 'question_hint' | 'tutor_reply' | 'prompt_preview';
+
+export type LlmChatMessage = { role: 'system' | 'user' | 'assistant' | string; content: string };
+
+export interface LlmChatRequest {
+  messages: LlmChatMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  purpose?: LlmPurpose;
+  // structured inputs behind the prompt (topic, difficulty, questionCount, ...)
+  context?: Record<string, any>;
+}
+
+export interface LlmUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+export interface LlmChatResult {
+  content: string;
+  model: string;
+  provider: LlmProviderName;
+  usage?: LlmUsage | null;
+  // raw provider payload (kept for ai_logs)
+  raw?: any;
+}
+
+// Receives completion text as it is generated (one or more tokens per call)
+export type LlmTokenHandler = (delta: string) => void;
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+
+  // false when the provider cannot serve requests (e.g. missing API key)
+  isConfigured(): boolean;
+
+  chat(request: LlmChatRequest): Promise<LlmChatResult>;
+
+  // Same as chat, but hands each delta to onToken as it arrives; resolves with the full result
+  chatStream(request: LlmChatRequest, onToken: LlmTokenHandler): Promise<LlmChatResult>;
+
+  embed(text: string, model?: string): Promise<number[]>;
+}
+
+// Strip markdown code fences some models wrap around JSON / plain text
+export function stripCodeFences(content: string): string {
+  return String(content ?? '')
+    .replace(/^\s*```(?:json)?/i, '')
+    .replace(/```\s*$/, '')
+    .trim();
+}
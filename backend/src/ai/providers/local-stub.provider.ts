@@ -0,0 +1,163 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { LlmChatRequest, LlmChatResult, LlmProvider, LlmPurpose, LlmTokenHandler } from './llm-provider';
+
+const EMBEDDING_DIMENSIONS = 64;
+
+/**
+ * Offline, deterministic LlmProvider for dev and CI (LLM_PROVIDER=local).
+ *
+ * - Never touches the network and needs no API key.
+ * - The same request always yields the same output (seeded from the prompt text).
+ * - Optional fixtures: LLM_FIXTURES_PATH may point to a JSON file keyed by purpose
+ *   ({ "generate_test": [...], "explain_answer": "...", ... }); a fixture wins over
+ *   the built-in generators for that purpose.
+ */
+@Injectable()
+export class LocalStubProvider implements LlmProvider {
+  readonly name = 'local' as const;
+  private readonly logger = new Logger(LocalStubProvider.name);
+  private fixtures: Partial<Record<LlmPurpose, any>> | null = null;
+
+  constructor(private readonly config: ConfigService) {
+    this.loadFixtures();
+  }
+
+  private loadFixtures() {
+    const p = this.config.get<string>('LLM_FIXTURES_PATH');
+    if (!p) return;
+    try {
+      if (fs.existsSync(p)) {
+        this.fixtures = JSON.parse(fs.readFileSync(p, 'utf8'));
+      } else {
+        this.logger.warn('LLM_FIXTURES_PATH does not exist: ' + p);
+      }
+    } catch (err) {
+      this.logger.warn('Failed to load LLM fixtures from ' + p + ': ' + String(err));
+      this.fixtures = null;
+    }
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResult> {
+    const promptText = (request.messages || []).map((m) => m.content).join('\n');
+    const seed = LocalStubProvider.seedFrom(promptText);
+    const purpose = request.purpose ?? 'prompt_preview';
+
+    let content: string;
+    const fixture = this.fixtures?.[purpose];
+    if (typeof fixture !== 'undefined') {
+      content = typeof fixture === 'string' ? fixture : JSON.stringify(fixture);
+    } else if (purpose === 'generate_test') {
+      content = JSON.stringify(this.buildQuestions(request.context ?? {}, seed));
+    } else if (purpose === 'explain_answer') {
+      content = this.buildExplanation(request.context ?? {});
+    } else if (purpose === 'question_hint') {
+      content = this.buildHint(request.context ?? {});
+    } else if (purpose === 'tutor_reply') {
+      content = this.buildTutorReply(request.messages);
+    } else {
+      content = `[local stub] ${promptText.slice(0, 200)}`;
+    }
+
+    const promptTokens = LocalStubProvider.countTokens(promptText);
+    const completionTokens = LocalStubProvider.countTokens(content);
+    const usage = { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+    const model = request.model || 'local-stub';
+
+    return {
+      content,
+      model,
+      provider: this.name,
+      usage,
+      raw: { model, choices: [{ message: { role: 'assistant', content } }], usage },
+    };
+  }
+
+  // Replays the deterministic completion word by word, yielding between chunks like a real stream
+  async chatStream(request: LlmChatRequest, onToken: LlmTokenHandler): Promise<LlmChatResult> {
+    const result = await this.chat(request);
+    for (const chunk of result.content.match(/\S+\s*|\s+/g) ?? []) {
+      onToken(chunk);
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    return result;
+  }
+
+  // Hashed bag-of-words vector: identical text -> identical vector, shared words -> higher cosine.
+  async embed(text: string): Promise<number[]> {
+    const vec = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    const words = String(text || '').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+    for (const w of words) {
+      vec[LocalStubProvider.seedFrom(w) % EMBEDDING_DIMENSIONS] += 1;
+    }
+    const norm = Math.sqrt(vec.reduce((s, v) => s + v * v, 0)) || 1;
+    return vec.map((v) => v / norm);
+  }
+
+  private buildQuestions(ctx: Record<string, any>, seed: number) {
+    const topic = String(ctx.topic ?? 'General');
+    const difficulty = String(ctx.difficulty ?? 'beginner');
+    const count = Math.max(1, Number(ctx.questionCount) || 5);
+    const scale = /adv|hard/i.test(difficulty) ? 100 : /inter|medium/i.test(difficulty) ? 30 : 10;
+
+    const questions = [];
+    for (let i = 0; i < count; i++) {
+      const a = ((seed + i * 7) % scale) + 2;
+      const b = ((seed + i * 13) % scale) + 1;
+      const multiply = i % 2 === 1;
+      const answer = multiply ? a * b : a + b;
+      const distractors = [answer + 1, answer - 1, answer + b + 2];
+      // rotate the correct answer through the option slots
+      const options = distractors.map(String);
+      options.splice((seed + i) % 4, 0, String(answer));
+      questions.push({
+        id: i + 1,
+        question: `[${topic}] What is ${a} ${multiply ? '×' : '+'} ${b}?`,
+        options,
+        correctAnswer: String(answer),
+        explanation: `${a} ${multiply ? '×' : '+'} ${b} = ${answer}.`,
+        tags: [topic],
+      });
+    }
+    return questions;
+  }
+
+  private buildExplanation(ctx: Record<string, any>) {
+    const correct = String(ctx.correctAnswer ?? '');
+    const user = String(ctx.userAnswer ?? '');
+    const lines = [`The correct answer is ${correct}.`, 'Work through the problem step by step and check each operation.'];
+    if (user && user !== correct) lines.push(`Your answer (${user}) does not match the result of those steps.`);
+    return lines.join('\n');
+  }
+
+  // Generic per-level hints: they never mention the answer
+  private buildHint(ctx: Record<string, any>) {
+    const hints = [
+      'Start by deciding which operation or rule the question is about.',
+      'Write the numbers you are given in the order the question uses them, then do the first step.',
+      'Finish the working one step at a time and compare your result with the options.',
+    ];
+    const level = Math.min(Math.max(1, Number(ctx.level) || 1), hints.length);
+    return hints[level - 1];
+  }
+
+  private buildTutorReply(messages: LlmChatRequest['messages']) {
+    const lastUser = [...(messages || [])].reverse().find((m) => m.role === 'user');
+    const topic = String(lastUser?.content ?? '').slice(0, 120);
+    return `Let's work through this together: "${topic}". Start by writing down what is given, then try two practice problems on the same idea.`;
+  }
+
+  static seedFrom(text: string): number {
+    return crypto.createHash('sha1').update(String(text)).digest().readUInt32BE(0);
+  }
+
+  private static countTokens(text: string): number {
+    return Math.ceil(String(text || '').length / 4);
+  }
+}
@@ -0,0 +1,133 @@
+import { Injectable, InternalServerErrorException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import * as https from 'https';
+import { LlmChatRequest, LlmChatResult, LlmProvider, LlmTokenHandler } from './llm-provider';
+
+/**
+ * OpenAI implementation of LlmProvider (chat completions + embeddings).
+ * Model defaults: OPENAI_MODEL (gpt-4o) and OPENAI_EMBEDDING_MODEL (text-embedding-3-small).
+ */
+@Injectable()
+export class OpenAiProvider implements LlmProvider {
+  readonly name = 'openai' as const;
+  private readonly baseUrl = 'https://api.openai.com/v1';
+
+  constructor(private readonly config: ConfigService) {}
+
+  isConfigured(): boolean {
+    return !!this.config.get<string>('OPENAI_API_KEY');
+  }
+
+  private headers() {
+    const key = this.config.get<string>('OPENAI_API_KEY');
+    if (!key) throw new InternalServerErrorException('OpenAI API Key missing');
+    return { Authorization: `Bearer ${key}`, 'Content-Type': 'application/json' };
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResult> {
+    const model = request.model || this.config.get<string>('OPENAI_MODEL') || 'gpt-4o';
+    const response = await axios.post(
+      `${this.baseUrl}/chat/completions`,
+      {
+        model,
+        messages: request.messages,
+        temperature: typeof request.temperature === 'number' ? request.temperature : 0.2,
+        max_tokens: typeof request.maxTokens === 'number' ? request.maxTokens : 800,
+      },
+      {
+        headers: this.headers(),
+        // Remove rejectUnauthorized:false in production if possible
+        httpsAgent: new https.Agent({ rejectUnauthorized: false }),
+      },
+    );
+
+    // Support different response shapes (choices[].message.content vs choices[].text)
+    const content = response?.data?.choices?.[0]?.message?.content ?? response?.data?.choices?.[0]?.text ?? '';
+
+    return {
+      content: String(content),
+      model: response?.data?.model ?? model,
+      provider: this.name,
+      usage: response?.data?.usage ?? null,
+      raw: response?.data,
+    };
+  }
+
+  /**
+   * Chat completion with stream=true: parses the server-sent `data:` chunks and forwards each
+   * content delta. Usage comes from the final chunk (stream_options.include_usage).
+   */
+  async chatStream(request: LlmChatRequest, onToken: LlmTokenHandler): Promise<LlmChatResult> {
+    const model = request.model || this.config.get<string>('OPENAI_MODEL') || 'gpt-4o';
+    const response = await axios.post(
+      `${this.baseUrl}/chat/completions`,
+      {
+        model,
+        messages: request.messages,
+        temperature: typeof request.temperature === 'number' ? request.temperature : 0.2,
+        max_tokens: typeof request.maxTokens === 'number' ? request.maxTokens : 800,
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      {
+        headers: this.headers(),
+        responseType: 'stream',
+        httpsAgent: new https.Agent({ rejectUnauthorized: false }),
+      },
+    );
+
+    let content = '';
+    let usage: LlmChatResult['usage'] = null;
+    let resolvedModel = model;
+    let buffer = '';
+
+    const handleLine = (line: string) => {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) return;
+      const data = trimmed.slice(5).trim();
+      if (!data || data === '[DONE]') return;
+      try {
+        const chunk = JSON.parse(data);
+        resolvedModel = chunk?.model ?? resolvedModel;
+        if (chunk?.usage) usage = chunk.usage;
+        const delta = chunk?.choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta.length) {
+          content += delta;
+          onToken(delta);
+        }
+      } catch {
+        // partial or keep-alive line; ignore
+      }
+    };
+
+    await new Promise<void>((resolve, reject) => {
+      const stream = response.data as NodeJS.ReadableStream;
+      stream.on('data', (buf: Buffer) => {
+        buffer += buf.toString('utf8');
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        lines.forEach(handleLine);
+      });
+      stream.on('end', () => {
+        if (buffer) handleLine(buffer);
+        resolve();
+      });
+      stream.on('error', reject);
+    });
+
+    return { content, model: resolvedModel, provider: this.name, usage, raw: { model: resolvedModel, usage, streamed: true } };
+  }
+
+  async embed(text: string, model?: string): Promise<number[]> {
+    const embeddingModel = model || this.config.get<string>('OPENAI_EMBEDDING_MODEL') || 'text-embedding-3-small';
+    const res = await axios.post(
+      `${this.baseUrl}/embeddings`,
+      { model: embeddingModel, input: text },
+      { headers: this.headers() },
+    );
+    const emb = res?.data?.data?.[0]?.embedding;
+    if (!emb || !Array.isArray(emb)) throw new Error('No embedding in response');
+    return emb;
+  }
+}
@@ -0,0 +1,64 @@
+import { QuestionBankService } from './question-bank.service';
+
+declare const describe: any;
+declare const beforeEach: any;
+declare const it: any;
+declare const expect: any;
+declare const jest: any;
+
+describe('QuestionBankService.storeGenerated', () => {
+  let service: QuestionBankService;
+  let repo: Record<string, any>;
+  let duplicateChecker: Record<string, any>;
+
+  const banked = { question_id: 'bank-1', question_text: 'What is 2 + 2?', correct_answer: '4' };
+  const generated = (over: Record<string, any> = {}) => ({ id: 1, question: 'What is 2 + 2?', options: ['3', '4', '5'], correctAnswer: '4', ...over });
+
+  beforeEach(() => {
+    repo = {
+      findOne: jest.fn(async (opts: any) => (opts?.where?.question_id === 'bank-1' ? banked : null)),
+      create: jest.fn((row: any) => row),
+      save: jest.fn(async (row: any) => row),
+    };
+    duplicateChecker = { isDuplicateByContent: jest.fn(async () => ({ isDuplicate: false })) };
+    service = new QuestionBankService(repo as any, duplicateChecker as any);
+  });
+
+  it('reuses the bank id of an exact duplicate', async () => {
+    duplicateChecker.isDuplicateByContent.mockResolvedValue({ isDuplicate: true, reason: 'exact_text', matchId: 'bank-1' });
+    const [q] = await service.storeGenerated([generated()], 'Algebra', 'beginner');
+    expect(q.bankId).toBe('bank-1');
+    expect(repo.save).not.toHaveBeenCalled();
+  });
+
+  it('does not reuse the id of a question that only shares choices or differs in key', async () => {
+    duplicateChecker.isDuplicateByContent.mockResolvedValue({ isDuplicate: true, reason: 'choices_match', matchId: 'bank-1' });
+    const [other] = await service.storeGenerated([generated({ question: 'What is 1 + 3?' })], 'Algebra', 'beginner');
+    const [rekeyed] = await service.storeGenerated([generated({ correctAnswer: '5' })], 'Algebra', 'beginner');
+    expect(other.bankId).toBeUndefined();
+    expect(rekeyed.bankId).toBeUndefined();
+    expect(repo.save).not.toHaveBeenCalled();
+  });
+
+  it('only serves and stores cached hints for the question the bank row holds', async () => {
+    (banked as any).hints = ['Add the two numbers.'];
+    repo.update = jest.fn();
+    expect(await service.cachedHint('bank-1', 1, { question: 'What is 2 + 2?', correctAnswer: '4' })).toBe('Add the two numbers.');
+    expect(await service.cachedHint('bank-1', 1, { question: 'What is 1 + 3?', correctAnswer: '4' })).toBeNull();
+    await service.cacheHint('bank-1', 2, 'Count on from 2.', { question: 'What is 2 + 2?', correctAnswer: '5' });
+    expect(repo.update).not.toHaveBeenCalled();
+    delete (banked as any).hints;
+  });
+
+    it('banks the question type, accepted answers and tolerance', async () => {
+    const [q] = await service.storeGenerated(
+      [{ question: 'What is 2/3 as a decimal?', type: 'numeric', correctAnswer: '2/3', acceptedAnswers: ['0.667'], tolerance: 0.001 }],
+      'Algebra',
+      'beginner',
+    );
+    expect(q.bankId).toEqual(expect.any(String));
+    expect(repo.save).toHaveBeenCalledWith(
+      expect.objectContaining({ question_type: 'numeric', choices: [], accepted_answers: ['0.667'], tolerance: 0.001 }),
+    );
+  });
+});
@@ -0,0 +1,185 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { GeneratedQuestion } from './entities/generated-question.entity';
+import { QuestionSchema } from './question.schema';
+import { DuplicateCheckerService } from './duplicate-checker.service';
+import { CHOICE_TYPES, DEFAULT_QUESTION_TYPE, questionTypeOf } from './question-types';
+
+// The attempt question a cached hint must belong to
+export type HintCacheKey = { question?: string | null; correctAnswer?: unknown };
+
+const normalizeText = (s: unknown) => String(s ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Whether a bank row holds this question: same text and same key
+function sameQuestion(row: Pick<GeneratedQuestion, 'question_text' | 'correct_answer'>, text: unknown, key: unknown): boolean {
+  return normalizeText(row.question_text) === normalizeText(text) && normalizeText(row.correct_answer) === normalizeText(key);
+}
+
+/**
+ * Read/write access to the generated_questions bank for test assembly.
+ *
+ * Tests draw stored questions first (matching topic/difficulty, not yet seen by the
+ * user) and only ask the LLM for the remainder; those fresh questions are stored back
+ * so the bank keeps growing. Attempt questions carry `bankId` so "seen" can be derived
+ * from the user's attempts and session_performance rows.
+ *
+ * Only 'approved' rows are drawn; newly banked questions start as 'draft' until an
+ * admin reviews them in the question console.
+ */
+@Injectable()
+export class QuestionBankService {
+  private readonly logger = new Logger(QuestionBankService.name);
+
+  constructor(
+    @InjectRepository(GeneratedQuestion)
+    private readonly repo: Repository<GeneratedQuestion>,
+    private readonly duplicateChecker: DuplicateCheckerService,
+  ) {}
+
+  /**
+   * Up to `limit` random approved bank questions for topic/difficulty that the user has never been served.
+   * `exclude` lists question ids being served that are not recorded anywhere yet.
+   */
+  async drawUnseen(userId: number, topic: string, difficulty: string, limit: number, exclude: string[] = []): Promise<GeneratedQuestion[]> {
+    if (!limit || limit <= 0) return [];
+    const qb = this.repo
+      .createQueryBuilder('q')
+      .where('q.status = :status', { status: 'approved' })
+      .andWhere('LOWER(q.topic) = LOWER(:topic)', { topic })
+      .andWhere('LOWER(q.difficulty) = LOWER(:difficulty)', { difficulty })
+      .andWhere('q.question_id NOT IN (SELECT sp.question_id FROM session_performance sp WHERE sp.user_id = :userId)', { userId })
+      .andWhere(
+        `q.question_id NOT IN (
+          SELECT elem->>'bankId' FROM test_attempt ta CROSS JOIN LATERAL json_array_elements(ta.questions) elem
+          WHERE ta."userId" = :userId AND elem->>'bankId' IS NOT NULL
+        )`,
+        { userId },
+      );
+    if (exclude.length) qb.andWhere('q.question_id NOT IN (:...exclude)', { exclude });
+    return qb.orderBy('RANDOM()').limit(limit).getMany();
+  }
+
+  /**
+   * Validate and store LLM questions (AiService.generateTest shape) in the bank.
+   * Returns the same questions annotated with `bankId`; questions that fail validation
+   * or look like duplicates are still returned (unbanked) so the test can use them.
+   * A duplicate only takes over the existing row's id when it is the same question
+   * (same text and key); a similar question or a shared choice set would otherwise
+   * get that row's cached hints and "seen" state.
+   * The `answerCheck` from AiService is kept on the bank row, not on the returned question.
+   */
+  async storeGenerated(questions: any[], topic: string, difficulty: string): Promise<any[]> {
+    const out: any[] = [];
+    for (const generated of questions || []) {
+      const { answerCheck, ...q } = generated ?? ({} as any);
+      try {
+        const parsed = QuestionSchema.parse({
+          question_id: crypto.randomUUID(),
+          question_text: String(q?.question ?? q?.question_text ?? ''),
+          choices: (q?.options ?? q?.choices ?? []).map((c: any) => String(c)),
+          correct_answer: String(q?.correctAnswer ?? q?.correct_answer ?? ''),
+          question_type: questionTypeOf({ type: q?.type ?? q?.question_type }),
+          accepted_answers: (q?.acceptedAnswers ?? q?.accepted_answers)?.map((a: any) => String(a)) ?? null,
+          tolerance: q?.tolerance != null ? Number(q.tolerance) : null,
+          explanation: q?.explanation ?? null,
+          difficulty,
+          topic,
+          estimated_time_seconds: Number.isInteger(q?.estimated_time_seconds) ? q.estimated_time_seconds : 60,
+          metadata: { source: 'create-from-ai', tags: q?.tags ?? [], ...(answerCheck ? { answerCheck } : {}) },
+        });
+        const needsChoices = CHOICE_TYPES.includes(parsed.question_type ?? DEFAULT_QUESTION_TYPE);
+        if (!parsed.question_text || !parsed.correct_answer || (needsChoices && parsed.choices.length < 2)) {
+          out.push(q);
+          continue;
+        }
+
+        const dup = await this.duplicateChecker.isDuplicateByContent(parsed.question_text, parsed.choices, topic);
+        if (dup.isDuplicate) {
+          const bankId = dup.matchId ? await this.sameQuestionId(String(dup.matchId), parsed) : null;
+          out.push(bankId ? { ...q, bankId } : q);
+          continue;
+        }
+
+        await this.repo.save(
+          this.repo.create({
+            question_id: parsed.question_id,
+            question_text: parsed.question_text,
+            choices: parsed.choices,
+            correct_answer: parsed.correct_answer,
+            question_type: parsed.question_type ?? DEFAULT_QUESTION_TYPE,
+            accepted_answers: parsed.accepted_answers ?? null,
+            tolerance: parsed.tolerance ?? null,
+            explanation: parsed.explanation ?? null,
+            difficulty,
+            topic,
+            estimated_time_seconds: parsed.estimated_time_seconds ?? 60,
+            metadata: parsed.metadata ?? null,
+            answer_check: answerCheck?.status ?? null,
+            status: answerCheck?.status === 'contradicted' ? 'quarantined' : 'draft',
+          }),
+        );
+        out.push({ ...q, bankId: parsed.question_id });
+      } catch (err) {
+        this.logger.warn('Failed to bank generated question: ' + String(err?.message ?? err));
+        out.push(q);
+      }
+    }
+    return out;
+  }
+
+  // Id of the bank row `matchId` when it holds exactly `q` (same text and key), else null
+  private async sameQuestionId(matchId: string, q: { question_text: string; correct_answer: string }): Promise<string | null> {
+    const row = await this.repo.findOne({ where: { question_id: matchId }, select: ['question_id', 'question_text', 'correct_answer'] });
+    return row && sameQuestion(row, q.question_text, q.correct_answer) ? row.question_id : null;
+  }
+
+  /**
+   * Cached hint `level` (1-based) of a bank question, or null when it has not been generated yet.
+   * `q` is the attempt question: hints are only used when the row still holds that question.
+   */
+  async cachedHint(bankId: string, level: number, q: HintCacheKey): Promise<string | null> {
+    try {
+      const row = await this.repo.findOne({ where: { question_id: bankId }, select: ['question_id', 'question_text', 'correct_answer', 'hints'] });
+      if (!row || !sameQuestion(row, q.question, q.correctAnswer)) return null;
+      const hint = Array.isArray(row.hints) ? row.hints[level - 1] : null;
+      return typeof hint === 'string' && hint.trim() ? hint : null;
+    } catch (err) {
+      this.logger.warn(`Failed to read cached hints of ${bankId}: ${String(err?.message ?? err)}`);
+      return null;
+    }
+  }
+
+  /**
+   * Store a generated hint for the next level of a bank question. A level is only cached on top
+   * of the levels before it, so cached hints always build on each other. Best-effort.
+   */
+  async cacheHint(bankId: string, level: number, hint: string, q: HintCacheKey) {
+    try {
+      const row = await this.repo.findOne({ where: { question_id: bankId }, select: ['question_id', 'question_text', 'correct_answer', 'hints'] });
+      if (!row || !sameQuestion(row, q.question, q.correctAnswer)) return;
+      const hints = Array.isArray(row.hints) ? row.hints : [];
+      if (hints.length !== level - 1) return;
+      await this.repo.update({ question_id: bankId }, { hints: [...hints, hint] });
+    } catch (err) {
+      this.logger.warn(`Failed to cache hint ${level} of ${bankId}: ${String(err?.message ?? err)}`);
+    }
+  }
+
+  // Bank row -> question shape stored on a TestAttempt (same keys AiService.generateTest produces)
+  toAttemptQuestion(row: GeneratedQuestion) {
+    return {
+      bankId: row.question_id,
+      question: row.question_text,
+      options: row.choices,
+      correctAnswer: row.correct_answer,
+      type: row.question_type ?? 'multiple_choice',
+      ...(row.accepted_answers?.length ? { acceptedAnswers: row.accepted_answers } : {}),
+      ...(row.tolerance != null ? { tolerance: row.tolerance } : {}),
+      explanation: row.explanation ?? null,
+      difficulty: row.difficulty,
+      tags: [row.topic],
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { hintRevealsAnswer } from './question-hints';
+
+declare const describe: any;
+declare const it: any;
+declare const expect: any;
+
+describe('hintRevealsAnswer', () => {
+  it('flags hints that state the key or say what the answer is', () => {
+    const q = { question: 'What is 7 × 8?', correctAnswer: '56' };
+    expect(hintRevealsAnswer('7 × 8 is the same as 7 × 4 × 2, so double 28 to get 56.', q)).toBe(true);
+    expect(hintRevealsAnswer('The answer is a multiple of 8.', q)).toBe(true);
+    expect(hintRevealsAnswer('Think of 7 × 8 as double 7 × 4 = 28.', q)).toBe(false);
+
+    const choice = { question: 'Which shape has three sides?', correctAnswer: 'Triangle', options: ['Square', 'Triangle'] };
+    expect(hintRevealsAnswer('Count the sides: a triangle has three.', choice)).toBe(true);
+    expect(hintRevealsAnswer('Count the sides of each shape.', choice)).toBe(false);
+  });
+
+  it('compares numbers by value, including LaTeX fractions and numbers the question already gives', () => {
+    const q = { type: 'numeric', question: 'Solve $2x + 1 = \\frac{5}{2}$', correctAnswer: '3/4' };
+    expect(hintRevealsAnswer('So $x = \\frac{3}{4}$.', q)).toBe(true);
+    expect(hintRevealsAnswer('That is $x = 0.75$.', q)).toBe(true);
+    expect(hintRevealsAnswer('Subtract 1 from both sides, then divide by 2.', q)).toBe(false);
+    expect(hintRevealsAnswer('Start from $\\frac{5}{2}$ on the right.', { ...q, correctAnswer: '5/2' })).toBe(false);
+  });
+
+  it('checks every correct choice of a multi-select question', () => {
+    const q = { type: 'multi_select', question: 'Which numbers are prime?', correctAnswer: '2 | 3' };
+    expect(hintRevealsAnswer('Remember that 3 has no divisors other than 1 and itself.', q)).toBe(true);
+    expect(hintRevealsAnswer('A prime has exactly two divisors.', q)).toBe(false);
+  });
+});
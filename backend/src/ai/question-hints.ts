@@ -0,0 +1,72 @@
+/**
+ * Progressive hints shown while a test is in progress.
+ *
+ * A question has up to MAX_HINT_LEVEL hints, each more specific than the last: a nudge towards the
+ * idea (1), the set-up or first step (2), the working up to the last step (3). None may give the
+ * answer away; hintRevealsAnswer is the guard applied to every generated hint.
+ */
+import { GradableQuestion, normalizeTextAnswer, parseNumeric, questionTypeOf, splitAnswerList } from './question-types';
+import { latexToPlain } from './latex';
+
+export const MAX_HINT_LEVEL = 3;
+
+// What each level asks the model for ({{levelGuide}} in the question_hint prompt)
+export const HINT_LEVEL_GUIDES = [
+  'Level 1: a gentle nudge. Name the idea or strategy that applies, without doing any calculation.',
+  'Level 2: show how to set the problem up, or do only the first step.',
+  'Level 3: walk through the working up to the last step and leave that step to the student.',
+];
+
+// Used when the model keeps giving the answer away; never cached
+export const FALLBACK_HINTS = [
+  'Work out what the question is really asking, then think about which rule or method fits it.',
+  'Write down what you are given and set up the first step before simplifying anything.',
+  'Go through the steps one at a time and check each result before you pick your answer.',
+];
+
+export type HintableQuestion = GradableQuestion & { question?: string | null };
+
+const ANSWER_PHRASE = /\b(?:the|your)\s+(?:correct\s+|final\s+|right\s+)?answer\s+(?:is|should be|would be)\b/;
+const NUMBER_TOKEN = /[-−]?\d+(?:[.,]\d+)*(?:\s*\/\s*\d+)?|[-−]?\.\d+/g;
+
+const plain = (text: unknown) => normalizeTextAnswer(latexToPlain(String(text ?? '')));
+
+function numbersIn(text: string): number[] {
+  return (latexToPlain(text).replace(/\(\(([^()]*)\)\/\(([^()]*)\)\)/g, '$1/$2').match(NUMBER_TOKEN) ?? [])
+    .map((t) => parseNumeric(t)?.value)
+    .filter((v): v is number => v != null);
+}
+
+function containsWord(haystack: string, needle: string): boolean {
+  const escaped = needle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'u').test(haystack);
+}
+
+/**
+ * Whether a hint states the answer: "the answer is ...", or a key (a correct choice, or a numeric
+ * value) that the question itself does not already contain.
+ */
+export function hintRevealsAnswer(hint: string, q: HintableQuestion): boolean {
+  const text = plain(hint);
+  if (!text) return false;
+  if (ANSWER_PHRASE.test(text)) return true;
+
+  const question = plain(q.question);
+  const keys = questionTypeOf(q) === 'multi_select'
+    ? splitAnswerList(q.correctAnswer)
+    : [q.correctAnswer, ...(q.acceptedAnswers ?? [])].filter((k) => k != null).map((k) => String(k));
+
+  const hintNumbers = numbersIn(hint);
+  const questionNumbers = numbersIn(String(q.question ?? ''));
+  for (const key of keys) {
+    const numeric = parseNumeric(latexToPlain(key));
+    if (numeric) {
+      const same = (v: number) => Math.abs(v - numeric.value) < 1e-9;
+      if (hintNumbers.some(same) && !questionNumbers.some(same)) return true;
+      continue;
+    }
+    const k = plain(key);
+    if (k && containsWord(text, k) && !containsWord(question, k)) return true;
+  }
+  return false;
+}
@@ -0,0 +1,137 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { QuestionImportExportService } from './question-import-export.service';
+import { DuplicateCheckerService } from './duplicate-checker.service';
+import { GeneratedQuestion } from './entities/generated-question.entity';
+import { parseCsv, toCsv, parseQti, toQtiItem, toQtiPackage } from './question-interchange';
+
+declare const describe: any;
+declare const beforeEach: any;
+declare const it: any;
+declare const expect: any;
+declare const jest: any;
+
+const SAMPLE = {
+  question_id: 'alg-1',
+  question_text: 'Solve for x: 2x = 10, "quoted", with comma',
+  choices: ['4', '5', 'x < 6 & x > 4'],
+  correct_answer: '5',
+  explanation: 'Divide both sides\nby 2.',
+  difficulty: 'beginner',
+  topic: 'Algebra',
+  estimated_time_seconds: 45,
+};
+
+describe('question interchange formats', () => {
+  it('round-trips CSV including quotes, commas and newlines', () => {
+    const rows = parseCsv(toCsv([SAMPLE]));
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toEqual(SAMPLE);
+  });
+
+  it('round-trips a QTI 2.1 item and a zipped content package', () => {
+    const [fromXml] = parseQti(toQtiItem(SAMPLE));
+    expect(fromXml.question_text).toBe(SAMPLE.question_text);
+    expect(fromXml.choices).toEqual(SAMPLE.choices);
+    expect(fromXml.correct_answer).toBe('5');
+    expect(fromXml.topic).toBe('Algebra');
+    expect(fromXml.estimated_time_seconds).toBe(45);
+
+    const pkg = toQtiPackage([SAMPLE, { ...SAMPLE, question_id: 'alg-2', question_text: 'Second?' }]);
+    const fromZip = parseQti(pkg.toString('base64'), 'base64');
+    expect(fromZip.map((r) => r.question_id)).toEqual(['alg-1', 'alg-2']);
+  });
+});
+
+describe('QuestionImportExportService', () => {
+  let service: QuestionImportExportService;
+  let qRepo: Record<string, any>;
+  let duplicateChecker: Record<string, any>;
+
+  beforeEach(async () => {
+    qRepo = {
+      findOne: jest.fn(async (opts: any) => (opts?.where?.question_id === 'existing-1' ? { question_id: 'existing-1' } : null)),
+      create: jest.fn((q: any) => q),
+      save: jest.fn(async (q: any) => q),
+    };
+    duplicateChecker = {
+      isDuplicateByContent: jest.fn(async (text: string) =>
+        text.startsWith('Banked') ? { isDuplicate: true, reason: 'fingerprint_exact', matchId: 'bank-9' } : { isDuplicate: false },
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuestionImportExportService,
+        { provide: getRepositoryToken(GeneratedQuestion), useValue: qRepo },
+        { provide: DuplicateCheckerService, useValue: duplicateChecker },
+      ],
+    }).compile();
+
+    service = module.get<QuestionImportExportService>(QuestionImportExportService);
+  });
+
+  it('imports valid rows as drafts and reports invalid rows and duplicates', async () => {
+    const csv = [
+      'question_text,choices,correct_answer,topic,difficulty',
+      '"What is 3 + 4?","6 | 7 | 8","7",Arithmetic,beginner',
+      '"Key not in choices","1 | 2","3",Arithmetic,beginner',
+      '"What is 3 + 4?","6 | 7 | 8","7",Arithmetic,beginner',
+      '"Banked question","a | b","a",Arithmetic,beginner',
+      '"No topic","a | b","a",,beginner',
+    ].join('\n');
+
+    const report = await service.import('csv', csv);
+
+    expect(report.total).toBe(5);
+    expect(report.imported).toBe(1);
+    expect(qRepo.save).toHaveBeenCalledTimes(1);
+    expect(qRepo.save.mock.calls[0][0].status).toBe('draft');
+    expect(report.errors.map((e: any) => e.row)).toEqual([2, 5]);
+    expect(report.errors[0].issues).toContain('correct_answer must match one of the choices');
+    expect(report.duplicates.map((d: any) => d.row)).toEqual([3, 4]);
+    expect(report.duplicates[1].matchId).toBe('bank-9');
+  });
+
+  it('dry runs validate without writing and apply defaults', async () => {
+    const json = JSON.stringify([
+      { question_id: 'existing-1', question: 'Already here?', options: ['y', 'n'], correctAnswer: 'y' },
+      { question: 'New one?', options: ['y', 'n'], correctAnswer: 'n' },
+    ]);
+
+    const report = await service.import('json', json, { dryRun: true, defaultTopic: 'Logic', defaultDifficulty: 'intermediate' });
+
+    expect(report.imported).toBe(1);
+    expect(report.duplicates[0].reason).toBe('question_id already exists');
+    expect(qRepo.save).not.toHaveBeenCalled();
+  });
+
+  it('imports numeric, multi-select and short-text questions with type-specific key checks', async () => {
+    const json = JSON.stringify([
+      { question: 'Grid-in: what is 2/3 of 1?', type: 'numeric', correctAnswer: '2/3', acceptedAnswers: ['0.667'] },
+      { question: 'Pick the primes', type: 'multi_select', options: ['2', '3', '4'], correctAnswer: ['2', '3'] },
+      { question: 'Name the shape with three sides', question_type: 'short_text', correct_answer: 'Triangle' },
+      { question: 'Grid-in without a number', type: 'numeric', correctAnswer: 'seven' },
+      { question: 'Primes again', type: 'multi_select', options: ['2', '3'], correctAnswer: '2 | 5' },
+      { question: 'Unknown type', type: 'essay', correctAnswer: 'x' },
+    ]);
+
+    const report = await service.import('json', json, { defaultTopic: 'Math', defaultDifficulty: 'beginner' });
+
+    expect(report.imported).toBe(3);
+    expect(qRepo.save.mock.calls.map((c: any) => [c[0].question_type, c[0].correct_answer])).toEqual([
+      ['numeric', '2/3'],
+      ['multi_select', '2 | 3'],
+      ['short_text', 'Triangle'],
+    ]);
+    expect(qRepo.save.mock.calls[0][0].accepted_answers).toEqual(['0.667']);
+    expect(report.errors.map((e: any) => e.row)).toEqual([4, 5, 6]);
+    expect(report.errors[1].issues).toContain('correct_answer: "5" in correct_answer is not one of the choices');
+  });
+
+  it('rejects unknown formats and empty files', async () => {
+    await expect(service.import('xlsx' as any, 'x')).rejects.toBeInstanceOf(BadRequestException);
+    await expect(service.import('csv', 'question_text,choices\n')).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
@@ -0,0 +1,218 @@
+import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { GeneratedQuestion, QuestionStatus, QUESTION_STATUSES } from './entities/generated-question.entity';
+import { QuestionSchema } from './question.schema';
+import { DuplicateCheckerService } from './duplicate-checker.service';
+import { verifyAnswer } from './answer-verifier';
+import { CHOICE_TYPES, DEFAULT_QUESTION_TYPE, QuestionType } from './question-types';
+import { InterchangeFormat, InterchangeRow, toCsv, parseCsv, parseJson, toQtiPackage, parseQti } from './question-interchange';
+
+export const INTERCHANGE_FORMATS: InterchangeFormat[] = ['csv', 'json', 'qti'];
+
+// Hard cap per import request; larger banks should be split into several files
+export const MAX_IMPORT_ROWS = 2000;
+
+export interface ExportFilters {
+  status?: QuestionStatus;
+  topic?: string;
+  difficulty?: string;
+}
+
+export interface ImportOptions {
+  // 'base64' for binary uploads (QTI zip packages); text formats are sent as utf8
+  encoding?: 'base64' | 'utf8';
+  // applied to rows that do not carry their own topic/difficulty
+  defaultTopic?: string;
+  defaultDifficulty?: string;
+  // validate and report only, nothing is written
+  dryRun?: boolean;
+  // imported questions go through review like generated ones unless an admin says otherwise
+  status?: QuestionStatus;
+}
+
+export interface ImportReport {
+  total: number;
+  imported: number;
+  importedIds: string[];
+  // row numbers are 1-based data rows (CSV header excluded)
+  duplicates: { row: number; question_text: string; matchId?: string | number; reason?: string }[];
+  errors: { row: number; issues: string[] }[];
+  // rows whose answer key the math engine contradicted; imported as 'quarantined'
+  quarantined: { row: number; question_text: string; expected: string | null }[];
+  dryRun: boolean;
+}
+
+/**
+ * Bulk import/export of the generated_questions bank (CSV, JSON, QTI 2.1).
+ * Every imported row is validated against QuestionSchema and checked for duplicates
+ * (within the file, by id, and by content via DuplicateCheckerService) before it is stored.
+ * QTI exports contain only multiple_choice questions.
+ */
+@Injectable()
+export class QuestionImportExportService {
+  private readonly logger = new Logger(QuestionImportExportService.name);
+
+  constructor(
+    @InjectRepository(GeneratedQuestion)
+    private readonly qRepo: Repository<GeneratedQuestion>,
+    private readonly duplicateChecker: DuplicateCheckerService,
+  ) {}
+
+  async export(format: InterchangeFormat, filters: ExportFilters = {}): Promise<{ contentType: string; filename: string; body: string | Buffer; count: number }> {
+    if (!INTERCHANGE_FORMATS.includes(format)) throw new BadRequestException(`format must be one of ${INTERCHANGE_FORMATS.join(', ')}`);
+
+    const qb = this.qRepo.createQueryBuilder('q');
+    if (filters.status) qb.andWhere('q.status = :status', { status: filters.status });
+    if (filters.topic) qb.andWhere('LOWER(q.topic) = LOWER(:topic)', { topic: filters.topic });
+    if (filters.difficulty) qb.andWhere('LOWER(q.difficulty) = LOWER(:difficulty)', { difficulty: filters.difficulty });
+    const rows = await qb.orderBy('q.created_at', 'ASC').getMany();
+
+    const items: InterchangeRow[] = rows.map((r) => ({
+      question_id: r.question_id,
+      question_text: r.question_text,
+      choices: r.choices ?? [],
+      correct_answer: r.correct_answer,
+      question_type: r.question_type ?? DEFAULT_QUESTION_TYPE,
+      accepted_answers: r.accepted_answers ?? null,
+      tolerance: r.tolerance ?? null,
+      explanation: r.explanation ?? null,
+      difficulty: r.difficulty,
+      topic: r.topic,
+      estimated_time_seconds: r.estimated_time_seconds,
+    }));
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') {
+      return { contentType: 'text/csv; charset=utf-8', filename: `questions-${stamp}.csv`, body: toCsv(items), count: items.length };
+    }
+    if (format === 'json') {
+      return { contentType: 'application/json; charset=utf-8', filename: `questions-${stamp}.json`, body: JSON.stringify(items, null, 2), count: items.length };
+    }
+    const choiceItems = items.filter((i) => i.question_type === 'multiple_choice');
+    return { contentType: 'application/zip', filename: `questions-${stamp}-qti21.zip`, body: toQtiPackage(choiceItems), count: choiceItems.length };
+  }
+
+  async import(format: InterchangeFormat, content: string, opts: ImportOptions = {}): Promise<ImportReport> {
+    if (!INTERCHANGE_FORMATS.includes(format)) throw new BadRequestException(`format must be one of ${INTERCHANGE_FORMATS.join(', ')}`);
+    if (!content || typeof content !== 'string') throw new BadRequestException('content is required');
+    if (opts.status && !QUESTION_STATUSES.includes(opts.status)) throw new BadRequestException(`status must be one of ${QUESTION_STATUSES.join(', ')}`);
+
+    let rows: InterchangeRow[];
+    try {
+      const text = opts.encoding === 'base64' && format !== 'qti' ? Buffer.from(content, 'base64').toString('utf8') : content;
+      rows = format === 'csv' ? parseCsv(text) : format === 'json' ? parseJson(text) : parseQti(content, opts.encoding);
+    } catch (err) {
+      throw new BadRequestException(`Could not parse ${format.toUpperCase()} file: ${String(err?.message ?? err)}`);
+    }
+    if (!rows.length) throw new BadRequestException('No questions found in the file');
+    if (rows.length > MAX_IMPORT_ROWS) throw new BadRequestException(`Too many questions in one import (max ${MAX_IMPORT_ROWS})`);
+
+    const report: ImportReport = { total: rows.length, imported: 0, importedIds: [], duplicates: [], errors: [], quarantined: [], dryRun: !!opts.dryRun };
+    const seenInFile = new Map<string, number>();
+    const status = opts.status ?? 'draft';
+
+    for (let i = 0; i < rows.length; i++) {
+      const rowNo = i + 1;
+      const raw = rows[i];
+
+      const validated = this.validateRow(raw, opts);
+      if ('issues' in validated) {
+        report.errors.push({ row: rowNo, issues: validated.issues });
+        continue;
+      }
+      const q = validated.question;
+
+      const fingerprint = `${q.topic.toLowerCase()}|${q.question_text.toLowerCase().replace(/\s+/g, ' ').trim()}`;
+      if (seenInFile.has(fingerprint)) {
+        report.duplicates.push({ row: rowNo, question_text: q.question_text, reason: `same as row ${seenInFile.get(fingerprint)} in this file` });
+        continue;
+      }
+      seenInFile.set(fingerprint, rowNo);
+
+      // An explicit id that already exists is reported rather than overwritten
+      if (raw.question_id) {
+        const existing = await this.qRepo.findOne({ where: { question_id: q.question_id } });
+        if (existing) {
+          report.duplicates.push({ row: rowNo, question_text: q.question_text, matchId: existing.question_id, reason: 'question_id already exists' });
+          continue;
+        }
+      }
+
+      const dup = await this.duplicateChecker.isDuplicateByContent(q.question_text, q.choices, q.topic);
+      if (dup.isDuplicate) {
+        report.duplicates.push({ row: rowNo, question_text: q.question_text, matchId: dup.matchId, reason: dup.reason });
+        continue;
+      }
+
+      const answerCheck = verifyAnswer(q.question_text, q.choices, q.correct_answer);
+      const contradicted = answerCheck.status === 'contradicted';
+      if (contradicted) report.quarantined.push({ row: rowNo, question_text: q.question_text, expected: answerCheck.expected });
+
+      if (!opts.dryRun) {
+        try {
+          await this.qRepo.save(
+            this.qRepo.create({
+              question_id: q.question_id,
+              question_text: q.question_text,
+              choices: q.choices,
+              correct_answer: q.correct_answer,
+              question_type: q.question_type ?? DEFAULT_QUESTION_TYPE,
+              accepted_answers: q.accepted_answers ?? null,
+              tolerance: q.tolerance ?? null,
+              explanation: q.explanation ?? null,
+              difficulty: q.difficulty,
+              topic: q.topic,
+              estimated_time_seconds: q.estimated_time_seconds ?? 60,
+              metadata: { source: `import-${format}`, answerCheck },
+              answer_check: answerCheck.status,
+              status: contradicted ? 'quarantined' : status,
+            }),
+          );
+        } catch (err) {
+          this.logger.warn(`Import row ${rowNo} failed: ${String(err?.message ?? err)}`);
+          report.errors.push({ row: rowNo, issues: ['Could not be saved'] });
+          continue;
+        }
+      }
+      report.imported++;
+      report.importedIds.push(q.question_id);
+    }
+
+    return report;
+  }
+
+  // QuestionSchema + the console's own rule that a multiple-choice key must be one of the choices
+  private validateRow(raw: InterchangeRow, opts: ImportOptions) {
+    const parsed = QuestionSchema.safeParse({
+      question_id: raw.question_id ? String(raw.question_id).slice(0, 128) : crypto.randomUUID(),
+      question_text: String(raw.question_text ?? '').trim(),
+      choices: (raw.choices ?? []).map((c) => String(c).trim()).filter(Boolean),
+      correct_answer: String(raw.correct_answer ?? '').trim(),
+      question_type: (String(raw.question_type ?? '').trim() || DEFAULT_QUESTION_TYPE) as QuestionType,
+      accepted_answers: raw.accepted_answers?.length ? raw.accepted_answers.map((a) => String(a).trim()).filter(Boolean) : null,
+      tolerance: raw.tolerance != null && !Number.isNaN(raw.tolerance) ? raw.tolerance : null,
+      explanation: raw.explanation ? String(raw.explanation) : null,
+      difficulty: String(raw.difficulty || opts.defaultDifficulty || '').trim(),
+      topic: String(raw.topic || opts.defaultTopic || '').trim(),
+      estimated_time_seconds: raw.estimated_time_seconds != null && !Number.isNaN(raw.estimated_time_seconds) ? raw.estimated_time_seconds : 60,
+    });
+    if (!parsed.success) {
+      return { issues: parsed.error.issues.map((iss) => `${iss.path.join('.') || 'row'}: ${iss.message}`) };
+    }
+
+    const q = parsed.data;
+    const issues: string[] = [];
+    if (!q.question_text) issues.push('question_text is required');
+    const type = q.question_type ?? DEFAULT_QUESTION_TYPE;
+    if (CHOICE_TYPES.includes(type) && q.choices.length < 2) issues.push('at least two choices are required');
+    if (new Set(q.choices).size !== q.choices.length) issues.push('choices must be unique');
+    if (!q.correct_answer) issues.push('correct_answer is required');
+    else if (type === 'multiple_choice' && !q.choices.includes(q.correct_answer)) issues.push('correct_answer must match one of the choices');
+    if (!q.topic) issues.push('topic is required (column or defaultTopic)');
+    if (!q.difficulty) issues.push('difficulty is required (column or defaultDifficulty)');
+    if (issues.length) return { issues };
+    return { question: q };
+  }
+}
@@ -0,0 +1,461 @@
+import * as zlib from 'zlib';
+
+/**
+ * Serialisers/parsers for bulk question import/export (CSV, JSON and IMS QTI 2.1).
+ *
+ * All formats map to the QuestionSchema field names (snake_case). Parsers return raw
+ * rows; validation and duplicate detection happen in QuestionImportExportService.
+ *
+ * QTI support covers single-answer choiceInteraction items (multiple_choice questions).
+ * Topic, difficulty and estimated time round-trip through the item's `label`
+ * attribute ("topic=Algebra;difficulty=beginner;time=60"). CSV and JSON also carry
+ * question_type, accepted_answers and tolerance for the other question types.
+ */
+
+export type InterchangeFormat = 'csv' | 'json' | 'qti';
+
+export interface InterchangeRow {
+  question_id?: string;
+  question_text?: string;
+  choices?: string[];
+  correct_answer?: string;
+  question_type?: string;
+  accepted_answers?: string[] | null;
+  tolerance?: number | null;
+  explanation?: string | null;
+  difficulty?: string;
+  topic?: string;
+  estimated_time_seconds?: number;
+}
+
+export const CSV_HEADERS = [
+  'question_id',
+  'question_text',
+  'choices',
+  'correct_answer',
+  'explanation',
+  'difficulty',
+  'topic',
+  'estimated_time_seconds',
+  'question_type',
+  'accepted_answers',
+  'tolerance',
+];
+
+// Same separator the client-side exportQuestions helper uses for the choices column
+const CHOICE_SEPARATOR = ' | ';
+
+/* ---------- CSV ---------- */
+
+function csvCell(v: any): string {
+  if (v === null || typeof v === 'undefined') return '';
+  const s = typeof v === 'string' ? v : String(v);
+  return `"${s.replace(/"/g, '""')}"`;
+}
+
+export function toCsv(rows: InterchangeRow[]): string {
+  const lines = [CSV_HEADERS.join(',')];
+  for (const r of rows) {
+    lines.push(
+      [
+        csvCell(r.question_id),
+        csvCell(r.question_text),
+        csvCell((r.choices || []).join(CHOICE_SEPARATOR)),
+        csvCell(r.correct_answer),
+        csvCell(r.explanation ?? ''),
+        csvCell(r.difficulty),
+        csvCell(r.topic),
+        csvCell(r.estimated_time_seconds ?? ''),
+        csvCell(r.question_type ?? ''),
+        csvCell((r.accepted_answers || []).join(CHOICE_SEPARATOR)),
+        csvCell(r.tolerance ?? ''),
+      ].join(','),
+    );
+  }
+  return lines.join('\n');
+}
+
+// RFC 4180 tokenizer: quoted fields, escaped quotes, CRLF/LF and newlines inside quotes
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let field = '';
+  let record: string[] = [];
+  let inQuotes = false;
+  const src = text.replace(/^﻿/, '');
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"') inQuotes = true;
+    else if (ch === ',') {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else field += ch;
+  }
+  if (field !== '' || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+// " | "-separated list or JSON array (choices, accepted_answers)
+function parseCsvList(raw: string): string[] {
+  if (raw.startsWith('[')) {
+    try {
+      return (JSON.parse(raw) as any[]).map((c) => String(c));
+    } catch {
+      // fall through to the separator form
+    }
+  }
+  return raw ? raw.split('|').map((c) => c.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Parse CSV with a header row. Choices may be separated by " | " (our export) or given as a JSON array.
+ * question_type, accepted_answers and tolerance columns are optional.
+ */
+export function parseCsv(text: string): InterchangeRow[] {
+  const records = parseCsvRecords(text);
+  if (!records.length) return [];
+  const header = records[0].map((h) => h.trim().toLowerCase());
+  const col = (name: string) => header.indexOf(name);
+
+  return records.slice(1).map((rec) => {
+    const get = (name: string) => {
+      const idx = col(name);
+      return idx >= 0 ? (rec[idx] ?? '').trim() : '';
+    };
+    const choices = parseCsvList(get('choices') || get('options'));
+    const accepted = parseCsvList(get('accepted_answers'));
+    const time = get('estimated_time_seconds');
+    const tolerance = get('tolerance');
+    return {
+      question_id: get('question_id') || undefined,
+      question_text: get('question_text') || get('question'),
+      choices,
+      correct_answer: get('correct_answer') || get('correctanswer'),
+      question_type: get('question_type') || undefined,
+      accepted_answers: accepted.length ? accepted : undefined,
+      tolerance: tolerance ? Number(tolerance) : undefined,
+      explanation: get('explanation') || null,
+      difficulty: get('difficulty') || undefined,
+      topic: get('topic') || undefined,
+      estimated_time_seconds: time ? Number(time) : undefined,
+    };
+  });
+}
+
+/* ---------- JSON ---------- */
+
+// multi_select keys may be given as an array of the correct choices
+function jsonKey(value: any): string {
+  if (value == null) return '';
+  return Array.isArray(value) ? value.map((v) => String(v)).join(CHOICE_SEPARATOR) : String(value);
+}
+
+/**
+ * Accepts an array of questions or { items: [...] } / { questions: [...] }. Both the bank's
+ * snake_case keys and the test shape (question/options/correctAnswer) are understood.
+ */
+export function parseJson(text: string): InterchangeRow[] {
+  const data = JSON.parse(text);
+  const list: any[] = Array.isArray(data) ? data : Array.isArray(data?.items) ? data.items : Array.isArray(data?.questions) ? data.questions : [];
+  return list.map((q) => ({
+    question_id: q?.question_id != null ? String(q.question_id) : q?.id != null ? String(q.id) : undefined,
+    question_text: q?.question_text ?? q?.question ?? '',
+    choices: Array.isArray(q?.choices ?? q?.options) ? (q.choices ?? q.options).map((c: any) => String(c)) : [],
+    correct_answer: jsonKey(q?.correct_answer ?? q?.correctAnswer),
+    question_type: q?.question_type ?? q?.type ?? undefined,
+    accepted_answers: Array.isArray(q?.accepted_answers ?? q?.acceptedAnswers) ? (q.accepted_answers ?? q.acceptedAnswers).map((a: any) => String(a)) : undefined,
+    tolerance: q?.tolerance != null ? Number(q.tolerance) : undefined,
+    explanation: q?.explanation ?? null,
+    difficulty: q?.difficulty,
+    topic: q?.topic,
+    estimated_time_seconds: q?.estimated_time_seconds != null ? Number(q.estimated_time_seconds) : undefined,
+  }));
+}
+
+/* ---------- QTI 2.1 ---------- */
+
+function xmlEscape(s: string): string {
+  return String(s ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function xmlUnescape(s: string): string {
+  return String(s ?? '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCharCode(Number(n)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCharCode(parseInt(n, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+// Text content of an XML fragment (inline markup such as <p> or <strong> is dropped)
+function xmlText(fragment: string): string {
+  return xmlUnescape(String(fragment ?? '').replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1').replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+function xmlAttr(tag: string, name: string): string | undefined {
+  const m = new RegExp(`\\s${name}\\s*=\\s*"([^"]*)"`).exec(tag) || new RegExp(`\\s${name}\\s*=\\s*'([^']*)'`).exec(tag);
+  return m ? xmlUnescape(m[1]) : undefined;
+}
+
+// QTI identifiers must be NCNames
+function qtiIdentifier(id: string): string {
+  const clean = String(id ?? '').replace(/[^A-Za-z0-9_.-]/g, '_');
+  return /^[A-Za-z_]/.test(clean) ? clean : `Q_${clean}`;
+}
+
+export function toQtiItem(row: InterchangeRow): string {
+  const choiceIds = (row.choices || []).map((_, i) => `Choice${String.fromCharCode(65 + (i % 26))}${i >= 26 ? i : ''}`);
+  const correctIdx = (row.choices || []).indexOf(String(row.correct_answer ?? ''));
+  const label = `topic=${row.topic ?? ''};difficulty=${row.difficulty ?? ''};time=${row.estimated_time_seconds ?? ''}`;
+  const title = String(row.question_text ?? '').slice(0, 80);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"` +
+      ` xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"` +
+      ` identifier="${xmlEscape(qtiIdentifier(row.question_id ?? ''))}" title="${xmlEscape(title)}" label="${xmlEscape(label)}" adaptive="false" timeDependent="false">`,
+    '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">',
+    correctIdx >= 0 ? `    <correctResponse><value>${choiceIds[correctIdx]}</value></correctResponse>` : '',
+    '  </responseDeclaration>',
+    '  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>',
+    '  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>',
+    '  <itemBody>',
+    '    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">',
+    `      <prompt>${xmlEscape(row.question_text ?? '')}</prompt>`,
+    ...(row.choices || []).map((c, i) => `      <simpleChoice identifier="${choiceIds[i]}">${xmlEscape(c)}</simpleChoice>`),
+    '    </choiceInteraction>',
+    '  </itemBody>',
+    '  <responseProcessing template="http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct"/>',
+    row.explanation
+      ? `  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${xmlEscape(row.explanation)}</modalFeedback>`
+      : '',
+    '</assessmentItem>',
+  ];
+  return lines.filter((l) => l !== '').join('\n');
+}
+
+/**
+ * Parse every <assessmentItem> found in the given XML text. Items that are not
+ * single-choice choiceInteraction items come back with empty choices so row
+ * validation reports them.
+ */
+export function parseQtiItems(xml: string): InterchangeRow[] {
+  const items: InterchangeRow[] = [];
+  const itemRe = /<(?:\w+:)?assessmentItem\b([^>]*)>([\s\S]*?)<\/(?:\w+:)?assessmentItem>/g;
+  let m: RegExpExecArray | null;
+  while ((m = itemRe.exec(xml))) {
+    const openTag = `<assessmentItem ${m[1]}>`;
+    const body = m[2];
+
+    const correctIds: string[] = [];
+    const correctBlock = /<(?:\w+:)?correctResponse\b[^>]*>([\s\S]*?)<\/(?:\w+:)?correctResponse>/.exec(body);
+    if (correctBlock) {
+      const valueRe = /<(?:\w+:)?value\b[^>]*>([\s\S]*?)<\/(?:\w+:)?value>/g;
+      let v: RegExpExecArray | null;
+      while ((v = valueRe.exec(correctBlock[1]))) correctIds.push(xmlText(v[1]));
+    }
+
+    const choices: { id: string; text: string }[] = [];
+    const choiceRe = /<(?:\w+:)?simpleChoice\b([^>]*)>([\s\S]*?)<\/(?:\w+:)?simpleChoice>/g;
+    let c: RegExpExecArray | null;
+    while ((c = choiceRe.exec(body))) {
+      choices.push({ id: xmlAttr(` ${c[1]}`, 'identifier') ?? '', text: xmlText(c[2]) });
+    }
+
+    const prompt = /<(?:\w+:)?prompt\b[^>]*>([\s\S]*?)<\/(?:\w+:)?prompt>/.exec(body);
+    // Items without <prompt> carry the stem as itemBody content before the interaction
+    const itemBody = /<(?:\w+:)?itemBody\b[^>]*>([\s\S]*?)<(?:\w+:)?choiceInteraction\b/.exec(body);
+    const feedback = /<(?:\w+:)?modalFeedback\b[^>]*>([\s\S]*?)<\/(?:\w+:)?modalFeedback>/.exec(body);
+
+    const meta: Record<string, string> = {};
+    for (const part of String(xmlAttr(openTag, 'label') ?? '').split(';')) {
+      const [k, ...rest] = part.split('=');
+      if (k && rest.length) meta[k.trim()] = rest.join('=').trim();
+    }
+
+    const correct = choices.find((ch) => correctIds.length === 1 && ch.id === correctIds[0]);
+    items.push({
+      question_id: xmlAttr(openTag, 'identifier'),
+      question_text: prompt ? xmlText(prompt[1]) : itemBody ? xmlText(itemBody[1]) : '',
+      choices: correctIds.length > 1 ? [] : choices.map((ch) => ch.text),
+      correct_answer: correct?.text ?? '',
+      explanation: feedback ? xmlText(feedback[1]) : null,
+      difficulty: meta.difficulty || undefined,
+      topic: meta.topic || undefined,
+      estimated_time_seconds: meta.time ? Number(meta.time) : undefined,
+    });
+  }
+  return items;
+}
+
+/* ---------- QTI content package (zip) ---------- */
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buf: Buffer): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+// Minimal zip writer (deflate, no zip64) - enough for a QTI content package
+function buildZip(files: { name: string; data: Buffer }[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const f of files) {
+    const name = Buffer.from(f.name, 'utf8');
+    const compressed = zlib.deflateRawSync(f.data);
+    const crc = crc32(f.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6); // utf-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(f.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(f.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralSize = centrals.reduce((s, b) => s + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, ...centrals, end]);
+}
+
+// Minimal zip reader (stored/deflate entries) via the central directory
+function readZip(buf: Buffer): { name: string; data: Buffer }[] {
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 65557); i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a zip archive');
+
+  const count = buf.readUInt16LE(eocd + 10);
+  let ptr = buf.readUInt32LE(eocd + 16);
+  const out: { name: string; data: Buffer }[] = [];
+  for (let i = 0; i < count; i++) {
+    if (buf.readUInt32LE(ptr) !== 0x02014b50) throw new Error('Corrupt zip central directory');
+    const method = buf.readUInt16LE(ptr + 10);
+    const compSize = buf.readUInt32LE(ptr + 20);
+    const nameLen = buf.readUInt16LE(ptr + 28);
+    const extraLen = buf.readUInt16LE(ptr + 30);
+    const commentLen = buf.readUInt16LE(ptr + 32);
+    const localOffset = buf.readUInt32LE(ptr + 42);
+    const name = buf.slice(ptr + 46, ptr + 46 + nameLen).toString('utf8');
+
+    const localNameLen = buf.readUInt16LE(localOffset + 26);
+    const localExtraLen = buf.readUInt16LE(localOffset + 28);
+    const start = localOffset + 30 + localNameLen + localExtraLen;
+    const raw = buf.slice(start, start + compSize);
+    if (method === 0) out.push({ name, data: raw });
+    else if (method === 8) out.push({ name, data: zlib.inflateRawSync(raw) });
+
+    ptr += 46 + nameLen + extraLen + commentLen;
+  }
+  return out;
+}
+
+/**
+ * IMS content package: imsmanifest.xml plus one QTI 2.1 assessmentItem file per question.
+ */
+export function toQtiPackage(rows: InterchangeRow[]): Buffer {
+  const files = rows.map((r, i) => ({ name: `items/${qtiIdentifier(r.question_id ?? String(i + 1))}.xml`, data: Buffer.from(toQtiItem(r), 'utf8') }));
+  const resources = files
+    .map(
+      (f, i) =>
+        `    <resource identifier="RES_${i + 1}" type="imsqti_item_xmlv2p1" href="${xmlEscape(f.name)}">\n      <file href="${xmlEscape(f.name)}"/>\n    </resource>`,
+    )
+    .join('\n');
+  const manifest = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="MANIFEST_QUESTION_BANK">',
+    '  <metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>',
+    '  <organizations/>',
+    '  <resources>',
+    resources,
+    '  </resources>',
+    '</manifest>',
+  ].join('\n');
+  return buildZip([{ name: 'imsmanifest.xml', data: Buffer.from(manifest, 'utf8') }, ...files]);
+}
+
+/**
+ * QTI import accepts a content package (zip, base64) or raw XML containing one or more assessmentItems.
+ */
+export function parseQti(content: string, encoding?: 'base64' | 'utf8'): InterchangeRow[] {
+  if (encoding === 'base64') {
+    const buf = Buffer.from(content, 'base64');
+    // "PK" signature -> content package
+    if (buf.length > 4 && buf.readUInt32LE(0) === 0x04034b50) {
+      return readZip(buf)
+        .filter((f) => /\.xml$/i.test(f.name) && !/imsmanifest\.xml$/i.test(f.name))
+        .flatMap((f) => parseQtiItems(f.data.toString('utf8')));
+    }
+    return parseQtiItems(buf.toString('utf8'));
+  }
+  return parseQtiItems(content);
+}
@@ -0,0 +1,61 @@
+import { answerKeyIssues, gradeAnswer, parseNumeric } from './question-types';
+
+declare const describe: any;
+declare const it: any;
+declare const expect: any;
+
+describe('question types', () => {
+  it('parses decimals, fractions and mixed numbers', () => {
+    expect(parseNumeric('.5')).toEqual({ value: 0.5, decimals: 1 });
+    expect(parseNumeric('-3/4')).toEqual({ value: -0.75, decimals: null });
+    expect(parseNumeric('$\\frac{2}{3}$')!.value).toBeCloseTo(2 / 3);
+    expect(parseNumeric('1 1/2')!.value).toBe(1.5);
+    expect(parseNumeric('1,250')!.value).toBe(1250);
+    expect(parseNumeric('1/0')).toBeNull();
+    expect(parseNumeric('x = 4')).toBeNull();
+  });
+
+  it('grades numeric answers by value', () => {
+    const q = { type: 'numeric', correctAnswer: '2/3' };
+    for (const answer of ['2/3', '4/6', '0.667', '.666', '0.6667']) expect(gradeAnswer(q, answer)).toBe(true);
+    for (const answer of ['0.67', '.66', '0.668', 'two thirds', '']) expect(gradeAnswer(q, answer)).toBe(false);
+
+    expect(gradeAnswer({ type: 'numeric', correctAnswer: '1.5' }, '3/2')).toBe(true);
+    expect(gradeAnswer({ type: 'numeric', correctAnswer: '0.125' }, '0.13')).toBe(false);
+    // only the key rounded or truncated to the places given, not anything that close
+    expect(gradeAnswer({ type: 'numeric', correctAnswer: '2' }, '1.9999')).toBe(false);
+    expect(gradeAnswer({ type: 'numeric', correctAnswer: '2/3' }, '0.6669')).toBe(false);
+    for (const answer of ['3.14', '3.141', '3.142', '3.1416']) expect(gradeAnswer({ type: 'numeric', correctAnswer: '3.14159' }, answer)).toBe(true);
+    for (const answer of ['3.1', '3.15', '3.1417']) expect(gradeAnswer({ type: 'numeric', correctAnswer: '3.14159' }, answer)).toBe(false);
+    expect(gradeAnswer({ type: 'numeric', correctAnswer: '9.8', tolerance: 0.05 }, '9.84')).toBe(true);
+    expect(gradeAnswer({ type: 'numeric', correctAnswer: '9.8', tolerance: 0.05 }, '9.9')).toBe(false);
+    expect(gradeAnswer({ type: 'numeric', correctAnswer: '3', acceptedAnswers: ['-3'] }, '-3')).toBe(true);
+  });
+
+  it('grades multi-select as an exact set and short text after normalizing', () => {
+    const multi = { type: 'multi_select', correctAnswer: '2 | 3' };
+    expect(gradeAnswer(multi, ['3', '2'])).toBe(true);
+    expect(gradeAnswer(multi, ['2'])).toBe(false);
+    expect(gradeAnswer(multi, ['2', '3', '4'])).toBe(false);
+    expect(gradeAnswer(multi, '2|3')).toBe(true);
+
+    const text = { type: 'short_text', correctAnswer: 'Photosynthesis', acceptedAnswers: ['photo-synthesis'] };
+    expect(gradeAnswer(text, '  photosynthesis. ')).toBe(true);
+    expect(gradeAnswer(text, '"Photo-Synthesis"')).toBe(true);
+    expect(gradeAnswer(text, 'respiration')).toBe(false);
+  });
+
+  it('keeps exact matching for multiple choice', () => {
+    expect(gradeAnswer({ correctAnswer: '4' }, ' 4 ')).toBe(true);
+    expect(gradeAnswer({ type: 'multiple_choice', correctAnswer: '1/2' }, '0.5')).toBe(false);
+    expect(gradeAnswer({ correctAnswer: '4' }, ['4'])).toBe(false);
+  });
+
+  it('checks answer keys per type', () => {
+    expect(answerKeyIssues({ type: 'numeric', choices: [], correctAnswer: '2/3' })).toEqual([]);
+    expect(answerKeyIssues({ type: 'numeric', choices: [], correctAnswer: 'abc' })).toEqual(['"abc" is not a number, fraction or decimal']);
+    expect(answerKeyIssues({ type: 'multi_select', choices: ['a', 'b'], correctAnswer: 'a | c' })).toEqual(['"c" in correct_answer is not one of the choices']);
+    expect(answerKeyIssues({ type: 'short_text', choices: [], correctAnswer: 'x', tolerance: 1 })).toEqual(['tolerance only applies to numeric questions']);
+    expect(answerKeyIssues({ choices: ['a', 'b'], correctAnswer: 'zzz' })).toEqual([]);
+  });
+});
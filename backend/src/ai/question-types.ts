@@ -0,0 +1,184 @@
+/**
+ * Question types and type-aware grading.
+ *
+ * - multiple_choice: one of `choices`; graded by exact (trimmed) match, as before.
+ * - multi_select: several of `choices`; the key lists them separated by " | " and the answer
+ *   must contain exactly that set (order does not matter).
+ * - numeric: student-produced response (SAT grid-in). Integers, decimals, fractions ("2/3",
+ *   "\frac{2}{3}") and mixed numbers ("1 1/2") are compared by value, so "0.5", ".5" and "1/2"
+ *   are the same answer. Without a `tolerance`, the key rounded or truncated to the places the
+ *   answer gives also counts: at least three for a fraction key ("0.666" / "0.667" for 2/3, the
+ *   grid-in rule), at least two for a decimal key longer than that ("3.14" / "3.141" for 3.14159).
+ *   A key with up to three decimals must be given exactly ("0.13" is not 0.125, "1.9999" is not
+ *   2). With a tolerance, any value within it does.
+ * - short_text: normalized match (case, spacing, surrounding quotes and end punctuation)
+ *   against the key or one of `acceptedAnswers`.
+ *
+ * `acceptedAnswers` also lists alternative keys for numeric questions.
+ */
+
+export type QuestionType = 'multiple_choice' | 'multi_select' | 'numeric' | 'short_text';
+export const QUESTION_TYPES: QuestionType[] = ['multiple_choice', 'multi_select', 'numeric', 'short_text'];
+export const DEFAULT_QUESTION_TYPE: QuestionType = 'multiple_choice';
+
+// Types answered by picking from `choices`
+export const CHOICE_TYPES: QuestionType[] = ['multiple_choice', 'multi_select'];
+
+// Separator between the correct choices of a multi_select key (same as the CSV choices column)
+export const ANSWER_LIST_SEPARATOR = ' | ';
+
+// Fewest decimal places a rounded/truncated entry needs to match a fraction key it does not equal
+// exactly; a decimal key with at most this many places has to be entered exactly
+const MIN_ROUNDED_DECIMALS = 3;
+// Fewest decimal places for a rounded/truncated entry of a longer decimal key (3.14 for 3.14159)
+const MIN_ROUNDED_DECIMALS_OF_DECIMAL_KEY = 2;
+const EPSILON = 1e-9;
+
+export interface GradableQuestion {
+  type?: string | null;
+  correctAnswer: any;
+  acceptedAnswers?: string[] | null;
+  tolerance?: number | null;
+}
+
+export function questionTypeOf(q: { type?: string | null } | null | undefined): QuestionType {
+  const t = q?.type as QuestionType;
+  return QUESTION_TYPES.includes(t) ? t : DEFAULT_QUESTION_TYPE;
+}
+
+// multi_select answers/keys: an array, or one string separated by "|"
+export function splitAnswerList(value: unknown): string[] {
+  const parts = Array.isArray(value) ? value.map((v) => String(v ?? '')) : String(value ?? '').split('|');
+  return Array.from(new Set(parts.map((p) => p.trim()).filter(Boolean)));
+}
+
+// Readable form of a stored answer (multi_select answers are arrays)
+export function answerText(value: unknown): string {
+  if (value == null) return '';
+  return Array.isArray(value) ? splitAnswerList(value).join(ANSWER_LIST_SEPARATOR) : String(value);
+}
+
+export type ParsedNumber = { value: number; decimals: number | null };
+
+/**
+ * Numeric value of a student-produced response, or null when it is not a number. `decimals`
+ * is the number of digits typed after the point (null for integers and fractions).
+ */
+export function parseNumeric(input: unknown): ParsedNumber | null {
+  if (input == null || Array.isArray(input)) return null;
+  const s = String(input)
+    .trim()
+    .replace(/^\$+|\$+$/g, '')
+    .replace(/\\[dt]?frac\s*\{([^{}]*)\}\s*\{([^{}]*)\}/g, '$1/$2')
+    .replace(/[−–]/g, '-')
+    .replace(/(\d),(?=\d{3}(?!\d))/g, '$1')
+    .replace(/\s*\/\s*/g, '/')
+    .trim();
+
+  const mixed = /^([-+]?)(\d+)\s+(\d+)\/(\d+)$/.exec(s);
+  if (mixed) {
+    const den = Number(mixed[4]);
+    if (den === 0) return null;
+    const value = Number(mixed[2]) + Number(mixed[3]) / den;
+    return { value: mixed[1] === '-' ? -value : value, decimals: null };
+  }
+
+  const fraction = /^([-+]?)(\d+(?:\.\d+)?)\/(\d+(?:\.\d+)?)$/.exec(s);
+  if (fraction) {
+    const den = Number(fraction[3]);
+    if (den === 0) return null;
+    const value = Number(fraction[2]) / den;
+    return { value: fraction[1] === '-' ? -value : value, decimals: null };
+  }
+
+  const decimal = /^[-+]?(?:\d+(\.\d*)?|\.(\d+))$/.exec(s);
+  if (decimal) {
+    const digits = decimal[1] ? decimal[1].length - 1 : decimal[2] ? decimal[2].length : 0;
+    return { value: Number(s), decimals: digits > 0 ? digits : null };
+  }
+  return null;
+}
+
+function numericMatches(key: ParsedNumber, answer: ParsedNumber, tolerance?: number | null): boolean {
+  const diff = Math.abs(answer.value - key.value);
+  if (tolerance != null && Number.isFinite(tolerance)) return diff <= tolerance + EPSILON;
+  if (diff <= EPSILON * Math.max(1, Math.abs(key.value))) return true;
+  // the key rounded or truncated to the answer's places (2/3 -> .666 or .667, 3.14159 -> 3.14)
+  const places = answer.decimals;
+  const exactKey = key.decimals != null ? key.decimals <= MIN_ROUNDED_DECIMALS : Number.isInteger(key.value);
+  if (exactKey || places == null || places < (key.decimals == null ? MIN_ROUNDED_DECIMALS : MIN_ROUNDED_DECIMALS_OF_DECIMAL_KEY)) return false;
+  const scaled = key.value * 10 ** places;
+  // nudge away from float noise (1.005 * 100 = 100.49999...)
+  const nudged = scaled + Math.sign(scaled) * 1e-9;
+  return [Math.round(nudged), Math.trunc(nudged)].some((v) => Math.abs(answer.value * 10 ** places - v) < 1e-6);
+}
+
+// Case, spacing, surrounding quotes and trailing punctuation do not matter for short_text
+export function normalizeTextAnswer(value: unknown): string {
+  return String(value ?? '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s"'“”‘’]+|[\s"'“”‘’.!?;:,]+$/g, '');
+}
+
+function keysOf(q: GradableQuestion): string[] {
+  return [q.correctAnswer, ...(q.acceptedAnswers ?? [])].filter((k) => k != null && String(k).trim() !== '').map((k) => String(k));
+}
+
+/**
+ * Whether `answer` is correct for `q`. An empty answer is always wrong.
+ */
+export function gradeAnswer(q: GradableQuestion, answer: unknown): boolean {
+  if (answer == null || (Array.isArray(answer) ? answer.length === 0 : String(answer).trim() === '')) return false;
+
+  switch (questionTypeOf(q)) {
+    case 'multi_select': {
+      const key = splitAnswerList(q.correctAnswer);
+      const given = splitAnswerList(answer);
+      return key.length > 0 && key.length === given.length && key.every((k) => given.includes(k));
+    }
+    case 'numeric': {
+      const given = parseNumeric(answer);
+      if (!given) return false;
+      return keysOf(q).some((k) => {
+        const key = parseNumeric(k);
+        return !!key && numericMatches(key, given, q.tolerance);
+      });
+    }
+    case 'short_text': {
+      const given = normalizeTextAnswer(answer);
+      return given !== '' && keysOf(q).some((k) => normalizeTextAnswer(k) === given);
+    }
+    default:
+      return !Array.isArray(answer) && String(answer).trim() === String(q.correctAnswer ?? '').trim();
+  }
+}
+
+/**
+ * Problems with the answer key of a non-multiple-choice question (multiple choice keeps its
+ * existing checks at the call sites). [] when the key is usable.
+ */
+export function answerKeyIssues(q: {
+  type?: string | null;
+  choices: string[];
+  correctAnswer: string;
+  acceptedAnswers?: string[] | null;
+  tolerance?: number | null;
+}): string[] {
+  const issues: string[] = [];
+  const type = questionTypeOf(q);
+  if (type === 'multi_select') {
+    const key = splitAnswerList(q.correctAnswer);
+    if (q.choices.length < 2) issues.push('multi_select questions need at least two choices');
+    if (key.length === 0) issues.push(`correct_answer must list the correct choices separated by "${ANSWER_LIST_SEPARATOR.trim()}"`);
+    for (const k of key) if (!q.choices.includes(k)) issues.push(`"${k}" in correct_answer is not one of the choices`);
+  } else if (type === 'numeric') {
+    for (const k of keysOf(q)) if (!parseNumeric(k)) issues.push(`"${k}" is not a number, fraction or decimal`);
+    if (!keysOf(q).length) issues.push('correct_answer is required');
+  } else if (type === 'short_text') {
+    if (!keysOf(q).some((k) => normalizeTextAnswer(k) !== '')) issues.push('correct_answer is required');
+  }
+  if (type !== 'numeric' && q.tolerance != null) issues.push('tolerance only applies to numeric questions');
+  return issues;
+}
@@ -1,19 +1,46 @@
 import { z } from 'zod';
+import { latexIssues } from './latex';
+import { answerKeyIssues, QUESTION_TYPES } from './question-types';
 
-export const QuestionSchema = z.object({
-  question_id: z.string(),
-  question_text: z.string(),
-  // choices stored as jsonb, modeled as an array of strings here — change if your choices shape differs
-  choices: z.array(z.string()),
-  correct_answer: z.string(),
-  explanation: z.string().nullable().optional(),
-  difficulty: z.string(),
-  topic: z.string(),
-  estimated_time_seconds: z.number().int().optional(),
-  metadata: z.record(z.string(), z.unknown()).optional(), // <-- fixed: key + value schema
-  // embedding stored as jsonb array of numbers
-  embedding: z.array(z.number()).nullable().optional(),
-  created_at: z.string().optional(),
-});
+export const QuestionSchema = z
+  .object({
+    question_id: z.string(),
+    question_text: z.string(),
+    // choices stored as jsonb, modeled as an array of strings here — change if your choices shape differs
+    choices: z.array(z.string()),
+    correct_answer: z.string(),
+    // omitted = multiple_choice; see question-types.ts for how each type is graded
+    question_type: z.enum(QUESTION_TYPES).optional(),
+    // further keys accepted for numeric / short_text questions
+    accepted_answers: z.array(z.string()).nullable().optional(),
+    // numeric only: absolute difference still graded as correct
+    tolerance: z.number().nonnegative().nullable().optional(),
+    explanation: z.string().nullable().optional(),
+    difficulty: z.string(),
+    topic: z.string(),
+    estimated_time_seconds: z.number().int().optional(),
+    metadata: z.record(z.string(), z.unknown()).optional(), // <-- fixed: key + value schema
+    // embedding stored as jsonb array of numbers
+    embedding: z.array(z.number()).nullable().optional(),
+    created_at: z.string().optional(),
+  })
+  // question, choices and explanation may contain LaTeX ($...$, $$...$$); it must be well formed
+  .superRefine((q, ctx) => {
+    const check = (text: string | null | undefined, path: (string | number)[]) => {
+      for (const issue of latexIssues(text)) ctx.addIssue({ code: 'custom', path, message: `Malformed LaTeX: ${issue}` });
+    };
+    check(q.question_text, ['question_text']);
+    q.choices.forEach((c, i) => check(c, ['choices', i]));
+    check(q.explanation, ['explanation']);
 
-export type Question = z.infer<typeof QuestionSchema>;
\ No newline at end of file
+    const keyIssues = answerKeyIssues({
+      type: q.question_type,
+      choices: q.choices,
+      correctAnswer: q.correct_answer,
+      acceptedAnswers: q.accepted_answers,
+      tolerance: q.tolerance,
+    });
+    for (const message of keyIssues) ctx.addIssue({ code: 'custom', path: ['correct_answer'], message });
+  });
+
+export type Question = z.infer<typeof QuestionSchema>;
@@ -10,6 +10,7 @@ import { TestModule } from './test/test.module';
 import { AdminModule } from './admin/admin.module';
 import { PlanModule } from './plan/plan.module';
 import { AiModule } from './ai/ai.module';
+import { JobsModule } from './jobs/jobs.module';
 import { SettingsModule } from './modules/settings/settings.module';
 import { MaintenanceGuard } from './common/guards/maintenance.guard';
 import { EnforceResetGuard } from './auth/enforce-reset.guard';
@@ -69,6 +70,7 @@ import { DashboardController } from './dashboard/dashboard.controller';
     AdminModule,
     PlanModule,
     AiModule,
+    JobsModule,
     SettingsModule,
     PaymentsModule,
 
@@ -1,16 +1,16 @@
 import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
 import { Request } from 'express';
-import { EnforcementService } from '../../modules/enforcement/enforcement.service';
+import { PlanPolicyService } from '../../plan/plan-policy.service';
 
 /**
  * PlanEnforcementGuard
- * - Call enforcementService.checkCreateTest(userId, questionCount)
- * - If enforcement blocks, throws ForbiddenException
+ * - Asks PlanPolicyService whether the user may create a test with the requested questionCount
+ * - If the policy denies it, throws ForbiddenException with the denial message
  * - If no authenticated user present, lets auth guards handle it (returns true)
  */
 @Injectable()
 export class PlanEnforcementGuard implements CanActivate {
-  constructor(private readonly enforcementService: EnforcementService) {}
+  constructor(private readonly policy: PlanPolicyService) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const req = context.switchToHttp().getRequest<Request>();
@@ -46,13 +46,10 @@ export class PlanEnforcementGuard implements CanActivate {
       questionCount = body.questions.length;
     }
 
-    try {
-      // EnforcementService.checkCreateTest expects (userId: number, questionCount: number)
-      await this.enforcementService.checkCreateTest(Number(userId), questionCount);
-      return true;
-    } catch (err: any) {
-      // Rethrow as Forbidden so controllers return 403
-      throw new ForbiddenException(err?.message || 'Plan limits enforced');
+    const decision = await this.policy.decide(Number(userId), 'create_test', { questionCount });
+    if (!decision.allowed) {
+      throw new ForbiddenException(decision.message || 'Plan limits enforced');
     }
+    return true;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,51 @@
+import { Request, Response } from 'express';
+
+// Comment line sent periodically so proxies don't close an idle stream
+const HEARTBEAT_MS = 15000;
+
+export interface SseStream {
+  send(event: string, data: any): void;
+  close(): void;
+  // true once the client disconnected or close() was called
+  isClosed(): boolean;
+}
+
+/**
+ * Switch an express response to text/event-stream. Events are written as
+ * `event: <name>` + JSON `data:`; writes after the client went away are dropped.
+ */
+export function openSseStream(req: Request, res: Response): SseStream {
+  let closed = false;
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // nginx buffers proxied responses unless told otherwise
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders?.();
+
+  const heartbeat = setInterval(() => {
+    if (!closed) res.write(': ping\n\n');
+  }, HEARTBEAT_MS);
+
+  const stop = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+  };
+  req.on('close', stop);
+
+  return {
+    send(event: string, data: any) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data ?? null)}\n\n`);
+    },
+    close() {
+      if (closed) return;
+      stop();
+      res.end();
+    },
+    isClosed: () => closed,
+  };
+}
@@ -0,0 +1,45 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+/**
+ * A job that exhausted its attempts. Kept with its payload and error history so an
+ * admin can inspect it and re-enqueue it (retried_job_id points at the new job).
+ */
+@Entity({ name: 'job_dead_letters' })
+@Index(['type', 'failed_at'])
+export class JobDeadLetter {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column({ type: 'int' })
+  job_id: number;
+
+  @Column({ type: 'varchar', length: 64 })
+  type: string;
+
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  payload: Record<string, any>;
+
+  @Column({ type: 'varchar', length: 200, nullable: true })
+  idempotency_key?: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  user_id?: number | null;
+
+  @Column({ type: 'int' })
+  attempts: number;
+
+  @Column({ type: 'text', nullable: true })
+  last_error?: string | null;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  error_log: Array<{ attempt: number; error: string; at: string }>;
+
+  @Column({ type: 'int', nullable: true })
+  retried_job_id?: number | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  retried_at?: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  failed_at: Date;
+}
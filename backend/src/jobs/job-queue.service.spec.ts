@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { JobQueueService, backoffMs } from './job-queue.service';
+import { Job } from './job.entity';
+import { JobDeadLetter } from './job-dead-letter.entity';
+
+declare const describe: any;
+declare const beforeEach: any;
+declare const it: any;
+declare const expect: any;
+declare const jest: any;
+
+describe('backoffMs', () => {
+  it('doubles per attempt from 2s and caps at 10 minutes (before jitter)', () => {
+    const noJitter = () => 0;
+    expect([1, 2, 3, 4].map((a) => backoffMs(a, noJitter))).toEqual([2000, 4000, 8000, 16000]);
+    expect(backoffMs(30, noJitter)).toBe(10 * 60 * 1000);
+    expect(backoffMs(1, () => 1)).toBe(2400);
+  });
+});
+
+describe('JobQueueService', () => {
+  let service: JobQueueService;
+  let jobs: any[];
+  let deadLetters: any[];
+  let jobRepo: Record<string, any>;
+
+  const matches = (row: any, where: any) => Object.entries(where).every(([k, v]) => row[k] === v);
+
+  beforeEach(async () => {
+    jobs = [];
+    deadLetters = [];
+    jobRepo = {
+      findOne: jest.fn(async (opts: any) => jobs.find((j) => matches(j, opts.where)) ?? null),
+      create: jest.fn((x: any) => ({ ...x })),
+      save: jest.fn(async (x: any) => {
+        if (!x.id) {
+          x.id = jobs.length + 1;
+          jobs.push(x);
+        }
+        return x;
+      }),
+    };
+    const deadRepo = {
+      findOne: jest.fn(async (opts: any) => deadLetters.find((d) => matches(d, opts.where)) ?? null),
+      create: jest.fn((x: any) => ({ ...x })),
+      save: jest.fn(async (x: any) => {
+        if (!x.id) {
+          x.id = deadLetters.length + 1;
+          deadLetters.push(x);
+        }
+        return x;
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JobQueueService,
+        { provide: getRepositoryToken(Job), useValue: jobRepo },
+        { provide: getRepositoryToken(JobDeadLetter), useValue: deadRepo },
+        { provide: ConfigService, useValue: { get: jest.fn().mockReturnValue(undefined) } },
+      ],
+    }).compile();
+
+    service = module.get<JobQueueService>(JobQueueService);
+  });
+
+  it('returns the existing job for a repeated idempotency key', async () => {
+    const first = await service.enqueue('ai.generate_question', { topic: 'Algebra' }, { userId: 3, idempotencyKey: 'k1' });
+    const again = await service.enqueue('ai.generate_question', { topic: 'Algebra' }, { userId: 3, idempotencyKey: 'k1' });
+    const other = await service.enqueue('ai.generate_question', { topic: 'Algebra' }, { userId: 3 });
+
+    expect(again.id).toBe(first.id);
+    expect(other.id).not.toBe(first.id);
+    expect(jobs).toHaveLength(2);
+  });
+
+  it('stores the handler result on success', async () => {
+    service.register('echo', async (payload: any) => ({ doubled: payload.n * 2 }));
+    const job: any = await service.enqueue('echo', { n: 21 });
+    job.attempts = 1;
+
+    const done: any = await service.process(job);
+
+    expect(done.status).toBe('succeeded');
+    expect(done.result).toEqual({ doubled: 42 });
+    expect(JobQueueService.toView(done).result).toEqual({ doubled: 42 });
+  });
+
+  it('re-queues a failed attempt with backoff and dead-letters it once attempts run out', async () => {
+    service.register('flaky', async () => { throw new Error('model timeout'); }, { maxAttempts: 2 });
+    const job: any = await service.enqueue('flaky', { q: 1 }, { userId: 9 });
+    expect(job.max_attempts).toBe(2);
+
+    job.attempts = 1;
+    const before = Date.now();
+    await service.process(job);
+    expect(job.status).toBe('queued');
+    expect(job.run_at.getTime()).toBeGreaterThanOrEqual(before + 2000);
+    expect(deadLetters).toHaveLength(0);
+
+    job.attempts = 2;
+    await service.process(job);
+    expect(job.status).toBe('dead');
+    expect(deadLetters).toHaveLength(1);
+    expect(deadLetters[0]).toEqual(expect.objectContaining({ job_id: job.id, type: 'flaky', user_id: 9, attempts: 2, last_error: 'model timeout' }));
+    expect(deadLetters[0].error_log.map((e: any) => e.attempt)).toEqual([1, 2]);
+  });
+
+  it('rejects a job without retry or dead letter when the handler marks the error non-retryable', async () => {
+    service.register('budgeted', async () => { throw new Error('ai_budget_exceeded'); }, { maxAttempts: 3, retryable: () => false });
+    const job: any = await service.enqueue('budgeted', {});
+    job.attempts = 1;
+
+    await service.process(job);
+
+    expect(job.status).toBe('rejected');
+    expect(job.finished_at).toBeInstanceOf(Date);
+    expect(job.last_error).toBe('ai_budget_exceeded');
+    expect(deadLetters).toHaveLength(0);
+  });
+
+  it('retrying a dead letter re-queues the original job with attempts reset', async () => {
+    service.register('flaky', async () => { throw new Error('boom'); }, { maxAttempts: 1 });
+    const job: any = await service.enqueue('flaky', {});
+    job.attempts = 1;
+    await service.process(job);
+
+    const retried: any = await service.retryDeadLetter(deadLetters[0].id);
+
+    expect(retried.id).toBe(job.id);
+    expect(retried).toEqual(expect.objectContaining({ status: 'queued', attempts: 0 }));
+    expect(deadLetters[0].retried_job_id).toBe(job.id);
+    await expect(service.retryDeadLetter(deadLetters[0].id)).rejects.toThrow('Already retried');
+  });
+
+  it('only lets users poll their own jobs', async () => {
+    const job: any = await service.enqueue('echo', {}, { userId: 4 });
+    expect((await service.getStatus(job.id, 4)).status).toBe('queued');
+    await expect(service.getStatus(job.id, 5)).rejects.toThrow('Job not found');
+  });
+});
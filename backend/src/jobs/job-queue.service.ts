@@ -0,0 +1,320 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThan, Repository } from 'typeorm';
+import * as os from 'os';
+import { Job } from './job.entity';
+import { JobDeadLetter } from './job-dead-letter.entity';
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 10 * 60 * 1000;
+
+// A running job whose lock is older than this is assumed lost (worker crashed) and re-queued
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface JobContext {
+  job: Job;
+  // 1-based attempt number of this run
+  attempt: number;
+}
+
+export type JobHandler = (payload: any, ctx: JobContext) => Promise<any>;
+
+export interface JobHandlerOptions {
+  maxAttempts?: number;
+  // false for errors another attempt can't fix; the job is then rejected without retry or dead letter
+  retryable?: (err: any) => boolean;
+}
+
+export interface EnqueueOptions {
+  userId?: number | null;
+  idempotencyKey?: string | null;
+  maxAttempts?: number;
+  delayMs?: number;
+}
+
+/**
+ * Delay before the next attempt after `attempt` failures: 2s, 4s, 8s ... capped at 10 minutes,
+ * with up to 20% jitter so retries of a burst of jobs don't line up.
+ */
+export function backoffMs(attempt: number, random: () => number = Math.random): number {
+  const exp = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * Math.pow(2, Math.max(0, attempt - 1)));
+  return Math.round(exp * (1 + 0.2 * random()));
+}
+
+/**
+ * Postgres-backed job queue. Feature services register a handler per job type on module init
+ * and enqueue work; the in-process workers poll for due jobs, retry failures with exponential
+ * backoff and move jobs that exhaust max_attempts to job_dead_letters. Errors the handler marks
+ * non-retryable end the job as 'rejected' straight away.
+ *
+ * Env: JOBS_WORKER_ENABLED (default true; false for API-only instances), JOBS_CONCURRENCY (2),
+ * JOBS_POLL_MS (1000).
+ */
+@Injectable()
+export class JobQueueService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(JobQueueService.name);
+  private readonly handlers = new Map<string, { handler: JobHandler; options: JobHandlerOptions }>();
+  private readonly workerId = `${os.hostname()}:${process.pid}`;
+  private timer: NodeJS.Timeout | null = null;
+  private running = 0;
+  private stopped = true;
+  private lastRecoveryAt = 0;
+
+  constructor(
+    @InjectRepository(Job)
+    private readonly jobRepo: Repository<Job>,
+    @InjectRepository(JobDeadLetter)
+    private readonly deadRepo: Repository<JobDeadLetter>,
+    private readonly config: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    const enabled = String(this.config.get('JOBS_WORKER_ENABLED') ?? 'true').toLowerCase() !== 'false';
+    if (!enabled || process.env.NODE_ENV === 'test') return;
+    this.stopped = false;
+    this.schedule(0);
+  }
+
+  onModuleDestroy() {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  register(type: string, handler: JobHandler, options: JobHandlerOptions = {}) {
+    this.handlers.set(type, { handler, options });
+  }
+
+  /**
+   * Add a job. With an idempotency key, an existing job of the same type and key is returned
+   * instead (whatever its status), so retried client requests don't duplicate work.
+   */
+  async enqueue(type: string, payload: Record<string, any>, opts: EnqueueOptions = {}): Promise<Job> {
+    const key = opts.idempotencyKey ? String(opts.idempotencyKey).slice(0, 200) : null;
+    if (key) {
+      const existing = await this.jobRepo.findOne({ where: { type, idempotency_key: key } });
+      if (existing) return existing;
+    }
+
+    const job = this.jobRepo.create({
+      type,
+      payload: payload ?? {},
+      status: 'queued',
+      idempotency_key: key,
+      user_id: opts.userId ?? null,
+      attempts: 0,
+      max_attempts: opts.maxAttempts ?? this.handlers.get(type)?.options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      run_at: new Date(Date.now() + Math.max(0, opts.delayMs ?? 0)),
+      error_log: [],
+    });
+    try {
+      return await this.jobRepo.save(job);
+    } catch (err) {
+      // lost the race against a concurrent enqueue with the same key
+      if (key && err?.code === '23505') {
+        const existing = await this.jobRepo.findOne({ where: { type, idempotency_key: key } });
+        if (existing) return existing;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Job status for polling. With userId the job must belong to that user.
+   */
+  async getStatus(id: number, userId?: number) {
+    const job = await this.jobRepo.findOne({ where: userId != null ? { id, user_id: userId } : { id } });
+    if (!job) throw new NotFoundException('Job not found');
+    return JobQueueService.toView(job);
+  }
+
+  static toView(job: Job) {
+    return {
+      id: job.id,
+      type: job.type,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.max_attempts,
+      runAt: job.run_at,
+      result: job.status === 'succeeded' ? job.result ?? null : null,
+      error: job.last_error ?? null,
+      createdAt: job.created_at,
+      finishedAt: job.finished_at ?? null,
+    };
+  }
+
+  /**
+   * Claim one due job (any registered type) for this worker. SKIP LOCKED lets several
+   * workers/instances poll the same table without handing out a job twice.
+   */
+  async claimNext(): Promise<Job | null> {
+    const types = Array.from(this.handlers.keys());
+    if (!types.length) return null;
+    const rows = await this.jobRepo.query(
+      `UPDATE jobs SET status = 'running', attempts = attempts + 1, locked_at = now(), locked_by = $1, updated_at = now()
+        WHERE id = (
+          SELECT id FROM jobs
+           WHERE status = 'queued' AND run_at <= now() AND type = ANY($2)
+           ORDER BY run_at, id
+           FOR UPDATE SKIP LOCKED
+           LIMIT 1
+        )
+        RETURNING *`,
+      [this.workerId, types],
+    );
+    // node-postgres returns [rows, count] for UPDATE ... RETURNING through TypeORM
+    const list = Array.isArray(rows?.[0]) ? rows[0] : rows;
+    const row = Array.isArray(list) ? list[0] : null;
+    return row ? this.jobRepo.create(row as Job) : null;
+  }
+
+  /**
+   * Run a claimed job: succeeded, re-queued with backoff, dead-lettered once attempts run out,
+   * or rejected when the handler's retryable() says another attempt can't help.
+   */
+  async process(job: Job): Promise<Job> {
+    const entry = this.handlers.get(job.type);
+    try {
+      if (!entry) throw new Error(`No handler registered for job type "${job.type}"`);
+      const result = await entry.handler(job.payload ?? {}, { job, attempt: job.attempts });
+      job.status = 'succeeded';
+      job.result = result ?? null;
+      job.last_error = null;
+      job.finished_at = new Date();
+      job.locked_at = null;
+      job.locked_by = null;
+      return await this.jobRepo.save(job);
+    } catch (err) {
+      return this.fail(job, err, entry?.options.retryable ? entry.options.retryable(err) : true);
+    }
+  }
+
+  private async fail(job: Job, err: any, retryable = true): Promise<Job> {
+    const message = String(err?.message ?? err).slice(0, 2000);
+    job.last_error = message;
+    job.error_log = [...(job.error_log || []), { attempt: job.attempts, error: message, at: new Date().toISOString() }];
+    job.locked_at = null;
+    job.locked_by = null;
+
+    if (!retryable) {
+      job.status = 'rejected';
+      job.finished_at = new Date();
+      this.logger.debug(`Job ${job.id} (${job.type}) rejected on attempt ${job.attempts}: ${message}`);
+      return this.jobRepo.save(job);
+    }
+
+    if (job.attempts >= job.max_attempts) {
+      job.status = 'dead';
+      job.finished_at = new Date();
+      const saved = await this.jobRepo.save(job);
+      await this.deadRepo.save(
+        this.deadRepo.create({
+          job_id: job.id,
+          type: job.type,
+          payload: job.payload,
+          idempotency_key: job.idempotency_key ?? null,
+          user_id: job.user_id ?? null,
+          attempts: job.attempts,
+          last_error: message,
+          error_log: job.error_log,
+        }),
+      );
+      this.logger.warn(`Job ${job.id} (${job.type}) dead-lettered after ${job.attempts} attempts: ${message}`);
+      return saved;
+    }
+
+    job.status = 'queued';
+    job.run_at = new Date(Date.now() + backoffMs(job.attempts));
+    this.logger.debug(`Job ${job.id} (${job.type}) attempt ${job.attempts} failed, retry at ${job.run_at.toISOString()}`);
+    return this.jobRepo.save(job);
+  }
+
+  /**
+   * Running jobs whose worker disappeared (lock older than LOCK_TIMEOUT_MS) count as a failed attempt.
+   */
+  async recoverStale(now = new Date()): Promise<number> {
+    const stale = await this.jobRepo.find({ where: { status: 'running', locked_at: LessThan(new Date(now.getTime() - LOCK_TIMEOUT_MS)) }, take: 50 });
+    for (const job of stale) await this.fail(job, new Error('worker lock expired'));
+    return stale.length;
+  }
+
+  /**
+   * Admin: put a dead-lettered job back on the queue as a fresh job (attempts reset).
+   */
+  async retryDeadLetter(id: number): Promise<Job> {
+    const dead = await this.deadRepo.findOne({ where: { id } });
+    if (!dead) throw new NotFoundException('Dead letter not found');
+    if (dead.retried_job_id) throw new BadRequestException(`Already retried as job ${dead.retried_job_id}`);
+
+    const job = await this.jobRepo.findOne({ where: { id: dead.job_id } });
+    let retried: Job;
+    if (job && job.status === 'dead') {
+      // reuse the original row so clients polling its id see the new outcome
+      job.status = 'queued';
+      job.attempts = 0;
+      job.run_at = new Date();
+      job.finished_at = null;
+      job.last_error = null;
+      retried = await this.jobRepo.save(job);
+    } else {
+      retried = await this.enqueue(dead.type, dead.payload, { userId: dead.user_id ?? null, maxAttempts: dead.attempts });
+    }
+    dead.retried_job_id = retried.id;
+    dead.retried_at = new Date();
+    await this.deadRepo.save(dead);
+    return retried;
+  }
+
+  async listDeadLetters(opts: { type?: string; includeRetried?: boolean; limit?: number } = {}) {
+    const qb = this.deadRepo.createQueryBuilder('d').orderBy('d.failed_at', 'DESC').take(Math.min(200, Math.max(1, opts.limit ?? 50)));
+    if (opts.type) qb.andWhere('d.type = :type', { type: opts.type });
+    if (!opts.includeRetried) qb.andWhere('d.retried_job_id IS NULL');
+    return qb.getMany();
+  }
+
+  async listJobs(opts: { status?: string; type?: string; limit?: number } = {}) {
+    const where: any = {};
+    if (opts.status) where.status = In(String(opts.status).split(','));
+    if (opts.type) where.type = opts.type;
+    const jobs = await this.jobRepo.find({ where, order: { created_at: 'DESC' }, take: Math.min(200, Math.max(1, opts.limit ?? 50)) });
+    return jobs.map((j) => ({ ...JobQueueService.toView(j), userId: j.user_id ?? null, idempotencyKey: j.idempotency_key ?? null }));
+  }
+
+  // ---- worker loop ----
+
+  private schedule(delayMs: number) {
+    if (this.stopped) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.tick(), delayMs);
+  }
+
+  private async tick() {
+    const concurrency = Math.max(1, Number(this.config.get('JOBS_CONCURRENCY') ?? 2) || 2);
+    const pollMs = Math.max(100, Number(this.config.get('JOBS_POLL_MS') ?? 1000) || 1000);
+    let claimed = 0;
+    try {
+      if (Date.now() - this.lastRecoveryAt > LOCK_TIMEOUT_MS / 5) {
+        this.lastRecoveryAt = Date.now();
+        await this.recoverStale();
+      }
+      while (!this.stopped && this.running < concurrency) {
+        const job = await this.claimNext();
+        if (!job) break;
+        claimed++;
+        this.running++;
+        this.process(job)
+          .catch((err) => this.logger.error(`Job ${job.id} bookkeeping failed: ${err?.message ?? err}`))
+          .finally(() => {
+            this.running--;
+            this.schedule(0);
+          });
+      }
+    } catch (err) {
+      this.logger.warn('Job poll failed: ' + String(err?.message ?? err));
+    }
+    // keep draining while there is work, otherwise back off to the poll interval
+    this.schedule(claimed > 0 && this.running < concurrency ? 0 : pollMs);
+  }
+}
@@ -0,0 +1,68 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+
+// queued -> running -> succeeded | queued (retry with backoff) | dead (moved to job_dead_letters)
+// | rejected (handler refused the work, e.g. over budget; not retried or dead-lettered)
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'dead' | 'rejected';
+
+/**
+ * One unit of background work (LLM generation, explanations, embeddings...).
+ * Workers claim due rows with FOR UPDATE SKIP LOCKED, so several app instances can share the table.
+ */
+@Entity({ name: 'jobs' })
+@Index(['status', 'run_at'])
+@Index(['type', 'idempotency_key'], { unique: true })
+export class Job {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column({ type: 'varchar', length: 64 })
+  type: string;
+
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  payload: Record<string, any>;
+
+  @Column({ type: 'varchar', length: 16, default: 'queued' })
+  status: JobStatus;
+
+  // same key + type returns the existing job instead of enqueuing a second one
+  @Column({ type: 'varchar', length: 200, nullable: true })
+  idempotency_key?: string | null;
+
+  // owner, for status polling by clients
+  @Column({ type: 'int', nullable: true })
+  user_id?: number | null;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'int', default: 5 })
+  max_attempts: number;
+
+  @Column({ type: 'timestamptz', default: () => 'now()' })
+  run_at: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  locked_at?: Date | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  locked_by?: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  result?: any;
+
+  @Column({ type: 'text', nullable: true })
+  last_error?: string | null;
+
+  // [{ attempt, error, at }] for every failed attempt
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  error_log: Array<{ attempt: number; error: string; at: string }>;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  finished_at?: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  created_at: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updated_at: Date;
+}
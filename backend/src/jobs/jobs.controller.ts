@@ -0,0 +1,58 @@
+import { Controller, Get, Post, Param, Query, Req, UseGuards, BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { AdminAuthGuard } from '../admin/admin-auth.guard';
+import { JobQueueService } from './job-queue.service';
+
+function parseId(id: string) {
+  const n = Number(id);
+  if (!n || Number.isNaN(n)) throw new BadRequestException('Invalid job id');
+  return n;
+}
+
+/**
+ * GET /jobs/:id — status polling for jobs the current user enqueued.
+ */
+@Controller('jobs')
+export class JobsController {
+  constructor(private readonly jobs: JobQueueService) {}
+
+  @Get(':id')
+  @UseGuards(JwtAuthGuard)
+  async status(@Req() req: any, @Param('id') id: string) {
+    const userId = Number(req.user?.sub ?? req.user?.id);
+    if (!userId) throw new UnauthorizedException('Invalid user');
+    return this.jobs.getStatus(parseId(id), userId);
+  }
+}
+
+/**
+ * Admin view of the queue and the dead-letter table.
+ */
+@Controller('admin/jobs')
+@UseGuards(AdminAuthGuard)
+export class AdminJobsController {
+  constructor(private readonly jobs: JobQueueService) {}
+
+  // GET /admin/jobs?status=queued,running&type=&limit=
+  @Get()
+  async list(@Query('status') status?: string, @Query('type') type?: string, @Query('limit') limit = '50') {
+    return this.jobs.listJobs({ status, type, limit: Number(limit) || 50 });
+  }
+
+  // GET /admin/jobs/dead-letters?type=&includeRetried=true
+  @Get('dead-letters')
+  async deadLetters(@Query('type') type?: string, @Query('includeRetried') includeRetried?: string, @Query('limit') limit = '50') {
+    return this.jobs.listDeadLetters({ type, includeRetried: includeRetried === 'true', limit: Number(limit) || 50 });
+  }
+
+  @Post('dead-letters/:id/retry')
+  async retry(@Param('id') id: string) {
+    const job = await this.jobs.retryDeadLetter(parseId(id));
+    return JobQueueService.toView(job);
+  }
+
+  @Get(':id')
+  async get(@Param('id') id: string) {
+    return this.jobs.getStatus(parseId(id));
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Job } from './job.entity';
+import { JobDeadLetter } from './job-dead-letter.entity';
+import { JobQueueService } from './job-queue.service';
+import { JobsController, AdminJobsController } from './jobs.controller';
+
+@Module({
+  imports: [ConfigModule, TypeOrmModule.forFeature([Job, JobDeadLetter])],
+  providers: [JobQueueService],
+  controllers: [JobsController, AdminJobsController],
+  exports: [JobQueueService],
+})
+export class JobsModule {}
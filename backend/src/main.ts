@@ -1,10 +1,15 @@
 import { NestFactory } from '@nestjs/core';
+import type { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import { seedAdmin } from './admin/admin.seeder';
 import { DataSource } from 'typeorm';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // rawBody: PayPal webhook signatures are computed over the exact request bytes
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, { rawBody: true });
+
+  // Bulk question imports post whole CSV/QTI files as JSON; the express default (100kb) is too small
+  app.useBodyParser('json', { limit: process.env.JSON_BODY_LIMIT || '10mb' });
 
   // Allow both Vercel frontend and localhost for development
   const allowedOrigins = [
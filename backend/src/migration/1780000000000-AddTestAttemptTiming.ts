@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTestAttemptTiming1780000000000 implements MigrationInterface {
+  name = 'AddTestAttemptTiming1780000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Server-side clock for timed attempts (nullable: untimed plans leave deadlineAt empty)
+    await queryRunner.query(`
+      ALTER TABLE "test_attempt"
+        ADD COLUMN IF NOT EXISTS "startedAt" TIMESTAMP WITH TIME ZONE NULL,
+        ADD COLUMN IF NOT EXISTS "deadlineAt" TIMESTAMP WITH TIME ZONE NULL,
+        ADD COLUMN IF NOT EXISTS "timeLimitSeconds" integer NULL;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "test_attempt"
+        DROP COLUMN IF EXISTS "timeLimitSeconds",
+        DROP COLUMN IF EXISTS "deadlineAt",
+        DROP COLUMN IF EXISTS "startedAt";
+    `);
+  }
+}
@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSessionPerformancePacing1780000000001 implements MigrationInterface {
+  name = 'AddSessionPerformancePacing1780000000001';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Per-question pacing captured by the test player (written from TestService.submitTest)
+    await queryRunner.query(`
+      ALTER TABLE session_performance
+        ADD COLUMN IF NOT EXISTS topic varchar(255) NULL,
+        ADD COLUMN IF NOT EXISTS answer_changes int NOT NULL DEFAULT 0;
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_session_performance_user ON session_performance(user_id);`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_session_performance_topic ON session_performance(topic);`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS idx_session_performance_topic;`);
+    await queryRunner.query(`DROP INDEX IF EXISTS idx_session_performance_user;`);
+    await queryRunner.query(`
+      ALTER TABLE session_performance
+        DROP COLUMN IF EXISTS answer_changes,
+        DROP COLUMN IF EXISTS topic;
+    `);
+  }
+}
@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateAdaptiveSessions1780000000002 implements MigrationInterface {
+  name = 'CreateAdaptiveSessions1780000000002';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS adaptive_sessions (
+        id bigserial PRIMARY KEY,
+        user_id integer NOT NULL,
+        topic varchar(128) NOT NULL,
+        difficulty varchar(32) NOT NULL,
+        current_question_id varchar(128) NULL,
+        answered int NOT NULL DEFAULT 0,
+        correct int NOT NULL DEFAULT 0,
+        status varchar(20) NOT NULL DEFAULT 'active',
+        created_at timestamptz DEFAULT now(),
+        updated_at timestamptz DEFAULT now()
+      );
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_adaptive_sessions_user ON adaptive_sessions(user_id);`);
+    // "unseen" lookups filter the bank by the user's answered question ids
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_session_performance_user_question ON session_performance(user_id, question_id);`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS idx_session_performance_user_question;`);
+    await queryRunner.query(`DROP TABLE IF EXISTS adaptive_sessions;`);
+  }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddGeneratedQuestionStatus1780000000003 implements MigrationInterface {
+  name = 'AddGeneratedQuestionStatus1780000000003';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Existing rows start as 'draft' so nothing unreviewed is reused until an admin approves it
+    await queryRunner.query(`
+      ALTER TABLE generated_questions
+        ADD COLUMN IF NOT EXISTS status varchar(16) NOT NULL DEFAULT 'draft',
+        ADD COLUMN IF NOT EXISTS reviewed_by integer NULL,
+        ADD COLUMN IF NOT EXISTS reviewed_at timestamptz NULL,
+        ADD COLUMN IF NOT EXISTS updated_at timestamptz NULL DEFAULT now();
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_generated_questions_status ON generated_questions(status);`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS idx_generated_questions_status;`);
+    await queryRunner.query(`
+      ALTER TABLE generated_questions
+        DROP COLUMN IF EXISTS updated_at,
+        DROP COLUMN IF EXISTS reviewed_at,
+        DROP COLUMN IF EXISTS reviewed_by,
+        DROP COLUMN IF EXISTS status;
+    `);
+  }
+}
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateQuestionReports1780000000004 implements MigrationInterface {
+  name = 'CreateQuestionReports1780000000004';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS question_reports (
+        id serial PRIMARY KEY,
+        user_id integer NOT NULL,
+        attempt_id integer NOT NULL,
+        question_id varchar(128) NOT NULL,
+        bank_question_id varchar(128) NULL,
+        reason varchar(32) NOT NULL,
+        comment text NULL,
+        question_snapshot json NULL,
+        status varchar(20) NOT NULL DEFAULT 'open',
+        corrected_answer text NULL,
+        resolution_note text NULL,
+        resolved_by integer NULL,
+        resolved_at timestamptz NULL,
+        regraded_attempts int NOT NULL DEFAULT 0,
+        created_at timestamptz DEFAULT now()
+      );
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_question_reports_status ON question_reports(status);`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_question_reports_attempt ON question_reports(attempt_id);`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_question_reports_user ON question_reports(user_id);`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_question_reports_bank_question ON question_reports(bank_question_id);`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS question_reports;`);
+  }
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateExamAttempts1780000000005 implements MigrationInterface {
+  name = 'CreateExamAttempts1780000000005';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS exam_attempts (
+        id bigserial PRIMARY KEY,
+        user_id integer NOT NULL,
+        blueprint varchar(32) NOT NULL,
+        status varchar(20) NOT NULL DEFAULT 'in_progress',
+        current_section int NOT NULL DEFAULT 0,
+        sections json NOT NULL,
+        break_ends_at timestamptz NULL,
+        scores json NULL,
+        total_scaled int NULL,
+        completed_at timestamptz NULL,
+        created_at timestamptz DEFAULT now(),
+        updated_at timestamptz DEFAULT now()
+      );
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_exam_attempts_user ON exam_attempts(user_id);`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS exam_attempts;`);
+  }
+}
@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateReviewItems1780000000006 implements MigrationInterface {
+  name = 'CreateReviewItems1780000000006';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS review_items (
+        id bigserial PRIMARY KEY,
+        user_id integer NOT NULL,
+        source_key varchar(200) NOT NULL,
+        bank_question_id varchar(128) NULL,
+        attempt_id integer NULL,
+        question text NOT NULL,
+        options json NOT NULL,
+        correct_answer text NOT NULL,
+        explanation text NULL,
+        topic varchar(255) NULL,
+        easiness double precision NOT NULL DEFAULT 2.5,
+        interval_days int NOT NULL DEFAULT 0,
+        repetitions int NOT NULL DEFAULT 0,
+        due_at timestamptz NOT NULL,
+        last_reviewed_at timestamptz NULL,
+        last_quality int NULL,
+        lapses int NOT NULL DEFAULT 1,
+        reviews int NOT NULL DEFAULT 0,
+        created_at timestamptz DEFAULT now(),
+        updated_at timestamptz DEFAULT now()
+      );
+    `);
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS uq_review_items_user_source ON review_items(user_id, source_key);`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_review_items_user_due ON review_items(user_id, due_at);`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS review_items;`);
+  }
+}
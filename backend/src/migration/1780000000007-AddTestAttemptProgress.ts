@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTestAttemptProgress1780000000007 implements MigrationInterface {
+  name = 'AddTestAttemptProgress1780000000007';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Autosaved progress of started attempts so a test can be resumed on another device
+    await queryRunner.query(`
+      ALTER TABLE "test_attempt"
+        ADD COLUMN IF NOT EXISTS "currentIndex" integer NULL,
+        ADD COLUMN IF NOT EXISTS "progressSavedAt" TIMESTAMP WITH TIME ZONE NULL;
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_test_attempt_user_status ON "test_attempt"("userId", "status");`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS idx_test_attempt_user_status;`);
+    await queryRunner.query(`
+      ALTER TABLE "test_attempt"
+        DROP COLUMN IF EXISTS "progressSavedAt",
+        DROP COLUMN IF EXISTS "currentIndex";
+    `);
+  }
+}
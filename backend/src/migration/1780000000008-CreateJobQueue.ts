@@ -0,0 +1,54 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateJobQueue1780000000008 implements MigrationInterface {
+  name = 'CreateJobQueue1780000000008';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id bigserial PRIMARY KEY,
+        type varchar(64) NOT NULL,
+        payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+        status varchar(16) NOT NULL DEFAULT 'queued',
+        idempotency_key varchar(200) NULL,
+        user_id integer NULL,
+        attempts int NOT NULL DEFAULT 0,
+        max_attempts int NOT NULL DEFAULT 5,
+        run_at timestamptz NOT NULL DEFAULT now(),
+        locked_at timestamptz NULL,
+        locked_by varchar(100) NULL,
+        result jsonb NULL,
+        last_error text NULL,
+        error_log jsonb NOT NULL DEFAULT '[]'::jsonb,
+        finished_at timestamptz NULL,
+        created_at timestamptz DEFAULT now(),
+        updated_at timestamptz DEFAULT now()
+      );
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_jobs_status_run_at ON jobs(status, run_at);`);
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS uq_jobs_type_idempotency_key ON jobs(type, idempotency_key);`);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS job_dead_letters (
+        id bigserial PRIMARY KEY,
+        job_id integer NOT NULL,
+        type varchar(64) NOT NULL,
+        payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+        idempotency_key varchar(200) NULL,
+        user_id integer NULL,
+        attempts int NOT NULL,
+        last_error text NULL,
+        error_log jsonb NOT NULL DEFAULT '[]'::jsonb,
+        retried_job_id integer NULL,
+        retried_at timestamptz NULL,
+        failed_at timestamptz DEFAULT now()
+      );
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_job_dead_letters_type_failed ON job_dead_letters(type, failed_at);`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS job_dead_letters;`);
+    await queryRunner.query(`DROP TABLE IF EXISTS jobs;`);
+  }
+}
@@ -0,0 +1,70 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAiCostAccounting1780000000009 implements MigrationInterface {
+  name = 'AddAiCostAccounting1780000000009';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Per-call attribution on the raw log
+    await queryRunner.query(`
+      ALTER TABLE "ai_logs"
+        ADD COLUMN IF NOT EXISTS "feature" varchar(64) NULL,
+        ADD COLUMN IF NOT EXISTS "promptTokens" integer NULL,
+        ADD COLUMN IF NOT EXISTS "completionTokens" integer NULL,
+        ADD COLUMN IF NOT EXISTS "totalTokens" integer NULL,
+        ADD COLUMN IF NOT EXISTS "costUsd" numeric(12,6) NULL;
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_ai_logs_created_at ON "ai_logs"("createdAt");`);
+    // Older rows only carry usage inside the stored provider response
+    await queryRunner.query(`
+      UPDATE "ai_logs"
+        SET "totalTokens" = ("response"->'usage'->>'total_tokens')::int
+        WHERE "totalTokens" IS NULL
+          AND jsonb_typeof("response") = 'object'
+          AND ("response"->'usage'->>'total_tokens') ~ '^[0-9]+$';
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS ai_cost_daily (
+        id bigserial PRIMARY KEY,
+        day date NOT NULL,
+        user_id integer NOT NULL DEFAULT 0,
+        plan varchar(32) NOT NULL DEFAULT 'free',
+        feature varchar(64) NOT NULL DEFAULT 'other',
+        calls integer NOT NULL DEFAULT 0,
+        prompt_tokens bigint NOT NULL DEFAULT 0,
+        completion_tokens bigint NOT NULL DEFAULT 0,
+        total_tokens bigint NOT NULL DEFAULT 0,
+        cost_usd numeric(12,6) NOT NULL DEFAULT 0,
+        updated_at timestamptz DEFAULT now()
+      );
+    `);
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS uq_ai_cost_daily_key ON ai_cost_daily(day, user_id, plan, feature);`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_ai_cost_daily_user_day ON ai_cost_daily(user_id, day);`);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS ai_budget_caps (
+        id serial PRIMARY KEY,
+        scope varchar(16) NOT NULL,
+        scope_key varchar(64) NOT NULL,
+        monthly_usd numeric(10,2) NULL,
+        updated_by varchar(255) NULL,
+        updated_at timestamptz DEFAULT now()
+      );
+    `);
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS uq_ai_budget_caps_scope_key ON ai_budget_caps(scope, scope_key);`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS ai_budget_caps;`);
+    await queryRunner.query(`DROP TABLE IF EXISTS ai_cost_daily;`);
+    await queryRunner.query(`DROP INDEX IF EXISTS idx_ai_logs_created_at;`);
+    await queryRunner.query(`
+      ALTER TABLE "ai_logs"
+        DROP COLUMN IF EXISTS "costUsd",
+        DROP COLUMN IF EXISTS "totalTokens",
+        DROP COLUMN IF EXISTS "completionTokens",
+        DROP COLUMN IF EXISTS "promptTokens",
+        DROP COLUMN IF EXISTS "feature";
+    `);
+  }
+}
@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreatePaypalSubscriptions1780000000010 implements MigrationInterface {
+  name = 'CreatePaypalSubscriptions1780000000010';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS paypal_billing_plans (
+        id serial PRIMARY KEY,
+        plan varchar(64) NOT NULL,
+        billing_period varchar(32) NOT NULL,
+        amount numeric(12,2) NOT NULL,
+        currency varchar(8) NOT NULL DEFAULT 'USD',
+        paypal_product_id varchar(128) NULL,
+        paypal_plan_id varchar(128) NOT NULL,
+        created_at timestamptz DEFAULT now()
+      );
+    `);
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS ux_paypal_billing_plans_plan_period ON paypal_billing_plans(plan, billing_period);`);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS subscriptions (
+        id serial PRIMARY KEY,
+        user_id integer NOT NULL,
+        plan varchar(64) NOT NULL,
+        billing_period varchar(32) NOT NULL,
+        paypal_subscription_id varchar(128) NOT NULL,
+        paypal_plan_id varchar(128) NULL,
+        status varchar(32) NOT NULL DEFAULT 'approval_pending',
+        approve_url text NULL,
+        cancel_at_period_end boolean NOT NULL DEFAULT false,
+        current_period_end timestamptz NULL,
+        next_billing_time timestamptz NULL,
+        last_payment_at timestamptz NULL,
+        last_payment_amount numeric(12,2) NULL,
+        failed_payments integer NOT NULL DEFAULT 0,
+        payer_email varchar(256) NULL,
+        raw jsonb NULL,
+        created_at timestamptz DEFAULT now(),
+        updated_at timestamptz DEFAULT now()
+      );
+    `);
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS ux_subscriptions_paypal_subscription_id ON subscriptions(paypal_subscription_id);`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_subscriptions_user_id ON subscriptions(user_id);`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS subscriptions;`);
+    await queryRunner.query(`DROP TABLE IF EXISTS paypal_billing_plans;`);
+  }
+}
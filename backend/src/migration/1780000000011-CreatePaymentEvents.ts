@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreatePaymentEvents1780000000011 implements MigrationInterface {
+  name = 'CreatePaymentEvents1780000000011';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS payment_events (
+        id serial PRIMARY KEY,
+        event_id varchar(128) NOT NULL,
+        event_type varchar(128) NOT NULL,
+        resource_id varchar(128) NULL,
+        status varchar(32) NOT NULL DEFAULT 'received',
+        attempts integer NOT NULL DEFAULT 0,
+        last_error text NULL,
+        transmission_id varchar(128) NULL,
+        payload jsonb NOT NULL,
+        received_at timestamptz DEFAULT now(),
+        processed_at timestamptz NULL
+      );
+    `);
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS ux_payment_events_event_id ON payment_events(event_id);`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_payment_events_status_received ON payment_events(status, received_at);`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS payment_events;`);
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreatePaymentRefunds1780000000012 implements MigrationInterface {
+  name = 'CreatePaymentRefunds1780000000012';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE payments ADD COLUMN IF NOT EXISTS refunded_amount numeric(12,2) NOT NULL DEFAULT 0;`);
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS payment_refunds (
+        id serial PRIMARY KEY,
+        payment_id integer NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+        user_id integer NULL,
+        paypal_refund_id varchar(128) NOT NULL,
+        amount numeric(12,2) NOT NULL,
+        currency varchar(8) NOT NULL DEFAULT 'USD',
+        status varchar(32) NOT NULL DEFAULT 'pending',
+        reason text NULL,
+        initiated_by varchar(255) NULL,
+        applied_at timestamptz NULL,
+        raw jsonb NULL,
+        created_at timestamptz DEFAULT now(),
+        updated_at timestamptz DEFAULT now()
+      );
+    `);
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS ux_payment_refunds_paypal_refund_id ON payment_refunds(paypal_refund_id);`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_payment_refunds_payment_id ON payment_refunds(payment_id);`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS payment_refunds;`);
+    await queryRunner.query(`ALTER TABLE payments DROP COLUMN IF EXISTS refunded_amount;`);
+  }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreatePlanChanges1780000000013 implements MigrationInterface {
+  name = 'CreatePlanChanges1780000000013';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS plan_changes (
+        id serial PRIMARY KEY,
+        user_id integer NOT NULL,
+        from_plan varchar(64) NULL,
+        from_period varchar(32) NULL,
+        to_plan varchar(64) NOT NULL,
+        to_period varchar(32) NOT NULL,
+        kind varchar(16) NOT NULL,
+        amount numeric(12,2) NOT NULL DEFAULT 0,
+        credit numeric(12,2) NOT NULL DEFAULT 0,
+        status varchar(16) NOT NULL DEFAULT 'scheduled',
+        effective_at timestamptz NOT NULL,
+        payment_id integer NULL REFERENCES payments(id) ON DELETE SET NULL,
+        created_at timestamptz DEFAULT now(),
+        applied_at timestamptz NULL
+      );
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_plan_changes_user_status ON plan_changes(user_id, status);`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS plan_changes;`);
+  }
+}
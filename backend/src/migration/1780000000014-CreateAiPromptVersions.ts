@@ -0,0 +1,56 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateAiPromptVersions1780000000014 implements MigrationInterface {
+  name = 'CreateAiPromptVersions1780000000014';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS ai_prompt_versions (
+        id serial PRIMARY KEY,
+        prompt_key varchar(128) NOT NULL,
+        version integer NOT NULL,
+        template text NOT NULL,
+        model varchar(64) NULL,
+        temperature real NULL,
+        max_tokens integer NULL,
+        note text NULL,
+        created_by varchar(255) NULL,
+        uses integer NOT NULL DEFAULT 0,
+        validation_failures integer NOT NULL DEFAULT 0,
+        duplicates integer NOT NULL DEFAULT 0,
+        created_at timestamptz DEFAULT now()
+      );
+    `);
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS uq_ai_prompt_versions_key_version ON ai_prompt_versions(prompt_key, version);`);
+
+    await queryRunner.query(`
+      ALTER TABLE ai_prompts
+        ADD COLUMN IF NOT EXISTS active_version_id integer NULL,
+        ADD COLUMN IF NOT EXISTS experiment jsonb NULL;
+    `);
+    // Existing templates become version 1
+    await queryRunner.query(`
+      INSERT INTO ai_prompt_versions (prompt_key, version, template, model, temperature)
+      SELECT p.key, 1, p.template, p.metadata->>'model',
+             CASE WHEN (p.metadata->>'temperature') ~ '^[0-9.]+$' THEN (p.metadata->>'temperature')::real END
+      FROM ai_prompts p
+      ON CONFLICT (prompt_key, version) DO NOTHING;
+    `);
+    await queryRunner.query(`
+      UPDATE ai_prompts p SET active_version_id = v.id
+      FROM ai_prompt_versions v
+      WHERE v.prompt_key = p.key AND v.version = 1 AND p.active_version_id IS NULL;
+    `);
+
+    await queryRunner.query(`ALTER TABLE generated_questions ADD COLUMN IF NOT EXISTS prompt_version_id integer NULL;`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_generated_questions_prompt_version ON generated_questions(prompt_version_id);`);
+    await queryRunner.query(`ALTER TABLE "ai_logs" ADD COLUMN IF NOT EXISTS "promptVersionId" integer NULL;`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "ai_logs" DROP COLUMN IF EXISTS "promptVersionId";`);
+    await queryRunner.query(`ALTER TABLE generated_questions DROP COLUMN IF EXISTS prompt_version_id;`);
+    await queryRunner.query(`ALTER TABLE ai_prompts DROP COLUMN IF EXISTS experiment, DROP COLUMN IF EXISTS active_version_id;`);
+    await queryRunner.query(`DROP TABLE IF EXISTS ai_prompt_versions;`);
+  }
+}
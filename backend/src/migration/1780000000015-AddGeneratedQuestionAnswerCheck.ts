@@ -0,0 +1,16 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddGeneratedQuestionAnswerCheck1780000000015 implements MigrationInterface {
+  name = 'AddGeneratedQuestionAnswerCheck1780000000015';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // NULL = not checked yet; POST /admin/questions/verify fills existing rows
+    await queryRunner.query(`ALTER TABLE generated_questions ADD COLUMN IF NOT EXISTS answer_check varchar(16) NULL;`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_generated_questions_answer_check ON generated_questions(answer_check);`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS idx_generated_questions_answer_check;`);
+    await queryRunner.query(`ALTER TABLE generated_questions DROP COLUMN IF EXISTS answer_check;`);
+  }
+}
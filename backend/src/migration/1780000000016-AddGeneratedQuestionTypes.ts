@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddGeneratedQuestionTypes1780000000016 implements MigrationInterface {
+  name = 'AddGeneratedQuestionTypes1780000000016';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // existing rows are all multiple choice
+    await queryRunner.query(`ALTER TABLE generated_questions ADD COLUMN IF NOT EXISTS question_type varchar(24) NOT NULL DEFAULT 'multiple_choice';`);
+    await queryRunner.query(`ALTER TABLE generated_questions ADD COLUMN IF NOT EXISTS accepted_answers json NULL;`);
+    await queryRunner.query(`ALTER TABLE generated_questions ADD COLUMN IF NOT EXISTS tolerance double precision NULL;`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_generated_questions_question_type ON generated_questions(question_type);`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS idx_generated_questions_question_type;`);
+    await queryRunner.query(`ALTER TABLE generated_questions DROP COLUMN IF EXISTS tolerance;`);
+    await queryRunner.query(`ALTER TABLE generated_questions DROP COLUMN IF EXISTS accepted_answers;`);
+    await queryRunner.query(`ALTER TABLE generated_questions DROP COLUMN IF EXISTS question_type;`);
+  }
+}
@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTestHints1780000000017 implements MigrationInterface {
+  name = 'AddTestHints1780000000017';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Hints shown during an attempt (question id -> hint texts) and their total, for "with hints" scores
+    await queryRunner.query(`
+      ALTER TABLE "test_attempt"
+        ADD COLUMN IF NOT EXISTS "hints" json NULL,
+        ADD COLUMN IF NOT EXISTS "hintsUsed" integer NOT NULL DEFAULT 0;
+    `);
+    // Monthly hint counter next to the explanation counter (the table predates the migrations)
+    await queryRunner.query(`
+      ALTER TABLE IF EXISTS "ai_usage"
+        ADD COLUMN IF NOT EXISTS "hintsMonth" varchar NULL,
+        ADD COLUMN IF NOT EXISTS "hintsCount" integer NOT NULL DEFAULT 0;
+    `);
+    // Generated hints cached per bank question, one entry per level
+    await queryRunner.query(`ALTER TABLE generated_questions ADD COLUMN IF NOT EXISTS hints json NULL;`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE generated_questions DROP COLUMN IF EXISTS hints;`);
+    await queryRunner.query(`
+      ALTER TABLE IF EXISTS "ai_usage"
+        DROP COLUMN IF EXISTS "hintsCount",
+        DROP COLUMN IF EXISTS "hintsMonth";
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "test_attempt"
+        DROP COLUMN IF EXISTS "hintsUsed",
+        DROP COLUMN IF EXISTS "hints";
+    `);
+  }
+}
@@ -26,7 +26,13 @@ export class SettingsController {
     if (!body || typeof body !== 'object') {
       throw new BadRequestException('Invalid settings payload');
     }
-    // Persist the body as-is and return the parsed object as authoritative saved state.
+    // Plan limits are edited through /admin/plan-policy; the settings page does not send them,
+    // so keep the stored ones rather than wiping them.
+    if (!('limits' in body)) {
+      const current = await this.settingsService.getSettings();
+      if (current?.limits) body.limits = current.limits;
+    }
+    // Persist the body and return the parsed object as authoritative saved state.
     const saved = await this.settingsService.saveSettings(body);
     return { ok: true, saved };
   }
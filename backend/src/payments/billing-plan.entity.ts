@@ -0,0 +1,33 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+/**
+ * PayPal billing plan created for one of our plans and billing periods. Created on first use;
+ * a price change creates a new PayPal plan and replaces the row.
+ */
+@Index('ux_paypal_billing_plans_plan_period', ['plan', 'billingPeriod'], { unique: true })
+@Entity({ name: 'paypal_billing_plans' })
+export class PaypalBillingPlan {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'plan', type: 'varchar', length: 64 })
+  plan: string;
+
+  @Column({ name: 'billing_period', type: 'varchar', length: 32 })
+  billingPeriod: string;
+
+  @Column({ name: 'amount', type: 'numeric', precision: 12, scale: 2 })
+  amount: string;
+
+  @Column({ name: 'currency', type: 'varchar', length: 8, default: 'USD' })
+  currency: string;
+
+  @Column({ name: 'paypal_product_id', type: 'varchar', length: 128, nullable: true })
+  paypalProductId: string | null;
+
+  @Column({ name: 'paypal_plan_id', type: 'varchar', length: 128 })
+  paypalPlanId: string;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+}
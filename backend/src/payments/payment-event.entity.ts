@@ -0,0 +1,47 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+// received → processed | ignored (no handler for the type) | failed (retryable from the admin console)
+export type PaymentEventStatus = 'received' | 'processed' | 'ignored' | 'failed';
+
+/**
+ * Ledger of verified PayPal webhook events, one row per PayPal event id. A redelivered event hits
+ * the unique index and is dropped; failed rows keep the payload so an admin can re-run them.
+ */
+@Index('ux_payment_events_event_id', ['eventId'], { unique: true })
+@Index('idx_payment_events_status_received', ['status', 'receivedAt'])
+@Entity({ name: 'payment_events' })
+export class PaymentEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'event_id', type: 'varchar', length: 128 })
+  eventId: string;
+
+  @Column({ name: 'event_type', type: 'varchar', length: 128 })
+  eventType: string;
+
+  @Column({ name: 'resource_id', type: 'varchar', length: 128, nullable: true })
+  resourceId: string | null;
+
+  @Column({ name: 'status', type: 'varchar', length: 32, default: 'received' })
+  status: PaymentEventStatus;
+
+  @Column({ name: 'attempts', type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError: string | null;
+
+  // PAYPAL-TRANSMISSION-ID of the delivery that was stored
+  @Column({ name: 'transmission_id', type: 'varchar', length: 128, nullable: true })
+  transmissionId: string | null;
+
+  @Column({ name: 'payload', type: 'jsonb' })
+  payload: any;
+
+  @CreateDateColumn({ name: 'received_at', type: 'timestamptz' })
+  receivedAt: Date;
+
+  @Column({ name: 'processed_at', type: 'timestamptz', nullable: true })
+  processedAt: Date | null;
+}
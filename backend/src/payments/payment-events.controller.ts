@@ -0,0 +1,35 @@
+import { BadRequestException, Controller, Get, Param, Post, Query, UseGuards } from '@nestjs/common';
+import { AdminAuthGuard } from '../admin/admin-auth.guard';
+import { PaymentEventsService } from './payment-events.service';
+
+function parseId(id: string) {
+  const n = Number(id);
+  if (!n || Number.isNaN(n)) throw new BadRequestException('Invalid event id');
+  return n;
+}
+
+/**
+ * Admin view of the PayPal webhook ledger; failed events can be re-run.
+ */
+@Controller('admin/payment-events')
+@UseGuards(AdminAuthGuard)
+export class AdminPaymentEventsController {
+  constructor(private readonly events: PaymentEventsService) {}
+
+  // GET /admin/payment-events?status=failed,ignored&type=&limit=
+  @Get()
+  async list(@Query('status') status?: string, @Query('type') type?: string, @Query('limit') limit = '50') {
+    return this.events.list({ status, type, limit: Number(limit) || 50 });
+  }
+
+  @Get(':id')
+  async get(@Param('id') id: string) {
+    return this.events.get(parseId(id));
+  }
+
+  @Post(':id/retry')
+  async retry(@Param('id') id: string) {
+    const event = await this.events.retry(parseId(id));
+    return PaymentEventsService.toView(event);
+  }
+}
@@ -0,0 +1,144 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { generateKeyPairSync, sign } from 'crypto';
+import { PaymentEventsService } from './payment-events.service';
+import { PaymentEvent } from './payment-event.entity';
+import { PaymentsService } from './payments.service';
+import { SubscriptionsService } from './subscriptions.service';
+import { RefundsService } from './refunds.service';
+import { PaypalWebhookVerifier, crc32 } from './paypal-webhook-verifier';
+
+declare const describe: any;
+declare const beforeEach: any;
+declare const it: any;
+declare const expect: any;
+declare const jest: any;
+
+const CERT_URL = 'https://api.sandbox.paypal.com/v1/notifications/certs/CERT-1';
+
+describe('PaypalWebhookVerifier', () => {
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  let env: Record<string, string | undefined>;
+  let verifier: PaypalWebhookVerifier;
+
+  const signed = (body: string, webhookId = 'WH-CONFIG') => {
+    const message = `T-1|2026-10-19T10:00:00Z|${webhookId}|${crc32(Buffer.from(body))}`;
+    return {
+      'paypal-transmission-id': 'T-1',
+      'paypal-transmission-time': '2026-10-19T10:00:00Z',
+      'paypal-transmission-sig': sign('sha256', Buffer.from(message), privateKey).toString('base64'),
+      'paypal-cert-url': CERT_URL,
+      'paypal-auth-algo': 'SHA256withRSA',
+    };
+  };
+
+  beforeEach(() => {
+    env = { PAYPAL_WEBHOOK_ID: 'WH-CONFIG' };
+    verifier = new PaypalWebhookVerifier({ get: (k: string) => env[k] } as any);
+    jest.spyOn(verifier as any, 'loadCert').mockResolvedValue(publicKey);
+  });
+
+  it('computes the standard CRC32', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('accepts a correctly signed body and rejects tampering', async () => {
+    const body = '{"id":"WH-1","event_type":"PAYMENT.CAPTURE.COMPLETED"}';
+    expect(await verifier.verify(signed(body), Buffer.from(body))).toBe('verified');
+
+    await expect(verifier.verify(signed(body), Buffer.from(body.replace('WH-1', 'WH-2')))).rejects.toBeInstanceOf(BadRequestException);
+    await expect(verifier.verify(signed(body, 'WH-OTHER'), Buffer.from(body))).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('rejects untrusted cert hosts, missing headers and missing configuration', async () => {
+    const body = '{}';
+    await expect(verifier.verify({ ...signed(body), 'paypal-cert-url': 'https://evil.example.com/cert' }, Buffer.from(body))).rejects.toBeInstanceOf(BadRequestException);
+    await expect(verifier.verify({}, Buffer.from(body))).rejects.toBeInstanceOf(BadRequestException);
+
+    env.PAYPAL_WEBHOOK_ID = undefined;
+    await expect(verifier.verify(signed(body), Buffer.from(body))).rejects.toBeInstanceOf(BadRequestException);
+
+    env.PAYPAL_WEBHOOK_VERIFY = 'false';
+    expect(await verifier.verify({}, Buffer.from(body))).toBe('skipped');
+  });
+});
+
+describe('PaymentEventsService', () => {
+  let service: PaymentEventsService;
+  let rows: any[];
+  let repo: any;
+  let paymentsService: any;
+  let subscriptionsService: any;
+  let refundsService: any;
+  let verifier: any;
+
+  const event = { id: 'WH-1', event_type: 'PAYMENT.CAPTURE.COMPLETED', resource: { id: 'CAP-1' } };
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(async () => {
+    rows = [];
+    repo = {
+      // mimics INSERT ... ON CONFLICT (event_id) DO NOTHING RETURNING id
+      query: jest.fn(async (_sql: string, params: any[]) => {
+        if (rows.some((r) => r.eventId === params[0])) return [];
+        const row = { id: rows.length + 1, eventId: params[0], eventType: params[1], resourceId: params[2], transmissionId: params[3], payload: params[4], status: 'received', attempts: 0, receivedAt: new Date() };
+        rows.push(row);
+        return [{ id: row.id }];
+      }),
+      findOne: jest.fn(async ({ where }: any) => rows.find((r) => r.id === where.id) ?? null),
+      save: jest.fn(async (r: any) => r),
+    };
+    paymentsService = { handleWebhook: jest.fn(async () => true) };
+    subscriptionsService = { handleWebhook: jest.fn(async () => false) };
+    refundsService = { handleWebhook: jest.fn(async () => false) };
+    verifier = { verify: jest.fn(async () => 'verified') };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentEventsService,
+        { provide: getRepositoryToken(PaymentEvent), useValue: repo },
+        { provide: PaymentsService, useValue: paymentsService },
+        { provide: SubscriptionsService, useValue: subscriptionsService },
+        { provide: RefundsService, useValue: refundsService },
+        { provide: PaypalWebhookVerifier, useValue: verifier },
+      ],
+    }).compile();
+
+    service = module.get<PaymentEventsService>(PaymentEventsService);
+  });
+
+  it('records an event once and processes it once', async () => {
+    expect(await service.ingest({}, Buffer.from(JSON.stringify(event)), event)).toEqual({ received: true, duplicate: false });
+    await flush();
+    expect(rows[0]).toEqual(expect.objectContaining({ eventId: 'WH-1', resourceId: 'CAP-1', status: 'processed', attempts: 1 }));
+
+    expect(await service.ingest({}, undefined, event)).toEqual({ received: true, duplicate: true });
+    await flush();
+    expect(paymentsService.handleWebhook).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not record deliveries that fail verification', async () => {
+    verifier.verify.mockRejectedValue(new BadRequestException('Invalid webhook signature'));
+    await expect(service.ingest({}, undefined, event)).rejects.toBeInstanceOf(BadRequestException);
+    expect(rows).toHaveLength(0);
+  });
+
+  it('marks failing handlers and lets an admin retry them', async () => {
+    paymentsService.handleWebhook.mockRejectedValueOnce(new Error('PayPal timeout'));
+    await service.ingest({}, undefined, event);
+    await flush();
+    expect(rows[0]).toEqual(expect.objectContaining({ status: 'failed', lastError: 'PayPal timeout' }));
+
+    const retried = await service.retry(1);
+    expect(retried).toEqual(expect.objectContaining({ status: 'processed', attempts: 2, lastError: null }));
+    await expect(service.retry(1)).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('marks events no handler recognises as ignored', async () => {
+    paymentsService.handleWebhook.mockResolvedValue(false);
+    await service.ingest({}, undefined, { id: 'WH-9', event_type: 'CUSTOMER.DISPUTE.CREATED' });
+    await flush();
+    expect(rows[0].status).toBe('ignored');
+  });
+});
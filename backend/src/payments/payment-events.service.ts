@@ -0,0 +1,122 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { PaymentEvent } from './payment-event.entity';
+import { PaymentsService } from './payments.service';
+import { SubscriptionsService } from './subscriptions.service';
+import { RefundsService } from './refunds.service';
+import { PaypalWebhookVerifier } from './paypal-webhook-verifier';
+
+// a 'received' row younger than this may still be running in the background
+const IN_FLIGHT_MS = 60 * 1000;
+
+/**
+ * Webhook intake: verify the delivery, record it in payment_events (duplicates by event id are
+ * dropped), then run the refund, subscription and order handlers and store the outcome on the row.
+ */
+@Injectable()
+export class PaymentEventsService {
+  private readonly logger = new Logger(PaymentEventsService.name);
+
+  constructor(
+    @InjectRepository(PaymentEvent)
+    private readonly eventRepo: Repository<PaymentEvent>,
+    private readonly paymentsService: PaymentsService,
+    private readonly subscriptionsService: SubscriptionsService,
+    private readonly refundsService: RefundsService,
+    private readonly verifier: PaypalWebhookVerifier,
+  ) {}
+
+  static toView(e: PaymentEvent, withPayload = false) {
+    return {
+      id: e.id,
+      eventId: e.eventId,
+      eventType: e.eventType,
+      resourceId: e.resourceId ?? null,
+      status: e.status,
+      attempts: e.attempts,
+      lastError: e.lastError ?? null,
+      receivedAt: e.receivedAt,
+      processedAt: e.processedAt ?? null,
+      ...(withPayload ? { transmissionId: e.transmissionId ?? null, payload: e.payload } : {}),
+    };
+  }
+
+  /**
+   * Verifies and records one delivery. Processing runs after the response so PayPal gets its 200
+   * quickly; a redelivered event id returns duplicate: true and is not processed again.
+   */
+  async ingest(headers: Record<string, any>, rawBody: Buffer | undefined, event: any) {
+    const raw = rawBody ?? Buffer.from(JSON.stringify(event ?? {}));
+    await this.verifier.verify(headers, raw);
+
+    const eventId = event?.id ? String(event.id) : '';
+    const eventType = event?.event_type ? String(event.event_type) : '';
+    if (!eventId || !eventType) throw new BadRequestException('Webhook event id and event_type are required');
+
+    const transmission = headers?.['paypal-transmission-id'];
+    const rows = await this.eventRepo.query(
+      `INSERT INTO payment_events (event_id, event_type, resource_id, transmission_id, payload)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (event_id) DO NOTHING
+       RETURNING id`,
+      [eventId, eventType, event?.resource?.id ? String(event.resource.id) : null, transmission ? String(transmission) : null, event],
+    );
+    const id = rows?.[0]?.id;
+    if (!id) {
+      this.logger.debug(`Duplicate webhook event ${eventId} (${eventType}) ignored`);
+      return { received: true, duplicate: true };
+    }
+
+    setImmediate(() => {
+      this.process(Number(id)).catch((err) => this.logger.warn(`Webhook event ${eventId} processing error`, err as any));
+    });
+    return { received: true, duplicate: false };
+  }
+
+  // Runs the handlers for a stored event and records processed / ignored / failed
+  async process(id: number): Promise<PaymentEvent> {
+    const row = await this.eventRepo.findOne({ where: { id } });
+    if (!row) throw new NotFoundException('Payment event not found');
+
+    row.attempts = (row.attempts ?? 0) + 1;
+    try {
+      const handled =
+        (await this.refundsService.handleWebhook(row.payload)) ||
+        (await this.subscriptionsService.handleWebhook(row.payload)) ||
+        (await this.paymentsService.handleWebhook(row.payload));
+      row.status = handled ? 'processed' : 'ignored';
+      row.lastError = null;
+      row.processedAt = new Date();
+    } catch (err: any) {
+      row.status = 'failed';
+      row.lastError = String(err?.message ?? err).slice(0, 2000);
+      this.logger.warn(`Webhook event ${row.eventId} (${row.eventType}) failed: ${row.lastError}`);
+    }
+    return this.eventRepo.save(row);
+  }
+
+  async retry(id: number): Promise<PaymentEvent> {
+    const row = await this.eventRepo.findOne({ where: { id } });
+    if (!row) throw new NotFoundException('Payment event not found');
+    if (row.status === 'processed') throw new BadRequestException('Event already processed');
+    if (row.status === 'received' && Date.now() - new Date(row.receivedAt).getTime() < IN_FLIGHT_MS) {
+      throw new BadRequestException('Event is still being processed');
+    }
+    return this.process(id);
+  }
+
+  async get(id: number) {
+    const row = await this.eventRepo.findOne({ where: { id } });
+    if (!row) throw new NotFoundException('Payment event not found');
+    return PaymentEventsService.toView(row, true);
+  }
+
+  async list(opts: { status?: string; type?: string; limit?: number } = {}) {
+    const qb = this.eventRepo.createQueryBuilder('e').orderBy('e.received_at', 'DESC').take(Math.min(200, Math.max(1, opts.limit ?? 50)));
+    if (opts.status) qb.andWhere('e.status IN (:...statuses)', { statuses: String(opts.status).split(',') });
+    if (opts.type) qb.andWhere('e.event_type = :type', { type: opts.type });
+    const rows = await qb.getMany();
+    return rows.map((e) => PaymentEventsService.toView(e));
+  }
+}
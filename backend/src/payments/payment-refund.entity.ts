@@ -0,0 +1,54 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+
+// PayPal refund status, lowercased
+export type RefundStatus = 'pending' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * One PayPal refund (full or partial) of a payment. Rows come from admin-initiated refunds and
+ * from refund / reversal webhooks; only completed refunds count towards payments.refunded_amount.
+ */
+@Index('ux_payment_refunds_paypal_refund_id', ['paypalRefundId'], { unique: true })
+@Index('idx_payment_refunds_payment_id', ['paymentId'])
+@Entity({ name: 'payment_refunds' })
+export class PaymentRefund {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'payment_id', type: 'int' })
+  paymentId: number;
+
+  @Column({ name: 'user_id', type: 'int', nullable: true })
+  user_id: number | null;
+
+  @Column({ name: 'paypal_refund_id', type: 'varchar', length: 128 })
+  paypalRefundId: string;
+
+  @Column({ name: 'amount', type: 'numeric', precision: 12, scale: 2 })
+  amount: number;
+
+  @Column({ name: 'currency', type: 'varchar', length: 8, default: 'USD' })
+  currency: string;
+
+  @Column({ name: 'status', type: 'varchar', length: 32, default: 'pending' })
+  status: RefundStatus;
+
+  @Column({ name: 'reason', type: 'text', nullable: true })
+  reason: string | null;
+
+  // admin email, or 'paypal' for refunds and reversals first seen in a webhook
+  @Column({ name: 'initiated_by', type: 'varchar', length: 255, nullable: true })
+  initiatedBy: string | null;
+
+  // set once the refund has been applied to refunded_amount and the user's plan
+  @Column({ name: 'applied_at', type: 'timestamptz', nullable: true })
+  appliedAt: Date | null;
+
+  @Column({ name: 'raw', type: 'jsonb', nullable: true })
+  raw: any;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
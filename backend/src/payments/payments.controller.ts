@@ -1,13 +1,23 @@
-import { Controller, Post, Body, UseGuards, Req, Get, Param, Res, HttpCode, Logger, BadRequestException, HttpException, Delete, NotFoundException } from "@nestjs/common";
+import { Controller, Post, Body, UseGuards, Req, Get, Param, Query, HttpCode, Logger, BadRequestException, HttpException, Delete, NotFoundException, RawBodyRequest } from "@nestjs/common";
 import { JwtAuthGuard } from "../auth/jwt-auth.guard";
 import { PaymentsService } from "./payments.service";
-import { Request, Response } from "express";
+import { SubscriptionsService } from "./subscriptions.service";
+import { PaymentEventsService } from "./payment-events.service";
+import { RefundsService } from "./refunds.service";
+import { PlanChangesService } from "./plan-changes.service";
+import { Request } from "express";
 
 @Controller("api/payments")
 export class PaymentsController {
   private readonly logger = new Logger(PaymentsController.name);
 
-  constructor(private readonly paymentsService: PaymentsService) {}
+  constructor(
+    private readonly paymentsService: PaymentsService,
+    private readonly subscriptionsService: SubscriptionsService,
+    private readonly paymentEventsService: PaymentEventsService,
+    private readonly refundsService: RefundsService,
+    private readonly planChangesService: PlanChangesService,
+  ) {}
 
   private getUserIdFromReq(req: Request): number {
     const user = (req as any).user ?? {};
@@ -100,6 +110,7 @@ export class PaymentsController {
       this.logger.debug(`[payments.controller] createPending created/returned payment id=${payment?.id ?? "null"} user=${userId} created_at=${date ?? "unknown"}`);
       return { payment, paymentId: payment.id ?? null };
     } catch (err: any) {
+      if (err instanceof HttpException) throw err;
       this.logger.warn("[payments] createPending failed", (err as any)?.message ?? err);
       throw new HttpException({ statusCode: 500, message: "Failed to create pending invoice", error: (err as any)?.message ?? String(err) }, 500);
     }
@@ -152,6 +163,7 @@ export class PaymentsController {
   async invoices(@Req() req: Request) {
     const userId = this.getUserIdFromReq(req);
     const items = await this.paymentsService.listInvoicesForUserCurated(userId);
+    const refunds = await this.refundsService.byPayment(items.map((it) => Number(it.id)).filter((id) => Number.isInteger(id)));
     return items.map((it) => ({
       id: it.id,
       date: it.date,
@@ -162,6 +174,8 @@ export class PaymentsController {
       reason: it.reason ?? null,
       change_to: it.change_to ?? null,
       plan: it.plan ?? null,
+      refunded_amount: it.refunded_amount ?? "0.00",
+      refunds: refunds.get(Number(it.id)) ?? [],
     }));
   }
 
@@ -173,6 +187,63 @@ export class PaymentsController {
     return pm;
   }
 
+  /* ---------- Recurring subscriptions (PayPal Billing Plans) ---------- */
+
+  // Returns the subscription with approve_url; the client redirects the buyer there
+  @Post("subscriptions")
+  @UseGuards(JwtAuthGuard)
+  async createSubscription(@Req() req: Request, @Body() body: { plan: string; billingPeriod?: string }) {
+    const userId = this.getUserIdFromReq(req);
+    return this.subscriptionsService.createSubscription(userId, body?.plan, body?.billingPeriod ?? "monthly");
+  }
+
+  // Called from the PayPal return URL (?subscription_id=...) to activate without waiting for the webhook
+  @Post("subscriptions/:subscriptionId/confirm")
+  @UseGuards(JwtAuthGuard)
+  async confirmSubscription(@Req() req: Request, @Param("subscriptionId") subscriptionId: string) {
+    const userId = this.getUserIdFromReq(req);
+    return this.subscriptionsService.confirm(userId, subscriptionId);
+  }
+
+  @Get("subscription")
+  @UseGuards(JwtAuthGuard)
+  async subscription(@Req() req: Request) {
+    const userId = this.getUserIdFromReq(req);
+    return this.subscriptionsService.getView(userId);
+  }
+
+  /* ---------- Plan changes (proration) ---------- */
+
+  // Prorated price of switching to plan / billingPeriod now (downgrades: date they take effect)
+  @Get("plan-change/quote")
+  @UseGuards(JwtAuthGuard)
+  async planChangeQuote(@Req() req: Request, @Query("plan") plan: string, @Query("billingPeriod") billingPeriod?: string) {
+    const userId = this.getUserIdFromReq(req);
+    return this.planChangesService.quoteView(userId, plan, billingPeriod ?? "monthly");
+  }
+
+  @Get("plan-change")
+  @UseGuards(JwtAuthGuard)
+  async scheduledPlanChange(@Req() req: Request) {
+    const userId = this.getUserIdFromReq(req);
+    return { scheduled: await this.planChangesService.current(userId) };
+  }
+
+  // Changes that need no payment: schedules a downgrade, or applies an upgrade the credit covers
+  @Post("plan-change")
+  @UseGuards(JwtAuthGuard)
+  async requestPlanChange(@Req() req: Request, @Body() body: { plan: string; billingPeriod?: string }) {
+    const userId = this.getUserIdFromReq(req);
+    return this.planChangesService.request(userId, body?.plan, body?.billingPeriod ?? "monthly");
+  }
+
+  @Delete("plan-change")
+  @UseGuards(JwtAuthGuard)
+  async cancelPlanChange(@Req() req: Request) {
+    const userId = this.getUserIdFromReq(req);
+    return { cancelled: await this.planChangesService.cancelScheduled(userId) };
+  }
+
   @Get(":id")
   @UseGuards(JwtAuthGuard)
   async getPayment(@Req() req: Request, @Param("id") id: string) {
@@ -182,10 +253,10 @@ export class PaymentsController {
       // If identifier is not numeric, attempt to find by other keys as fallback
       const found = await this.paymentsService.findPaymentForUserByAny(userId, id);
       if (!found) throw new NotFoundException("Payment not found");
-      return found;
+      return { ...found, refunds: await this.refundsService.listForPayment(found.id) };
     }
     const p = await this.paymentsService.getPaymentForUser(userId, parsed);
-    return p;
+    return { ...p, refunds: await this.refundsService.listForPayment(p.id) };
   }
 
   // New: find by identifier (more flexible search)
@@ -195,7 +266,7 @@ export class PaymentsController {
     const userId = this.getUserIdFromReq(req);
     const found = await this.paymentsService.findPaymentForUserByAny(userId, identifier);
     if (!found) throw new NotFoundException("Payment not found");
-    return found;
+    return { ...found, refunds: await this.refundsService.listForPayment(found.id) };
   }
 
   @Get("check-access")
@@ -244,36 +315,31 @@ export class PaymentsController {
   @Post("portal")
   @UseGuards(JwtAuthGuard)
   async portal(@Req() req: Request) {
-    this.getUserIdFromReq(req);
-    return { url: null };
+    const userId = this.getUserIdFromReq(req);
+    return { url: await this.subscriptionsService.getPortalUrl(userId) };
   }
 
+  // Stops auto-renewal; the plan stays until the end of the paid period
   @Post("cancel")
   @UseGuards(JwtAuthGuard)
-  async cancel(@Req() req: Request) {
-    this.getUserIdFromReq(req);
-    return { message: "Cancellation via PayPal is handled by PayPal subscriptions. Contact support." };
+  async cancel(@Req() req: Request, @Body() body: { reason?: string }) {
+    const userId = this.getUserIdFromReq(req);
+    return this.subscriptionsService.cancel(userId, body?.reason ?? null);
   }
 
+  // Resumes a suspended subscription, or returns a new one (with approve_url) for a cancelled one
   @Post("reactivate")
   @UseGuards(JwtAuthGuard)
   async reactivate(@Req() req: Request) {
-    this.getUserIdFromReq(req);
-    return { message: "Reactivation via PayPal subscriptions must be managed in PayPal. Contact support." };
+    const userId = this.getUserIdFromReq(req);
+    return this.subscriptionsService.reactivate(userId);
   }
 
+  // PayPal webhook: signature-verified and recorded in payment_events before processing
   @Post("webhook")
   @HttpCode(200)
-  async webhook(@Req() req: Request, @Res() res: Response) {
-    const event = req.body;
-    setImmediate(async () => {
-      try {
-        await this.paymentsService.handleWebhook(event);
-      } catch (err) {
-        this.logger.warn("Webhook handler background error", err as any);
-      }
-    });
-    res.json({ received: true });
+  async webhook(@Req() req: RawBodyRequest<Request>) {
+    return this.paymentEventsService.ingest(req.headers as any, req.rawBody, req.body);
   }
 
   @Get("debug/recent")
@@ -36,6 +36,10 @@ export class Payment {
   @Column({ name: 'status', type: 'varchar', length: 32, default: 'pending' })
   status: string;
 
+  // sum of completed refunds; status becomes partially_refunded / refunded
+  @Column({ name: 'refunded_amount', type: 'numeric', precision: 12, scale: 2, default: 0 })
+  refundedAmount: number;
+
   @Column({ name: 'payer_email', type: 'varchar', length: 256, nullable: true })
   payerEmail: string | null;
 
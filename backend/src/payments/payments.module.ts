@@ -1,14 +1,26 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { PaymentsController } from './payments.controller';
+import { AdminPaymentEventsController } from './payment-events.controller';
+import { AdminRefundsController } from './refunds.controller';
 import { PaymentsService } from './payments.service';
+import { SubscriptionsService } from './subscriptions.service';
+import { PaymentEventsService } from './payment-events.service';
+import { RefundsService } from './refunds.service';
+import { PlanChangesService } from './plan-changes.service';
+import { PaypalWebhookVerifier } from './paypal-webhook-verifier';
 import { Payment } from './payments.entity';
+import { Subscription } from './subscription.entity';
+import { PaypalBillingPlan } from './billing-plan.entity';
+import { PaymentEvent } from './payment-event.entity';
+import { PaymentRefund } from './payment-refund.entity';
+import { PlanChange } from './plan-change.entity';
 import { User } from '../user/user.entity';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Payment, User])],
-  controllers: [PaymentsController],
-  providers: [PaymentsService],
-  exports: [PaymentsService], // <-- export service so other modules/guards can inject it
+  imports: [TypeOrmModule.forFeature([Payment, User, Subscription, PaypalBillingPlan, PaymentEvent, PaymentRefund, PlanChange])],
+  controllers: [PaymentsController, AdminPaymentEventsController, AdminRefundsController],
+  providers: [PaymentsService, SubscriptionsService, PlanChangesService, RefundsService, PaymentEventsService, PaypalWebhookVerifier],
+  exports: [PaymentsService, SubscriptionsService], // <-- export service so other modules/guards can inject it
 })
-export class PaymentsModule {}
\ No newline at end of file
+export class PaymentsModule {}
@@ -8,6 +8,7 @@ import { Repository, DataSource, In } from "typeorm";
 import { Payment } from "./payments.entity";
 import { createOrderOnPayPal, captureOrderOnPayPal, getOrderOnPayPal } from "./paypal.client";
 import { User } from "../user/user.entity";
+import { PlanChangesService } from "./plan-changes.service";
 
 /**
  * Shape of the access info returned by getAccessInfo / checkAccess.
@@ -32,9 +33,10 @@ export interface InvoiceDTO {
   currency: string;
   status: string;
   receipt_url: string;
-  reason?: "change_plan" | "past_due" | "next_due" | "regular" | "unknown";
+  reason?: "change_plan" | "past_due" | "next_due" | "regular" | "renewal" | "unknown";
   change_to?: string | null;
   plan?: string | null;
+  refunded_amount?: string;
   raw?: any;
 }
 
@@ -46,6 +48,7 @@ export class PaymentsService {
     @InjectRepository(Payment)
     private readonly paymentRepo: Repository<Payment>,
     private readonly dataSource: DataSource,
+    private readonly planChangesService: PlanChangesService,
   ) {}
 
   /* ---------- Helpers ---------- */
@@ -58,17 +61,25 @@ export class PaymentsService {
     return Number(id);
   }
 
-  private mapPlanPrice(plan: string, billingPeriod?: string) {
-    const p = (plan || "Pro").toLowerCase();
-    if (p === "pro") {
-      if (billingPeriod === "yearly") return { amount: "99.00", currency: "USD" };
-      return { amount: "12.99", currency: "USD" };
+  // New raw payload for a payment row, keeping the __meta (reason, proration) written at creation
+  private withMeta(previousRaw: any, next: any): string {
+    let meta: any = null;
+    try {
+      meta = (typeof previousRaw === "string" ? JSON.parse(previousRaw) : previousRaw)?.__meta ?? null;
+    } catch {}
+    return JSON.stringify(meta ? { ...(next ?? {}), __meta: meta } : next);
+  }
+
+  // Server-side price for buying plan / billingPeriod now, prorated against the user's current plan
+  private async quoteCheckout(userId: number, plan: string, billingPeriod?: string) {
+    const quote = await this.planChangesService.quote(userId, plan, billingPeriod ?? "monthly");
+    if (quote.kind === "downgrade") {
+      throw new BadRequestException("Downgrades take effect at the end of your paid period. Schedule the change instead of paying for it.");
     }
-    if (p === "tutor") {
-      if (billingPeriod === "yearly") return { amount: "199.00", currency: "USD" };
-      return { amount: "24.99", currency: "USD" };
+    if (quote.amountDue <= 0) {
+      throw new BadRequestException("Your unused credit covers this change. Apply it without checkout.");
     }
-    return { amount: "0.00", currency: "USD" };
+    return quote;
   }
 
   private formatAmount(value: any): string {
@@ -254,14 +265,15 @@ export class PaymentsService {
 
   public async createOrder(userId: number, plan: string, billingPeriod?: string): Promise<{ payment: Payment; orderID: string }> {
     const uid = this.ensureValidUserId(userId);
-    const price = this.mapPlanPrice(plan, billingPeriod);
-    if (!price || Number(price.amount) <= 0) throw new BadRequestException("Invalid or free plan selected");
+    const quote = await this.quoteCheckout(uid, plan, billingPeriod);
+    plan = quote.toPlan;
+    const price = { amount: quote.amountDue.toFixed(2), currency: quote.currency };
 
     const pendingStatuses = ["pending", "created", "pending_capture", "authorized"];
 
     try {
       const existing = await this.paymentRepo.findOne({
-        where: { user_id: uid, plan: plan, status: In(pendingStatuses) } as any,
+        where: { user_id: uid, plan: plan, amount: Number(price.amount), status: In(pendingStatuses) } as any,
         order: { createdAt: "DESC" },
       });
 
@@ -286,19 +298,8 @@ export class PaymentsService {
       throw new Error("PayPal order creation failed");
     }
 
-    let reason: string | null = "regular";
-    let change_to: string | null = null;
-    try {
-      const userRepo = this.dataSource.getRepository(User);
-      const user = await userRepo.findOne({ where: { id: uid } } as any);
-      const currentPlan = user?.plan ?? null;
-      if (currentPlan && String(currentPlan).toLowerCase() !== String(plan).toLowerCase()) {
-        reason = "change_plan";
-        change_to = plan;
-      }
-    } catch (err) {
-      this.logger.debug("createOrder: unable to fetch user for reason detection", err as any);
-    }
+    const reason = quote.kind === "upgrade" ? "change_plan" : quote.kind === "renewal" ? "renewal" : "regular";
+    const change_to = quote.kind === "upgrade" ? plan : null;
 
     const now = new Date();
     const minuteBucket = new Date(now);
@@ -312,7 +313,7 @@ export class PaymentsService {
       currency: price.currency,
       paypal_order_id: orderID,
       status: "pending",
-      raw: JSON.stringify({ __meta: { reason, change_to } }),
+      raw: JSON.stringify({ __meta: { reason, change_to, proration: PlanChangesService.toMeta(quote) } }),
       created_at: now,
       created_at_minute: minuteBucket,
       updated_at: now,
@@ -361,15 +362,15 @@ export class PaymentsService {
     reason?: string | null,
   ) {
     const uid = this.ensureValidUserId(userId);
-    const planName = plan ?? "Pro";
     const billing = billingPeriod ?? "monthly";
+    const quote = await this.quoteCheckout(uid, plan ?? "Pro", billing);
+    const planName = quote.toPlan;
 
-    const price = (() => {
-      try {
-        if (amount && String(amount).trim() !== "") return { amount: this.formatAmount(amount), currency: "USD" };
-      } catch {}
-      return this.mapPlanPrice(planName, billing);
-    })();
+    // The amount is always the server quote; a client amount that disagrees is only logged
+    const price = { amount: quote.amountDue.toFixed(2), currency: quote.currency };
+    if (amount && String(amount).trim() !== "" && this.formatAmount(amount) !== price.amount) {
+      this.logger.debug(`createPendingPayment: client amount ${amount} differs from quote ${price.amount} for user=${uid}`);
+    }
 
     let nowIso = new Date().toISOString();
     if (createdAt) {
@@ -382,7 +383,7 @@ export class PaymentsService {
     const minuteBucket = new Date(createdAtDate);
     minuteBucket.setSeconds(0, 0);
 
-    const rawMeta: any = { __meta: { reason: reason ?? "regular", change_to: planName } };
+    const rawMeta: any = { __meta: { reason: reason ?? "regular", change_to: planName, proration: PlanChangesService.toMeta(quote) } };
     if (clientTempId && String(clientTempId).trim() !== "") {
       rawMeta.__meta.client_temp_id = String(clientTempId);
     }
@@ -677,7 +678,7 @@ export class PaymentsService {
       payment.status = (status ?? payment.status ?? "completed").toLowerCase();
       payment.amount = Number(amountVal ?? payment.amount);
       payment.currency = currency ?? payment.currency;
-      payment.raw = JSON.stringify(captureResult);
+      payment.raw = this.withMeta(payment.raw, captureResult);
       payment.payerEmail = captureResult?.payer?.email_address ?? payment.payerEmail;
       payment.payerName =
         captureResult?.payer?.name?.given_name ? `${captureResult.payer.name.given_name} ${captureResult.payer.name.surname ?? ""}` : payment.payerName;
@@ -689,26 +690,7 @@ export class PaymentsService {
     // Update user plan and expiry if payment is finalized
     try {
       const isFinal = ["completed", "captured", "succeeded", "paid"].includes(String(payment.status).toLowerCase());
-      if (isFinal) {
-        const userRepo = this.dataSource.getRepository(User);
-        const user = await userRepo.findOne({ where: { id: uid } } as any);
-        if (user) {
-          const planName = (payment as any).plan || user.plan || "Pro";
-          const billing = (payment as any).billingPeriod || "monthly";
-          user.plan = planName;
-          const now = new Date();
-          if (billing === "monthly") {
-            now.setDate(now.getDate() + 30);
-            user.plan_expiry = now;
-          } else if (billing === "yearly") {
-            now.setFullYear(now.getFullYear() + 1);
-            user.plan_expiry = now;
-          } else {
-            user.plan_expiry = null;
-          }
-          await userRepo.save(user);
-        }
-      }
+      if (isFinal) await this.planChangesService.applyPaid(uid, payment as Payment);
     } catch (err) {
       this.logger.warn("Failed to update user plan after capture", err as any);
     }
@@ -725,7 +707,7 @@ export class PaymentsService {
     const uid = this.ensureValidUserId(userId);
     const all = await this.paymentRepo.find({ where: { user_id: uid }, order: { createdAt: "DESC" } });
     const pendingStatuses = ["pending", "created", "pending_capture", "authorized"];
-    const paidStatuses = ["completed", "captured", "succeeded", "success", "paid"];
+    const paidStatuses = ["completed", "captured", "succeeded", "success", "paid", "partially_refunded", "refunded"];
 
     const pendingRows = all.filter((r) => pendingStatuses.includes(String(r.status).toLowerCase()));
     const paidRows = all.filter((r) => paidStatuses.includes(String(r.status).toLowerCase())).slice(0, paidLimit);
@@ -786,6 +768,7 @@ export class PaymentsService {
         reason,
         change_to,
         plan: p.plan ?? null,
+        refunded_amount: this.formatAmount(p.refundedAmount),
         raw: p.raw ? (typeof p.raw === "string" ? JSON.parse(p.raw) : p.raw) : null,
       };
     };
@@ -938,7 +921,8 @@ export class PaymentsService {
         if (!isNaN(expiry.getTime()) && expiry.getTime() > Date.now()) activeSubscription = true;
       }
 
-      const allowedStatuses = ["completed", "captured", "succeeded", "success", "paid"];
+      // a partial refund keeps the payment; a full refund does not count
+      const allowedStatuses = ["completed", "captured", "succeeded", "success", "paid", "partially_refunded"];
       const found = await this.paymentRepo.findOne({
         where: { user_id: userId, status: In(allowedStatuses) } as any,
         order: { createdAt: "DESC" },
@@ -973,10 +957,11 @@ export class PaymentsService {
     }
   }
 
-  public async handleWebhook(event: any) {
+  // Returns false for event types it does not handle; errors are rethrown so the event ledger can mark the event failed
+  public async handleWebhook(event: any): Promise<boolean> {
     try {
       const eventType = event?.event_type ?? event?.type ?? null;
-      if (!eventType) return;
+      if (!eventType) return false;
 
       if (["CHECKOUT.ORDER.APPROVED", "PAYMENT.CAPTURE.COMPLETED", "PAYMENT.CAPTURE.DENIED", "PAYMENT.CAPTURE.PENDING"].includes(eventType)) {
         const resource = event.resource ?? {};
@@ -987,10 +972,10 @@ export class PaymentsService {
           const payment = await this.paymentRepo.findOne({ where: { paypalCaptureId: captureId } });
           if (payment) {
             payment.status = (resource?.status ?? payment.status ?? "completed").toLowerCase();
-            payment.raw = JSON.stringify(event);
+            payment.raw = this.withMeta(payment.raw, event);
             await this.paymentRepo.save(payment);
           }
-          return;
+          return true;
         }
 
         if (orderId) {
@@ -1007,7 +992,7 @@ export class PaymentsService {
             payment.status = (cap?.status ?? order.status ?? payment.status ?? "completed").toLowerCase();
             payment.payerEmail = order?.payer?.email_address ?? payment.payerEmail;
             payment.payerName = order?.payer?.name?.given_name ? `${order.payer.name.given_name} ${order.payer.name.surname ?? ""}` : payment.payerName;
-            payment.raw = JSON.stringify(order || event);
+            payment.raw = this.withMeta(payment.raw, order || event);
             await this.paymentRepo.save(payment);
           } else {
             // Try to find a pending row to attach to (minute-bucket / amount heuristics).
@@ -1041,34 +1026,17 @@ export class PaymentsService {
               foundPending.status = (cap?.status ?? order.status ?? foundPending.status ?? "completed").toLowerCase();
               foundPending.payerEmail = order?.payer?.email_address ?? foundPending.payerEmail;
               foundPending.payerName = order?.payer?.name?.given_name ? `${order.payer.name.given_name} ${order.payer.name.surname ?? ""}` : foundPending.payerName;
-              foundPending.raw = JSON.stringify(order || event);
+              foundPending.raw = this.withMeta(foundPending.raw, order || event);
               await this.paymentRepo.save(foundPending);
 
               // Update user plan/expiry
               try {
-                const userRepo = this.dataSource.getRepository(User);
-                const user = await userRepo.findOne({ where: { id: foundPending.user_id } } as any);
-                if (user) {
-                  const planName = foundPending.plan || user.plan || "Pro";
-                  const billing = foundPending.billingPeriod || "monthly";
-                  user.plan = planName;
-                  const now = new Date();
-                  if (billing === "monthly") {
-                    now.setDate(now.getDate() + 30);
-                    user.plan_expiry = now;
-                  } else if (billing === "yearly") {
-                    now.setFullYear(now.getFullYear() + 1);
-                    user.plan_expiry = now;
-                  } else {
-                    user.plan_expiry = null;
-                  }
-                  await userRepo.save(user);
-                }
+                await this.planChangesService.applyPaid(foundPending.user_id as number, foundPending);
               } catch (err) {
                 this.logger.warn("handleWebhook: failed to update user plan after reconcilation", err as any);
               }
 
-              return;
+              return true;
             }
 
             // If no pending to attach, insert a new orphan payment row (no user_id)
@@ -1090,9 +1058,12 @@ export class PaymentsService {
             this.logger.debug(`handleWebhook: inserted payment created_at=${new Date().toISOString()}`);
           }
         }
+        return true;
       }
+      return false;
     } catch (err) {
       this.logger.warn("Webhook reconciliation failed", err as any);
+      throw err;
     }
   }
 
@@ -0,0 +1,106 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { KeyObject, X509Certificate, createPublicKey, verify } from 'crypto';
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(buf: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) crc = CRC32_TABLE[(crc ^ buf[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// PayPal only serves its signing certs from its own hosts
+function isPayPalCertUrl(url: string): boolean {
+  try {
+    const u = new URL(url);
+    return u.protocol === 'https:' && (u.hostname === 'paypal.com' || u.hostname.endsWith('.paypal.com'));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verifies PayPal webhook deliveries offline: the PAYPAL-TRANSMISSION-SIG header is an
+ * RSA-SHA256 signature over "<transmission id>|<transmission time>|<webhook id>|<crc32 of raw body>",
+ * checked against the certificate at PAYPAL-CERT-URL (cached per URL).
+ *
+ * Env: PAYPAL_WEBHOOK_ID (required); PAYPAL_WEBHOOK_VERIFY=false skips verification outside
+ * production, for the local PayPal stub.
+ */
+@Injectable()
+export class PaypalWebhookVerifier {
+  private readonly logger = new Logger(PaypalWebhookVerifier.name);
+  private readonly certs = new Map<string, KeyObject>();
+
+  constructor(private readonly config: ConfigService) {}
+
+  // 'skipped' only when verification is disabled; throws BadRequestException on a bad delivery
+  async verify(headers: Record<string, any>, rawBody: Buffer): Promise<'verified' | 'skipped'> {
+    if (String(this.config.get('PAYPAL_WEBHOOK_VERIFY') ?? '').toLowerCase() === 'false' && process.env.NODE_ENV !== 'production') {
+      return 'skipped';
+    }
+
+    const webhookId = this.config.get<string>('PAYPAL_WEBHOOK_ID');
+    if (!webhookId) {
+      this.logger.error('PAYPAL_WEBHOOK_ID is not set; rejecting webhook');
+      throw new BadRequestException('Webhook verification is not configured');
+    }
+
+    const header = (name: string) => {
+      const v = headers?.[name] ?? headers?.[name.toLowerCase()];
+      return Array.isArray(v) ? String(v[0]) : v != null ? String(v) : '';
+    };
+    const transmissionId = header('paypal-transmission-id');
+    const transmissionTime = header('paypal-transmission-time');
+    const signature = header('paypal-transmission-sig');
+    const certUrl = header('paypal-cert-url');
+    const authAlgo = header('paypal-auth-algo');
+    if (!transmissionId || !transmissionTime || !signature || !certUrl) {
+      throw new BadRequestException('Missing PayPal transmission headers');
+    }
+    if (authAlgo && authAlgo.toUpperCase() !== 'SHA256WITHRSA') {
+      throw new BadRequestException(`Unsupported auth algorithm ${authAlgo}`);
+    }
+    if (!isPayPalCertUrl(certUrl)) throw new BadRequestException('Untrusted certificate URL');
+
+    const key = await this.loadCert(certUrl);
+    const message = `${transmissionId}|${transmissionTime}|${webhookId}|${crc32(rawBody)}`;
+    const ok = verify('sha256', Buffer.from(message), key, Buffer.from(signature, 'base64'));
+    if (!ok) {
+      this.logger.warn(`Webhook signature mismatch for transmission ${transmissionId}`);
+      throw new BadRequestException('Invalid webhook signature');
+    }
+    return 'verified';
+  }
+
+  protected async loadCert(url: string): Promise<KeyObject> {
+    const cached = this.certs.get(url);
+    if (cached) return cached;
+    let pem: string;
+    try {
+      const res = await axios.get<string>(url, { responseType: 'text', timeout: 10000 });
+      pem = String(res.data);
+    } catch (err: any) {
+      this.logger.warn(`Failed to download PayPal cert ${url}: ${err?.message ?? err}`);
+      throw new BadRequestException('Unable to load PayPal certificate');
+    }
+    const cert = new X509Certificate(pem);
+    const now = Date.now();
+    if (now < Date.parse(cert.validFrom) || now > Date.parse(cert.validTo)) {
+      throw new BadRequestException('PayPal certificate is not currently valid');
+    }
+    const key = createPublicKey(pem);
+    this.certs.set(url, key);
+    return key;
+  }
+}
@@ -1,14 +1,17 @@
 import axios from 'axios';
 import * as qs from 'querystring';
 
-const MODE = process.env.PAYPAL_MODE === 'live' ? 'live' : 'sandbox';
-const BASE = MODE === 'live' ? 'https://api-m.paypal.com' : 'https://api-m.sandbox.paypal.com';
+// PAYPAL_API_BASE points the client at another host (e.g. the local stub from `npm run paypal:stub`)
+function apiBase(): string {
+  if (process.env.PAYPAL_API_BASE) return process.env.PAYPAL_API_BASE.replace(/\/$/, '');
+  return process.env.PAYPAL_MODE === 'live' ? 'https://api-m.paypal.com' : 'https://api-m.sandbox.paypal.com';
+}
 
 async function getAccessToken(): Promise<string> {
   const clientId = process.env.PAYPAL_CLIENT_ID;
   const clientSecret = process.env.PAYPAL_CLIENT_SECRET;
   if (!clientId || !clientSecret) throw new Error('PayPal credentials missing');
-  const tokenUrl = `${BASE}/v1/oauth2/token`;
+  const tokenUrl = `${apiBase()}/v1/oauth2/token`;
   const basic = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
   const body = qs.stringify({ grant_type: 'client_credentials' });
   const res = await axios.post(tokenUrl, body, {
@@ -17,30 +20,85 @@ async function getAccessToken(): Promise<string> {
   return res.data.access_token as string;
 }
 
+// requestId is sent as PayPal-Request-Id so a retried create returns the original resource
+async function authHeaders(requestId?: string) {
+  const token = await getAccessToken();
+  const headers: Record<string, string> = { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' };
+  if (requestId) headers['PayPal-Request-Id'] = requestId;
+  return headers;
+}
+
 export async function createOrderOnPayPal(
   purchaseUnits: any[],
   intent: 'CAPTURE' | 'AUTHORIZE' = 'CAPTURE',
 ) {
-  const token = await getAccessToken();
-  const url = `${BASE}/v2/checkout/orders`;
-  const res = await axios.post(
-    url,
-    { intent, purchase_units: purchaseUnits },
-    { headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' } },
-  );
+  const url = `${apiBase()}/v2/checkout/orders`;
+  const res = await axios.post(url, { intent, purchase_units: purchaseUnits }, { headers: await authHeaders() });
   return res.data;
 }
 
 export async function captureOrderOnPayPal(orderID: string) {
-  const token = await getAccessToken();
-  const url = `${BASE}/v2/checkout/orders/${encodeURIComponent(orderID)}/capture`;
-  const res = await axios.post(url, {}, { headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' } });
+  const url = `${apiBase()}/v2/checkout/orders/${encodeURIComponent(orderID)}/capture`;
+  const res = await axios.post(url, {}, { headers: await authHeaders() });
   return res.data;
 }
 
 export async function getOrderOnPayPal(orderID: string) {
-  const token = await getAccessToken();
-  const url = `${BASE}/v2/checkout/orders/${encodeURIComponent(orderID)}`;
-  const res = await axios.get(url, { headers: { Authorization: `Bearer ${token}` } });
+  const url = `${apiBase()}/v2/checkout/orders/${encodeURIComponent(orderID)}`;
+  const res = await axios.get(url, { headers: await authHeaders() });
+  return res.data;
+}
+
+/* ---------- Catalog products / billing plans / subscriptions ---------- */
+
+export async function createProductOnPayPal(product: { name: string; description?: string; type?: string; category?: string }, requestId?: string) {
+  const url = `${apiBase()}/v1/catalogs/products`;
+  const res = await axios.post(url, { type: 'SERVICE', category: 'EDUCATIONAL_AND_TEXTBOOKS', ...product }, { headers: await authHeaders(requestId) });
+  return res.data;
+}
+
+export async function createBillingPlanOnPayPal(plan: any, requestId?: string) {
+  const url = `${apiBase()}/v1/billing/plans`;
+  const res = await axios.post(url, plan, { headers: await authHeaders(requestId) });
+  return res.data;
+}
+
+export async function createSubscriptionOnPayPal(subscription: any, requestId?: string) {
+  const url = `${apiBase()}/v1/billing/subscriptions`;
+  const res = await axios.post(url, subscription, { headers: await authHeaders(requestId) });
+  return res.data;
+}
+
+export async function getSubscriptionOnPayPal(subscriptionId: string) {
+  const url = `${apiBase()}/v1/billing/subscriptions/${encodeURIComponent(subscriptionId)}`;
+  const res = await axios.get(url, { headers: await authHeaders() });
+  return res.data;
+}
+
+export async function cancelSubscriptionOnPayPal(subscriptionId: string, reason: string) {
+  const url = `${apiBase()}/v1/billing/subscriptions/${encodeURIComponent(subscriptionId)}/cancel`;
+  await axios.post(url, { reason }, { headers: await authHeaders() });
+}
+
+// Resumes a SUSPENDED subscription (cancelled ones cannot be reactivated on PayPal)
+export async function activateSubscriptionOnPayPal(subscriptionId: string, reason: string) {
+  const url = `${apiBase()}/v1/billing/subscriptions/${encodeURIComponent(subscriptionId)}/activate`;
+  await axios.post(url, { reason }, { headers: await authHeaders() });
+}
+
+/* ---------- Refunds ---------- */
+
+// Omit amount for a full refund of the capture
+export async function refundCaptureOnPayPal(captureId: string, refund: { amount?: { value: string; currency_code: string }; note_to_payer?: string }, requestId?: string) {
+  const url = `${apiBase()}/v2/payments/captures/${encodeURIComponent(captureId)}/refund`;
+  const headers = { ...(await authHeaders(requestId)), Prefer: 'return=representation' };
+  const res = await axios.post(url, refund, { headers });
   return res.data;
-}
\ No newline at end of file
+}
+
+// Subscription payments are v1 sales, refunded through the sale API
+export async function refundSaleOnPayPal(saleId: string, refund: { amount?: { total: string; currency: string }; description?: string }, requestId?: string) {
+  const url = `${apiBase()}/v1/payments/sale/${encodeURIComponent(saleId)}/refund`;
+  const res = await axios.post(url, refund, { headers: await authHeaders(requestId) });
+  return res.data;
+}
@@ -0,0 +1,54 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+export type PlanChangeStatus = 'scheduled' | 'applied' | 'cancelled';
+
+/**
+ * A mid-cycle plan change. Upgrades are applied when paid (or at once when the credit covers
+ * them); downgrades stay scheduled until effective_at, the end of the paid period.
+ */
+@Index('idx_plan_changes_user_status', ['user_id', 'status'])
+@Entity({ name: 'plan_changes' })
+export class PlanChange {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'user_id', type: 'int' })
+  user_id: number;
+
+  @Column({ name: 'from_plan', type: 'varchar', length: 64, nullable: true })
+  fromPlan: string | null;
+
+  @Column({ name: 'from_period', type: 'varchar', length: 32, nullable: true })
+  fromPeriod: string | null;
+
+  @Column({ name: 'to_plan', type: 'varchar', length: 64 })
+  toPlan: string;
+
+  @Column({ name: 'to_period', type: 'varchar', length: 32 })
+  toPeriod: string;
+
+  // upgrade | downgrade (see PlanChangeKind)
+  @Column({ name: 'kind', type: 'varchar', length: 16 })
+  kind: string;
+
+  @Column({ name: 'amount', type: 'numeric', precision: 12, scale: 2, default: 0 })
+  amount: number;
+
+  @Column({ name: 'credit', type: 'numeric', precision: 12, scale: 2, default: 0 })
+  credit: number;
+
+  @Column({ name: 'status', type: 'varchar', length: 16, default: 'scheduled' })
+  status: PlanChangeStatus;
+
+  @Column({ name: 'effective_at', type: 'timestamptz' })
+  effectiveAt: Date;
+
+  @Column({ name: 'payment_id', type: 'int', nullable: true })
+  paymentId: number | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @Column({ name: 'applied_at', type: 'timestamptz', nullable: true })
+  appliedAt: Date | null;
+}
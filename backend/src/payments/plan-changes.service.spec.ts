@@ -0,0 +1,147 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { PlanChangesService } from './plan-changes.service';
+import { PlanChange } from './plan-change.entity';
+import { Payment } from './payments.entity';
+import { Subscription } from './subscription.entity';
+import { User } from '../user/user.entity';
+import { quotePlanChange } from './plan-pricing';
+
+declare const describe: any;
+declare const beforeEach: any;
+declare const it: any;
+declare const expect: any;
+declare const jest: any;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Minimal in-memory repository: equality / In() / LessThanOrEqual() matching on where
+function memoryRepo(rows: any[]) {
+  let nextId = rows.length + 1;
+  const test = (value: any, v: any) => {
+    if (v && v._type === 'in') return v._value.includes(value);
+    if (v && v._type === 'lessThanOrEqual') return value <= v._value;
+    return value === v;
+  };
+  const matches = (row: any, where: any = {}) => Object.entries(where).every(([k, v]) => test(row[k], v));
+  return {
+    rows,
+    create: jest.fn((x: any) => ({ ...x })),
+    save: jest.fn(async (x: any) => {
+      if (!x.id) {
+        x.id = nextId++;
+        x.createdAt = x.createdAt ?? new Date();
+        rows.push(x);
+      }
+      return x;
+    }),
+    findOne: jest.fn(async (opts: any) => rows.filter((r) => matches(r, opts?.where)).reverse()[0] ?? null),
+    find: jest.fn(async (opts: any) => rows.filter((r) => matches(r, opts?.where))),
+    count: jest.fn(async (opts: any) => rows.filter((r) => matches(r, opts?.where)).length),
+  };
+}
+
+describe('quotePlanChange', () => {
+  const now = new Date('2026-03-01T00:00:00Z');
+  const inDays = (d: number) => new Date(now.getTime() + d * DAY_MS);
+
+  it('credits the unused part of the current period against an upgrade', () => {
+    const q = quotePlanChange({ plan: 'Pro', expiry: inDays(15), period: 'monthly' }, 'Tutor', 'monthly', now);
+    expect(q.kind).toBe('upgrade');
+    expect(q.credit).toBe(6.5);
+    expect(q.amountDue).toBe(18.49);
+    expect(q.periodEnd).toEqual(inDays(30));
+  });
+
+  it('turns a credit larger than the new price into extra time', () => {
+    const q = quotePlanChange({ plan: 'Pro', expiry: inDays(300), period: 'yearly' }, 'Tutor', 'monthly', now);
+    expect(q.amountDue).toBe(0);
+    expect(q.extendMs).toBe(Math.round(30 * DAY_MS * (q.credit / 24.99)));
+  });
+
+  it('schedules downgrades for period end and stacks renewals on the current period', () => {
+    const down = quotePlanChange({ plan: 'Tutor', expiry: inDays(10), period: 'monthly' }, 'Pro', 'monthly', now);
+    expect(down).toEqual(expect.objectContaining({ kind: 'downgrade', amountDue: 0, effectiveAt: inDays(10), periodEnd: null }));
+
+    const renew = quotePlanChange({ plan: 'Pro', expiry: inDays(10), period: 'monthly' }, 'Pro', 'monthly', now);
+    expect(renew).toEqual(expect.objectContaining({ kind: 'renewal', amountDue: 12.99, periodEnd: inDays(40) }));
+
+    const lapsed = quotePlanChange({ plan: 'Tutor', expiry: inDays(-1), period: 'monthly' }, 'Pro', 'monthly', now);
+    expect(lapsed).toEqual(expect.objectContaining({ kind: 'new', credit: 0, amountDue: 12.99 }));
+  });
+});
+
+describe('PlanChangesService', () => {
+  let service: PlanChangesService;
+  let changes: ReturnType<typeof memoryRepo>;
+  let payments: ReturnType<typeof memoryRepo>;
+  let users: ReturnType<typeof memoryRepo>;
+  let subs: ReturnType<typeof memoryRepo>;
+  let user: any;
+
+  beforeEach(async () => {
+    user = { id: 7, plan: 'Tutor', plan_expiry: new Date(Date.now() + 10 * DAY_MS) };
+    changes = memoryRepo([]);
+    payments = memoryRepo([{ id: 1, user_id: 7, plan: 'Tutor', billingPeriod: 'monthly', status: 'completed', amount: 24.99 }]);
+    users = memoryRepo([user]);
+    subs = memoryRepo([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PlanChangesService,
+        { provide: getRepositoryToken(PlanChange), useValue: changes },
+        { provide: getRepositoryToken(Payment), useValue: payments },
+        { provide: getRepositoryToken(User), useValue: users },
+        { provide: getRepositoryToken(Subscription), useValue: subs },
+        { provide: ConfigService, useValue: { get: jest.fn(() => undefined) } },
+      ],
+    }).compile();
+
+    service = module.get<PlanChangesService>(PlanChangesService);
+  });
+
+  it('schedules a downgrade and applies it once due', async () => {
+    const res = await service.request(7, 'pro', 'monthly');
+    expect(res.change).toEqual(expect.objectContaining({ kind: 'downgrade', status: 'scheduled', to_plan: 'Pro' }));
+    expect(user.plan).toBe('Tutor');
+    await expect(service.request(7, 'Tutor', 'yearly')).rejects.toBeInstanceOf(BadRequestException);
+
+    changes.rows[0].effectiveAt = new Date(Date.now() - 1000);
+    expect(await service.applyDue()).toBe(1);
+    expect(user.plan).toBe('Pro');
+    expect(await service.current(7)).toBeNull();
+  });
+
+  it('applies the quoted time for a paid upgrade and drops a scheduled downgrade', async () => {
+    await service.request(7, 'Pro', 'monthly');
+    const quote = await service.quote(7, 'Tutor', 'yearly');
+    const payment: any = {
+      id: 2,
+      plan: 'Tutor',
+      billingPeriod: 'yearly',
+      amount: quote.amountDue,
+      raw: { __meta: { proration: PlanChangesService.toMeta(quote) } },
+    };
+
+    await service.applyPaid(7, payment);
+    expect(user.plan).toBe('Tutor');
+    expect(Math.abs(user.plan_expiry.getTime() - (Date.now() + quote.extendMs))).toBeLessThan(5000);
+    expect(changes.rows.map((r: any) => r.status)).toEqual(['cancelled', 'applied']);
+    expect(changes.rows[1]).toEqual(expect.objectContaining({ kind: 'upgrade', paymentId: 2 }));
+  });
+
+  it('grants a plain period when the capture is short of the quote', async () => {
+    const quote = await service.quote(7, 'Tutor', 'yearly');
+    await service.applyPaid(7, { id: 3, plan: 'Tutor', billingPeriod: 'monthly', amount: 1, raw: { __meta: { proration: PlanChangesService.toMeta(quote) } } } as any);
+    expect(Math.abs(user.plan_expiry.getTime() - (Date.now() + 30 * DAY_MS))).toBeLessThan(5000);
+    expect(changes.rows).toHaveLength(0);
+  });
+
+  it('leaves recurring subscribers to change plan through a new subscription', async () => {
+    subs.rows.push({ id: 1, user_id: 7, status: 'active' });
+    expect((await service.quoteView(7, 'Pro', 'monthly')).recurring).toBe(true);
+    await expect(service.request(7, 'Pro', 'monthly')).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
@@ -0,0 +1,313 @@
+import { BadRequestException, Injectable, Logger, NotFoundException, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectRepository } from "@nestjs/typeorm";
+import { In, LessThanOrEqual, Repository } from "typeorm";
+import { Payment } from "./payments.entity";
+import { PlanChange } from "./plan-change.entity";
+import { Subscription } from "./subscription.entity";
+import { User } from "../user/user.entity";
+import { LIVE_STATUSES } from "./subscriptions.service";
+import { PlanChangeQuote, addBillingPeriod, normalizeBillingPeriod, normalizePaidPlan, quotePlanChange } from "./plan-pricing";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PAID_STATUSES = ["completed", "captured", "succeeded", "paid", "partially_refunded"];
+
+// A capture this far below the quoted amount is not treated as paying for the quoted change
+const UNDERPAID_TOLERANCE = 0.005;
+
+/** Quote as returned to the checkout page. */
+export interface PlanChangeQuoteView {
+  kind: PlanChangeQuote["kind"];
+  from_plan: string | null;
+  from_period: string | null;
+  to_plan: string;
+  to_period: string;
+  price: string;
+  credit: string;
+  amount_due: string;
+  currency: string;
+  remaining_days: number;
+  effective_at: string;
+  period_end: string | null;
+  recurring: boolean;
+}
+
+/**
+ * Prorated mid-cycle plan changes for one-off (non-recurring) plans.
+ *
+ * Upgrades are charged the new plan's price minus the unused value of the current period and
+ * start at once; the quote is stored on the pending payment as raw.__meta.proration and applied
+ * by applyPaid() after capture. Downgrades charge nothing and are scheduled for the end of the
+ * paid period, when the sweep switches the plan. Recurring subscribers change plan by
+ * subscribing to the new plan instead (the old subscription is cancelled when it starts).
+ *
+ * Env: PLAN_CHANGES_SWEEP_MS (hourly; 0 disables).
+ */
+@Injectable()
+export class PlanChangesService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PlanChangesService.name);
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @InjectRepository(PlanChange)
+    private readonly planChangeRepo: Repository<PlanChange>,
+    @InjectRepository(Payment)
+    private readonly paymentRepo: Repository<Payment>,
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+    @InjectRepository(Subscription)
+    private readonly subscriptionRepo: Repository<Subscription>,
+    private readonly config: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    const everyMs = Number(this.config.get("PLAN_CHANGES_SWEEP_MS") ?? 60 * 60 * 1000);
+    if (!everyMs || everyMs <= 0 || process.env.NODE_ENV === "test") return;
+    this.sweepTimer = setInterval(() => {
+      this.applyDue().catch((err) => this.logger.warn(`Plan change sweep failed: ${err?.message ?? err}`));
+    }, everyMs);
+    this.sweepTimer.unref?.();
+  }
+
+  onModuleDestroy() {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.sweepTimer = null;
+  }
+
+  static toView(q: PlanChangeQuote, recurring = false): PlanChangeQuoteView {
+    return {
+      kind: q.kind,
+      from_plan: q.fromPlan,
+      from_period: q.fromPeriod,
+      to_plan: q.toPlan,
+      to_period: q.toPeriod,
+      price: q.price.toFixed(2),
+      credit: q.credit.toFixed(2),
+      amount_due: q.amountDue.toFixed(2),
+      currency: q.currency,
+      remaining_days: Math.round((q.remainingMs / DAY_MS) * 10) / 10,
+      effective_at: q.effectiveAt.toISOString(),
+      period_end: q.periodEnd ? q.periodEnd.toISOString() : null,
+      recurring,
+    };
+  }
+
+  static changeView(row: PlanChange) {
+    return {
+      id: row.id,
+      kind: row.kind,
+      from_plan: row.fromPlan,
+      from_period: row.fromPeriod,
+      to_plan: row.toPlan,
+      to_period: row.toPeriod,
+      amount: Number(row.amount ?? 0).toFixed(2),
+      credit: Number(row.credit ?? 0).toFixed(2),
+      status: row.status,
+      effective_at: row.effectiveAt,
+      payment_id: row.paymentId,
+      created_at: row.createdAt,
+    };
+  }
+
+  // Stored on the pending payment so the capture applies exactly what was quoted
+  static toMeta(q: PlanChangeQuote) {
+    return {
+      kind: q.kind,
+      from_plan: q.fromPlan,
+      from_period: q.fromPeriod,
+      credit: q.credit.toFixed(2),
+      amount_due: q.amountDue.toFixed(2),
+      extend_ms: q.extendMs,
+      quoted_at: new Date().toISOString(),
+    };
+  }
+
+  /* ---------- Quotes ---------- */
+
+  async quote(userId: number, plan: string, billingPeriod?: string | null): Promise<PlanChangeQuote> {
+    const toPlan = normalizePaidPlan(plan);
+    const toPeriod = normalizeBillingPeriod(billingPeriod);
+    if (!toPlan) throw new BadRequestException("Choose a paid plan (Pro or Tutor).");
+    if (!toPeriod) throw new BadRequestException("billingPeriod must be monthly or yearly.");
+
+    const user = await this.userRepo.findOne({ where: { id: userId } });
+    if (!user) throw new NotFoundException("User not found");
+    const fromPlan = normalizePaidPlan(user.plan);
+    return quotePlanChange({ plan: fromPlan, expiry: user.plan_expiry, period: fromPlan ? await this.currentPeriod(userId, fromPlan) : null }, toPlan, toPeriod);
+  }
+
+  async quoteView(userId: number, plan: string, billingPeriod?: string | null): Promise<PlanChangeQuoteView> {
+    const [q, recurring] = await Promise.all([this.quote(userId, plan, billingPeriod), this.hasLiveSubscription(userId)]);
+    return PlanChangesService.toView(q, recurring);
+  }
+
+  /* ---------- User actions ---------- */
+
+  /**
+   * Apply a change that needs no payment: downgrades are scheduled for the end of the paid
+   * period, upgrades fully covered by the credit are applied now. Anything with an amount due
+   * goes through checkout.
+   */
+  async request(userId: number, plan: string, billingPeriod?: string | null) {
+    if (await this.hasLiveSubscription(userId)) {
+      throw new BadRequestException("Your plan renews automatically. Subscribe to the new plan instead; your current subscription is cancelled when it starts.");
+    }
+    const q = await this.quote(userId, plan, billingPeriod);
+
+    if (q.kind === "downgrade") {
+      await this.cancelScheduled(userId);
+      const row = await this.planChangeRepo.save(
+        this.planChangeRepo.create({
+          user_id: userId,
+          fromPlan: q.fromPlan,
+          fromPeriod: q.fromPeriod,
+          toPlan: q.toPlan,
+          toPeriod: q.toPeriod,
+          kind: q.kind,
+          amount: 0,
+          credit: 0,
+          status: "scheduled",
+          effectiveAt: q.effectiveAt,
+          paymentId: null,
+          appliedAt: null,
+        }),
+      );
+      if (q.effectiveAt.getTime() <= Date.now()) await this.applyScheduled(row);
+      return { quote: PlanChangesService.toView(q), change: PlanChangesService.changeView(row) };
+    }
+
+    if (q.amountDue > 0) {
+      throw new BadRequestException(`This change costs ${q.amountDue.toFixed(2)} ${q.currency}. Complete checkout to apply it.`);
+    }
+
+    const user = await this.userRepo.findOne({ where: { id: userId } });
+    if (!user) throw new NotFoundException("User not found");
+    user.plan = q.toPlan;
+    user.plan_expiry = new Date(Date.now() + q.extendMs);
+    await this.userRepo.save(user);
+    await this.cancelScheduled(userId);
+    const row = await this.recordApplied({
+      user_id: userId,
+      fromPlan: q.fromPlan,
+      fromPeriod: q.fromPeriod,
+      toPlan: q.toPlan,
+      toPeriod: q.toPeriod,
+      kind: q.kind,
+      amount: 0,
+      credit: q.credit,
+      paymentId: null,
+    });
+    return { quote: PlanChangesService.toView(q), change: PlanChangesService.changeView(row) };
+  }
+
+  // The scheduled downgrade, if any
+  async current(userId: number) {
+    const row = await this.planChangeRepo.findOne({ where: { user_id: userId, status: "scheduled" }, order: { createdAt: "DESC" } });
+    return row ? PlanChangesService.changeView(row) : null;
+  }
+
+  async cancelScheduled(userId: number): Promise<number> {
+    const rows = await this.planChangeRepo.find({ where: { user_id: userId, status: "scheduled" } });
+    for (const row of rows) {
+      row.status = "cancelled";
+      await this.planChangeRepo.save(row);
+    }
+    return rows.length;
+  }
+
+  /* ---------- Payments ---------- */
+
+  /**
+   * Grant the plan bought by a finalized payment. A payment quoted as a plan change runs for the
+   * quoted time (upgrade credit included, renewals stacked on the current period); anything else
+   * gets one billing period from now. Any scheduled downgrade is dropped.
+   */
+  async applyPaid(userId: number, payment: Payment) {
+    const user = await this.userRepo.findOne({ where: { id: userId } });
+    if (!user) return;
+
+    const proration = PlanChangesService.prorationOf(payment);
+    const planName = payment.plan || user.plan || "Pro";
+    const period = normalizeBillingPeriod(payment.billingPeriod || "monthly");
+    const paid = Number(payment.amount ?? 0);
+    const quoted = proration && paid + UNDERPAID_TOLERANCE >= Number(proration.amount_due) && Number(proration.extend_ms) > 0;
+    if (proration && !quoted) this.logger.warn(`applyPaid: payment ${payment.id} paid ${paid}, quoted ${proration.amount_due}; granting a plain period`);
+
+    user.plan = planName;
+    if (quoted) user.plan_expiry = new Date(Date.now() + Number(proration.extend_ms));
+    else user.plan_expiry = period ? addBillingPeriod(new Date(), period) : null;
+    await this.userRepo.save(user);
+    await this.cancelScheduled(userId);
+
+    if (quoted && proration.kind === "upgrade") {
+      await this.recordApplied({
+        user_id: userId,
+        fromPlan: proration.from_plan ?? null,
+        fromPeriod: proration.from_period ?? null,
+        toPlan: planName,
+        toPeriod: period ?? "monthly",
+        kind: "upgrade",
+        amount: paid,
+        credit: Number(proration.credit ?? 0),
+        paymentId: payment.id ?? null,
+      });
+    }
+  }
+
+  /* ---------- Sweep ---------- */
+
+  // Switch users whose scheduled downgrade has come due
+  async applyDue(): Promise<number> {
+    const due = await this.planChangeRepo.find({ where: { status: "scheduled", effectiveAt: LessThanOrEqual(new Date()) }, take: 200 });
+    let applied = 0;
+    for (const row of due) {
+      if (await this.applyScheduled(row)) applied++;
+    }
+    if (applied) this.logger.log(`applyDue: applied ${applied} scheduled plan change(s)`);
+    return applied;
+  }
+
+  // The plan only moves if the user is still on the plan the change was scheduled from
+  private async applyScheduled(row: PlanChange): Promise<boolean> {
+    const user = await this.userRepo.findOne({ where: { id: row.user_id } });
+    const stillOn = !!user && normalizePaidPlan(user.plan) === normalizePaidPlan(row.fromPlan);
+    if (user && stillOn) {
+      user.plan = row.toPlan;
+      await this.userRepo.save(user);
+    }
+    row.status = stillOn ? "applied" : "cancelled";
+    row.appliedAt = stillOn ? new Date() : null;
+    await this.planChangeRepo.save(row);
+    return stillOn;
+  }
+
+  /* ---------- Lookups ---------- */
+
+  private static prorationOf(payment: Payment): any | null {
+    try {
+      const raw = typeof payment.raw === "string" ? JSON.parse(payment.raw) : payment.raw;
+      return raw?.__meta?.proration ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async recordApplied(fields: Partial<PlanChange>) {
+    const now = new Date();
+    return this.planChangeRepo.save(this.planChangeRepo.create({ ...fields, status: "applied", effectiveAt: now, appliedAt: now }));
+  }
+
+  // Billing period of the latest paid payment for the user's current plan (monthly when unknown)
+  private async currentPeriod(userId: number, plan: string): Promise<string> {
+    const last = await this.paymentRepo.findOne({
+      where: { user_id: userId, plan, status: In(PAID_STATUSES) } as any,
+      order: { createdAt: "DESC" },
+    });
+    return last?.billingPeriod || "monthly";
+  }
+
+  private async hasLiveSubscription(userId: number): Promise<boolean> {
+    return (await this.subscriptionRepo.count({ where: { user_id: userId, status: In(LIVE_STATUSES) } })) > 0;
+  }
+}
@@ -0,0 +1,124 @@
+export type BillingPeriod = 'monthly' | 'yearly';
+
+// Paid plans that can be bought or subscribed to
+export const PAID_PLANS = ['Pro', 'Tutor'] as const;
+
+/**
+ * List prices (USD). Used for one-off orders, PayPal billing plans and invoice previews;
+ * keep in sync with the pricing page.
+ */
+export function planPrice(plan?: string | null, billingPeriod?: string | null): { amount: string; currency: string } {
+  const p = String(plan || 'Pro').toLowerCase();
+  const yearly = billingPeriod === 'yearly';
+  if (p === 'pro') return { amount: yearly ? '99.00' : '12.99', currency: 'USD' };
+  if (p === 'tutor') return { amount: yearly ? '199.00' : '24.99', currency: 'USD' };
+  return { amount: '0.00', currency: 'USD' };
+}
+
+// 'pro' -> 'Pro'; null for Free / unknown plans
+export function normalizePaidPlan(plan?: string | null): (typeof PAID_PLANS)[number] | null {
+  const p = String(plan ?? '').trim().toLowerCase();
+  return PAID_PLANS.find((name) => name.toLowerCase() === p) ?? null;
+}
+
+export function normalizeBillingPeriod(period?: string | null): BillingPeriod | null {
+  const p = String(period ?? 'monthly').trim().toLowerCase();
+  if (p === 'monthly' || p === 'month') return 'monthly';
+  if (p === 'yearly' || p === 'year' || p === 'annual') return 'yearly';
+  return null;
+}
+
+// End of a billing period starting at `from` (monthly = 30 days, matching one-off orders)
+export function addBillingPeriod(from: Date, billingPeriod?: string | null): Date {
+  const d = new Date(from);
+  if (billingPeriod === 'yearly') d.setFullYear(d.getFullYear() + 1);
+  else d.setDate(d.getDate() + 30);
+  return d;
+}
+
+/* ---------- Mid-cycle plan changes ---------- */
+
+export type PlanChangeKind = 'new' | 'renewal' | 'upgrade' | 'downgrade';
+
+/**
+ * Prorated plan change. credit is the unused value of the current period; amount_due is charged now.
+ * extendMs is how long the paid plan runs from now once paid (renewals count from the current end);
+ * downgrades charge nothing now and take effect at effectiveAt.
+ */
+export interface PlanChangeQuote {
+  kind: PlanChangeKind;
+  fromPlan: string | null;
+  fromPeriod: BillingPeriod | null;
+  toPlan: string;
+  toPeriod: BillingPeriod;
+  price: number;
+  credit: number;
+  amountDue: number;
+  currency: string;
+  remainingMs: number;
+  extendMs: number;
+  effectiveAt: Date;
+  periodEnd: Date | null;
+}
+
+const PLAN_RANK: Record<string, number> = { pro: 1, tutor: 2 };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Upgrade = higher plan, or the same plan billed yearly instead of monthly
+function changeKind(from: string, fromPeriod: BillingPeriod, to: string, toPeriod: BillingPeriod): PlanChangeKind {
+  const byPlan = PLAN_RANK[to.toLowerCase()] - PLAN_RANK[from.toLowerCase()];
+  if (byPlan) return byPlan > 0 ? 'upgrade' : 'downgrade';
+  if (fromPeriod === toPeriod) return 'renewal';
+  return toPeriod === 'yearly' ? 'upgrade' : 'downgrade';
+}
+
+/**
+ * Quote moving from the current plan (paid through `expiry`, billed per `currentPeriod`) to
+ * toPlan / toPeriod. Free or lapsed users get a plain new purchase.
+ */
+export function quotePlanChange(
+  current: { plan?: string | null; expiry?: Date | null; period?: string | null },
+  toPlan: string,
+  toPeriod: BillingPeriod,
+  now = new Date(),
+): PlanChangeQuote {
+  const target = planPrice(toPlan, toPeriod);
+  const price = Number(target.amount);
+  const targetMs = addBillingPeriod(now, toPeriod).getTime() - now.getTime();
+  const fromPlan = normalizePaidPlan(current.plan);
+  const fromPeriod = normalizeBillingPeriod(current.period) ?? 'monthly';
+  const expiry = current.expiry ? new Date(current.expiry) : null;
+  const remainingMs = expiry ? Math.max(0, expiry.getTime() - now.getTime()) : 0;
+  const base = { toPlan, toPeriod, price, currency: target.currency, remainingMs };
+
+  if (!fromPlan || (expiry && remainingMs === 0)) {
+    return { ...base, kind: 'new', fromPlan, fromPeriod: fromPlan ? fromPeriod : null, credit: 0, amountDue: price, extendMs: targetMs, effectiveAt: now, periodEnd: new Date(now.getTime() + targetMs) };
+  }
+
+  const kind = changeKind(fromPlan, fromPeriod, toPlan, toPeriod);
+  if (kind === 'renewal') {
+    const periodEnd = addBillingPeriod(expiry ?? now, toPeriod);
+    return { ...base, kind, fromPlan, fromPeriod, credit: 0, amountDue: price, extendMs: periodEnd.getTime() - now.getTime(), effectiveAt: now, periodEnd };
+  }
+  if (kind === 'downgrade') {
+    return { ...base, kind, fromPlan, fromPeriod, credit: 0, amountDue: 0, extendMs: 0, effectiveAt: expiry ?? now, periodEnd: null };
+  }
+
+  const currentPrice = Number(planPrice(fromPlan, fromPeriod).amount);
+  const currentMs = addBillingPeriod(now, fromPeriod).getTime() - now.getTime();
+  const credit = round2(currentPrice * Math.min(1, remainingMs / currentMs));
+  // a credit worth more than the new plan's price buys proportionally more time on it
+  const extendMs = Math.round(targetMs * Math.max(1, credit / price));
+  return {
+    ...base,
+    kind,
+    fromPlan,
+    fromPeriod,
+    credit,
+    amountDue: round2(Math.max(0, price - credit)),
+    extendMs,
+    effectiveAt: now,
+    periodEnd: new Date(now.getTime() + extendMs),
+  };
+}
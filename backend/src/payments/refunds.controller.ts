@@ -0,0 +1,34 @@
+import { BadRequestException, Body, Controller, Get, Param, Post, Query, Req, UseGuards } from '@nestjs/common';
+import { AdminAuthGuard } from '../admin/admin-auth.guard';
+import { RefundsService } from './refunds.service';
+
+function parseId(id: string) {
+  const n = Number(id);
+  if (!n || Number.isNaN(n)) throw new BadRequestException('Invalid payment id');
+  return n;
+}
+
+/**
+ * Admin payments list and PayPal refunds (full when amount is omitted, otherwise partial).
+ */
+@Controller('admin/payments')
+@UseGuards(AdminAuthGuard)
+export class AdminRefundsController {
+  constructor(private readonly refunds: RefundsService) {}
+
+  // GET /admin/payments?status=completed,partially_refunded&userId=&q=&limit=
+  @Get()
+  async list(@Query('status') status?: string, @Query('userId') userId?: string, @Query('q') q?: string, @Query('limit') limit = '50') {
+    return this.refunds.listPayments({ status, userId: Number(userId) || undefined, q: q?.trim() || undefined, limit: Number(limit) || 50 });
+  }
+
+  @Get(':id/refunds')
+  async listRefunds(@Param('id') id: string) {
+    return this.refunds.listForPayment(parseId(id));
+  }
+
+  @Post(':id/refunds')
+  async refund(@Req() req: any, @Param('id') id: string, @Body() body: { amount?: number | string | null; reason?: string | null }) {
+    return this.refunds.refund(parseId(id), { amount: body?.amount, reason: body?.reason }, req.user?.email ?? null);
+  }
+}
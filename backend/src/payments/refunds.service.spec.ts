@@ -0,0 +1,152 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { RefundsService } from './refunds.service';
+import { Payment } from './payments.entity';
+import { PaymentRefund } from './payment-refund.entity';
+import { User } from '../user/user.entity';
+import { SubscriptionsService } from './subscriptions.service';
+import * as paypal from './paypal.client';
+
+declare const describe: any;
+declare const beforeEach: any;
+declare const it: any;
+declare const expect: any;
+declare const jest: any;
+
+jest.mock('./paypal.client');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('RefundsService', () => {
+  let service: RefundsService;
+  let payment: any;
+  let user: any;
+  let refunds: any[];
+  let claimed: Set<number>;
+  let subscriptionsService: any;
+  const expiry = new Date(Date.now() + 20 * DAY_MS);
+
+  const captureRefundEvent = (id: string, value: string) => ({
+    event_type: 'PAYMENT.CAPTURE.REFUNDED',
+    resource: {
+      id,
+      status: 'COMPLETED',
+      amount: { value, currency_code: 'USD' },
+      links: [{ rel: 'up', href: 'https://api.paypal.com/v2/payments/captures/CAP-1' }],
+    },
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    payment = { id: 5, user_id: 7, plan: 'Pro', billingPeriod: 'monthly', amount: '12.99', refundedAmount: '0.00', currency: 'USD', status: 'completed', paypalCaptureId: 'CAP-1', raw: {} };
+    user = { id: 7, plan: 'Pro', plan_expiry: expiry };
+    refunds = [];
+    claimed = new Set();
+    subscriptionsService = { applyRefund: jest.fn(async () => undefined) };
+
+    const paymentRepo = {
+      findOne: jest.fn(async ({ where }: any) => (where.id === payment.id || where.paypalCaptureId === payment.paypalCaptureId ? payment : null)),
+      // mimics the refunded_amount / status UPDATE
+      query: jest.fn(async (_sql: string, [, amount]: [number, number]) => {
+        const refunded = Math.min(Number(payment.amount), Number(payment.refundedAmount) + amount);
+        payment.refundedAmount = refunded.toFixed(2);
+        payment.status = refunded >= Number(payment.amount) ? 'refunded' : 'partially_refunded';
+        // UPDATE ... RETURNING through TypeORM: [rows, affected]
+        return [[{ status: payment.status }], 1];
+      }),
+    };
+    const refundRepo = {
+      findOne: jest.fn(async ({ where }: any) => refunds.find((r) => r.paypalRefundId === where.paypalRefundId) ?? null),
+      find: jest.fn(async ({ where }: any) => refunds.filter((r) => r.paymentId === where.paymentId && (!where.status || r.status === where.status))),
+      create: jest.fn((x: any) => ({ ...x })),
+      save: jest.fn(async (r: any) => {
+        if (!r.id) {
+          r.id = refunds.length + 1;
+          r.createdAt = new Date();
+          refunds.push(r);
+        }
+        return r;
+      }),
+      // mimics the applied_at claim; claimed survives in-memory copies like the database row would
+      query: jest.fn(async (_sql: string, [id]: [number]) => {
+        if (claimed.has(id)) return [[], 0];
+        claimed.add(id);
+        const r = refunds.find((x) => x.id === id);
+        if (r) r.appliedAt = new Date();
+        return [[{ id }], 1];
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefundsService,
+        { provide: getRepositoryToken(Payment), useValue: paymentRepo },
+        { provide: getRepositoryToken(PaymentRefund), useValue: refundRepo },
+        { provide: getRepositoryToken(User), useValue: { findOne: jest.fn(async () => user), save: jest.fn(async (u: any) => u) } },
+        { provide: SubscriptionsService, useValue: subscriptionsService },
+      ],
+    }).compile();
+
+    service = module.get<RefundsService>(RefundsService);
+  });
+
+  it('partially refunds a capture and shortens the plan by the refunded share', async () => {
+    (paypal.refundCaptureOnPayPal as any).mockResolvedValue({ id: 'RF-1', status: 'COMPLETED', amount: { value: '6.50', currency_code: 'USD' } });
+
+    const result = await service.refund(5, { amount: '6.50', reason: 'duplicate purchase' }, 'admin@example.com');
+
+    expect(paypal.refundCaptureOnPayPal).toHaveBeenCalledWith('CAP-1', { amount: { value: '6.50', currency_code: 'USD' }, note_to_payer: 'duplicate purchase' }, 'refund-5-0-650');
+    expect(result.refund).toEqual(expect.objectContaining({ paypal_refund_id: 'RF-1', amount: '6.50', status: 'completed', initiated_by: 'admin@example.com' }));
+    expect(result.payment).toEqual(expect.objectContaining({ status: 'partially_refunded', refunded_amount: '6.50', refundable_amount: '6.49' }));
+    const cut = Math.round(30 * DAY_MS * (650 / 1299));
+    expect(user.plan).toBe('Pro');
+    expect(user.plan_expiry.getTime()).toBe(expiry.getTime() - cut);
+  });
+
+  it('rejects refunds above what is left and of unpaid payments', async () => {
+    refunds.push({ id: 1, paymentId: 5, paypalRefundId: 'RF-P', amount: '10.00', status: 'pending' });
+    await expect(service.refund(5, { amount: '3.00' }, null)).rejects.toBeInstanceOf(BadRequestException);
+    await expect(service.refund(5, { amount: '-1' }, null)).rejects.toBeInstanceOf(BadRequestException);
+
+    payment.status = 'pending';
+    await expect(service.refund(5, {}, null)).rejects.toBeInstanceOf(BadRequestException);
+    expect(paypal.refundCaptureOnPayPal).not.toHaveBeenCalled();
+  });
+
+  it('applies a full refund from the webhook once and downgrades the user', async () => {
+    expect(await service.handleWebhook(captureRefundEvent('RF-2', '12.99'))).toBe(true);
+    expect(payment.status).toBe('refunded');
+    expect(user).toEqual(expect.objectContaining({ plan: 'Free', plan_expiry: null }));
+    expect(refunds[0]).toEqual(expect.objectContaining({ initiatedBy: 'paypal', status: 'completed' }));
+
+    user.plan = 'Pro';
+    await service.handleWebhook(captureRefundEvent('RF-2', '12.99'));
+    expect(user.plan).toBe('Pro');
+    expect(await service.handleWebhook({ event_type: 'PAYMENT.CAPTURE.COMPLETED', resource: {} })).toBe(false);
+  });
+
+  it('does nothing when a replayed webhook finds the refund already applied elsewhere', async () => {
+    // another instance applied RF-4 after this row was read: appliedAt is still unset here
+    refunds.push({ id: 1, paymentId: 5, paypalRefundId: 'RF-4', amount: '12.99', currency: 'USD', status: 'pending' });
+    claimed.add(1);
+
+    expect(await service.handleWebhook(captureRefundEvent('RF-4', '12.99'))).toBe(true);
+
+    expect(refunds[0].status).toBe('completed');
+    expect(payment).toEqual(expect.objectContaining({ refundedAmount: '0.00', status: 'completed' }));
+    expect(user).toEqual(expect.objectContaining({ plan: 'Pro', plan_expiry: expiry }));
+    expect(subscriptionsService.applyRefund).not.toHaveBeenCalled();
+  });
+
+  it('refunds subscription payments through the sale API and cancels the subscription', async () => {
+    payment.raw = { __meta: { subscription_id: 'I-1' } };
+    (paypal.refundSaleOnPayPal as any).mockResolvedValue({ id: 'RF-3', state: 'completed', amount: { total: '12.99', currency: 'USD' }, sale_id: 'CAP-1' });
+
+    await service.refund(5, {}, 'admin@example.com');
+
+    expect((paypal.refundSaleOnPayPal as any).mock.calls[0][1]).toEqual({ amount: { total: '12.99', currency: 'USD' } });
+    expect(subscriptionsService.applyRefund).toHaveBeenCalledWith('I-1', 30 * DAY_MS, true);
+    expect(user.plan).toBe('Free');
+  });
+});
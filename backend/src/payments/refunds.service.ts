@@ -0,0 +1,279 @@
+import { BadGatewayException, BadRequestException, Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { In, Repository } from "typeorm";
+import { Payment } from "./payments.entity";
+import { PaymentRefund, RefundStatus } from "./payment-refund.entity";
+import { User } from "../user/user.entity";
+import { SubscriptionsService } from "./subscriptions.service";
+import { refundCaptureOnPayPal, refundSaleOnPayPal } from "./paypal.client";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// statuses a payment can be refunded from
+const REFUNDABLE_STATUSES = ["completed", "captured", "succeeded", "success", "paid", "partially_refunded"];
+
+const REFUND_EVENTS = ["PAYMENT.CAPTURE.REFUNDED", "PAYMENT.CAPTURE.REVERSED", "PAYMENT.SALE.REFUNDED", "PAYMENT.SALE.REVERSED"];
+
+const toCents = (v: any) => Math.round(Number(v ?? 0) * 100);
+const fromCents = (c: number) => (c / 100).toFixed(2);
+
+// node-postgres returns [rows, count] for UPDATE ... RETURNING through TypeORM
+const returnedRows = (r: any): any[] => {
+  const rows = Array.isArray(r?.[0]) ? r[0] : r;
+  return Array.isArray(rows) ? rows : [];
+};
+
+type ParsedRefund = { id: string; status: RefundStatus; amount: string | null; currency: string | null; captureId: string | null; raw: any };
+
+/**
+ * Reads a refund in either PayPal shape: v2 capture refunds (status, amount.value, "up" link to the
+ * capture) and v1 sale refunds (state, amount.total, sale_id).
+ */
+export function parseRefund(resource: any): ParsedRefund {
+  const up = Array.isArray(resource?.links) ? resource.links.find((l: any) => l?.rel === "up" && /\/captures\//.test(String(l?.href))) : null;
+  const captureId = resource?.sale_id ?? (up ? String(up.href).split("/captures/")[1]?.split(/[/?]/)[0] : null) ?? null;
+  const status = String(resource?.status ?? resource?.state ?? "pending").toLowerCase();
+  return {
+    id: String(resource?.id ?? ""),
+    status: (["completed", "pending", "failed", "cancelled"].includes(status) ? status : "pending") as RefundStatus,
+    amount: resource?.amount?.value ?? resource?.amount?.total ?? null,
+    currency: resource?.amount?.currency_code ?? resource?.amount?.currency ?? null,
+    captureId: captureId ? String(captureId) : null,
+    raw: resource,
+  };
+}
+
+/**
+ * Admin-initiated full / partial refunds through PayPal and refund webhooks. A completed refund
+ * is applied once: payments.refunded_amount and status move, and the user's paid-through date is
+ * pulled back by the refunded share of the billing period (a full refund of the current period
+ * downgrades to Free). Refunding a subscription payment in full also cancels the subscription.
+ */
+@Injectable()
+export class RefundsService {
+  private readonly logger = new Logger(RefundsService.name);
+
+  constructor(
+    @InjectRepository(Payment)
+    private readonly paymentRepo: Repository<Payment>,
+    @InjectRepository(PaymentRefund)
+    private readonly refundRepo: Repository<PaymentRefund>,
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+    private readonly subscriptionsService: SubscriptionsService,
+  ) {}
+
+  static toView(r: PaymentRefund) {
+    return {
+      id: r.id,
+      payment_id: r.paymentId,
+      paypal_refund_id: r.paypalRefundId,
+      amount: Number(r.amount ?? 0).toFixed(2),
+      currency: r.currency ?? "USD",
+      status: r.status,
+      reason: r.reason ?? null,
+      initiated_by: r.initiatedBy ?? null,
+      date: r.createdAt,
+    };
+  }
+
+  static paymentView(p: Payment) {
+    const amount = toCents(p.amount);
+    const refunded = toCents(p.refundedAmount);
+    return {
+      id: p.id,
+      user_id: p.user_id,
+      plan: p.plan,
+      billing_period: p.billingPeriod,
+      amount: fromCents(amount),
+      refunded_amount: fromCents(refunded),
+      refundable_amount: REFUNDABLE_STATUSES.includes(String(p.status).toLowerCase()) && p.paypalCaptureId ? fromCents(Math.max(0, amount - refunded)) : "0.00",
+      currency: p.currency ?? "USD",
+      status: p.status,
+      paypal_capture_id: p.paypalCaptureId,
+      payer_email: p.payerEmail,
+      created_at: p.createdAt,
+    };
+  }
+
+  /**
+   * Refund `amount` (default: everything not yet refunded) of a payment. Pending refunds count as
+   * already refunded so a double submit cannot over-refund; the PayPal-Request-Id makes a retried
+   * call return the original refund.
+   */
+  async refund(paymentId: number, req: { amount?: number | string | null; reason?: string | null }, initiatedBy: string | null) {
+    const payment = await this.paymentRepo.findOne({ where: { id: paymentId } });
+    if (!payment) throw new NotFoundException("Payment not found");
+    if (!REFUNDABLE_STATUSES.includes(String(payment.status).toLowerCase())) {
+      throw new BadRequestException(`A ${payment.status} payment cannot be refunded`);
+    }
+    if (!payment.paypalCaptureId) throw new BadRequestException("Payment has no PayPal capture to refund");
+
+    const pending = await this.refundRepo.find({ where: { paymentId, status: "pending" } });
+    const reserved = toCents(payment.refundedAmount) + pending.reduce((sum, r) => sum + toCents(r.amount), 0);
+    const refundable = toCents(payment.amount) - reserved;
+    const cents = req.amount == null || req.amount === "" ? refundable : toCents(req.amount);
+    if (!Number.isFinite(cents) || cents <= 0) throw new BadRequestException("Refund amount must be positive");
+    if (cents > refundable) throw new BadRequestException(`At most ${fromCents(Math.max(0, refundable))} ${payment.currency} can be refunded`);
+
+    const value = fromCents(cents);
+    const currency = payment.currency ?? "USD";
+    const reason = req.reason ? String(req.reason).slice(0, 255) : null;
+    const requestId = `refund-${payment.id}-${reserved}-${cents}`;
+    let remote: any;
+    try {
+      remote = this.subscriptionIdOf(payment)
+        ? await refundSaleOnPayPal(payment.paypalCaptureId, { amount: { total: value, currency }, ...(reason ? { description: reason } : {}) }, requestId)
+        : await refundCaptureOnPayPal(payment.paypalCaptureId, { amount: { value, currency_code: currency }, ...(reason ? { note_to_payer: reason } : {}) }, requestId);
+    } catch (err: any) {
+      const detail = err?.response?.data?.details?.[0]?.description ?? err?.response?.data?.message ?? err?.message;
+      this.logger.warn(`refund: PayPal refund of payment ${payment.id} failed: ${detail}`);
+      throw new BadGatewayException(`PayPal refund failed${detail ? `: ${detail}` : ""}`);
+    }
+
+    const parsed = parseRefund(remote);
+    if (!parsed.id) throw new BadGatewayException("PayPal did not return a refund id");
+    const row = await this.record(payment, { ...parsed, amount: parsed.amount ?? value, currency: parsed.currency ?? currency }, reason, initiatedBy);
+    const fresh = await this.paymentRepo.findOne({ where: { id: payment.id } });
+    return { payment: RefundsService.paymentView(fresh ?? payment), refund: RefundsService.toView(row) };
+  }
+
+  // PAYMENT.CAPTURE.REFUNDED / REVERSED and PAYMENT.SALE.REFUNDED / REVERSED; false for anything else
+  async handleWebhook(event: any): Promise<boolean> {
+    const type = String(event?.event_type ?? "");
+    if (!REFUND_EVENTS.includes(type)) return false;
+
+    const parsed = parseRefund(event?.resource ?? {});
+    if (!parsed.id || !parsed.captureId) {
+      this.logger.warn(`handleWebhook: ${type} without refund or capture id`);
+      return true;
+    }
+    const payment = await this.paymentRepo.findOne({ where: { paypalCaptureId: parsed.captureId } });
+    if (!payment) {
+      this.logger.warn(`handleWebhook: ${type} ${parsed.id} for unknown capture ${parsed.captureId}`);
+      return true;
+    }
+    const reason = event?.resource?.note_to_payer ?? event?.resource?.reason_code ?? (type.endsWith("REVERSED") ? "Reversed by PayPal" : null);
+    await this.record(payment, parsed, reason, "paypal");
+    return true;
+  }
+
+  async listForPayment(paymentId: number) {
+    const rows = await this.refundRepo.find({ where: { paymentId }, order: { createdAt: "ASC" } });
+    return rows.map((r) => RefundsService.toView(r));
+  }
+
+  // Admin list; q matches payer email or PayPal order / capture id
+  async listPayments(opts: { status?: string; userId?: number; q?: string; limit?: number } = {}) {
+    const qb = this.paymentRepo.createQueryBuilder("p").orderBy("p.created_at", "DESC").take(Math.min(200, Math.max(1, opts.limit ?? 50)));
+    if (opts.status) qb.andWhere("p.status IN (:...statuses)", { statuses: String(opts.status).split(",") });
+    if (opts.userId) qb.andWhere("p.user_id = :userId", { userId: opts.userId });
+    if (opts.q) qb.andWhere("(p.payer_email ILIKE :q OR p.paypal_order_id = :exact OR p.paypal_capture_id = :exact)", { q: `%${opts.q}%`, exact: opts.q });
+    const rows = await qb.getMany();
+    return rows.map((p) => RefundsService.paymentView(p));
+  }
+
+  // refunds for a set of payments, grouped by payment id (invoice lists)
+  async byPayment(paymentIds: number[]) {
+    const grouped = new Map<number, ReturnType<typeof RefundsService.toView>[]>();
+    if (!paymentIds.length) return grouped;
+    const rows = await this.refundRepo.find({ where: { paymentId: In(paymentIds) }, order: { createdAt: "ASC" } });
+    for (const r of rows) grouped.set(r.paymentId, [...(grouped.get(r.paymentId) ?? []), RefundsService.toView(r)]);
+    return grouped;
+  }
+
+  /* ---------- Internals ---------- */
+
+  // Upsert by PayPal refund id, then apply it if it has just completed
+  private async record(payment: Payment, parsed: ParsedRefund, reason: string | null, initiatedBy: string | null): Promise<PaymentRefund> {
+    let row = await this.refundRepo.findOne({ where: { paypalRefundId: parsed.id } });
+    if (!row) {
+      row = this.refundRepo.create({
+        paymentId: payment.id,
+        user_id: payment.user_id,
+        paypalRefundId: parsed.id,
+        amount: Number(parsed.amount ?? 0),
+        currency: parsed.currency ?? payment.currency ?? "USD",
+        reason,
+        initiatedBy,
+      });
+    }
+    row.status = parsed.status;
+    row.raw = parsed.raw ?? row.raw;
+    try {
+      row = await this.refundRepo.save(row);
+    } catch (err: any) {
+      // the admin call and the webhook raced on the unique refund id
+      const existing = await this.refundRepo.findOne({ where: { paypalRefundId: parsed.id } });
+      if (!existing) throw err;
+      existing.status = parsed.status;
+      row = await this.refundRepo.save(existing);
+    }
+
+    if (row.status === "completed" && !row.appliedAt) await this.apply(payment, row);
+    return row;
+  }
+
+  private async apply(payment: Payment, refund: PaymentRefund) {
+    // claim the refund so a concurrent webhook / admin call cannot apply it twice
+    const claimed = returnedRows(
+      await this.refundRepo.query(`UPDATE payment_refunds SET applied_at = now() WHERE id = $1 AND applied_at IS NULL RETURNING id`, [refund.id]),
+    );
+    if (!claimed.length) return;
+    refund.appliedAt = new Date();
+
+    const updated = returnedRows(await this.paymentRepo.query(
+      `UPDATE payments
+       SET refunded_amount = LEAST(amount, refunded_amount + $2),
+           status = CASE WHEN refunded_amount + $2 >= amount THEN 'refunded' ELSE 'partially_refunded' END,
+           updated_at = now()
+       WHERE id = $1
+       RETURNING status`,
+      [payment.id, Number(refund.amount)],
+    ));
+    const full = updated[0]?.status === "refunded";
+    this.logger.log(`Payment ${payment.id}: refund ${refund.paypalRefundId} of ${refund.amount} ${refund.currency} applied (${full ? "full" : "partial"})`);
+    await this.adjustAccess(payment, toCents(refund.amount), full);
+  }
+
+  /**
+   * Pull the paid-through date back by the refunded share of the payment's billing period.
+   * Only touches the user while they are still on the refunded plan.
+   */
+  private async adjustAccess(payment: Payment, refundCents: number, full: boolean) {
+    const total = toCents(payment.amount);
+    const periodMs = (String(payment.billingPeriod).toLowerCase() === "yearly" ? 365 : 30) * DAY_MS;
+    const cutMs = total > 0 ? Math.round(periodMs * Math.min(1, refundCents / total)) : periodMs;
+
+    const subscriptionId = this.subscriptionIdOf(payment);
+    if (subscriptionId) await this.subscriptionsService.applyRefund(subscriptionId, cutMs, full);
+
+    if (!payment.user_id) return;
+    const user = await this.userRepo.findOne({ where: { id: payment.user_id } });
+    if (!user) return;
+    if (payment.plan && String(user.plan ?? "").toLowerCase() !== String(payment.plan).toLowerCase()) {
+      this.logger.log(`adjustAccess: user ${user.id} is on ${user.plan}, not ${payment.plan}; plan left unchanged`);
+      return;
+    }
+
+    const expiry = user.plan_expiry ? new Date(user.plan_expiry).getTime() - cutMs : null;
+    if ((expiry === null && full) || (expiry !== null && expiry <= Date.now())) {
+      user.plan = "Free";
+      user.plan_expiry = null;
+    } else if (expiry !== null) {
+      user.plan_expiry = new Date(expiry);
+    } else {
+      return;
+    }
+    await this.userRepo.save(user);
+  }
+
+  private subscriptionIdOf(payment: Payment): string | null {
+    try {
+      const raw = typeof payment.raw === "string" ? JSON.parse(payment.raw) : payment.raw;
+      return raw?.__meta?.subscription_id ?? null;
+    } catch {
+      return null;
+    }
+  }
+}
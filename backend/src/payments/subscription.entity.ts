@@ -0,0 +1,70 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+
+// PayPal subscription status, lowercased
+export type SubscriptionStatus = 'approval_pending' | 'approved' | 'active' | 'suspended' | 'cancelled' | 'expired';
+
+/**
+ * A user's PayPal subscription (recurring billing). Kept in sync from webhooks and from PayPal on
+ * confirm; current_period_end is the paid-through date that user.plan_expiry follows.
+ */
+@Index('ux_subscriptions_paypal_subscription_id', ['paypalSubscriptionId'], { unique: true })
+@Index('idx_subscriptions_user_id', ['user_id'])
+@Entity({ name: 'subscriptions' })
+export class Subscription {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'user_id', type: 'int' })
+  user_id: number;
+
+  @Column({ name: 'plan', type: 'varchar', length: 64 })
+  plan: string;
+
+  @Column({ name: 'billing_period', type: 'varchar', length: 32 })
+  billingPeriod: string;
+
+  @Column({ name: 'paypal_subscription_id', type: 'varchar', length: 128 })
+  paypalSubscriptionId: string;
+
+  @Column({ name: 'paypal_plan_id', type: 'varchar', length: 128, nullable: true })
+  paypalPlanId: string | null;
+
+  @Column({ name: 'status', type: 'varchar', length: 32, default: 'approval_pending' })
+  status: SubscriptionStatus;
+
+  // approval link returned by PayPal while status is approval_pending
+  @Column({ name: 'approve_url', type: 'text', nullable: true })
+  approveUrl: string | null;
+
+  // cancelled by the user: no more renewals, access until current_period_end
+  @Column({ name: 'cancel_at_period_end', type: 'boolean', default: false })
+  cancelAtPeriodEnd: boolean;
+
+  @Column({ name: 'current_period_end', type: 'timestamptz', nullable: true })
+  currentPeriodEnd: Date | null;
+
+  @Column({ name: 'next_billing_time', type: 'timestamptz', nullable: true })
+  nextBillingTime: Date | null;
+
+  @Column({ name: 'last_payment_at', type: 'timestamptz', nullable: true })
+  lastPaymentAt: Date | null;
+
+  @Column({ name: 'last_payment_amount', type: 'numeric', precision: 12, scale: 2, nullable: true })
+  lastPaymentAmount: string | null;
+
+  // consecutive failed renewals (reset by the next successful payment)
+  @Column({ name: 'failed_payments', type: 'int', default: 0 })
+  failedPayments: number;
+
+  @Column({ name: 'payer_email', type: 'varchar', length: 256, nullable: true })
+  payerEmail: string | null;
+
+  @Column({ name: 'raw', type: 'jsonb', nullable: true })
+  raw: any;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
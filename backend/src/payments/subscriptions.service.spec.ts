@@ -0,0 +1,165 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { SubscriptionsService } from './subscriptions.service';
+import { Subscription } from './subscription.entity';
+import { PaypalBillingPlan } from './billing-plan.entity';
+import { User } from '../user/user.entity';
+import * as paypal from './paypal.client';
+
+declare const describe: any;
+declare const beforeEach: any;
+declare const it: any;
+declare const expect: any;
+declare const jest: any;
+
+jest.mock('./paypal.client');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Minimal in-memory repository: equality / In() matching on where, newest-first ordering
+function memoryRepo(rows: any[]) {
+  let nextId = rows.length + 1;
+  const matches = (row: any, where: any = {}) =>
+    Object.entries(where).every(([k, v]: [string, any]) => (v && v._type === 'in' ? v._value.includes(row[k]) : row[k] === v));
+  const sorted = (list: any[], opts: any) => (opts?.order?.createdAt === 'DESC' ? [...list].sort((a, b) => b.createdAt - a.createdAt) : list);
+  return {
+    rows,
+    create: jest.fn((x: any) => ({ ...x })),
+    save: jest.fn(async (x: any) => {
+      if (!x.id) {
+        x.id = nextId++;
+        x.createdAt = x.createdAt ?? new Date(Date.now() + x.id);
+        x.failedPayments = x.failedPayments ?? 0;
+        x.cancelAtPeriodEnd = x.cancelAtPeriodEnd ?? false;
+        rows.push(x);
+      }
+      return x;
+    }),
+    findOne: jest.fn(async (opts: any) => sorted(rows.filter((r) => matches(r, opts?.where)), opts)[0] ?? null),
+    find: jest.fn(async (opts: any) => sorted(rows.filter((r) => matches(r, opts?.where)), opts)),
+    query: jest.fn(async () => []),
+  };
+}
+
+describe('SubscriptionsService', () => {
+  let service: SubscriptionsService;
+  let subs: ReturnType<typeof memoryRepo>;
+  let plans: ReturnType<typeof memoryRepo>;
+  let users: ReturnType<typeof memoryRepo>;
+  let user: any;
+
+  const nextBilling = new Date(Date.now() + 30 * DAY_MS);
+  const remoteActive = (id: string) => ({
+    id,
+    status: 'ACTIVE',
+    plan_id: 'P-PRO-M',
+    custom_id: '7',
+    subscriber: { email_address: 'buyer@example.com' },
+    billing_info: { failed_payments_count: 0, next_billing_time: nextBilling.toISOString() },
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    user = { id: 7, email: 'student@example.com', plan: 'Free', plan_expiry: null };
+    subs = memoryRepo([]);
+    plans = memoryRepo([]);
+    users = memoryRepo([user]);
+
+    (paypal.createProductOnPayPal as any).mockResolvedValue({ id: 'PROD-1' });
+    (paypal.createBillingPlanOnPayPal as any).mockResolvedValue({ id: 'P-PRO-M' });
+    (paypal.createSubscriptionOnPayPal as any).mockResolvedValue({
+      id: 'I-1',
+      status: 'APPROVAL_PENDING',
+      links: [{ rel: 'approve', href: 'https://paypal.test/approve/I-1' }],
+    });
+    (paypal.getSubscriptionOnPayPal as any).mockImplementation(async (id: string) => remoteActive(id));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SubscriptionsService,
+        { provide: getRepositoryToken(Subscription), useValue: subs },
+        { provide: getRepositoryToken(PaypalBillingPlan), useValue: plans },
+        { provide: getRepositoryToken(User), useValue: users },
+        { provide: ConfigService, useValue: { get: jest.fn(() => undefined) } },
+      ],
+    }).compile();
+
+    service = module.get<SubscriptionsService>(SubscriptionsService);
+  });
+
+  it('creates the billing plan once and reuses a pending approval link', async () => {
+    const view = await service.createSubscription(7, 'pro', 'monthly');
+
+    expect(view).toEqual(expect.objectContaining({ subscription_id: 'I-1', plan: 'Pro', billing_status: 'pending', approve_url: 'https://paypal.test/approve/I-1' }));
+    const planBody = (paypal.createBillingPlanOnPayPal as any).mock.calls[0][0];
+    expect(planBody.billing_cycles[0].pricing_scheme.fixed_price).toEqual({ value: '12.99', currency_code: 'USD' });
+    expect((paypal.createSubscriptionOnPayPal as any).mock.calls[0][0]).toEqual(expect.objectContaining({ plan_id: 'P-PRO-M', custom_id: '7' }));
+
+    await service.createSubscription(7, 'Pro', 'monthly');
+    expect(paypal.createSubscriptionOnPayPal).toHaveBeenCalledTimes(1);
+    await expect(service.createSubscription(7, 'Free', 'monthly')).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('grants the plan on confirm and records each sale once', async () => {
+    await service.createSubscription(7, 'Pro', 'monthly');
+    await service.confirm(7, 'I-1');
+    expect(user.plan).toBe('Pro');
+    expect(user.plan_expiry.getTime()).toBe(nextBilling.getTime() + 3 * DAY_MS);
+
+    subs.query.mockImplementation(async (sql: string) => (sql.startsWith('INSERT INTO payments') ? [{ id: 1 }] : []));
+    const sale = { id: 'SALE-1', state: 'completed', billing_agreement_id: 'I-1', amount: { total: '12.99', currency: 'USD' } };
+    expect(await service.handleWebhook({ event_type: 'PAYMENT.SALE.COMPLETED', resource: sale })).toBe(true);
+
+    const insert = subs.query.mock.calls.find(([sql]: [string]) => sql.startsWith('INSERT INTO payments'));
+    expect(insert[1].slice(0, 7)).toEqual([7, 'Pro', 'monthly', 12.99, 'USD', 'SALE-1', 'regular']);
+
+    // replayed webhook: insert conflicts, nothing else changes
+    subs.query.mockResolvedValue([]);
+    users.save.mockClear();
+    await service.handleWebhook({ event_type: 'PAYMENT.SALE.COMPLETED', resource: sale });
+    expect(users.save).not.toHaveBeenCalled();
+    expect(user.plan_expiry.getTime()).toBe(nextBilling.getTime() + 3 * DAY_MS);
+  });
+
+  it('keeps a failed renewal inside the grace period and ends access at period end on cancel', async () => {
+    await service.createSubscription(7, 'Pro', 'monthly');
+    await service.confirm(7, 'I-1');
+
+    const failed = { ...remoteActive('I-1'), billing_info: { failed_payments_count: 1, next_billing_time: new Date(Date.now() + 60 * DAY_MS).toISOString() } };
+    await service.handleWebhook({ event_type: 'BILLING.SUBSCRIPTION.PAYMENT.FAILED', resource: failed });
+    expect(subs.rows[0].currentPeriodEnd.getTime()).toBe(nextBilling.getTime());
+    expect((await service.getView(7))?.billing_status).toBe('past_due');
+
+    await service.handleWebhook({ event_type: 'BILLING.SUBSCRIPTION.CANCELLED', resource: { ...failed, status: 'CANCELLED' } });
+    expect(user.plan).toBe('Pro');
+    expect(user.plan_expiry.getTime()).toBe(nextBilling.getTime());
+    expect(await service.getView(7)).toEqual(expect.objectContaining({ billing_status: 'cancelled', cancel_at_period_end: true, next_billing_date: null }));
+  });
+
+  it('cancels on PayPal and resubscribes from the end of the paid period', async () => {
+    await service.createSubscription(7, 'Pro', 'monthly');
+    await service.confirm(7, 'I-1');
+
+    const cancelled = await service.cancel(7, 'too expensive');
+    expect(paypal.cancelSubscriptionOnPayPal).toHaveBeenCalledWith('I-1', 'too expensive');
+    expect(cancelled.billing_status).toBe('cancelled');
+
+    (paypal.createSubscriptionOnPayPal as any).mockResolvedValue({ id: 'I-2', links: [{ rel: 'approve', href: 'https://paypal.test/approve/I-2' }] });
+    const resumed = await service.reactivate(7);
+    expect(resumed.approve_url).toBe('https://paypal.test/approve/I-2');
+    expect((paypal.createSubscriptionOnPayPal as any).mock.calls[1][0].start_time).toBe(nextBilling.toISOString());
+  });
+
+  it('downgrades subscribers whose plan has lapsed', async () => {
+    await service.createSubscription(7, 'Pro', 'monthly');
+    subs.rows[0].status = 'expired';
+    user.plan = 'Pro';
+    user.plan_expiry = new Date(Date.now() - DAY_MS);
+    subs.query.mockResolvedValue([{ user_id: 7 }]);
+
+    expect(await service.sweepLapsed()).toBe(1);
+    expect(user).toEqual(expect.objectContaining({ plan: 'Free', plan_expiry: null }));
+  });
+});
@@ -0,0 +1,592 @@
+import { BadGatewayException, BadRequestException, Injectable, Logger, NotFoundException, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectRepository } from "@nestjs/typeorm";
+import { In, Repository } from "typeorm";
+import { Subscription, SubscriptionStatus } from "./subscription.entity";
+import { PaypalBillingPlan } from "./billing-plan.entity";
+import { User } from "../user/user.entity";
+import {
+  activateSubscriptionOnPayPal,
+  cancelSubscriptionOnPayPal,
+  createBillingPlanOnPayPal,
+  createProductOnPayPal,
+  createSubscriptionOnPayPal,
+  getSubscriptionOnPayPal,
+} from "./paypal.client";
+import { BillingPeriod, PAID_PLANS, addBillingPeriod, normalizeBillingPeriod, normalizePaidPlan, planPrice } from "./plan-pricing";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// PayPal retries a failed renewal for a few days before suspending, so access runs this long past the billing date
+const RENEWAL_GRACE_DAYS = 3;
+
+// An unapproved subscription's approve link is reused for this long instead of creating another one
+const APPROVAL_REUSE_MS = 3 * 60 * 60 * 1000;
+
+// Subscriptions that are still set to bill the user
+export const LIVE_STATUSES: SubscriptionStatus[] = ["approved", "active", "suspended"];
+
+/**
+ * Subscription as shown on the account pages (same field names the frontend already reads).
+ */
+export interface SubscriptionView {
+  id: number;
+  subscription_id: string;
+  plan: string;
+  billing_status: "pending" | "active" | "past_due" | "suspended" | "cancelled" | "expired";
+  billing_frequency: string;
+  next_billing_date: string | null;
+  next_billing_amount: number | null;
+  last_payment_date: string | null;
+  current_period_end: string | null;
+  cancel_at_period_end: boolean;
+  failed_payments: number;
+  approve_url: string | null;
+  payment_method: { brand: string; masked: string } | null;
+  metadata: { paypal_status: string };
+}
+
+/**
+ * Recurring billing through PayPal Billing Plans / Subscriptions.
+ *
+ * A subscription starts as approval_pending with an approve link; once the buyer approves, PayPal
+ * activates it and charges the first cycle. Webhooks (BILLING.SUBSCRIPTION.*, PAYMENT.SALE.*) then
+ * keep the row in sync: each completed sale is recorded in payments and moves current_period_end
+ * (and user.plan_expiry, plus a grace period) forward; cancellation and suspension keep access until
+ * the paid-through date, after which the sweep downgrades the user to Free.
+ *
+ * Env: PAYPAL_PLAN_ID_<PLAN>_<PERIOD> (use existing PayPal plans instead of creating them),
+ * PAYPAL_PRODUCT_ID, FRONTEND_ORIGIN (return/cancel URLs), SUBSCRIPTIONS_SWEEP_MS (hourly; 0 disables).
+ */
+@Injectable()
+export class SubscriptionsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SubscriptionsService.name);
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @InjectRepository(Subscription)
+    private readonly subscriptionRepo: Repository<Subscription>,
+    @InjectRepository(PaypalBillingPlan)
+    private readonly billingPlanRepo: Repository<PaypalBillingPlan>,
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+    private readonly config: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    const everyMs = Number(this.config.get("SUBSCRIPTIONS_SWEEP_MS") ?? 60 * 60 * 1000);
+    if (!everyMs || everyMs <= 0 || process.env.NODE_ENV === "test") return;
+    this.sweepTimer = setInterval(() => {
+      this.sweepLapsed().catch((err) => this.logger.warn(`Subscription sweep failed: ${err?.message ?? err}`));
+    }, everyMs);
+    this.sweepTimer.unref?.();
+  }
+
+  onModuleDestroy() {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.sweepTimer = null;
+  }
+
+  static toView(row: Subscription): SubscriptionView {
+    const price = planPrice(row.plan, row.billingPeriod);
+    const iso = (d: Date | null | undefined) => (d ? new Date(d).toISOString() : null);
+    let billingStatus: SubscriptionView["billing_status"];
+    switch (row.status) {
+      case "active":
+        billingStatus = row.failedPayments > 0 ? "past_due" : "active";
+        break;
+      case "suspended":
+      case "cancelled":
+      case "expired":
+        billingStatus = row.status;
+        break;
+      default:
+        billingStatus = "pending";
+    }
+    return {
+      id: row.id,
+      subscription_id: row.paypalSubscriptionId,
+      plan: row.plan,
+      billing_status: billingStatus,
+      billing_frequency: row.billingPeriod,
+      next_billing_date: row.status === "active" && !row.cancelAtPeriodEnd ? iso(row.nextBillingTime) : null,
+      next_billing_amount: Number(price.amount),
+      last_payment_date: iso(row.lastPaymentAt),
+      current_period_end: iso(row.currentPeriodEnd),
+      cancel_at_period_end: !!row.cancelAtPeriodEnd,
+      failed_payments: row.failedPayments ?? 0,
+      approve_url: row.status === "approval_pending" ? row.approveUrl : null,
+      payment_method: row.payerEmail ? { brand: "PayPal", masked: row.payerEmail } : null,
+      metadata: { paypal_status: row.status },
+    };
+  }
+
+  /* ---------- User actions ---------- */
+
+  /**
+   * Start a subscription and return it with the PayPal approve_url to redirect the buyer to.
+   * opts.startTime delays the first charge (used when resubscribing before a cancelled period ends).
+   */
+  async createSubscription(userId: number, plan: string, billingPeriod?: string, opts: { startTime?: Date | null } = {}): Promise<SubscriptionView> {
+    const planName = normalizePaidPlan(plan);
+    if (!planName) throw new BadRequestException("Choose the Pro or Tutor plan to subscribe.");
+    const period = normalizeBillingPeriod(billingPeriod);
+    if (!period) throw new BadRequestException("Invalid billing period");
+
+    const pending = await this.subscriptionRepo.findOne({
+      where: { user_id: userId, plan: planName, billingPeriod: period, status: "approval_pending" },
+      order: { createdAt: "DESC" },
+    });
+    if (pending?.approveUrl && Date.now() - new Date(pending.createdAt).getTime() < APPROVAL_REUSE_MS) {
+      return SubscriptionsService.toView(pending);
+    }
+
+    const paypalPlanId = await this.ensureBillingPlan(planName, period);
+    const user = await this.userRepo.findOne({ where: { id: userId } });
+    const origin = String(this.config.get("FRONTEND_ORIGIN") || "http://localhost:3000").replace(/\/$/, "");
+
+    let created: any;
+    try {
+      created = await createSubscriptionOnPayPal({
+        plan_id: paypalPlanId,
+        custom_id: String(userId),
+        ...(opts.startTime && opts.startTime.getTime() > Date.now() ? { start_time: opts.startTime.toISOString() } : {}),
+        ...(user?.email ? { subscriber: { email_address: user.email } } : {}),
+        application_context: {
+          brand_name: "BrainiHi",
+          user_action: "SUBSCRIBE_NOW",
+          shipping_preference: "NO_SHIPPING",
+          return_url: `${origin}/subscription?paypal=approved`,
+          cancel_url: `${origin}/checkout?plan=${planName}&billingPeriod=${period}&paypal=cancelled`,
+        },
+      });
+    } catch (err: any) {
+      this.logger.warn(`createSubscription: PayPal rejected subscription for user=${userId}: ${err?.message ?? err}`);
+      throw new BadGatewayException("PayPal could not start the subscription. Please try again.");
+    }
+
+    const approveUrl = (created?.links ?? []).find((l: any) => l?.rel === "approve")?.href ?? null;
+    if (!created?.id || !approveUrl) throw new BadGatewayException("PayPal did not return an approval link.");
+
+    const row = await this.subscriptionRepo.save(
+      this.subscriptionRepo.create({
+        user_id: userId,
+        plan: planName,
+        billingPeriod: period,
+        paypalSubscriptionId: created.id,
+        paypalPlanId,
+        status: "approval_pending",
+        approveUrl,
+        raw: created,
+      }),
+    );
+    return SubscriptionsService.toView(row);
+  }
+
+  /**
+   * Called when the buyer returns from PayPal: pulls the subscription so the plan is granted
+   * without waiting for the activation webhook.
+   */
+  async confirm(userId: number, paypalSubscriptionId: string): Promise<SubscriptionView> {
+    const row = await this.subscriptionRepo.findOne({ where: { paypalSubscriptionId } });
+    if (!row || row.user_id !== userId) throw new NotFoundException("Subscription not found");
+    try {
+      await this.syncFromPayPal(row, await getSubscriptionOnPayPal(paypalSubscriptionId));
+    } catch (err: any) {
+      this.logger.warn(`confirm: failed to fetch subscription ${paypalSubscriptionId}: ${err?.message ?? err}`);
+    }
+    return SubscriptionsService.toView(row);
+  }
+
+  // The user's current subscription (or the one awaiting approval); null when they never subscribed
+  async getView(userId: number): Promise<SubscriptionView | null> {
+    const row = (await this.currentFor(userId)) ?? (await this.subscriptionRepo.findOne({ where: { user_id: userId }, order: { createdAt: "DESC" } }));
+    return row ? SubscriptionsService.toView(row) : null;
+  }
+
+  // Stops renewals; the plan stays until the end of the paid period
+  async cancel(userId: number, reason?: string | null): Promise<SubscriptionView> {
+    const row = await this.currentFor(userId);
+    if (!row || !LIVE_STATUSES.includes(row.status)) throw new BadRequestException("No active subscription to cancel.");
+    try {
+      await cancelSubscriptionOnPayPal(row.paypalSubscriptionId, String(reason || "Cancelled by customer").slice(0, 127));
+    } catch (err: any) {
+      this.logger.warn(`cancel: PayPal cancel failed for ${row.paypalSubscriptionId}: ${err?.message ?? err}`);
+      throw new BadGatewayException("PayPal could not cancel the subscription. Please try again.");
+    }
+    row.status = "cancelled";
+    row.cancelAtPeriodEnd = true;
+    row.nextBillingTime = null;
+    await this.subscriptionRepo.save(row);
+    await this.applyToUser(row);
+    return SubscriptionsService.toView(row);
+  }
+
+  /**
+   * Suspended subscriptions are resumed on PayPal. Cancelled or expired ones cannot be, so a new
+   * subscription is started (billing from the end of any remaining paid period) and returned with
+   * its approve_url.
+   */
+  async reactivate(userId: number): Promise<SubscriptionView> {
+    const row = await this.currentFor(userId);
+    if (!row) throw new BadRequestException("No subscription to reactivate. Choose a plan to subscribe.");
+
+    if (row.status === "suspended") {
+      try {
+        await activateSubscriptionOnPayPal(row.paypalSubscriptionId, "Reactivated by customer");
+      } catch (err: any) {
+        this.logger.warn(`reactivate: PayPal activate failed for ${row.paypalSubscriptionId}: ${err?.message ?? err}`);
+        throw new BadGatewayException("PayPal could not reactivate the subscription. Please try again.");
+      }
+      row.status = "active";
+      row.cancelAtPeriodEnd = false;
+      await this.subscriptionRepo.save(row);
+      await this.applyToUser(row);
+      return SubscriptionsService.toView(row);
+    }
+
+    if (row.status === "cancelled" || row.status === "expired") {
+      const paidUntil = row.currentPeriodEnd && new Date(row.currentPeriodEnd).getTime() > Date.now() ? new Date(row.currentPeriodEnd) : null;
+      return this.createSubscription(userId, row.plan, row.billingPeriod, { startTime: paidUntil });
+    }
+
+    throw new BadRequestException("Your subscription is already active.");
+  }
+
+  // PayPal's automatic payments page, where subscribers manage their funding source
+  async getPortalUrl(userId: number): Promise<string | null> {
+    const row = await this.currentFor(userId);
+    if (!row) return null;
+    return process.env.PAYPAL_MODE === "live" ? "https://www.paypal.com/myaccount/autopay/" : "https://www.sandbox.paypal.com/myaccount/autopay/";
+  }
+
+  /* ---------- Webhooks ---------- */
+
+  /**
+   * Handles BILLING.SUBSCRIPTION.* and PAYMENT.SALE.* events. Returns false for anything else so
+   * the caller can fall through to order handling. Safe to replay: a sale is recorded once.
+   */
+  async handleWebhook(event: any): Promise<boolean> {
+    const type = String(event?.event_type ?? "");
+    if (!type.startsWith("BILLING.SUBSCRIPTION.") && !type.startsWith("PAYMENT.SALE.")) return false;
+    const resource = event?.resource ?? {};
+
+    if (type.startsWith("PAYMENT.SALE.")) {
+      await this.onSale(type, resource);
+      return true;
+    }
+
+    const row = await this.findOrAdopt(resource);
+    if (!row) {
+      this.logger.warn(`handleWebhook: ${type} for unknown subscription ${resource?.id ?? "?"}`);
+      return true;
+    }
+    if (type === "BILLING.SUBSCRIPTION.CANCELLED") row.cancelAtPeriodEnd = true;
+    await this.syncFromPayPal(row, resource);
+    return true;
+  }
+
+  private async onSale(type: string, sale: any) {
+    const subscriptionId = sale?.billing_agreement_id ?? null;
+    if (!subscriptionId) return;
+
+    if (type !== "PAYMENT.SALE.COMPLETED") {
+      // denied / pending: mirror the state on the recorded payment (refunds go through RefundsService)
+      const status = String(sale?.state ?? type.split(".").pop()).toLowerCase();
+      await this.subscriptionRepo.query(`UPDATE payments SET status = $1, updated_at = now() WHERE paypal_capture_id = $2`, [status, String(sale?.id ?? "")]);
+      return;
+    }
+
+    let row = await this.subscriptionRepo.findOne({ where: { paypalSubscriptionId: subscriptionId } });
+    let remote: any = null;
+    try {
+      remote = await getSubscriptionOnPayPal(subscriptionId);
+    } catch (err: any) {
+      this.logger.warn(`onSale: failed to fetch subscription ${subscriptionId}: ${err?.message ?? err}`);
+    }
+    if (!row && remote) row = await this.findOrAdopt(remote);
+    if (!row) {
+      this.logger.warn(`onSale: sale ${sale?.id} for unknown subscription ${subscriptionId}`);
+      return;
+    }
+
+    const saleTime = sale?.create_time ? new Date(sale.create_time) : new Date();
+    const previous = await this.subscriptionRepo.query(`SELECT 1 FROM payments WHERE raw->'__meta'->>'subscription_id' = $1 LIMIT 1`, [row.paypalSubscriptionId]);
+    const recorded = await this.recordPayment(row, sale, previous?.length ? "renewal" : "regular", saleTime);
+    if (!recorded) return;
+
+    row.lastPaymentAt = saleTime;
+    row.lastPaymentAmount = sale?.amount?.total ?? row.lastPaymentAmount;
+    row.failedPayments = 0;
+    if (remote) {
+      await this.syncFromPayPal(row, remote, true);
+      return;
+    }
+    // PayPal unreachable: extend by one period from the end of the one just paid for
+    const base = row.currentPeriodEnd && new Date(row.currentPeriodEnd).getTime() > saleTime.getTime() ? new Date(row.currentPeriodEnd) : saleTime;
+    row.currentPeriodEnd = addBillingPeriod(base, row.billingPeriod);
+    row.nextBillingTime = row.currentPeriodEnd;
+    if (row.status !== "cancelled") row.status = "active";
+    await this.subscriptionRepo.save(row);
+    await this.applyToUser(row);
+  }
+
+  // Inserts the sale into payments; false when it was already recorded (webhook replay)
+  private async recordPayment(row: Subscription, sale: any, reason: "regular" | "renewal", saleTime: Date): Promise<boolean> {
+    const minute = new Date(saleTime);
+    minute.setSeconds(0, 0);
+    const rows = await this.subscriptionRepo.query(
+      `INSERT INTO payments (user_id, plan, billing_period, amount, currency, paypal_capture_id, status, reason, change_to, payer_email, raw, created_at, created_at_minute, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, 'completed', $7, $2, $8, $9::jsonb, $10, $11, now())
+       ON CONFLICT DO NOTHING
+       RETURNING id`,
+      [
+        row.user_id,
+        row.plan,
+        row.billingPeriod,
+        Number(sale?.amount?.total ?? planPrice(row.plan, row.billingPeriod).amount),
+        sale?.amount?.currency ?? "USD",
+        String(sale?.id ?? ""),
+        reason,
+        row.payerEmail,
+        JSON.stringify({ ...sale, __meta: { reason, change_to: row.plan, subscription_id: row.paypalSubscriptionId } }),
+        saleTime.toISOString(),
+        minute.toISOString(),
+      ],
+    );
+    return Array.isArray(rows) && rows.length > 0;
+  }
+
+  /* ---------- Sync / plan changes ---------- */
+
+  /**
+   * Copy PayPal's view of a subscription onto the row and the user. current_period_end only moves
+   * forward after a successful payment (paymentJustCompleted) or on first activation, so a failed
+   * renewal never extends access.
+   */
+  private async syncFromPayPal(row: Subscription, remote: any, paymentJustCompleted = false) {
+    const wasActive = row.status === "active";
+    const status = String(remote?.status ?? "").toLowerCase() as SubscriptionStatus;
+    if (status) row.status = status;
+    row.paypalPlanId = remote?.plan_id ?? row.paypalPlanId;
+    row.payerEmail = remote?.subscriber?.email_address ?? row.payerEmail;
+    if (remote?.billing_info?.failed_payments_count != null) row.failedPayments = Number(remote.billing_info.failed_payments_count) || 0;
+
+    const lastPayment = remote?.billing_info?.last_payment;
+    if (lastPayment?.time && (!row.lastPaymentAt || new Date(lastPayment.time) > new Date(row.lastPaymentAt))) {
+      row.lastPaymentAt = new Date(lastPayment.time);
+      row.lastPaymentAmount = lastPayment?.amount?.value ?? row.lastPaymentAmount;
+    }
+
+    const next = remote?.billing_info?.next_billing_time ? new Date(remote.billing_info.next_billing_time) : null;
+    row.nextBillingTime = row.status === "active" ? next : null;
+    if (row.status === "active" && next && (!row.currentPeriodEnd || (paymentJustCompleted && next > new Date(row.currentPeriodEnd)))) {
+      row.currentPeriodEnd = next;
+    }
+    if (row.status !== "approval_pending") row.approveUrl = null;
+    if (row.status === "active") row.cancelAtPeriodEnd = false;
+    if (row.status === "cancelled") row.cancelAtPeriodEnd = true;
+    row.raw = remote;
+    await this.subscriptionRepo.save(row);
+
+    if (row.status === "active" && !wasActive) await this.cancelReplaced(row);
+    await this.applyToUser(row);
+  }
+
+  /**
+   * Set user.plan / plan_expiry from the subscription, if it is the user's current one (an old
+   * subscription being cancelled after a plan change must not touch the new plan).
+   */
+  private async applyToUser(row: Subscription) {
+    const current = await this.currentFor(row.user_id);
+    if (current && current.id !== row.id) return;
+    const user = await this.userRepo.findOne({ where: { id: row.user_id } });
+    if (!user) return;
+
+    const periodEnd = row.currentPeriodEnd ? new Date(row.currentPeriodEnd) : null;
+    if (row.status === "active" && periodEnd) {
+      user.plan = row.plan;
+      user.plan_expiry = new Date(periodEnd.getTime() + RENEWAL_GRACE_DAYS * DAY_MS);
+    } else if ((row.status === "cancelled" || row.status === "suspended") && periodEnd && periodEnd.getTime() > Date.now()) {
+      user.plan = row.plan;
+      user.plan_expiry = periodEnd;
+    } else if (row.status === "cancelled" || row.status === "suspended" || row.status === "expired") {
+      user.plan = "Free";
+      user.plan_expiry = null;
+    } else {
+      return;
+    }
+    await this.userRepo.save(user);
+  }
+
+  // A newly activated subscription replaces any other live one (plan or billing period change)
+  private async cancelReplaced(row: Subscription) {
+    const others = await this.subscriptionRepo.find({ where: { user_id: row.user_id, status: In(LIVE_STATUSES) } });
+    for (const other of others) {
+      if (other.id === row.id) continue;
+      try {
+        await cancelSubscriptionOnPayPal(other.paypalSubscriptionId, `Replaced by ${row.paypalSubscriptionId}`);
+      } catch (err: any) {
+        this.logger.warn(`cancelReplaced: PayPal cancel failed for ${other.paypalSubscriptionId}: ${err?.message ?? err}`);
+      }
+      other.status = "cancelled";
+      other.cancelAtPeriodEnd = true;
+      other.nextBillingTime = null;
+      await this.subscriptionRepo.save(other);
+    }
+  }
+
+  /**
+   * A refunded subscription payment: pull current_period_end back by the refunded time; a full
+   * refund also cancels the subscription so PayPal stops billing. user.plan_expiry is adjusted by
+   * RefundsService.
+   */
+  async applyRefund(paypalSubscriptionId: string, cutMs: number, full: boolean) {
+    const row = await this.subscriptionRepo.findOne({ where: { paypalSubscriptionId } });
+    if (!row) return;
+    if (row.currentPeriodEnd) row.currentPeriodEnd = new Date(new Date(row.currentPeriodEnd).getTime() - cutMs);
+    if (full && LIVE_STATUSES.includes(row.status)) {
+      try {
+        await cancelSubscriptionOnPayPal(row.paypalSubscriptionId, "Payment refunded");
+      } catch (err: any) {
+        this.logger.warn(`applyRefund: PayPal cancel failed for ${row.paypalSubscriptionId}: ${err?.message ?? err}`);
+      }
+      row.status = "cancelled";
+      row.cancelAtPeriodEnd = true;
+      row.nextBillingTime = null;
+    }
+    await this.subscriptionRepo.save(row);
+  }
+
+  /**
+   * Downgrade subscribers whose plan_expiry has passed. Live subscriptions are re-read from PayPal
+   * first so a missed renewal webhook does not cost the user their plan.
+   */
+  async sweepLapsed(): Promise<number> {
+    const lapsed: Array<{ user_id: number }> = await this.subscriptionRepo.query(
+      `SELECT DISTINCT s.user_id FROM subscriptions s JOIN "user" u ON u.id = s.user_id
+       WHERE LOWER(u.plan) <> 'free' AND u.plan_expiry IS NOT NULL AND u.plan_expiry < now()
+       LIMIT 200`,
+    );
+    let downgraded = 0;
+    for (const { user_id } of lapsed ?? []) {
+      const row = await this.currentFor(Number(user_id));
+      if (row && LIVE_STATUSES.includes(row.status)) {
+        try {
+          await this.syncFromPayPal(row, await getSubscriptionOnPayPal(row.paypalSubscriptionId));
+        } catch (err: any) {
+          this.logger.warn(`sweepLapsed: failed to refresh ${row.paypalSubscriptionId}: ${err?.message ?? err}`);
+        }
+      }
+      const user = await this.userRepo.findOne({ where: { id: Number(user_id) } });
+      if (user && user.plan_expiry && new Date(user.plan_expiry).getTime() < Date.now()) {
+        user.plan = "Free";
+        user.plan_expiry = null;
+        await this.userRepo.save(user);
+        downgraded++;
+      }
+    }
+    if (downgraded) this.logger.log(`sweepLapsed: downgraded ${downgraded} user(s) to Free`);
+    return downgraded;
+  }
+
+  /* ---------- Lookups ---------- */
+
+  // Most recent subscription that got past approval
+  private async currentFor(userId: number): Promise<Subscription | null> {
+    const rows = await this.subscriptionRepo.find({ where: { user_id: userId }, order: { createdAt: "DESC" }, take: 10 });
+    return rows.find((r) => r.status !== "approval_pending") ?? null;
+  }
+
+  // Row for a PayPal subscription resource, created from custom_id (our user id) when missing
+  private async findOrAdopt(resource: any): Promise<Subscription | null> {
+    const id = resource?.id ?? null;
+    if (!id) return null;
+    const existing = await this.subscriptionRepo.findOne({ where: { paypalSubscriptionId: id } });
+    if (existing) return existing;
+
+    const userId = Number(resource?.custom_id);
+    const plan = await this.planForPaypalPlanId(resource?.plan_id);
+    if (!userId || !plan) return null;
+    return this.subscriptionRepo.save(
+      this.subscriptionRepo.create({
+        user_id: userId,
+        plan: plan.plan,
+        billingPeriod: plan.billingPeriod,
+        paypalSubscriptionId: id,
+        paypalPlanId: resource?.plan_id ?? null,
+        status: "approval_pending",
+        raw: resource,
+      }),
+    );
+  }
+
+  /* ---------- Billing plans ---------- */
+
+  private envPlanId(plan: string, period: BillingPeriod): string | null {
+    return this.config.get<string>(`PAYPAL_PLAN_ID_${plan.toUpperCase()}_${period.toUpperCase()}`) || null;
+  }
+
+  private async planForPaypalPlanId(paypalPlanId?: string | null): Promise<{ plan: string; billingPeriod: BillingPeriod } | null> {
+    if (!paypalPlanId) return null;
+    for (const plan of PAID_PLANS) {
+      for (const period of ["monthly", "yearly"] as BillingPeriod[]) {
+        if (this.envPlanId(plan, period) === paypalPlanId) return { plan, billingPeriod: period };
+      }
+    }
+    const row = await this.billingPlanRepo.findOne({ where: { paypalPlanId } });
+    const period = normalizeBillingPeriod(row?.billingPeriod);
+    return row && period ? { plan: row.plan, billingPeriod: period } : null;
+  }
+
+  /**
+   * PayPal plan id for a plan + period: from env, else the stored plan if its price is current,
+   * else a new PayPal plan (and product, on first use) at today's price.
+   */
+  async ensureBillingPlan(plan: string, period: BillingPeriod): Promise<string> {
+    const fromEnv = this.envPlanId(plan, period);
+    if (fromEnv) return fromEnv;
+
+    const price = planPrice(plan, period);
+    const existing = await this.billingPlanRepo.findOne({ where: { plan, billingPeriod: period } });
+    if (existing && Number(existing.amount) === Number(price.amount) && existing.currency === price.currency) return existing.paypalPlanId;
+
+    try {
+      let productId = existing?.paypalProductId || this.config.get<string>("PAYPAL_PRODUCT_ID") || null;
+      if (!productId) {
+        const product = await createProductOnPayPal({ name: "BrainiHi CBT", description: "BrainiHi CBT practice plans" }, "brainihi-cbt-product");
+        productId = product?.id ?? null;
+      }
+      const created = await createBillingPlanOnPayPal(
+        {
+          product_id: productId,
+          name: `BrainiHi ${plan} (${period})`,
+          status: "ACTIVE",
+          billing_cycles: [
+            {
+              frequency: { interval_unit: period === "yearly" ? "YEAR" : "MONTH", interval_count: 1 },
+              tenure_type: "REGULAR",
+              sequence: 1,
+              total_cycles: 0,
+              pricing_scheme: { fixed_price: { value: price.amount, currency_code: price.currency } },
+            },
+          ],
+          payment_preferences: { auto_bill_outstanding: true, setup_fee_failure_action: "CONTINUE", payment_failure_threshold: 3 },
+        },
+        `brainihi-plan-${plan}-${period}-${price.amount}-${price.currency}`.toLowerCase(),
+      );
+      if (!created?.id) throw new Error("no plan id returned");
+
+      const row = existing ?? this.billingPlanRepo.create({ plan, billingPeriod: period });
+      row.amount = price.amount;
+      row.currency = price.currency;
+      row.paypalProductId = productId;
+      row.paypalPlanId = created.id;
+      await this.billingPlanRepo.save(row);
+      return created.id;
+    } catch (err: any) {
+      this.logger.warn(`ensureBillingPlan: failed for ${plan}/${period}: ${err?.message ?? err}`);
+      throw new BadGatewayException("PayPal billing plan is unavailable. Please try again later.");
+    }
+  }
+}
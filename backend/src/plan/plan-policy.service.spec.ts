@@ -0,0 +1,133 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { PlanPolicyService } from './plan-policy.service';
+import { SettingsService } from '../modules/settings/settings.service';
+import { AiUsage } from '../ai/ai-usage.entity';
+import { TestAttempt } from '../test/test.entity';
+
+declare const describe: any;
+declare const beforeEach: any;
+declare const it: any;
+declare const expect: any;
+declare const jest: any;
+
+describe('PlanPolicyService', () => {
+  let service: PlanPolicyService;
+  let settings: any;
+  let usageRow: any;
+  let settingsService: Record<string, any>;
+  let testRepo: Record<string, any>;
+
+  const today = () => new Date().toISOString().slice(0, 10);
+
+  beforeEach(async () => {
+    settings = null;
+    usageRow = null;
+    settingsService = {
+      getSettings: jest.fn(async () => settings),
+      saveSettings: jest.fn(async (s: any) => {
+        settings = s;
+        return s;
+      }),
+    };
+    testRepo = { count: jest.fn(async () => 0) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PlanPolicyService,
+        { provide: SettingsService, useValue: settingsService },
+        {
+          provide: getRepositoryToken(AiUsage),
+          useValue: { findOne: jest.fn(async () => usageRow), query: jest.fn(async () => [{ plan: 'free' }]) },
+        },
+        { provide: getRepositoryToken(TestAttempt), useValue: testRepo },
+      ],
+    }).compile();
+
+    service = module.get<PlanPolicyService>(PlanPolicyService);
+  });
+
+  it('applies settings overrides on top of the code defaults, null meaning unlimited', async () => {
+    settings = { limits: { enforcePlanLimits: true, perPlan: { free: { testsPerDay: null, questionCountMax: 5 } } } };
+    const limits = await service.getLimits('FREE');
+    expect(limits.testsPerDay).toBe(Infinity);
+    expect(limits.questionCount).toBe(5);
+    expect(limits.attemptsPerTest).toBe(1);
+  });
+
+  it('treats a stored 0 as no limit, like the admin settings page always has', async () => {
+    settings = { limits: { enforcePlanLimits: true, perPlan: { free: { testsPerDay: 0, questionCountMax: 0, attemptsPerTest: 0, explanationsPerMonth: 0, hintsPerMonth: 0 } } } };
+    usageRow = { userId: 7, testsTodayDate: today(), testsTodayCount: 50 };
+    const limits = await service.getLimits('free');
+    expect([limits.testsPerDay, limits.attemptsPerTest, limits.explanationsPerMonth, limits.hintsPerMonth]).toEqual([Infinity, Infinity, Infinity, Infinity]);
+    expect(limits.questionCount).toBe(10);
+    expect((await service.decide(7, 'create_test', { plan: 'Free' })).allowed).toBe(true);
+  });
+
+  it('ignores the stored overrides while enforcePlanLimits is off and runs on the code defaults', async () => {
+    settings = { limits: { enforcePlanLimits: false, perPlan: { free: { testsPerDay: 9999, hintsPerMonth: 1 } } } };
+    const limits = await service.getLimits('free');
+    expect(limits.testsPerDay).toBe(1);
+    expect(limits.hintsPerMonth).toBe(5);
+    const [free] = await service.describe();
+    expect(free).toEqual(expect.objectContaining({ enforced: false, overrides: { testsPerDay: 9999, hintsPerMonth: 1 } }));
+    expect(free.effective.testsPerDay).toBe(1);
+
+    await service.setEnforced(true);
+    expect(settings.limits).toEqual(expect.objectContaining({ enforcePlanLimits: true, perPlan: expect.any(Object) }));
+    expect((await service.getLimits('free')).testsPerDay).toBe(9999);
+  });
+
+  it('denies create_test once the daily limit is used, looking up the plan when not given', async () => {
+    usageRow = { userId: 7, testsTodayDate: today(), testsTodayCount: 1 };
+    const decision = await service.decide(7, 'create_test');
+    expect(decision).toEqual(
+      expect.objectContaining({ plan: 'Free', allowed: false, limit: 1, used: 1, remaining: 0, reason: 'daily_test_limit' }),
+    );
+    await expect(service.assertAllowed(7, 'create_test')).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('reports question_count_limit before the daily limit', async () => {
+    const decision = await service.decide(7, 'create_test', { plan: 'Pro', questionCount: 50 });
+    expect(decision).toEqual(expect.objectContaining({ allowed: false, reason: 'question_count_limit', limit: null }));
+  });
+
+  it('lets Tutor explanations run past the monthly quota as a soft limit', async () => {
+    usageRow = { userId: 7, explanationsMonth: today().slice(0, 7), explanationsCount: 1000 };
+    const tutor = await service.decide(7, 'explain', { plan: 'Tutor' });
+    expect(tutor).toEqual(expect.objectContaining({ allowed: true, soft: true, reason: null }));
+
+    const pro = await service.decide(7, 'explain', { plan: 'Pro' });
+    expect(pro).toEqual(expect.objectContaining({ allowed: false, reason: 'explanation_limit' }));
+  });
+
+  it('meters hints per month, with overrides and a counter that resets each month', async () => {
+    usageRow = { userId: 7, hintsMonth: today().slice(0, 7), hintsCount: 5 };
+    expect(await service.decide(7, 'hint', { plan: 'Free' })).toEqual(
+      expect.objectContaining({ allowed: false, limit: 5, used: 5, reason: 'hint_limit' }),
+    );
+    expect((await service.decide(7, 'hint', { plan: 'Tutor' })).remaining).toBeNull();
+
+    settings = { limits: { enforcePlanLimits: true, perPlan: { free: { hintsPerMonth: 8 } } } };
+    expect((await service.decide(7, 'hint', { plan: 'Free' })).remaining).toBe(3);
+
+    usageRow = { userId: 7, hintsMonth: '2000-01', hintsCount: 50 };
+    expect((await service.decide(7, 'hint', { plan: 'Free' })).used).toBe(0);
+  });
+
+  it('gates the personal tutor by plan feature', async () => {
+    expect((await service.decide(7, 'tutor', { plan: 'Pro' })).reason).toBe('feature_not_in_plan');
+    expect((await service.decide(7, 'tutor', { plan: 'Tutor' })).allowed).toBe(true);
+  });
+
+  it('writes only limits.perPlan and keeps the rest of the settings', async () => {
+    settings = { footerHtml: '<p>x</p>', limits: { perPlan: { tutor: { testsPerDay: 3 } } } };
+    await service.setOverrides('pro', { attemptsPerTest: 5, explanationsPerMonth: null });
+    expect(settings.footerHtml).toBe('<p>x</p>');
+    expect(settings.limits.perPlan).toEqual({ tutor: { testsPerDay: 3 }, pro: { attemptsPerTest: 5, explanationsPerMonth: null } });
+
+    await service.setOverrides('pro', null);
+    expect(settings.limits.perPlan).toEqual({ tutor: { testsPerDay: 3 } });
+  });
+});
@@ -0,0 +1,299 @@
+import { BadRequestException, ForbiddenException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AiUsage } from '../ai/ai-usage.entity';
+import { TestAttempt } from '../test/test.entity';
+import { SettingsService } from '../modules/settings/settings.service';
+import { PLAN_NAMES, PlanLimits, PlanName, normalizePlanName, planLimits } from './plan.constants';
+
+export type PlanAction = 'create_test' | 'attempt_test' | 'explain' | 'hint' | 'tutor';
+
+export type PolicyDenialReason =
+  | 'daily_test_limit'
+  | 'question_count_limit'
+  | 'attempt_limit'
+  | 'explanation_limit'
+  | 'hint_limit'
+  | 'feature_not_in_plan';
+
+/**
+ * Outcome of one policy check. limit/remaining are null when unlimited; reason and message
+ * explain a denial (both null when allowed). soft = allowed past the limit (Tutor explanations).
+ */
+export type PolicyDecision = {
+  action: PlanAction;
+  allowed: boolean;
+  plan: PlanName;
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  reason: PolicyDenialReason | null;
+  message: string | null;
+  soft?: boolean;
+};
+
+// Admin-editable subset of PlanLimits as stored in settings.limits.perPlan.<plan>; null or 0 = unlimited
+export type PlanLimitOverrides = {
+  testsPerDay?: number | null;
+  questionCountMax?: number;
+  attemptsPerTest?: number | null;
+  explanationsPerMonth?: number | null;
+  hintsPerMonth?: number | null;
+  timeLimitPerTest?: number | 'none';
+};
+
+const OVERRIDE_KEYS: Array<keyof PlanLimitOverrides> = ['testsPerDay', 'questionCountMax', 'attemptsPerTest', 'explanationsPerMonth', 'hintsPerMonth', 'timeLimitPerTest'];
+
+// Count limits where a stored 0 means "no limit", as the admin settings page has always saved them
+const COUNT_KEYS: Array<keyof PlanLimitOverrides> = ['testsPerDay', 'attemptsPerTest', 'explanationsPerMonth', 'hintsPerMonth'];
+
+// Infinity does not survive JSON; the API and settings use null for unlimited
+function toJsonLimit(v: number | typeof Infinity): number | null {
+  return v === Infinity ? null : v;
+}
+
+// Stored count limit -> limit; null and 0 are unlimited, anything unreadable keeps the fallback
+function fromJsonLimit(v: any, fallback: number): number {
+  if (v === null) return Infinity;
+  const n = Number(v);
+  if (!Number.isFinite(n) || n < 0) return fallback;
+  return n === 0 ? Infinity : Math.floor(n);
+}
+
+/**
+ * Single source of truth for plan limits: code defaults (planLimits) with the admin overrides
+ * from settings.limits.perPlan applied on top, and usage counted from AiUsage (tests today,
+ * explanations and hints this month) and completed test_attempt rows (attempts per test).
+ * The overrides only apply while settings.limits.enforcePlanLimits is on (off by default);
+ * otherwise every plan runs on the code defaults.
+ */
+@Injectable()
+export class PlanPolicyService {
+  private readonly logger = new Logger(PlanPolicyService.name);
+
+  constructor(
+    private readonly settingsService: SettingsService,
+    @InjectRepository(AiUsage)
+    private readonly usageRepo: Repository<AiUsage>,
+    @InjectRepository(TestAttempt)
+    private readonly testRepo: Repository<TestAttempt>,
+  ) {}
+
+  // settings.limits.perPlan as stored (keys lowercase) and whether it is enforced
+  async getOverrides(): Promise<{ enforced: boolean; perPlan: Record<string, PlanLimitOverrides> }> {
+    try {
+      const settings = await this.settingsService.getSettings();
+      const perPlan = settings?.limits?.perPlan;
+      return { enforced: !!settings?.limits?.enforcePlanLimits, perPlan: perPlan && typeof perPlan === 'object' ? perPlan : {} };
+    } catch (err) {
+      this.logger.warn('Failed to read plan overrides from settings; using code defaults.', err as any);
+      return { enforced: false, perPlan: {} };
+    }
+  }
+
+  // Effective limits for a plan
+  async getLimits(plan?: string | null): Promise<PlanLimits> {
+    const name = normalizePlanName(plan);
+    const { enforced, perPlan } = await this.getOverrides();
+    return this.applyOverrides(planLimits(name), enforced ? perPlan[name.toLowerCase()] ?? {} : {});
+  }
+
+  /**
+   * Admin view: code defaults, stored overrides, whether they are enforced, the limits they
+   * configure and the effective limits per plan, with unlimited shown as null.
+   */
+  async describe() {
+    const { enforced, perPlan } = await this.getOverrides();
+    return PLAN_NAMES.map((plan) => {
+      const defaults = planLimits(plan);
+      const stored = perPlan[plan.toLowerCase()] ?? {};
+      const configured = this.applyOverrides(defaults, stored);
+      return {
+        plan,
+        enforced,
+        defaults: this.toJsonLimits(defaults),
+        overrides: stored,
+        configured: this.toJsonLimits(configured),
+        effective: this.toJsonLimits(enforced ? configured : defaults),
+      };
+    });
+  }
+
+  // Switch settings.limits.enforcePlanLimits; the rest of the settings object is kept
+  async setEnforced(enforced: boolean) {
+    const settings = (await this.settingsService.getSettings()) ?? {};
+    await this.settingsService.saveSettings({ ...settings, limits: { ...(settings?.limits ?? {}), enforcePlanLimits: !!enforced } });
+    return this.describe();
+  }
+
+  /**
+   * Replace the stored overrides for one plan (null or 0 = unlimited, missing keys = code default).
+   * Only settings.limits.perPlan.<plan> is touched; the rest of the settings object is kept.
+   */
+  async setOverrides(plan: string, patch: PlanLimitOverrides | null) {
+    const key = normalizePlanName(plan).toLowerCase();
+    const clean: PlanLimitOverrides = {};
+    for (const k of OVERRIDE_KEYS) {
+      if (!patch || !(k in patch) || patch[k] === undefined) continue;
+      const v: any = patch[k];
+      if (k === 'timeLimitPerTest' && v === 'none') {
+        clean.timeLimitPerTest = 'none';
+      } else if (COUNT_KEYS.includes(k) && (v === null || Number(v) === 0)) {
+        (clean as any)[k] = null;
+      } else if (Number.isInteger(Number(v)) && Number(v) >= (k === 'questionCountMax' ? 1 : 0)) {
+        (clean as any)[k] = Number(v);
+      } else {
+        throw new BadRequestException(`Invalid value for ${k}`);
+      }
+    }
+
+    const settings = (await this.settingsService.getSettings()) ?? {};
+    const perPlan = { ...(settings?.limits?.perPlan ?? {}) };
+    if (patch && Object.keys(clean).length) perPlan[key] = clean;
+    else delete perPlan[key];
+    await this.settingsService.saveSettings({ ...settings, limits: { ...(settings?.limits ?? {}), perPlan } });
+    return this.describe();
+  }
+
+  /**
+   * The decision API. opts.plan skips the user lookup when the caller already has it;
+   * opts.questionCount is checked for create_test, opts.title scopes attempt_test.
+   */
+  async decide(userId: number, action: PlanAction, opts: { plan?: string | null; questionCount?: number; title?: string } = {}): Promise<PolicyDecision> {
+    const plan = normalizePlanName(opts.plan ?? (await this.resolvePlan(userId)));
+    const limits = await this.getLimits(plan);
+
+    if (action === 'tutor') {
+      const allowed = (limits.features ?? []).includes('personal_ai_tutor');
+      return this.decision(action, plan, allowed ? Infinity : 0, 0, allowed ? null : 'feature_not_in_plan',
+        'Personal AI Tutor is available only for Tutor plan users — please upgrade to access this feature.');
+    }
+
+    if (action === 'attempt_test') {
+      const used = opts.title ? await this.testRepo.count({ where: { userId, title: opts.title, status: 'completed' } }) : 0;
+      return this.decision(action, plan, limits.attemptsPerTest, used, 'attempt_limit',
+        `You have reached the maximum attempts (${limits.attemptsPerTest}) for this test under your plan.`);
+    }
+
+    const usage = await this.getUsage(userId);
+
+    if (action === 'explain') {
+      const d = this.decision(action, plan, limits.explanationsPerMonth, usage.explanationsCount, 'explanation_limit',
+        'AI explanation limit reached for your plan.');
+      return limits.explanationsSoftLimit && !d.allowed ? { ...d, allowed: true, soft: true, reason: null, message: null } : d;
+    }
+
+    if (action === 'hint') {
+      return this.decision(action, plan, limits.hintsPerMonth, usage.hintsCount, 'hint_limit',
+        `You have used all ${limits.hintsPerMonth} hint(s) included in your plan this month.`);
+    }
+
+    const questionCount = Number(opts.questionCount) || 0;
+    if (questionCount > limits.questionCount) {
+      return {
+        ...this.decision(action, plan, limits.testsPerDay, usage.testsTodayCount, null, null),
+        allowed: false,
+        reason: 'question_count_limit',
+        message: `Your plan allows up to ${limits.questionCount} questions per test.`,
+      };
+    }
+    return this.decision(action, plan, limits.testsPerDay, usage.testsTodayCount, 'daily_test_limit',
+      `You have reached your daily limit of ${limits.testsPerDay} test(s) for the ${plan} plan.`);
+  }
+
+  // decide() that throws ForbiddenException with the denial message
+  async assertAllowed(userId: number, action: PlanAction, opts: { plan?: string | null; questionCount?: number; title?: string } = {}) {
+    const decision = await this.decide(userId, action, opts);
+    if (!decision.allowed) throw new ForbiddenException(decision.message);
+    return decision;
+  }
+
+  /**
+   * Everything a client needs to render plan usage: effective limits, current counters,
+   * remaining quotas and a decision for each action that does not need a specific test.
+   */
+  async getQuotas(userId: number, plan?: string | null) {
+    const name = normalizePlanName(plan ?? (await this.resolvePlan(userId)));
+    const limits = await this.getLimits(name);
+    const usage = await this.getUsage(userId);
+    const [createTest, explain, hint, tutor] = await Promise.all([
+      this.decide(userId, 'create_test', { plan: name }),
+      this.decide(userId, 'explain', { plan: name }),
+      this.decide(userId, 'hint', { plan: name }),
+      this.decide(userId, 'tutor', { plan: name }),
+    ]);
+    return {
+      plan: name,
+      limits: this.toJsonLimits(limits),
+      usage,
+      remaining: { testsRemaining: createTest.remaining, explanationsRemaining: explain.remaining, hintsRemaining: hint.remaining },
+      decisions: { create_test: createTest, explain, hint, tutor },
+    };
+  }
+
+  // AiUsage counters with the day / month rollover applied (read-only)
+  async getUsage(userId: number) {
+    const row = await this.usageRepo.findOne({ where: { userId } });
+    const today = new Date().toISOString().slice(0, 10);
+    const month = today.slice(0, 7);
+    return {
+      testsTodayDate: today,
+      testsTodayCount: row?.testsTodayDate === today ? row.testsTodayCount || 0 : 0,
+      explanationsMonth: month,
+      explanationsCount: row?.explanationsMonth === month ? row.explanationsCount || 0 : 0,
+      hintsMonth: month,
+      hintsCount: row?.hintsMonth === month ? row.hintsCount || 0 : 0,
+    };
+  }
+
+  private decision(action: PlanAction, plan: PlanName, limit: number, used: number, reason: PolicyDenialReason | null, message: string | null): PolicyDecision {
+    const allowed = limit === Infinity || used < limit;
+    return {
+      action,
+      allowed,
+      plan,
+      limit: toJsonLimit(limit),
+      used,
+      remaining: limit === Infinity ? null : Math.max(0, limit - used),
+      reason: allowed ? null : reason,
+      message: allowed ? null : message,
+    };
+  }
+
+  private applyOverrides(defaults: PlanLimits, o: PlanLimitOverrides): PlanLimits {
+    return {
+      ...defaults,
+      testsPerDay: 'testsPerDay' in o ? fromJsonLimit(o.testsPerDay, defaults.testsPerDay) : defaults.testsPerDay,
+      // 0 / unset keeps the default: a test always has a finite question count
+      questionCount: Number(o.questionCountMax) > 0 ? Math.floor(Number(o.questionCountMax)) : defaults.questionCount,
+      attemptsPerTest: 'attemptsPerTest' in o ? fromJsonLimit(o.attemptsPerTest, defaults.attemptsPerTest) : defaults.attemptsPerTest,
+      explanationsPerMonth: 'explanationsPerMonth' in o ? fromJsonLimit(o.explanationsPerMonth, defaults.explanationsPerMonth) : defaults.explanationsPerMonth,
+      hintsPerMonth: 'hintsPerMonth' in o ? fromJsonLimit(o.hintsPerMonth, defaults.hintsPerMonth) : defaults.hintsPerMonth,
+      timeLimitPerTest:
+        o.timeLimitPerTest === 'none' ? 'none' : o.timeLimitPerTest != null ? fromJsonLimit(o.timeLimitPerTest, 0) || 'none' : defaults.timeLimitPerTest,
+    };
+  }
+
+  private toJsonLimits(l: PlanLimits) {
+    return {
+      testsPerDay: toJsonLimit(l.testsPerDay),
+      questionCount: l.questionCount,
+      attemptsPerTest: toJsonLimit(l.attemptsPerTest),
+      explanationsPerMonth: toJsonLimit(l.explanationsPerMonth),
+      explanationsSoftLimit: !!l.explanationsSoftLimit,
+      hintsPerMonth: toJsonLimit(l.hintsPerMonth),
+      timeLimitPerTest: l.timeLimitPerTest ?? 'none',
+      features: l.features ?? [],
+    };
+  }
+
+  private async resolvePlan(userId: number): Promise<string> {
+    try {
+      const rows = await this.usageRepo.query(`SELECT plan FROM "user" WHERE id = $1 LIMIT 1`, [userId]);
+      return rows?.[0]?.plan ?? 'Free';
+    } catch (err) {
+      this.logger.warn('Failed to read user plan; defaulting to Free.', err as any);
+      return 'Free';
+    }
+  }
+}
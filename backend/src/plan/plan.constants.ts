@@ -1,6 +1,9 @@
-// central plan limits used by TestService / AiTutorService / frontends
+// Code defaults for plan limits. PlanPolicyService layers the admin overrides stored in
+// settings.limits.perPlan on top of these; read effective limits through it, not planLimits().
 export type PlanName = 'Free' | 'Pro' | 'Tutor';
 
+export const PLAN_NAMES: PlanName[] = ['Free', 'Pro', 'Tutor'];
+
 export type PlanLimits = {
   // tests per day: numeric or Infinity for unlimited
   testsPerDay: number | typeof Infinity;
@@ -10,22 +13,26 @@ export type PlanLimits = {
   attemptsPerTest: number | typeof Infinity;
   // AI explanations quota measured per month (use Infinity for unlimited)
   explanationsPerMonth: number | typeof Infinity;
+  // hints shown during active attempts, per month (each hint level counts once)
+  hintsPerMonth: number | typeof Infinity;
   // timeLimit: optional (in seconds) or 'none'
   timeLimitPerTest?: number | 'none';
+  // explanations past explanationsPerMonth are still generated (with a warning) instead of refused
+  explanationsSoftLimit?: boolean;
   // optional features
   features?: string[];
 };
 
-export function planLimits(plan?: string): PlanLimits {
-  const p = (String(plan || 'Free')).trim();
+// Accepts 'free', 'Free', 'FREE', ...; anything unknown is Free
+export function normalizePlanName(plan?: string | null): PlanName {
+  const lower = String(plan || 'Free').trim().toLowerCase();
+  if (lower === 'pro') return 'Pro';
+  if (lower === 'tutor') return 'Tutor';
+  return 'Free';
+}
 
-  // Normalize known values (accept 'free','Free','FREE', etc.)
-  const normalized = ((): PlanName => {
-    const lower = p.toLowerCase();
-    if (lower === 'pro') return 'Pro';
-    if (lower === 'tutor') return 'Tutor';
-    return 'Free';
-  })();
+export function planLimits(plan?: string): PlanLimits {
+  const normalized = normalizePlanName(plan);
 
   switch (normalized) {
     case 'Free':
@@ -34,11 +41,13 @@ export function planLimits(plan?: string): PlanLimits {
       // - 10 questions per test
       // - 1 attempt per test
       // - 3 AI explanations (we track monthly in DB; represent as 3 for the quota)
+      // - 5 hints / month
       return {
         testsPerDay: 1,
         questionCount: 10,
         attemptsPerTest: 1,
         explanationsPerMonth: 3, // small quota (frontend shows "3")
+        hintsPerMonth: 5,
         timeLimitPerTest: 60 * 30, // optional: 30 minutes default
       };
     case 'Pro':
@@ -47,12 +56,14 @@ export function planLimits(plan?: string): PlanLimits {
       // - 15–20 questions per test (we pick 20 as the upper bound for AI generation)
       // - 2 attempts per test
       // - 50 AI explanations / month
+      // - 100 hints / month
       // - no time limits during tests
       return {
         testsPerDay: Infinity,
         questionCount: 20,
         attemptsPerTest: 2,
         explanationsPerMonth: 50,
+        hintsPerMonth: 100,
         timeLimitPerTest: 'none',
       };
     case 'Tutor':
@@ -61,12 +72,15 @@ export function planLimits(plan?: string): PlanLimits {
       // - 20–30 questions per test (we pick 30 as the upper bound)
       // - Unlimited attempts
       // - 1000+ AI explanations / month (soft limit) -> represent as a large number
+      // - unlimited hints
       // - personal AI tutor + full analytics
       return {
         testsPerDay: Infinity,
         questionCount: 30,
         attemptsPerTest: Infinity,
         explanationsPerMonth: 1000,
+        explanationsSoftLimit: true,
+        hintsPerMonth: Infinity,
         timeLimitPerTest: 'none',
         features: ['personal_ai_tutor', 'full_analytics'],
       };
@@ -76,6 +90,7 @@ export function planLimits(plan?: string): PlanLimits {
         questionCount: 10,
         attemptsPerTest: 1,
         explanationsPerMonth: 3,
+        hintsPerMonth: 5,
         timeLimitPerTest: 60 * 30,
       };
   }
@@ -0,0 +1,55 @@
+import { Controller, Get, Put, Delete, Param, Body, Req, UseGuards, UnauthorizedException } from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { AdminAuthGuard } from '../admin/admin-auth.guard';
+import { PlanPolicyService, PlanLimitOverrides } from './plan-policy.service';
+
+/**
+ * GET /plan/quotas — the current user's effective limits, usage, remaining quotas and
+ * a decision (with denial reason) per action.
+ */
+@Controller('plan')
+export class PlanController {
+  constructor(private readonly policy: PlanPolicyService) {}
+
+  @Get('quotas')
+  @UseGuards(JwtAuthGuard)
+  async quotas(@Req() req: any) {
+    const userId = Number(req.user?.sub ?? req.user?.id);
+    if (!userId) throw new UnauthorizedException('Invalid user');
+    return this.policy.getQuotas(userId);
+  }
+}
+
+/**
+ * Admin editing of plan limits (stored in settings.limits.perPlan, code defaults otherwise).
+ * The stored limits only apply while settings.limits.enforcePlanLimits is on.
+ * GET    /admin/plan-policy
+ * PUT    /admin/plan-policy             { enforcePlanLimits: boolean }
+ * PUT    /admin/plan-policy/:plan   { testsPerDay?, questionCountMax?, attemptsPerTest?, explanationsPerMonth?, hintsPerMonth?, timeLimitPerTest? }
+ * DELETE /admin/plan-policy/:plan   (back to code defaults)
+ */
+@Controller('admin/plan-policy')
+@UseGuards(AdminAuthGuard)
+export class AdminPlanPolicyController {
+  constructor(private readonly policy: PlanPolicyService) {}
+
+  @Get()
+  async list() {
+    return this.policy.describe();
+  }
+
+  @Put()
+  async setEnforced(@Body() body: { enforcePlanLimits?: boolean }) {
+    return this.policy.setEnforced(!!body?.enforcePlanLimits);
+  }
+
+  @Put(':plan')
+  async update(@Param('plan') plan: string, @Body() body: PlanLimitOverrides) {
+    return this.policy.setOverrides(plan, body ?? {});
+  }
+
+  @Delete(':plan')
+  async reset(@Param('plan') plan: string) {
+    return this.policy.setOverrides(plan, null);
+  }
+}
@@ -1,4 +1,15 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AiUsage } from '../ai/ai-usage.entity';
+import { TestAttempt } from '../test/test.entity';
+import { SettingsModule } from '../modules/settings/settings.module';
+import { PlanPolicyService } from './plan-policy.service';
+import { PlanController, AdminPlanPolicyController } from './plan.controller';
 
-@Module({})
-export class PlanModule {}
\ No newline at end of file
+@Module({
+  imports: [TypeOrmModule.forFeature([AiUsage, TestAttempt]), SettingsModule],
+  providers: [PlanPolicyService],
+  controllers: [PlanController, AdminPlanPolicyController],
+  exports: [PlanPolicyService],
+})
+export class PlanModule {}
@@ -0,0 +1,79 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+
+// 'in_progress': a section is running; 'on_break': between sections; 'completed': all sections graded
+export type ExamAttemptStatus = 'in_progress' | 'on_break' | 'completed';
+
+/**
+ * Per-section state of a mock exam. Questions hold answer keys and are stripped before
+ * they reach the client, like TestAttempt.questions. Times are ISO strings.
+ */
+export interface ExamSectionState {
+  key: string;
+  name: string;
+  difficulty: string;
+  timeLimitSeconds: number;
+  questions: any[];
+  answers: Record<string, any>;
+  startedAt: string | null;
+  deadlineAt: string | null;
+  submittedAt: string | null;
+  // true when the section closed on the server clock instead of a student submission
+  timedOut?: boolean;
+  raw: number | null;
+  total: number;
+}
+
+export interface ExamScoreResult {
+  key: string;
+  name: string;
+  raw: number;
+  total: number;
+  scaled: number;
+}
+
+/**
+ * Full-length mock exam (SAT/ACT) following an exam blueprint: sections are taken in
+ * order, each on its own server-side clock, with optional breaks in between.
+ */
+@Entity({ name: 'exam_attempts' })
+export class ExamAttempt {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Index()
+  @Column({ type: 'int' })
+  user_id: number;
+
+  // blueprint key, e.g. 'sat' or 'act'
+  @Column({ type: 'varchar', length: 32 })
+  blueprint: string;
+
+  @Column({ type: 'varchar', length: 20, default: 'in_progress' })
+  status: ExamAttemptStatus;
+
+  // index into sections of the running (or next, while on break) section
+  @Column({ type: 'int', default: 0 })
+  current_section: number;
+
+  @Column({ type: 'json' })
+  sections: ExamSectionState[];
+
+  @Column({ type: 'timestamptz', nullable: true })
+  break_ends_at?: Date | null;
+
+  // filled in on completion
+  @Column({ type: 'json', nullable: true })
+  scores?: ExamScoreResult[] | null;
+
+  @Column({ type: 'int', nullable: true })
+  total_scaled?: number | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  completed_at?: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  created_at: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updated_at: Date;
+}
@@ -0,0 +1,212 @@
+/**
+ * Full-length mock exam blueprints (SAT, ACT).
+ *
+ * A blueprint is an ordered list of timed sections, each with its own question count and
+ * topic mix, optional breaks between sections, and score groups that turn raw section
+ * scores into an estimated scaled score. Conversion tables are piecewise-linear
+ * approximations of published score ranges, not official concordances.
+ */
+
+export interface ExamTopicMix {
+  topic: string;
+  // relative share of the section's questions
+  weight: number;
+}
+
+export interface ExamSectionBlueprint {
+  key: string;
+  name: string;
+  questionCount: number;
+  timeLimitSeconds: number;
+  difficulty: string;
+  topics: ExamTopicMix[];
+  // Multistage (SAT-style) modules: difficulty is picked from accuracy on an earlier section
+  adaptiveFrom?: string;
+  // break offered after this section, in seconds
+  breakAfterSeconds?: number;
+}
+
+export interface ExamScoreGroup {
+  key: string;
+  name: string;
+  // sections whose raw scores are pooled into this score
+  sections: string[];
+  // [fraction correct, scaled score] points, ascending
+  conversion: Array<[number, number]>;
+  // reported scores are rounded to this increment (SAT: 10, ACT: 1)
+  step: number;
+}
+
+export interface ExamBlueprint {
+  key: string;
+  name: string;
+  description: string;
+  sections: ExamSectionBlueprint[];
+  scores: ExamScoreGroup[];
+  total: {
+    name: string;
+    method: 'sum' | 'mean';
+    scores: string[];
+  };
+}
+
+const SAT_SECTION_SCALE: Array<[number, number]> = [
+  [0, 200],
+  [0.25, 330],
+  [0.5, 480],
+  [0.75, 620],
+  [0.9, 720],
+  [1, 800],
+];
+
+const ACT_SECTION_SCALE: Array<[number, number]> = [
+  [0, 1],
+  [0.25, 12],
+  [0.5, 19],
+  [0.75, 26],
+  [0.9, 31],
+  [1, 36],
+];
+
+const SAT_RW_TOPICS: ExamTopicMix[] = [
+  { topic: 'SAT Reading: Information and Ideas', weight: 26 },
+  { topic: 'SAT Reading: Craft and Structure', weight: 28 },
+  { topic: 'SAT Writing: Expression of Ideas', weight: 20 },
+  { topic: 'SAT Writing: Standard English Conventions', weight: 26 },
+];
+
+const SAT_MATH_TOPICS: ExamTopicMix[] = [
+  { topic: 'Algebra', weight: 35 },
+  { topic: 'Advanced Math', weight: 35 },
+  { topic: 'Problem-Solving and Data Analysis', weight: 15 },
+  { topic: 'Geometry and Trigonometry', weight: 15 },
+];
+
+export const EXAM_BLUEPRINTS: ExamBlueprint[] = [
+  {
+    key: 'sat',
+    name: 'SAT Mock Exam',
+    description: 'Digital SAT format: two Reading & Writing modules, a 10-minute break, then two Math modules.',
+    sections: [
+      { key: 'rw1', name: 'Reading & Writing — Module 1', questionCount: 27, timeLimitSeconds: 32 * 60, difficulty: 'intermediate', topics: SAT_RW_TOPICS },
+      {
+        key: 'rw2',
+        name: 'Reading & Writing — Module 2',
+        questionCount: 27,
+        timeLimitSeconds: 32 * 60,
+        difficulty: 'intermediate',
+        topics: SAT_RW_TOPICS,
+        adaptiveFrom: 'rw1',
+        breakAfterSeconds: 10 * 60,
+      },
+      { key: 'math1', name: 'Math — Module 1', questionCount: 22, timeLimitSeconds: 35 * 60, difficulty: 'intermediate', topics: SAT_MATH_TOPICS },
+      { key: 'math2', name: 'Math — Module 2', questionCount: 22, timeLimitSeconds: 35 * 60, difficulty: 'intermediate', topics: SAT_MATH_TOPICS, adaptiveFrom: 'math1' },
+    ],
+    scores: [
+      { key: 'rw', name: 'Reading & Writing', sections: ['rw1', 'rw2'], conversion: SAT_SECTION_SCALE, step: 10 },
+      { key: 'math', name: 'Math', sections: ['math1', 'math2'], conversion: SAT_SECTION_SCALE, step: 10 },
+    ],
+    total: { name: 'Total', method: 'sum', scores: ['rw', 'math'] },
+  },
+  {
+    key: 'act',
+    name: 'ACT Mock Exam',
+    description: 'ACT format: English and Math, a 10-minute break, then Reading and Science.',
+    sections: [
+      {
+        key: 'english',
+        name: 'English',
+        questionCount: 50,
+        timeLimitSeconds: 35 * 60,
+        difficulty: 'intermediate',
+        topics: [
+          { topic: 'ACT English: Conventions of Standard English', weight: 50 },
+          { topic: 'ACT English: Production of Writing', weight: 30 },
+          { topic: 'ACT English: Knowledge of Language', weight: 20 },
+        ],
+      },
+      {
+        key: 'math',
+        name: 'Math',
+        questionCount: 45,
+        timeLimitSeconds: 50 * 60,
+        difficulty: 'intermediate',
+        topics: [
+          { topic: 'Algebra', weight: 30 },
+          { topic: 'Functions', weight: 25 },
+          { topic: 'Geometry', weight: 20 },
+          { topic: 'Statistics and Probability', weight: 15 },
+          { topic: 'Number and Quantity', weight: 10 },
+        ],
+        breakAfterSeconds: 10 * 60,
+      },
+      {
+        key: 'reading',
+        name: 'Reading',
+        questionCount: 36,
+        timeLimitSeconds: 40 * 60,
+        difficulty: 'intermediate',
+        topics: [
+          { topic: 'ACT Reading: Key Ideas and Details', weight: 50 },
+          { topic: 'ACT Reading: Craft and Structure', weight: 30 },
+          { topic: 'ACT Reading: Integration of Knowledge and Ideas', weight: 20 },
+        ],
+      },
+      {
+        key: 'science',
+        name: 'Science',
+        questionCount: 40,
+        timeLimitSeconds: 40 * 60,
+        difficulty: 'intermediate',
+        topics: [
+          { topic: 'ACT Science: Interpretation of Data', weight: 45 },
+          { topic: 'ACT Science: Scientific Investigation', weight: 25 },
+          { topic: 'ACT Science: Evaluation of Models and Inferences', weight: 30 },
+        ],
+      },
+    ],
+    scores: [
+      { key: 'english', name: 'English', sections: ['english'], conversion: ACT_SECTION_SCALE, step: 1 },
+      { key: 'math', name: 'Math', sections: ['math'], conversion: ACT_SECTION_SCALE, step: 1 },
+      { key: 'reading', name: 'Reading', sections: ['reading'], conversion: ACT_SECTION_SCALE, step: 1 },
+      { key: 'science', name: 'Science', sections: ['science'], conversion: ACT_SECTION_SCALE, step: 1 },
+    ],
+    // Enhanced ACT: the composite averages English, Math and Reading; Science is reported separately
+    total: { name: 'Composite', method: 'mean', scores: ['english', 'math', 'reading'] },
+  },
+];
+
+export function findBlueprint(key: string): ExamBlueprint | undefined {
+  const k = String(key ?? '').trim().toLowerCase();
+  return EXAM_BLUEPRINTS.find((b) => b.key === k);
+}
+
+/**
+ * Split a section's question count across its topics by weight (largest remainder),
+ * so the counts always add up to questionCount.
+ */
+export function topicCounts(section: ExamSectionBlueprint): Array<{ topic: string; count: number }> {
+  const totalWeight = section.topics.reduce((s, t) => s + t.weight, 0) || 1;
+  const exact = section.topics.map((t) => (t.weight / totalWeight) * section.questionCount);
+  const counts = exact.map((x) => Math.floor(x));
+  let left = section.questionCount - counts.reduce((s, c) => s + c, 0);
+  const order = exact.map((x, i) => ({ i, frac: x - Math.floor(x) })).sort((a, b) => b.frac - a.frac);
+  for (let k = 0; left > 0; k = (k + 1) % order.length, left--) counts[order[k].i]++;
+  return section.topics.map((t, i) => ({ topic: t.topic, count: counts[i] })).filter((t) => t.count > 0);
+}
+
+/**
+ * Scaled score for a fraction correct (0..1) by linear interpolation over the conversion points.
+ */
+export function scaleScore(fraction: number, conversion: Array<[number, number]>): number {
+  const f = Math.min(1, Math.max(0, Number.isFinite(fraction) ? fraction : 0));
+  for (let i = 1; i < conversion.length; i++) {
+    const [x1, y1] = conversion[i];
+    if (f <= x1) {
+      const [x0, y0] = conversion[i - 1];
+      const t = x1 === x0 ? 1 : (f - x0) / (x1 - x0);
+      return y0 + t * (y1 - y0);
+    }
+  }
+  return conversion[conversion.length - 1][1];
+}
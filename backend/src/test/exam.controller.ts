@@ -0,0 +1,81 @@
+import { Controller, Get, Post, Body, Param, Req, UseGuards, UnauthorizedException, ParseIntPipe } from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { UserService } from '../user/user.service';
+import { ExamService } from './exam.service';
+import { QuestionTimings } from './test.service';
+import { extractUserId } from './test.controller';
+
+/**
+ * Full-length SAT/ACT mock exams: timed sections in order, breaks, and scaled score estimates.
+ */
+@Controller('exams')
+@UseGuards(JwtAuthGuard)
+export class ExamController {
+  constructor(
+    private readonly exams: ExamService,
+    private readonly userService: UserService,
+  ) {}
+
+  @Get('blueprints')
+  blueprints() {
+    return this.exams.listBlueprints();
+  }
+
+  @Get('my')
+  async mine(@Req() req: any) {
+    return this.exams.listForUser(this.userId(req));
+  }
+
+  /**
+   * POST /exams
+   * Body: { blueprint: 'sat' | 'act' } -> exam view with the first section running
+   */
+  @Post()
+  async start(@Req() req: any, @Body() body: any) {
+    const userId = this.userId(req);
+    let plan: string | undefined;
+    try {
+      const user = await this.userService.findById(userId);
+      plan = user?.plan ?? undefined;
+    } catch {
+      plan = undefined;
+    }
+    return this.exams.start(userId, String(body?.blueprint ?? ''), plan);
+  }
+
+  @Get(':id')
+  async get(@Req() req: any, @Param('id', ParseIntPipe) id: number) {
+    return this.exams.get(this.userId(req), id);
+  }
+
+  /**
+   * POST /exams/:id/sections/:index/submit
+   * Body: { answers: { [questionId]: option }, timings? }
+   */
+  @Post(':id/sections/:index/submit')
+  async submitSection(
+    @Req() req: any,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('index', ParseIntPipe) index: number,
+    @Body() body: { answers?: Record<string, any>; timings?: QuestionTimings },
+  ) {
+    return this.exams.submitSection(this.userId(req), id, index, body?.answers ?? {}, body?.timings);
+  }
+
+  // End the break (early or on time) and start the next section
+  @Post(':id/continue')
+  async continue(@Req() req: any, @Param('id', ParseIntPipe) id: number) {
+    return this.exams.continue(this.userId(req), id);
+  }
+
+  @Get(':id/results')
+  async results(@Req() req: any, @Param('id', ParseIntPipe) id: number) {
+    return this.exams.results(this.userId(req), id);
+  }
+
+  private userId(req: any): number {
+    const userId = extractUserId(req);
+    if (!userId) throw new UnauthorizedException('Invalid user');
+    return userId;
+  }
+}
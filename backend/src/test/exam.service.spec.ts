@@ -0,0 +1,150 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ExamService } from './exam.service';
+import { ExamAttempt } from './exam-attempt.entity';
+import { findBlueprint, topicCounts, scaleScore } from './exam-blueprints';
+import { AiService } from '../ai/ai.service';
+import { AiUsage } from '../ai/ai-usage.entity';
+import { SessionPerformance } from '../ai/entities/session-performance.entity';
+import { QuestionBankService } from '../ai/question-bank.service';
+import { TestAttempt } from './test.entity';
+import { PlanPolicyService } from '../plan/plan-policy.service';
+import { SettingsService } from '../modules/settings/settings.service';
+
+declare const describe: any;
+declare const beforeEach: any;
+declare const it: any;
+declare const expect: any;
+declare const jest: any;
+
+describe('exam blueprints', () => {
+  it('splits every section across its topics without losing questions', () => {
+    for (const key of ['sat', 'act']) {
+      for (const section of findBlueprint(key)!.sections) {
+        const counts = topicCounts(section);
+        expect(counts.reduce((s, c) => s + c.count, 0)).toBe(section.questionCount);
+      }
+    }
+  });
+
+  it('interpolates scaled scores between conversion points', () => {
+    const conversion: Array<[number, number]> = [[0, 200], [0.5, 500], [1, 800]];
+    expect(scaleScore(0, conversion)).toBe(200);
+    expect(scaleScore(0.25, conversion)).toBe(350);
+    expect(scaleScore(1, conversion)).toBe(800);
+    expect(scaleScore(1.5, conversion)).toBe(800);
+  });
+});
+
+describe('ExamService', () => {
+  let service: ExamService;
+  let examRepo: Record<string, any>;
+  let usageRepo: Record<string, any>;
+  let aiService: Record<string, any>;
+  let questionBank: Record<string, any>;
+  let stored: any;
+
+  // Generated questions always have "A" as the key
+  const fakeQuestions = (n: number) => Array.from({ length: n }, (_, i) => ({ id: i + 1, question: `Q${i + 1}`, options: ['A', 'B'], correctAnswer: 'A' }));
+
+  beforeEach(async () => {
+    stored = null;
+    examRepo = {
+      findOne: jest.fn(async (opts: any) => (Array.isArray(opts?.where) ? null : stored)),
+      create: jest.fn((x: any) => ({ ...x })),
+      save: jest.fn(async (x: any) => {
+        stored = { id: 7, ...x };
+        return stored;
+      }),
+      find: jest.fn(async () => []),
+    };
+    usageRepo = {
+      findOne: jest.fn(async () => null),
+      create: jest.fn((x: any) => ({ ...x })),
+      save: jest.fn(async (x: any) => x),
+    };
+    aiService = { generateTest: jest.fn(async (_t: string, _d: string, n: number) => fakeQuestions(n)) };
+    questionBank = {
+      drawUnseen: jest.fn(async () => []),
+      storeGenerated: jest.fn(async (qs: any[]) => qs),
+      toAttemptQuestion: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExamService,
+        { provide: getRepositoryToken(ExamAttempt), useValue: examRepo },
+        { provide: getRepositoryToken(AiUsage), useValue: usageRepo },
+        { provide: getRepositoryToken(SessionPerformance), useValue: { create: jest.fn((x: any) => x), save: jest.fn(async (x: any) => x) } },
+        { provide: AiService, useValue: aiService },
+        { provide: QuestionBankService, useValue: questionBank },
+        PlanPolicyService,
+        { provide: getRepositoryToken(TestAttempt), useValue: { count: jest.fn(async () => 0) } },
+        { provide: SettingsService, useValue: { getSettings: jest.fn().mockResolvedValue(null) } },
+      ],
+    }).compile();
+
+    service = module.get<ExamService>(ExamService);
+  });
+
+  it('starts the first section with hidden keys and a server deadline', async () => {
+    const view: any = await service.start(1, 'sat', 'Pro');
+
+    expect(view.status).toBe('in_progress');
+    expect(view.current.key).toBe('rw1');
+    expect(view.current.questions).toHaveLength(27);
+    expect(view.current.questions[0].correctAnswer).toBeUndefined();
+    expect(view.current.questions[0].id).toBe('rw1-1');
+    expect(view.current.remainingSeconds).toBeGreaterThan(32 * 60 - 5);
+    expect(usageRepo.save).toHaveBeenCalled();
+  });
+
+  it('counts against the Free daily test limit', async () => {
+    usageRepo.findOne.mockResolvedValue({ userId: 1, testsTodayDate: new Date().toISOString().slice(0, 10), testsTodayCount: 1 });
+    await expect(service.start(1, 'act', 'Free')).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(service.start(1, 'gre', 'Pro')).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('routes the second module up after a strong first module and breaks before math', async () => {
+    await service.start(1, 'sat', 'Pro');
+    const answers = Object.fromEntries(stored.sections[0].questions.map((q: any) => [q.id, 'A']));
+
+    let view: any = await service.submitSection(1, 7, 0, answers);
+    expect(view.current.key).toBe('rw2');
+    expect(stored.sections[1].difficulty).toBe('advanced');
+    expect(view.sections[0].raw).toBeUndefined();
+
+    view = await service.submitSection(1, 7, 1, {});
+    expect(view.status).toBe('on_break');
+    expect(view.breakRemainingSeconds).toBeGreaterThan(590);
+
+    view = await service.continue(1, 7);
+    expect(view.current.key).toBe('math1');
+    expect(stored.sections[1].difficulty).toBe('advanced');
+  });
+
+  it('closes an expired section with the answers on file and pauses the exam', async () => {
+    await service.start(1, 'act', 'Pro');
+    stored.sections[0].deadlineAt = new Date(Date.now() - 60 * 1000).toISOString();
+
+    const view: any = await service.get(1, 7);
+
+    expect(view.status).toBe('on_break');
+    expect(stored.sections[0].timedOut).toBe(true);
+    expect(stored.sections[0].raw).toBe(0);
+    await expect(service.submitSection(1, 7, 0, {})).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('computes SAT totals as a sum and the ACT composite as a mean', () => {
+    const sat = findBlueprint('sat')!;
+    const satSections: any[] = sat.sections.map((s) => ({ key: s.key, raw: s.questionCount, total: s.questionCount }));
+    expect(service.computeScores(sat, satSections).totalScaled).toBe(1600);
+
+    const act = findBlueprint('act')!;
+    const actSections: any[] = act.sections.map((s) => ({ key: s.key, raw: s.key === 'science' ? 0 : s.questionCount, total: s.questionCount }));
+    const { scores, totalScaled } = service.computeScores(act, actSections);
+    expect(totalScaled).toBe(36);
+    expect(scores.find((s) => s.key === 'science')!.scaled).toBe(1);
+  });
+});
@@ -0,0 +1,402 @@
+import { Injectable, BadRequestException, InternalServerErrorException, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ExamAttempt, ExamScoreResult, ExamSectionState } from './exam-attempt.entity';
+import { EXAM_BLUEPRINTS, ExamBlueprint, ExamSectionBlueprint, findBlueprint, scaleScore, topicCounts } from './exam-blueprints';
+import { QuestionTimings, SUBMIT_GRACE_SECONDS, stripAnswerKey } from './test.service';
+import { AiService } from '../ai/ai.service';
+import { AiUsage } from '../ai/ai-usage.entity';
+import { SessionPerformance } from '../ai/entities/session-performance.entity';
+import { QuestionBankService } from '../ai/question-bank.service';
+import { PlanPolicyService } from '../plan/plan-policy.service';
+import { gradeAnswer } from '../ai/question-types';
+
+// Accuracy on the routing module that sends the next module up or down a level
+const ROUTE_UP_ACCURACY = 0.7;
+const ROUTE_DOWN_ACCURACY = 0.4;
+
+/**
+ * Full-length mock exams built from EXAM_BLUEPRINTS.
+ *
+ * Sections run one at a time on the server clock. Each section's questions are assembled
+ * when it starts (bank first, LLM for the remainder) so generation time is never charged
+ * to the student. A section that runs past its deadline is closed with the answers on
+ * file and the exam pauses until the student continues, so an abandoned tab cannot
+ * burn through the remaining sections.
+ */
+@Injectable()
+export class ExamService {
+  private readonly logger = new Logger(ExamService.name);
+
+  constructor(
+    @InjectRepository(ExamAttempt)
+    private readonly examRepo: Repository<ExamAttempt>,
+    @InjectRepository(AiUsage)
+    private readonly usageRepo: Repository<AiUsage>,
+    @InjectRepository(SessionPerformance)
+    private readonly perfRepo: Repository<SessionPerformance>,
+    private readonly aiService: AiService,
+    private readonly questionBank: QuestionBankService,
+    private readonly planPolicy: PlanPolicyService,
+  ) {}
+
+  listBlueprints() {
+    return EXAM_BLUEPRINTS.map((b) => ({
+      key: b.key,
+      name: b.name,
+      description: b.description,
+      totalQuestions: b.sections.reduce((s, x) => s + x.questionCount, 0),
+      totalSeconds: b.sections.reduce((s, x) => s + x.timeLimitSeconds, 0),
+      sections: b.sections.map((s) => ({
+        key: s.key,
+        name: s.name,
+        questionCount: s.questionCount,
+        timeLimitSeconds: s.timeLimitSeconds,
+        breakAfterSeconds: s.breakAfterSeconds ?? 0,
+      })),
+    }));
+  }
+
+  async listForUser(userId: number) {
+    const rows = await this.examRepo.find({ where: { user_id: userId }, order: { created_at: 'DESC' } });
+    return rows.map((a) => ({
+      id: a.id,
+      blueprint: a.blueprint,
+      name: findBlueprint(a.blueprint)?.name ?? a.blueprint,
+      status: a.status,
+      currentSection: a.current_section,
+      totalScaled: a.total_scaled ?? null,
+      createdAt: a.created_at,
+      completedAt: a.completed_at ?? null,
+    }));
+  }
+
+  /**
+   * Start a mock exam and its first section. Counts as one test against the plan's daily limit.
+   */
+  async start(userId: number, blueprintKey: string, plan?: string) {
+    const blueprint = findBlueprint(blueprintKey);
+    if (!blueprint) throw new BadRequestException(`Unknown exam "${blueprintKey}". Available: ${EXAM_BLUEPRINTS.map((b) => b.key).join(', ')}`);
+
+    const running = await this.examRepo.findOne({ where: [{ user_id: userId, blueprint: blueprint.key, status: 'in_progress' }, { user_id: userId, blueprint: blueprint.key, status: 'on_break' }] });
+    if (running) throw new BadRequestException(`You already have an unfinished ${blueprint.name} (#${running.id}).`);
+
+    await this.consumeDailyTest(userId, plan);
+
+    const attempt = this.examRepo.create({
+      user_id: userId,
+      blueprint: blueprint.key,
+      status: 'in_progress',
+      current_section: 0,
+      sections: blueprint.sections.map((s) => ({
+        key: s.key,
+        name: s.name,
+        difficulty: s.difficulty,
+        timeLimitSeconds: s.timeLimitSeconds,
+        questions: [],
+        answers: {},
+        startedAt: null,
+        deadlineAt: null,
+        submittedAt: null,
+        raw: null,
+        total: 0,
+      })),
+    });
+    await this.startSection(attempt, blueprint, 0);
+    return this.toClientView(await this.examRepo.save(attempt), blueprint);
+  }
+
+  async get(userId: number, id: number) {
+    const { attempt, blueprint } = await this.load(userId, id);
+    await this.settleClock(attempt, blueprint);
+    return this.toClientView(attempt, blueprint);
+  }
+
+  /**
+   * Grade the running section. Answers arriving after deadline + grace are ignored.
+   */
+  async submitSection(userId: number, id: number, sectionIndex: number, answers: Record<string, any>, timings?: QuestionTimings) {
+    const { attempt, blueprint } = await this.load(userId, id);
+    if (attempt.status !== 'in_progress') {
+      throw new BadRequestException(attempt.status === 'completed' ? 'This exam is already finished.' : 'No section is running; continue the exam first.');
+    }
+    if (sectionIndex !== attempt.current_section) throw new BadRequestException('Only the current section can be submitted.');
+
+    const section = attempt.sections[sectionIndex];
+    const late = this.isPastDeadline(section);
+    this.gradeSection(section, late ? section.answers : answers && typeof answers === 'object' ? answers : {}, late);
+    await this.recordPerformance(attempt, section, timings);
+    this.advance(attempt, blueprint, late);
+    if (attempt.status === 'in_progress') await this.startSection(attempt, blueprint, attempt.current_section);
+
+    return this.toClientView(await this.examRepo.save(attempt), blueprint);
+  }
+
+  /**
+   * Leave a break (early or after it ends) and start the next section.
+   */
+  async continue(userId: number, id: number) {
+    const { attempt, blueprint } = await this.load(userId, id);
+    if (attempt.status !== 'on_break') throw new BadRequestException('The exam is not paused between sections.');
+
+    attempt.status = 'in_progress';
+    attempt.break_ends_at = null;
+    await this.startSection(attempt, blueprint, attempt.current_section);
+    return this.toClientView(await this.examRepo.save(attempt), blueprint);
+  }
+
+  /**
+   * Completed exam with graded questions, per-section raw scores and scaled estimates.
+   */
+  async results(userId: number, id: number) {
+    const { attempt, blueprint } = await this.load(userId, id);
+    if (attempt.status !== 'completed') throw new BadRequestException('Results are available once every section is submitted.');
+    return {
+      id: attempt.id,
+      blueprint: blueprint.key,
+      name: blueprint.name,
+      completedAt: attempt.completed_at ?? null,
+      sections: attempt.sections.map((s, index) => ({
+        index,
+        key: s.key,
+        name: s.name,
+        difficulty: s.difficulty,
+        raw: s.raw ?? 0,
+        total: s.total,
+        timedOut: !!s.timedOut,
+        questions: s.questions,
+      })),
+      scores: attempt.scores ?? [],
+      total: { name: blueprint.total.name, scaled: attempt.total_scaled ?? null },
+      disclaimer: 'Scaled scores are estimates from practice conversion tables, not official scores.',
+    };
+  }
+
+  /**
+   * Section and total scores for a finished exam. Exposed for tests.
+   */
+  computeScores(blueprint: ExamBlueprint, sections: ExamSectionState[]): { scores: ExamScoreResult[]; totalScaled: number | null } {
+    const scores = blueprint.scores.map((g) => {
+      const members = sections.filter((s) => g.sections.includes(s.key));
+      const raw = members.reduce((sum, s) => sum + (s.raw ?? 0), 0);
+      const total = members.reduce((sum, s) => sum + (s.total || 0), 0);
+      const scaled = Math.round(scaleScore(total ? raw / total : 0, g.conversion) / g.step) * g.step;
+      return { key: g.key, name: g.name, raw, total, scaled };
+    });
+
+    const parts = scores.filter((s) => blueprint.total.scores.includes(s.key)).map((s) => s.scaled);
+    if (!parts.length) return { scores, totalScaled: null };
+    const sum = parts.reduce((a, b) => a + b, 0);
+    return { scores, totalScaled: blueprint.total.method === 'mean' ? Math.round(sum / parts.length) : sum };
+  }
+
+  private async load(userId: number, id: number) {
+    const attempt = await this.examRepo.findOne({ where: { id, user_id: userId } });
+    if (!attempt) throw new NotFoundException('Exam not found');
+    const blueprint = findBlueprint(attempt.blueprint);
+    if (!blueprint) throw new InternalServerErrorException(`Exam blueprint "${attempt.blueprint}" is no longer available`);
+    return { attempt, blueprint };
+  }
+
+  // Close a section whose clock ran out while nobody submitted it
+  private async settleClock(attempt: ExamAttempt, blueprint: ExamBlueprint) {
+    if (attempt.status !== 'in_progress') return;
+    const section = attempt.sections[attempt.current_section];
+    if (!section || !this.isPastDeadline(section)) return;
+
+    this.gradeSection(section, section.answers, true);
+    await this.recordPerformance(attempt, section);
+    this.advance(attempt, blueprint, true);
+    await this.examRepo.save(attempt);
+  }
+
+  private gradeSection(section: ExamSectionState, answers: Record<string, any>, timedOut: boolean) {
+    let raw = 0;
+    section.questions = section.questions.map((q: any) => {
+      const userAnswer = answers[String(q.id)] ?? null;
+      const isCorrect = gradeAnswer(q, userAnswer);
+      if (isCorrect) raw++;
+      return { ...q, userAnswer, isCorrect };
+    });
+    section.answers = answers;
+    section.raw = raw;
+    section.total = section.questions.length;
+    section.submittedAt = new Date().toISOString();
+    section.timedOut = timedOut;
+  }
+
+  /**
+   * Move past the section just graded: finish the exam, pause for a break, or (when
+   * `pause` is false and no break is due) leave the next section ready to start.
+   */
+  private advance(attempt: ExamAttempt, blueprint: ExamBlueprint, pause: boolean) {
+    const done = attempt.current_section;
+    if (done >= attempt.sections.length - 1) {
+      const { scores, totalScaled } = this.computeScores(blueprint, attempt.sections);
+      attempt.status = 'completed';
+      attempt.scores = scores;
+      attempt.total_scaled = totalScaled;
+      attempt.completed_at = new Date();
+      attempt.break_ends_at = null;
+      return;
+    }
+
+    attempt.current_section = done + 1;
+    const breakSeconds = blueprint.sections[done].breakAfterSeconds ?? 0;
+    if (breakSeconds > 0 || pause) {
+      attempt.status = 'on_break';
+      attempt.break_ends_at = new Date(Date.now() + breakSeconds * 1000);
+    } else {
+      attempt.status = 'in_progress';
+    }
+  }
+
+  private async startSection(attempt: ExamAttempt, blueprint: ExamBlueprint, index: number) {
+    const spec = blueprint.sections[index];
+    const section = attempt.sections[index];
+    section.difficulty = this.sectionDifficulty(spec, attempt.sections);
+    section.questions = await this.assembleQuestions(attempt.user_id, spec, section.difficulty, attempt.sections);
+    section.total = section.questions.length;
+
+    // the clock starts once the questions exist
+    const startedAt = new Date();
+    section.startedAt = startedAt.toISOString();
+    section.deadlineAt = new Date(startedAt.getTime() + spec.timeLimitSeconds * 1000).toISOString();
+  }
+
+  private sectionDifficulty(spec: ExamSectionBlueprint, sections: ExamSectionState[]) {
+    if (!spec.adaptiveFrom) return spec.difficulty;
+    const routing = sections.find((s) => s.key === spec.adaptiveFrom);
+    if (!routing || !routing.total) return spec.difficulty;
+    const accuracy = (routing.raw ?? 0) / routing.total;
+    if (accuracy >= ROUTE_UP_ACCURACY) return 'advanced';
+    if (accuracy < ROUTE_DOWN_ACCURACY) return 'beginner';
+    return spec.difficulty;
+  }
+
+  private async assembleQuestions(userId: number, spec: ExamSectionBlueprint, difficulty: string, sections: ExamSectionState[]) {
+    // bank questions already used elsewhere in this exam
+    const used = new Set<string>();
+    for (const s of sections) for (const q of s.questions || []) if (q?.bankId) used.add(String(q.bankId));
+
+    const questions: any[] = [];
+    for (const { topic, count } of topicCounts(spec)) {
+      let picked: any[] = [];
+      try {
+        const banked = await this.questionBank.drawUnseen(userId, topic, difficulty, count + used.size);
+        picked = banked
+          .filter((row) => !used.has(String(row.question_id)))
+          .slice(0, count)
+          .map((row) => ({ ...this.questionBank.toAttemptQuestion(row), topic }));
+      } catch (err) {
+        this.logger.warn(`Question bank lookup failed for ${topic}: ${String(err?.message ?? err)}`);
+      }
+
+      const missing = count - picked.length;
+      if (missing > 0) {
+        try {
+          const generated = await this.aiService.generateTest(topic, difficulty, missing, { userId, feature: 'exam_generation' });
+          if (Array.isArray(generated) && generated.length) {
+            const stored = await this.questionBank.storeGenerated(generated, topic, difficulty);
+            picked = picked.concat(stored.slice(0, missing).map((q: any) => ({ ...q, tags: q.tags ?? [topic], topic })));
+          }
+        } catch (err) {
+          this.logger.warn(`Generation failed for ${topic}: ${String(err?.message ?? err)}`);
+        }
+      }
+
+      for (const q of picked) if (q.bankId) used.add(String(q.bankId));
+      questions.push(...picked);
+    }
+
+    if (!questions.length) throw new InternalServerErrorException('Could not prepare questions for this section. Please try again later.');
+    // ids unique across the exam: "<section>-<n>"
+    return questions.map((q, i) => ({ ...q, id: `${spec.key}-${i + 1}` }));
+  }
+
+  private isPastDeadline(section: ExamSectionState, now = new Date()) {
+    if (!section.deadlineAt) return false;
+    return now.getTime() > new Date(section.deadlineAt).getTime() + SUBMIT_GRACE_SECONDS * 1000;
+  }
+
+  private async consumeDailyTest(userId: number, plan?: string) {
+    await this.planPolicy.assertAllowed(userId, 'create_test', { plan });
+    const today = new Date().toISOString().slice(0, 10);
+    let usage = await this.usageRepo.findOne({ where: { userId } });
+    if (!usage) {
+      usage = this.usageRepo.create({ userId, testsTodayDate: null, testsTodayCount: 0, explanationsMonth: null, explanationsCount: 0 });
+    }
+    if (usage.testsTodayDate !== today) {
+      usage.testsTodayDate = today;
+      usage.testsTodayCount = 0;
+    }
+    usage.testsTodayCount = (usage.testsTodayCount || 0) + 1;
+    await this.usageRepo.save(usage);
+  }
+
+  // Best-effort pacing/"seen" rows, same as regular tests (session_id "exam-<id>")
+  private async recordPerformance(attempt: ExamAttempt, section: ExamSectionState, timings?: QuestionTimings) {
+    try {
+      const rows = section.questions.map((q: any) => {
+        const seconds = Number(timings?.[String(q.id)]?.timeSeconds);
+        return this.perfRepo.create({
+          session_id: `exam-${attempt.id}`,
+          user_id: attempt.user_id,
+          question_id: String(q.bankId ?? q.id),
+          difficulty: String(q.difficulty ?? section.difficulty).slice(0, 32),
+          topic: q.topic ?? null,
+          correct: !!q.isCorrect,
+          time_seconds: Number.isFinite(seconds) && seconds >= 0 ? Math.round(seconds) : null,
+          answer_changes: Math.max(0, Math.floor(Number(timings?.[String(q.id)]?.answerChanges) || 0)),
+        });
+      });
+      if (rows.length) await this.perfRepo.save(rows);
+    } catch (err) {
+      this.logger.warn(`Failed to record performance for exam ${attempt.id}: ${String(err?.message ?? err)}`);
+    }
+  }
+
+  /**
+   * What the exam player sees: the running section's questions without answer keys, the
+   * server clock, and section progress. Raw scores stay hidden until the exam is finished.
+   */
+  private toClientView(attempt: ExamAttempt, blueprint: ExamBlueprint, now = new Date()) {
+    const remaining = (iso: string | null | undefined) => (iso ? Math.max(0, Math.floor((new Date(iso).getTime() - now.getTime()) / 1000)) : null);
+    const completed = attempt.status === 'completed';
+    const current = attempt.status === 'in_progress' ? attempt.sections[attempt.current_section] : null;
+
+    return {
+      id: attempt.id,
+      blueprint: blueprint.key,
+      name: blueprint.name,
+      status: attempt.status,
+      currentSection: attempt.current_section,
+      serverTime: now,
+      breakEndsAt: attempt.break_ends_at ?? null,
+      breakRemainingSeconds: attempt.status === 'on_break' && attempt.break_ends_at ? remaining(new Date(attempt.break_ends_at).toISOString()) : null,
+      sections: attempt.sections.map((s, index) => ({
+        index,
+        key: s.key,
+        name: s.name,
+        questionCount: s.total || blueprint.sections[index]?.questionCount || 0,
+        timeLimitSeconds: s.timeLimitSeconds,
+        state: s.submittedAt ? 'submitted' : current && index === attempt.current_section ? 'active' : 'pending',
+        timedOut: !!s.timedOut,
+        raw: completed ? s.raw : undefined,
+      })),
+      current: current
+        ? {
+            index: attempt.current_section,
+            key: current.key,
+            name: current.name,
+            questions: current.questions.map((q) => stripAnswerKey(q)),
+            startedAt: current.startedAt,
+            deadlineAt: current.deadlineAt,
+            remainingSeconds: remaining(current.deadlineAt),
+          }
+        : null,
+      scores: completed ? attempt.scores ?? [] : null,
+      total: completed ? { name: blueprint.total.name, scaled: attempt.total_scaled ?? null } : null,
+    };
+  }
+}
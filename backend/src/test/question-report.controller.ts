@@ -0,0 +1,80 @@
+import { Controller, Get, Post, Body, Param, Query, Req, UseGuards, BadRequestException, UnauthorizedException, ParseIntPipe } from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { AdminAuthGuard } from '../admin/admin-auth.guard';
+import { QuestionReportService } from './question-report.service';
+import { QuestionReportStatus } from './question-report.entity';
+import { extractUserId } from './test.controller';
+
+/**
+ * Student side: report a question from the review page.
+ */
+@Controller('tests')
+@UseGuards(JwtAuthGuard)
+export class QuestionReportController {
+  constructor(private readonly reports: QuestionReportService) {}
+
+  /**
+   * POST /tests/:id/reports
+   * Body: { questionId, reason: 'wrong_answer' | 'ambiguous' | 'typo' | 'off_topic', comment? }
+   */
+  @Post(':id/reports')
+  async report(@Req() req: any, @Param('id') id: string, @Body() body: any) {
+    const userId = extractUserId(req);
+    if (!userId) throw new UnauthorizedException('Invalid user');
+    const attemptId = Number(id);
+    if (!attemptId || Number.isNaN(attemptId)) throw new BadRequestException('Invalid test id');
+    if (body?.questionId == null || body.questionId === '') throw new BadRequestException('questionId is required');
+
+    const report = await this.reports.create(userId, attemptId, String(body.questionId), String(body?.reason ?? ''), body?.comment);
+    return { report };
+  }
+
+  @Get(':id/reports')
+  async mine(@Req() req: any, @Param('id') id: string) {
+    const userId = extractUserId(req);
+    if (!userId) throw new UnauthorizedException('Invalid user');
+    const attemptId = Number(id);
+    if (!attemptId || Number.isNaN(attemptId)) throw new BadRequestException('Invalid test id');
+    return { items: await this.reports.listForAttempt(userId, attemptId) };
+  }
+}
+
+/**
+ * Admin moderation queue for question reports.
+ */
+@Controller('admin/question-reports')
+@UseGuards(AdminAuthGuard)
+export class AdminQuestionReportsController {
+  constructor(private readonly reports: QuestionReportService) {}
+
+  // GET /admin/question-reports?status=open&reason=&page=&limit=
+  @Get()
+  async list(@Query('status') status = 'open', @Query('reason') reason?: string, @Query('page') page = '1', @Query('limit') limit = '25') {
+    return this.reports.listQueue({
+      status: (status || undefined) as QuestionReportStatus | undefined,
+      reason: reason || undefined,
+      page: Number(page) || 1,
+      limit: Number(limit) || 25,
+    });
+  }
+
+  /**
+   * POST /admin/question-reports/:id/resolve
+   * Body: { action: 'resolve' | 'dismiss', correctedAnswer?, regrade?, retireQuestion?, note? }
+   */
+  @Post(':id/resolve')
+  async resolve(@Param('id', ParseIntPipe) id: number, @Body() body: any, @Req() req: any) {
+    const adminId = Number(req?.user?.sub);
+    return this.reports.resolve(
+      id,
+      {
+        action: body?.action === 'dismiss' ? 'dismiss' : 'resolve',
+        correctedAnswer: body?.correctedAnswer ?? null,
+        regrade: body?.regrade === true || body?.regrade === 'true',
+        retireQuestion: body?.retireQuestion === true || body?.retireQuestion === 'true',
+        note: body?.note ?? null,
+      },
+      Number.isFinite(adminId) && adminId > 0 ? adminId : null,
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+export type QuestionReportReason = 'wrong_answer' | 'ambiguous' | 'typo' | 'off_topic';
+export const QUESTION_REPORT_REASONS: QuestionReportReason[] = ['wrong_answer', 'ambiguous', 'typo', 'off_topic'];
+
+// open -> resolved (key fixed / acknowledged) or dismissed (report rejected)
+export type QuestionReportStatus = 'open' | 'resolved' | 'dismissed';
+
+/**
+ * A student's report against one question of a completed TestAttempt.
+ */
+@Entity({ name: 'question_reports' })
+export class QuestionReport {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column({ type: 'int' })
+  user_id: number;
+
+  @Index()
+  @Column({ type: 'int' })
+  attempt_id: number;
+
+  // question id within the attempt
+  @Column({ type: 'varchar', length: 128 })
+  question_id: string;
+
+  // generated_questions.question_id when the question came from the bank
+  @Index()
+  @Column({ type: 'varchar', length: 128, nullable: true })
+  bank_question_id?: string | null;
+
+  @Column({ type: 'varchar', length: 32 })
+  reason: QuestionReportReason;
+
+  @Column({ type: 'text', nullable: true })
+  comment?: string | null;
+
+  // question as the student saw it (text, options, key, their answer)
+  @Column({ type: 'json', nullable: true })
+  question_snapshot?: any | null;
+
+  @Index()
+  @Column({ type: 'varchar', length: 20, default: 'open' })
+  status: QuestionReportStatus;
+
+  @Column({ type: 'text', nullable: true })
+  corrected_answer?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  resolution_note?: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  resolved_by?: number | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  resolved_at?: Date | null;
+
+  // number of attempts whose score was recomputed when this report was resolved
+  @Column({ type: 'int', default: 0 })
+  regraded_attempts: number;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  created_at: Date;
+}
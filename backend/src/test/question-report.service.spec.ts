@@ -0,0 +1,112 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { QuestionReportService } from './question-report.service';
+import { QuestionReport } from './question-report.entity';
+import { TestAttempt } from './test.entity';
+import { GeneratedQuestion } from '../ai/entities/generated-question.entity';
+
+declare const describe: any;
+declare const beforeEach: any;
+declare const it: any;
+declare const expect: any;
+declare const jest: any;
+
+describe('QuestionReportService', () => {
+  let service: QuestionReportService;
+  let reportRepo: Record<string, any>;
+  let testRepo: Record<string, any>;
+  let bankRepo: Record<string, any>;
+  let attempt: any;
+  let otherAttempt: any;
+
+  beforeEach(async () => {
+    attempt = {
+      id: 10,
+      userId: 1,
+      status: 'completed',
+      score: 1,
+      questions: [
+        { id: 1, bankId: 'bq-1', question: '2 + 2?', options: ['3', '4'], correctAnswer: '3', userAnswer: '4', isCorrect: false },
+        { id: 2, question: '1 + 1?', options: ['2', '3'], correctAnswer: '2', userAnswer: '2', isCorrect: true },
+      ],
+    };
+    otherAttempt = {
+      id: 11,
+      userId: 2,
+      status: 'completed',
+      score: 1,
+      questions: [{ id: 1, bankId: 'bq-1', question: '2 + 2?', options: ['3', '4'], correctAnswer: '3', userAnswer: '3', isCorrect: true }],
+    };
+
+    const updateQb: any = {};
+    for (const m of ['update', 'set', 'where', 'andWhere']) updateQb[m] = jest.fn().mockReturnValue(updateQb);
+    updateQb.execute = jest.fn().mockResolvedValue({ affected: 0 });
+
+    reportRepo = {
+      findOne: jest.fn(),
+      create: jest.fn((r: any) => ({ id: 5, ...r })),
+      save: jest.fn(async (r: any) => r),
+      createQueryBuilder: jest.fn().mockReturnValue(updateQb),
+    };
+    testRepo = {
+      findOne: jest.fn(async (opts: any) => (opts?.where?.id === 10 ? attempt : null)),
+      save: jest.fn(async (a: any) => a),
+      createQueryBuilder: jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockResolvedValue([attempt, otherAttempt]),
+      }),
+    };
+    bankRepo = {
+      findOne: jest.fn().mockResolvedValue({ question_id: 'bq-1', correct_answer: '3', status: 'approved' }),
+      save: jest.fn(async (q: any) => q),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuestionReportService,
+        { provide: getRepositoryToken(QuestionReport), useValue: reportRepo },
+        { provide: getRepositoryToken(TestAttempt), useValue: testRepo },
+        { provide: getRepositoryToken(GeneratedQuestion), useValue: bankRepo },
+      ],
+    }).compile();
+
+    service = module.get<QuestionReportService>(QuestionReportService);
+  });
+
+  it('create stores the report with a snapshot of the question and its bank id', async () => {
+    reportRepo.findOne.mockResolvedValue(null);
+
+    const report: any = await service.create(1, 10, '1', 'wrong_answer', 'should be 4');
+
+    expect(report).toEqual(expect.objectContaining({ attempt_id: 10, question_id: '1', bank_question_id: 'bq-1', reason: 'wrong_answer', status: 'open' }));
+    expect(report.question_snapshot).toEqual(expect.objectContaining({ correctAnswer: '3', userAnswer: '4' }));
+  });
+
+  it('create rejects unknown reasons', async () => {
+    await expect(service.create(1, 10, '1', 'rude')).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('resolve with a corrected key fixes the bank row and regrades every attempt that used the question', async () => {
+    reportRepo.findOne.mockResolvedValue({ id: 5, attempt_id: 10, question_id: '1', bank_question_id: 'bq-1', status: 'open' });
+
+    const res: any = await service.resolve(5, { action: 'resolve', correctedAnswer: '4', regrade: true }, 9);
+
+    expect(bankRepo.save).toHaveBeenCalledWith(expect.objectContaining({ correct_answer: '4', reviewed_by: 9 }));
+    expect(res.regradedAttempts).toBe(2);
+    expect(attempt.score).toBe(2);
+    expect(attempt.questions[0]).toEqual(expect.objectContaining({ correctAnswer: '4', isCorrect: true }));
+    expect(otherAttempt.score).toBe(0);
+    expect(res.report.status).toBe('resolved');
+  });
+
+  it('resolve without regrade leaves completed scores untouched', async () => {
+    reportRepo.findOne.mockResolvedValue({ id: 5, attempt_id: 10, question_id: '1', bank_question_id: 'bq-1', status: 'open' });
+
+    const res: any = await service.resolve(5, { action: 'resolve', correctedAnswer: '4' }, 9);
+
+    expect(res.regradedAttempts).toBe(0);
+    expect(attempt.score).toBe(1);
+    expect(testRepo.save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,210 @@
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { TestAttempt } from './test.entity';
+import { QuestionReport, QuestionReportReason, QuestionReportStatus, QUESTION_REPORT_REASONS } from './question-report.entity';
+import { GeneratedQuestion } from '../ai/entities/generated-question.entity';
+import { gradeAnswer } from '../ai/question-types';
+
+export interface ResolveReportInput {
+  // 'dismiss' rejects the report; 'resolve' accepts it (optionally with a corrected key)
+  action: 'resolve' | 'dismiss';
+  correctedAnswer?: string | null;
+  // recompute scores of completed attempts that contain the question
+  regrade?: boolean;
+  // stop serving the bank question (e.g. off-topic or unfixable)
+  retireQuestion?: boolean;
+  note?: string | null;
+}
+
+/**
+ * Student reports against questions in their attempts and the admin moderation queue.
+ */
+@Injectable()
+export class QuestionReportService {
+  constructor(
+    @InjectRepository(QuestionReport)
+    private readonly reportRepo: Repository<QuestionReport>,
+    @InjectRepository(TestAttempt)
+    private readonly testRepo: Repository<TestAttempt>,
+    @InjectRepository(GeneratedQuestion)
+    private readonly bankRepo: Repository<GeneratedQuestion>,
+  ) {}
+
+  async create(userId: number, attemptId: number, questionId: string, reason: string, comment?: string | null) {
+    if (!QUESTION_REPORT_REASONS.includes(reason as QuestionReportReason)) {
+      throw new BadRequestException(`reason must be one of ${QUESTION_REPORT_REASONS.join(', ')}`);
+    }
+
+    const attempt = await this.testRepo.findOne({ where: { id: attemptId, userId } });
+    if (!attempt) throw new NotFoundException('Test not found');
+    // answer keys are only visible (and reportable) once the attempt is graded
+    if (attempt.status !== 'completed') throw new BadRequestException('Only submitted tests can be reported.');
+
+    const question = (attempt.questions || []).find((q: any) => String(q?.id) === String(questionId));
+    if (!question) throw new NotFoundException('Question not found in this test');
+
+    const existing = await this.reportRepo.findOne({
+      where: { user_id: userId, attempt_id: attemptId, question_id: String(questionId), status: 'open' },
+    });
+    if (existing) throw new BadRequestException('You have already reported this question.');
+
+    const report = this.reportRepo.create({
+      user_id: userId,
+      attempt_id: attemptId,
+      question_id: String(questionId),
+      bank_question_id: question.bankId ? String(question.bankId) : null,
+      reason: reason as QuestionReportReason,
+      comment: comment ? String(comment).slice(0, 2000) : null,
+      question_snapshot: {
+        question: question.question,
+        type: question.type ?? 'multiple_choice',
+        options: question.options ?? [],
+        correctAnswer: question.correctAnswer ?? null,
+        userAnswer: question.userAnswer ?? null,
+      },
+      status: 'open',
+    });
+    return this.reportRepo.save(report);
+  }
+
+  // The student's own reports for an attempt (so review.tsx can show "reported")
+  async listForAttempt(userId: number, attemptId: number) {
+    return this.reportRepo.find({ where: { user_id: userId, attempt_id: attemptId }, order: { created_at: 'DESC' } });
+  }
+
+  async listQueue(filters: { status?: QuestionReportStatus; reason?: string; page?: number; limit?: number }) {
+    const page = Math.max(1, filters.page ?? 1);
+    const limit = Math.min(200, filters.limit ?? 25);
+    const where: any = {};
+    if (filters.status) where.status = filters.status;
+    if (filters.reason) where.reason = filters.reason;
+
+    const [items, total] = await this.reportRepo.findAndCount({
+      where,
+      order: { created_at: filters.status === 'open' ? 'ASC' : 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { items, total, page, totalPages: Math.ceil(total / limit) || 1 };
+  }
+
+  async resolve(reportId: number, input: ResolveReportInput, adminId?: number | null) {
+    const report = await this.reportRepo.findOne({ where: { id: reportId } });
+    if (!report) throw new NotFoundException('Report not found');
+    if (report.status !== 'open') throw new BadRequestException('Report has already been handled.');
+
+    const now = new Date();
+    const correctedAnswer = input.correctedAnswer != null && String(input.correctedAnswer).trim() !== '' ? String(input.correctedAnswer).trim() : null;
+
+    if (input.action === 'dismiss') {
+      report.status = 'dismissed';
+      report.resolution_note = input.note ?? null;
+      report.resolved_by = adminId ?? null;
+      report.resolved_at = now;
+      return { report: await this.reportRepo.save(report), regradedAttempts: 0 };
+    }
+    if (input.action !== 'resolve') throw new BadRequestException("action must be 'resolve' or 'dismiss'");
+    if (input.regrade && !correctedAnswer) throw new BadRequestException('A corrected answer is required to regrade.');
+
+    // Fix the bank row so future tests get the right key
+    if (report.bank_question_id && (correctedAnswer || input.retireQuestion)) {
+      const bankRow = await this.bankRepo.findOne({ where: { question_id: report.bank_question_id } });
+      if (bankRow) {
+        if (correctedAnswer) bankRow.correct_answer = correctedAnswer;
+        if (input.retireQuestion) bankRow.status = 'retired';
+        bankRow.reviewed_by = adminId ?? null;
+        bankRow.reviewed_at = now;
+        await this.bankRepo.save(bankRow);
+      }
+    }
+
+    let regradedAttempts = 0;
+    if (correctedAnswer) {
+      regradedAttempts = await this.applyCorrectedKey(report, correctedAnswer, !!input.regrade);
+    }
+
+    report.status = 'resolved';
+    report.corrected_answer = correctedAnswer;
+    report.resolution_note = input.note ?? null;
+    report.resolved_by = adminId ?? null;
+    report.resolved_at = now;
+    report.regraded_attempts = regradedAttempts;
+    const saved = await this.reportRepo.save(report);
+
+    // Other open reports about the same question are settled by this decision
+    await this.closeDuplicates(saved, adminId ?? null, now);
+
+    return { report: saved, regradedAttempts };
+  }
+
+  /**
+   * Write the corrected key into every attempt holding the question (the reported attempt, plus
+   * all attempts with the same bank question). Not-yet-submitted attempts always get the new key;
+   * completed attempts are re-scored only when `regrade` is set. Returns the number re-scored.
+   */
+  private async applyCorrectedKey(report: QuestionReport, correctedAnswer: string, regrade: boolean) {
+    const attempts: TestAttempt[] = [];
+    const reported = await this.testRepo.findOne({ where: { id: report.attempt_id } });
+    if (reported) attempts.push(reported);
+
+    if (report.bank_question_id) {
+      const shared = await this.testRepo
+        .createQueryBuilder('t')
+        .where(`EXISTS (SELECT 1 FROM json_array_elements(t.questions) e WHERE e->>'bankId' = :bankId)`, { bankId: report.bank_question_id })
+        .getMany();
+      for (const a of shared) if (!attempts.some((x) => x.id === a.id)) attempts.push(a);
+    }
+
+    let regraded = 0;
+    for (const attempt of attempts) {
+      const matches = (q: any) =>
+        (report.bank_question_id && String(q?.bankId ?? '') === report.bank_question_id) ||
+        (attempt.id === report.attempt_id && String(q?.id) === report.question_id);
+
+      const isCompleted = attempt.status === 'completed';
+      if (isCompleted && !regrade) continue;
+
+      let touched = false;
+      attempt.questions = (attempt.questions || []).map((q: any) => {
+        if (!matches(q)) return q;
+        touched = true;
+        const next: any = { ...q, correctAnswer: correctedAnswer, keyCorrected: { from: q.correctAnswer ?? null, reportId: report.id } };
+        if (isCompleted) {
+          next.isCorrect = gradeAnswer(next, q.userAnswer);
+        }
+        return next;
+      });
+      if (!touched) continue;
+
+      if (isCompleted) {
+        attempt.score = attempt.questions.filter((q: any) => q?.isCorrect).length;
+        regraded++;
+      }
+      await this.testRepo.save(attempt);
+    }
+    return regraded;
+  }
+
+  private async closeDuplicates(report: QuestionReport, adminId: number | null, now: Date) {
+    const qb = this.reportRepo
+      .createQueryBuilder()
+      .update(QuestionReport)
+      .set({
+        status: 'resolved',
+        corrected_answer: report.corrected_answer ?? null,
+        resolution_note: `Handled with report #${report.id}`,
+        resolved_by: adminId,
+        resolved_at: now,
+      })
+      .where('status = :open', { open: 'open' })
+      .andWhere('id <> :id', { id: report.id });
+
+    if (report.bank_question_id) {
+      qb.andWhere('bank_question_id = :bankId', { bankId: report.bank_question_id });
+    } else {
+      qb.andWhere('attempt_id = :attemptId AND question_id = :questionId', { attemptId: report.attempt_id, questionId: report.question_id });
+    }
+    await qb.execute();
+  }
+}
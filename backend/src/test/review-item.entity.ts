@@ -0,0 +1,75 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+
+/**
+ * One missed question in a user's spaced-repetition review queue (SM-2 scheduling).
+ * The question is snapshotted from the attempt; bank questions are keyed by bank id so
+ * the same question missed in several tests stays a single item.
+ */
+@Entity({ name: 'review_items' })
+@Index(['user_id', 'source_key'], { unique: true })
+@Index(['user_id', 'due_at'])
+export class ReviewItem {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column({ type: 'int' })
+  user_id: number;
+
+  // "bank:<question_id>" or "attempt:<attemptId>:<questionId>"
+  @Column({ type: 'varchar', length: 200 })
+  source_key: string;
+
+  @Column({ type: 'varchar', length: 128, nullable: true })
+  bank_question_id?: string | null;
+
+  // attempt the question was (last) missed in
+  @Column({ type: 'int', nullable: true })
+  attempt_id?: number | null;
+
+  @Column({ type: 'text' })
+  question: string;
+
+  @Column({ type: 'json' })
+  options: string[];
+
+  @Column({ type: 'text' })
+  correct_answer: string;
+
+  @Column({ type: 'text', nullable: true })
+  explanation?: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  topic?: string | null;
+
+  // SM-2 state
+  @Column({ type: 'float', default: 2.5 })
+  easiness: number;
+
+  @Column({ type: 'int', default: 0 })
+  interval_days: number;
+
+  @Column({ type: 'int', default: 0 })
+  repetitions: number;
+
+  @Column({ type: 'timestamptz' })
+  due_at: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  last_reviewed_at?: Date | null;
+
+  @Column({ type: 'int', nullable: true })
+  last_quality?: number | null;
+
+  // wrong answers, in tests and in reviews
+  @Column({ type: 'int', default: 1 })
+  lapses: number;
+
+  @Column({ type: 'int', default: 0 })
+  reviews: number;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  created_at: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updated_at: Date;
+}
@@ -0,0 +1,50 @@
+import { Controller, Get, Post, Body, Param, Query, Req, UseGuards, UnauthorizedException, ParseIntPipe } from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { ReviewQueueService } from './review-queue.service';
+import { extractUserId } from './test.controller';
+
+/**
+ * Spaced-repetition review of missed questions.
+ */
+@Controller('review')
+@UseGuards(JwtAuthGuard)
+export class ReviewQueueController {
+  constructor(private readonly reviews: ReviewQueueService) {}
+
+  // GET /review/due?limit=20 -> { dueCount, dueToday, total, nextDueAt, items }
+  @Get('due')
+  async due(@Req() req: any, @Query('limit') limit = '20') {
+    return this.reviews.due(this.userId(req), Number(limit) || 20);
+  }
+
+  @Get('summary')
+  async summary(@Req() req: any) {
+    return this.reviews.summary(this.userId(req));
+  }
+
+  // Rebuild from recent completed tests (idempotent)
+  @Post('sync')
+  async sync(@Req() req: any) {
+    const userId = this.userId(req);
+    const touched = await this.reviews.backfill(userId);
+    return { touched, ...(await this.reviews.summary(userId)) };
+  }
+
+  /**
+   * POST /review/:id/answer
+   * Body: { answer, timeSeconds?, quality?: 0-5 } -> { correct, correctAnswer, explanation, intervalDays, nextDueAt }
+   */
+  @Post(':id/answer')
+  async answer(@Req() req: any, @Param('id', ParseIntPipe) id: number, @Body() body: any) {
+    return this.reviews.answer(this.userId(req), id, body?.answer, {
+      timeSeconds: body?.timeSeconds != null ? Number(body.timeSeconds) : undefined,
+      quality: body?.quality != null ? Number(body.quality) : undefined,
+    });
+  }
+
+  private userId(req: any): number {
+    const userId = extractUserId(req);
+    if (!userId) throw new UnauthorizedException('Invalid user');
+    return userId;
+  }
+}
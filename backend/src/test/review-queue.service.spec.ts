@@ -0,0 +1,126 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ReviewQueueService, sm2 } from './review-queue.service';
+import { ReviewItem } from './review-item.entity';
+import { TestAttempt } from './test.entity';
+import { GeneratedQuestion } from '../ai/entities/generated-question.entity';
+
+declare const describe: any;
+declare const beforeEach: any;
+declare const it: any;
+declare const expect: any;
+declare const jest: any;
+
+describe('sm2', () => {
+  it('grows the interval 1 -> 6 -> interval * easiness on passes', () => {
+    let s = { easiness: 2.5, interval_days: 0, repetitions: 0 };
+    s = sm2(s, 4);
+    expect(s.interval_days).toBe(1);
+    s = sm2(s, 4);
+    expect(s.interval_days).toBe(6);
+    s = sm2(s, 5);
+    expect(s.interval_days).toBe(Math.round(6 * s.easiness));
+    expect(s.repetitions).toBe(3);
+  });
+
+  it('resets on a failed review and never drops easiness below 1.3', () => {
+    let s = { easiness: 1.35, interval_days: 15, repetitions: 4 };
+    s = sm2(s, 0);
+    expect(s).toEqual({ easiness: 1.3, interval_days: 1, repetitions: 0 });
+  });
+});
+
+describe('ReviewQueueService', () => {
+  let service: ReviewQueueService;
+  let reviewRepo: Record<string, any>;
+  let bankRepo: Record<string, any>;
+  let items: any[];
+
+  const attempt: any = {
+    id: 10,
+    userId: 5,
+    status: 'completed',
+    takenAt: new Date('2026-01-01T10:00:00Z'),
+    questions: [
+      { id: 1, bankId: 'b-1', question: 'Q1', options: ['A', 'B'], correctAnswer: 'A', isCorrect: false, tags: ['Algebra'] },
+      { id: 2, question: 'Q2', options: ['A', 'B'], correctAnswer: 'B', isCorrect: true },
+      { id: 3, question: 'Q3', options: ['A', 'B'], correctAnswer: 'B', isCorrect: false },
+    ],
+  };
+
+  beforeEach(async () => {
+    items = [];
+    reviewRepo = {
+      findOne: jest.fn(async (opts: any) => items.find((i) => Object.entries(opts.where).every(([k, v]) => i[k] === v)) ?? null),
+      create: jest.fn((x: any) => ({ ...x })),
+      save: jest.fn(async (x: any) => {
+        if (!x.id) {
+          x.id = items.length + 1;
+          items.push(x);
+        }
+        return x;
+      }),
+      remove: jest.fn(async (x: any) => {
+        items = items.filter((i) => i !== x);
+        return x;
+      }),
+      count: jest.fn(async () => items.length),
+    };
+    bankRepo = { findOne: jest.fn(async () => null) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReviewQueueService,
+        { provide: getRepositoryToken(ReviewItem), useValue: reviewRepo },
+        { provide: getRepositoryToken(TestAttempt), useValue: { find: jest.fn(async () => [attempt]) } },
+        { provide: getRepositoryToken(GeneratedQuestion), useValue: bankRepo },
+      ],
+    }).compile();
+
+    service = module.get<ReviewQueueService>(ReviewQueueService);
+  });
+
+  it('queues only missed questions, due the day after the test, and is idempotent per attempt', async () => {
+    expect(await service.enqueueMissed(attempt)).toBe(2);
+    expect(items.map((i) => i.source_key)).toEqual(['bank:b-1', 'attempt:10:3']);
+    expect(items[0].due_at.toISOString()).toBe('2026-01-02T10:00:00.000Z');
+    expect(items[0].topic).toBe('Algebra');
+
+    expect(await service.enqueueMissed(attempt)).toBe(0);
+  });
+
+  it('missing the same bank question in a later test counts as a lapse', async () => {
+    await service.enqueueMissed(attempt);
+    items[0].repetitions = 3;
+    items[0].interval_days = 20;
+
+    await service.enqueueMissed({ ...attempt, id: 11, questions: [attempt.questions[0]] });
+
+    expect(items).toHaveLength(2);
+    expect(items[0]).toEqual(expect.objectContaining({ attempt_id: 11, repetitions: 0, interval_days: 1, lapses: 2 }));
+  });
+
+  it('reschedules on answer and uses the corrected bank key', async () => {
+    await service.enqueueMissed(attempt);
+    bankRepo.findOne.mockResolvedValue({ question_id: 'b-1', status: 'approved', correct_answer: 'B', choices: ['A', 'B'] });
+
+    const res: any = await service.answer(5, 1, 'B', { timeSeconds: 10 });
+
+    expect(res.correct).toBe(true);
+    expect(res.quality).toBe(5);
+    expect(res.intervalDays).toBe(1);
+    expect(items[0].reviews).toBe(1);
+    await expect(service.answer(6, 1, 'B')).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('drops retired bank questions from the queue', async () => {
+    await service.enqueueMissed(attempt);
+    bankRepo.findOne.mockResolvedValue({ question_id: 'b-1', status: 'retired' });
+
+    const res: any = await service.answer(5, 1, 'A');
+
+    expect(res.removed).toBe(true);
+    expect(items.map((i) => i.source_key)).toEqual(['attempt:10:3']);
+  });
+});
@@ -0,0 +1,207 @@
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import { ReviewItem } from './review-item.entity';
+import { TestAttempt } from './test.entity';
+import { GeneratedQuestion } from '../ai/entities/generated-question.entity';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Completed attempts scanned when a user's queue is built for the first time
+const BACKFILL_ATTEMPTS = 50;
+
+// Answers at or under this many seconds count as confident recall (quality 5 instead of 4)
+const FAST_RECALL_SECONDS = 30;
+
+export interface Sm2State {
+  easiness: number;
+  interval_days: number;
+  repetitions: number;
+}
+
+/**
+ * SM-2: next easiness/interval/repetitions for a review graded 0..5 (>= 3 is a pass).
+ */
+export function sm2(state: Sm2State, quality: number): Sm2State {
+  const q = Math.min(5, Math.max(0, Math.round(quality)));
+  const easiness = Math.max(1.3, state.easiness + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+  if (q < 3) return { easiness, interval_days: 1, repetitions: 0 };
+
+  const repetitions = state.repetitions + 1;
+  const interval_days = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(state.interval_days * easiness);
+  return { easiness, interval_days, repetitions };
+}
+
+// End of the current day; "due today" includes everything scheduled before midnight
+function endOfToday(now = new Date()) {
+  const d = new Date(now);
+  d.setHours(23, 59, 59, 999);
+  return d;
+}
+
+/**
+ * Spaced-repetition review queue built from questions missed in completed tests.
+ * Items are added when a test is submitted (and backfilled from recent attempts the
+ * first time the queue is opened); each review reschedules the item with SM-2.
+ */
+@Injectable()
+export class ReviewQueueService {
+  constructor(
+    @InjectRepository(ReviewItem)
+    private readonly reviewRepo: Repository<ReviewItem>,
+    @InjectRepository(TestAttempt)
+    private readonly testRepo: Repository<TestAttempt>,
+    @InjectRepository(GeneratedQuestion)
+    private readonly bankRepo: Repository<GeneratedQuestion>,
+  ) {}
+
+  /**
+   * Queue every missed multiple-choice question of a graded attempt. A question already in the queue
+   * counts as a lapse and is rescheduled for the next day. Returns the number of items touched.
+   */
+  async enqueueMissed(attempt: TestAttempt): Promise<number> {
+    if (!attempt || attempt.status !== 'completed') return 0;
+    const missedAt = attempt.takenAt ? new Date(attempt.takenAt) : new Date();
+    let touched = 0;
+
+    for (const q of attempt.questions || []) {
+      if (!q || q.isCorrect || !q.question || q.correctAnswer == null || !Array.isArray(q.options) || q.options.length < 2) continue;
+      // review cards are single-answer multiple choice
+      if (q.type && q.type !== 'multiple_choice') continue;
+
+      const sourceKey = q.bankId ? `bank:${q.bankId}` : `attempt:${attempt.id}:${q.id}`;
+      const dueAt = new Date(missedAt.getTime() + DAY_MS);
+      const existing = await this.reviewRepo.findOne({ where: { user_id: attempt.userId, source_key: sourceKey } });
+
+      if (existing) {
+        // already queued from this attempt (e.g. backfill after the submit hook ran)
+        if (existing.attempt_id === attempt.id) continue;
+        existing.attempt_id = attempt.id;
+        existing.correct_answer = String(q.correctAnswer);
+        existing.explanation = q.explanation ?? existing.explanation ?? null;
+        Object.assign(existing, sm2(existing, 1));
+        existing.due_at = dueAt;
+        existing.lapses = (existing.lapses || 0) + 1;
+        await this.reviewRepo.save(existing);
+      } else {
+        await this.reviewRepo.save(
+          this.reviewRepo.create({
+            user_id: attempt.userId,
+            source_key: sourceKey,
+            bank_question_id: q.bankId ? String(q.bankId) : null,
+            attempt_id: attempt.id,
+            question: String(q.question),
+            options: q.options.map((o: any) => String(o)),
+            correct_answer: String(q.correctAnswer),
+            explanation: q.explanation ?? null,
+            topic: q.topic ?? (Array.isArray(q.tags) && q.tags.length ? String(q.tags[0]) : null),
+            easiness: 2.5,
+            interval_days: 0,
+            repetitions: 0,
+            due_at: dueAt,
+            lapses: 1,
+            reviews: 0,
+          }),
+        );
+      }
+      touched++;
+    }
+    return touched;
+  }
+
+  /**
+   * Build the queue from the user's recent completed attempts (idempotent).
+   */
+  async backfill(userId: number): Promise<number> {
+    const attempts = await this.testRepo.find({ where: { userId, status: 'completed' }, order: { takenAt: 'ASC' }, take: BACKFILL_ATTEMPTS });
+    let touched = 0;
+    for (const a of attempts) touched += await this.enqueueMissed(a);
+    return touched;
+  }
+
+  /**
+   * Items due by the end of today (answer keys hidden), oldest first, plus queue counts.
+   */
+  async due(userId: number, limit = 20) {
+    if ((await this.reviewRepo.count({ where: { user_id: userId } })) === 0) {
+      await this.backfill(userId);
+    }
+
+    const cutoff = endOfToday();
+    const [items, dueCount] = await this.reviewRepo.findAndCount({
+      where: { user_id: userId, due_at: LessThanOrEqual(cutoff) },
+      order: { due_at: 'ASC' },
+      take: Math.min(100, Math.max(1, limit)),
+    });
+    return {
+      dueCount,
+      ...(await this.summary(userId)),
+      items: items.map((i) => ({
+        id: i.id,
+        question: i.question,
+        options: i.options,
+        topic: i.topic ?? null,
+        dueAt: i.due_at,
+        repetitions: i.repetitions,
+        lapses: i.lapses,
+      })),
+    };
+  }
+
+  async summary(userId: number) {
+    const total = await this.reviewRepo.count({ where: { user_id: userId } });
+    const dueToday = await this.reviewRepo.count({ where: { user_id: userId, due_at: LessThanOrEqual(endOfToday()) } });
+    const next = await this.reviewRepo.findOne({ where: { user_id: userId }, order: { due_at: 'ASC' } });
+    return { total, dueToday, nextDueAt: next?.due_at ?? null };
+  }
+
+  /**
+   * Grade one review and reschedule it. Quality defaults from correctness and speed
+   * (wrong 1, correct 4, correct within FAST_RECALL_SECONDS 5); a 0..5 self-rating overrides it.
+   */
+  async answer(userId: number, itemId: number, answer: any, opts: { timeSeconds?: number; quality?: number } = {}) {
+    const item = await this.reviewRepo.findOne({ where: { id: itemId, user_id: userId } });
+    if (!item) throw new NotFoundException('Review item not found');
+    if (answer == null || String(answer).trim() === '') throw new BadRequestException('answer is required');
+
+    // Bank corrections (question reports, admin edits) win over the snapshot; retired questions leave the queue
+    if (item.bank_question_id) {
+      const bankRow = await this.bankRepo.findOne({ where: { question_id: item.bank_question_id } });
+      if (bankRow?.status === 'retired') {
+        await this.reviewRepo.remove(item);
+        return { removed: true, reason: 'This question was retired from the question bank.' };
+      }
+      if (bankRow) {
+        item.correct_answer = bankRow.correct_answer;
+        item.options = bankRow.choices ?? item.options;
+      }
+    }
+
+    const correct = String(answer).trim() === String(item.correct_answer).trim();
+    const seconds = Number(opts.timeSeconds);
+    let quality = correct ? (Number.isFinite(seconds) && seconds <= FAST_RECALL_SECONDS ? 5 : 4) : 1;
+    if (opts.quality != null && Number.isFinite(Number(opts.quality))) {
+      // a self-rating can't turn a wrong answer into a pass
+      quality = correct ? Math.max(3, Math.min(5, Number(opts.quality))) : Math.min(2, Math.max(0, Number(opts.quality)));
+    }
+
+    const now = new Date();
+    Object.assign(item, sm2(item, quality));
+    item.due_at = new Date(now.getTime() + item.interval_days * DAY_MS);
+    item.last_reviewed_at = now;
+    item.last_quality = quality;
+    item.reviews = (item.reviews || 0) + 1;
+    if (!correct) item.lapses = (item.lapses || 0) + 1;
+    await this.reviewRepo.save(item);
+
+    return {
+      correct,
+      correctAnswer: item.correct_answer,
+      explanation: item.explanation ?? null,
+      quality,
+      intervalDays: item.interval_days,
+      nextDueAt: item.due_at,
+    };
+  }
+}
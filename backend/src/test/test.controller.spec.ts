@@ -70,10 +70,8 @@ describe('TestController', () => {
     (mockTestService.submitTest as any).mockResolvedValue({ attempt, warning: 'soft limit exceeded' });
 
     const body = {
+      sessionId: attempt.id,
       answers: attempt.answers,
-      questions: attempt.questions,
-      topic: 'Algebra',
-      difficulty: 'medium',
     };
 
     // Call the controller method (bypasses guards since we call method directly)
@@ -82,9 +80,9 @@ describe('TestController', () => {
     // Assert userService.findById was called to fetch the authoritative plan
     expect((mockUserService.findById as any)).toHaveBeenCalledWith(userId);
 
-    // Assert service was called with the expected normalized title, payload and the Tutor plan
+    // Assert service was called with the session id, answers and the Tutor plan
     expect(mockTestService.submitTest).toHaveBeenCalledTimes(1);
-    expect(mockTestService.submitTest).toHaveBeenCalledWith(userId, `${body.topic} (${body.difficulty})`, body.questions, body.answers, 'Tutor');
+    expect(mockTestService.submitTest).toHaveBeenCalledWith(userId, attempt.id, body.answers, 'Tutor', undefined, { deferExplanations: false });
 
     // Assert controller maps fields to top-level response
     expect(res).toBeDefined();
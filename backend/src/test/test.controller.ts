@@ -2,31 +2,29 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
   Body,
   Req,
+  Res,
   UseGuards,
   Param,
   BadRequestException,
   InternalServerErrorException,
   UnauthorizedException,
-  HttpException,
-  ForbiddenException,
+  HttpCode,
 } from '@nestjs/common';
-import { TestService } from './test.service';
+import { QuestionTimings, TestService } from './test.service';
+import { Request, Response } from 'express';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { openSseStream } from '../common/sse';
+import { JobQueueService } from '../jobs/job-queue.service';
 import { UserService } from '../user/user.service';
 
-// NOTE: use an import path that resolves correctly in your project.
-import { EnforcementService } from 'src/modules/enforcement/enforcement.service';
-// Alternative relative import (uncomment if you prefer relative paths):
-// import { EnforcementService } from '../enforcement/enforcement.service';
-
 @Controller('tests')
 export class TestController {
   constructor(
     private readonly testService: TestService,
     private readonly userService: UserService,
-    private readonly enforcementService: EnforcementService,
   ) {}
 
   @Get('my')
@@ -37,20 +35,49 @@ export class TestController {
     return this.testService.listUserTests(userId);
   }
 
+  /**
+   * Started attempts that can still be resumed (dashboard "continue" list).
+   */
+  @Get('resumable')
+  @UseGuards(JwtAuthGuard)
+  async resumable(@Req() req: any) {
+    const userId = extractUserId(req);
+    if (!userId) throw new UnauthorizedException('Invalid user');
+    return this.testService.listResumable(userId);
+  }
+
+  /**
+   * Per-topic pacing for the current user (average seconds per question, accuracy, relative pace).
+   */
+  @Get('analytics/pacing')
+  @UseGuards(JwtAuthGuard)
+  async pacing(@Req() req: any) {
+    const userId = extractUserId(req);
+    if (!userId) throw new UnauthorizedException('Invalid user');
+    return this.testService.getPacingSummary(userId);
+  }
+
   /**
    * Submit a completed test.
-   * Expects body: { answers, questions, topic, difficulty }
+   * Expects body: { sessionId, answers, timings?, deferExplanations? } where answers maps question id -> chosen option
+   * and timings maps question id -> { timeSeconds, answerChanges } (pacing analytics).
+   * With deferExplanations the score comes back immediately and explanations are streamed from
+   * GET /tests/:id/explanations/stream (explanationsPending in the response says how many).
+   * Questions and answer keys are read from the persisted attempt; any client-sent questions are ignored.
    * We run a conservative enforcement check (questionCountMax) before accepting the submission.
    */
   @Post('submit')
   @UseGuards(JwtAuthGuard)
   async submit(
     @Req() req: any,
-    @Body() body: { answers: any; questions: any; topic: string; difficulty: string },
+    @Body() body: { sessionId: number | string; answers: Record<string, any>; timings?: QuestionTimings; questions?: any[]; deferExplanations?: boolean },
   ) {
     const userId = extractUserId(req);
     if (!userId) throw new UnauthorizedException('Invalid user');
 
+    const sessionId = Number(body?.sessionId);
+    if (!sessionId || Number.isNaN(sessionId)) throw new BadRequestException('Missing or invalid sessionId');
+
     // load authoritative user record to obtain plan
     let plan: string | undefined;
     try {
@@ -60,25 +87,10 @@ export class TestController {
       plan = undefined;
     }
 
-    // Conservative enforcement check: ensure questionCountMax (if enforcement enabled) is not exceeded.
-    try {
-      const questionCount = Array.isArray(body?.questions) ? body.questions.length : 0;
-      // Call the enforcement method with numeric userId and questionCount
-      await this.enforcementService.checkCreateTest(userId, questionCount);
-    } catch (err: any) {
-      // If enforcement fails, respond with Forbidden (propagate HttpException)
-      if (err instanceof HttpException) throw err;
-      throw new ForbiddenException('Submission blocked by plan limits');
-    }
-
-    // Call service with plan so it can apply plan-specific logic
-    const svcRes = await this.testService.submitTest(
-      userId,
-      `${body.topic} (${body.difficulty})`,
-      body.questions,
-      body.answers,
-      plan,
-    );
+    // Call service with plan so it can apply plan-specific logic (attempt and explanation limits)
+    const svcRes = await this.testService.submitTest(userId, sessionId, body.answers, plan, body.timings, {
+      deferExplanations: body?.deferExplanations === true,
+    });
 
     // Normalize service response to top-level shape expected by frontend
     if (svcRes && typeof svcRes === 'object' && 'attempt' in svcRes && svcRes.attempt) {
@@ -89,7 +101,9 @@ export class TestController {
         total: Array.isArray(attempt?.questions) ? attempt.questions.length : null,
         questions: attempt?.questions ?? null,
       };
+      if (attempt?.hintsUsed) responseBody.hintsUsed = attempt.hintsUsed;
       if ((svcRes as any).warning) responseBody.warning = (svcRes as any).warning;
+      if ((svcRes as any).explanationsPending) responseBody.explanationsPending = (svcRes as any).explanationsPending;
       return responseBody;
     }
 
@@ -106,14 +120,121 @@ export class TestController {
     return svcRes;
   }
 
+  /**
+   * GET /tests/:id/time
+   * Remaining time for a timed attempt, computed from the server clock.
+   */
+  @Get(':id/time')
+  @UseGuards(JwtAuthGuard)
+  async remainingTime(@Req() req: any, @Param('id') id: string) {
+    const userId = extractUserId(req);
+    if (!userId) throw new UnauthorizedException('Invalid user');
+    const numericId = Number(id);
+    if (!numericId || Number.isNaN(numericId)) throw new BadRequestException('Invalid session id');
+    return this.testService.getRemainingTime(userId, numericId);
+  }
+
+  /**
+   * PATCH /tests/:id/progress
+   * Autosave for a started attempt. Body: { answers, currentIndex }.
+   */
+  @Patch(':id/progress')
+  @UseGuards(JwtAuthGuard)
+  async saveProgress(@Req() req: any, @Param('id') id: string, @Body() body: any) {
+    const userId = extractUserId(req);
+    if (!userId) throw new UnauthorizedException('Invalid user');
+    const numericId = Number(id);
+    if (!numericId || Number.isNaN(numericId)) throw new BadRequestException('Invalid session id');
+    if (body?.answers != null && typeof body.answers !== 'object') throw new BadRequestException('answers must be an object');
+    return this.testService.saveProgress(userId, numericId, body?.answers ?? {}, body?.currentIndex);
+  }
+
+  /**
+   * GET /tests/:id/resume
+   * Questions (without answer keys), autosaved answers, current question and timing of a started attempt.
+   */
+  @Get(':id/resume')
+  @UseGuards(JwtAuthGuard)
+  async resume(@Req() req: any, @Param('id') id: string) {
+    const userId = extractUserId(req);
+    if (!userId) throw new UnauthorizedException('Invalid user');
+    const numericId = Number(id);
+    if (!numericId || Number.isNaN(numericId)) throw new BadRequestException('Invalid session id');
+    return this.testService.resumeAttempt(userId, numericId);
+  }
+
+  /**
+   * POST /tests/:id/hints
+   * Next hint (up to three, each more specific) for a question of a started attempt. Body: { questionId }.
+   * Counts against the plan's monthly hint quota (403 once it is used up).
+   */
+  @Post(':id/hints')
+  @UseGuards(JwtAuthGuard)
+  async hint(@Req() req: any, @Param('id') id: string, @Body() body: { questionId: string | number }) {
+    const userId = extractUserId(req);
+    if (!userId) throw new UnauthorizedException('Invalid user');
+    const numericId = Number(id);
+    if (!numericId || Number.isNaN(numericId)) throw new BadRequestException('Invalid session id');
+    if (body?.questionId == null || String(body.questionId).trim() === '') throw new BadRequestException('questionId is required');
+
+    let plan: string | undefined;
+    try {
+      const user = await this.userService.findById(userId);
+      plan = user?.plan ?? undefined;
+    } catch {
+      plan = undefined;
+    }
+    return this.testService.requestHint(userId, numericId, body.questionId, plan);
+  }
+
+  /**
+   * GET /tests/:id/explanations/stream
+   * Server-Sent Events with the explanations a deferred submission still owes (see TestService.streamExplanations).
+   */
+  @Get(':id/explanations/stream')
+  @UseGuards(JwtAuthGuard)
+  async explanationsStream(@Req() req: any, @Res() res: Response, @Param('id') id: string) {
+    const userId = extractUserId(req);
+    if (!userId) throw new UnauthorizedException('Invalid user');
+    const numericId = Number(id);
+    if (!numericId || Number.isNaN(numericId)) throw new BadRequestException('Invalid test id');
+
+    const sse = openSseStream(req as Request, res);
+    try {
+      await this.testService.streamExplanations(userId, numericId, (event, data) => sse.send(event, data), () => sse.isClosed());
+    } catch (err: any) {
+      sse.send('error', { message: err?.message ?? 'Failed to stream explanations' });
+    } finally {
+      sse.close();
+    }
+  }
+
+  /**
+   * POST /tests/:id/explanations/jobs
+   * Queue the pending explanations as a background job; poll GET /jobs/:id for its status.
+   */
+  @Post(':id/explanations/jobs')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(202)
+  async explanationsJob(@Req() req: any, @Param('id') id: string) {
+    const userId = extractUserId(req);
+    if (!userId) throw new UnauthorizedException('Invalid user');
+    const numericId = Number(id);
+    if (!numericId || Number.isNaN(numericId)) throw new BadRequestException('Invalid test id');
+    const job = await this.testService.enqueueExplanations(userId, numericId);
+    return { ...JobQueueService.toView(job), statusUrl: `/jobs/${job.id}` };
+  }
+
   @Get(':id/review')
   @UseGuards(JwtAuthGuard)
   async review(@Req() req: any, @Param('id') id: string) {
+    const userId = extractUserId(req);
+    if (!userId) throw new UnauthorizedException('Invalid user');
     const numericId = typeof id === 'string' ? Number(id) : id;
     if (!numericId || Number.isNaN(numericId)) {
       throw new BadRequestException('Invalid review id');
     }
-    return this.testService.reviewTest(numericId);
+    return this.testService.reviewTest(userId, numericId);
   }
 
   /**
@@ -147,23 +268,21 @@ export class TestController {
       if (!Number.isNaN(n)) questionCount = Math.max(1, Math.floor(n));
     }
 
-    // Enforcement: check create-test limits (throws HttpException if blocked)
-    try {
-      await this.enforcementService.checkCreateTest(userId, questionCount ?? 0);
-    } catch (err: any) {
-      if (err instanceof HttpException) throw err;
-      // eslint-disable-next-line no-console
-      console.error('Enforcement check failed', err);
-      throw new InternalServerErrorException('Enforcement check failed');
-    }
-
+    // Plan limits (tests per day, questions per test) are enforced by TestService.createFromAI
     try {
       const attempt = await this.testService.createFromAI(userId, topic, difficulty, plan, questionCount);
 
       const responseBody: any = { sessionId: attempt.id ?? null };
       if (attempt && attempt.questions && Array.isArray(attempt.questions) && attempt.questions.length > 0) {
-        responseBody.questions = attempt.questions;
+        // answer keys stay on the server; grading reads them from the attempt
+        responseBody.questions = this.testService.toClientQuestions(attempt.questions);
       }
+      // timing (deadlineAt is null for untimed plans)
+      const timing = this.testService.timingView(attempt);
+      responseBody.startedAt = timing.startedAt;
+      responseBody.deadlineAt = timing.deadlineAt;
+      responseBody.timeLimitSeconds = timing.timeLimitSeconds;
+      responseBody.serverTime = timing.serverTime;
 
       return responseBody;
     } catch (err: any) {
@@ -180,7 +299,7 @@ export class TestController {
 /**
  * Helper: robustly extract numeric user id from the token payload in req.user
  */
-function extractUserId(req: any): number | null {
+export function extractUserId(req: any): number | null {
   const raw = req?.user ?? {};
   const maybeId =
     raw.sub ??
@@ -1,6 +1,7 @@
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
 
-export type TestStatus = 'started' | 'completed';
+// 'expired': a timed attempt whose deadline passed without an accepted submission
+export type TestStatus = 'started' | 'completed' | 'expired';
 
 @Entity()
 export class TestAttempt {
@@ -31,6 +32,32 @@ export class TestAttempt {
   @Column({ type: 'varchar', length: 20, default: 'started' })
   status: TestStatus;
 
+  // Timed attempts: server-authoritative clock. startedAt/deadlineAt are set when the
+  // attempt is created; deadlineAt stays null for plans without a time limit.
+  @Column({ type: 'timestamptz', nullable: true })
+  startedAt: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  deadlineAt: Date | null;
+
+  @Column({ type: 'int', nullable: true })
+  timeLimitSeconds: number | null;
+
+  // Autosaved progress of a started attempt (answers are autosaved into `answers`)
+  @Column({ type: 'int', nullable: true })
+  currentIndex: number | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  progressSavedAt: Date | null;
+
+  // Hints shown while the attempt was in progress: question id -> hint texts, level 1 first
+  @Column({ type: 'json', nullable: true })
+  hints: Record<string, string[]> | null;
+
+  // Total hints shown; a score with hintsUsed > 0 is shown as "with hints"
+  @Column({ type: 'int', default: 0 })
+  hintsUsed: number;
+
   @CreateDateColumn()
   createdAt: Date;
 }
\ No newline at end of file
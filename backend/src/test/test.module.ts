@@ -5,19 +5,30 @@ import { TestService } from './test.service';
 import { TestController } from './test.controller';
 import { AiModule } from '../ai/ai.module';
 import { AiUsage } from '../ai/ai-usage.entity';
+import { SessionPerformance } from '../ai/entities/session-performance.entity';
+import { GeneratedQuestion } from '../ai/entities/generated-question.entity';
+import { QuestionReport } from './question-report.entity';
+import { QuestionReportService } from './question-report.service';
+import { QuestionReportController, AdminQuestionReportsController } from './question-report.controller';
+import { ExamAttempt } from './exam-attempt.entity';
+import { ExamService } from './exam.service';
+import { ExamController } from './exam.controller';
+import { ReviewItem } from './review-item.entity';
+import { ReviewQueueService } from './review-queue.service';
+import { ReviewQueueController } from './review-queue.controller';
 import { UserModule } from '../user/user.module';
-
-// FIXED import path: EnforcementModule lives under src/modules/enforcement
-import { EnforcementModule } from '../modules/enforcement/enforcement.module';
+import { PlanModule } from '../plan/plan.module';
+import { JobsModule } from '../jobs/jobs.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([TestAttempt, AiUsage]),
+    TypeOrmModule.forFeature([TestAttempt, AiUsage, SessionPerformance, GeneratedQuestion, QuestionReport, ExamAttempt, ReviewItem]),
     AiModule,
     UserModule, // import so we can use UserService in TestController
-    EnforcementModule, // <<-- ensures EnforcementService is available to TestController
+    PlanModule, // PlanPolicyService: plan limits for tests, attempts and explanations
+    JobsModule,
   ],
-  providers: [TestService],
-  controllers: [TestController],
+  providers: [TestService, QuestionReportService, ExamService, ReviewQueueService],
+  controllers: [TestController, QuestionReportController, AdminQuestionReportsController, ExamController, ReviewQueueController],
 })
 export class TestModule {}
\ No newline at end of file
@@ -15,7 +15,7 @@ declare const it: any;
 declare const expect: any;
 declare const jest: any;
 
-import { BadRequestException } from '@nestjs/common';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
@@ -23,7 +23,13 @@ import { Repository } from 'typeorm';
 import { TestService } from './test.service';
 import { TestAttempt } from './test.entity';
 import { AiUsage } from '../ai/ai-usage.entity';
+import { SessionPerformance } from '../ai/entities/session-performance.entity';
 import { AiService } from '../ai/ai.service';
+import { QuestionBankService } from '../ai/question-bank.service';
+import { ReviewQueueService } from './review-queue.service';
+import { JobQueueService } from '../jobs/job-queue.service';
+import { PlanPolicyService } from '../plan/plan-policy.service';
+import { SettingsService } from '../modules/settings/settings.service';
 
 /* Lightweight runtime mock repo factory that uses jest.fn() for methods.
    Using plain objects with jest.fn() avoids TypeScript complaining about missing
@@ -35,6 +41,8 @@ function createMockRepo(): Record<string, any> {
     save: jest.fn(),
     find: jest.fn(),
     count: jest.fn(),
+    update: jest.fn(),
+    query: jest.fn(),
     manager: { transaction: undefined },
   };
 }
@@ -43,22 +51,46 @@ describe('TestService', () => {
   let service: TestService;
   let testRepo: Record<string, any>;
   let usageRepo: Record<string, any>;
+  let perfRepo: Record<string, any>;
   let aiService: Record<string, any>;
+  let questionBank: Record<string, any>;
+  let reviewQueue: Record<string, any>;
 
   beforeEach(async () => {
     testRepo = createMockRepo();
     usageRepo = createMockRepo();
+    perfRepo = createMockRepo();
+    perfRepo.create.mockImplementation((row: any) => row);
+    perfRepo.save.mockImplementation(async (rows: any) => rows);
     aiService = {
       generateTest: jest.fn(),
       explainAnswer: jest.fn(),
+      generateHint: jest.fn(),
     };
+    // empty bank by default: every question comes from AiService
+    questionBank = {
+      drawUnseen: jest.fn().mockResolvedValue([]),
+      storeGenerated: jest.fn(async (qs: any[]) => qs),
+      toAttemptQuestion: jest.fn((row: any) => ({ bankId: row.question_id, question: row.question_text, options: row.choices, correctAnswer: row.correct_answer })),
+      cachedHint: jest.fn().mockResolvedValue(null),
+      cacheHint: jest.fn().mockResolvedValue(undefined),
+    };
+
+    reviewQueue = { enqueueMissed: jest.fn().mockResolvedValue(0) };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         TestService,
         { provide: getRepositoryToken(TestAttempt), useValue: testRepo },
         { provide: getRepositoryToken(AiUsage), useValue: usageRepo },
+        { provide: getRepositoryToken(SessionPerformance), useValue: perfRepo },
         { provide: AiService, useValue: aiService },
+        { provide: QuestionBankService, useValue: questionBank },
+        { provide: ReviewQueueService, useValue: reviewQueue },
+        { provide: JobQueueService, useValue: { register: jest.fn(), enqueue: jest.fn() } },
+        // real policy over the mocked repos; no stored overrides -> code defaults
+        PlanPolicyService,
+        { provide: SettingsService, useValue: { getSettings: jest.fn().mockResolvedValue(null) } },
       ],
     }).compile();
 
@@ -122,7 +154,7 @@ describe('TestService', () => {
     const result = await service.createFromAI(mockUserId, topic, difficulty, plan);
 
     // verify AiService called
-    expect(aiService.generateTest).toHaveBeenCalledWith(topic, difficulty, expect.any(Number));
+    expect(aiService.generateTest).toHaveBeenCalledWith(topic, difficulty, expect.any(Number), { userId: 123, feature: 'test_generation' });
 
     // verify attempt saved and returned with status 'started'
     expect(testRepo.create).toHaveBeenCalled();
@@ -141,20 +173,22 @@ describe('TestService', () => {
     const title = `${topic} (${difficulty})`;
     const plan = 'Pro';
 
+    // stored question with its answer key; the client never sends this back
+    const questions = [{ id: 1, question: 'Q1', options: ['A', 'B'], correctAnswer: 'A' }];
     const startedAttempt = {
       id: 777,
       userId: mockUserId,
       title,
-      questions: [],
+      questions,
       answers: {},
       score: 0,
       takenAt: null,
       status: 'started',
     };
 
-    // When searching for started attempt, return startedAttempt
+    // The attempt is looked up by session id and owner
     testRepo.findOne.mockImplementation(async (opts?: any) => {
-      if (opts && opts.where && opts.where.status === 'started') return startedAttempt;
+      if (opts && opts.where && opts.where.id === startedAttempt.id && opts.where.userId === mockUserId) return startedAttempt;
       return null;
     });
 
@@ -170,14 +204,13 @@ describe('TestService', () => {
     // AiService.explainAnswer returns explanation text
     aiService.explainAnswer.mockResolvedValue('Because ...');
 
-    // sample question and user answers (user answers incorrectly)
-    const questions = [{ id: 1, question: 'Q1', options: ['A', 'B'], correctAnswer: 'A' }];
+    // user answers incorrectly
     const answersObj: any = { 1: 'B' };
 
     // testRepo.save returns the saved attempt (echo back)
     testRepo.save.mockImplementation(async (t: any) => t);
 
-    const res: any = await service.submitTest(mockUserId, title, questions, answersObj, plan);
+    const res: any = await service.submitTest(mockUserId, startedAttempt.id, answersObj, plan);
 
     // res is { attempt, warning? }
     expect(res).toBeDefined();
@@ -185,7 +218,7 @@ describe('TestService', () => {
     expect(res.attempt.status).toBe('completed');
 
     // validate explainAnswer called for explanation
-    expect(aiService.explainAnswer).toHaveBeenCalledWith(expect.any(String), expect.anything(), expect.any(String));
+    expect(aiService.explainAnswer).toHaveBeenCalledWith(expect.any(String), expect.anything(), expect.any(String), undefined, { userId: 123, feature: 'explanation' });
 
     // validate saved attempt marked completed
     expect(res.attempt).toBeDefined();
@@ -201,9 +234,13 @@ describe('TestService', () => {
     const plan = 'Tutor';
 
     // started attempt present
-    const startedAttempt = { id: 888, userId: mockUserId, title, questions: [], answers: {}, score: 0, takenAt: null, status: 'started' };
+    const questions = [
+      { id: 1, question: 'Q1', options: ['A', 'B'], correctAnswer: 'A' },
+      { id: 2, question: 'Q2', options: ['A', 'B'], correctAnswer: 'B' },
+    ];
+    const startedAttempt = { id: 888, userId: mockUserId, title, questions, answers: {}, score: 0, takenAt: null, status: 'started' };
     testRepo.findOne.mockImplementation(async (opts?: any) => {
-      if (opts && opts.where && opts.where.status === 'started') return startedAttempt;
+      if (opts && opts.where && opts.where.id === startedAttempt.id) return startedAttempt;
       return null;
     });
 
@@ -218,15 +255,11 @@ describe('TestService', () => {
     // AiService.explainAnswer resolves fine
     aiService.explainAnswer.mockResolvedValue('Tutor explanation text');
 
-    const questions = [
-      { id: 1, question: 'Q1', options: ['A', 'B'], correctAnswer: 'A' },
-      { id: 2, question: 'Q2', options: ['A', 'B'], correctAnswer: 'B' },
-    ];
     const answersObj: any = { 1: 'B', 2: 'A' };
 
     testRepo.save.mockImplementation(async (t: any) => ({ ...t, id: startedAttempt.id }));
 
-    const res: any = await service.submitTest(mockUserId, title, questions, answersObj, plan);
+    const res: any = await service.submitTest(mockUserId, startedAttempt.id, answersObj, plan);
 
     expect(res).toBeDefined();
     expect(res.attempt).toBeDefined();
@@ -238,4 +271,473 @@ describe('TestService', () => {
 
     expect(usageRepo.save).toHaveBeenCalled();
   });
-});
\ No newline at end of file
+
+  it('createFromAI: Free plan attempts get a server-side start time and deadline from timeLimitPerTest', async () => {
+    aiService.generateTest.mockResolvedValue([{ id: 1, question: 'Q1', options: ['A', 'B'], correctAnswer: 'A' }]);
+    usageRepo.findOne.mockResolvedValue(undefined);
+    usageRepo.create.mockImplementation((u: any) => u);
+    usageRepo.save.mockImplementation(async (u: any) => u);
+    testRepo.create.mockImplementation((a: any) => ({ id: 1, ...a }));
+    testRepo.save.mockImplementation(async (a: any) => a);
+
+    const result: any = await service.createFromAI(5, 'Algebra', 'beginner', 'Free');
+
+    expect(result.startedAt).toBeInstanceOf(Date);
+    expect(result.timeLimitSeconds).toBe(30 * 60);
+    expect(result.deadlineAt.getTime() - result.startedAt.getTime()).toBe(30 * 60 * 1000);
+
+    const timing = service.timingView(result);
+    expect(timing.remainingSeconds).toBeGreaterThan(30 * 60 - 5);
+    expect(timing.expired).toBe(false);
+  });
+
+  it('submitTest: rejects a submission after the deadline grace window and marks the attempt expired', async () => {
+    const expiredAttempt: any = {
+      id: 321,
+      userId: 7,
+      title: 'Algebra (beginner)',
+      questions: [{ id: 1, question: 'Q1', options: ['A', 'B'], correctAnswer: 'A' }],
+      answers: {},
+      score: 0,
+      takenAt: null,
+      status: 'started',
+      startedAt: new Date(Date.now() - 31 * 60 * 1000),
+      deadlineAt: new Date(Date.now() - 60 * 1000),
+      timeLimitSeconds: 30 * 60,
+    };
+    testRepo.findOne.mockResolvedValue(expiredAttempt);
+    testRepo.count.mockResolvedValue(0);
+    testRepo.save.mockImplementation(async (t: any) => t);
+
+    await expect(service.submitTest(7, 321, { 1: 'A' }, 'Free')).rejects.toBeInstanceOf(ForbiddenException);
+
+    expect(expiredAttempt.status).toBe('expired');
+    expect(aiService.explainAnswer).not.toHaveBeenCalled();
+  });
+
+  it('submitTest: grades against the stored answer key and ignores keys or questions sent by the client', async () => {
+    const attempt: any = {
+      id: 55,
+      userId: 3,
+      title: 'Algebra (beginner)',
+      questions: [
+        { id: 1, question: 'Q1', options: ['A', 'B'], correctAnswer: 'A' },
+        { id: 2, question: 'Q2', options: ['A', 'B'], correctAnswer: 'B' },
+      ],
+      answers: {},
+      score: 0,
+      status: 'started',
+    };
+    testRepo.findOne.mockResolvedValue(attempt);
+    testRepo.count.mockResolvedValue(0);
+    testRepo.save.mockImplementation(async (t: any) => t);
+    usageRepo.findOne.mockResolvedValue({ userId: 3, explanationsMonth: null, explanationsCount: 0 });
+    usageRepo.save.mockImplementation(async (u: any) => u);
+    aiService.explainAnswer.mockResolvedValue('explanation');
+
+    // extra keys mimic a tampered payload; only answers keyed by stored question id count
+    const res: any = await service.submitTest(3, 55, { 1: 'A', 2: 'A', correctAnswer: 'A', 3: 'A' } as any, 'Pro');
+
+    expect(res.attempt.score).toBe(1);
+    expect(res.attempt.questions).toHaveLength(2);
+    expect(res.attempt.questions[1]).toEqual(expect.objectContaining({ userAnswer: 'A', correctAnswer: 'B', isCorrect: false }));
+    expect(reviewQueue.enqueueMissed).toHaveBeenCalledWith(res.attempt);
+  });
+
+  it('submitTest: grades numeric, multi-select and short-text questions by type', async () => {
+    const attempt: any = {
+      id: 56,
+      userId: 3,
+      title: 'Algebra (beginner)',
+      questions: [
+        { id: 1, type: 'numeric', question: 'Grid-in', options: [], correctAnswer: '2/3' },
+        { id: 2, type: 'multi_select', question: 'Primes', options: ['2', '3', '4'], correctAnswer: '2 | 3' },
+        { id: 3, type: 'short_text', question: 'Shape', options: [], correctAnswer: 'Triangle' },
+        { id: 4, type: 'numeric', question: 'Grid-in 2', options: [], correctAnswer: '1.5' },
+      ],
+      answers: {},
+      score: 0,
+      status: 'started',
+    };
+    testRepo.findOne.mockResolvedValue(attempt);
+    testRepo.count.mockResolvedValue(0);
+    testRepo.save.mockImplementation(async (t: any) => t);
+    usageRepo.findOne.mockResolvedValue({ userId: 3, explanationsMonth: null, explanationsCount: 0 });
+    usageRepo.save.mockImplementation(async (u: any) => u);
+    aiService.explainAnswer.mockResolvedValue('explanation');
+
+    const res: any = await service.submitTest(3, 56, { 1: '.667', 2: ['3', '2'], 3: 'triangle.', 4: '1.6' }, 'Pro');
+
+    expect(res.attempt.questions.map((q: any) => q.isCorrect)).toEqual([true, true, true, false]);
+    expect(res.attempt.score).toBe(3);
+    expect(aiService.explainAnswer).toHaveBeenCalledWith('Primes', '3 | 2', '2 | 3', undefined, expect.anything());
+  });
+
+  it('toClientQuestions: strips answer keys and explanations before questions reach the client', () => {
+    const out = service.toClientQuestions([{ id: 1, question: 'Q1', options: ['A', 'B'], correctAnswer: 'A', explanation: 'x' }]);
+    expect(out).toEqual([{ id: 1, question: 'Q1', options: ['A', 'B'] }]);
+  });
+
+  it('submitTest: writes one session_performance row per question with the reported pacing', async () => {
+    const attempt: any = {
+      id: 60,
+      userId: 4,
+      title: 'Geometry (intermediate)',
+      questions: [
+        { id: 1, question: 'Q1', options: ['A', 'B'], correctAnswer: 'A' },
+        { id: 2, question: 'Q2', options: ['A', 'B'], correctAnswer: 'B' },
+      ],
+      answers: {},
+      score: 0,
+      status: 'started',
+    };
+    testRepo.findOne.mockResolvedValue(attempt);
+    testRepo.count.mockResolvedValue(0);
+    testRepo.save.mockImplementation(async (t: any) => t);
+    usageRepo.findOne.mockResolvedValue({ userId: 4, explanationsMonth: null, explanationsCount: 0 });
+    usageRepo.save.mockImplementation(async (u: any) => u);
+    aiService.explainAnswer.mockResolvedValue('explanation');
+
+    await service.submitTest(4, 60, { 1: 'A', 2: 'A' }, 'Pro', { 1: { timeSeconds: 42, answerChanges: 2 } });
+
+    expect(perfRepo.save).toHaveBeenCalledTimes(1);
+    const rows = perfRepo.save.mock.calls[0][0];
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toEqual(expect.objectContaining({
+      session_id: '60', user_id: 4, question_id: '1', topic: 'Geometry', difficulty: 'intermediate', correct: true, time_seconds: 42, answer_changes: 2,
+    }));
+    // no timing reported for question 2
+    expect(rows[1]).toEqual(expect.objectContaining({ question_id: '2', correct: false, time_seconds: null, answer_changes: 0 }));
+  });
+
+  it('createFromAI: draws unseen bank questions first and only generates the remainder', async () => {
+    questionBank.drawUnseen.mockResolvedValue([
+      { question_id: 'b1', question_text: 'Banked 1', choices: ['1', '2'], correct_answer: '1' },
+      { question_id: 'b2', question_text: 'Banked 2', choices: ['1', '2'], correct_answer: '2' },
+    ]);
+    aiService.generateTest.mockResolvedValue([{ id: 1, question: 'Fresh', options: ['A', 'B'], correctAnswer: 'A' }]);
+    usageRepo.findOne.mockResolvedValue(undefined);
+    usageRepo.create.mockImplementation((u: any) => u);
+    usageRepo.save.mockImplementation(async (u: any) => u);
+    testRepo.create.mockImplementation((a: any) => ({ id: 2, ...a }));
+    testRepo.save.mockImplementation(async (a: any) => a);
+
+    const result: any = await service.createFromAI(8, 'Algebra', 'beginner', 'Pro', 3);
+
+    expect(questionBank.drawUnseen).toHaveBeenCalledWith(8, 'Algebra', 'beginner', 3);
+    expect(aiService.generateTest).toHaveBeenCalledWith('Algebra', 'beginner', 1, { userId: 8, feature: 'test_generation' });
+    expect(questionBank.storeGenerated).toHaveBeenCalledWith([expect.objectContaining({ question: 'Fresh' })], 'Algebra', 'beginner');
+    expect(result.questions.map((q: any) => q.question)).toEqual(['Banked 1', 'Banked 2', 'Fresh']);
+    // ids are unique within the attempt so grading can key answers by id
+    expect(new Set(result.questions.map((q: any) => q.id)).size).toBe(3);
+  });
+
+  it('createFromAI: skips the LLM entirely when the bank covers the whole test', async () => {
+    questionBank.drawUnseen.mockResolvedValue([{ question_id: 'b1', question_text: 'Banked 1', choices: ['1', '2'], correct_answer: '1' }]);
+    usageRepo.findOne.mockResolvedValue(undefined);
+    usageRepo.create.mockImplementation((u: any) => u);
+    usageRepo.save.mockImplementation(async (u: any) => u);
+    testRepo.create.mockImplementation((a: any) => ({ id: 3, ...a }));
+    testRepo.save.mockImplementation(async (a: any) => a);
+
+    const result: any = await service.createFromAI(8, 'Algebra', 'beginner', 'Pro', 1);
+
+    expect(aiService.generateTest).not.toHaveBeenCalled();
+    expect(result.questions[0]).toEqual(expect.objectContaining({ bankId: 'b1', id: 1 }));
+  });
+
+  it('saveProgress: keeps only answers for stored questions and writes only while the attempt is started', async () => {
+    const attempt: any = {
+      id: 70,
+      userId: 4,
+      title: 'Algebra (beginner)',
+      questions: [
+        { id: 1, question: 'Q1', options: ['A', 'B'], correctAnswer: 'A' },
+        { id: 2, question: 'Q2', options: ['A', 'B'], correctAnswer: 'B' },
+      ],
+      answers: {},
+      status: 'started',
+      deadlineAt: null,
+    };
+    testRepo.findOne.mockResolvedValue(attempt);
+    testRepo.update.mockResolvedValue({ affected: 1 });
+
+    const res: any = await service.saveProgress(4, 70, { 1: 'B', 9: 'A', 2: '' }, 7);
+
+    expect(testRepo.update).toHaveBeenCalledWith(
+      { id: 70, userId: 4, status: 'started' },
+      expect.objectContaining({ answers: { 1: 'B' }, currentIndex: 1 }),
+    );
+    expect(res).toEqual(expect.objectContaining({ sessionId: 70, answeredCount: 1, total: 2, currentIndex: 1 }));
+
+    // submitted between the read and the conditional write
+    testRepo.update.mockResolvedValue({ affected: 0 });
+    await expect(service.saveProgress(4, 70, { 1: 'A' }, 0)).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('resumeAttempt: returns autosaved answers and questions without answer keys', async () => {
+    testRepo.findOne.mockResolvedValue({
+      id: 71,
+      userId: 4,
+      title: 'Geometry (advanced)',
+      questions: [{ id: 1, question: 'Q1', options: ['A', 'B'], correctAnswer: 'A', explanation: 'x' }],
+      answers: { 1: 'B' },
+      currentIndex: 0,
+      status: 'started',
+      deadlineAt: null,
+    });
+
+    const res: any = await service.resumeAttempt(4, 71);
+
+    expect(res.questions[0].correctAnswer).toBeUndefined();
+    expect(res.questions[0].explanation).toBeUndefined();
+    expect(res).toEqual(expect.objectContaining({ answers: { 1: 'B' }, topic: 'Geometry', difficulty: 'advanced', answeredCount: 1 }));
+  });
+
+  it('listResumable: expires attempts past their deadline and grades the autosaved answers', async () => {
+    const stale: any = {
+      id: 72,
+      userId: 4,
+      title: 'Algebra (beginner)',
+      questions: [
+        { id: 1, question: 'Q1', options: ['A', 'B'], correctAnswer: 'A' },
+        { id: 2, question: 'Q2', options: ['A', 'B'], correctAnswer: 'B' },
+      ],
+      answers: { 1: 'A' },
+      status: 'started',
+      deadlineAt: new Date(Date.now() - 5 * 60 * 1000),
+    };
+    const live: any = { ...stale, id: 73, answers: {}, deadlineAt: new Date(Date.now() + 10 * 60 * 1000) };
+    testRepo.find.mockResolvedValue([live, stale]);
+    testRepo.save.mockImplementation(async (t: any) => t);
+
+    const res: any[] = await service.listResumable(4);
+
+    expect(res.map((r) => r.sessionId)).toEqual([73]);
+    expect(stale.status).toBe('expired');
+    expect(stale.score).toBe(1);
+    expect(stale.questions[1]).toEqual(expect.objectContaining({ userAnswer: null, isCorrect: false }));
+  });
+
+  it('submitTest: deferExplanations returns the score without calling the LLM and marks explanations pending', async () => {
+    const attempt: any = {
+      id: 80,
+      userId: 4,
+      title: 'Algebra (beginner)',
+      questions: [
+        { id: 1, question: 'Q1', options: ['A', 'B'], correctAnswer: 'A' },
+        { id: 2, question: 'Q2', options: ['A', 'B'], correctAnswer: 'B' },
+      ],
+      answers: {},
+      status: 'started',
+    };
+    testRepo.findOne.mockResolvedValue(attempt);
+    testRepo.count.mockResolvedValue(0);
+    testRepo.save.mockImplementation(async (t: any) => t);
+    usageRepo.findOne.mockResolvedValue({ userId: 4, explanationsMonth: null, explanationsCount: 0 });
+
+    const res: any = await service.submitTest(4, 80, { 1: 'A', 2: 'A' }, 'Pro', undefined, { deferExplanations: true });
+
+    expect(aiService.explainAnswer).not.toHaveBeenCalled();
+    expect(usageRepo.save).not.toHaveBeenCalled();
+    expect(res.attempt.score).toBe(1);
+    expect(res.explanationsPending).toBe(2);
+    expect(res.attempt.questions[0]).toEqual(expect.objectContaining({ explanation: null, explanationPending: true }));
+  });
+
+  it('streamExplanations: streams tokens per pending question, saves each explanation and counts usage', async () => {
+    const attempt: any = {
+      id: 81,
+      userId: 4,
+      title: 'Algebra (beginner)',
+      questions: [
+        { id: 1, question: 'Q1', correctAnswer: 'A', userAnswer: 'A', explanation: null, explanationPending: true },
+        { id: 2, question: 'Q2', correctAnswer: 'B', userAnswer: 'A', explanation: null, explanationPending: true },
+        { id: 3, question: 'Q3', correctAnswer: 'B', userAnswer: 'B', explanation: 'AI explanation limit reached for your plan.' },
+      ],
+      status: 'completed',
+    };
+    testRepo.findOne.mockResolvedValue(attempt);
+    testRepo.query.mockImplementation(async (sql: string) => (sql.includes('RETURNING') ? [[{ id: 81 }], 1] : [[], 1]));
+    usageRepo.findOne.mockResolvedValue({ userId: 4, explanationsMonth: new Date().toISOString().slice(0, 7), explanationsCount: 5 });
+    usageRepo.save.mockImplementation(async (u: any) => u);
+    aiService.explainAnswer.mockImplementation(async (question: string, _u: any, _c: any, onToken: (d: string) => void) => {
+      if (question === 'Q2') throw new Error('boom');
+      onToken('Because ');
+      onToken('A.');
+      return 'Because A.';
+    });
+
+    const events: Array<[string, any]> = [];
+    const res = await service.streamExplanations(4, 81, (event: string, data: any) => events.push([event, data]));
+
+    expect(events[0]).toEqual(['start', { attemptId: 81, pending: [1, 2] }]);
+    expect(events.filter(([e]) => e === 'token').map(([, d]) => d)).toEqual([
+      { questionId: 1, delta: 'Because ' },
+      { questionId: 1, delta: 'A.' },
+    ]);
+    expect(events[events.length - 1]).toEqual(['done', { attemptId: 81, explained: 1, pending: 0 }]);
+    expect(res).toEqual({ explained: 1, failed: 1, pending: 0 });
+    expect(attempt.questions[0].explanation).toBe('Because A.');
+    expect(attempt.questions[1]).toEqual(expect.objectContaining({ explanation: 'Explanation unavailable at the moment.' }));
+    expect(attempt.questions[1].explanationPending).toBeUndefined();
+    expect(usageRepo.save).toHaveBeenCalledWith(expect.objectContaining({ explanationsCount: 6 }));
+    // each explanation is written into its own question, never the whole attempt
+    expect(testRepo.save).not.toHaveBeenCalled();
+    expect(testRepo.query).toHaveBeenCalledWith(expect.stringContaining('jsonb_set'), [81, 0, '1', ['0', 'explanationPending'], ['0', 'explanationClaimedAt'], ['0', 'explanation'], 'Because A.']);
+  });
+
+  it('streamExplanations: skips questions another stream has claimed, without calling the model', async () => {
+    const attempt: any = {
+      id: 83,
+      userId: 4,
+      title: 'Algebra (beginner)',
+      questions: [
+        { id: 1, question: 'Q1', correctAnswer: 'A', userAnswer: 'A', explanation: null, explanationPending: true, explanationClaimedAt: new Date().toISOString() },
+        { id: 2, question: 'Q2', correctAnswer: 'B', userAnswer: 'A', explanation: null, explanationPending: true },
+      ],
+      status: 'completed',
+    };
+    testRepo.findOne.mockResolvedValue(attempt);
+    // the claim on question 2 is lost to a concurrent worker
+    testRepo.query.mockResolvedValue([[], 0]);
+
+    const events: Array<[string, any]> = [];
+    const res = await service.streamExplanations(4, 83, (event: string, data: any) => events.push([event, data]));
+
+    expect(events[0]).toEqual(['start', { attemptId: 83, pending: [2] }]);
+    expect(aiService.explainAnswer).not.toHaveBeenCalled();
+    expect(res).toEqual({ explained: 0, failed: 0, pending: 2 });
+  });
+
+  it('explain job: failed explanations stay pending and fail the run so the queue retries them', async () => {
+    const attempt: any = {
+      id: 82,
+      userId: 4,
+      title: 'Algebra (beginner)',
+      questions: [{ id: 1, question: 'Q1', correctAnswer: 'A', userAnswer: 'B', explanation: null, explanationPending: true }],
+      status: 'completed',
+    };
+    testRepo.findOne.mockResolvedValue(attempt);
+    testRepo.query.mockImplementation(async (sql: string) => (sql.includes('RETURNING') ? [[{ id: 82 }], 1] : [[], 1]));
+    aiService.explainAnswer.mockRejectedValue(new Error('rate limited'));
+    const jobs: any = (service as any).jobs;
+
+    service.onModuleInit();
+    const [type, handler] = jobs.register.mock.calls[0];
+
+    expect(type).toBe('test.explain_attempt');
+    await expect(handler({ userId: 4, attemptId: 82 }, { attempt: 1 })).rejects.toThrow('1 explanation(s) failed');
+    expect(attempt.questions[0].explanationPending).toBe(true);
+    expect(testRepo.save).not.toHaveBeenCalled();
+    // the claim is dropped so the retry can take the question again
+    expect(testRepo.query).toHaveBeenLastCalledWith(expect.stringContaining('#-'), [82, 0, '1', ['0', 'explanationClaimedAt']]);
+  });
+
+  it('requestHint: escalates one level per request, reuses cached bank hints and records them on the attempt', async () => {
+    const attempt: any = {
+      id: 90,
+      userId: 5,
+      title: 'Algebra (beginner)',
+      questions: [{ id: 1, bankId: 'bank-1', question: 'What is 7 × 8?', options: ['54', '56'], correctAnswer: '56' }],
+      answers: {},
+      hints: null,
+      hintsUsed: 0,
+      status: 'started',
+    };
+    testRepo.findOne.mockResolvedValue(attempt);
+    // appendHint: merge one hint into the stored map when the level matches
+    testRepo.query.mockImplementation(async (_sql: string, [, , qid, hint, shownCount]: any[]) => {
+      const list = attempt.hints?.[qid] ?? [];
+      if (list.length !== shownCount) return [[], 0];
+      attempt.hints = { ...(attempt.hints ?? {}), [qid]: [...list, hint] };
+      attempt.hintsUsed++;
+      return [[{ hints: attempt.hints, hintsUsed: attempt.hintsUsed }], 1];
+    });
+    const usage = { userId: 5, hintsMonth: new Date().toISOString().slice(0, 7), hintsCount: 0 };
+    usageRepo.findOne.mockImplementation(async () => usage);
+    // claimHintQuota: conditional increment below the limit
+    usageRepo.query.mockImplementation(async (sql: string, params: any[]) => {
+      if (!sql.includes('RETURNING')) return [];
+      if (params[2] != null && usage.hintsCount >= params[2]) return [[], 0];
+      usage.hintsCount++;
+      return [[{ hintsCount: usage.hintsCount }], 1];
+    });
+    questionBank.cachedHint.mockImplementation(async (_id: string, level: number) => (level === 1 ? 'Cached nudge.' : null));
+    aiService.generateHint.mockResolvedValueOnce('Split 8 into 4 × 2.').mockResolvedValueOnce(null);
+
+    const first = await service.requestHint(5, 90, 1, 'Pro');
+    const second = await service.requestHint(5, 90, '1', 'Pro');
+    const third = await service.requestHint(5, 90, 1, 'Pro');
+
+    expect([first.level, second.level, third.level]).toEqual([1, 2, 3]);
+    expect(first.hint).toBe('Cached nudge.');
+    expect(aiService.generateHint).toHaveBeenCalledTimes(2);
+    expect(aiService.generateHint.mock.calls[0][2]).toEqual(['Cached nudge.']);
+    // only generated hints are cached; the generic fallback is not
+    expect(questionBank.cacheHint).toHaveBeenCalledTimes(1);
+    expect(questionBank.cacheHint).toHaveBeenCalledWith('bank-1', 2, 'Split 8 into 4 × 2.', attempt.questions[0]);
+    expect(third).toEqual(expect.objectContaining({ levelsRemaining: 0, hintsUsed: 3, hintsRemaining: 97 }));
+    expect(attempt.hints['1']).toHaveLength(3);
+    expect(third.hint).not.toContain('56');
+    expect(usage.hintsCount).toBe(3);
+    await expect(service.requestHint(5, 90, 1, 'Pro')).rejects.toThrow('All hints');
+  });
+
+  it('requestHint: the conditional quota claim and the hint merge decide under concurrent requests', async () => {
+    const attempt: any = { id: 92, userId: 7, title: 'T (beginner)', questions: [{ id: 1, question: 'Q', correctAnswer: 'A' }], hints: null, hintsUsed: 0, status: 'started' };
+    testRepo.findOne.mockResolvedValue(attempt);
+    usageRepo.findOne.mockResolvedValue(null);
+    aiService.generateHint.mockResolvedValue('Think about it.');
+
+    // another request took the last hint of the month between the policy check and the claim
+    usageRepo.query.mockResolvedValue([[], 0]);
+    await expect(service.requestHint(7, 92, 1, 'Free')).rejects.toThrow(ForbiddenException);
+    expect(aiService.generateHint).not.toHaveBeenCalled();
+
+    // the claim succeeds but the attempt was submitted meanwhile: the hint is given back
+    usageRepo.query.mockImplementation(async (sql: string) => (sql.includes('RETURNING') ? [[{ hintsCount: 1 }], 1] : []));
+    testRepo.query.mockResolvedValue([[], 0]);
+    await expect(service.requestHint(7, 92, 1, 'Free')).rejects.toThrow(BadRequestException);
+    expect(usageRepo.query).toHaveBeenLastCalledWith(expect.stringContaining('GREATEST("hintsCount" - 1, 0)'), [7, expect.any(String)]);
+  });
+
+  it('requestHint: refuses once the monthly hint quota is used up and only while the attempt is started', async () => {
+    const attempt: any = { id: 91, userId: 6, title: 'T (beginner)', questions: [{ id: 1, question: 'Q', correctAnswer: 'A' }], hints: null, status: 'started' };
+    testRepo.findOne.mockResolvedValue(attempt);
+    usageRepo.findOne.mockResolvedValue({ userId: 6, hintsMonth: new Date().toISOString().slice(0, 7), hintsCount: 5 });
+
+    await expect(service.requestHint(6, 91, 1, 'Free')).rejects.toThrow(ForbiddenException);
+    expect(aiService.generateHint).not.toHaveBeenCalled();
+
+    attempt.status = 'completed';
+    await expect(service.requestHint(6, 91, 1, 'Tutor')).rejects.toThrow(BadRequestException);
+    await expect(service.requestHint(6, 91, 99, 'Tutor')).rejects.toThrow(BadRequestException);
+  });
+
+  it('submitTest: marks questions answered with hints and keeps the attempt total', async () => {
+    const attempt: any = {
+      id: 92,
+      userId: 7,
+      title: 'Algebra (beginner)',
+      questions: [
+        { id: 1, question: 'Q1', options: ['A', 'B'], correctAnswer: 'A' },
+        { id: 2, question: 'Q2', options: ['A', 'B'], correctAnswer: 'B' },
+      ],
+      answers: {},
+      hints: { 2: ['nudge', 'first step'] },
+      hintsUsed: 2,
+      status: 'started',
+    };
+    testRepo.findOne.mockResolvedValue(attempt);
+    testRepo.count.mockResolvedValue(0);
+    testRepo.save.mockImplementation(async (t: any) => t);
+    usageRepo.findOne.mockResolvedValue({ userId: 7, explanationsMonth: null, explanationsCount: 0 });
+
+    const res: any = await service.submitTest(7, 92, { 1: 'A', 2: 'B' }, 'Pro', undefined, { deferExplanations: true });
+
+    expect(res.attempt.score).toBe(2);
+    expect(res.attempt.hintsUsed).toBe(2);
+    expect(res.attempt.questions.map((q: any) => q.hintsUsed)).toEqual([undefined, 2]);
+  });
+});
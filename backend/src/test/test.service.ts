@@ -1,22 +1,104 @@
-import { Injectable, BadRequestException, InternalServerErrorException, ForbiddenException } from '@nestjs/common';
+import { Injectable, BadRequestException, InternalServerErrorException, ForbiddenException, NotFoundException, OnModuleInit } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { TestAttempt } from './test.entity';
 import { AiService } from '../ai/ai.service';
 import { AiUsage } from '../ai/ai-usage.entity';
-import { planLimits } from '../plan/plan.constants';
+import { SessionPerformance } from '../ai/entities/session-performance.entity';
+import { QuestionBankService } from '../ai/question-bank.service';
+import { ReviewQueueService } from './review-queue.service';
+import { JobQueueService } from '../jobs/job-queue.service';
+import { PlanPolicyService } from '../plan/plan-policy.service';
 import { allowedTopics, mathKeywords } from './math-topics';
+import { answerText, gradeAnswer } from '../ai/question-types';
+import { FALLBACK_HINTS, MAX_HINT_LEVEL } from '../ai/question-hints';
+
+// Seconds a submission may arrive after the deadline (network latency / auto-submit round trip)
+export const SUBMIT_GRACE_SECONDS = 15;
+
+// Fields that reveal the answer key; never sent to the client while an attempt is in progress
+const ANSWER_KEY_FIELDS = ['correctAnswer', 'correct_answer', 'acceptedAnswers', 'tolerance', 'answer', 'explanation', 'isCorrect', 'userAnswer'];
+
+/**
+ * Client-safe copy of a stored question (answer key removed).
+ */
+export function stripAnswerKey(q: any) {
+  if (!q || typeof q !== 'object') return q;
+  const copy: any = { ...q };
+  for (const f of ANSWER_KEY_FIELDS) delete copy[f];
+  return copy;
+}
+
+// Per-question pacing reported by the test player, keyed by question id
+export type QuestionTimings = Record<string, { timeSeconds?: number; answerChanges?: number }>;
+
+// Upper bound for a single question's dwell time (guards against a tab left open overnight)
+const MAX_QUESTION_SECONDS = 60 * 60;
+
+// Started attempts listed as resumable on the dashboard
+const MAX_RESUMABLE = 10;
+
+// Explanations generated in parallel while streaming a submitted attempt
+const EXPLANATION_STREAM_CONCURRENCY = 3;
+
+// A claimed explanation that was never written (crashed worker) can be claimed again after this
+const EXPLANATION_CLAIM_SECONDS = 10 * 60;
+
+const EXPLANATION_UNAVAILABLE = 'Explanation unavailable at the moment.';
+
+// Shown instead of an explanation while the user's monthly AI budget is used up
+const EXPLANATION_BUDGET_PAUSED = 'AI explanations are paused: your monthly AI budget has been reached.';
+
+// Callback used to push one Server-Sent Event to the client
+export type StreamEmitter = (event: string, data: any) => void;
+
+// Background job that writes the pending explanations of a deferred submission
+export const EXPLAIN_ATTEMPT_JOB = 'test.explain_attempt';
+
+export interface SubmitOptions {
+  // grade now; explanations are marked explanationPending and produced by streamExplanations
+  deferExplanations?: boolean;
+}
 
 @Injectable()
-export class TestService {
+export class TestService implements OnModuleInit {
   constructor(
     @InjectRepository(TestAttempt)
     private readonly testRepo: Repository<TestAttempt>,
     @InjectRepository(AiUsage)
     private readonly usageRepo: Repository<AiUsage>,
+    @InjectRepository(SessionPerformance)
+    private readonly perfRepo: Repository<SessionPerformance>,
     private readonly aiService: AiService,
+    private readonly questionBank: QuestionBankService,
+    private readonly reviewQueue: ReviewQueueService,
+    private readonly jobs: JobQueueService,
+    private readonly planPolicy: PlanPolicyService,
   ) {}
 
+  onModuleInit() {
+    // failed explanations stay pending and fail the run, so the queue retries them with backoff
+    this.jobs.register(EXPLAIN_ATTEMPT_JOB, async (payload) => {
+      const res = await this.streamExplanations(payload.userId, payload.attemptId, () => {}, () => false, { keepFailedPending: true });
+      if (res.failed > 0) throw new Error(`${res.failed} explanation(s) failed for attempt ${payload.attemptId}`);
+      return res;
+    });
+  }
+
+  /**
+   * Queue the pending explanations of a submitted attempt as a background job (for clients that
+   * poll GET /jobs/:id instead of reading the SSE stream). One job per attempt.
+   */
+  async enqueueExplanations(userId: number, attemptId: number) {
+    const attempt = await this.testRepo.findOne({ where: { id: attemptId, userId } });
+    if (!attempt) throw new NotFoundException('Test not found');
+    if (attempt.status !== 'completed') throw new BadRequestException('Explanations are available once the test is submitted.');
+    return this.jobs.enqueue(EXPLAIN_ATTEMPT_JOB, { userId, attemptId }, { userId, idempotencyKey: `attempt:${attemptId}` });
+  }
+
+  // "<attemptId>:<questionId>" hints currently being generated on this instance (double clicks)
+  private readonly hinting = new Set<string>();
+
   /**
    * Return the user's test attempts, ordered so the most recently taken (or created) appear first.
    * Use a queryBuilder with COALESCE so attempts with null takenAt still sort by createdAt.
@@ -31,7 +113,7 @@ export class TestService {
         .orderBy('COALESCE(attempt."takenAt", attempt."createdAt")', 'DESC')
         .getMany();
 
-      return Array.isArray(attempts) ? attempts : [];
+      return Array.isArray(attempts) ? attempts.map((a) => this.toClientAttempt(a)) : [];
     } catch (err) {
       // eslint-disable-next-line no-console
       console.error('[TestService.listUserTests] DB query failed for userId=', userId, err?.message ?? err);
@@ -82,7 +164,8 @@ export class TestService {
   }
 
   /**
-   * createFromAI generates a new test via AI, enforces plan limits, persists a TestAttempt (status 'started'), and increments usage.
+   * createFromAI assembles a new test (question bank first, AI for the remainder), enforces plan limits,
+   * persists a TestAttempt (status 'started'), and increments usage.
    * Validation: enforces that topic must be mathematics-related before any AI call is attempted.
    */
   async createFromAI(userId: number, topic: string, difficulty: string, plan?: string, requestedQuestionCount?: number) {
@@ -99,7 +182,7 @@ export class TestService {
       );
     }
 
-    const limits = planLimits(plan);
+    const limits = await this.planPolicy.getLimits(plan);
     const today = new Date().toISOString().slice(0, 10); // YYYY-MM-DD
 
     // Get or create AiUsage record
@@ -113,33 +196,60 @@ export class TestService {
       usage.testsTodayCount = 0;
     }
 
-    if (limits.testsPerDay !== Infinity && usage.testsTodayCount >= limits.testsPerDay) {
-      throw new ForbiddenException(`You have reached your daily limit of ${limits.testsPerDay} test(s) for the ${plan || 'Free'} plan.`);
-    }
-
     // Determine how many questions to request: prefer requestedQuestionCount when provided and valid
     const questionCount = (typeof requestedQuestionCount === 'number' && requestedQuestionCount > 0) ? requestedQuestionCount : limits.questionCount;
-    if (limits.questionCount !== Infinity && questionCount > limits.questionCount) {
-      throw new BadRequestException(`Your plan allows up to ${limits.questionCount} questions per test.`);
+    const decision = await this.planPolicy.decide(uid, 'create_test', { plan, questionCount });
+    if (!decision.allowed) {
+      if (decision.reason === 'question_count_limit') throw new BadRequestException(decision.message);
+      throw new ForbiddenException(decision.message);
     }
 
-    // Generate via AiService (now asks for tags)
-    let questions: any;
+    // Bank first: stored questions this user has not seen yet
+    let questions: any[] = [];
     try {
-      questions = await this.aiService.generateTest(topic, difficulty, questionCount);
+      const banked = await this.questionBank.drawUnseen(uid, topic, difficulty, questionCount);
+      questions = banked.map((row) => this.questionBank.toAttemptQuestion(row));
     } catch (err) {
-      // Bubble up AI errors as 503/500 with a clear message
       // eslint-disable-next-line no-console
-      console.error('AiService.generateTest failed', err);
-      throw new InternalServerErrorException('Failed to generate test from AI. Please try again later.');
+      console.warn('[TestService.createFromAI] question bank lookup failed, generating all questions', err);
+    }
+
+    // Generate the remainder via AiService (now asks for tags) and bank the new questions
+    const missing = questionCount - questions.length;
+    if (missing > 0) {
+      let generated: any;
+      try {
+        generated = await this.aiService.generateTest(topic, difficulty, missing, { userId: uid, feature: 'test_generation' });
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.error('AiService.generateTest failed', err);
+        // over the monthly AI budget: say so instead of the generic failure
+        if (err instanceof ForbiddenException && questions.length === 0) throw err;
+        // Bubble up AI errors as 503/500 with a clear message unless the bank already covered part of the test
+        if (questions.length === 0) {
+          throw new InternalServerErrorException('Failed to generate test from AI. Please try again later.');
+        }
+      }
+      if (Array.isArray(generated) && generated.length > 0) {
+        questions = questions.concat(await this.questionBank.storeGenerated(generated, topic, difficulty));
+      }
     }
 
     if (!Array.isArray(questions) || questions.length === 0) {
       throw new BadRequestException('AI returned no questions');
     }
 
+    // Grading keys answers by question id, so ids must be unique within the attempt
+    const ids = questions.map((q: any) => (q && q.id != null ? String(q.id) : ''));
+    if (ids.some((id) => !id) || new Set(ids).size !== ids.length) {
+      questions = questions.map((q: any, idx: number) => ({ ...q, id: idx + 1 }));
+    }
+
     // persist as started attempt and increment usage (prefer transaction if manager.transaction is available)
+    // The clock starts once the questions exist, so generation latency is not charged to the student.
     const title = `${topic} (${difficulty})`;
+    const timeLimitSeconds = typeof limits.timeLimitPerTest === 'number' && limits.timeLimitPerTest > 0 ? limits.timeLimitPerTest : null;
+    const startedAt = new Date();
     const attemptObj = {
       userId: uid,
       title,
@@ -148,6 +258,9 @@ export class TestService {
       score: 0,
       takenAt: null,
       status: 'started' as const,
+      startedAt,
+      deadlineAt: timeLimitSeconds ? new Date(startedAt.getTime() + timeLimitSeconds * 1000) : null,
+      timeLimitSeconds,
     };
 
     // If the repository manager supports transactions (real DB), use it to atomically save attempt + increment usage.
@@ -201,28 +314,41 @@ export class TestService {
     }
   }
 
-  // submitTest now supports soft-limit overflow for Tutor plan:
+  // submitTest grades a started attempt against the questions persisted on it (the client only sends answers).
   // - Tutor users are allowed to exceed the explanationsPerMonth soft quota;
   // - When overflow occurs we still persist the explanationsCount and return a warning flag to the caller.
-  async submitTest(userId: number, title: string, questions: any[], answers: any[], plan?: string) {
+  // Timed attempts: submissions later than deadlineAt + SUBMIT_GRACE_SECONDS are rejected and the attempt is marked 'expired'.
+  // With deferExplanations the score is returned right away; questions within the explanation quota are
+  // flagged explanationPending and explained later by streamExplanations (usage is counted there).
+  async submitTest(userId: number, sessionId: number, answers: Record<string, any>, plan?: string, timings?: QuestionTimings, options: SubmitOptions = {}) {
     const uid = typeof userId === 'string' ? Number(userId) : userId;
     if (!uid || Number.isNaN(uid)) throw new BadRequestException('Invalid user id');
+    if (!sessionId || Number.isNaN(Number(sessionId))) throw new BadRequestException('Missing test session id');
+    const submitted: Record<string, any> = answers && typeof answers === 'object' ? answers : {};
 
-    const limits = planLimits(plan);
-    const isTutor = String(plan || '').toLowerCase() === 'tutor';
+    const limits = await this.planPolicy.getLimits(plan);
+    // plans with a soft explanation limit (Tutor) keep getting explanations past the quota, with a warning
+    const softExplanationLimit = !!limits.explanationsSoftLimit;
 
     // --- DEBUG: show plan & userId so we can validate what the controller passed ---
     // eslint-disable-next-line no-console
     console.debug('[TestService.submitTest] userId=', uid, 'plan=', plan, 'limits=', limits);
 
-    // locate started attempt if available
-    let attempt = await this.testRepo.findOne({ where: { userId: uid, title, status: 'started' } });
-
-    // Count existing attempts (completed) to enforce attemptsPerTest
-    const existingAttemptsCount = await this.testRepo.count({ where: { userId: uid, title, status: 'completed' } });
-    if (limits.attemptsPerTest !== Infinity && existingAttemptsCount >= limits.attemptsPerTest) {
-      throw new ForbiddenException(`You have reached the maximum attempts (${limits.attemptsPerTest}) for this test under your plan.`);
+    // The persisted attempt is the source of truth for questions and answer keys
+    const attempt = await this.testRepo.findOne({ where: { id: Number(sessionId), userId: uid } });
+    if (!attempt) throw new NotFoundException('Test session not found');
+    if (attempt.status !== 'started') {
+      throw new BadRequestException(attempt.status === 'expired' ? 'Time limit for this test has expired.' : 'This test has already been submitted.');
     }
+    if (this.isPastDeadline(attempt)) {
+      await this.expireAttempt(attempt);
+      throw new ForbiddenException('Time limit for this test has expired.');
+    }
+    const title = attempt.title;
+    const questions = Array.isArray(attempt.questions) ? attempt.questions : [];
+
+    // attemptsPerTest counts completed attempts with the same title
+    await this.planPolicy.assertAllowed(uid, 'attempt_test', { plan, title });
 
     // get usage record for explanations
     let usage = await this.usageRepo.findOne({ where: { userId: uid } });
@@ -242,33 +368,39 @@ export class TestService {
 
     // --- DEBUG: show usage counts and limits before processing ---
     // eslint-disable-next-line no-console
-    console.debug('[TestService.submitTest] prevExplanationsCount=', prevExplanationsCount, 'explanationsLimit=', explanationsLimit, 'explanationsRemaining=', explanationsRemaining, 'isTutor=', isTutor);
+    console.debug('[TestService.submitTest] prevExplanationsCount=', prevExplanationsCount, 'explanationsLimit=', explanationsLimit, 'explanationsRemaining=', explanationsRemaining, 'softExplanationLimit=', softExplanationLimit);
 
     let score = 0;
     const detailedQuestions = [];
     let explanationsUsedThisSubmission = 0;
 
     for (const q of questions) {
-      const userAnswer = answers[q.id];
-      const isCorrect = userAnswer === q.correctAnswer;
+      const userAnswer = submitted[String(q.id)] ?? null;
+      const isCorrect = gradeAnswer(q, userAnswer);
       if (isCorrect) score++;
       let explanation = null;
 
-      // Allow Tutor users to exceed soft-limit. For other plans, only allow while explanationsRemaining > 0.
-      const shouldAttemptExplanation = isTutor ? true : (explanationsUsedThisSubmission < explanationsRemaining);
+      // Soft-limit plans may exceed the quota. For other plans, only allow while explanationsRemaining > 0.
+      const shouldAttemptExplanation = softExplanationLimit ? true : (explanationsUsedThisSubmission < explanationsRemaining);
 
       // --- DEBUG: per-question decision ---
       // eslint-disable-next-line no-console
       console.debug('[TestService.submitTest] question=', q.id ?? q.question, 'userAnswer=', userAnswer, 'isCorrect=', isCorrect, 'shouldAttemptExplanation=', shouldAttemptExplanation, 'explanationsUsedSoFar=', explanationsUsedThisSubmission);
 
-      if (shouldAttemptExplanation) {
+      const hintInfo = this.hintsShown(attempt, q);
+
+      if (shouldAttemptExplanation && options.deferExplanations) {
+        explanationsUsedThisSubmission++;
+        detailedQuestions.push({ ...q, userAnswer, isCorrect, ...hintInfo, explanation: null, explanationPending: true });
+        continue;
+      } else if (shouldAttemptExplanation) {
         try {
-          explanation = await this.aiService.explainAnswer(q.question, userAnswer, q.correctAnswer);
+          explanation = await this.aiService.explainAnswer(q.question, answerText(userAnswer), answerText(q.correctAnswer), undefined, { userId, feature: 'explanation' });
           explanationsUsedThisSubmission++;
           // eslint-disable-next-line no-console
           console.debug('[TestService.submitTest] explanation obtained for question=', q.id ?? '(unknown)');
         } catch (ex) {
-          explanation = 'Explanation unavailable at the moment.';
+          explanation = ex instanceof ForbiddenException ? EXPLANATION_BUDGET_PAUSED : EXPLANATION_UNAVAILABLE;
           // eslint-disable-next-line no-console
           console.warn('[TestService.submitTest] aiService.explainAnswer failed for question=', q.id ?? '(unknown)', ex);
         }
@@ -282,41 +414,40 @@ export class TestService {
         ...q,
         userAnswer,
         isCorrect,
+        ...hintInfo,
         explanation,
       });
     }
 
-    if (attempt) {
-      attempt.questions = detailedQuestions;
-      attempt.answers = answers;
-      attempt.score = score;
-      attempt.takenAt = new Date();
-      attempt.status = 'completed';
-    } else {
-      attempt = this.testRepo.create({
-        userId: uid,
-        title,
-        questions: detailedQuestions,
-        answers,
-        score,
-        takenAt: new Date(),
-        status: 'completed',
-      });
-    }
+    attempt.questions = detailedQuestions;
+    attempt.answers = submitted;
+    attempt.score = score;
+    attempt.takenAt = new Date();
+    attempt.status = 'completed';
 
     try {
       const saved = await this.testRepo.save(attempt);
 
-      // persist explanations usage (we allow overflow for Tutor)
-      if (explanationsUsedThisSubmission > 0) {
+      // persist explanations usage (we allow overflow for Tutor); deferred ones are counted as they stream
+      if (explanationsUsedThisSubmission > 0 && !options.deferExplanations) {
         usage.explanationsCount = (usage.explanationsCount || 0) + explanationsUsedThisSubmission;
         usage.explanationsMonth = currentMonth;
         await this.usageRepo.save(usage);
       }
 
-      // compute soft-limit overflow warning for Tutor
+      await this.recordPerformance(saved, timings);
+
+      // missed questions go into the spaced-repetition queue; never fails the submission
+      try {
+        await this.reviewQueue.enqueueMissed(saved);
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.warn('[TestService.submitTest] review queue update failed for attempt', saved?.id, err?.message ?? err);
+      }
+
+      // compute soft-limit overflow warning
       let warning: string | undefined;
-      if (isTutor && explanationsLimit !== Infinity) {
+      if (softExplanationLimit && explanationsLimit !== Infinity) {
         if ((prevExplanationsCount + explanationsUsedThisSubmission) > explanationsLimit) {
           warning = 'soft limit exceeded';
         }
@@ -326,8 +457,8 @@ export class TestService {
       // eslint-disable-next-line no-console
       console.debug('[TestService.submitTest] explanationsUsedThisSubmission=', explanationsUsedThisSubmission, 'prevExplanationsCount=', prevExplanationsCount, 'finalExplanationsCount=', usage.explanationsCount);
 
-      // New return shape: { attempt: saved, warning?: 'soft limit exceeded' }
-      return { attempt: saved, warning };
+      // New return shape: { attempt: saved, warning?: 'soft limit exceeded', explanationsPending }
+      return { attempt: saved, warning, explanationsPending: options.deferExplanations ? explanationsUsedThisSubmission : 0 };
     } catch (err) {
       // eslint-disable-next-line no-console
       console.error('Failed to save submitted test attempt', err);
@@ -335,7 +466,544 @@ export class TestService {
     }
   }
 
-  async reviewTest(id: number) {
-    return this.testRepo.findOne({ where: { id } });
+  /**
+   * Generate the explanations a deferred submission left pending, streaming each one to the
+   * client: `start` { pending }, `token` { questionId, delta }, `explanation` { questionId, explanation },
+   * then `done` { explained, pending }. Each finished explanation is saved on the attempt right away,
+   * so a dropped connection only loses the questions that had not started; reopening the stream
+   * picks those up. Successful explanations count against the monthly explanation quota.
+   * Each question is claimed in the database before the model is called, so parallel streams
+   * and the explain job never generate (and pay for) the same explanation twice, and each result
+   * is written into its own question only.
+   */
+  async streamExplanations(
+    userId: number,
+    attemptId: number,
+    emit: StreamEmitter,
+    isClosed: () => boolean = () => false,
+    opts: { keepFailedPending?: boolean } = {},
+  ) {
+    const attempt = await this.testRepo.findOne({ where: { id: attemptId, userId } });
+    if (!attempt) throw new NotFoundException('Test not found');
+    if (attempt.status !== 'completed') throw new BadRequestException('Explanations are available once the test is submitted.');
+
+    const questions = Array.isArray(attempt.questions) ? attempt.questions : [];
+    const claimedSince = Date.now() - EXPLANATION_CLAIM_SECONDS * 1000;
+    const pending = questions
+      .map((q, index) => ({ q, index }))
+      .filter(({ q }) => q?.explanationPending && !(q.explanationClaimedAt && Date.parse(q.explanationClaimedAt) > claimedSince));
+    emit('start', { attemptId: attempt.id, pending: pending.map(({ q }) => q.id) });
+
+    let explained = 0;
+    let failed = 0;
+    const queue = [...pending];
+
+    const worker = async () => {
+      while (queue.length && !isClosed()) {
+        const { q, index } = queue.shift();
+        // another stream or the explain job already has it
+        if (!(await this.claimExplanation(attempt.id, index, q.id))) continue;
+        let text: string;
+        try {
+          text = await this.aiService.explainAnswer(q.question, answerText(q.userAnswer), answerText(q.correctAnswer), (delta) => emit('token', { questionId: q.id, delta }), {
+            userId,
+            feature: 'explanation',
+          });
+          explained++;
+        } catch (err) {
+          // eslint-disable-next-line no-console
+          console.warn('[TestService.streamExplanations] explainAnswer failed for question=', q.id ?? '(unknown)', err?.message ?? err);
+          // over budget is final for this month: no point keeping it pending for a retry
+          if (err instanceof ForbiddenException) {
+            text = EXPLANATION_BUDGET_PAUSED;
+          } else {
+            failed++;
+            if (opts.keepFailedPending) {
+              await this.releaseExplanation(attempt.id, index, q.id);
+              continue;
+            }
+            text = EXPLANATION_UNAVAILABLE;
+          }
+        }
+        q.explanation = text;
+        delete q.explanationPending;
+        delete q.explanationClaimedAt;
+        emit('explanation', { questionId: q.id, explanation: text });
+        try {
+          await this.saveExplanation(attempt.id, index, q.id, text);
+        } catch (err) {
+          // eslint-disable-next-line no-console
+          console.error('[TestService.streamExplanations] failed to save explanation for attempt', attempt.id, err?.message ?? err);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(EXPLANATION_STREAM_CONCURRENCY, pending.length) }, () => worker()));
+
+    if (explained > 0) await this.addExplanationUsage(userId, explained);
+
+    const stillPending = questions.filter((q) => q?.explanationPending).length;
+    emit('done', { attemptId: attempt.id, explained, pending: stillPending });
+    return { explained, failed, pending: stillPending };
+  }
+
+  /**
+   * Claim the pending explanation of question `index` (stamps explanationClaimedAt). False when it
+   * is no longer pending or another worker claimed it less than EXPLANATION_CLAIM_SECONDS ago.
+   */
+  private async claimExplanation(attemptId: number, index: number, questionId: any): Promise<boolean> {
+    const rows = await this.testRepo.query(
+      `UPDATE test_attempt
+          SET questions = jsonb_set(questions::jsonb, $4::text[], to_jsonb(now()))::json
+        WHERE id = $1 AND status = 'completed'
+          AND questions::jsonb -> $2::int ->> 'id' = $3
+          AND questions::jsonb -> $2::int -> 'explanationPending' = 'true'::jsonb
+          AND COALESCE((questions::jsonb -> $2::int ->> 'explanationClaimedAt')::timestamptz, '-infinity') < now() - $5::int * interval '1 second'
+        RETURNING id`,
+      [attemptId, index, String(questionId), [String(index), 'explanationClaimedAt'], EXPLANATION_CLAIM_SECONDS],
+    );
+    // node-postgres returns [rows, count] for UPDATE ... RETURNING through TypeORM
+    const list = Array.isArray(rows?.[0]) ? rows[0] : rows;
+    return Array.isArray(list) && list.length > 0;
+  }
+
+  // Write one explanation into its question (clears the pending flag and the claim)
+  private async saveExplanation(attemptId: number, index: number, questionId: any, text: string) {
+    const i = String(index);
+    await this.testRepo.query(
+      `UPDATE test_attempt
+          SET questions = jsonb_set(questions::jsonb #- $4::text[] #- $5::text[], $6::text[], to_jsonb($7::text))::json
+        WHERE id = $1 AND questions::jsonb -> $2::int ->> 'id' = $3`,
+      [attemptId, index, String(questionId), [i, 'explanationPending'], [i, 'explanationClaimedAt'], [i, 'explanation'], text],
+    );
+  }
+
+  // Drop the claim of an explanation that failed, so a retry can pick it up right away
+  private async releaseExplanation(attemptId: number, index: number, questionId: any) {
+    try {
+      await this.testRepo.query(
+        `UPDATE test_attempt SET questions = (questions::jsonb #- $4::text[])::json
+          WHERE id = $1 AND questions::jsonb -> $2::int ->> 'id' = $3`,
+        [attemptId, index, String(questionId), [String(index), 'explanationClaimedAt']],
+      );
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.warn('[TestService.streamExplanations] failed to release explanation claim for attempt', attemptId, err?.message ?? err);
+    }
+  }
+
+  private async addExplanationUsage(userId: number, count: number) {
+    try {
+      const currentMonth = new Date().toISOString().slice(0, 7);
+      let usage = await this.usageRepo.findOne({ where: { userId } });
+      if (!usage) {
+        usage = this.usageRepo.create({ userId, testsTodayDate: null, testsTodayCount: 0, explanationsMonth: currentMonth, explanationsCount: 0 });
+      }
+      if (usage.explanationsMonth !== currentMonth) {
+        usage.explanationsMonth = currentMonth;
+        usage.explanationsCount = 0;
+      }
+      usage.explanationsCount = (usage.explanationsCount || 0) + count;
+      await this.usageRepo.save(usage);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.warn('[TestService.addExplanationUsage] failed to record explanation usage for user', userId, err?.message ?? err);
+    }
+  }
+
+  /**
+   * Persist one session_performance row per graded question.
+   * Best-effort: analytics must never fail a submission.
+   */
+  private async recordPerformance(attempt: TestAttempt, timings?: QuestionTimings) {
+    try {
+      const { topic, difficulty } = TestService.splitTitle(attempt.title);
+      const rows = (attempt.questions || []).map((q: any) => {
+        const t = timings && typeof timings === 'object' ? timings[String(q.id)] : undefined;
+        const seconds = Number(t?.timeSeconds);
+        const changes = Number(t?.answerChanges);
+        return this.perfRepo.create({
+          session_id: String(attempt.id),
+          user_id: attempt.userId,
+          question_id: String(q.bankId ?? q.id),
+          difficulty: String(q.difficulty ?? difficulty ?? 'unknown').slice(0, 32),
+          topic: q.topic ?? topic ?? null,
+          correct: !!q.isCorrect,
+          time_seconds: Number.isFinite(seconds) && seconds >= 0 ? Math.min(Math.round(seconds), MAX_QUESTION_SECONDS) : null,
+          answer_changes: Number.isFinite(changes) && changes > 0 ? Math.floor(changes) : 0,
+        });
+      });
+      if (rows.length) await this.perfRepo.save(rows);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.warn('[TestService.recordPerformance] failed for attempt', attempt?.id, err);
+    }
+  }
+
+  /**
+   * Pacing by topic for one user: average seconds per question, accuracy and answer changes.
+   * relativePace compares each topic's average time to the user's overall average (2 = twice as slow).
+   */
+  async getPacingSummary(userId: number) {
+    const rows = await this.perfRepo
+      .createQueryBuilder('p')
+      .select('COALESCE(p.topic, \'Unknown\')', 'topic')
+      .addSelect('COUNT(*)', 'questions')
+      .addSelect('AVG(p.time_seconds)', 'avgSeconds')
+      .addSelect('AVG(CASE WHEN p.correct THEN 1 ELSE 0 END)', 'accuracy')
+      .addSelect('AVG(p.answer_changes)', 'avgAnswerChanges')
+      .where('p.user_id = :userId', { userId })
+      .groupBy('COALESCE(p.topic, \'Unknown\')')
+      .getRawMany();
+
+    const topics = rows.map((r: any) => ({
+      topic: r.topic,
+      questions: Number(r.questions) || 0,
+      avgSeconds: r.avgSeconds == null ? null : Math.round(Number(r.avgSeconds) * 10) / 10,
+      accuracy: Math.round(Number(r.accuracy || 0) * 100) / 100,
+      avgAnswerChanges: Math.round(Number(r.avgAnswerChanges || 0) * 100) / 100,
+    }));
+
+    // overall average weighted by number of timed questions per topic
+    const timed = topics.filter((t) => t.avgSeconds != null);
+    const totalQuestions = timed.reduce((sum, t) => sum + t.questions, 0);
+    const overallAvgSeconds = totalQuestions
+      ? Math.round((timed.reduce((sum, t) => sum + (t.avgSeconds as number) * t.questions, 0) / totalQuestions) * 10) / 10
+      : null;
+
+    return {
+      overallAvgSeconds,
+      topics: topics
+        .map((t) => ({
+          ...t,
+          relativePace: overallAvgSeconds && t.avgSeconds != null ? Math.round((t.avgSeconds / overallAvgSeconds) * 100) / 100 : null,
+        }))
+        .sort((a, b) => (b.relativePace ?? 0) - (a.relativePace ?? 0)),
+    };
+  }
+
+  // Titles are stored as "<topic> (<difficulty>)"
+  private static splitTitle(title: string): { topic: string | null; difficulty: string | null } {
+    const m = /^(.*)\s+\(([^()]+)\)\s*$/.exec(String(title ?? ''));
+    if (!m) return { topic: title || null, difficulty: null };
+    return { topic: m[1].trim() || null, difficulty: m[2].trim() || null };
+  }
+
+  // Review is scoped to the owner; answer keys stay hidden until the attempt is finished
+  async reviewTest(userId: number, id: number) {
+    const attempt = await this.testRepo.findOne({ where: { id, userId } });
+    if (!attempt) throw new NotFoundException('Test not found');
+    return this.toClientAttempt(attempt);
+  }
+
+  /**
+   * Questions of a started attempt with answer keys removed (what the test player receives).
+   */
+  toClientQuestions(questions: any[]) {
+    return (Array.isArray(questions) ? questions : []).map((q) => stripAnswerKey(q));
+  }
+
+  private toClientAttempt(attempt: TestAttempt) {
+    if (attempt.status !== 'started') return attempt;
+    return { ...attempt, questions: this.toClientQuestions(attempt.questions) };
+  }
+
+  /**
+   * Server-authoritative remaining time for an attempt owned by userId.
+   * Marks a started attempt 'expired' once the grace window has passed.
+   */
+  async getRemainingTime(userId: number, attemptId: number) {
+    const attempt = await this.testRepo.findOne({ where: { id: attemptId, userId } });
+    if (!attempt) throw new NotFoundException('Test session not found');
+
+    if (attempt.status === 'started' && this.isPastDeadline(attempt)) {
+      await this.expireAttempt(attempt);
+    }
+    return this.timingView(attempt);
+  }
+
+  /**
+   * Timing fields returned to the client: deadline plus the server clock so the
+   * countdown can correct for a skewed device clock.
+   */
+  timingView(attempt: TestAttempt, now = new Date()) {
+    const deadline = attempt.deadlineAt ? new Date(attempt.deadlineAt) : null;
+    const remainingSeconds = deadline ? Math.max(0, Math.floor((deadline.getTime() - now.getTime()) / 1000)) : null;
+    return {
+      sessionId: attempt.id,
+      status: attempt.status,
+      startedAt: attempt.startedAt ?? null,
+      deadlineAt: deadline,
+      timeLimitSeconds: attempt.timeLimitSeconds ?? null,
+      remainingSeconds,
+      serverTime: now,
+      expired: attempt.status === 'expired' || (deadline !== null && remainingSeconds === 0),
+    };
+  }
+
+  /**
+   * Autosave partial answers and the question the student is on. Only answers keyed by a
+   * stored question id are kept. The write is conditional on the attempt still being
+   * 'started' so a late autosave can never reopen a submitted attempt.
+   */
+  async saveProgress(userId: number, attemptId: number, answers: Record<string, any>, currentIndex?: number | null) {
+    const attempt = await this.testRepo.findOne({ where: { id: attemptId, userId } });
+    if (!attempt) throw new NotFoundException('Test session not found');
+    if (attempt.status !== 'started') {
+      throw new BadRequestException(attempt.status === 'expired' ? 'Time limit for this test has expired.' : 'This test has already been submitted.');
+    }
+    if (this.isPastDeadline(attempt)) {
+      await this.expireAttempt(attempt);
+      throw new ForbiddenException('Time limit for this test has expired.');
+    }
+
+    const questions = Array.isArray(attempt.questions) ? attempt.questions : [];
+    const saved = this.pickAnswers(questions, answers);
+    const index = currentIndex == null || Number.isNaN(Number(currentIndex))
+      ? attempt.currentIndex ?? null
+      : Math.min(Math.max(0, Math.floor(Number(currentIndex))), Math.max(0, questions.length - 1));
+    const savedAt = new Date();
+
+    const res = await this.testRepo.update(
+      { id: attempt.id, userId, status: 'started' },
+      { answers: saved, currentIndex: index, progressSavedAt: savedAt },
+    );
+    if (!res?.affected) throw new BadRequestException('This test has already been submitted.');
+
+    Object.assign(attempt, { answers: saved, currentIndex: index, progressSavedAt: savedAt });
+    return { ...this.timingView(attempt), ...this.progressView(attempt) };
+  }
+
+  /**
+   * Started attempts the user can still pick up, newest first. Attempts whose deadline
+   * has passed are expired (and graded from their autosaved answers) instead of listed.
+   */
+  async listResumable(userId: number) {
+    const attempts = await this.testRepo.find({ where: { userId, status: 'started' }, order: { createdAt: 'DESC' }, take: MAX_RESUMABLE });
+    const out = [];
+    for (const attempt of attempts) {
+      if (this.isPastDeadline(attempt)) {
+        await this.expireAttempt(attempt);
+        continue;
+      }
+      const { topic, difficulty } = TestService.splitTitle(attempt.title);
+      out.push({
+        ...this.timingView(attempt),
+        title: attempt.title,
+        topic,
+        difficulty,
+        createdAt: attempt.createdAt,
+        ...this.progressView(attempt),
+      });
+    }
+    return out;
+  }
+
+  /**
+   * Everything the test player needs to continue a started attempt on any device:
+   * questions without answer keys, autosaved answers, current question and the clock.
+   */
+  async resumeAttempt(userId: number, attemptId: number) {
+    const attempt = await this.testRepo.findOne({ where: { id: attemptId, userId } });
+    if (!attempt) throw new NotFoundException('Test session not found');
+    if (attempt.status === 'started' && this.isPastDeadline(attempt)) {
+      await this.expireAttempt(attempt);
+    }
+    if (attempt.status !== 'started') {
+      throw new BadRequestException(attempt.status === 'expired' ? 'Time limit for this test has expired.' : 'This test has already been submitted.');
+    }
+    const { topic, difficulty } = TestService.splitTitle(attempt.title);
+    return {
+      ...this.timingView(attempt),
+      title: attempt.title,
+      topic,
+      difficulty,
+      questions: this.toClientQuestions(attempt.questions),
+      answers: attempt.answers ?? {},
+      hints: attempt.hints ?? {},
+      ...this.progressView(attempt),
+    };
+  }
+
+  /**
+   * Next hint for a question of a started attempt: level 1 on the first request, up to
+   * MAX_HINT_LEVEL, each more specific and none giving the answer away. Every hint shown counts
+   * against the plan's monthly hint quota and is recorded on the attempt (hints, hintsUsed) so
+   * the score is shown "with hints". Bank questions reuse hints cached on the bank row.
+   * The quota is claimed with a conditional increment before the hint is generated (and given
+   * back when it cannot be saved), so parallel requests cannot go past it.
+   */
+  async requestHint(userId: number, attemptId: number, questionId: string | number, plan?: string) {
+    const attempt = await this.testRepo.findOne({ where: { id: attemptId, userId } });
+    if (!attempt) throw new NotFoundException('Test session not found');
+    if (attempt.status !== 'started') {
+      throw new BadRequestException(attempt.status === 'expired' ? 'Time limit for this test has expired.' : 'Hints are only available while the test is in progress.');
+    }
+    if (this.isPastDeadline(attempt)) {
+      await this.expireAttempt(attempt);
+      throw new ForbiddenException('Time limit for this test has expired.');
+    }
+
+    const q = (Array.isArray(attempt.questions) ? attempt.questions : []).find((item) => String(item?.id) === String(questionId));
+    if (!q) throw new NotFoundException('Question not found in this test');
+    const qid = String(q.id);
+    const shown = attempt.hints?.[qid] ?? [];
+    if (shown.length >= MAX_HINT_LEVEL) throw new BadRequestException('All hints for this question have been shown.');
+
+    const key = `${attempt.id}:${qid}`;
+    if (this.hinting.has(key)) throw new BadRequestException('A hint for this question is already on its way.');
+    this.hinting.add(key);
+    try {
+      const decision = await this.planPolicy.assertAllowed(userId, 'hint', { plan });
+      const hintsCount = await this.claimHintQuota(userId, decision.limit);
+      if (hintsCount == null) throw new ForbiddenException(`You have used all ${decision.limit} hint(s) included in your plan this month.`);
+
+      const level = shown.length + 1;
+      let saved: { hints: Record<string, string[]>; hintsUsed: number } | null = null;
+      let hint: string;
+      try {
+        hint = await this.hintText(q, level, shown, userId);
+        saved = await this.appendHint(attempt.id, userId, qid, level, hint);
+      } finally {
+        if (!saved) await this.releaseHintQuota(userId);
+      }
+      if (!saved) throw new BadRequestException('This test has been submitted or the hint was already shown.');
+
+      return {
+        questionId: q.id,
+        level,
+        hint,
+        hints: saved.hints?.[qid] ?? [...shown, hint],
+        levelsRemaining: MAX_HINT_LEVEL - level,
+        hintsUsed: saved.hintsUsed,
+        hintsRemaining: decision.limit == null ? null : Math.max(0, decision.limit - hintsCount),
+      };
+    } finally {
+      this.hinting.delete(key);
+    }
+  }
+
+  // Cached bank hint, else a generated one (cached for the next student), else the generic hint
+  private async hintText(q: any, level: number, shown: string[], userId: number): Promise<string> {
+    const bankId = q.bankId != null ? String(q.bankId) : null;
+    if (bankId) {
+      const cached = await this.questionBank.cachedHint(bankId, level, q);
+      if (cached) return cached;
+    }
+    const generated = await this.aiService.generateHint(q, level, shown, { userId, feature: 'hint' });
+    if (!generated) return FALLBACK_HINTS[level - 1];
+    if (bankId) await this.questionBank.cacheHint(bankId, level, generated, q);
+    return generated;
+  }
+
+  // { hintsUsed } for a graded question when hints were shown for it, {} otherwise
+  private hintsShown(attempt: TestAttempt, q: any): { hintsUsed?: number } {
+    const count = attempt.hints?.[String(q?.id)]?.length ?? 0;
+    return count > 0 ? { hintsUsed: count } : {};
+  }
+
+  /**
+   * Count one hint against this month's quota in a single conditional UPDATE (a new month starts
+   * again at 1). Returns the new count, or null when `limit` (null = unlimited) is already used up.
+   */
+  private async claimHintQuota(userId: number, limit: number | null): Promise<number | null> {
+    const month = new Date().toISOString().slice(0, 7);
+    await this.usageRepo.query(`INSERT INTO ai_usage ("userId", "hintsMonth", "hintsCount") VALUES ($1, $2, 0) ON CONFLICT ("userId") DO NOTHING`, [
+      userId,
+      month,
+    ]);
+    const rows = await this.usageRepo.query(
+      `UPDATE ai_usage
+          SET "hintsCount" = CASE WHEN "hintsMonth" = $2 THEN "hintsCount" + 1 ELSE 1 END, "hintsMonth" = $2, "updatedAt" = now()
+        WHERE "userId" = $1
+          AND ($3::int IS NULL OR CASE WHEN "hintsMonth" = $2 THEN "hintsCount" ELSE 0 END < $3::int)
+        RETURNING "hintsCount"`,
+      [userId, month, limit],
+    );
+    // node-postgres returns [rows, count] for UPDATE ... RETURNING through TypeORM
+    const list = Array.isArray(rows?.[0]) ? rows[0] : rows;
+    const row = Array.isArray(list) ? list[0] : null;
+    return row ? Number(row.hintsCount) : null;
+  }
+
+  // Give back a claimed hint that was not shown
+  private async releaseHintQuota(userId: number) {
+    try {
+      const month = new Date().toISOString().slice(0, 7);
+      await this.usageRepo.query(`UPDATE ai_usage SET "hintsCount" = GREATEST("hintsCount" - 1, 0) WHERE "userId" = $1 AND "hintsMonth" = $2`, [userId, month]);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.warn('[TestService.releaseHintQuota] failed to release hint usage for user', userId, err?.message ?? err);
+    }
+  }
+
+  /**
+   * Append hint `level` of question `qid` to a started attempt. Merged into the stored hints in SQL
+   * so concurrent hints for other questions are kept; only applies when the question has exactly
+   * level - 1 hints, so the same level is never added twice. Null when nothing was updated.
+   */
+  private async appendHint(attemptId: number, userId: number, qid: string, level: number, hint: string) {
+    const rows = await this.testRepo.query(
+      `UPDATE test_attempt
+          SET hints = jsonb_set(COALESCE(hints::jsonb, '{}'::jsonb), ARRAY[$3::text], COALESCE(hints::jsonb -> $3::text, '[]'::jsonb) || jsonb_build_array($4::text))::json,
+              "hintsUsed" = "hintsUsed" + 1
+        WHERE id = $1 AND "userId" = $2 AND status = 'started'
+          AND jsonb_array_length(COALESCE(hints::jsonb -> $3::text, '[]'::jsonb)) = $5
+        RETURNING hints, "hintsUsed"`,
+      [attemptId, userId, qid, hint, level - 1],
+    );
+    // node-postgres returns [rows, count] for UPDATE ... RETURNING through TypeORM
+    const list = Array.isArray(rows?.[0]) ? rows[0] : rows;
+    const row = Array.isArray(list) ? list[0] : null;
+    return row ? { hints: row.hints as Record<string, string[]>, hintsUsed: Number(row.hintsUsed) } : null;
+  }
+
+  // Answers keyed by a stored question id with a non-empty value
+  private pickAnswers(questions: any[], answers: Record<string, any>) {
+    const out: Record<string, any> = {};
+    if (!answers || typeof answers !== 'object') return out;
+    for (const q of questions) {
+      const v = answers[String(q?.id)];
+      if (v != null && String(v).trim() !== '') out[String(q.id)] = v;
+    }
+    return out;
+  }
+
+  private progressView(attempt: TestAttempt) {
+    const total = Array.isArray(attempt.questions) ? attempt.questions.length : 0;
+    return {
+      total,
+      answeredCount: Object.keys(this.pickAnswers(attempt.questions || [], attempt.answers)).length,
+      currentIndex: attempt.currentIndex ?? 0,
+      progressSavedAt: attempt.progressSavedAt ?? null,
+    };
+  }
+
+  private isPastDeadline(attempt: TestAttempt, now = new Date()) {
+    if (!attempt.deadlineAt) return false;
+    return now.getTime() > new Date(attempt.deadlineAt).getTime() + SUBMIT_GRACE_SECONDS * 1000;
+  }
+
+  // Expired attempts are graded from the autosaved answers (no explanations) so the work isn't lost
+  private async expireAttempt(attempt: TestAttempt) {
+    const questions = Array.isArray(attempt.questions) ? attempt.questions : [];
+    const answers = this.pickAnswers(questions, attempt.answers);
+    let score = 0;
+    attempt.questions = questions.map((q) => {
+      const userAnswer = answers[String(q.id)] ?? null;
+      const isCorrect = gradeAnswer(q, userAnswer);
+      if (isCorrect) score++;
+      return { ...q, userAnswer, isCorrect, ...this.hintsShown(attempt, q) };
+    });
+    attempt.answers = answers;
+    attempt.score = score;
+    attempt.status = 'expired';
+    attempt.takenAt = attempt.takenAt ?? new Date(attempt.deadlineAt ?? Date.now());
+    try {
+      await this.testRepo.save(attempt);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error('[TestService.expireAttempt] failed to mark attempt expired', attempt.id, err?.message ?? err);
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,24 @@
+import React from 'react';
+import katex from 'katex';
+import { splitMath } from '../utils/latex';
+
+/**
+ * Text with inline ($...$) and display ($$...$$) LaTeX rendered by KaTeX. Plain segments stay
+ * React text, so only KaTeX's own output is injected as HTML. Invalid math is shown in red by
+ * KaTeX instead of throwing.
+ */
+export default function MathText({ text, component = 'span' }: { text: string | null | undefined; component?: 'span' | 'div' }) {
+  const segments = React.useMemo(() => splitMath(String(text ?? '')).segments, [text]);
+  const Wrapper = component;
+
+  return (
+    <Wrapper className="math-text">
+      {segments.map((s, i) => {
+        if (s.type === 'text') return <React.Fragment key={i}>{s.value}</React.Fragment>;
+        const html = katex.renderToString(s.value, { displayMode: s.display, throwOnError: false, strict: 'ignore' });
+        const Tag = s.display ? 'div' : 'span';
+        return <Tag key={i} dangerouslySetInnerHTML={{ __html: html }} />;
+      })}
+    </Wrapper>
+  );
+}
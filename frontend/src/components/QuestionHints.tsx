@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Alert, Box, Button, CircularProgress, Typography } from '@mui/material';
+import axios from 'axios';
+import MathText from './MathText';
+
+// Matches MAX_HINT_LEVEL on the backend (ai/question-hints.ts)
+export const MAX_HINTS = 3;
+
+/**
+ * Hint button for one question of a started attempt. Each click asks POST /tests/:id/hints for the
+ * next, more specific hint; hints already shown stay listed. Every hint counts against the plan's
+ * monthly hint quota, so the server's refusal (quota used up) is shown as is.
+ */
+export default function QuestionHints({
+  sessionId,
+  questionId,
+  token,
+  hints,
+  onHints,
+  disabled,
+}: {
+  sessionId: string;
+  questionId: string | number;
+  token: string | null;
+  hints: string[];
+  onHints: (hints: string[]) => void;
+  disabled?: boolean;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hintsRemaining, setHintsRemaining] = useState<number | null>(null);
+
+  async function nextHint() {
+    if (!token) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await axios.post<any>(
+        `${process.env.NEXT_PUBLIC_API_URL}/tests/${sessionId}/hints`,
+        { questionId },
+        { headers: { Authorization: `Bearer ${token}` }, timeout: 60000 },
+      );
+      if (Array.isArray(res.data?.hints)) onHints(res.data.hints);
+      setHintsRemaining(res.data?.hintsRemaining ?? null);
+    } catch (err: any) {
+      setError(err?.response?.data?.message || 'Could not get a hint right now.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Box sx={{ mt: 1 }}>
+      {hints.map((hint, i) => (
+        <Alert key={i} severity="info" icon={false} sx={{ mb: 1 }}>
+          <Typography variant="caption" fontWeight={700} display="block">Hint {i + 1}</Typography>
+          <MathText text={hint} />
+        </Alert>
+      ))}
+      {error && <Typography variant="caption" color="error" display="block" sx={{ mb: 0.5 }}>{error}</Typography>}
+      {hints.length < MAX_HINTS && (
+        <Button size="small" variant="text" onClick={nextHint} disabled={busy || disabled || !token}>
+          {busy ? <CircularProgress size={16} /> : hints.length === 0 ? 'Show a hint' : `Next hint (${hints.length + 1}/${MAX_HINTS})`}
+        </Button>
+      )}
+      {hintsRemaining != null && (
+        <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+          {hintsRemaining} hint{hintsRemaining === 1 ? '' : 's'} left this month
+        </Typography>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Checkbox, FormControlLabel, FormGroup, Radio, RadioGroup, TextField, Typography } from '@mui/material';
+import MathText from './MathText';
+import { AnswerValue } from '../utils/questionTypes';
+
+type InputQuestion = { type?: string | null; options?: string[] | null };
+
+/**
+ * Answer control for one question, picked by its type: radio buttons (multiple_choice),
+ * checkboxes (multi_select) or a text field (numeric grid-in, short_text).
+ */
+export default function QuestionInput({
+  question,
+  value,
+  onChange,
+  disabled,
+}: {
+  question: InputQuestion;
+  value: AnswerValue | null | undefined;
+  onChange: (value: AnswerValue) => void;
+  disabled?: boolean;
+}) {
+  const options = question.options ?? [];
+
+  if (question.type === 'multi_select') {
+    const selected = Array.isArray(value) ? value : [];
+    const toggle = (opt: string, checked: boolean) =>
+      onChange(checked ? options.filter((o) => o === opt || selected.includes(o)) : selected.filter((o) => o !== opt));
+    return (
+      <FormGroup>
+        <Typography variant="caption" color="text.secondary">Select all that apply</Typography>
+        {options.map((opt) => (
+          <FormControlLabel
+            key={opt}
+            control={<Checkbox checked={selected.includes(opt)} onChange={(e) => toggle(opt, e.target.checked)} />}
+            label={<MathText text={opt} />}
+            disabled={disabled}
+          />
+        ))}
+      </FormGroup>
+    );
+  }
+
+  if (question.type === 'numeric' || question.type === 'short_text') {
+    const numeric = question.type === 'numeric';
+    return (
+      <TextField
+        size="small"
+        value={typeof value === 'string' ? value : ''}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        placeholder={numeric ? 'e.g. 2/3 or 0.667' : 'Your answer'}
+        helperText={numeric ? 'Enter a whole number, fraction or decimal' : undefined}
+        inputProps={numeric ? { inputMode: 'decimal', 'aria-label': 'Numeric answer', maxLength: 16 } : { 'aria-label': 'Answer', maxLength: 200 }}
+        sx={{ maxWidth: numeric ? 240 : 480 }}
+        fullWidth
+      />
+    );
+  }
+
+  return (
+    <RadioGroup value={typeof value === 'string' ? value : ''} onChange={(e) => onChange(e.target.value)}>
+      {options.map((opt) => (
+        <FormControlLabel key={opt} value={opt} control={<Radio />} label={<MathText text={opt} />} disabled={disabled} />
+      ))}
+    </RadioGroup>
+  );
+}
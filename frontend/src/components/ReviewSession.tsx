@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Button, Paper, Typography, RadioGroup, FormControlLabel, Radio, Alert, Stack, Chip, CircularProgress, LinearProgress } from '@mui/material';
+import axios from 'axios';
+import MathText from './MathText';
+
+type ReviewItem = {
+  id: number;
+  question: string;
+  options: string[];
+  topic?: string | null;
+  repetitions: number;
+  lapses: number;
+};
+
+type ReviewFeedback = {
+  correct: boolean;
+  correctAnswer: string;
+  explanation: string | null;
+  intervalDays: number;
+  removed?: boolean;
+  reason?: string;
+};
+
+type Props = {
+  authHeaders: () => Record<string, any>;
+  onExit: () => void;
+};
+
+function describeInterval(days: number): string {
+  if (days <= 1) return 'tomorrow';
+  if (days < 30) return `in ${days} days`;
+  return `in about ${Math.round(days / 30)} month(s)`;
+}
+
+/**
+ * Review session over the spaced-repetition queue: due questions one at a time, with the
+ * answer, explanation and next review date shown after each answer.
+ */
+export default function ReviewSession({ authHeaders, onExit }: Props) {
+  const api = process.env.NEXT_PUBLIC_API_URL;
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [index, setIndex] = useState<number>(0);
+  const [selected, setSelected] = useState<string>('');
+  const [feedback, setFeedback] = useState<ReviewFeedback | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reviewed, setReviewed] = useState<{ total: number; correct: number }>({ total: 0, correct: 0 });
+  const shownAtRef = useRef<number>(Date.now());
+
+  useEffect(() => {
+    loadDue();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    shownAtRef.current = Date.now();
+  }, [index, items]);
+
+  async function loadDue() {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await axios.get<any>(`${api}/review/due`, { headers: authHeaders(), params: { limit: 20 } });
+      setItems(res.data?.items ?? []);
+      setIndex(0);
+      setSelected('');
+      setFeedback(null);
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Could not load your review queue.');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function submitAnswer() {
+    const item = items[index];
+    if (!item || !selected) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const timeSeconds = Math.round((Date.now() - shownAtRef.current) / 1000);
+      const res = await axios.post<ReviewFeedback>(`${api}/review/${item.id}/answer`, { answer: selected, timeSeconds }, { headers: authHeaders() });
+      setFeedback(res.data);
+      if (!res.data?.removed) {
+        setReviewed((r) => ({ total: r.total + 1, correct: r.correct + (res.data?.correct ? 1 : 0) }));
+      }
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Could not record your answer.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function next() {
+    setFeedback(null);
+    setSelected('');
+    setIndex((i) => i + 1);
+  }
+
+  const item = items[index];
+  const finished = !loading && index >= items.length;
+
+  return (
+    <Paper sx={{ p: 3, mb: 3 }} elevation={1}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+        <Typography variant="h6" sx={{ fontWeight: 800 }}>Review session</Typography>
+        <Button onClick={onExit}>Exit review</Button>
+      </Stack>
+      <Typography color="text.secondary" sx={{ mb: 2 }}>
+        Questions you missed come back at growing intervals. Answer correctly and they return less often.
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+      {loading && <CircularProgress />}
+
+      {!loading && items.length > 0 && !finished && (
+        <LinearProgress variant="determinate" value={(index / items.length) * 100} sx={{ mb: 2 }} />
+      )}
+
+      {finished && (
+        <Box>
+          <Alert severity={items.length ? 'success' : 'info'} sx={{ mb: 2 }}>
+            {items.length
+              ? `Review done: ${reviewed.correct} / ${reviewed.total} correct.`
+              : 'Nothing is due today. Missed questions from your tests will show up here.'}
+          </Alert>
+          <Stack direction="row" spacing={1}>
+            {items.length > 0 && <Button variant="outlined" onClick={loadDue}>Check for more</Button>}
+            <Button variant="contained" onClick={onExit}>Done</Button>
+          </Stack>
+        </Box>
+      )}
+
+      {item && !finished && (
+        <Box>
+          <Stack direction="row" spacing={1} sx={{ mb: 1 }}>
+            {item.topic && <Chip size="small" label={item.topic} />}
+            <Chip size="small" variant="outlined" label={`${index + 1} of ${items.length}`} />
+            {item.lapses > 1 && <Chip size="small" color="warning" variant="outlined" label={`missed ${item.lapses}×`} />}
+          </Stack>
+          <Typography variant="h6" sx={{ mb: 1 }}><MathText text={item.question} /></Typography>
+          <RadioGroup value={selected} onChange={(e) => setSelected(e.target.value)}>
+            {(item.options ?? []).map((opt) => (
+              <FormControlLabel key={opt} value={opt} control={<Radio />} label={<MathText text={opt} />} disabled={!!feedback} />
+            ))}
+          </RadioGroup>
+
+          {feedback && (
+            <Alert severity={feedback.removed ? 'info' : feedback.correct ? 'success' : 'warning'} sx={{ mt: 2 }}>
+              {feedback.removed
+                ? feedback.reason
+                : <>{feedback.correct ? 'Correct!' : <>Not quite — the answer is <MathText text={feedback.correctAnswer} />.</>} Next review {describeInterval(feedback.intervalDays)}.</>}
+              {!feedback.removed && feedback.explanation ? <><br /><MathText text={feedback.explanation} /></> : null}
+            </Alert>
+          )}
+
+          <Box sx={{ mt: 2 }}>
+            {!feedback ? (
+              <Button variant="contained" disabled={!selected || busy} onClick={submitAnswer}>
+                {busy ? <CircularProgress size={20} /> : 'Check answer'}
+              </Button>
+            ) : (
+              <Button variant="contained" onClick={next}>
+                {index + 1 < items.length ? 'Next question' : 'Finish'}
+              </Button>
+            )}
+          </Box>
+        </Box>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,48 @@
+import React, { useState } from "react";
+import { Box, Button, CircularProgress, Typography } from "@mui/material";
+import api from "../lib/api";
+
+type SubscriptionResponse = { subscription_id?: string; approve_url?: string | null; billing_status?: string };
+
+/**
+ * Starts a recurring PayPal subscription for the plan and sends the buyer to PayPal to approve it.
+ * PayPal returns them to /subscription?subscription_id=..., where the subscription is confirmed.
+ */
+export default function SubscribeWithPayPal({ plan, billingPeriod }: { plan: string; billingPeriod: string }) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function subscribe() {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await api.post<SubscriptionResponse>("/api/payments/subscriptions", { plan, billingPeriod });
+      const url = res.data?.approve_url ?? null;
+      if (!url) {
+        setError("PayPal did not return an approval link. Please try again.");
+        return;
+      }
+      window.location.href = url;
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? "Unable to start the subscription.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Button variant="contained" color="primary" fullWidth onClick={subscribe} disabled={busy}>
+        {busy ? <CircularProgress size={18} /> : `Subscribe with PayPal (renews ${billingPeriod === "yearly" ? "yearly" : "monthly"})`}
+      </Button>
+      <Typography variant="caption" color="text.secondary" sx={{ display: "block", mt: 1 }}>
+        Renews automatically until you cancel. You keep access until the end of the paid period.
+      </Typography>
+      {error && (
+        <Typography variant="caption" color="error" sx={{ display: "block", mt: 0.5 }}>
+          {error}
+        </Typography>
+      )}
+    </Box>
+  );
+}
@@ -16,6 +16,8 @@ import {
 } from '@mui/material';
 import axios from 'axios';
 import { useRouter } from 'next/router';
+import MathText from './MathText';
+import { formatAnswer } from '../utils/questionTypes';
 
 interface QuestionFeedback {
   questionId?: number | string;
@@ -45,6 +47,10 @@ interface ServerResponse {
   perQuestion?: QuestionFeedback[];
   questions?: any[];
   explanations?: Record<string, string | null> | null;
+  // deferred submissions: explanations the review page will stream
+  explanationsPending?: number;
+  // hints shown during the attempt; the score is then shown "with hints"
+  hintsUsed?: number;
   id?: number | string;
   resultId?: number | string;
   submissionId?: number | string;
@@ -172,6 +178,7 @@ export default function TestSubmission(): JSX.Element {
   const [inlineWarning, setInlineWarning] = useState<string | null>(null);
 
   const [resultScore, setResultScore] = useState<number | null>(null);
+  const [resultHintsUsed, setResultHintsUsed] = useState<number>(0);
   const [resultTotal, setResultTotal] = useState<number | null>(null);
   const [perQuestionFeedback, setPerQuestionFeedback] = useState<QuestionFeedback[] | null>(null);
   const [originalQuestions, setOriginalQuestions] = useState<any[] | null>(null);
@@ -216,10 +223,11 @@ export default function TestSubmission(): JSX.Element {
         const headers: Record<string, string> = {};
         if (token) headers.Authorization = `Bearer ${token}`;
 
-        // NOTE: timeout increased to 300000ms (5 minutes) to accommodate longer AI explanation collation
+        // Explanations are deferred: the score comes back right away and /review streams them in.
+        // NOTE: timeout stays at 300000ms (5 minutes) for servers that still explain inline
         const res = await axios.post(
           `${process.env.NEXT_PUBLIC_API_URL}/tests/submit`,
-          parsed.payload,
+          { ...parsed.payload, deferExplanations: true },
           { headers, timeout: 300000 }
         );
 
@@ -236,6 +244,15 @@ export default function TestSubmission(): JSX.Element {
           return;
         }
 
+        // Explanations still being written: open the review page, which streams them as they finish
+        if (data.explanationsPending && data.id != null) {
+          try { sessionStorage.removeItem('pendingTestSubmission'); } catch {}
+          try { window.dispatchEvent(new CustomEvent('tests-changed', { detail: { id: data.id } })); } catch {}
+          setSnack({ severity: 'success', message: `Submitted — score ${data.score ?? 0}/${data.total ?? '?'}${data.hintsUsed ? ' (with hints)' : ''}. Opening your review…` });
+          router.replace({ pathname: '/review', query: { id: String(data.id) } });
+          return;
+        }
+
         const score = data.score ?? data.result?.score ?? data.marks ?? null;
         const total = data.total ?? data.result?.total ?? data.max ?? (originalQuestions ? originalQuestions.length : null);
 
@@ -266,6 +283,7 @@ export default function TestSubmission(): JSX.Element {
 
         if (score != null || feedback != null) {
           setResultScore(typeof score === 'number' ? score : null);
+          setResultHintsUsed(Number(data.hintsUsed) || 0);
           setResultTotal(typeof total === 'number' ? total : (originalQuestions ? originalQuestions.length : null));
           setPerQuestionFeedback(feedback ?? null);
           try { sessionStorage.removeItem('pendingTestSubmission'); } catch {}
@@ -354,6 +372,7 @@ export default function TestSubmission(): JSX.Element {
       <Box>
         <Alert severity="success" sx={{ mb: 2 }}>
           Test completed — Score: {score != null && total != null ? `${score}/${total}` : (score != null ? String(score) : '—')}
+          {resultHintsUsed > 0 && ` (with hints)`}
         </Alert>
 
         <List>
@@ -370,21 +389,26 @@ export default function TestSubmission(): JSX.Element {
               <Box key={qid} sx={{ mb: 2 }}>
                 <ListItem alignItems="flex-start" disableGutters>
                   <ListItemText
-                    primary={<Typography variant="subtitle1">{idx + 1}. {q.question}</Typography>}
+                    primary={<Typography variant="subtitle1">{idx + 1}. <MathText text={q.question} /></Typography>}
                     secondary={
                       <>
                         <Typography variant="body2" sx={{ mt: 1 }}>
-                          Your answer: <strong>{String(userAnswer)}</strong>
+                          Your answer: <strong><MathText text={formatAnswer(userAnswer)} /></strong>
                         </Typography>
                         {correct !== null && (
                           <Typography variant="body2" color={correct ? 'success.main' : 'error.main'} sx={{ mt: 0.5 }}>
-                            {correct ? 'Correct' : `Incorrect — correct answer: ${correctAnswer ?? 'N/A'}`}
+                            {correct ? 'Correct' : <>Incorrect — correct answer: <MathText text={formatAnswer(correctAnswer) || 'N/A'} /></>}
+                          </Typography>
+                        )}
+                        {!!fb?.hintsUsed && (
+                          <Typography variant="caption" color="text.secondary" display="block">
+                            Answered with {fb.hintsUsed} hint{fb.hintsUsed === 1 ? '' : 's'}
                           </Typography>
                         )}
                         {explanation && (
                           <Box sx={{ mt: 1, p: 2, bgcolor: '#fafafa', borderRadius: 1 }}>
                             <Typography variant="body2" sx={{ fontWeight: 600 }}>Explanation</Typography>
-                            <Typography variant="body2">{String(explanation)}</Typography>
+                            <Typography variant="body2"><MathText text={String(explanation)} /></Typography>
                           </Box>
                         )}
                       </>
@@ -2,6 +2,7 @@ import React, { useEffect, useState, useRef } from 'react';
 import { Box, TextField, Button, Paper, Typography, List, ListItem, ListItemText, CircularProgress } from '@mui/material';
 import axios from 'axios';
 import { useAuth } from '../context/AuthContext';
+import { readSseStream } from '../lib/sse';
 
 type TutorMessage = { role: string; text: string; createdAt?: string; [k: string]: any };
 type Conversation = { id?: number | string; messages?: TutorMessage[]; [k: string]: any };
@@ -66,39 +67,41 @@ export default function TutorChat({ conversationIdProp }: { conversationIdProp?:
     } catch {}
   }, [messages]);
 
+  // Replies stream in over SSE (ai/tutor-chat/stream); the assistant bubble grows as tokens arrive
   const send = async () => {
-    if (!input.trim() || !token) return;
+    const text = input.trim();
+    if (!text || !token) return;
     setLoading(true);
+    setInput('');
+    setMessages((m) => [
+      ...m,
+      { role: 'user', text, createdAt: new Date().toISOString() },
+      { role: 'assistant', text: '', createdAt: new Date().toISOString(), streaming: true },
+    ]);
+
+    // update the in-progress assistant message (always the last one)
+    const updateReply = (fn: (msg: TutorMessage) => TutorMessage) =>
+      setMessages((m) => (m.length ? [...m.slice(0, -1), fn(m[m.length - 1])] : m));
+
     try {
-      const res = await axios.post(
-        `${process.env.NEXT_PUBLIC_API_URL}/ai/tutor-chat`,
-        {
-          message: input.trim(),
-          conversationId: conversationId ?? undefined,
+      await readSseStream(
+        `${process.env.NEXT_PUBLIC_API_URL}/ai/tutor-chat/stream`,
+        { method: 'POST', headers: { Authorization: `Bearer ${token}` }, body: { message: text, conversationId: conversationId ?? undefined } },
+        (event, data) => {
+          if (event === 'token') {
+            updateReply((msg) => ({ ...msg, text: msg.text + (data?.delta ?? '') }));
+          } else if (event === 'done') {
+            setConversationId(toNumberOrNull(data?.conversationId ?? conversationId ?? null));
+            updateReply((msg) => ({ ...msg, text: data?.reply ?? msg.text, streaming: false }));
+          } else if (event === 'error') {
+            updateReply((msg) => ({ ...msg, text: msg.text || String(data?.message ?? 'Sorry, no reply'), streaming: false }));
+          }
         },
-        {
-          headers: { Authorization: `Bearer ${token}` },
-        }
       );
-
-      // permissive typing for the reply shape
-      const data = (res?.data ?? {}) as { conversationId?: number | string; reply?: string; message?: string; [k: string]: any };
-
-      // update conversation id if returned (normalize to number|null)
-      const newConversationId = toNumberOrNull(data.conversationId ?? conversationId ?? null);
-      setConversationId(newConversationId);
-
-      // append user message and assistant reply (defensive)
-      setMessages((m) => [
-        ...m,
-        { role: 'user', text: input.trim(), createdAt: new Date().toISOString() },
-        { role: 'assistant', text: data.reply ?? String(data?.message ?? 'Sorry, no reply'), createdAt: new Date().toISOString() },
-      ]);
-
-      setInput('');
-    } catch (err) {
+    } catch (err: any) {
       // eslint-disable-next-line no-console
       console.error('Tutor chat send error', err);
+      updateReply((msg) => ({ ...msg, text: msg.text || String(err?.message ?? 'Sorry, no reply'), streaming: false }));
     } finally {
       setLoading(false);
     }
@@ -114,7 +117,7 @@ export default function TutorChat({ conversationIdProp }: { conversationIdProp?:
             <ListItem key={i}>
               <ListItemText
                 primary={<strong>{m.role === 'user' ? 'You' : 'Tutor'}</strong>}
-                secondary={<span>{m.text}</span>}
+                secondary={<span>{m.text || (m.streaming ? '…' : '')}</span>}
               />
             </ListItem>
           ))}
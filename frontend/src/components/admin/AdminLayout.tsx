@@ -61,11 +61,41 @@ export default function AdminLayout({ children, title }: AdminLayoutProps) {
             <ListItemText primary="AI Logs" />
           </ListItemButton>
         </Link>
+        <Link href="/admin/ai-costs" passHref legacyBehavior>
+          <ListItemButton component="a">
+            <ListItemText primary="AI Costs" />
+          </ListItemButton>
+        </Link>
+        <Link href="/admin/payments" passHref legacyBehavior>
+          <ListItemButton component="a">
+            <ListItemText primary="Payments" />
+          </ListItemButton>
+        </Link>
+        <Link href="/admin/payment-events" passHref legacyBehavior>
+          <ListItemButton component="a">
+            <ListItemText primary="Payment Events" />
+          </ListItemButton>
+        </Link>
+        <Link href="/admin/plans" passHref legacyBehavior>
+          <ListItemButton component="a">
+            <ListItemText primary="Plan Limits" />
+          </ListItemButton>
+        </Link>
         <Link href="/admin/prompts" passHref legacyBehavior>
           <ListItemButton component="a">
             <ListItemText primary="Prompts" />
           </ListItemButton>
         </Link>
+        <Link href="/admin/questions" passHref legacyBehavior>
+          <ListItemButton component="a">
+            <ListItemText primary="Question Bank" />
+          </ListItemButton>
+        </Link>
+        <Link href="/admin/reports" passHref legacyBehavior>
+          <ListItemButton component="a">
+            <ListItemText primary="Question Reports" />
+          </ListItemButton>
+        </Link>
         <Link href="/admin/users" passHref legacyBehavior>
           <ListItemButton component="a">
             <ListItemText primary="Users" />
@@ -20,7 +20,10 @@ type PromptModel = {
   description?: string;
   body?: string;
   enabled?: boolean;
-  version?: number;
+  // per-prompt model settings; blank uses the built-in default
+  model?: string;
+  temperature?: string;
+  max_tokens?: string;
   example?: string;
 };
 
@@ -30,7 +33,9 @@ const EMPTY_PROMPT: PromptModel = {
   description: '',
   body: '',
   enabled: true,
-  version: 1,
+  model: '',
+  temperature: '',
+  max_tokens: '',
   example: '',
 };
 
@@ -78,9 +83,9 @@ export default function PromptEditor({ initial = {}, onSaved }: { initial?: Prom
       const res = await adminApi.post<any>('/admin/prompts/preview', {
         prompt: prompt.body || '',
         placeholders,
-        model: 'gpt-4o',
-        temperature: 0.2,
-        max_tokens: 800,
+        model: prompt.model || 'gpt-4o',
+        temperature: prompt.temperature ? Number(prompt.temperature) : 0.2,
+        max_tokens: prompt.max_tokens ? Number(prompt.max_tokens) : 800,
       });
       setPreviewResult(res.data);
     } catch (err) {
@@ -97,8 +102,12 @@ export default function PromptEditor({ initial = {}, onSaved }: { initial?: Prom
         key: prompt.key,
         template: prompt.body,
         description: prompt.description,
-        metadata: { version: prompt.version ?? 1, example: prompt.example },
+        metadata: { example: prompt.example },
         enabled: prompt.enabled ?? true,
+        // a changed template or setting is saved as a new version and made active
+        model: prompt.model || null,
+        temperature: prompt.temperature === '' || prompt.temperature == null ? null : Number(prompt.temperature),
+        max_tokens: prompt.max_tokens === '' || prompt.max_tokens == null ? null : Number(prompt.max_tokens),
       });
       if (onSaved) onSaved();
       alert('Saved');
@@ -198,17 +207,42 @@ export default function PromptEditor({ initial = {}, onSaved }: { initial?: Prom
 
         <Grid item xs={12} md={3}>
           <TextField
-            label="Version"
-            value={String(prompt.version ?? 1)}
-            onChange={(e) => setPrompt({ ...prompt, version: Number(e.target.value || 1) })}
+            label="Model (blank = default)"
+            value={prompt.model || ''}
+            onChange={(e) => setPrompt({ ...prompt, model: e.target.value })}
+            fullWidth
+            size="small"
+            sx={{ mb: 2 }}
+          />
+        </Grid>
+
+        <Grid item xs={6} md={2}>
+          <TextField
+            label="Temperature"
+            value={prompt.temperature ?? ''}
+            onChange={(e) => setPrompt({ ...prompt, temperature: e.target.value })}
+            fullWidth
+            size="small"
+            type="number"
+            inputProps={{ min: 0, max: 2, step: 0.1 }}
+            sx={{ mb: 2 }}
+          />
+        </Grid>
+
+        <Grid item xs={6} md={2}>
+          <TextField
+            label="Max tokens"
+            value={prompt.max_tokens ?? ''}
+            onChange={(e) => setPrompt({ ...prompt, max_tokens: e.target.value })}
             fullWidth
             size="small"
             type="number"
+            inputProps={{ min: 1 }}
             sx={{ mb: 2 }}
           />
         </Grid>
 
-        <Grid item xs={12} md={3} sx={{ display: 'flex', alignItems: 'center' }}>
+        <Grid item xs={12} md={2} sx={{ display: 'flex', alignItems: 'center' }}>
           <FormControlLabel
             control={<Switch checked={prompt.enabled ?? true} onChange={(e) => setPrompt({ ...prompt, enabled: e.target.checked })} />}
             label="Enabled"
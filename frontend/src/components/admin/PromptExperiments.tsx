@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import adminApi from '../../lib/adminApi';
+
+type VersionStats = {
+  id: number;
+  version: number;
+  model: string | null;
+  temperature: number | null;
+  max_tokens: number | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+  active: boolean;
+  weight: number | null;
+  uses: number;
+  generated: number;
+  reported: number;
+  validation_failure_rate: number | null;
+  duplicate_rate: number | null;
+  report_rate: number | null;
+};
+
+type PromptStats = {
+  key: string;
+  active_version_id: number | null;
+  experiment: { variants: Array<{ versionId: number; weight: number }>; startedAt: string } | null;
+  versions: VersionStats[];
+};
+
+const pct = (v: number | null) => (v == null ? '—' : `${(v * 100).toFixed(1)}%`);
+
+/**
+ * Versions of one prompt with their outcome rates. Admins activate a version (rollback / promote)
+ * or give two or more versions a weight and start an A/B experiment.
+ */
+export default function PromptExperiments({ promptKey, onChanged }: { promptKey: string; onChanged?: () => void }) {
+  const [stats, setStats] = useState<PromptStats | null>(null);
+  const [weights, setWeights] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const res = await adminApi.get<PromptStats>(`/admin/prompts/${encodeURIComponent(promptKey)}/stats`);
+      setStats(res.data);
+      const w: Record<number, string> = {};
+      for (const v of res.data?.versions ?? []) w[v.id] = v.weight != null ? String(v.weight) : '';
+      setWeights(w);
+      setError(null);
+    } catch (err) {
+      const e = err as any;
+      setError(e?.response?.data?.message ?? 'Failed to load versions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [promptKey]);
+
+  async function run(action: () => PromiseLike<any>) {
+    setBusy(true);
+    try {
+      await action();
+      await load();
+      if (onChanged) onChanged();
+    } catch (err) {
+      const e = err as any;
+      setError(e?.response?.data?.message ?? e?.message ?? 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const base = `/admin/prompts/${encodeURIComponent(promptKey)}`;
+  const activate = (id: number) => run(() => adminApi.post(`${base}/versions/${id}/activate`));
+  const stopExperiment = () => run(() => adminApi.delete(`${base}/experiment`));
+  const startExperiment = () => {
+    const variants = Object.entries(weights)
+      .filter(([, w]) => Number(w) > 0)
+      .map(([id, w]) => ({ versionId: Number(id), weight: Number(w) }));
+    return run(() => adminApi.put(`${base}/experiment`, { variants }));
+  };
+
+  if (loading && !stats) return <CircularProgress size={20} />;
+
+  return (
+    <Box sx={{ mt: 1 }}>
+      {error && <Alert severity="error" sx={{ mb: 1 }}>{error}</Alert>}
+      {stats?.experiment && (
+        <Alert severity="info" sx={{ mb: 1 }}>
+          Experiment running since {new Date(stats.experiment.startedAt).toLocaleString()} — each student keeps the variant they were assigned.
+        </Alert>
+      )}
+
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Version</TableCell>
+            <TableCell>Settings</TableCell>
+            <TableCell align="right">Uses</TableCell>
+            <TableCell align="right">Validation failures</TableCell>
+            <TableCell align="right">Duplicates</TableCell>
+            <TableCell align="right">Reported</TableCell>
+            <TableCell>Weight</TableCell>
+            <TableCell />
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {(stats?.versions ?? []).map((v) => (
+            <TableRow key={v.id}>
+              <TableCell>
+                v{v.version} {v.active && <Chip size="small" color="primary" label="active" sx={{ ml: 0.5 }} />}
+                <Typography variant="caption" color="text.secondary" display="block">
+                  {v.note || ''} {v.created_by ? `· ${v.created_by}` : ''}
+                </Typography>
+              </TableCell>
+              <TableCell>
+                <Typography variant="caption">
+                  {v.model || 'default model'} · t={v.temperature ?? '—'} · max {v.max_tokens ?? '—'}
+                </Typography>
+              </TableCell>
+              <TableCell align="right">{v.uses}</TableCell>
+              <TableCell align="right">{pct(v.validation_failure_rate)}</TableCell>
+              <TableCell align="right">{pct(v.duplicate_rate)}</TableCell>
+              <TableCell align="right" title={`${v.reported} of ${v.generated} generated questions`}>{pct(v.report_rate)}</TableCell>
+              <TableCell sx={{ width: 90 }}>
+                <TextField
+                  size="small"
+                  type="number"
+                  value={weights[v.id] ?? ''}
+                  onChange={(e) => setWeights({ ...weights, [v.id]: e.target.value })}
+                  inputProps={{ min: 0, step: 1 }}
+                />
+              </TableCell>
+              <TableCell>
+                <Button size="small" disabled={busy || v.active} onClick={() => activate(v.id)}>Activate</Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end', mt: 1 }}>
+        <Button size="small" onClick={load} disabled={busy}>Refresh</Button>
+        {stats?.experiment && (
+          <Button size="small" color="warning" onClick={stopExperiment} disabled={busy}>Stop experiment</Button>
+        )}
+        <Button size="small" variant="outlined" onClick={startExperiment} disabled={busy}>
+          {stats?.experiment ? 'Update weights' : 'Start experiment'}
+        </Button>
+      </Box>
+    </Box>
+  );
+}
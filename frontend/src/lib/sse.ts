@@ -0,0 +1,66 @@
+/**
+ * Minimal Server-Sent Events reader over fetch. EventSource can't send an Authorization
+ * header (our JWT is header-only), so streams are read from the response body instead.
+ * Each `event:` / JSON `data:` block is handed to onEvent; resolves when the stream ends.
+ */
+export type SseHandler = (event: string, data: any) => void;
+
+export async function readSseStream(
+  url: string,
+  init: { method?: 'GET' | 'POST'; headers?: Record<string, any>; body?: any; signal?: AbortSignal },
+  onEvent: SseHandler,
+): Promise<void> {
+  const res = await fetch(url, {
+    method: init.method ?? 'GET',
+    headers: {
+      Accept: 'text/event-stream',
+      ...(init.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...(init.headers ?? {}),
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+    signal: init.signal,
+  });
+
+  if (!res.ok || !res.body) {
+    let message = `Request failed (${res.status})`;
+    try {
+      const data = await res.json();
+      message = data?.message ?? message;
+    } catch {}
+    throw new Error(message);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+    }
+    if (!dataLines.length) return; // comment / heartbeat
+    const raw = dataLines.join('\n');
+    let data: any = raw;
+    try {
+      data = JSON.parse(raw);
+    } catch {}
+    onEvent(event, data);
+  };
+
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+    let sep = buffer.indexOf('\n\n');
+    while (sep >= 0) {
+      dispatch(buffer.slice(0, sep));
+      buffer = buffer.slice(sep + 2);
+      sep = buffer.indexOf('\n\n');
+    }
+  }
+  if (buffer.trim()) dispatch(buffer);
+}
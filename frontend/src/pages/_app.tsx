@@ -4,6 +4,7 @@ import { ThemeProvider, CssBaseline, Box, Alert } from "@mui/material";
 import theme from "../theme";
 import { AuthProvider } from "../context/AuthContext";
 import type { AppProps } from "next/app";
+import "katex/dist/katex.min.css";
 
 import { AnimatePresence, motion } from "framer-motion";
 import { useRouter } from "next/router";
@@ -5,6 +5,7 @@ import Features from "../components/Features";
 import Pricing from "../components/Pricing";
 import CTABanner from "../components/CTABanner";
 import ExamTrust from "../components/ExamTrust";
+import Link from "next/link";
 import layout from "../styles/Layout.module.css";
 
 // AI transparency / legal components
@@ -40,6 +41,9 @@ export default function ACTPage(): JSX.Element {
             <p>
               Pro and Tutor plans include ACT-specific modules, full practice tests, and deeper analytics so you can optimize study time and track progress.
             </p>
+            <p>
+              <Link href="/mock-exam">Take a full-length ACT mock exam</Link> with timed sections, breaks and an estimated scaled score.
+            </p>
           </section>
 
           <Pricing />
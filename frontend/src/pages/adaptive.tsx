@@ -0,0 +1,244 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  CircularProgress,
+  RadioGroup,
+  FormControlLabel,
+  Radio,
+  FormLabel,
+  Chip,
+  Alert,
+  Stack,
+  Tooltip,
+} from '@mui/material';
+import axios from 'axios';
+import Link from 'next/link';
+import { useAuth } from '../context/AuthContext';
+import MathText from '../components/MathText';
+import QuestionInput from '../components/QuestionInput';
+import { AnswerValue, QuestionType, isAnswered } from '../utils/questionTypes';
+
+interface AdaptiveQuestion {
+  question_id: string;
+  question_text: string;
+  choices: string[];
+  question_type?: QuestionType;
+  difficulty: string;
+  topic: string;
+  estimated_time_seconds?: number;
+  // false for a freshly generated question no admin has reviewed yet
+  reviewed?: boolean;
+}
+
+interface AdaptiveStats {
+  answered: number;
+  correct: number;
+  accuracy: number | null;
+}
+
+interface LastResult {
+  correct: boolean;
+  correctAnswer: string;
+  explanation: string | null;
+  previousDifficulty: string;
+}
+
+function getLocalAuthToken(): string | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const auth = JSON.parse(localStorage.getItem('auth') || 'null');
+    return auth?.token ?? null;
+  } catch {
+    return null;
+  }
+}
+
+const DIFFICULTY_COLORS: Record<string, 'success' | 'warning' | 'error' | 'default'> = {
+  beginner: 'success',
+  intermediate: 'warning',
+  advanced: 'error',
+};
+
+/**
+ * Adaptive (CAT-style) practice: one question at a time, and the server picks the next
+ * question's difficulty from running accuracy and response time.
+ */
+export default function AdaptivePracticePage(): JSX.Element {
+  const { user } = useAuth() as any;
+  const topics = ['Algebra', 'Geometry', 'Logic', 'Calculus', 'Statistics', 'Indices'];
+
+  const [topic, setTopic] = useState<string>('');
+  const [sessionId, setSessionId] = useState<number | null>(null);
+  const [question, setQuestion] = useState<AdaptiveQuestion | null>(null);
+  const [selected, setSelected] = useState<AnswerValue>('');
+  const [stats, setStats] = useState<AdaptiveStats | null>(null);
+  const [lastResult, setLastResult] = useState<LastResult | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [finished, setFinished] = useState<boolean>(false);
+
+  // response time for the question on screen
+  const shownAtRef = useRef<number>(Date.now());
+  useEffect(() => {
+    shownAtRef.current = Date.now();
+  }, [question?.question_id]);
+
+  const authHeaders = () => {
+    const token = user?.token || getLocalAuthToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  };
+
+  const handleStart = async () => {
+    setBusy(true);
+    setError(null);
+    setFinished(false);
+    setLastResult(null);
+    try {
+      const res = await axios.post<any>(`${process.env.NEXT_PUBLIC_API_URL}/ai/adaptive/start`, { topic }, { headers: authHeaders(), timeout: 60000 });
+      setSessionId(res.data?.sessionId ?? null);
+      setQuestion(res.data?.question ?? null);
+      setStats(res.data?.stats ?? null);
+      setSelected('');
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Could not start an adaptive session. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAnswer = async () => {
+    if (!sessionId || !question || !isAnswered(selected)) return;
+    setBusy(true);
+    setError(null);
+    const timeSeconds = Math.round((Date.now() - shownAtRef.current) / 1000);
+    try {
+      const res = await axios.post<any>(
+        `${process.env.NEXT_PUBLIC_API_URL}/ai/adaptive/${sessionId}/answer`,
+        { questionId: question.question_id, answer: selected, timeSeconds },
+        { headers: authHeaders(), timeout: 60000 },
+      );
+      setLastResult({
+        correct: !!res.data?.correct,
+        correctAnswer: String(res.data?.correctAnswer ?? ''),
+        explanation: res.data?.explanation ?? null,
+        previousDifficulty: question.difficulty,
+      });
+      setQuestion(res.data?.question ?? null);
+      setStats(res.data?.stats ?? null);
+      setSelected('');
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Could not submit your answer. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFinish = async () => {
+    if (!sessionId) return;
+    setBusy(true);
+    try {
+      const res = await axios.post<any>(`${process.env.NEXT_PUBLIC_API_URL}/ai/adaptive/${sessionId}/finish`, {}, { headers: authHeaders(), timeout: 30000 });
+      setStats(res.data?.stats ?? stats);
+    } catch (err) {
+      console.error('adaptive finish failed', err);
+    } finally {
+      setFinished(true);
+      setQuestion(null);
+      setBusy(false);
+    }
+  };
+
+  if (!user && !getLocalAuthToken()) {
+    return (
+      <Typography>
+        Please <Link href="/login">login</Link>.
+      </Typography>
+    );
+  }
+
+  return (
+    <Box sx={{ maxWidth: 800, mx: 'auto', mt: 5 }}>
+      <Paper sx={{ p: 3 }}>
+        <Typography variant="h5" fontWeight="bold" mb={1}>
+          Adaptive practice
+        </Typography>
+        <Typography color="text.secondary" mb={2}>
+          Questions get harder when you answer correctly and quickly, and easier when you miss.
+        </Typography>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        {!sessionId || finished ? (
+          <>
+            {finished && stats && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                Session complete: {stats.correct} / {stats.answered} correct
+                {stats.accuracy != null ? ` (${Math.round(stats.accuracy * 100)}%)` : ''}.
+              </Alert>
+            )}
+            <FormLabel>Choose Topic</FormLabel>
+            <RadioGroup value={topic} onChange={(e) => setTopic(e.target.value)} row sx={{ mb: 2 }}>
+              {topics.map((t) => (
+                <FormControlLabel key={t} value={t} control={<Radio />} label={t} />
+              ))}
+            </RadioGroup>
+            <Button variant="contained" disabled={!topic || busy} onClick={handleStart}>
+              {busy ? <CircularProgress size={20} /> : finished ? 'Start another session' : 'Start adaptive session'}
+            </Button>
+          </>
+        ) : (
+          <>
+            <Stack direction="row" spacing={1} sx={{ mb: 2 }} alignItems="center">
+              {question && <Chip label={question.difficulty} color={DIFFICULTY_COLORS[question.difficulty] ?? 'default'} size="small" />}
+              {question?.reviewed === false && (
+                <Tooltip title="This question was just generated and has not been reviewed yet.">
+                  <Chip label="New, unreviewed" variant="outlined" size="small" />
+                </Tooltip>
+              )}
+              {stats && (
+                <Typography variant="body2" color="text.secondary">
+                  {stats.correct} / {stats.answered} correct
+                </Typography>
+              )}
+            </Stack>
+
+            {lastResult && (
+              <Alert severity={lastResult.correct ? 'success' : 'warning'} sx={{ mb: 2 }}>
+                {lastResult.correct ? 'Correct!' : <>Not quite — the answer was <MathText text={lastResult.correctAnswer} />.</>}
+                {lastResult.explanation ? <> <MathText text={lastResult.explanation} /></> : ''}
+                {question && question.difficulty !== lastResult.previousDifficulty ? ` Next question: ${question.difficulty}.` : ''}
+              </Alert>
+            )}
+
+            {question ? (
+              <Box sx={{ mb: 2 }}>
+                <Typography variant="h6" mb={1}>
+                  <MathText text={question.question_text} />
+                </Typography>
+                <QuestionInput
+                  question={{ type: question.question_type, options: question.choices }}
+                  value={selected}
+                  onChange={setSelected}
+                />
+              </Box>
+            ) : (
+              <CircularProgress />
+            )}
+
+            <Stack direction="row" spacing={2}>
+              <Button variant="contained" disabled={!isAnswered(selected) || busy} onClick={handleAnswer}>
+                {busy ? <CircularProgress size={20} /> : 'Submit answer'}
+              </Button>
+              <Button variant="outlined" disabled={busy} onClick={handleFinish}>
+                Finish session
+              </Button>
+            </Stack>
+          </>
+        )}
+      </Paper>
+    </Box>
+  );
+}
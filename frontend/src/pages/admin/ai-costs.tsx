@@ -0,0 +1,315 @@
+import React, { useEffect, useState } from 'react';
+import AdminLayout from '../../components/admin/AdminLayout';
+import {
+  Box,
+  Typography,
+  Paper,
+  TextField,
+  Button,
+  Chip,
+  Stack,
+  Grid,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Alert,
+} from '@mui/material';
+import adminApi from '../../lib/adminApi';
+
+type CostRow = { calls: number; totalTokens: number; costUsd: number };
+
+type CostSummary = {
+  from: string;
+  to: string;
+  totals: CostRow & { users: number };
+  byDay: Array<CostRow & { day: string }>;
+  byPlan: Array<CostRow & { plan: string }>;
+  byFeature: Array<CostRow & { feature: string }>;
+  topUsers: Array<CostRow & { userId: number; email?: string | null; plan: string; capUsd: number | null }>;
+};
+
+type PlanBudget = { plan: string; monthlyUsd: number | null; isDefault: boolean; defaultUsd: number | null };
+type UserBudget = { userId: number; monthlyUsd: number | null; updatedBy?: string | null };
+type BudgetList = { plans: PlanBudget[]; users: UserBudget[] };
+
+const usd = (n: number | null | undefined, digits = 2) => (n == null ? 'Unlimited' : `$${Number(n).toFixed(digits)}`);
+
+// '' in a cap field means unlimited
+const parseCap = (v: string): number | null => (v.trim() === '' ? null : Number(v));
+
+/**
+ * AI spend per day, plan, feature and user (from the ai_cost_daily rollup) plus the monthly
+ * budget caps that pause AI features for users who go over.
+ */
+export default function AdminAiCostsPage() {
+  const [from, setFrom] = useState<string>('');
+  const [to, setTo] = useState<string>('');
+  const [summary, setSummary] = useState<CostSummary | null>(null);
+  const [budgets, setBudgets] = useState<BudgetList | null>(null);
+  const [planDrafts, setPlanDrafts] = useState<Record<string, string>>({});
+  const [newUserId, setNewUserId] = useState<string>('');
+  const [newUserCap, setNewUserCap] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSummary();
+    fetchBudgets();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function fetchSummary() {
+    setLoading(true);
+    setError(null);
+    try {
+      const params: any = { _t: Date.now() };
+      if (from) params.from = from;
+      if (to) params.to = to;
+      const res = await adminApi.get<CostSummary>('/admin/ai-costs/summary', { params });
+      setSummary(res.data);
+      if (!from) setFrom(res.data?.from ?? '');
+      if (!to) setTo(res.data?.to ?? '');
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Failed to load AI costs');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function applyBudgets(data: BudgetList) {
+    setBudgets(data);
+    const drafts: Record<string, string> = {};
+    for (const p of data?.plans ?? []) drafts[p.plan] = p.monthlyUsd == null ? '' : String(p.monthlyUsd);
+    setPlanDrafts(drafts);
+  }
+
+  async function fetchBudgets() {
+    try {
+      const res = await adminApi.get<BudgetList>('/admin/ai-costs/budgets', { params: { _t: Date.now() } });
+      applyBudgets(res.data);
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Failed to load budget caps');
+    }
+  }
+
+  async function saveCap(scope: 'plan' | 'user', key: string | number, value: string) {
+    const monthlyUsd = parseCap(value);
+    if (monthlyUsd !== null && (!Number.isFinite(monthlyUsd) || monthlyUsd < 0)) {
+      setError('Cap must be a non-negative amount, or empty for unlimited.');
+      return;
+    }
+    setError(null);
+    try {
+      const res = await adminApi.put<BudgetList>(`/admin/ai-costs/budgets/${scope}/${key}`, { monthlyUsd });
+      applyBudgets(res.data);
+      setNotice(`${scope === 'plan' ? `Plan ${key}` : `User #${key}`} cap set to ${usd(monthlyUsd)}.`);
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Failed to save cap');
+    }
+  }
+
+  async function clearCap(scope: 'plan' | 'user', key: string | number) {
+    setError(null);
+    try {
+      const res = await adminApi.delete<BudgetList>(`/admin/ai-costs/budgets/${scope}/${key}`);
+      applyBudgets(res.data);
+      setNotice(scope === 'plan' ? `Plan ${key} is back on the default cap.` : `User #${key} now follows their plan cap.`);
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Failed to clear cap');
+    }
+  }
+
+  const maxDayCost = Math.max(0, ...(summary?.byDay ?? []).map((d) => d.costUsd));
+
+  return (
+    <AdminLayout title="AI Costs">
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={2} flexWrap="wrap" gap={1}>
+          <Typography variant="h5">AI Costs</Typography>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <TextField size="small" type="date" label="From" value={from} onChange={(e) => setFrom(e.target.value)} InputLabelProps={{ shrink: true }} />
+            <TextField size="small" type="date" label="To" value={to} onChange={(e) => setTo(e.target.value)} InputLabelProps={{ shrink: true }} />
+            <Button variant="outlined" onClick={fetchSummary} disabled={loading}>
+              Refresh
+            </Button>
+          </Stack>
+        </Box>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+        {notice && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setNotice(null)}>{notice}</Alert>}
+        {loading && <Typography>Loading...</Typography>}
+
+        {summary && (
+          <>
+            <Grid container spacing={2} mb={3}>
+              {[
+                { label: 'Spend', value: usd(summary.totals.costUsd, 4) },
+                { label: 'Tokens', value: summary.totals.totalTokens.toLocaleString() },
+                { label: 'AI calls', value: summary.totals.calls.toLocaleString() },
+                { label: 'Users', value: String(summary.totals.users) },
+              ].map((card) => (
+                <Grid item xs={6} md={3} key={card.label}>
+                  <Paper variant="outlined" sx={{ p: 2 }}>
+                    <Typography variant="body2" color="text.secondary">{card.label}</Typography>
+                    <Typography variant="h6">{card.value}</Typography>
+                  </Paper>
+                </Grid>
+              ))}
+            </Grid>
+
+            <Grid container spacing={3}>
+              <Grid item xs={12} md={6}>
+                <Typography variant="h6" mb={1}>By plan</Typography>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Plan</TableCell>
+                      <TableCell align="right">Calls</TableCell>
+                      <TableCell align="right">Tokens</TableCell>
+                      <TableCell align="right">Cost</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {summary.byPlan.map((r) => (
+                      <TableRow key={r.plan}>
+                        <TableCell>{r.plan}</TableCell>
+                        <TableCell align="right">{r.calls}</TableCell>
+                        <TableCell align="right">{r.totalTokens.toLocaleString()}</TableCell>
+                        <TableCell align="right">{usd(r.costUsd, 4)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Grid>
+              <Grid item xs={12} md={6}>
+                <Typography variant="h6" mb={1}>By feature</Typography>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Feature</TableCell>
+                      <TableCell align="right">Calls</TableCell>
+                      <TableCell align="right">Tokens</TableCell>
+                      <TableCell align="right">Cost</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {summary.byFeature.map((r) => (
+                      <TableRow key={r.feature}>
+                        <TableCell>{r.feature}</TableCell>
+                        <TableCell align="right">{r.calls}</TableCell>
+                        <TableCell align="right">{r.totalTokens.toLocaleString()}</TableCell>
+                        <TableCell align="right">{usd(r.costUsd, 4)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Grid>
+            </Grid>
+
+            <Typography variant="h6" mt={3} mb={1}>Per day</Typography>
+            {summary.byDay.length === 0 && <Typography color="text.secondary">No AI usage in this range.</Typography>}
+            {summary.byDay.map((d) => (
+              <Stack key={d.day} direction="row" spacing={1} alignItems="center" sx={{ mb: 0.5 }}>
+                <Typography variant="body2" sx={{ width: 96 }}>{d.day}</Typography>
+                <Box sx={{ flex: 1 }}>
+                  <Box sx={{ height: 12, bgcolor: 'primary.main', borderRadius: 1, width: `${maxDayCost ? Math.max(1, (d.costUsd / maxDayCost) * 100) : 0}%` }} />
+                </Box>
+                <Typography variant="body2" sx={{ width: 160, textAlign: 'right' }}>
+                  {usd(d.costUsd, 4)} • {d.totalTokens.toLocaleString()} tok
+                </Typography>
+              </Stack>
+            ))}
+
+            <Typography variant="h6" mt={3} mb={1}>Top users</Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>User</TableCell>
+                  <TableCell>Plan</TableCell>
+                  <TableCell align="right">Calls</TableCell>
+                  <TableCell align="right">Tokens</TableCell>
+                  <TableCell align="right">Cost</TableCell>
+                  <TableCell align="right">Monthly cap</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {summary.topUsers.map((u) => (
+                  <TableRow key={u.userId}>
+                    <TableCell>{u.email ?? `#${u.userId}`}</TableCell>
+                    <TableCell>{u.plan}</TableCell>
+                    <TableCell align="right">{u.calls}</TableCell>
+                    <TableCell align="right">{u.totalTokens.toLocaleString()}</TableCell>
+                    <TableCell align="right">{usd(u.costUsd, 4)}</TableCell>
+                    <TableCell align="right">
+                      {u.capUsd != null && u.costUsd >= u.capUsd ? <Chip size="small" color="error" label={`Paused (${usd(u.capUsd)})`} /> : usd(u.capUsd)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Typography variant="body2" color="text.secondary" mt={1}>
+              Caps apply to the current calendar month; the cost column covers the selected range.
+            </Typography>
+          </>
+        )}
+      </Paper>
+
+      <Paper sx={{ p: 3 }}>
+        <Typography variant="h5" mb={1}>Monthly budget caps</Typography>
+        <Typography color="text.secondary" mb={2}>
+          Once a user&apos;s AI spend this month reaches their cap, test generation, explanations and the tutor pause until next month.
+          Leave a cap empty for unlimited. A user cap overrides their plan&apos;s cap.
+        </Typography>
+
+        {budgets?.plans.map((p) => (
+          <Stack key={p.plan} direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+            <Typography sx={{ width: 80, textTransform: 'capitalize' }}>{p.plan}</Typography>
+            <TextField
+              size="small"
+              type="number"
+              label="USD / month"
+              value={planDrafts[p.plan] ?? ''}
+              onChange={(e) => setPlanDrafts((d) => ({ ...d, [p.plan]: e.target.value }))}
+              inputProps={{ min: 0, step: 0.5 }}
+            />
+            <Button variant="contained" onClick={() => saveCap('plan', p.plan, planDrafts[p.plan] ?? '')}>Save</Button>
+            {p.isDefault ? (
+              <Chip size="small" label="default" />
+            ) : (
+              <Button onClick={() => clearCap('plan', p.plan)}>Reset to default ({usd(p.defaultUsd)})</Button>
+            )}
+          </Stack>
+        ))}
+
+        <Typography variant="h6" mt={3} mb={1}>Per-user overrides</Typography>
+        {budgets && budgets.users.length === 0 && <Typography color="text.secondary" mb={1}>No user overrides.</Typography>}
+        {budgets?.users.map((u) => (
+          <Stack key={u.userId} direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+            <Typography sx={{ width: 120 }}>User #{u.userId}</Typography>
+            <Typography sx={{ width: 120 }}>{usd(u.monthlyUsd)}</Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>{u.updatedBy ? `set by ${u.updatedBy}` : ''}</Typography>
+            <Button color="error" onClick={() => clearCap('user', u.userId)}>Remove</Button>
+          </Stack>
+        ))}
+        <Stack direction="row" spacing={1} alignItems="center" mt={1}>
+          <TextField size="small" label="User ID" value={newUserId} onChange={(e) => setNewUserId(e.target.value)} />
+          <TextField size="small" type="number" label="USD / month" value={newUserCap} onChange={(e) => setNewUserCap(e.target.value)} inputProps={{ min: 0, step: 0.5 }} />
+          <Button
+            variant="outlined"
+            disabled={!Number(newUserId)}
+            onClick={async () => {
+              await saveCap('user', Number(newUserId), newUserCap);
+              setNewUserId('');
+              setNewUserCap('');
+            }}
+          >
+            Add override
+          </Button>
+        </Stack>
+      </Paper>
+    </AdminLayout>
+  );
+}
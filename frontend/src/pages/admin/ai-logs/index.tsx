@@ -8,6 +8,9 @@ type AiLogSummary = {
   prompt: string;
   model?: string;
   success?: boolean;
+  feature?: string | null;
+  totalTokens?: number | null;
+  costUsd?: string | number | null;
   createdAt?: string;
 };
 
@@ -106,7 +109,7 @@ export default function AiLogsPage() {
               <ListItem key={l.id} divider>
                 <ListItemText
                   primary={l.prompt.length > 120 ? `${l.prompt.slice(0, 120)}…` : l.prompt}
-                  secondary={`${l.model || 'N/A'} • ${l.success ? 'Success' : 'Failure'} • ${l.createdAt || ''}`}
+                  secondary={`${l.model || 'N/A'}${l.feature ? ` • ${l.feature}` : ''} • ${l.success ? 'Success' : 'Failure'}${l.totalTokens != null ? ` • ${l.totalTokens} tokens ($${Number(l.costUsd ?? 0).toFixed(4)})` : ''} • ${l.createdAt || ''}`}
                 />
                 <Button href={`/admin/ai-logs/${l.id}`} variant="text">
                   View
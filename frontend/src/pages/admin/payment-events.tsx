@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import AdminLayout from '../../components/admin/AdminLayout';
+import {
+  Box,
+  Typography,
+  Paper,
+  TextField,
+  MenuItem,
+  Button,
+  Chip,
+  Stack,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import adminApi from '../../lib/adminApi';
+
+type PaymentEventStatus = 'received' | 'processed' | 'ignored' | 'failed';
+
+type PaymentEvent = {
+  id: number;
+  eventId: string;
+  eventType: string;
+  resourceId: string | null;
+  status: PaymentEventStatus;
+  attempts: number;
+  lastError: string | null;
+  receivedAt: string;
+  processedAt: string | null;
+  transmissionId?: string | null;
+  payload?: any;
+};
+
+const STATUS_COLOR: Record<PaymentEventStatus, 'default' | 'success' | 'warning' | 'error'> = {
+  received: 'warning',
+  processed: 'success',
+  ignored: 'default',
+  failed: 'error',
+};
+
+const when = (v: string | null) => (v ? new Date(v).toLocaleString() : '—');
+
+/**
+ * PayPal webhook ledger: every verified event with its processing outcome. Failed events
+ * keep their payload and can be re-run here.
+ */
+export default function AdminPaymentEventsPage() {
+  const [events, setEvents] = useState<PaymentEvent[]>([]);
+  const [status, setStatus] = useState<string>('failed');
+  const [type, setType] = useState<string>('');
+  const [selected, setSelected] = useState<PaymentEvent | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchEvents();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status]);
+
+  async function fetchEvents() {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await adminApi.get<PaymentEvent[]>('/admin/payment-events', {
+        params: { status: status || undefined, type: type.trim() || undefined, _t: Date.now() },
+      });
+      setEvents(res.data ?? []);
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Failed to load payment events');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function openEvent(id: number) {
+    try {
+      const res = await adminApi.get<PaymentEvent>(`/admin/payment-events/${id}`);
+      setSelected(res.data);
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Failed to load event');
+    }
+  }
+
+  async function retry(id: number) {
+    setError(null);
+    try {
+      const res = await adminApi.post<PaymentEvent>(`/admin/payment-events/${id}/retry`);
+      setNotice(`Event ${res.data.eventId} re-run: ${res.data.status}${res.data.lastError ? ` (${res.data.lastError})` : ''}`);
+      setEvents((list) => list.map((e) => (e.id === id ? res.data : e)));
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Retry failed');
+    }
+  }
+
+  return (
+    <AdminLayout title="Payment Events">
+      <Paper sx={{ p: 3 }}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+          <Typography variant="h5">Payment events</Typography>
+          <Button variant="outlined" onClick={fetchEvents} disabled={loading}>
+            Refresh
+          </Button>
+        </Box>
+        <Typography color="text.secondary" mb={2}>
+          Verified PayPal webhooks, one row per event id. Redeliveries of the same event are dropped.
+        </Typography>
+
+        <Stack direction="row" spacing={1} mb={2}>
+          <TextField select size="small" label="Status" value={status} onChange={(e) => setStatus(e.target.value)} sx={{ minWidth: 160 }}>
+            <MenuItem value="">All</MenuItem>
+            <MenuItem value="failed">Failed</MenuItem>
+            <MenuItem value="received">Received</MenuItem>
+            <MenuItem value="ignored">Ignored</MenuItem>
+            <MenuItem value="processed">Processed</MenuItem>
+          </TextField>
+          <TextField
+            size="small"
+            label="Event type"
+            placeholder="PAYMENT.CAPTURE.COMPLETED"
+            value={type}
+            onChange={(e) => setType(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && fetchEvents()}
+          />
+        </Stack>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+        {notice && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setNotice(null)}>{notice}</Alert>}
+        {loading && <Typography>Loading...</Typography>}
+
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Received</TableCell>
+              <TableCell>Type</TableCell>
+              <TableCell>Event / resource</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell align="right">Attempts</TableCell>
+              <TableCell>Last error</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {events.map((e) => (
+              <TableRow key={e.id} hover>
+                <TableCell>{when(e.receivedAt)}</TableCell>
+                <TableCell>{e.eventType}</TableCell>
+                <TableCell>
+                  <Typography variant="body2">{e.eventId}</Typography>
+                  <Typography variant="caption" color="text.secondary">{e.resourceId ?? '—'}</Typography>
+                </TableCell>
+                <TableCell>
+                  <Chip size="small" label={e.status} color={STATUS_COLOR[e.status] ?? 'default'} />
+                </TableCell>
+                <TableCell align="right">{e.attempts}</TableCell>
+                <TableCell sx={{ maxWidth: 280, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{e.lastError ?? ''}</TableCell>
+                <TableCell align="right">
+                  <Stack direction="row" spacing={1} justifyContent="flex-end">
+                    <Button size="small" onClick={() => openEvent(e.id)}>View</Button>
+                    {e.status !== 'processed' && (
+                      <Button size="small" variant="contained" onClick={() => retry(e.id)}>Retry</Button>
+                    )}
+                  </Stack>
+                </TableCell>
+              </TableRow>
+            ))}
+            {!loading && events.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7}>
+                  <Typography color="text.secondary">No events.</Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </Paper>
+
+      <Dialog open={!!selected} onClose={() => setSelected(null)} maxWidth="md" fullWidth>
+        <DialogTitle>{selected?.eventType}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" mb={1}>
+            {selected?.eventId} · transmission {selected?.transmissionId ?? '—'} · processed {when(selected?.processedAt ?? null)}
+          </Typography>
+          <Box component="pre" sx={{ fontSize: 12, bgcolor: 'grey.100', p: 2, overflow: 'auto', maxHeight: 480 }}>
+            {JSON.stringify(selected?.payload ?? {}, null, 2)}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSelected(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from 'react';
+import AdminLayout from '../../components/admin/AdminLayout';
+import {
+  Box,
+  Typography,
+  Paper,
+  TextField,
+  MenuItem,
+  Button,
+  Chip,
+  Stack,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import adminApi from '../../lib/adminApi';
+
+type AdminPayment = {
+  id: number;
+  user_id: number | null;
+  plan: string | null;
+  billing_period: string | null;
+  amount: string;
+  refunded_amount: string;
+  refundable_amount: string;
+  currency: string;
+  status: string;
+  paypal_capture_id: string | null;
+  payer_email: string | null;
+  created_at: string;
+};
+
+type Refund = {
+  id: number;
+  paypal_refund_id: string;
+  amount: string;
+  currency: string;
+  status: string;
+  reason: string | null;
+  initiated_by: string | null;
+  date: string;
+};
+
+/**
+ * Payments with PayPal refunds. Leaving the amount empty refunds everything not yet refunded;
+ * the backend shortens or ends the user's plan to match.
+ */
+export default function AdminPaymentsPage() {
+  const [payments, setPayments] = useState<AdminPayment[]>([]);
+  const [status, setStatus] = useState<string>('completed,partially_refunded,refunded');
+  const [q, setQ] = useState<string>('');
+  const [selected, setSelected] = useState<AdminPayment | null>(null);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [amount, setAmount] = useState<string>('');
+  const [reason, setReason] = useState<string>('');
+  const [busy, setBusy] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPayments();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status]);
+
+  async function fetchPayments() {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await adminApi.get<AdminPayment[]>('/admin/payments', {
+        params: { status: status || undefined, q: q.trim() || undefined, _t: Date.now() },
+      });
+      setPayments(res.data ?? []);
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Failed to load payments');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function openRefund(p: AdminPayment) {
+    setSelected(p);
+    setAmount('');
+    setReason('');
+    setRefunds([]);
+    try {
+      const res = await adminApi.get<Refund[]>(`/admin/payments/${p.id}/refunds`);
+      setRefunds(res.data ?? []);
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Failed to load refunds');
+    }
+  }
+
+  async function submitRefund() {
+    if (!selected) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await adminApi.post<{ payment: AdminPayment; refund: Refund }>(`/admin/payments/${selected.id}/refunds`, {
+        amount: amount.trim() === '' ? null : amount.trim(),
+        reason: reason.trim() || null,
+      });
+      const { payment, refund } = res.data;
+      setPayments((list) => list.map((p) => (p.id === payment.id ? payment : p)));
+      setNotice(`Refund ${refund.paypal_refund_id}: ${refund.amount} ${refund.currency} (${refund.status})`);
+      setSelected(null);
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Refund failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <AdminLayout title="Payments">
+      <Paper sx={{ p: 3 }}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+          <Typography variant="h5">Payments</Typography>
+          <Button variant="outlined" onClick={fetchPayments} disabled={loading}>
+            Refresh
+          </Button>
+        </Box>
+        <Typography color="text.secondary" mb={2}>
+          Refunds go through PayPal. A refund shortens the user&apos;s plan by the refunded share of the billing period; a full refund of the current period moves them to Free.
+        </Typography>
+
+        <Stack direction="row" spacing={1} mb={2}>
+          <TextField select size="small" label="Status" value={status} onChange={(e) => setStatus(e.target.value)} sx={{ minWidth: 200 }}>
+            <MenuItem value="completed,partially_refunded,refunded">Paid &amp; refunded</MenuItem>
+            <MenuItem value="completed">Completed</MenuItem>
+            <MenuItem value="partially_refunded">Partially refunded</MenuItem>
+            <MenuItem value="refunded">Refunded</MenuItem>
+            <MenuItem value="">All</MenuItem>
+          </TextField>
+          <TextField
+            size="small"
+            label="Payer email or PayPal id"
+            value={q}
+            onChange={(e) => setQ(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && fetchPayments()}
+            sx={{ minWidth: 280 }}
+          />
+        </Stack>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+        {notice && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setNotice(null)}>{notice}</Alert>}
+        {loading && <Typography>Loading...</Typography>}
+
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Date</TableCell>
+              <TableCell>User</TableCell>
+              <TableCell>Plan</TableCell>
+              <TableCell align="right">Amount</TableCell>
+              <TableCell align="right">Refunded</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {payments.map((p) => (
+              <TableRow key={p.id} hover>
+                <TableCell>{new Date(p.created_at).toLocaleString()}</TableCell>
+                <TableCell>
+                  <Typography variant="body2">{p.payer_email ?? '—'}</Typography>
+                  <Typography variant="caption" color="text.secondary">user {p.user_id ?? '—'}</Typography>
+                </TableCell>
+                <TableCell>{p.plan ?? '—'} {p.billing_period ? `(${p.billing_period})` : ''}</TableCell>
+                <TableCell align="right">{p.amount} {p.currency}</TableCell>
+                <TableCell align="right">{Number(p.refunded_amount) > 0 ? `${p.refunded_amount} ${p.currency}` : '—'}</TableCell>
+                <TableCell>
+                  <Chip size="small" label={p.status} color={p.status === 'completed' ? 'success' : p.status.includes('refunded') ? 'info' : 'default'} />
+                </TableCell>
+                <TableCell align="right">
+                  <Button size="small" variant="outlined" disabled={Number(p.refundable_amount) <= 0} onClick={() => openRefund(p)}>
+                    Refund
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {!loading && payments.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7}>
+                  <Typography color="text.secondary">No payments.</Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </Paper>
+
+      <Dialog open={!!selected} onClose={() => setSelected(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Refund payment #{selected?.id}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" mb={2}>
+            Paid {selected?.amount} {selected?.currency}, refundable {selected?.refundable_amount} {selected?.currency}.
+          </Typography>
+          {refunds.length > 0 && (
+            <Box mb={2}>
+              <Typography variant="subtitle2">Previous refunds</Typography>
+              {refunds.map((r) => (
+                <Typography key={r.id} variant="body2" color="text.secondary">
+                  {new Date(r.date).toLocaleString()} · {r.amount} {r.currency} · {r.status} · {r.initiated_by ?? '—'}
+                </Typography>
+              ))}
+            </Box>
+          )}
+          <Stack spacing={2}>
+            <TextField
+              size="small"
+              type="number"
+              label="Amount"
+              placeholder={`Full: ${selected?.refundable_amount ?? ''}`}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              inputProps={{ min: 0.01, step: 0.01 }}
+            />
+            <TextField size="small" label="Reason (shown to the payer)" value={reason} onChange={(e) => setReason(e.target.value)} />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSelected(null)}>Cancel</Button>
+          <Button variant="contained" color="error" onClick={submitRefund} disabled={busy}>
+            {amount.trim() === '' ? 'Refund in full' : `Refund ${amount}`}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import AdminLayout from '../../components/admin/AdminLayout';
+import { Box, Typography, Paper, TextField, Button, Chip, Stack, Alert, FormControlLabel, Switch } from '@mui/material';
+import adminApi from '../../lib/adminApi';
+
+// null = unlimited, as returned by /admin/plan-policy
+type Limits = {
+  testsPerDay: number | null;
+  questionCount: number;
+  attemptsPerTest: number | null;
+  explanationsPerMonth: number | null;
+  explanationsSoftLimit: boolean;
+  hintsPerMonth: number | null;
+  timeLimitPerTest: number | 'none';
+  features: string[];
+};
+
+type PlanPolicy = {
+  plan: string;
+  // settings.limits.enforcePlanLimits: overrides are ignored (code defaults apply) while off
+  enforced: boolean;
+  defaults: Limits;
+  overrides: Record<string, any>;
+  // defaults with the overrides applied, whether enforced or not
+  configured: Limits;
+  effective: Limits;
+};
+
+type Draft = {
+  testsPerDay: string;
+  questionCountMax: string;
+  attemptsPerTest: string;
+  explanationsPerMonth: string;
+  hintsPerMonth: string;
+  timeLimitMinutes: string;
+};
+
+const FIELDS: Array<{ key: keyof Draft; label: string; unlimited: boolean }> = [
+  { key: 'testsPerDay', label: 'Tests / day', unlimited: true },
+  { key: 'questionCountMax', label: 'Questions / test', unlimited: false },
+  { key: 'attemptsPerTest', label: 'Attempts / test', unlimited: true },
+  { key: 'explanationsPerMonth', label: 'Explanations / month', unlimited: true },
+  { key: 'hintsPerMonth', label: 'Hints / month', unlimited: true },
+  { key: 'timeLimitMinutes', label: 'Time limit (min)', unlimited: true },
+];
+
+const show = (n: number | null) => (n == null ? '' : String(n));
+
+function toDraft(l: Limits): Draft {
+  return {
+    testsPerDay: show(l.testsPerDay),
+    questionCountMax: String(l.questionCount),
+    attemptsPerTest: show(l.attemptsPerTest),
+    explanationsPerMonth: show(l.explanationsPerMonth),
+    hintsPerMonth: show(l.hintsPerMonth),
+    timeLimitMinutes: l.timeLimitPerTest === 'none' ? '' : String(Math.round(l.timeLimitPerTest / 60)),
+  };
+}
+
+// '' or 0 = unlimited (or no time limit)
+function toPayload(d: Draft) {
+  const n = (v: string) => (v.trim() === '' ? null : Number(v));
+  return {
+    testsPerDay: n(d.testsPerDay),
+    questionCountMax: Number(d.questionCountMax),
+    attemptsPerTest: n(d.attemptsPerTest),
+    explanationsPerMonth: n(d.explanationsPerMonth),
+    hintsPerMonth: n(d.hintsPerMonth),
+    timeLimitPerTest: d.timeLimitMinutes.trim() === '' ? 'none' : Number(d.timeLimitMinutes) * 60,
+  };
+}
+
+/**
+ * Plan limits enforced by the backend policy engine. Each plan starts from the code defaults;
+ * saving stores an override in settings, reset drops it. Overrides only apply while
+ * "Enforce custom limits" (settings.limits.enforcePlanLimits) is on.
+ */
+export default function AdminPlansPage() {
+  const [plans, setPlans] = useState<PlanPolicy[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPlans();
+  }, []);
+
+  function applyPlans(data: PlanPolicy[]) {
+    setPlans(data ?? []);
+    const next: Record<string, Draft> = {};
+    for (const p of data ?? []) next[p.plan] = toDraft(p.configured ?? p.effective);
+    setDrafts(next);
+  }
+
+  async function fetchPlans() {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await adminApi.get<PlanPolicy[]>('/admin/plan-policy', { params: { _t: Date.now() } });
+      applyPlans(res.data);
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Failed to load plan limits');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function save(plan: string) {
+    setError(null);
+    try {
+      const res = await adminApi.put<PlanPolicy[]>(`/admin/plan-policy/${plan}`, toPayload(drafts[plan]));
+      applyPlans(res.data);
+      setNotice(`${plan} limits saved.`);
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Failed to save limits');
+    }
+  }
+
+  async function setEnforced(enforcePlanLimits: boolean) {
+    setError(null);
+    try {
+      const res = await adminApi.put<PlanPolicy[]>('/admin/plan-policy', { enforcePlanLimits });
+      applyPlans(res.data);
+      setNotice(enforcePlanLimits ? 'Custom plan limits are now enforced.' : 'Custom plan limits are off; every plan uses its defaults.');
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Failed to update enforcement');
+    }
+  }
+
+  async function reset(plan: string) {
+    setError(null);
+    try {
+      const res = await adminApi.delete<PlanPolicy[]>(`/admin/plan-policy/${plan}`);
+      applyPlans(res.data);
+      setNotice(`${plan} is back on the default limits.`);
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Failed to reset limits');
+    }
+  }
+
+  return (
+    <AdminLayout title="Plan Limits">
+      <Paper sx={{ p: 3 }}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+          <Typography variant="h5">Plan limits</Typography>
+          <Button variant="outlined" onClick={fetchPlans} disabled={loading}>
+            Refresh
+          </Button>
+        </Box>
+        <Typography color="text.secondary" mb={2}>
+          Applied to test creation, attempts, explanations and the tutor on every request. Leave a field empty (or 0) for unlimited.
+        </Typography>
+        {plans.length > 0 && (
+          <FormControlLabel
+            sx={{ mb: 2 }}
+            control={<Switch checked={!!plans[0]?.enforced} onChange={(e) => setEnforced(e.target.checked)} />}
+            label="Enforce custom limits (off: every plan uses its default limits)"
+          />
+        )}
+
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+        {notice && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setNotice(null)}>{notice}</Alert>}
+        {loading && <Typography>Loading...</Typography>}
+
+        {plans.map((p) => {
+          const draft = drafts[p.plan];
+          const customized = Object.keys(p.overrides ?? {}).length > 0;
+          return (
+            <Paper key={p.plan} variant="outlined" sx={{ p: 2, mb: 2 }}>
+              <Stack direction="row" spacing={1} alignItems="center" mb={2}>
+                <Typography variant="h6">{p.plan}</Typography>
+                <Chip
+                  size="small"
+                  label={customized ? (p.enforced ? 'customized' : 'customized, not enforced') : 'default'}
+                  color={customized && p.enforced ? 'primary' : 'default'}
+                />
+                {p.effective.explanationsSoftLimit && <Chip size="small" label="soft explanation limit" />}
+                {p.effective.features.map((f) => (
+                  <Chip key={f} size="small" variant="outlined" label={f} />
+                ))}
+              </Stack>
+              {draft && (
+                <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                  {FIELDS.map((f) => (
+                    <TextField
+                      key={f.key}
+                      size="small"
+                      type="number"
+                      label={f.label}
+                      value={draft[f.key]}
+                      placeholder={f.unlimited ? 'Unlimited' : undefined}
+                      InputLabelProps={{ shrink: true }}
+                      inputProps={{ min: f.key === 'questionCountMax' ? 1 : 0 }}
+                      onChange={(e) => setDrafts((d) => ({ ...d, [p.plan]: { ...d[p.plan], [f.key]: e.target.value } }))}
+                    />
+                  ))}
+                </Stack>
+              )}
+              <Stack direction="row" spacing={1} mt={2}>
+                <Button variant="contained" onClick={() => save(p.plan)}>Save</Button>
+                {customized && <Button onClick={() => reset(p.plan)}>Reset to defaults</Button>}
+              </Stack>
+            </Paper>
+          );
+        })}
+      </Paper>
+    </AdminLayout>
+  );
+}
@@ -15,6 +15,7 @@ import ContentCopyIcon from '@mui/icons-material/ContentCopy';
 import adminApi from '../../lib/adminApi';
 import styles from '../../styles/Admin.module.css';
 import PromptEditor from '../../components/admin/PromptEditor';
+import PromptExperiments from '../../components/admin/PromptExperiments';
 
 type PromptItem = { id?: number; key: string; template: string; description?: string; metadata?: any };
 
@@ -50,6 +51,8 @@ export default function AdminPromptsPage() {
   const [prompts, setPrompts] = useState<PromptItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [savingKey, setSavingKey] = useState<string | null>(null);
+  // key whose versions / experiment panel is open
+  const [versionsKey, setVersionsKey] = useState<string | null>(null);
 
   // This state holds the initial object to populate the editor (e.g., when inserting a sample)
   const [editorInitial, setEditorInitial] = useState<any>({});
@@ -139,7 +142,6 @@ export default function AdminPromptsPage() {
       name: t.title,
       description: t.description,
       body: t.body,
-      version: 1,
       enabled: true,
       example: '',
     });
@@ -155,7 +157,7 @@ export default function AdminPromptsPage() {
       <Box>
         <Typography variant="h5">AI Prompt Templates</Typography>
         <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-          Edit and save prompt templates. Changes are immediate and stored in the database.
+          Edit and save prompt templates. Each change is stored as a new version; open Versions to roll back or run an A/B experiment.
         </Typography>
 
         {/* Editor area */}
@@ -226,11 +228,19 @@ export default function AdminPromptsPage() {
                     <TextField label="Template" fullWidth multiline minRows={4} value={p.template} onChange={(e) => handleChange(i, 'template', e.target.value)} />
                   </Grid>
                   <Grid item xs={12} sx={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+                    <Button variant="text" onClick={() => setVersionsKey(versionsKey === p.key ? null : p.key)} disabled={!p.id}>
+                      {versionsKey === p.key ? 'Hide versions' : 'Versions'}
+                    </Button>
                     <Button variant="outlined" color="secondary" onClick={() => fetchPrompts()}>Reload</Button>
                     <Button variant="contained" onClick={() => handleSave(p)} disabled={savingKey === p.key}>
                       {savingKey === p.key ? 'Saving...' : 'Save'}
                     </Button>
                   </Grid>
+                  {versionsKey === p.key && p.id && (
+                    <Grid item xs={12}>
+                      <PromptExperiments promptKey={p.key} onChanged={fetchPrompts} />
+                    </Grid>
+                  )}
                 </Grid>
               </Paper>
             ))}
@@ -0,0 +1,640 @@
+import React, { useEffect, useState } from 'react';
+import AdminLayout from '../../components/admin/AdminLayout';
+import {
+  Box,
+  Typography,
+  Paper,
+  TextField,
+  Button,
+  Chip,
+  Stack,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Pagination,
+  FormControlLabel,
+  Checkbox,
+} from '@mui/material';
+import adminApi from '../../lib/adminApi';
+import MathText from '../../components/MathText';
+import { splitMath } from '../../utils/latex';
+import { QuestionType } from '../../utils/questionTypes';
+
+type QuestionStatus = 'draft' | 'approved' | 'retired' | 'quarantined';
+type AnswerCheckStatus = 'verified' | 'contradicted' | 'unverifiable';
+
+type BankQuestion = {
+  question_id: string;
+  question_text: string;
+  choices: string[];
+  correct_answer: string;
+  question_type?: QuestionType;
+  accepted_answers?: string[] | null;
+  tolerance?: number | null;
+  explanation?: string | null;
+  difficulty: string;
+  topic: string;
+  estimated_time_seconds?: number;
+  status: QuestionStatus;
+  answer_check?: AnswerCheckStatus | null;
+  metadata?: { answerCheck?: { expected?: string | null; reason?: string } } | null;
+  reviewed_at?: string | null;
+  created_at?: string;
+};
+
+const TYPE_LABELS: Record<QuestionType, string> = {
+  multiple_choice: 'Multiple choice',
+  multi_select: 'Multi-select',
+  numeric: 'Numeric (grid-in)',
+  short_text: 'Short text',
+};
+
+// What the correct-answer field holds for each type
+const KEY_HINTS: Record<QuestionType, string> = {
+  multiple_choice: 'Correct answer (must match a choice)',
+  multi_select: 'Correct choices, separated by " | "',
+  numeric: 'Correct value (e.g. 2/3 or 0.75)',
+  short_text: 'Correct answer',
+};
+
+type QuestionListResponse = {
+  items: BankQuestion[];
+  total: number;
+  page: number;
+  totalPages: number;
+  counts?: Record<QuestionStatus, number>;
+};
+
+type ImportReport = {
+  total: number;
+  imported: number;
+  duplicates: { row: number; question_text: string; matchId?: string | number; reason?: string }[];
+  errors: { row: number; issues: string[] }[];
+  quarantined?: { row: number; question_text: string; expected: string | null }[];
+  dryRun: boolean;
+};
+
+type VerifySummary = { checked: number; verified: number; contradicted: number; unverifiable: number; quarantined: number; flagged?: number };
+
+type InterchangeFormat = 'csv' | 'json' | 'qti';
+
+const STATUS_COLORS: Record<QuestionStatus, 'default' | 'success' | 'warning' | 'error'> = {
+  draft: 'warning',
+  approved: 'success',
+  retired: 'default',
+  quarantined: 'error',
+};
+
+const CHECK_COLORS: Record<AnswerCheckStatus, 'default' | 'success' | 'error'> = {
+  verified: 'success',
+  contradicted: 'error',
+  unverifiable: 'default',
+};
+
+/**
+ * Question bank console: search and filter generated questions, fix their content and
+ * move them through draft -> approved -> retired. Only approved questions are served.
+ * Questions whose answer key the math check contradicted arrive as 'quarantined'.
+ */
+export default function AdminQuestionsPage() {
+  const [items, setItems] = useState<BankQuestion[]>([]);
+  const [counts, setCounts] = useState<Record<QuestionStatus, number> | null>(null);
+  const [page, setPage] = useState<number>(1);
+  const [totalPages, setTotalPages] = useState<number>(1);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  const [search, setSearch] = useState<string>('');
+  const [topic, setTopic] = useState<string>('');
+  const [difficulty, setDifficulty] = useState<string>('');
+  const [status, setStatus] = useState<string>('draft');
+  const [verifying, setVerifying] = useState<boolean>(false);
+  const [verifySummary, setVerifySummary] = useState<VerifySummary | null>(null);
+
+  const [editing, setEditing] = useState<BankQuestion | null>(null);
+  const [choicesText, setChoicesText] = useState<string>('');
+  const [acceptedText, setAcceptedText] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [exportFormat, setExportFormat] = useState<InterchangeFormat>('csv');
+  const [importOpen, setImportOpen] = useState<boolean>(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importTopic, setImportTopic] = useState<string>('');
+  const [importDifficulty, setImportDifficulty] = useState<string>('');
+  const [dryRun, setDryRun] = useState<boolean>(true);
+  const [importing, setImporting] = useState<boolean>(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchQuestions(1);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status]);
+
+  async function fetchQuestions(p = page) {
+    setLoading(true);
+    try {
+      const params: any = { page: p, limit: 25, _t: Date.now() };
+      if (search) params.search = search;
+      if (topic) params.topic = topic;
+      if (difficulty) params.difficulty = difficulty;
+      if (status) params.status = status;
+      const res = await adminApi.get<QuestionListResponse>('/admin/questions', { params });
+      setItems(res.data?.items ?? []);
+      setCounts(res.data?.counts ?? null);
+      setPage(res.data?.page ?? p);
+      setTotalPages(res.data?.totalPages ?? 1);
+    } catch (err) {
+      console.error('Failed to load questions', err);
+      setItems([]);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function changeStatus(q: BankQuestion, action: 'approve' | 'retire' | 'draft') {
+    try {
+      await adminApi.post(`/admin/questions/${encodeURIComponent(q.question_id)}/${action}`, {});
+      await fetchQuestions(page);
+    } catch (err) {
+      console.error(`Failed to ${action} question`, err);
+      alert(`Could not ${action} the question.`);
+    }
+  }
+
+  // Answer-key check over questions that were never checked; contradicted drafts are quarantined,
+  // contradicted approved ones are flagged for review
+  async function verifyAnswers() {
+    setVerifying(true);
+    try {
+      const res = await adminApi.post<VerifySummary>('/admin/questions/verify', {});
+      setVerifySummary(res.data);
+      await fetchQuestions(1);
+    } catch (err) {
+      console.error('Answer check failed', err);
+      alert('Could not check answers.');
+    } finally {
+      setVerifying(false);
+    }
+  }
+
+  function openEditor(q: BankQuestion) {
+    setEditing({ ...q });
+    setChoicesText((q.choices ?? []).join('\n'));
+    setAcceptedText((q.accepted_answers ?? []).join('\n'));
+    setError(null);
+  }
+
+  async function saveEdit(approveAfter = false) {
+    if (!editing) return;
+    setSaving(true);
+    setError(null);
+    try {
+      // typed-answer questions have no choices
+      const type = editing.question_type ?? 'multiple_choice';
+      const choices = type === 'multiple_choice' || type === 'multi_select' ? choicesText.split('\n').map((c) => c.trim()).filter(Boolean) : [];
+      await adminApi.put(`/admin/questions/${encodeURIComponent(editing.question_id)}`, {
+        question_text: editing.question_text,
+        choices,
+        correct_answer: editing.correct_answer,
+        question_type: type,
+        accepted_answers: acceptedText.split('\n').map((a) => a.trim()).filter(Boolean),
+        tolerance: type === 'numeric' ? editing.tolerance ?? null : null,
+        explanation: editing.explanation ?? null,
+        topic: editing.topic,
+        difficulty: editing.difficulty,
+      });
+      if (approveAfter) {
+        await adminApi.post(`/admin/questions/${encodeURIComponent(editing.question_id)}/approve`, {});
+      }
+      setEditing(null);
+      await fetchQuestions(page);
+    } catch (err: any) {
+      const issues = err?.response?.data?.issues as Array<{ path: Array<string | number>; message: string }> | undefined;
+      setError(err?.response?.data?.message ?? (issues?.length ? issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ') : 'Save failed'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // Exports follow the current topic/difficulty/status filters
+  async function exportBank() {
+    try {
+      const params: any = { format: exportFormat };
+      if (topic) params.topic = topic;
+      if (difficulty) params.difficulty = difficulty;
+      if (status) params.status = status;
+      const res = await adminApi.get<Blob>('/admin/questions/export', { params, responseType: 'blob' });
+      const disposition = String(res.headers?.['content-disposition'] ?? '');
+      const match = /filename="([^"]+)"/.exec(disposition);
+      const url = URL.createObjectURL(res.data);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = match?.[1] ?? `questions.${exportFormat === 'qti' ? 'zip' : exportFormat}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Export failed', err);
+      alert('Could not export questions.');
+    }
+  }
+
+  function openImport() {
+    setImportFile(null);
+    setImportReport(null);
+    setImportError(null);
+    setDryRun(true);
+    setImportOpen(true);
+  }
+
+  function formatForFile(file: File): InterchangeFormat {
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.json')) return 'json';
+    if (name.endsWith('.xml') || name.endsWith('.zip')) return 'qti';
+    return 'csv';
+  }
+
+  // QTI packages are zips, so they are sent base64-encoded; text formats go as-is
+  function readFile(file: File): Promise<{ content: string; encoding: 'utf8' | 'base64' }> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      const isZip = file.name.toLowerCase().endsWith('.zip');
+      reader.onerror = () => reject(reader.error);
+      reader.onload = () => {
+        const result = String(reader.result ?? '');
+        resolve(isZip ? { content: result.slice(result.indexOf(',') + 1), encoding: 'base64' } : { content: result, encoding: 'utf8' });
+      };
+      if (isZip) reader.readAsDataURL(file);
+      else reader.readAsText(file);
+    });
+  }
+
+  async function runImport() {
+    if (!importFile) return;
+    setImporting(true);
+    setImportError(null);
+    try {
+      const { content, encoding } = await readFile(importFile);
+      const res = await adminApi.post<ImportReport>('/admin/questions/import', {
+        format: formatForFile(importFile),
+        content,
+        encoding,
+        defaultTopic: importTopic || undefined,
+        defaultDifficulty: importDifficulty || undefined,
+        dryRun,
+      });
+      setImportReport(res.data);
+      if (!dryRun) await fetchQuestions(1);
+    } catch (err: any) {
+      setImportError(err?.response?.data?.message ?? 'Import failed');
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  // Unclosed math delimiters in the edit dialog; the server also checks braces and environments
+  const editingType: QuestionType = editing?.question_type ?? 'multiple_choice';
+  const previewKeys = editingType === 'multi_select' ? (editing?.correct_answer ?? '').split('|').map((k) => k.trim()) : [editing?.correct_answer ?? ''];
+  const latexWarnings = editing
+    ? [editing.question_text, ...choicesText.split('\n'), editing.explanation ?? ''].flatMap((t) => splitMath(t).issues)
+    : [];
+
+  return (
+    <AdminLayout title="Question Bank">
+      <Paper sx={{ p: 3 }}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+          <Typography variant="h5">Question Bank</Typography>
+          {counts && (
+            <Stack direction="row" spacing={1}>
+              <Chip label={`Draft ${counts.draft}`} color="warning" variant="outlined" />
+              <Chip label={`Approved ${counts.approved}`} color="success" variant="outlined" />
+              <Chip label={`Retired ${counts.retired}`} variant="outlined" />
+              {counts.quarantined > 0 && <Chip label={`Quarantined ${counts.quarantined}`} color="error" variant="outlined" />}
+            </Stack>
+          )}
+        </Box>
+
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} mb={2}>
+          <TextField size="small" label="Search text" value={search} onChange={(e) => setSearch(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') fetchQuestions(1); }} />
+          <TextField size="small" label="Topic" value={topic} onChange={(e) => setTopic(e.target.value)} />
+          <TextField size="small" select label="Difficulty" value={difficulty} onChange={(e) => setDifficulty(e.target.value)} sx={{ minWidth: 150 }}>
+            <MenuItem value="">Any</MenuItem>
+            <MenuItem value="beginner">Beginner</MenuItem>
+            <MenuItem value="intermediate">Intermediate</MenuItem>
+            <MenuItem value="advanced">Advanced</MenuItem>
+          </TextField>
+          <TextField size="small" select label="Status" value={status} onChange={(e) => setStatus(e.target.value)} sx={{ minWidth: 150 }}>
+            <MenuItem value="">Any</MenuItem>
+            <MenuItem value="draft">Draft</MenuItem>
+            <MenuItem value="approved">Approved</MenuItem>
+            <MenuItem value="retired">Retired</MenuItem>
+            <MenuItem value="quarantined">Quarantined</MenuItem>
+          </TextField>
+          <Button variant="outlined" onClick={() => fetchQuestions(1)} disabled={loading}>
+            Search
+          </Button>
+          <Button variant="outlined" onClick={verifyAnswers} disabled={verifying}>
+            {verifying ? 'Checking...' : 'Check answers'}
+          </Button>
+          <Box flexGrow={1} />
+          <TextField size="small" select label="Format" value={exportFormat} onChange={(e) => setExportFormat(e.target.value as InterchangeFormat)} sx={{ minWidth: 120 }}>
+            <MenuItem value="csv">CSV</MenuItem>
+            <MenuItem value="json">JSON</MenuItem>
+            <MenuItem value="qti">QTI 2.1</MenuItem>
+          </TextField>
+          <Button variant="outlined" onClick={exportBank}>
+            Export
+          </Button>
+          <Button variant="contained" onClick={openImport}>
+            Import
+          </Button>
+        </Stack>
+
+        {verifySummary && (
+          <Alert severity={verifySummary.contradicted ? 'warning' : 'success'} sx={{ mb: 2 }} onClose={() => setVerifySummary(null)}>
+            Checked {verifySummary.checked} question(s): {verifySummary.verified} verified, {verifySummary.unverifiable} not checkable,{' '}
+            {verifySummary.contradicted} contradicted ({verifySummary.quarantined} quarantined
+            {verifySummary.flagged ? `, ${verifySummary.flagged} approved flagged for review — filter by "contradicted"` : ''}).
+          </Alert>
+        )}
+
+        {loading && <Typography>Loading...</Typography>}
+        {!loading && items.length === 0 && <Typography>No questions found</Typography>}
+
+        {!loading && items.length > 0 && (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Question</TableCell>
+                  <TableCell>Answer</TableCell>
+                  <TableCell>Check</TableCell>
+                  <TableCell>Topic</TableCell>
+                  <TableCell>Difficulty</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {items.map((q) => (
+                  <TableRow key={q.question_id} hover>
+                    <TableCell sx={{ maxWidth: 420 }}>
+                      <MathText text={q.question_text.length > 140 ? `${q.question_text.slice(0, 140)}…` : q.question_text} />
+                    </TableCell>
+                    <TableCell>
+                      <MathText text={q.correct_answer} />
+                      {q.question_type && q.question_type !== 'multiple_choice' && (
+                        <Chip size="small" variant="outlined" label={TYPE_LABELS[q.question_type]} sx={{ ml: 1 }} />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {q.answer_check ? (
+                        <Chip
+                          size="small"
+                          variant="outlined"
+                          label={q.answer_check === 'contradicted' && q.metadata?.answerCheck?.expected ? `expected ${q.metadata.answerCheck.expected}` : q.answer_check}
+                          color={CHECK_COLORS[q.answer_check] ?? 'default'}
+                          title={q.metadata?.answerCheck?.reason ?? ''}
+                        />
+                      ) : (
+                        '—'
+                      )}
+                    </TableCell>
+                    <TableCell>{q.topic}</TableCell>
+                    <TableCell>{q.difficulty}</TableCell>
+                    <TableCell>
+                      <Chip size="small" label={q.status} color={STATUS_COLORS[q.status] ?? 'default'} />
+                    </TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <Button size="small" onClick={() => openEditor(q)}>Edit</Button>
+                      {q.status !== 'approved' && (
+                        <Button size="small" color="success" onClick={() => changeStatus(q, 'approve')}>Approve</Button>
+                      )}
+                      {q.status !== 'retired' && (
+                        <Button size="small" color="inherit" onClick={() => changeStatus(q, 'retire')}>Retire</Button>
+                      )}
+                      {q.status === 'retired' && (
+                        <Button size="small" onClick={() => changeStatus(q, 'draft')}>Restore</Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        {totalPages > 1 && (
+          <Box display="flex" justifyContent="center" mt={2}>
+            <Pagination count={totalPages} page={page} onChange={(_, p) => fetchQuestions(p)} />
+          </Box>
+        )}
+      </Paper>
+
+      <Dialog open={!!editing} onClose={() => setEditing(null)} maxWidth="md" fullWidth>
+        <DialogTitle>Edit question</DialogTitle>
+        <DialogContent>
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+          {editing && (
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              <TextField
+                label="Question"
+                multiline
+                minRows={3}
+                value={editing.question_text}
+                onChange={(e) => setEditing({ ...editing, question_text: e.target.value })}
+              />
+              <TextField
+                select
+                label="Type"
+                value={editing.question_type ?? 'multiple_choice'}
+                onChange={(e) => setEditing({ ...editing, question_type: e.target.value as QuestionType })}
+                sx={{ maxWidth: 260 }}
+              >
+                {(Object.keys(TYPE_LABELS) as QuestionType[]).map((t) => (
+                  <MenuItem key={t} value={t}>{TYPE_LABELS[t]}</MenuItem>
+                ))}
+              </TextField>
+              {editingType === 'multiple_choice' || editingType === 'multi_select' ? (
+                <TextField
+                  label="Choices (one per line)"
+                  multiline
+                  minRows={4}
+                  value={choicesText}
+                  onChange={(e) => setChoicesText(e.target.value)}
+                />
+              ) : null}
+              <TextField
+                label={KEY_HINTS[editingType]}
+                value={editing.correct_answer}
+                onChange={(e) => setEditing({ ...editing, correct_answer: e.target.value })}
+              />
+              {editingType === 'numeric' || editingType === 'short_text' ? (
+                <Stack direction="row" spacing={2}>
+                  <TextField
+                    label="Also accept (one per line)"
+                    multiline
+                    minRows={2}
+                    value={acceptedText}
+                    onChange={(e) => setAcceptedText(e.target.value)}
+                    sx={{ flex: 1 }}
+                  />
+                  {editingType === 'numeric' && (
+                    <TextField
+                      label="Tolerance (±)"
+                      type="number"
+                      value={editing.tolerance ?? ''}
+                      onChange={(e) => setEditing({ ...editing, tolerance: e.target.value === '' ? null : Number(e.target.value) })}
+                      helperText="Empty = exact value"
+                      inputProps={{ min: 0, step: 'any' }}
+                      sx={{ width: 160 }}
+                    />
+                  )}
+                </Stack>
+              ) : null}
+              <TextField
+                label="Explanation"
+                multiline
+                minRows={2}
+                value={editing.explanation ?? ''}
+                onChange={(e) => setEditing({ ...editing, explanation: e.target.value })}
+              />
+              <Paper variant="outlined" sx={{ p: 2 }}>
+                <Typography variant="caption" color="text.secondary">
+                  Preview — write math as $...$ (inline) or $$...$$ (display)
+                </Typography>
+                <Typography variant="subtitle1" component="div" sx={{ mt: 0.5 }}>
+                  <MathText text={editing.question_text} />
+                </Typography>
+                {editingType === 'multiple_choice' || editingType === 'multi_select' ? (
+                  <Box component="ol" type="A" sx={{ my: 1, pl: 3 }}>
+                    {choicesText.split('\n').map((c) => c.trim()).filter(Boolean).map((c, i) => (
+                      <li key={i} style={{ fontWeight: previewKeys.includes(c) ? 700 : undefined }}>
+                        <MathText text={c} />
+                      </li>
+                    ))}
+                  </Box>
+                ) : (
+                  <Typography variant="body2" sx={{ my: 1 }} component="div">
+                    Answer: <strong><MathText text={editing.correct_answer} /></strong>
+                  </Typography>
+                )}
+                {editing.explanation && (
+                  <Typography variant="body2" color="text.secondary" component="div">
+                    <MathText text={editing.explanation} />
+                  </Typography>
+                )}
+                {latexWarnings.length > 0 && (
+                  <Alert severity="warning" sx={{ mt: 1 }}>
+                    {latexWarnings.join('; ')}
+                  </Alert>
+                )}
+              </Paper>
+              <Stack direction="row" spacing={2}>
+                <TextField label="Topic" value={editing.topic} onChange={(e) => setEditing({ ...editing, topic: e.target.value })} />
+                <TextField select label="Difficulty" value={editing.difficulty} onChange={(e) => setEditing({ ...editing, difficulty: e.target.value })} sx={{ minWidth: 160 }}>
+                  <MenuItem value="beginner">Beginner</MenuItem>
+                  <MenuItem value="intermediate">Intermediate</MenuItem>
+                  <MenuItem value="advanced">Advanced</MenuItem>
+                </TextField>
+              </Stack>
+            </Stack>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditing(null)}>Cancel</Button>
+          <Button onClick={() => saveEdit(false)} disabled={saving}>Save</Button>
+          <Button variant="contained" color="success" onClick={() => saveEdit(true)} disabled={saving}>
+            Save & approve
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={importOpen} onClose={() => setImportOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>Import questions</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            CSV (question_text, choices separated by &quot; | &quot;, correct_answer, explanation, difficulty, topic, estimated_time_seconds,
+            and optionally question_type, accepted_answers, tolerance), JSON, or QTI 2.1 (single item .xml or a content package .zip;
+            multiple choice only). Imported questions start as drafts.
+          </Typography>
+          {importError && <Alert severity="error" sx={{ mb: 2 }}>{importError}</Alert>}
+          <Stack spacing={2}>
+            <Button variant="outlined" component="label">
+              {importFile ? importFile.name : 'Choose file'}
+              <input
+                hidden
+                type="file"
+                accept=".csv,.json,.xml,.zip"
+                onChange={(e) => {
+                  setImportFile(e.target.files?.[0] ?? null);
+                  setImportReport(null);
+                }}
+              />
+            </Button>
+            <Stack direction="row" spacing={2}>
+              <TextField size="small" label="Default topic" value={importTopic} onChange={(e) => setImportTopic(e.target.value)} />
+              <TextField size="small" select label="Default difficulty" value={importDifficulty} onChange={(e) => setImportDifficulty(e.target.value)} sx={{ minWidth: 170 }}>
+                <MenuItem value="">None</MenuItem>
+                <MenuItem value="beginner">Beginner</MenuItem>
+                <MenuItem value="intermediate">Intermediate</MenuItem>
+                <MenuItem value="advanced">Advanced</MenuItem>
+              </TextField>
+            </Stack>
+            <FormControlLabel
+              control={<Checkbox checked={dryRun} onChange={(e) => setDryRun(e.target.checked)} />}
+              label="Validate only (dry run)"
+            />
+          </Stack>
+
+          {importReport && (
+            <Box mt={2}>
+              <Alert severity={importReport.errors.length || importReport.duplicates.length ? 'warning' : 'success'} sx={{ mb: 1 }}>
+                {importReport.dryRun ? 'Dry run: ' : ''}
+                {importReport.imported} of {importReport.total} question(s) {importReport.dryRun ? 'can be imported' : 'imported'} •{' '}
+                {importReport.duplicates.length} duplicate(s) • {importReport.errors.length} invalid row(s)
+                {importReport.quarantined?.length ? ` • ${importReport.quarantined.length} quarantined (answer key contradicted)` : ''}
+              </Alert>
+              {importReport.errors.length > 0 && (
+                <Box mb={1}>
+                  <Typography variant="subtitle2">Invalid rows</Typography>
+                  {importReport.errors.slice(0, 50).map((e) => (
+                    <Typography key={`e-${e.row}`} variant="body2" color="error">
+                      Row {e.row}: {e.issues.join('; ')}
+                    </Typography>
+                  ))}
+                </Box>
+              )}
+              {importReport.duplicates.length > 0 && (
+                <Box>
+                  <Typography variant="subtitle2">Duplicates (skipped)</Typography>
+                  {importReport.duplicates.slice(0, 50).map((d) => (
+                    <Typography key={`d-${d.row}`} variant="body2" color="text.secondary">
+                      Row {d.row}: {d.question_text.slice(0, 80)} — {d.reason ?? 'duplicate'}
+                      {d.matchId ? ` (matches ${d.matchId})` : ''}
+                    </Typography>
+                  ))}
+                </Box>
+              )}
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setImportOpen(false)}>Close</Button>
+          <Button variant="contained" onClick={runImport} disabled={!importFile || importing}>
+            {importing ? 'Working...' : dryRun ? 'Validate' : 'Import'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </AdminLayout>
+  );
+}
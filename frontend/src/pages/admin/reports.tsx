@@ -0,0 +1,244 @@
+import React, { useEffect, useState } from 'react';
+import AdminLayout from '../../components/admin/AdminLayout';
+import {
+  Box,
+  Typography,
+  Paper,
+  TextField,
+  Button,
+  Chip,
+  Stack,
+  MenuItem,
+  List,
+  ListItem,
+  ListItemText,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControlLabel,
+  Checkbox,
+  Alert,
+  Pagination,
+} from '@mui/material';
+import adminApi from '../../lib/adminApi';
+import MathText from '../../components/MathText';
+import { QuestionType, formatAnswer } from '../../utils/questionTypes';
+
+type QuestionReport = {
+  id: number;
+  user_id: number;
+  attempt_id: number;
+  question_id: string;
+  bank_question_id?: string | null;
+  reason: string;
+  comment?: string | null;
+  question_snapshot?: {
+    question?: string;
+    type?: QuestionType;
+    options?: string[];
+    correctAnswer?: string | null;
+    userAnswer?: string | string[] | null;
+  } | null;
+  status: 'open' | 'resolved' | 'dismissed';
+  corrected_answer?: string | null;
+  resolution_note?: string | null;
+  regraded_attempts?: number;
+  created_at?: string;
+};
+
+type ReportListResponse = {
+  items: QuestionReport[];
+  total: number;
+  page: number;
+  totalPages: number;
+};
+
+const REASON_LABELS: Record<string, string> = {
+  wrong_answer: 'Wrong answer key',
+  ambiguous: 'Ambiguous',
+  typo: 'Typo',
+  off_topic: 'Off-topic',
+};
+
+/**
+ * Moderation queue for student question reports. Resolving can correct the answer key
+ * (bank + attempts) and optionally regrade completed attempts.
+ */
+export default function AdminQuestionReportsPage() {
+  const [items, setItems] = useState<QuestionReport[]>([]);
+  const [status, setStatus] = useState<string>('open');
+  const [page, setPage] = useState<number>(1);
+  const [totalPages, setTotalPages] = useState<number>(1);
+  const [total, setTotal] = useState<number>(0);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  const [selected, setSelected] = useState<QuestionReport | null>(null);
+  const [correctedAnswer, setCorrectedAnswer] = useState<string>('');
+  const [regrade, setRegrade] = useState<boolean>(true);
+  const [retireQuestion, setRetireQuestion] = useState<boolean>(false);
+  const [note, setNote] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchReports(1);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status]);
+
+  async function fetchReports(p = page) {
+    setLoading(true);
+    try {
+      const params: any = { page: p, limit: 25, status, _t: Date.now() };
+      const res = await adminApi.get<ReportListResponse>('/admin/question-reports', { params });
+      setItems(res.data?.items ?? []);
+      setPage(res.data?.page ?? p);
+      setTotalPages(res.data?.totalPages ?? 1);
+      setTotal(res.data?.total ?? 0);
+    } catch (err) {
+      console.error('Failed to load question reports', err);
+      setItems([]);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function openResolve(r: QuestionReport) {
+    setSelected(r);
+    setCorrectedAnswer('');
+    setRegrade(true);
+    setRetireQuestion(false);
+    setNote('');
+    setError(null);
+  }
+
+  async function submit(action: 'resolve' | 'dismiss') {
+    if (!selected) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await adminApi.post<any>(`/admin/question-reports/${selected.id}/resolve`, {
+        action,
+        correctedAnswer: action === 'resolve' && correctedAnswer ? correctedAnswer : undefined,
+        regrade: action === 'resolve' && !!correctedAnswer && regrade,
+        retireQuestion: action === 'resolve' && retireQuestion,
+        note: note || undefined,
+      });
+      const regraded = res.data?.regradedAttempts ?? 0;
+      setNotice(action === 'dismiss' ? 'Report dismissed.' : `Report resolved${regraded ? ` — ${regraded} attempt(s) regraded` : ''}.`);
+      setSelected(null);
+      await fetchReports(page);
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Action failed');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const snapshot = selected?.question_snapshot ?? null;
+
+  return (
+    <AdminLayout title="Question Reports">
+      <Paper sx={{ p: 3 }}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+          <Typography variant="h5">Question Reports</Typography>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <TextField size="small" select label="Status" value={status} onChange={(e) => setStatus(e.target.value)} sx={{ minWidth: 140 }}>
+              <MenuItem value="open">Open</MenuItem>
+              <MenuItem value="resolved">Resolved</MenuItem>
+              <MenuItem value="dismissed">Dismissed</MenuItem>
+            </TextField>
+            <Button variant="outlined" onClick={() => fetchReports(1)} disabled={loading}>
+              Refresh
+            </Button>
+          </Stack>
+        </Box>
+
+        {notice && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setNotice(null)}>{notice}</Alert>}
+        {loading && <Typography>Loading...</Typography>}
+        {!loading && items.length === 0 && <Typography>No reports</Typography>}
+
+        {!loading && items.length > 0 && (
+          <>
+            <Typography variant="body2" color="text.secondary" mb={1}>{total} report(s)</Typography>
+            <List>
+              {items.map((r) => (
+                <ListItem key={r.id} divider alignItems="flex-start">
+                  <ListItemText
+                    primary={
+                      <Stack direction="row" spacing={1} alignItems="center">
+                        <Chip size="small" label={REASON_LABELS[r.reason] ?? r.reason} color={r.reason === 'wrong_answer' ? 'error' : 'default'} />
+                        <Typography component="span"><MathText text={r.question_snapshot?.question ?? `Question ${r.question_id}`} /></Typography>
+                      </Stack>
+                    }
+                    secondary={
+                      <>
+                        {`Key: ${r.question_snapshot?.correctAnswer ?? '—'} • Student answered: ${formatAnswer(r.question_snapshot?.userAnswer) || '—'} • Attempt #${r.attempt_id} • ${r.created_at ?? ''}`}
+                        {r.comment ? <><br />{`“${r.comment}”`}</> : null}
+                        {r.status !== 'open' ? <><br />{`${r.status}${r.corrected_answer ? ` — key set to ${r.corrected_answer}` : ''}${r.regraded_attempts ? `, ${r.regraded_attempts} regraded` : ''}`}</> : null}
+                      </>
+                    }
+                  />
+                  {r.status === 'open' && (
+                    <Button variant="text" onClick={() => openResolve(r)}>
+                      Review
+                    </Button>
+                  )}
+                </ListItem>
+              ))}
+            </List>
+          </>
+        )}
+
+        {totalPages > 1 && (
+          <Box display="flex" justifyContent="center" mt={2}>
+            <Pagination count={totalPages} page={page} onChange={(_, p) => fetchReports(p)} />
+          </Box>
+        )}
+      </Paper>
+
+      <Dialog open={!!selected} onClose={() => setSelected(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Resolve report #{selected?.id}</DialogTitle>
+        <DialogContent>
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+          <Typography sx={{ fontWeight: 600 }}><MathText text={snapshot?.question} /></Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Current key: <MathText text={snapshot?.correctAnswer ?? '—'} />
+            {selected?.bank_question_id ? ' • from the question bank (fix applies to all tests using it)' : ''}
+          </Typography>
+
+          <TextField
+            select={!snapshot?.type || snapshot.type === 'multiple_choice'}
+            fullWidth
+            label="Corrected answer (leave empty to keep the key)"
+            value={correctedAnswer}
+            onChange={(e) => setCorrectedAnswer(e.target.value)}
+            sx={{ mb: 1 }}
+          >
+            <MenuItem value="">Keep current key</MenuItem>
+            {(snapshot?.options ?? []).map((opt) => (
+              <MenuItem key={opt} value={opt}><MathText text={opt} /></MenuItem>
+            ))}
+          </TextField>
+          <FormControlLabel
+            control={<Checkbox checked={regrade} onChange={(e) => setRegrade(e.target.checked)} disabled={!correctedAnswer} />}
+            label="Regrade completed attempts with the corrected key"
+          />
+          {selected?.bank_question_id && (
+            <FormControlLabel
+              control={<Checkbox checked={retireQuestion} onChange={(e) => setRetireQuestion(e.target.checked)} />}
+              label="Retire the question from the bank"
+            />
+          )}
+          <TextField label="Note (optional)" fullWidth multiline minRows={2} value={note} onChange={(e) => setNote(e.target.value)} sx={{ mt: 1 }} />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSelected(null)}>Cancel</Button>
+          <Button color="inherit" onClick={() => submit('dismiss')} disabled={saving}>Dismiss</Button>
+          <Button variant="contained" onClick={() => submit('resolve')} disabled={saving}>Resolve</Button>
+        </DialogActions>
+      </Dialog>
+    </AdminLayout>
+  );
+}
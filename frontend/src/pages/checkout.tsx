@@ -13,6 +13,7 @@ import {
 } from "@mui/material";
 // import Header from "../components/Header";
 import api from "../lib/api";
+import SubscribeWithPayPal from "../components/SubscribeWithPayPal";
 
 /* ---- Response shapes ---- */
 interface AttachOrderResponse {
@@ -23,6 +24,22 @@ interface AttachOrderResponse {
 type CreateOrderResponse = { orderID?: string; orderId?: string; id?: string; payment?: any; paymentId?: number | string; [k: string]: any };
 type CaptureResponse = { id?: number | string; paymentId?: number | string; [k: string]: any };
 type CreatePendingResponse = { payment?: any; paymentId?: number | string } | null;
+/** GET /api/payments/plan-change/quote: prorated price of switching to the selected plan now */
+type PlanChangeQuote = {
+  kind: "new" | "renewal" | "upgrade" | "downgrade";
+  from_plan: string | null;
+  from_period: string | null;
+  to_plan: string;
+  to_period: string;
+  price: string;
+  credit: string;
+  amount_due: string;
+  currency: string;
+  remaining_days: number;
+  effective_at: string;
+  period_end: string | null;
+  recurring: boolean;
+};
 
 declare global {
   interface Window {
@@ -312,7 +329,14 @@ export default function CheckoutPage(): JSX.Element {
 
   const containerRef = useRef<HTMLDivElement | null>(null);
 
+  // Server quote for this plan change; checkout waits for it so PayPal is asked for the prorated amount
+  const [quote, setQuote] = useState<PlanChangeQuote | null>(null);
+  const [quoteLoaded, setQuoteLoaded] = useState(false);
+  const [changingPlan, setChangingPlan] = useState(false);
+  const needsCheckout = !quote || (quote.kind !== "downgrade" && Number(quote.amount_due) > 0);
+
   const computedPrice = (() => {
+    if (quote) return { amount: quote.amount_due, currency: quote.currency };
     if (typeof amountQuery === "string" && amountQuery.trim() !== "") {
       const parts = amountQuery.trim().split(/\s+/);
       const amount = parts[0];
@@ -495,9 +519,50 @@ export default function CheckoutPage(): JSX.Element {
     }
   }
 
+  useEffect(() => {
+    if (!plan || !billingPeriod) return;
+    let cancelled = false;
+    setQuoteLoaded(false);
+    (async () => {
+      try {
+        const token = getLocalAuthTokenFromStorage();
+        const res = await api.get<PlanChangeQuote>("/api/payments/plan-change/quote", {
+          params: { plan, billingPeriod },
+          ...(token ? { headers: { Authorization: `Bearer ${token}` } } : {}),
+        });
+        if (!cancelled) setQuote(res?.data ?? null);
+      } catch (err) {
+        // fall back to the list price; the server prices the order either way
+        console.warn("[checkout] plan change quote failed:", formatError(err));
+        if (!cancelled) setQuote(null);
+      } finally {
+        if (!cancelled) setQuoteLoaded(true);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [plan, billingPeriod]);
+
+  // Downgrades and credit-covered upgrades need no payment
+  async function applyPlanChange() {
+    setChangingPlan(true);
+    setError(null);
+    try {
+      const token = getLocalAuthTokenFromStorage();
+      const opts = token ? { headers: { Authorization: `Bearer ${token}` } } : undefined;
+      await api.post("/api/payments/plan-change", { plan, billingPeriod }, opts);
+      router.push("/subscription");
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? formatError(err));
+    } finally {
+      setChangingPlan(false);
+    }
+  }
+
   useEffect(() => {
     // Ensure we only create pending once for the given plan/billingPeriod and when they are available
-    if (!plan || !billingPeriod) {
+    if (!plan || !billingPeriod || !quoteLoaded || !needsCheckout) {
       return;
     }
     // Only start create-pending if we don't already have a pending payment
@@ -505,7 +570,7 @@ export default function CheckoutPage(): JSX.Element {
       createPendingPaymentOnServer().catch(() => {});
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [plan, billingPeriod]);
+  }, [plan, billingPeriod, quoteLoaded, needsCheckout]);
 
   // Helper to call backend create-order endpoint (used as fallback)
   async function serverCreateOrder(): Promise<CreateOrderResponse> {
@@ -551,6 +616,12 @@ export default function CheckoutPage(): JSX.Element {
       return;
     }
 
+    if (!quoteLoaded) return;
+    if (!needsCheckout) {
+      setLoading(false);
+      return;
+    }
+
     if (!clientId) {
       setError("PayPal client id missing. Set NEXT_PUBLIC_PAYPAL_CLIENT_ID in your frontend .env and restart the server.");
       setLoading(false);
@@ -885,7 +956,7 @@ export default function CheckoutPage(): JSX.Element {
     };
     // intentionally NOT including pendingPaymentRef/pendingPaymentState to avoid reinitialising the SDK mid-flow
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [apiBase, clientId, plan, billingPeriod, invoiceId, computedPrice.currency, reasonQuery]);
+  }, [apiBase, clientId, plan, billingPeriod, invoiceId, computedPrice.currency, reasonQuery, quoteLoaded, needsCheckout]);
 
   // Redirect handlers and utilities
   function handleReturnToAccount() {
@@ -921,10 +992,61 @@ export default function CheckoutPage(): JSX.Element {
             You are purchasing <strong>{String(plan ?? "")}</strong> — {String(billingPeriod ?? "")}.
           </Typography>
 
+          {quote && quote.kind !== "new" && quote.kind !== "downgrade" && (
+            <Box sx={{ mb: 2, p: 2, borderRadius: 1, bgcolor: "action.hover" }}>
+              <Typography variant="body2">
+                {quote.kind === "renewal" ? "Renews" : "Switches from"} {quote.from_plan} ({quote.from_period}), {quote.remaining_days} day(s) left.
+              </Typography>
+              <Typography variant="body2">
+                {quote.to_plan} ({quote.to_period}): {quote.price} {quote.currency}
+              </Typography>
+              {Number(quote.credit) > 0 && (
+                <Typography variant="body2">
+                  Credit for unused time: −{quote.credit} {quote.currency}
+                </Typography>
+              )}
+              {quote.period_end && (
+                <Typography variant="body2" color="text.secondary">
+                  Paid through {new Date(quote.period_end).toLocaleDateString()}.
+                </Typography>
+              )}
+            </Box>
+          )}
+
           <Typography variant="subtitle1" sx={{ mb: 3 }}>
-            Amount: <strong>{computedPrice.amount} {computedPrice.currency}</strong>
+            {quote && quote.kind !== "new" ? "Due today" : "Amount"}: <strong>{computedPrice.amount} {computedPrice.currency}</strong>
           </Typography>
 
+          {quote && !needsCheckout && (
+            <Stack spacing={2} sx={{ mb: 2 }}>
+              <Alert severity="info">
+                {quote.kind === "downgrade"
+                  ? quote.recurring
+                    ? `Your plan renews automatically. Subscribe to ${quote.to_plan} below; your current subscription is cancelled when the new one starts.`
+                    : `You keep ${quote.from_plan} until ${new Date(quote.effective_at).toLocaleDateString()}, then switch to ${quote.to_plan}. Nothing is charged today.`
+                  : `Your unused credit covers ${quote.to_plan} until ${quote.period_end ? new Date(quote.period_end).toLocaleDateString() : "the end of the period"}.`}
+              </Alert>
+              {!quote.recurring && (
+                <Box>
+                  <Button variant="contained" onClick={applyPlanChange} disabled={changingPlan}>
+                    {changingPlan ? "Saving…" : quote.kind === "downgrade" ? "Schedule downgrade" : "Switch now"}
+                  </Button>
+                </Box>
+              )}
+            </Stack>
+          )}
+
+          {plan && billingPeriod && reasonQuery !== "past_due" && !invoiceId && (needsCheckout || quote?.recurring) && (
+            <>
+              <SubscribeWithPayPal plan={String(plan)} billingPeriod={String(billingPeriod)} />
+              {needsCheckout && (
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                  Or pay once for this period:
+                </Typography>
+              )}
+            </>
+          )}
+
           {/* Always render the container so the SDK can mount into it when ready */}
           <div ref={containerRef} />
 
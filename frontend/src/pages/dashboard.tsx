@@ -143,6 +143,8 @@ export default function Dashboard() {
   const { user, token: tokenFromContext, setUser } = useAuth() as any;
   const [userData, setUserData] = useState<any>(user ?? null);
   const [tests, setTests] = useState<any[]>([]);
+  // started attempts with autosaved progress (tests/resumable)
+  const [resumable, setResumable] = useState<any[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [starting, setStarting] = useState<boolean>(false);
   const [snack, setSnack] = useState<{ severity: 'success' | 'info' | 'warning' | 'error'; message: string } | null>(null);
@@ -277,12 +279,26 @@ export default function Dashboard() {
     }
   }, [token]);
 
+  const fetchResumable = useCallback(async () => {
+    if (!token) {
+      if (mountedRef.current) setResumable([]);
+      return;
+    }
+    try {
+      const res = await axios.get<any>(`${process.env.NEXT_PUBLIC_API_URL}/tests/resumable`, { headers: { Authorization: `Bearer ${token}` } });
+      if (mountedRef.current) setResumable(Array.isArray(res?.data) ? res.data : []);
+    } catch {
+      if (mountedRef.current) setResumable([]);
+    }
+  }, [token]);
+
   useEffect(() => {
     fetchTests();
-    const handler = () => { try { fetchTests(); } catch {} };
+    fetchResumable();
+    const handler = () => { try { fetchTests(); fetchResumable(); } catch {} };
     window.addEventListener('tests-changed', handler as EventListener);
     return () => window.removeEventListener('tests-changed', handler as EventListener);
-  }, [fetchTests]);
+  }, [fetchTests, fetchResumable]);
 
   // load profile and set canonicalPlan from profile immediately (highest priority)
   useEffect(() => {
@@ -1572,6 +1588,32 @@ export default function Dashboard() {
         </Grid>
 
         <Grid item xs={12} md={8}>
+          {resumable.length > 0 && (
+            <Paper elevation={1} sx={{ borderRadius: 2, p: 2, mb: 2 }}>
+              <Typography variant="h6" sx={{ fontWeight: 700 }}>Continue where you left off</Typography>
+              <Typography variant="caption" color="text.secondary">Answers are saved as you go, so you can pick up on any device.</Typography>
+              <List disablePadding sx={{ mt: 1 }}>
+                {resumable.map((r) => {
+                  const percent = r.total > 0 ? Math.round((r.answeredCount / r.total) * 100) : 0;
+                  const href = `/test?session=${r.sessionId}`;
+                  return (
+                    <ListItem key={r.sessionId} disablePadding sx={{ py: 1, display: 'flex', alignItems: 'center', gap: 2 }}>
+                      <Box sx={{ flex: 1, minWidth: 0 }}>
+                        <Typography sx={{ fontWeight: 700 }}>{r.title ?? 'Untitled'}</Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {r.answeredCount} of {r.total} answered
+                          {r.remainingSeconds != null ? ` • ${Math.ceil(r.remainingSeconds / 60)} min left` : ''}
+                          {r.progressSavedAt ? ` • saved ${formatTimestamp(r.progressSavedAt)}` : ''}
+                        </Typography>
+                        <LinearProgress variant="determinate" value={percent} sx={{ height: 6, borderRadius: 2, mt: 0.5 }} />
+                      </Box>
+                      <Button component={Link} href={href} size="small" variant="contained" sx={{ textTransform: 'none', flexShrink: 0 }}>Resume</Button>
+                    </ListItem>
+                  );
+                })}
+              </List>
+            </Paper>
+          )}
           <Paper elevation={1} sx={{ borderRadius: 2 }}>
             <Box
               sx={{
@@ -1658,7 +1700,7 @@ export default function Dashboard() {
                           <ListItemButton component={Link} href={href} sx={{ py: 1.25, px: 1.5, display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
                             <Box sx={{ minWidth: 0 }}>
                               <Typography sx={{ fontWeight: 700 }}>{title}</Typography>
-                              <Typography variant="caption" color="text.secondary">Score: {score} • Taken: {taken}</Typography>
+                              <Typography variant="caption" color="text.secondary">Score: {score}{t.hintsUsed > 0 ? ' (with hints)' : ''} • Taken: {taken}</Typography>
                               <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
                                 <Chip label={progressStatus} size="small" color={progressStatus === 'Completed' ? 'success' : progressStatus === 'In Progress' ? 'warning' : 'default'} />
                                 {progressStatus === 'In Progress' && progressPercent != null && (
@@ -0,0 +1,422 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  CircularProgress,
+  Chip,
+  Alert,
+  Stack,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Divider,
+} from '@mui/material';
+import axios from 'axios';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useAuth } from '../context/AuthContext';
+import MathText from '../components/MathText';
+import QuestionInput from '../components/QuestionInput';
+import { AnswerValue, QuestionType, formatAnswer, isAnswered } from '../utils/questionTypes';
+
+interface BlueprintSummary {
+  key: string;
+  name: string;
+  description: string;
+  totalQuestions: number;
+  totalSeconds: number;
+  sections: { key: string; name: string; questionCount: number; timeLimitSeconds: number; breakAfterSeconds: number }[];
+}
+
+interface ExamQuestion {
+  id: string;
+  question: string;
+  options: string[];
+  type?: QuestionType;
+}
+
+interface ExamView {
+  id: number;
+  blueprint: string;
+  name: string;
+  status: 'in_progress' | 'on_break' | 'completed';
+  currentSection: number;
+  serverTime: string;
+  breakRemainingSeconds: number | null;
+  sections: { index: number; key: string; name: string; questionCount: number; timeLimitSeconds: number; state: 'pending' | 'active' | 'submitted'; timedOut: boolean }[];
+  current: { index: number; key: string; name: string; questions: ExamQuestion[]; deadlineAt: string; remainingSeconds: number } | null;
+}
+
+interface ExamResults {
+  id: number;
+  name: string;
+  sections: { index: number; key: string; name: string; difficulty: string; raw: number; total: number; timedOut: boolean; questions: any[] }[];
+  scores: { key: string; name: string; raw: number; total: number; scaled: number }[];
+  total: { name: string; scaled: number | null };
+  disclaimer: string;
+}
+
+interface ExamListItem {
+  id: number;
+  name: string;
+  status: string;
+  totalScaled: number | null;
+  createdAt: string;
+}
+
+function getLocalAuthToken(): string | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const auth = JSON.parse(localStorage.getItem('auth') || 'null');
+    return auth?.token ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function formatSeconds(total: number): string {
+  const s = Math.max(0, Math.floor(total));
+  const m = Math.floor(s / 60);
+  return `${m}:${String(s % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Full-length SAT/ACT mock exam: sections in order on the server clock, breaks between
+ * sections, and per-section raw scores with a scaled score estimate at the end.
+ */
+export default function MockExamPage(): JSX.Element {
+  const { user } = useAuth() as any;
+  const router = useRouter();
+  const api = process.env.NEXT_PUBLIC_API_URL;
+
+  const [blueprints, setBlueprints] = useState<BlueprintSummary[]>([]);
+  const [history, setHistory] = useState<ExamListItem[]>([]);
+  const [exam, setExam] = useState<ExamView | null>(null);
+  const [results, setResults] = useState<ExamResults | null>(null);
+  const [answers, setAnswers] = useState<Record<string, AnswerValue>>({});
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [remaining, setRemaining] = useState<number | null>(null);
+  const [breakLeft, setBreakLeft] = useState<number | null>(null);
+
+  // server time minus device time, so countdowns ignore a skewed device clock
+  const clockOffsetRef = useRef<number>(0);
+  const submittingRef = useRef<boolean>(false);
+
+  const authHeaders = () => {
+    const token = user?.token || getLocalAuthToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  };
+
+  const applyView = (view: ExamView) => {
+    clockOffsetRef.current = new Date(view.serverTime).getTime() - Date.now();
+    setExam(view);
+    setAnswers({});
+    setRemaining(view.current ? view.current.remainingSeconds : null);
+    setBreakLeft(view.status === 'on_break' ? view.breakRemainingSeconds ?? 0 : null);
+    if (view.status === 'completed') loadResults(view.id);
+  };
+
+  useEffect(() => {
+    if (!user && !getLocalAuthToken()) return;
+    axios
+      .get<BlueprintSummary[]>(`${api}/exams/blueprints`, { headers: authHeaders() })
+      .then((res) => setBlueprints(res.data ?? []))
+      .catch((err) => console.error('Failed to load exam blueprints', err));
+    axios
+      .get<ExamListItem[]>(`${api}/exams/my`, { headers: authHeaders() })
+      .then((res) => setHistory(res.data ?? []))
+      .catch((err) => console.error('Failed to load exam history', err));
+
+    const id = Number(router.query.id);
+    if (id) openExam(id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router.query.id, user]);
+
+  // Section countdown; auto-submits once the server deadline passes
+  useEffect(() => {
+    if (!exam?.current) return;
+    const deadline = new Date(exam.current.deadlineAt).getTime();
+    const tick = () => {
+      const left = Math.max(0, Math.floor((deadline - (Date.now() + clockOffsetRef.current)) / 1000));
+      setRemaining(left);
+      if (left === 0) submitSection(true);
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [exam?.id, exam?.current?.index, exam?.current?.deadlineAt]);
+
+  useEffect(() => {
+    if (exam?.status !== 'on_break') return;
+    const timer = setInterval(() => setBreakLeft((b) => (b == null ? b : Math.max(0, b - 1))), 1000);
+    return () => clearInterval(timer);
+  }, [exam?.status, exam?.currentSection]);
+
+  async function openExam(id: number) {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await axios.get<ExamView>(`${api}/exams/${id}`, { headers: authHeaders() });
+      applyView(res.data);
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Could not load the exam.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function loadResults(id: number) {
+    try {
+      const res = await axios.get<ExamResults>(`${api}/exams/${id}/results`, { headers: authHeaders() });
+      setResults(res.data);
+    } catch (err) {
+      console.error('Failed to load exam results', err);
+    }
+  }
+
+  async function startExam(key: string) {
+    setBusy(true);
+    setError(null);
+    setResults(null);
+    try {
+      // first section's questions are assembled before the clock starts; allow for generation time
+      const res = await axios.post<ExamView>(`${api}/exams`, { blueprint: key }, { headers: authHeaders(), timeout: 180000 });
+      applyView(res.data);
+      router.replace({ pathname: '/mock-exam', query: { id: res.data.id } }, undefined, { shallow: true });
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Could not start the exam. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function submitSection(auto = false) {
+    if (!exam?.current || submittingRef.current) return;
+    if (!auto) {
+      const unanswered = exam.current.questions.filter((q) => !isAnswered(answers[q.id])).length;
+      if (unanswered > 0 && !window.confirm(`${unanswered} question(s) unanswered. Submit this section anyway?`)) return;
+    }
+    submittingRef.current = true;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await axios.post<ExamView>(
+        `${api}/exams/${exam.id}/sections/${exam.current.index}/submit`,
+        { answers },
+        { headers: authHeaders(), timeout: 180000 },
+      );
+      applyView(res.data);
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Could not submit the section.');
+    } finally {
+      submittingRef.current = false;
+      setBusy(false);
+    }
+  }
+
+  async function continueExam() {
+    if (!exam) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await axios.post<ExamView>(`${api}/exams/${exam.id}/continue`, {}, { headers: authHeaders(), timeout: 180000 });
+      applyView(res.data);
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Could not start the next section.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!user && !getLocalAuthToken()) {
+    return (
+      <Typography>
+        Please <Link href="/login">login</Link>.
+      </Typography>
+    );
+  }
+
+  const sectionProgress = exam ? (
+    <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: 'wrap' }}>
+      {exam.sections.map((s) => (
+        <Chip
+          key={s.key}
+          size="small"
+          label={s.name}
+          color={s.state === 'active' ? 'primary' : s.state === 'submitted' ? 'success' : 'default'}
+          variant={s.state === 'pending' ? 'outlined' : 'filled'}
+        />
+      ))}
+    </Stack>
+  ) : null;
+
+  return (
+    <Box sx={{ maxWidth: 900, mx: 'auto', mt: 5, mb: 5 }}>
+      <Paper sx={{ p: 3 }}>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        {/* Exam chooser */}
+        {!exam && (
+          <>
+            <Typography variant="h5" fontWeight="bold" mb={1}>
+              Full-length mock exams
+            </Typography>
+            <Typography color="text.secondary" mb={3}>
+              Timed sections in the official order with breaks. Each section is submitted automatically when its time runs out.
+            </Typography>
+            <Stack spacing={2}>
+              {blueprints.map((b) => (
+                <Paper key={b.key} variant="outlined" sx={{ p: 2 }}>
+                  <Typography variant="h6">{b.name}</Typography>
+                  <Typography variant="body2" color="text.secondary" mb={1}>
+                    {b.description} {b.totalQuestions} questions • {Math.round(b.totalSeconds / 60)} minutes of testing.
+                  </Typography>
+                  <Stack direction="row" spacing={1} sx={{ mb: 1, flexWrap: 'wrap' }}>
+                    {b.sections.map((s) => (
+                      <Chip key={s.key} size="small" variant="outlined" label={`${s.name}: ${s.questionCount} Q / ${Math.round(s.timeLimitSeconds / 60)} min`} />
+                    ))}
+                  </Stack>
+                  <Button variant="contained" disabled={busy} onClick={() => startExam(b.key)}>
+                    {busy ? <CircularProgress size={20} /> : `Start ${b.key.toUpperCase()} mock exam`}
+                  </Button>
+                </Paper>
+              ))}
+            </Stack>
+
+            {history.length > 0 && (
+              <Box mt={4}>
+                <Typography variant="h6" mb={1}>Your mock exams</Typography>
+                {history.map((h) => (
+                  <Box key={h.id} display="flex" justifyContent="space-between" alignItems="center" py={0.5}>
+                    <Typography variant="body2">
+                      {h.name} • {new Date(h.createdAt).toLocaleDateString()} •{' '}
+                      {h.status === 'completed' ? `Score ${h.totalScaled ?? '—'}` : 'In progress'}
+                    </Typography>
+                    <Button size="small" onClick={() => openExam(h.id)}>
+                      {h.status === 'completed' ? 'Results' : 'Resume'}
+                    </Button>
+                  </Box>
+                ))}
+              </Box>
+            )}
+          </>
+        )}
+
+        {/* Running section */}
+        {exam?.status === 'in_progress' && exam.current && (
+          <>
+            <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+              <Typography variant="h5" fontWeight="bold">{exam.current.name}</Typography>
+              <Chip color={remaining != null && remaining < 300 ? 'error' : 'default'} label={`Time left ${formatSeconds(remaining ?? 0)}`} />
+            </Box>
+            {sectionProgress}
+            <LinearProgress
+              variant="determinate"
+              value={(Object.values(answers).filter(isAnswered).length / Math.max(1, exam.current.questions.length)) * 100}
+              sx={{ mb: 3 }}
+            />
+            {exam.current.questions.map((q, i) => (
+              <Box key={q.id} mb={3}>
+                <Typography fontWeight={600} mb={1}>
+                  {i + 1}. <MathText text={q.question} />
+                </Typography>
+                <QuestionInput question={q} value={answers[q.id]} onChange={(value) => setAnswers((prev) => ({ ...prev, [q.id]: value }))} />
+              </Box>
+            ))}
+            <Button variant="contained" disabled={busy} onClick={() => submitSection(false)}>
+              {busy ? <CircularProgress size={20} /> : exam.current.index === exam.sections.length - 1 ? 'Submit section and finish' : 'Submit section'}
+            </Button>
+          </>
+        )}
+
+        {/* Between sections */}
+        {exam?.status === 'on_break' && (
+          <>
+            <Typography variant="h5" fontWeight="bold" mb={1}>{breakLeft ? 'Break' : 'Ready for the next section'}</Typography>
+            {sectionProgress}
+            {exam.sections[exam.currentSection - 1]?.timedOut && (
+              <Alert severity="warning" sx={{ mb: 2 }}>The previous section ended when its time ran out.</Alert>
+            )}
+            {breakLeft ? (
+              <Typography mb={2}>Break time remaining: {formatSeconds(breakLeft)}. You can continue early.</Typography>
+            ) : (
+              <Typography mb={2}>Next up: {exam.sections[exam.currentSection]?.name}. The timer starts when you continue.</Typography>
+            )}
+            <Button variant="contained" disabled={busy} onClick={continueExam}>
+              {busy ? <CircularProgress size={20} /> : `Start ${exam.sections[exam.currentSection]?.name ?? 'next section'}`}
+            </Button>
+          </>
+        )}
+
+        {/* Results */}
+        {exam?.status === 'completed' && (
+          <>
+            <Typography variant="h5" fontWeight="bold" mb={2}>{exam.name} — results</Typography>
+            {!results ? (
+              <CircularProgress />
+            ) : (
+              <>
+                <Typography variant="h3" fontWeight="bold">{results.total.scaled ?? '—'}</Typography>
+                <Typography color="text.secondary" mb={2}>Estimated {results.total.name} score</Typography>
+
+                <Table size="small" sx={{ mb: 3 }}>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Score</TableCell>
+                      <TableCell align="right">Raw</TableCell>
+                      <TableCell align="right">Scaled (est.)</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {results.scores.map((s) => (
+                      <TableRow key={s.key}>
+                        <TableCell>{s.name}</TableCell>
+                        <TableCell align="right">{s.raw} / {s.total}</TableCell>
+                        <TableCell align="right">{s.scaled}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <Typography variant="h6" mb={1}>Sections</Typography>
+                {results.sections.map((s) => (
+                  <Box key={s.key} mb={2}>
+                    <Typography fontWeight={600}>
+                      {s.name}: {s.raw} / {s.total} {s.timedOut ? '(time ran out)' : ''}
+                    </Typography>
+                    {s.questions.filter((q: any) => !q.isCorrect).slice(0, 10).map((q: any) => (
+                      <Typography key={q.id} variant="body2" color="text.secondary">
+                        ✗ <MathText text={q.question} /> — your answer: <MathText text={formatAnswer(q.userAnswer) || '—'} />, correct: <MathText text={formatAnswer(q.correctAnswer)} />
+                      </Typography>
+                    ))}
+                  </Box>
+                ))}
+                <Divider sx={{ my: 2 }} />
+                <Typography variant="caption" color="text.secondary">{results.disclaimer}</Typography>
+              </>
+            )}
+            <Box mt={2}>
+              <Button
+                variant="outlined"
+                onClick={() => {
+                  setExam(null);
+                  setResults(null);
+                  router.replace('/mock-exam', undefined, { shallow: true });
+                }}
+              >
+                Back to mock exams
+              </Button>
+            </Box>
+          </>
+        )}
+      </Paper>
+    </Box>
+  );
+}
@@ -30,6 +30,7 @@ import { useAuth } from '../context/AuthContext';
 import TopicDifficultyModal from '../components/TopicDifficultyModal';
 import styles from '../styles/Practice.module.css';
 import Spinner from '../components/Spinner';
+import ReviewSession from '../components/ReviewSession';
 
 /* ---------- Helpers ---------- */
 
@@ -180,6 +181,22 @@ export default function PracticePage(): JSX.Element {
   const [adaptiveMode, setAdaptiveMode] = useState(true);
   const [allowExplanations, setAllowExplanations] = useState(true);
 
+  // spaced-repetition review queue (missed questions)
+  const [reviewMode, setReviewMode] = useState(false);
+  const [reviewSummary, setReviewSummary] = useState<{ total: number; dueToday: number; nextDueAt: string | null } | null>(null);
+
+  const loadReviewSummary = useCallback(async () => {
+    if (!token) return;
+    try {
+      const res = await axios.get<any>(`${process.env.NEXT_PUBLIC_API_URL || ''}/review/summary`, { headers: { Authorization: `Bearer ${token}` } });
+      setReviewSummary(res.data ?? null);
+    } catch {
+      setReviewSummary(null);
+    }
+  }, [token]);
+
+  useEffect(() => { loadReviewSummary(); }, [loadReviewSummary]);
+
   // load usage & admin settings
   useEffect(() => {
     let mountedLocal = true;
@@ -604,7 +621,7 @@ export default function PracticePage(): JSX.Element {
       <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 3, gap: 2, flexWrap: 'wrap' }}>
         <Box sx={{ minWidth: 0 }}>
           <Typography variant="h4" sx={{ fontWeight: 800 }}>Practice</Typography>
-          <Typography color="text.secondary" sx={{ mt: 0.5 }}>Start guided practice, adaptive mode or resume a saved session.</Typography>
+          <Typography color="text.secondary" sx={{ mt: 0.5 }}>Start guided practice, adaptive mode, review missed questions or resume a saved session.</Typography>
         </Box>
 
         {/*
@@ -680,7 +697,34 @@ export default function PracticePage(): JSX.Element {
         </Box>
       )}
 
+      {reviewMode && (
+        <ReviewSession
+          authHeaders={() => (token ? { Authorization: `Bearer ${token}` } : {})}
+          onExit={() => { setReviewMode(false); loadReviewSummary(); }}
+        />
+      )}
+
       <Grid container spacing={3}>
+        <Grid item xs={12}>
+          <Paper className={`${styles.panel}`} elevation={1}>
+            <Stack direction={{ xs: 'column', sm: 'row' }} justifyContent="space-between" alignItems={{ xs: 'flex-start', sm: 'center' }} spacing={1}>
+              <Box>
+                <Typography variant="h6" sx={{ fontWeight: 800 }}>Review queue</Typography>
+                <Typography color="text.secondary">
+                  {reviewSummary?.dueToday
+                    ? `${reviewSummary.dueToday} missed question(s) due for review today.`
+                    : reviewSummary?.nextDueAt
+                      ? `Nothing due today. Next review ${new Date(reviewSummary.nextDueAt).toLocaleDateString()}.`
+                      : 'Questions you miss in tests are scheduled here for spaced review.'}
+                </Typography>
+              </Box>
+              <Button variant="contained" color="secondary" onClick={() => setReviewMode(true)} disabled={reviewMode} fullWidth={isMobile} sx={{ fontWeight: 700 }}>
+                {reviewSummary?.dueToday ? `Start review (${reviewSummary.dueToday})` : 'Open review'}
+              </Button>
+            </Stack>
+          </Paper>
+        </Grid>
+
         <Grid item xs={12} md={6}>
           <Paper className={`${styles.panel}`} elevation={1}>
             <Typography variant="h6" sx={{ fontWeight: 800 }}>Resume session</Typography>
@@ -720,6 +764,14 @@ export default function PracticePage(): JSX.Element {
                 </span>
               </Tooltip>
 
+              <Button component={Link} href="/adaptive" variant="text" sx={{ mt: 1, fontWeight: 700 }} fullWidth={isMobile}>
+                Adaptive practice (difficulty adjusts as you go)
+              </Button>
+
+              <Button component={Link} href="/mock-exam" variant="text" sx={{ fontWeight: 700 }} fullWidth={isMobile}>
+                Full-length SAT / ACT mock exam
+              </Button>
+
               {!canStartFinal && interactiveReady && <Typography color="warning.main" sx={{ mt: 1 }}>You have no tests remaining for today on your plan or your payment is not active.</Typography>}
             </Box>
           </Paper>
@@ -99,6 +99,8 @@ function normalizeServerRow(row: any) {
   }
 
   const { orderId, captureId } = extractPayPalIdsFromRaw(raw);
+  const refunds: any[] = Array.isArray(row?.refunds) ? row.refunds : [];
+  const refundedAmount = row?.refundedAmount ?? row?.refunded_amount ?? 0;
 
   return {
     id,
@@ -112,6 +114,8 @@ function normalizeServerRow(row: any) {
     createdAt,
     payerEmail,
     payerName,
+    refundedAmount: Number(refundedAmount ?? 0).toFixed(2),
+    refunds,
     raw,
   };
 }
@@ -265,6 +269,20 @@ export default function ReceiptPage(): JSX.Element {
             <Typography variant="body2">Date: <strong>{payment.createdAt ? new Date(payment.createdAt).toLocaleString() : "—"}</strong></Typography>
           </Box>
 
+          {payment.refunds?.length > 0 && (
+            <Box sx={{ mt: 2 }}>
+              <Typography variant="subtitle2">Refunds</Typography>
+              {payment.refunds.map((r: any) => (
+                <Typography key={r.id} variant="body2">
+                  {r.date ? new Date(r.date).toLocaleString() : "—"}: <strong>{r.amount} {r.currency}</strong> ({r.status}){r.reason ? ` — ${r.reason}` : ""}
+                </Typography>
+              ))}
+              <Typography variant="body2" sx={{ mt: 0.5 }}>
+                Total refunded: <strong>{payment.refundedAmount} {payment.currency ?? "USD"}</strong>
+              </Typography>
+            </Box>
+          )}
+
           <Box sx={{ mt: 2 }}>
             <Typography variant="subtitle2">Payer details</Typography>
             <Typography variant="body2">{payment.payerName ?? payment.payerEmail ?? "—"}</Typography>
@@ -82,6 +82,12 @@ export default function RefundPolicy(): JSX.Element {
               The time required for funds to appear in the User’s account depends on the User’s bank or card issuer.
             </p>
 
+            <p>
+              Refunds are returned to the PayPal account used for the purchase and are listed on the Transaction History page and on the receipt.
+              A full refund ends the paid plan for the refunded period; a partial refund shortens it in proportion to the amount refunded.
+              Refunding a recurring subscription payment in full also cancels the subscription.
+            </p>
+
             <p style={{ marginTop: 12, fontSize: 13, color: "#555" }}>
               Payments are processed securely via PayPal.
             </p>
@@ -14,24 +14,50 @@ import {
   Stack,
   Chip,
   Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  RadioGroup,
+  FormControlLabel,
+  Radio,
+  TextField,
+  Snackbar,
 } from '@mui/material';
-import { CheckCircleOutline, CancelOutlined, ExpandMore, ArrowBack } from '@mui/icons-material';
+import { CheckCircleOutline, CancelOutlined, ExpandMore, ArrowBack, FlagOutlined } from '@mui/icons-material';
 import axios from 'axios';
 import { useRouter } from 'next/router';
 import { useAuth } from '../context/AuthContext';
+import MathText from '../components/MathText';
+import { formatAnswer } from '../utils/questionTypes';
+import { readSseStream } from '../lib/sse';
 
 interface Explanation {
   id: number | string;
   question: string;
   yourAnswer?: string;
+  userAnswer?: string;
   correctAnswer?: string;
   isCorrect?: boolean;
   explanation?: string | null;
+  // explanation is still being generated (deferred submission); streamed in below
+  explanationPending?: boolean;
+  // hints shown for this question during the test
+  hintsUsed?: number;
 }
 
+// Reasons accepted by POST /tests/:id/reports
+const REPORT_REASONS: { value: string; label: string }[] = [
+  { value: 'wrong_answer', label: 'The answer key is wrong' },
+  { value: 'ambiguous', label: 'The question is ambiguous' },
+  { value: 'typo', label: 'Typo or formatting problem' },
+  { value: 'off_topic', label: 'Off-topic for this test' },
+];
+
 interface ReviewResponse {
   questions?: Explanation[] | any[];
   score?: number;
+  hintsUsed?: number;
   [k: string]: any;
 }
 
@@ -49,9 +75,58 @@ export default function ReviewPage(): JSX.Element {
   const [details, setDetails] = useState<Explanation[] | null>(null);
   const [loading, setLoading] = useState(true);
   const [score, setScore] = useState<number | null>(null);
+  const [hintsUsed, setHintsUsed] = useState<number>(0);
   const [error, setError] = useState<string | null>(null);
   const [openIndex, setOpenIndex] = useState<number | null>(null);
 
+  // "Report this question" dialog
+  const [reportTarget, setReportTarget] = useState<Explanation | null>(null);
+  const [reportReason, setReportReason] = useState<string>('wrong_answer');
+  const [reportComment, setReportComment] = useState<string>('');
+  const [reportSubmitting, setReportSubmitting] = useState<boolean>(false);
+  const [reportedIds, setReportedIds] = useState<Set<string>>(new Set());
+  const [snack, setSnack] = useState<{ severity: 'success' | 'error'; message: string } | null>(null);
+  const [streaming, setStreaming] = useState<boolean>(false);
+
+  const attemptId = Array.isArray(query.id) ? query.id[0] : query.id ? String(query.id) : null;
+
+  // Questions this student already reported on this attempt
+  useEffect(() => {
+    if (!mounted || !attemptId || !token) return;
+    axios
+      .get<any>(`${process.env.NEXT_PUBLIC_API_URL}/tests/${attemptId}/reports`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((res) => {
+        const items: any[] = Array.isArray(res.data?.items) ? res.data.items : [];
+        setReportedIds(new Set(items.map((r) => String(r.question_id))));
+      })
+      .catch(() => {});
+  }, [mounted, attemptId, token]);
+
+  async function submitReport() {
+    if (!reportTarget || !attemptId) return;
+    setReportSubmitting(true);
+    try {
+      await axios.post(
+        `${process.env.NEXT_PUBLIC_API_URL}/tests/${attemptId}/reports`,
+        { questionId: reportTarget.id, reason: reportReason, comment: reportComment || undefined },
+        { headers: token ? { Authorization: `Bearer ${token}` } : undefined },
+      );
+      setReportedIds((prev) => new Set(prev).add(String(reportTarget.id)));
+      setSnack({ severity: 'success', message: 'Thanks — our team will review this question.' });
+      setReportTarget(null);
+    } catch (err: any) {
+      setSnack({ severity: 'error', message: err?.response?.data?.message ?? 'Could not send the report.' });
+    } finally {
+      setReportSubmitting(false);
+    }
+  }
+
+  function openReport(q: Explanation) {
+    setReportTarget(q);
+    setReportReason('wrong_answer');
+    setReportComment('');
+  }
+
   useEffect(() => {
     // Only fetch on client after mount to avoid hydration mismatch
     if (!mounted) return;
@@ -75,6 +150,7 @@ export default function ReviewPage(): JSX.Element {
         // Keep explanation nullable to indicate "no explanation yet" if backend hasn't provided one
         setDetails(Array.isArray(data.questions) ? (data.questions as Explanation[]) : null);
         setScore(typeof data.score === 'number' ? data.score : null);
+        setHintsUsed(Number(data.hintsUsed) || 0);
       } catch (err: any) {
         const msg = err?.response?.data?.message ?? err?.response?.statusText ?? err?.message ?? 'Failed to load review';
         if (!cancelled) setError(String(msg));
@@ -90,6 +166,42 @@ export default function ReviewPage(): JSX.Element {
     };
   }, [mounted, user, token, query.id]);
 
+  const hasPending = Boolean(details?.some((q) => q.explanationPending));
+
+  // Explanations owed by a deferred submission arrive token by token over SSE
+  useEffect(() => {
+    if (!mounted || !attemptId || !token || !hasPending) return;
+    const controller = new AbortController();
+    const patch = (questionId: any, fn: (q: Explanation) => Explanation) =>
+      setDetails((prev) => (prev ? prev.map((q) => (String(q.id) === String(questionId) ? fn(q) : q)) : prev));
+
+    setStreaming(true);
+    readSseStream(
+      `${process.env.NEXT_PUBLIC_API_URL}/tests/${attemptId}/explanations/stream`,
+      { headers: { Authorization: `Bearer ${token}` }, signal: controller.signal },
+      (event, data) => {
+        if (event === 'start') {
+          const first = (details ?? []).findIndex((q) => String(q.id) === String(data?.pending?.[0]));
+          if (first >= 0) setOpenIndex((prev) => (prev == null ? first : prev));
+        } else if (event === 'token') {
+          patch(data.questionId, (q) => ({ ...q, explanation: (q.explanation ?? '') + data.delta }));
+        } else if (event === 'explanation') {
+          patch(data.questionId, (q) => ({ ...q, explanation: data.explanation, explanationPending: false }));
+        } else if (event === 'error') {
+          setSnack({ severity: 'error', message: data?.message ?? 'Could not load explanations.' });
+        }
+      },
+    )
+      .catch((err: any) => {
+        if (err?.name !== 'AbortError') setSnack({ severity: 'error', message: 'Explanation stream interrupted — reload to continue.' });
+      })
+      .finally(() => setStreaming(false));
+
+    return () => controller.abort();
+    // details is read only for the initial open-index hint; the stream must not restart on every token
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mounted, attemptId, token, hasPending]);
+
   function toggleExplanation(idx: number) {
     setOpenIndex((prev) => (prev === idx ? null : idx));
   }
@@ -131,12 +243,17 @@ export default function ReviewPage(): JSX.Element {
           </Typography>
         </Stack>
 
-        <Chip
-          label={`Score: ${score ?? '—'}`}
-          color="default"
-          variant="outlined"
-          sx={{ fontWeight: 600, borderRadius: 1.5 }}
-        />
+        <Stack direction="row" spacing={1} alignItems="center">
+          {(streaming || hasPending) && (
+            <Chip size="small" icon={<CircularProgress size={12} />} label="Writing explanations…" variant="outlined" />
+          )}
+          <Chip
+            label={`Score: ${score ?? '—'}${hintsUsed > 0 ? ' (with hints)' : ''}`}
+            color="default"
+            variant="outlined"
+            sx={{ fontWeight: 600, borderRadius: 1.5 }}
+          />
+        </Stack>
       </Stack>
 
       <Paper sx={{ p: 2, borderRadius: 2, boxShadow: 1 }}>
@@ -157,26 +274,39 @@ export default function ReviewPage(): JSX.Element {
 
                     <Box sx={{ flex: 1 }}>
                       <Typography variant="body1" sx={{ fontWeight: 600, mb: 0.5 }}>
-                        {idx + 1}. {q.question}
+                        {idx + 1}. <MathText text={q.question} />
                       </Typography>
 
                       <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 0.5 }}>
                         <Typography variant="body2" color="text.secondary">
                           Your answer:{' '}
                           <Typography component="span" sx={{ fontWeight: 700, color: correct ? 'text.primary' : 'error.main' }}>
-                            {q.yourAnswer ?? '—'}
+                            <MathText text={formatAnswer(q.yourAnswer ?? q.userAnswer) || '—'} />
                           </Typography>
                         </Typography>
 
                         <Typography variant="body2" color="text.secondary">
                           Correct:{' '}
                           <Typography component="span" sx={{ fontWeight: 700, color: 'text.primary' }}>
-                            {q.correctAnswer ?? '—'}
+                            <MathText text={formatAnswer(q.correctAnswer) || '—'} />
                           </Typography>
                         </Typography>
+
+                        {!!q.hintsUsed && (
+                          <Chip size="small" variant="outlined" label={`${q.hintsUsed} hint${q.hintsUsed === 1 ? '' : 's'} used`} />
+                        )}
                       </Box>
 
-                      <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+                      <Box sx={{ display: 'flex', justifyContent: 'flex-end', alignItems: 'center', gap: 1 }}>
+                        <Button
+                          size="small"
+                          startIcon={<FlagOutlined fontSize="small" />}
+                          onClick={() => openReport(q)}
+                          disabled={reportedIds.has(String(q.id))}
+                          sx={{ textTransform: 'none' }}
+                        >
+                          {reportedIds.has(String(q.id)) ? 'Reported' : 'Report'}
+                        </Button>
                         <IconButton
                           size="small"
                           onClick={() => toggleExplanation(idx)}
@@ -189,7 +319,7 @@ export default function ReviewPage(): JSX.Element {
                       <Collapse in={openIndex === idx} timeout="auto" unmountOnExit>
                         <Box sx={{ mt: 1, p: 1.25, bgcolor: '#fafafa', borderRadius: 1 }}>
                           <Typography variant="body2" color="text.secondary" sx={{ lineHeight: 1.6, whiteSpace: 'pre-wrap' }}>
-                            {q.explanation ?? 'No explanation available.'}
+                            {q.explanation ? <MathText text={q.explanation} /> : q.explanationPending ? 'Writing explanation…' : 'No explanation available.'}
                           </Typography>
                         </Box>
                       </Collapse>
@@ -203,6 +333,40 @@ export default function ReviewPage(): JSX.Element {
           })}
         </List>
       </Paper>
+
+      <Dialog open={!!reportTarget} onClose={() => setReportTarget(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Report this question</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            <MathText text={reportTarget?.question} />
+          </Typography>
+          <RadioGroup value={reportReason} onChange={(e) => setReportReason(e.target.value)}>
+            {REPORT_REASONS.map((r) => (
+              <FormControlLabel key={r.value} value={r.value} control={<Radio />} label={r.label} />
+            ))}
+          </RadioGroup>
+          <TextField
+            label="Details (optional)"
+            multiline
+            minRows={2}
+            fullWidth
+            value={reportComment}
+            onChange={(e) => setReportComment(e.target.value)}
+            inputProps={{ maxLength: 2000 }}
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setReportTarget(null)}>Cancel</Button>
+          <Button variant="contained" onClick={submitReport} disabled={reportSubmitting}>
+            {reportSubmitting ? <CircularProgress size={18} /> : 'Send report'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Snackbar open={!!snack} autoHideDuration={5000} onClose={() => setSnack(null)}>
+        {snack ? <Alert severity={snack.severity} onClose={() => setSnack(null)}>{snack.message}</Alert> : <span />}
+      </Snackbar>
     </Box>
   );
 }
\ No newline at end of file
@@ -5,6 +5,7 @@ import Features from "../components/Features";
 import Pricing from "../components/Pricing";
 import CTABanner from "../components/CTABanner";
 import ExamTrust from "../components/ExamTrust";
+import Link from "next/link";
 import layout from "../styles/Layout.module.css";
 
 // AI transparency / legal components
@@ -40,6 +41,9 @@ export default function SATPage(): JSX.Element {
             <p>
               Choose Pro or Tutor plans for SAT-focused modules, full practice tests, and unlimited explanations. Our study plans adapt to your strengths and show which question types to prioritize.
             </p>
+            <p>
+              <Link href="/mock-exam">Take a full-length SAT mock exam</Link> with timed sections, breaks and an estimated scaled score.
+            </p>
           </section>
 
           <Pricing />
@@ -274,6 +274,8 @@ export default function SubscriptionPage(): JSX.Element {
   const [allowedChangeTargets, setAllowedChangeTargets] = useState<string[] | null>(null);
 
   const [reactivateDialogOpen, setReactivateDialogOpen] = useState(false);
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+  const [scheduledChange, setScheduledChange] = useState<any | null>(null);
   const [reactivatePayload, setReactivatePayload] = useState<{ plan: string; amount: string; limits: string[] } | null>(null);
 
   const [mounted, setMounted] = useState(false);
@@ -388,6 +390,66 @@ export default function SubscriptionPage(): JSX.Element {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [token]);
 
+  /* ---------- Scheduled downgrade (applied at the end of the paid period) ---------- */
+  useEffect(() => {
+    if (!token) return;
+    (async () => {
+      try {
+        const url = (apiBase ? `${apiBase}` : "") + "/api/payments/plan-change";
+        const res = await axios.get<any>(url, { headers, withCredentials: true });
+        setScheduledChange(res?.data?.scheduled ?? null);
+      } catch {
+        setScheduledChange(null);
+      }
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  async function cancelScheduledChange() {
+    setBusy(true);
+    try {
+      const url = (apiBase ? `${apiBase}` : "") + "/api/payments/plan-change";
+      await axios.delete(url, { headers, withCredentials: true });
+      setScheduledChange(null);
+      setSnack({ severity: "success", message: "Scheduled plan change cancelled." });
+    } catch (err: any) {
+      setSnack({ severity: "error", message: err?.response?.data?.message ?? "Unable to cancel the plan change." });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /* ---------- PayPal subscription approval return (?subscription_id=...) ---------- */
+  useEffect(() => {
+    const subscriptionId = router.query?.subscription_id;
+    if (!token || typeof subscriptionId !== "string" || !subscriptionId) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const url = (apiBase ? `${apiBase}` : "") + `/api/payments/subscriptions/${encodeURIComponent(subscriptionId)}/confirm`;
+        const res = await axios.post<any>(url, {}, { headers, withCredentials: true });
+        if (cancelled) return;
+        const data = res?.data ?? null;
+        if (data) setSub(data);
+        await fetchPaymentStatus();
+        setSnack(
+          data?.billing_status === "active"
+            ? { severity: "success", message: "Subscription active. Thank you!" }
+            : { severity: "info", message: "Subscription approved — activation can take a minute." },
+        );
+      } catch (err: any) {
+        console.warn("confirm subscription failed", err);
+        if (!cancelled) setSnack({ severity: "error", message: err?.response?.data?.message ?? "Unable to confirm your subscription." });
+      } finally {
+        if (!cancelled) router.replace("/subscription", undefined, { shallow: true }).catch(() => {});
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, router.query?.subscription_id]);
+
   /* ---------- Invoices fetching (server returns user-scoped invoices) ---------- */
   const fetchInvoices = async () => {
     if (!token) return null;
@@ -899,8 +961,56 @@ export default function SubscriptionPage(): JSX.Element {
     }
   }
 
+  /* ---------- Recurring subscription (PayPal) ---------- */
+  const hasRecurring = Boolean(sub?.subscription_id);
+  const canCancelAutoRenew =
+    hasRecurring && ["active", "past_due"].includes(String(sub?.billing_status)) && !sub?.cancel_at_period_end;
+
+  async function confirmCancelAutoRenew() {
+    setCancelDialogOpen(false);
+    setBusy(true);
+    try {
+      const url = (apiBase ? `${apiBase}` : "") + "/api/payments/cancel";
+      const res = await axios.post<any>(url, {}, { headers, withCredentials: true });
+      if (res?.data) setSub(res.data);
+      await fetchPaymentStatus();
+      setSnack({ severity: "success", message: "Auto-renew cancelled. You keep access until the end of the paid period." });
+    } catch (err: any) {
+      console.warn("cancel subscription failed", err);
+      setSnack({ severity: "error", message: err?.response?.data?.message ?? "Unable to cancel the subscription." });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // Suspended subscriptions resume in place; cancelled/expired ones need a fresh PayPal approval
+  async function resumeRecurring() {
+    setBusy(true);
+    try {
+      const url = (apiBase ? `${apiBase}` : "") + "/api/payments/reactivate";
+      const res = await axios.post<any>(url, {}, { headers, withCredentials: true });
+      const data = res?.data ?? null;
+      if (data?.approve_url) {
+        window.location.href = data.approve_url;
+        return;
+      }
+      if (data) setSub(data);
+      await fetchPaymentStatus();
+      setSnack({ severity: "success", message: "Subscription reactivated." });
+    } catch (err: any) {
+      console.warn("reactivate subscription failed", err);
+      setSnack({ severity: "error", message: err?.response?.data?.message ?? "Unable to reactivate the subscription." });
+    } finally {
+      setBusy(false);
+    }
+  }
+
   /* ---------- Reactivate ---------- */
   function doReactivate() {
+    if (hasRecurring && (sub?.cancel_at_period_end || ["cancelled", "suspended", "expired"].includes(String(sub?.billing_status)))) {
+      resumeRecurring();
+      return;
+    }
     const planCandidate = resolvedPlan || "Pro";
     const price = mapPlanPrice(planCandidate, billingPeriod);
     const limits = getPlanLimits(planCandidate);
@@ -1171,6 +1281,20 @@ export default function SubscriptionPage(): JSX.Element {
         </Box>
       )}
 
+      {scheduledChange && (
+        <Box sx={{ mb: 2 }}>
+          <Alert
+            severity="info"
+            action={
+              <Button color="inherit" size="small" onClick={cancelScheduledChange} disabled={busy}>Keep current plan</Button>
+            }
+          >
+            Switching to <strong>{scheduledChange.to_plan}</strong> ({scheduledChange.to_period}) on{" "}
+            {new Date(scheduledChange.effective_at).toLocaleDateString()}.
+          </Alert>
+        </Box>
+      )}
+
       <Grid container spacing={3}>
         <Grid item xs={12} md={6}>
           <Paper sx={{ p: { xs: 2, md: 3 } }}>
@@ -1213,10 +1337,16 @@ export default function SubscriptionPage(): JSX.Element {
                 Manage billing
               </Button>
 
-              <Button variant="contained" onClick={() => doReactivate()} disabled={busy || (billingInfo.status === "active")} sx={{ width: { xs: "100%", sm: "auto" } }}>
+              <Button variant="contained" onClick={() => doReactivate()} disabled={busy || (billingInfo.status === "active" && !sub?.cancel_at_period_end)} sx={{ width: { xs: "100%", sm: "auto" } }}>
                 Reactivate
               </Button>
 
+              {canCancelAutoRenew && (
+                <Button variant="outlined" color="error" onClick={() => setCancelDialogOpen(true)} disabled={busy} sx={{ textTransform: "none", width: { xs: "100%", sm: "auto" } }}>
+                  Cancel auto-renew
+                </Button>
+              )}
+
               <Button variant="text" onClick={handleOpenChangePlan} sx={{ width: { xs: "100%", sm: "auto" } }}>
                 Change plan
               </Button>
@@ -1502,6 +1632,21 @@ export default function SubscriptionPage(): JSX.Element {
         </DialogActions>
       </Dialog>
 
+      {/* Cancel auto-renew dialog */}
+      <Dialog open={cancelDialogOpen} onClose={() => setCancelDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Cancel auto-renew</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2">
+            Your PayPal subscription will stop renewing. You keep your current plan until{" "}
+            <strong>{sub?.current_period_end ? new Date(sub.current_period_end).toLocaleDateString() : "the end of the paid period"}</strong>.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCancelDialogOpen(false)}>Keep subscription</Button>
+          <Button variant="contained" color="error" onClick={confirmCancelAutoRenew} disabled={busy}>Cancel auto-renew</Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Complete payment dialog */}
       <Dialog open={completePaymentDialogOpen} onClose={closeCompletePaymentDialog} maxWidth="xs" fullWidth>
         <DialogTitle>Complete payment</DialogTitle>
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   Box,
   Typography,
@@ -15,16 +15,22 @@ import {
   LinearProgress,
   TextField,
   FormControl,
+  Chip,
 } from '@mui/material';
 import axios from 'axios';
 import { useAuth } from '../context/AuthContext';
 import Link from 'next/link';
 import { useRouter } from 'next/router';
+import MathText from '../components/MathText';
+import QuestionInput from '../components/QuestionInput';
+import QuestionHints from '../components/QuestionHints';
+import { AnswerValue, QuestionType, isAnswered, isTextEntry } from '../utils/questionTypes';
 
 interface Question {
   id?: number | string;
   question: string;
   options?: string[];
+  type?: QuestionType;
   [k: string]: any;
 }
 
@@ -38,9 +44,22 @@ function getLocalAuthToken(): string | null {
   }
 }
 
+// mm:ss for the countdown chip
+function formatClock(totalSeconds: number): string {
+  const m = Math.floor(totalSeconds / 60);
+  const s = totalSeconds % 60;
+  return `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+}
+
+// Debounce for autosaving answers / current question to the server
+const AUTOSAVE_DELAY_MS = 1500;
+
 /**
- * Test page that prefers LAST_CREATED_TEST / pendingTestSubmission saved payloads,
- * falls back to session endpoints, and finally calls ai/generate-test if necessary.
+ * Test page. A ?session=<id> is restored from the server (tests/:id/resume: questions, autosaved
+ * answers, current question and clock) so a test can be continued on another device; older
+ * LAST_CREATED_TEST / pendingTestSubmission payloads and session endpoints are fallbacks, and
+ * finally a session is created via tests/create-from-ai. Answers are autosaved while testing.
+ * Timed sessions show a countdown driven by the server deadline and auto-submit at zero.
  * It persists any generated payload to LAST_CREATED_TEST so TestSubmission (runner)
  * can read it reliably.
  */
@@ -52,7 +71,9 @@ export default function TestPage(): JSX.Element {
   const [topic, setTopic] = useState<string>('');
   const [difficulty, setDifficulty] = useState<string>('beginner');
   const [questions, setQuestions] = useState<Question[]>([]);
-  const [answers, setAnswers] = useState<{ [qid: string]: string }>({});
+  const [answers, setAnswers] = useState<{ [qid: string]: AnswerValue }>({});
+  // hints shown so far per question id (recorded on the attempt by the server)
+  const [hints, setHints] = useState<{ [qid: string]: string[] }>({});
   const [step, setStep] = useState<number>(0);
   const [submitting, setSubmitting] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(false);
@@ -61,6 +82,26 @@ export default function TestPage(): JSX.Element {
   const [requestedCount, setRequestedCount] = useState<number>(5);
   const [useExplanations, setUseExplanations] = useState<boolean>(false);
 
+  // Timed sessions: deadline comes from the server; clockOffsetMs corrects for device clock skew
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [deadlineAt, setDeadlineAt] = useState<number | null>(null);
+  const [clockOffsetMs, setClockOffsetMs] = useState<number>(0);
+  const [remainingSeconds, setRemainingSeconds] = useState<number | null>(null);
+  const autoSubmittedRef = useRef<boolean>(false);
+
+  // Autosave: currentIndex is the question the student is on; dirtyRef marks unsaved changes
+  const [currentIndex, setCurrentIndex] = useState<number>(0);
+  const [saveState, setSaveState] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const dirtyRef = useRef<boolean>(false);
+  const questionRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const scrollToIndexRef = useRef<number | null>(null);
+  const submitRef = useRef<(auto?: boolean) => Promise<void>>(async () => {});
+
+  // Per-question pacing sent with the submission: dwell time accrues to the question the
+  // student is working on (last focused, hovered or answered); answerChanges counts switches.
+  const timingsRef = useRef<Record<string, { ms: number; answerChanges: number }>>({});
+  const activeRef = useRef<{ qid: string; since: number | null } | null>(null);
+
   const topics = ['Algebra', 'Geometry', 'Logic', 'Calculus', 'Statistics', 'Indices'];
 
   // Read query params into local state
@@ -88,6 +129,49 @@ export default function TestPage(): JSX.Element {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [query?.session, query?.id]);
 
+  function applyTiming(data: any) {
+    if (!data) return;
+    if (data.serverTime) setClockOffsetMs(new Date(data.serverTime).getTime() - Date.now());
+    setDeadlineAt(data.deadlineAt ? new Date(data.deadlineAt).getTime() : null);
+  }
+
+  // Re-read the authoritative deadline for this session from the server
+  async function syncTiming(id: string) {
+    const token = user?.token || getLocalAuthToken();
+    if (!token) return;
+    try {
+      const res = await axios.get<any>(`${process.env.NEXT_PUBLIC_API_URL}/tests/${id}/time`, { headers: { Authorization: `Bearer ${token}` }, timeout: 10000 });
+      applyTiming(res.data);
+      if (res.data?.status === 'expired') setLoadError('Time is up — this test session has expired.');
+    } catch (err) {
+      // untimed or legacy session; keep whatever timing we already have
+    }
+  }
+
+  useEffect(() => {
+    if (step === 1 && sessionId) syncTiming(sessionId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [step, sessionId]);
+
+  // Countdown tick; auto-submits once when the server deadline is reached
+  useEffect(() => {
+    if (step !== 1 || deadlineAt == null) {
+      setRemainingSeconds(null);
+      return;
+    }
+    const tick = () => {
+      const left = Math.max(0, Math.floor((deadlineAt - (Date.now() + clockOffsetMs)) / 1000));
+      setRemainingSeconds(left);
+      if (left === 0 && !autoSubmittedRef.current) {
+        autoSubmittedRef.current = true;
+        submitRef.current(true);
+      }
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [step, deadlineAt, clockOffsetMs]);
+
   // Read candidate payloads from sessionStorage
   function readCandidatePayload(): { payload: any; token?: string | null; sessionId?: string | number | null } | null {
     if (typeof window === 'undefined') return null;
@@ -117,10 +201,48 @@ export default function TestPage(): JSX.Element {
     return null;
   }
 
+  // Restore a started attempt from the server. Returns false when the caller should try the fallbacks.
+  async function resumeFromServer(id: string): Promise<boolean> {
+    const token = user?.token || getLocalAuthToken();
+    if (!token) return false;
+    try {
+      const res = await axios.get<any>(`${process.env.NEXT_PUBLIC_API_URL}/tests/${id}/resume`, { headers: { Authorization: `Bearer ${token}` }, timeout: 10000 });
+      const data = res.data ?? {};
+      if (!Array.isArray(data.questions) || data.questions.length === 0) return false;
+      setQuestions(data.questions);
+      setAnswers(data.answers && typeof data.answers === 'object' ? data.answers : {});
+      setHints(data.hints && typeof data.hints === 'object' ? data.hints : {});
+      if (data.topic) setTopic(data.topic);
+      if (data.difficulty) setDifficulty(data.difficulty);
+      const index = Number(data.currentIndex) || 0;
+      setCurrentIndex(index);
+      scrollToIndexRef.current = index > 0 ? index : null;
+      applyTiming(data);
+      setSaveState(data.progressSavedAt ? 'saved' : 'idle');
+      setStep(1);
+      return true;
+    } catch (err: any) {
+      const status = err?.response?.status;
+      // submitted or expired: nothing to resume
+      if (status === 400 || status === 403) {
+        setLoadError(err?.response?.data?.message || 'This test can no longer be resumed.');
+        return true;
+      }
+      return false;
+    }
+  }
+
   // Main session/test loading logic
   async function fetchSessionAndPopulate(sessionId: string) {
     setLoading(true);
     setLoadError(null);
+    setSessionId(sessionId);
+
+    // 0) The server copy (with autosaved answers) wins over anything stored on this device
+    if (await resumeFromServer(sessionId)) {
+      setLoading(false);
+      return;
+    }
 
     // 1) Prefer saved LAST_CREATED_TEST if it matches sessionId
     try {
@@ -194,7 +316,7 @@ export default function TestPage(): JSX.Element {
       }
     }
 
-    // 4) Fallback: generate now with ai/generate-test (send multiple count keys)
+    // 4) Fallback: create a new server session with tests/create-from-ai (send multiple count keys)
     const fallbackTopic = topic || (query?.topic ? (Array.isArray(query.topic) ? query.topic[0] : String(query.topic)) : undefined);
     const fallbackDifficulty = difficulty || (query?.difficulty ? (Array.isArray(query.difficulty) ? query.difficulty[0] : String(query.difficulty)) : undefined);
     const fallbackCount = query?.questionCount ? Number(Array.isArray(query.questionCount) ? query.questionCount[0] : query.questionCount) : requestedCount;
@@ -214,15 +336,18 @@ export default function TestPage(): JSX.Element {
         count: fallbackCount,
         useExplanations,
       };
-      const res = await axios.post(`${process.env.NEXT_PUBLIC_API_URL}/ai/generate-test`, genReq, { headers: { Authorization: `Bearer ${token}` }, timeout: 120000 });
+      const res = await axios.post<any>(`${process.env.NEXT_PUBLIC_API_URL}/tests/create-from-ai`, genReq, { headers: { Authorization: `Bearer ${token}` }, timeout: 120000 });
       const genQuestions = res.data?.questions ?? res.data?.items ?? res.data?.test?.questions ?? [];
       if (Array.isArray(genQuestions) && genQuestions.length > 0) {
+        const newSessionId = res.data?.sessionId != null ? String(res.data.sessionId) : sessionId;
         setQuestions(genQuestions);
         setTopic(fallbackTopic);
         if (fallbackDifficulty) setDifficulty(fallbackDifficulty);
+        setSessionId(newSessionId);
+        applyTiming(res.data);
         setStep(1);
         try {
-          const saved = { sessionId, payload: res.data, token, metadata: { topic: fallbackTopic, difficulty: fallbackDifficulty, questionCount: fallbackCount, useExplanations } };
+          const saved = { sessionId: newSessionId, payload: res.data, token, metadata: { topic: fallbackTopic, difficulty: fallbackDifficulty, questionCount: fallbackCount, useExplanations } };
           sessionStorage.setItem('LAST_CREATED_TEST', JSON.stringify(saved));
         } catch {}
         setLoading(false);
@@ -232,7 +357,7 @@ export default function TestPage(): JSX.Element {
       }
     } catch (err: any) {
       setLoadError(err?.response?.data?.message || 'Failed to generate test.');
-      console.error('generate-test fallback error', err?.response ?? err);
+      console.error('create-from-ai fallback error', err?.response ?? err);
     } finally {
       setLoading(false);
     }
@@ -257,11 +382,20 @@ export default function TestPage(): JSX.Element {
         count: requestedCount,
         useExplanations,
       };
-      const res = await axios.post(`${process.env.NEXT_PUBLIC_API_URL}/ai/generate-test`, body, { headers: { Authorization: `Bearer ${token}` }, timeout: 120000 });
+      const res = await axios.post<any>(`${process.env.NEXT_PUBLIC_API_URL}/tests/create-from-ai`, body, { headers: { Authorization: `Bearer ${token}` }, timeout: 120000 });
       const q = res.data?.questions ?? res.data?.items ?? res.data?.test?.questions ?? [];
       if (Array.isArray(q) && q.length > 0) {
+        const newSessionId = res.data?.sessionId != null ? String(res.data.sessionId) : null;
         setQuestions(q);
+        setAnswers({});
+        setHints({});
+        setCurrentIndex(0);
+        setSaveState('idle');
+        setSessionId(newSessionId);
+        applyTiming(res.data);
         setStep(1);
+        // reloads and other devices resume this session from the server
+        if (newSessionId) router.replace({ pathname: router.pathname, query: { session: newSessionId } }, undefined, { shallow: true }).catch(() => {});
         try {
           const saved = { sessionId: res.data?.sessionId ?? null, payload: res.data, token, metadata: { topic, difficulty, questionCount: requestedCount, useExplanations } };
           sessionStorage.setItem('LAST_CREATED_TEST', JSON.stringify(saved));
@@ -277,18 +411,133 @@ export default function TestPage(): JSX.Element {
     }
   };
 
-  const handleAnswer = (qid: number | string, value: string) => {
-    setAnswers((prev) => ({ ...prev, [String(qid)]: value }));
+  function timingEntry(qid: string) {
+    if (!timingsRef.current[qid]) timingsRef.current[qid] = { ms: 0, answerChanges: 0 };
+    return timingsRef.current[qid];
+  }
+
+  // Close the running interval of the active question (or pause when the tab is hidden)
+  function flushActive(pause = false) {
+    const active = activeRef.current;
+    if (!active) return;
+    const now = Date.now();
+    if (active.since != null) timingEntry(active.qid).ms += now - active.since;
+    active.since = pause ? null : now;
+  }
+
+  function focusQuestion(qid: number | string, index?: number) {
+    const key = String(qid);
+    if (index != null && index !== currentIndex) {
+      setCurrentIndex(index);
+      dirtyRef.current = true;
+    }
+    if (activeRef.current?.qid === key && activeRef.current.since != null) return;
+    flushActive();
+    activeRef.current = { qid: key, since: Date.now() };
+  }
+
+  function collectTimings(): Record<string, { timeSeconds: number; answerChanges: number }> {
+    flushActive();
+    const out: Record<string, { timeSeconds: number; answerChanges: number }> = {};
+    for (const [qid, t] of Object.entries(timingsRef.current)) {
+      out[qid] = { timeSeconds: Math.round(t.ms / 1000), answerChanges: t.answerChanges };
+    }
+    return out;
+  }
+
+  // New question set -> fresh pacing data
+  useEffect(() => {
+    timingsRef.current = {};
+    activeRef.current = null;
+  }, [questions]);
+
+  // Time spent in another tab is not counted as dwell time
+  useEffect(() => {
+    if (typeof document === 'undefined') return;
+    const onVisibility = () => {
+      if (document.hidden) flushActive(true);
+      else if (activeRef.current) activeRef.current.since = Date.now();
+    };
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => document.removeEventListener('visibilitychange', onVisibility);
+  }, []);
+
+  const handleAnswer = (qid: number | string, value: AnswerValue, index?: number) => {
+    const key = String(qid);
+    const previous = answers[key];
+    // keystrokes in a typed answer are not answer changes
+    const typed = index != null && isTextEntry(questions[index]?.type);
+    if (previous !== undefined && previous !== value && !typed) timingEntry(key).answerChanges += 1;
+    focusQuestion(key, index);
+    dirtyRef.current = true;
+    setAnswers((prev) => ({ ...prev, [key]: value }));
   };
 
+  // a cleared text field or an empty multi-select does not count as answered
+  const answeredCount = Object.values(answers).filter(isAnswered).length;
+
+  // PATCH the current answers and question index onto the started attempt
+  async function saveProgress() {
+    const token = user?.token || getLocalAuthToken();
+    if (!token || !sessionId || !dirtyRef.current || autoSubmittedRef.current) return;
+    dirtyRef.current = false;
+    setSaveState('saving');
+    try {
+      await axios.patch<any>(
+        `${process.env.NEXT_PUBLIC_API_URL}/tests/${sessionId}/progress`,
+        { answers, currentIndex },
+        { headers: { Authorization: `Bearer ${token}` }, timeout: 10000 },
+      );
+      setSaveState('saved');
+    } catch (err: any) {
+      const status = err?.response?.status;
+      if (status === 400 || status === 403) {
+        setLoadError(err?.response?.data?.message || 'This test can no longer be saved.');
+      } else {
+        // network hiccup: retry with the next change or when the tab is hidden
+        dirtyRef.current = true;
+      }
+      setSaveState('error');
+    }
+  }
+
+  const saveProgressRef = useRef<() => Promise<void>>(async () => {});
+  saveProgressRef.current = saveProgress;
+
+  // Debounced autosave while the test is in progress
+  useEffect(() => {
+    if (step !== 1 || !sessionId || !dirtyRef.current) return;
+    const timer = setTimeout(() => saveProgressRef.current(), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [answers, currentIndex, step, sessionId]);
+
+  // Save right away when the student switches tab or closes the page
+  useEffect(() => {
+    if (typeof document === 'undefined') return;
+    const onHide = () => {
+      if (document.hidden) saveProgressRef.current();
+    };
+    document.addEventListener('visibilitychange', onHide);
+    return () => document.removeEventListener('visibilitychange', onHide);
+  }, []);
+
+  // Bring the resumed question into view once the questions have rendered
+  useEffect(() => {
+    const index = scrollToIndexRef.current;
+    if (step !== 1 || index == null) return;
+    scrollToIndexRef.current = null;
+    questionRefs.current[index]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [step, questions]);
+
   // Submit: persist pendingTestSubmission and navigate to runner (/test/submit)
-  const handleSubmit = async () => {
+  // auto=true when the countdown hits zero: unanswered questions are submitted as blank.
+  const handleSubmit = async (auto = false) => {
     const token = user?.token || getLocalAuthToken();
     if (!token) {
       setLoadError('You must be logged in to submit the test.');
       return;
     }
-    if (questions.length > 0 && Object.keys(answers).length !== questions.length) {
+    if (!auto && questions.length > 0 && answeredCount !== questions.length) {
       setLoadError('Please answer all questions before submitting.');
       return;
     }
@@ -303,6 +552,9 @@ export default function TestPage(): JSX.Element {
       difficulty,
       questionCount: questions.length,
       useExplanations,
+      sessionId,
+      autoSubmitted: auto,
+      timings: collectTimings(),
     };
 
     try {
@@ -326,6 +578,8 @@ export default function TestPage(): JSX.Element {
     }
   };
 
+  submitRef.current = handleSubmit;
+
   if (!user && !getLocalAuthToken()) {
     return (
       <Typography>
@@ -382,7 +636,7 @@ export default function TestPage(): JSX.Element {
           </>
         ) : (
           <>
-            <Stepper activeStep={Object.keys(answers).length} alternativeLabel>
+            <Stepper activeStep={answeredCount} alternativeLabel>
               {questions.map((_, idx) => (
                 <Step key={idx}>
                   <StepLabel>Q{idx + 1}</StepLabel>
@@ -390,25 +644,56 @@ export default function TestPage(): JSX.Element {
               ))}
             </Stepper>
 
-            <LinearProgress variant="determinate" value={questions.length ? (Object.keys(answers).length / questions.length) * 100 : 0} sx={{ my: 2 }} />
+            <LinearProgress variant="determinate" value={questions.length ? (answeredCount / questions.length) * 100 : 0} sx={{ my: 2 }} />
+
+            {(remainingSeconds !== null || saveState !== 'idle') && (
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', alignItems: 'center', gap: 2, mb: 2 }}>
+                {saveState !== 'idle' && (
+                  <Typography variant="caption" color={saveState === 'error' ? 'error' : 'text.secondary'}>
+                    {saveState === 'saving' ? 'Saving…' : saveState === 'saved' ? 'Progress saved' : 'Not saved — will retry'}
+                  </Typography>
+                )}
+                {remainingSeconds !== null && (
+                  <Chip
+                    aria-live="polite"
+                    label={remainingSeconds > 0 ? `Time left ${formatClock(remainingSeconds)}` : 'Time is up — submitting…'}
+                    color={remainingSeconds <= 60 ? 'error' : remainingSeconds <= 300 ? 'warning' : 'default'}
+                    variant={remainingSeconds <= 300 ? 'filled' : 'outlined'}
+                    sx={{ fontWeight: 700, fontVariantNumeric: 'tabular-nums' }}
+                  />
+                )}
+              </Box>
+            )}
 
             {questions.map((q, idx) => (
-              <Box key={String(q.id ?? idx)} sx={{ mb: 3 }}>
+              <Box
+                key={String(q.id ?? idx)}
+                ref={(el: HTMLDivElement | null) => { questionRefs.current[idx] = el; }}
+                sx={{ mb: 3 }}
+                onMouseEnter={() => focusQuestion(q.id ?? idx)}
+                onFocusCapture={() => focusQuestion(q.id ?? idx, idx)}
+              >
                 <Typography variant="h6" mb={1}>
-                  {idx + 1}. {q.question}
+                  {idx + 1}. <MathText text={q.question} />
                 </Typography>
-                <RadioGroup value={answers[String(q.id ?? idx)] || ''} onChange={(e) => handleAnswer(q.id ?? idx, e.target.value)}>
-                  {(q.options ?? []).map((opt: string) => (
-                    <FormControlLabel key={opt} value={opt} control={<Radio />} label={opt} />
-                  ))}
-                </RadioGroup>
+                <QuestionInput question={q} value={answers[String(q.id ?? idx)]} onChange={(value) => handleAnswer(q.id ?? idx, value, idx)} />
+                {sessionId && q.id != null && (
+                  <QuestionHints
+                    sessionId={sessionId}
+                    questionId={q.id}
+                    token={user?.token || getLocalAuthToken()}
+                    hints={hints[String(q.id)] ?? []}
+                    onHints={(list) => setHints((prev) => ({ ...prev, [String(q.id)]: list }))}
+                    disabled={remainingSeconds === 0}
+                  />
+                )}
               </Box>
             ))}
 
             {loadError && <Typography color="error" sx={{ mb: 2 }}>{loadError}</Typography>}
 
             <Box sx={{ mt: 2 }}>
-              <Button variant="contained" color="success" disabled={Object.keys(answers).length !== questions.length || submitting} onClick={handleSubmit}>
+              <Button variant="contained" color="success" disabled={answeredCount !== questions.length || submitting} onClick={() => handleSubmit()}>
                 {submitting ? <CircularProgress size={20} /> : 'Submit Test'}
               </Button>
             </Box>
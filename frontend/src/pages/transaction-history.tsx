@@ -40,6 +40,15 @@ import DeleteIcon from "@mui/icons-material/Delete";
 
 type InvoiceStatus = string;
 
+type Refund = {
+  id: number;
+  amount: string;
+  currency: string;
+  status: string;
+  reason?: string | null;
+  date: string;
+};
+
 type Invoice = {
   id: string;
   plan: string;
@@ -50,6 +59,8 @@ type Invoice = {
   receipt_url?: string | null;
   reason?: string | null;
   changeTo?: string | null;
+  refundedAmount?: string | null;
+  refunds?: Refund[];
   raw?: any;
   __synthetic?: boolean;
 };
@@ -57,6 +68,9 @@ type Invoice = {
 const INVOICES_CACHE_KEY = "cached_invoices_v1";
 const LAST_CREATED_KEY = "last_created_payment";
 
+// statuses listed under "Paid invoices" (refunded payments stay there with a refund chip)
+const PAID_STATUSES = ["paid", "completed", "succeeded", "success", "partially_refunded", "refunded"];
+
 /* ---------- Invoice helpers ---------- */
 function tryParseRaw(raw: any) {
   if (!raw) return null;
@@ -103,6 +117,8 @@ function normalizeInvoiceShape(raw: any): Invoice {
     receipt_url: parsed?.receipt_url ?? parsed?.receiptUrl ?? null,
     reason,
     changeTo: parsed?.change_to ?? parsed?.changeTo ?? null,
+    refundedAmount: parsed?.refunded_amount ?? parsed?.refundedAmount ?? null,
+    refunds: Array.isArray(parsed?.refunds) ? parsed.refunds : [],
     raw: parsed,
     __synthetic: Boolean(parsed?.__synthetic),
   };
@@ -133,6 +149,12 @@ function statusChip(inv: Invoice) {
   if (["paid", "completed", "succeeded", "success"].includes(s)) {
     return <Chip label="Paid" color="success" size="small" />;
   }
+  if (s === "refunded") {
+    return <Chip label="Refunded" color="info" size="small" />;
+  }
+  if (s === "partially_refunded") {
+    return <Chip label="Partially refunded" color="info" variant="outlined" size="small" />;
+  }
   if (s.includes("past") || s.includes("due")) {
     return <Chip label="Past due" color="error" size="small" />;
   }
@@ -400,7 +422,7 @@ export default function TransactionHistoryPage(): JSX.Element {
     return s === "pending" || s === "pending_local";
   }), [filteredInvoices]);
 
-  const paidInvoices = useMemo(() => filteredInvoices.filter((i) => ["paid","completed","succeeded","success"].includes(String(i.status).toLowerCase())), [filteredInvoices]);
+  const paidInvoices = useMemo(() => filteredInvoices.filter((i) => PAID_STATUSES.includes(String(i.status).toLowerCase())), [filteredInvoices]);
 
   function openView(inv: Invoice) { setSelectedInvoice(inv); setViewOpen(true); }
   function closeView() { setSelectedInvoice(null); setViewOpen(false); }
@@ -554,6 +576,8 @@ export default function TransactionHistoryPage(): JSX.Element {
                     <MenuItem value="paid">Paid</MenuItem>
                     <MenuItem value="past_due">Past due</MenuItem>
                     <MenuItem value="cancelled">Cancelled</MenuItem>
+                    <MenuItem value="partially_refunded">Partially refunded</MenuItem>
+                    <MenuItem value="refunded">Refunded</MenuItem>
                   </Select>
                 </FormControl>
               </Grid>
@@ -767,7 +791,7 @@ export default function TransactionHistoryPage(): JSX.Element {
                           <ListItem key={key} sx={{ py:2, px:0, borderBottom:"1px solid", borderColor:"divider", alignItems:"flex-start" }}>
                             <ListItemText
                               primary={<Box sx={{ display:"flex", gap:2, alignItems:"baseline", flexWrap:"wrap" }}><Typography sx={{ fontWeight:700 }}>{inv.plan}</Typography><Typography variant="caption" color="text.secondary">{formatDate(inv.issuedAt)}</Typography></Box>}
-                              secondary={<Box sx={{ display:"flex", gap:2, alignItems:"center", mt:1 }}><Typography variant="subtitle1" sx={{ fontWeight:700 }}>{inv.amount} {inv.currency}</Typography><Typography variant="caption" color="text.secondary">{inv.reason ?? ""}</Typography></Box>}
+                              secondary={<Box sx={{ display:"flex", gap:2, alignItems:"center", mt:1, flexWrap:"wrap" }}><Typography variant="subtitle1" sx={{ fontWeight:700 }}>{inv.amount} {inv.currency}</Typography>{Number(inv.refundedAmount ?? 0) > 0 && (<Typography variant="caption" color="info.main">Refunded {inv.refundedAmount} {inv.currency}</Typography>)}<Typography variant="caption" color="text.secondary">{inv.reason ?? ""}</Typography></Box>}
                             />
                             <Box sx={{ display:"flex", gap:1, ml:2, alignItems:"center" }}>
                               {statusChip(inv)}
@@ -807,6 +831,17 @@ export default function TransactionHistoryPage(): JSX.Element {
               <Typography variant="subtitle2">Reason</Typography>
               <Typography variant="body2" color="text.secondary" sx={{ mb:1 }}>{selectedInvoice.reason ?? "—"}</Typography>
 
+              {(selectedInvoice.refunds?.length ?? 0) > 0 && (
+                <Box sx={{ mb:1 }}>
+                  <Typography variant="subtitle2">Refunds</Typography>
+                  {selectedInvoice.refunds!.map((r) => (
+                    <Typography key={r.id} variant="body2" color="text.secondary">
+                      {formatDate(r.date)} · {r.amount} {r.currency} · {r.status}{r.reason ? ` · ${r.reason}` : ""}
+                    </Typography>
+                  ))}
+                </Box>
+              )}
+
               {/* Show PayPal order id (if present) */}
               <Typography variant="subtitle2">PayPal Order ID</Typography>
               <Typography variant="body2" color="text.secondary" sx={{ mb:1 }}>
@@ -825,7 +860,7 @@ export default function TransactionHistoryPage(): JSX.Element {
         <DialogActions>
           <Button onClick={closeView}>Close</Button>
           {selectedInvoice && String(selectedInvoice.status).toLowerCase().includes("pending") && (<Button variant="contained" onClick={() => { payInvoice(selectedInvoice); closeView(); }}>Pay</Button>)}
-          {selectedInvoice && ["paid","completed","succeeded","success"].includes(String(selectedInvoice.status).toLowerCase()) && (<Button variant="contained" onClick={() => { openReceipt(selectedInvoice); closeView(); }}>Receipt</Button>)}
+          {selectedInvoice && PAID_STATUSES.includes(String(selectedInvoice.status).toLowerCase()) && (<Button variant="contained" onClick={() => { openReceipt(selectedInvoice); closeView(); }}>Receipt</Button>)}
         </DialogActions>
       </Dialog>
 
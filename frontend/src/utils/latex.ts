@@ -0,0 +1,88 @@
+/**
+ * Splitting question text into plain and LaTeX math segments for rendering with KaTeX.
+ * Mirrors splitMath in backend/src/ai/latex.ts (which also validates generated questions):
+ * `$...$` / `\(...\)` inline, `$$...$$` / `\[...\]` display, currency like "$12" stays text
+ * and `\$` is a literal dollar sign.
+ */
+
+export type MathSegment = { type: 'text' | 'math'; value: string; display: boolean };
+
+const PAIRED: Array<{ open: string; close: string; display: boolean }> = [
+  { open: '$$', close: '$$', display: true },
+  { open: '\\[', close: '\\]', display: true },
+  { open: '\\(', close: '\\)', display: false },
+];
+
+const isSpace = (c: string | undefined) => c === undefined || /\s/.test(c);
+
+// Closing `$` for an inline `$` opener at `start`, or -1 when the `$` is just text
+function inlineClose(text: string, start: number): number {
+  if (isSpace(text[start + 1]) || text[start + 1] === '$') return -1;
+  for (let j = start + 1; j < text.length; j++) {
+    if (text[j] === '\\') {
+      j++;
+      continue;
+    }
+    if (text[j] !== '$') continue;
+    if (!isSpace(text[j - 1]) && !/\d/.test(text[j + 1] ?? '')) return j;
+    // a `$` that cannot close means the opener was a currency sign
+    return -1;
+  }
+  return -1;
+}
+
+/**
+ * Split text into plain and math segments. Unclosed `$$`, `\(` and `\[` are reported in issues
+ * and kept as text.
+ */
+export function splitMath(input: string): { segments: MathSegment[]; issues: string[] } {
+  const text = String(input ?? '');
+  const segments: MathSegment[] = [];
+  const issues: string[] = [];
+  let buf = '';
+  const flush = () => {
+    if (buf) segments.push({ type: 'text', value: buf, display: false });
+    buf = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    if (text.startsWith('\\$', i)) {
+      buf += '$';
+      i += 2;
+      continue;
+    }
+    const pair = PAIRED.find((p) => text.startsWith(p.open, i));
+    if (pair) {
+      const end = text.indexOf(pair.close, i + pair.open.length);
+      if (end < 0) {
+        issues.push(`unclosed ${pair.open}`);
+        buf += text.slice(i);
+        break;
+      }
+      flush();
+      segments.push({ type: 'math', value: text.slice(i + pair.open.length, end), display: pair.display });
+      i = end + pair.close.length;
+      continue;
+    }
+    if (text.startsWith('\\)', i) || text.startsWith('\\]', i)) {
+      issues.push(`${text.slice(i, i + 2)} without an opening delimiter`);
+      buf += text.slice(i, i + 2);
+      i += 2;
+      continue;
+    }
+    if (text[i] === '$') {
+      const end = inlineClose(text, i);
+      if (end > 0) {
+        flush();
+        segments.push({ type: 'math', value: text.slice(i + 1, end), display: false });
+        i = end + 1;
+        continue;
+      }
+    }
+    buf += text[i];
+    i++;
+  }
+  flush();
+  return { segments, issues };
+}
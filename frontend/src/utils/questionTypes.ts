@@ -0,0 +1,23 @@
+/**
+ * Question types served by the backend (backend/src/ai/question-types.ts grades them).
+ * multi_select answers are arrays of choices; the other types answer with a string.
+ */
+export type QuestionType = 'multiple_choice' | 'multi_select' | 'numeric' | 'short_text';
+
+export type AnswerValue = string | string[];
+
+// Answers typed by the student rather than picked from the choices
+export function isTextEntry(type?: string | null): boolean {
+  return type === 'numeric' || type === 'short_text';
+}
+
+export function isAnswered(value: AnswerValue | null | undefined): boolean {
+  if (value == null) return false;
+  return Array.isArray(value) ? value.length > 0 : value.trim() !== '';
+}
+
+// Stored answers and keys as text ("2 | 3" for multi_select)
+export function formatAnswer(value: unknown): string {
+  if (value == null) return '';
+  return Array.isArray(value) ? value.join(' | ') : String(value);
+}